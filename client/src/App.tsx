@@ -22,6 +22,7 @@ import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
 import AuthCallback from "@/pages/auth-callback";
 import VerifyEmail from "@/pages/verify-email";
+import SavedSearchUnsubscribe from "@/pages/saved-search-unsubscribe";
 import SelectRole from "@/pages/select-role";
 import Applications from "@/pages/applications";
 import ApplicationDetail from "@/pages/application-detail";
@@ -35,11 +36,13 @@ import LandlordProperties from "@/pages/landlord-properties";
 import LandlordApplications from "@/pages/landlord-applications";
 import LandlordProfile from "@/pages/landlord-profile";
 import LandlordLeaseDashboard from "@/pages/landlord-lease-dashboard";
+import LeaseTemplates from "@/pages/lease-templates";
 import LandlordPaymentsVerification from "@/pages/landlord-payments-verification";
 import LandlordPaymentHistory from "@/pages/landlord-payment-history";
 import AgentDashboard from "@/pages/agent-dashboard-new";
 import AgentProperties from "@/pages/agent-properties";
 import AgentApplications from "@/pages/agent-applications";
+import AgentLeads from "@/pages/agent-leads";
 import AgentProfile from "@/pages/agent-profile";
 import Admin from "@/pages/admin";
 import AdminStorageMonitor from "@/pages/admin-storage-monitor";
@@ -53,6 +56,8 @@ import FAQ from "@/pages/faq";
 import SuccessStories from "@/pages/success-stories";
 import OwnerProfile from "@/pages/owner-profile";
 import PropertyRequirements from "@/pages/property-requirements";
+import MaintenanceRequests from "@/pages/maintenance-requests";
+import Disputes from "@/pages/disputes";
 
 import { StickyNav } from "@/components/sticky-nav";
 import { FloatingCTAButton } from "@/components/floating-cta-button";
@@ -99,6 +104,7 @@ function Router() {
         <Route path="/reset-password" component={ResetPassword} />
         <Route path="/auth/callback" component={AuthCallback} />
         <Route path="/verify-email" component={VerifyEmail} />
+        <Route path="/saved-searches/unsubscribe/:token" component={SavedSearchUnsubscribe} />
         <Route path="/select-role" component={SelectRole} />
 
         {/* Application Pages */}
@@ -152,6 +158,18 @@ function Router() {
           </ProtectedRoute>
         </Route>
 
+        <Route path="/maintenance">
+          <ProtectedRoute requiredRoles={["renter", "landlord", "property_manager", "admin", "super_admin"]}>
+            <MaintenanceRequests />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/disputes">
+          <ProtectedRoute requiredRoles={["renter", "landlord", "property_manager", "agent", "admin", "super_admin"]}>
+            <Disputes />
+          </ProtectedRoute>
+        </Route>
+
         {/* Landlord Routes */}
         <Route path="/landlord-dashboard">
           <ProtectedRoute requiredRoles={["landlord", "property_manager", "admin", "super_admin"]}>
@@ -183,13 +201,19 @@ function Router() {
           </ProtectedRoute>
         </Route>
 
+        <Route path="/lease-templates">
+          <ProtectedRoute requiredRoles={["landlord", "property_manager", "agent", "admin", "super_admin"]}>
+            <LeaseTemplates />
+          </ProtectedRoute>
+        </Route>
+
         <Route path="/landlord-payments-verification">
           <ProtectedRoute requiredRoles={["landlord", "property_manager", "admin", "super_admin"]}>
             <LandlordPaymentsVerification />
           </ProtectedRoute>
         </Route>
 
-        <Route path="/landlord-payment-history">
+        <Route path="/landlord-payment-history/:leaseId">
           <ProtectedRoute requiredRoles={["landlord", "property_manager", "admin", "super_admin"]}>
             <LandlordPaymentHistory />
           </ProtectedRoute>
@@ -214,6 +238,12 @@ function Router() {
           </ProtectedRoute>
         </Route>
 
+        <Route path="/agent-leads">
+          <ProtectedRoute requiredRoles={["agent", "admin", "super_admin"]}>
+            <AgentLeads />
+          </ProtectedRoute>
+        </Route>
+
         <Route path="/agent-profile">
           <ProtectedRoute requiredRoles={["agent", "admin", "super_admin"]}>
             <AgentProfile />
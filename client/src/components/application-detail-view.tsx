@@ -42,6 +42,8 @@ import { useToast } from '@/hooks/use-toast';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/lib/auth-context';
+import { ApplicationDocuments } from '@/components/application-documents';
+import { ApplicationScreening } from '@/components/application-screening';
 import {
   User,
   FileText,
@@ -60,6 +62,7 @@ import {
   ChevronRight,
   Loader2,
   Star,
+  ShieldCheck,
 } from 'lucide-react';
 
 // Application status badge colors
@@ -95,6 +98,15 @@ interface ScoreBreakdown {
   totalScore: number;
   maxScore: number;
   flags: string[];
+  rulesetSource?: 'property' | 'portfolio' | 'default';
+  explanations?: Array<{
+    category: string;
+    points: number;
+    maxPoints: number;
+    rule: string;
+    detail: string;
+    flags: string[];
+  }>;
 }
 
 interface StatusHistoryItem {
@@ -185,6 +197,7 @@ export function ApplicationDetailView({
   const isAdminOrOwner = user?.role === 'admin' || user?.role === 'owner';
   const canWithdraw = isApplicant && ['draft', 'pending', 'under_review', 'pending_verification'].includes(application.status);
   const canRecalculateScore = isAdminOrOwner && !isApplicant;
+  const canReviewDocuments = ['landlord', 'property_manager', 'agent', 'admin', 'super_admin'].includes(user?.role || '');
 
   // Status update mutation
   const statusMutation = useMutation({
@@ -305,6 +318,9 @@ export function ApplicationDetailView({
   const scorePercentage = scoreBreakdown
     ? Math.round((scoreBreakdown.totalScore / scoreBreakdown.maxScore) * 100)
     : 0;
+  // Category maximums follow the landlord's weights; older scores used fixed ones
+  const categoryMax = (category: string, fallback: number) =>
+    scoreBreakdown?.explanations?.find((e) => e.category === category)?.maxPoints ?? fallback;
 
   const auditData = application as any;
   const { statusHistory = [] } = auditData || {};
@@ -380,11 +396,11 @@ export function ApplicationDetailView({
 
           <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
             {[
-              { label: 'Income', value: scoreBreakdown.incomeScore, max: 25, icon: DollarSign, color: 'text-emerald-500' },
-              { label: 'Credit', value: scoreBreakdown.creditScore, max: 25, icon: TrendingUp, color: 'text-blue-500' },
-              { label: 'Rental History', value: scoreBreakdown.rentalHistoryScore, max: 20, icon: Home, color: 'text-amber-500' },
-              { label: 'Employment', value: scoreBreakdown.employmentScore, max: 15, icon: Briefcase, color: 'text-purple-500' },
-              { label: 'Documents', value: scoreBreakdown.documentsScore, max: 15, icon: FileText, color: 'text-indigo-500' },
+              { label: 'Income', value: scoreBreakdown.incomeScore, max: categoryMax('income', 25), icon: DollarSign, color: 'text-emerald-500' },
+              { label: 'Credit', value: scoreBreakdown.creditScore, max: categoryMax('credit', 25), icon: TrendingUp, color: 'text-blue-500' },
+              { label: 'Rental History', value: scoreBreakdown.rentalHistoryScore, max: categoryMax('rentalHistory', 20), icon: Home, color: 'text-amber-500' },
+              { label: 'Employment', value: scoreBreakdown.employmentScore, max: categoryMax('employment', 15), icon: Briefcase, color: 'text-purple-500' },
+              { label: 'Documents', value: scoreBreakdown.documentsScore, max: categoryMax('documents', 15), icon: FileText, color: 'text-indigo-500' },
             ].map((item) => (
               <div key={item.label} className="text-center p-4 rounded-xl bg-muted/30 border border-border/20 transition-all hover:bg-muted/50">
                 <item.icon className={cn("h-6 w-6 mx-auto mb-2 opacity-80", item.color)} />
@@ -411,6 +427,25 @@ export function ApplicationDetailView({
               </div>
             </div>
           )}
+
+          {!isApplicant && scoreBreakdown.explanations && scoreBreakdown.explanations.length > 0 && (
+            <div className="mt-4 pt-4 border-t space-y-1" data-testid="score-explanations">
+              <p className="text-sm font-medium text-muted-foreground mb-2">
+                How this score was calculated
+                {scoreBreakdown.rulesetSource && (
+                  <span className="text-xs font-normal"> · {scoreBreakdown.rulesetSource} rules</span>
+                )}
+              </p>
+              {scoreBreakdown.explanations.map((explanation) => (
+                <div key={explanation.rule + explanation.category} className="flex justify-between gap-4 text-xs">
+                  <span className="text-muted-foreground">{explanation.detail}</span>
+                  <span className="font-medium shrink-0">
+                    {explanation.maxPoints > 0 ? `${explanation.points} / ${explanation.maxPoints}` : 'flag'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </Card>
       ) : (
         /* Score Pending Section - only show after application is submitted */
@@ -645,27 +680,32 @@ export function ApplicationDetailView({
             </div>
           </AccordionTrigger>
           <AccordionContent className="p-6 pt-0">
-            <div className="space-y-3 p-4 bg-muted/30 border border-dashed rounded-lg">
-              {['id', 'proof_of_income', 'employment_verification', 'bank_statements'].map((docType) => {
-                const doc = application.documentStatus?.[docType] || application.documents?.[docType];
-                const uploaded = doc?.uploaded || !!doc;
-                const verified = doc?.verified || false;
-                return (
-                  <div key={docType} className="flex justify-between items-center p-2 hover:bg-muted/50 rounded-md transition-colors">
-                    <span className="text-sm font-medium capitalize">{docType.replace(/_/g, ' ')}</span>
-                    <div className="flex gap-2">
-                      <Badge variant={uploaded ? 'default' : 'outline'} className="text-[10px] uppercase tracking-widest font-bold">
-                        {uploaded ? 'Uploaded' : 'Missing'}
-                      </Badge>
-                      {uploaded && (
-                        <Badge variant={verified ? 'default' : 'secondary'} className="text-[10px] uppercase tracking-widest font-bold">
-                          {verified ? 'Verified' : 'Pending'}
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
+            <div className="p-4 bg-muted/30 border border-dashed rounded-lg">
+              <ApplicationDocuments
+                applicationId={application.id}
+                canUpload={isApplicant}
+                canReview={!isApplicant && canReviewDocuments}
+              />
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+
+        <AccordionItem value="screening" data-testid="accordion-screening" className="border rounded-xl px-2 shadow-sm bg-card/50 overflow-visible">
+          <AccordionTrigger className="px-4 py-6 hover:no-underline group">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-emerald-500/10 text-emerald-600 group-hover:scale-110 transition-transform">
+                <ShieldCheck className="h-5 w-5" />
+              </div>
+              <span className="font-bold uppercase tracking-widest text-xs">Screening</span>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="p-6 pt-0">
+            <div className="p-4 bg-muted/30 border border-dashed rounded-lg">
+              <ApplicationScreening
+                applicationId={application.id}
+                isApplicant={isApplicant}
+                canRun={!isApplicant && canReviewDocuments}
+              />
             </div>
           </AccordionContent>
         </AccordionItem>
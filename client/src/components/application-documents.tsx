@@ -0,0 +1,250 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ExternalLink, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { APPLICATION_DOCUMENT_TYPES } from "@shared/schema";
+import {
+  useApplicationDocuments,
+  useDocumentActions,
+  type DocumentVerification,
+} from "@/hooks/use-application-documents";
+
+const MAX_UPLOAD_BYTES = 7 * 1024 * 1024;
+
+export const formatDocumentType = (value: string) =>
+  value === "id" ? "Photo ID" : value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  verified: "default",
+  pending: "secondary",
+  rejected: "destructive",
+  expired: "outline",
+};
+
+export function DocumentStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status] || "outline"} className="text-[10px] uppercase tracking-widest font-bold">
+      {status}
+    </Badge>
+  );
+}
+
+const errorMessage = (err: unknown) => {
+  const raw = err instanceof Error ? err.message : "Something went wrong";
+  const match = raw.match(/^\d+: (.*)$/);
+  if (!match) return raw;
+  try {
+    return JSON.parse(match[1]).error || raw;
+  } catch {
+    return match[1];
+  }
+};
+
+export function DocumentReviewDialog({
+  document,
+  onOpenChange,
+}: {
+  document: DocumentVerification | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const { reviewDocument, isReviewing } = useDocumentActions();
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const handleReview = async (status: "verified" | "rejected") => {
+    if (!document) return;
+    try {
+      await reviewDocument({
+        id: document.id,
+        applicationId: document.application_id,
+        status,
+        rejectionReason: status === "rejected" ? rejectionReason.trim() : undefined,
+        // Expiry is picked as a calendar date and lapses at the end of that day
+        expiresAt: status === "verified" && expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast({ title: status === "verified" ? "Document verified" : "Document rejected" });
+      setRejectionReason("");
+      setExpiresOn("");
+      setNotes("");
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: "Review failed", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        {document && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Review {formatDocumentType(document.document_type)}</DialogTitle>
+              <DialogDescription>
+                {document.uploaded_files?.original_name} · uploaded {format(new Date(document.created_at), "MMM d, yyyy")}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              {document.file_url && (
+                <Button variant="outline" className="w-full" asChild>
+                  <a href={document.file_url} target="_blank" rel="noreferrer">
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open document
+                  </a>
+                </Button>
+              )}
+              {document.uploaded_files?.checksum && (
+                <p className="text-[10px] font-mono text-muted-foreground break-all">
+                  SHA-256 {document.uploaded_files.checksum}
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="document-expires">Valid until (optional)</Label>
+                <Input id="document-expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="document-rejection">Rejection reason</Label>
+                <Textarea
+                  id="document-rejection"
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  rows={2}
+                  placeholder="Required when rejecting. Shared with the applicant."
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="document-notes">Internal notes</Label>
+                <Textarea id="document-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                disabled={!rejectionReason.trim() || isReviewing}
+                onClick={() => handleReview("rejected")}
+                data-testid="button-reject-document"
+              >
+                Reject
+              </Button>
+              <Button disabled={isReviewing} onClick={() => handleReview("verified")} data-testid="button-verify-document">
+                Verify
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ApplicationDocumentsProps {
+  applicationId: string;
+  canUpload: boolean;
+  canReview: boolean;
+}
+
+export function ApplicationDocuments({ applicationId, canUpload, canReview }: ApplicationDocumentsProps) {
+  const { toast } = useToast();
+  const { data: documents = [], isLoading } = useApplicationDocuments(applicationId);
+  const { uploadDocument, isUploading } = useDocumentActions();
+  const [documentType, setDocumentType] = useState<string>("id");
+  const [reviewing, setReviewing] = useState<DocumentVerification | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    // Files travel base64-encoded in a JSON body, which the server caps at 10MB
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast({ title: "File too large", description: "Maximum file size is 7MB", variant: "destructive" });
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      return;
+    }
+    try {
+      await uploadDocument({ applicationId, documentType, file });
+      toast({ title: "Document uploaded", description: "It will be reviewed shortly." });
+    } catch (err) {
+      toast({ title: "Upload failed", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading documents...</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No documents uploaded yet.</p>
+      ) : (
+        documents.map((doc) => (
+          <div key={doc.id} className="flex justify-between items-start gap-3 p-2 hover:bg-muted/50 rounded-md transition-colors" data-testid={`document-${doc.id}`}>
+            <div className="min-w-0">
+              <p className="text-sm font-medium">{formatDocumentType(doc.document_type)}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {doc.file_url ? (
+                  <a href={doc.file_url} target="_blank" rel="noreferrer" className="underline">{doc.uploaded_files?.original_name}</a>
+                ) : doc.uploaded_files?.original_name}
+                {` · ${format(new Date(doc.created_at), "MMM d, yyyy")}`}
+                {doc.status === "verified" && doc.expires_at && ` · valid until ${format(new Date(doc.expires_at), "MMM d, yyyy")}`}
+              </p>
+              {doc.status === "rejected" && doc.rejection_reason && (
+                <p className="text-xs text-destructive mt-1">{doc.rejection_reason}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <DocumentStatusBadge status={doc.status} />
+              {canReview && ["pending", "verified"].includes(doc.status) && (
+                <Button size="sm" variant="outline" className="h-7" onClick={() => setReviewing(doc)}>
+                  Review
+                </Button>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+
+      {canUpload && (
+        <div className="flex flex-wrap items-center gap-2 pt-3 border-t">
+          <Select value={documentType} onValueChange={setDocumentType}>
+            <SelectTrigger className="h-9 w-[200px]" data-testid="select-document-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {APPLICATION_DOCUMENT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{formatDocumentType(type)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/pdf,image/jpeg,image/png,image/webp"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading} data-testid="button-upload-document">
+            {isUploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+            Upload
+          </Button>
+          <span className="text-xs text-muted-foreground">PDF, JPG or PNG up to 7MB</span>
+        </div>
+      )}
+
+      {canReview && <DocumentReviewDialog document={reviewing} onOpenChange={(open) => !open && setReviewing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { SCREENING_TYPES } from "@shared/schema";
+import {
+  useApplicationScreening,
+  useScreeningActions,
+  type ScreeningReportSummary,
+} from "@/hooks/use-application-screening";
+
+const TYPE_LABELS: Record<string, string> = {
+  credit: "Credit report",
+  criminal: "Criminal background",
+  eviction: "Eviction history",
+};
+
+const errorMessage = (err: unknown) => {
+  const raw = err instanceof Error ? err.message : "Something went wrong";
+  const match = raw.match(/^\d+: (.*)$/);
+  if (!match) return raw;
+  try {
+    return JSON.parse(match[1]).error || raw;
+  } catch {
+    return match[1];
+  }
+};
+
+function ReportResult({ report }: { report: ScreeningReportSummary }) {
+  if (report.status !== "completed" || !report.summary) {
+    return (
+      <Badge variant={report.status === "failed" ? "destructive" : "secondary"} className="text-[10px] uppercase tracking-widest font-bold">
+        {report.status}
+      </Badge>
+    );
+  }
+
+  const detail = report.screening_type === "credit"
+    ? `Score ${report.summary.score}`
+    : `${report.summary.recordCount || 0} record${report.summary.recordCount === 1 ? "" : "s"}`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground">{detail}</span>
+      <Badge variant={report.summary.result === "clear" ? "default" : "outline"} className="text-[10px] uppercase tracking-widest font-bold">
+        {report.summary.result}
+      </Badge>
+    </div>
+  );
+}
+
+function ReportDetailsDialog({ report, onOpenChange }: { report: ScreeningReportSummary | null; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState<Record<string, any> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const close = (open: boolean) => {
+    if (!open) {
+      setReason("");
+      setDetails(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleView = async () => {
+    if (!report) return;
+    setIsLoading(true);
+    try {
+      const res = await apiRequest("GET", `/api/v2/screening/reports/${report.id}?reason=${encodeURIComponent(reason.trim())}`);
+      const json = await res.json();
+      setDetails(json.data?.details || {});
+    } catch (err) {
+      toast({ title: "Could not open report", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!report} onOpenChange={close}>
+      <DialogContent className="sm:max-w-[560px]">
+        {report && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{TYPE_LABELS[report.screening_type]}</DialogTitle>
+              <DialogDescription>
+                Access to full screening reports is logged with the reason you give.
+              </DialogDescription>
+            </DialogHeader>
+
+            {details ? (
+              <pre className="text-xs bg-muted/50 rounded-md p-3 max-h-[360px] overflow-auto">
+                {JSON.stringify(details, null, 2)}
+              </pre>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="screening-access-reason">Reason for access</Label>
+                <Input
+                  id="screening-access-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Reviewing application decision"
+                />
+              </div>
+            )}
+
+            {!details && (
+              <DialogFooter>
+                <Button disabled={!reason.trim() || isLoading} onClick={handleView} data-testid="button-view-screening-report">
+                  {isLoading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  View report
+                </Button>
+              </DialogFooter>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ConsentForm({ applicationId }: { applicationId: string }) {
+  const { toast } = useToast();
+  const { giveConsent, isConsenting } = useScreeningActions(applicationId);
+  const [types, setTypes] = useState<string[]>([...SCREENING_TYPES]);
+  const [ssn, setSsn] = useState("");
+  const [signature, setSignature] = useState("");
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const toggleType = (type: string, checked: boolean) => {
+    setTypes((current) => (checked ? [...current, type] : current.filter((t) => t !== type)));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await giveConsent({
+        screeningTypes: types,
+        signature: signature.trim(),
+        ssn: types.includes("credit") && ssn.trim() ? ssn.trim() : undefined,
+        acknowledged: true,
+      });
+      toast({ title: "Screening authorized" });
+    } catch (err) {
+      toast({ title: "Could not record consent", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        The landlord can run the checks below only with your authorization. Reports are stored encrypted and
+        every access is logged. You can withdraw consent at any time before a check is run.
+      </p>
+
+      <div className="space-y-2">
+        {SCREENING_TYPES.map((type) => (
+          <label key={type} className="flex items-center gap-2 text-sm">
+            <Checkbox checked={types.includes(type)} onCheckedChange={(checked) => toggleType(type, checked === true)} />
+            {TYPE_LABELS[type]}
+          </label>
+        ))}
+      </div>
+
+      {types.includes("credit") && (
+        <div className="space-y-2">
+          <Label htmlFor="screening-ssn">Social Security number</Label>
+          <Input id="screening-ssn" value={ssn} onChange={(e) => setSsn(e.target.value)} placeholder="123-45-6789" autoComplete="off" />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="screening-signature">Signature (type your full legal name)</Label>
+        <Input id="screening-signature" value={signature} onChange={(e) => setSignature(e.target.value)} />
+      </div>
+
+      <label className="flex items-start gap-2 text-sm">
+        <Checkbox checked={acknowledged} onCheckedChange={(checked) => setAcknowledged(checked === true)} className="mt-0.5" />
+        I authorize these consumer reports to be obtained for evaluating my rental application.
+      </label>
+
+      <Button
+        onClick={handleSubmit}
+        disabled={!acknowledged || types.length === 0 || signature.trim().length < 2 || isConsenting}
+        data-testid="button-screening-consent"
+      >
+        {isConsenting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-1" />}
+        Authorize screening
+      </Button>
+    </div>
+  );
+}
+
+interface ApplicationScreeningProps {
+  applicationId: string;
+  isApplicant: boolean;
+  canRun: boolean;
+}
+
+export function ApplicationScreening({ applicationId, isApplicant, canRun }: ApplicationScreeningProps) {
+  const { toast } = useToast();
+  const { data, isLoading } = useApplicationScreening(applicationId);
+  const { revokeConsent, isRevoking, runScreening, isRunning } = useScreeningActions(applicationId);
+  const [viewing, setViewing] = useState<ScreeningReportSummary | null>(null);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading screening...</p>;
+  }
+
+  const consent = data?.consent;
+  const reports = data?.reports || [];
+
+  const handleRun = async () => {
+    try {
+      await runScreening(undefined);
+      toast({ title: "Screening complete" });
+    } catch (err) {
+      toast({ title: "Screening failed", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      await revokeConsent();
+      toast({ title: "Consent withdrawn" });
+    } catch (err) {
+      toast({ title: "Could not withdraw consent", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  if (!consent && isApplicant) {
+    return <ConsentForm applicationId={applicationId} />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {consent ? (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Authorized by {consent.signature} on {format(new Date(consent.grantedAt), "MMM d, yyyy")} for{" "}
+            {consent.screeningTypes.map((type) => TYPE_LABELS[type]?.toLowerCase() || type).join(", ")}
+          </p>
+          {isApplicant && (
+            <Button size="sm" variant="outline" className="h-7" onClick={handleRevoke} disabled={isRevoking}>
+              Withdraw consent
+            </Button>
+          )}
+          {canRun && (
+            <Button size="sm" className="h-7" onClick={handleRun} disabled={isRunning} data-testid="button-run-screening">
+              {isRunning && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Run screening
+            </Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">The applicant has not authorized screening yet.</p>
+      )}
+
+      {reports.map((report) => (
+        <div key={report.id} className="flex justify-between items-center gap-3 p-2 hover:bg-muted/50 rounded-md transition-colors" data-testid={`screening-report-${report.id}`}>
+          <div className="min-w-0">
+            <p className="text-sm font-medium">{TYPE_LABELS[report.screening_type]}</p>
+            <p className="text-xs text-muted-foreground">
+              {format(new Date(report.completed_at || report.created_at), "MMM d, yyyy")}
+              {report.status === "failed" && report.failure_reason && ` · ${report.failure_reason.replace(/_/g, " ")}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <ReportResult report={report} />
+            {canRun && report.status === "completed" && (
+              <Button size="sm" variant="outline" className="h-7" onClick={() => setViewing(report)}>
+                Details
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {canRun && <ReportDetailsDialog report={viewing} onOpenChange={(open) => !open && setViewing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter } from "lucide-react";
+import { DISPUTE_PRIORITIES, DISPUTE_STATUSES } from "@shared/schema";
+import { useDisputeQueue, type DisputeQueueFilters } from "@/hooks/use-disputes";
+import { DisputeThreadDialog, disputeStatusVariant, formatDisputeLabel } from "@/components/dispute-thread";
+
+export function DisputeQueue() {
+  const [status, setStatus] = useState("active");
+  const [priority, setPriority] = useState("all");
+  const [assignment, setAssignment] = useState("all");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const filters: DisputeQueueFilters = {
+    status: status === "active" ? undefined : status,
+    priority: priority === "all" ? undefined : priority,
+    assignment: assignment === "all" ? undefined : (assignment as DisputeQueueFilters["assignment"]),
+  };
+  const { data, isLoading } = useDisputeQueue(filters);
+  const disputes = data?.disputes || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4 items-center">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[200px]">
+            <Filter className="w-4 h-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">All active</SelectItem>
+            {DISPUTE_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>{formatDisputeLabel(s)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={priority} onValueChange={setPriority}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any priority</SelectItem>
+            {DISPUTE_PRIORITIES.map((p) => (
+              <SelectItem key={p} value={p}>{formatDisputeLabel(p)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={assignment} onValueChange={setAssignment}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Everyone</SelectItem>
+            <SelectItem value="mine">Assigned to me</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+        {data?.pagination && (
+          <span className="text-sm text-muted-foreground">{data.pagination.total} disputes</span>
+        )}
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="p-6"><Skeleton className="h-[200px] w-full" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dispute</TableHead>
+                <TableHead>Parties</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Assignee</TableHead>
+                <TableHead className="text-right">Age</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {disputes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground py-8">
+                    No disputes match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                disputes.map((dispute) => (
+                  <TableRow key={dispute.id} data-testid={`dispute-row-${dispute.id}`}>
+                    <TableCell>
+                      <Button variant="link" className="h-auto p-0 font-medium" onClick={() => setSelectedId(dispute.id)}>
+                        {dispute.subject}
+                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDisputeLabel(dispute.dispute_type)}
+                        {dispute.properties?.title ? ` · ${dispute.properties.title}` : ""}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <p>{dispute.initiator?.full_name || dispute.initiator?.email}</p>
+                      {dispute.respondent && (
+                        <p className="text-muted-foreground">vs {dispute.respondent.full_name || dispute.respondent.email}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={disputeStatusVariant(dispute.status)} className="text-[10px]">
+                        {formatDisputeLabel(dispute.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={dispute.priority === "urgent" ? "destructive" : "outline"} className="text-[10px] uppercase">
+                        {dispute.priority || "normal"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {dispute.assignee?.full_name || dispute.assignee?.email || (
+                        <span className="text-muted-foreground">Unassigned</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(dispute.created_at))}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <DisputeThreadDialog disputeId={selectedId} onOpenChange={(open) => !open && setSelectedId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Lock, Send, UserCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { DISPUTE_PRIORITIES } from "@shared/schema";
+import { useDispute, useDisputeActions } from "@/hooks/use-disputes";
+
+interface DisputeThreadDialogProps {
+  disputeId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function formatDisputeLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+export function disputeStatusVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "escalated") return "destructive";
+  if (status === "resolved" || status === "closed") return "secondary";
+  if (status === "open") return "default";
+  return "outline";
+}
+
+export function DisputeThreadDialog({ disputeId, onOpenChange }: DisputeThreadDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: dispute, isLoading } = useDispute(disputeId);
+  const { addMessage, updateStatus, assign, isUpdating } = useDisputeActions(disputeId);
+  const [reply, setReply] = useState("");
+  const [isInternal, setIsInternal] = useState(false);
+  const [resolution, setResolution] = useState("");
+
+  const canManage = !!dispute?.permissions.canManage;
+
+  const run = async (action: () => Promise<unknown>, successTitle: string) => {
+    try {
+      await action();
+      toast({ title: successTitle });
+      return true;
+    } catch (err) {
+      toast({
+        title: "Action failed",
+        description: err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleReply = async () => {
+    const sent = await run(() => addMessage({ message: reply.trim(), isInternal }), isInternal ? "Internal note added" : "Message sent");
+    if (sent) {
+      setReply("");
+      setIsInternal(false);
+    }
+  };
+
+  const handleStatus = async (status: string) => {
+    const sent = await run(
+      () => updateStatus({ status, resolution: resolution.trim() || undefined }),
+      `Dispute marked ${formatDisputeLabel(status).toLowerCase()}`
+    );
+    if (sent) setResolution("");
+  };
+
+  return (
+    <Dialog open={!!disputeId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        {isLoading || !dispute ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{dispute.subject}</DialogTitle>
+              <DialogDescription>
+                {formatDisputeLabel(dispute.dispute_type)}
+                {dispute.properties?.title ? ` · ${dispute.properties.title}` : ""}
+                {` · Opened ${format(new Date(dispute.created_at), "MMM d, yyyy")}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={disputeStatusVariant(dispute.status)}>{formatDisputeLabel(dispute.status)}</Badge>
+              <Badge variant="outline">Priority: {formatDisputeLabel(dispute.priority || "normal")}</Badge>
+              {canManage && (
+                <Badge variant="outline">
+                  {dispute.assignee ? `Assigned to ${dispute.assignee.full_name || dispute.assignee.email}` : "Unassigned"}
+                </Badge>
+              )}
+            </div>
+
+            <div className="text-sm space-y-1">
+              <p><span className="text-muted-foreground">Filed by:</span> {dispute.initiator?.full_name || dispute.initiator?.email || "Unknown"}</p>
+              {dispute.respondent && (
+                <p><span className="text-muted-foreground">Against:</span> {dispute.respondent.full_name || dispute.respondent.email}</p>
+              )}
+            </div>
+
+            <p className="text-sm whitespace-pre-wrap p-3 bg-muted rounded">{dispute.description}</p>
+
+            {dispute.resolution && (
+              <div className="text-sm p-3 rounded border border-green-200 bg-green-50 dark:bg-green-950/20">
+                <p className="font-medium mb-1">Resolution</p>
+                <p className="whitespace-pre-wrap">{dispute.resolution}</p>
+              </div>
+            )}
+
+            <div className="space-y-3 pt-2 border-t" data-testid="dispute-messages">
+              {dispute.messages.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No messages yet.</p>
+              ) : (
+                dispute.messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`text-sm p-3 rounded ${
+                      message.is_internal
+                        ? "border border-amber-200 bg-amber-50 dark:bg-amber-950/20"
+                        : message.sender_id === user?.id
+                          ? "bg-primary/5"
+                          : "bg-muted"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                      <span className="flex items-center gap-1">
+                        {message.is_internal && <Lock className="h-3 w-3" />}
+                        {message.users?.full_name || "User"}
+                        {message.is_internal && " · internal note"}
+                      </span>
+                      <span>{format(new Date(message.created_at), "MMM d, h:mm a")}</span>
+                    </div>
+                    <p className="whitespace-pre-wrap">{message.message}</p>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {dispute.status !== "closed" && (
+              <div className="space-y-2">
+                <Textarea
+                  placeholder={isInternal ? "Note visible to admins only..." : "Write a reply..."}
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  rows={3}
+                  data-testid="input-dispute-reply"
+                />
+                <div className="flex items-center justify-between">
+                  {canManage ? (
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox checked={isInternal} onCheckedChange={(c) => setIsInternal(c === true)} />
+                      Internal note
+                    </label>
+                  ) : <span />}
+                  <Button size="sm" onClick={handleReply} disabled={!reply.trim() || isUpdating} data-testid="button-dispute-reply">
+                    <Send className="h-4 w-4 mr-1" />
+                    Send
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {canManage && (
+              <div className="space-y-3 pt-3 border-t">
+                <div className="flex flex-wrap items-center gap-2">
+                  {dispute.assigned_to !== user?.id && (
+                    <Button size="sm" variant="outline" disabled={isUpdating} onClick={() => run(() => assign({}), "Dispute assigned to you")}>
+                      <UserCheck className="h-4 w-4 mr-1" />
+                      Assign to me
+                    </Button>
+                  )}
+                  <Select
+                    value={dispute.priority || "normal"}
+                    onValueChange={(priority) => run(() => assign({ priority }), "Priority updated")}
+                  >
+                    <SelectTrigger className="h-9 w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISPUTE_PRIORITIES.map((priority) => (
+                        <SelectItem key={priority} value={priority}>{formatDisputeLabel(priority)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {dispute.validNextStatuses.length > 0 && (
+                  <>
+                    {dispute.validNextStatuses.includes("resolved") && (
+                      <div className="space-y-2">
+                        <Label htmlFor="dispute-resolution">Resolution summary</Label>
+                        <Textarea
+                          id="dispute-resolution"
+                          placeholder="Required when resolving. Shared with both parties."
+                          value={resolution}
+                          onChange={(e) => setResolution(e.target.value)}
+                          rows={2}
+                        />
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      {dispute.validNextStatuses.map((status) => (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant={status === "resolved" ? "default" : "outline"}
+                          disabled={isUpdating || (status === "resolved" && !resolution.trim() && !dispute.resolution)}
+                          onClick={() => handleStatus(status)}
+                          data-testid={`button-dispute-status-${status}`}
+                        >
+                          {formatDisputeLabel(status)}
+                        </Button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {!canManage && dispute.permissions.canWithdraw && (
+              <div className="pt-3 border-t flex justify-end">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isUpdating}
+                  onClick={() => confirm("Withdraw this dispute?") && handleStatus("closed")}
+                  data-testid="button-dispute-withdraw"
+                >
+                  Withdraw dispute
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter } from "lucide-react";
+import { DOCUMENT_VERIFICATION_STATUSES } from "@shared/schema";
+import { useDocumentReviewQueue, type DocumentVerification } from "@/hooks/use-application-documents";
+import { DocumentReviewDialog, DocumentStatusBadge, formatDocumentType } from "@/components/application-documents";
+
+export function DocumentReviewQueue() {
+  const [status, setStatus] = useState("pending");
+  const [reviewing, setReviewing] = useState<DocumentVerification | null>(null);
+  const { data, isLoading } = useDocumentReviewQueue(status);
+  const documents = data?.documents || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-4 items-center">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[200px]">
+            <Filter className="w-4 h-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DOCUMENT_VERIFICATION_STATUSES.map((s) => (
+              <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {data?.pagination && (
+          <span className="text-sm text-muted-foreground">{data.pagination.total} documents</span>
+        )}
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="p-6"><Skeleton className="h-[200px] w-full" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applicant</TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead>Property</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground py-8">
+                    No documents in this queue.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                documents.map((doc) => (
+                  <TableRow key={doc.id} data-testid={`document-row-${doc.id}`}>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{doc.users?.full_name || "Applicant"}</p>
+                      <p className="text-xs text-muted-foreground">{doc.users?.email}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{formatDocumentType(doc.document_type)}</p>
+                      {doc.file_url ? (
+                        <a href={doc.file_url} target="_blank" rel="noreferrer" className="text-xs underline text-muted-foreground">
+                          {doc.uploaded_files?.original_name}
+                        </a>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">{doc.uploaded_files?.original_name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{doc.applications?.properties?.title || "—"}</TableCell>
+                    <TableCell><DocumentStatusBadge status={doc.status} /></TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(doc.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {["pending", "verified"].includes(doc.status) && (
+                        <Button variant="outline" size="sm" onClick={() => setReviewing(doc)}>Review</Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <DocumentReviewDialog document={reviewing} onOpenChange={(open) => !open && setReviewing(null)} />
+    </div>
+  );
+}
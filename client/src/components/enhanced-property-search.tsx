@@ -1,7 +1,8 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Link } from 'wouter';
+import { Link, useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
-import { Search, MapPin, DollarSign, Bed, Sparkles } from 'lucide-react';
+import { Search, MapPin, DollarSign, Bed, Sparkles, Home, Map as MapIcon } from 'lucide-react';
+import { usePropertySuggestions, type SearchSuggestion } from '@/hooks/use-properties';
 
 const POPULAR_LOCATIONS = [
   'Downtown',
@@ -12,8 +13,14 @@ const POPULAR_LOCATIONS = [
   'East Village',
 ];
 
+type SuggestionItem = Pick<SearchSuggestion, 'label'> & Partial<SearchSuggestion>;
+
+const SUGGESTION_DEBOUNCE_MS = 200;
+
 export function EnhancedPropertySearch() {
+  const [, navigate] = useLocation();
   const [location, setLocation] = useState('');
+  const [debouncedLocation, setDebouncedLocation] = useState('');
   const [minPrice, setMinPrice] = useState('');
   const [maxPrice, setMaxPrice] = useState('');
   const [bedrooms, setBedrooms] = useState('');
@@ -25,27 +32,44 @@ export function EnhancedPropertySearch() {
   const listRef = useRef<HTMLDivElement>(null);
   const listId = 'location-suggestions';
 
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedLocation(location), SUGGESTION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [location]);
+
+  const { data: serverSuggestions = [] } = usePropertySuggestions(debouncedLocation);
+
   const filteredLocations = POPULAR_LOCATIONS.filter((loc) =>
     loc.toLowerCase().includes(location.toLowerCase())
   );
 
-  const allSuggestions = location.length === 0 ? recentSearches : filteredLocations.slice(0, 5);
+  // Live listings first; the static areas only fill in while nothing matches
+  const allSuggestions: SuggestionItem[] = location.length === 0
+    ? recentSearches.map((label) => ({ label }))
+    : serverSuggestions.length > 0
+      ? serverSuggestions
+      : filteredLocations.slice(0, 5).map((label) => ({ label }));
 
   const buildSearchParams = () => {
     const params = new URLSearchParams();
-    if (location) params.append('location', location);
+    if (location) params.append('q', location);
     if (minPrice) params.append('minPrice', minPrice);
     if (maxPrice) params.append('maxPrice', maxPrice);
     if (bedrooms) params.append('bedrooms', bedrooms);
     return params.toString() ? `?${params.toString()}` : '';
   };
 
-  const selectSuggestion = useCallback((value: string) => {
-    setLocation(value);
+  const selectSuggestion = useCallback((item: SuggestionItem) => {
+    // Address suggestions are single listings, so go straight to them
+    if (item.propertyId) {
+      navigate(`/property/${item.propertyId}`);
+      return;
+    }
+    setLocation(item.label);
     setShowSuggestions(false);
     setActiveIndex(-1);
     inputRef.current?.focus();
-  }, []);
+  }, [navigate]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (!showSuggestions || allSuggestions.length === 0) return;
@@ -134,7 +158,7 @@ export function EnhancedPropertySearch() {
               >
                 <div className="p-2">
                   <p className="text-xs text-muted-foreground px-2 py-1" aria-hidden="true">
-                    {location.length === 0 ? 'Recent Searches' : 'Popular Areas'}
+                    {location.length === 0 ? 'Recent Searches' : serverSuggestions.length > 0 ? 'Suggestions' : 'Popular Areas'}
                   </p>
                   {allSuggestions.map((item, idx) => (
                     <button
@@ -151,10 +175,19 @@ export function EnhancedPropertySearch() {
                     >
                       {location.length === 0 ? (
                         <Search className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+                      ) : item.type === 'address' ? (
+                        <Home className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+                      ) : item.type === 'neighborhood' ? (
+                        <MapIcon className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
                       ) : (
                         <MapPin className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
                       )}
-                      {item}
+                      <span className="flex-1 truncate">{item.label}</span>
+                      {item.type && item.type !== 'address' && (
+                        <span className="text-xs text-muted-foreground">
+                          {item.listingCount} {item.listingCount === 1 ? 'listing' : 'listings'}
+                        </span>
+                      )}
                     </button>
                   ))}
                 </div>
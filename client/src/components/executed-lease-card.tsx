@@ -0,0 +1,128 @@
+import { useRef } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileCheck2, ShieldCheck, ShieldAlert, Upload, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useExecutedLease, useLeaseDocumentActions } from "@/hooks/use-lease-document";
+
+interface ExecutedLeaseCardProps {
+  applicationId: string;
+  // Landlords can re-render the PDF if generation failed at countersign
+  canGenerate?: boolean;
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.");
+
+export function ExecutedLeaseCard({ applicationId, canGenerate = false }: ExecutedLeaseCardProps) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { data: document, isLoading } = useExecutedLease(applicationId);
+  const { generate, isGenerating, verify, isVerifying, verification } = useLeaseDocumentActions(applicationId);
+
+  const handleGenerate = async () => {
+    try {
+      await generate();
+      toast({ title: "Executed lease generated" });
+    } catch (err) {
+      toast({ title: "Could not generate lease", description: errorText(err), variant: "destructive" });
+    }
+  };
+
+  const handleVerify = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      await verify(file);
+    } catch (err) {
+      toast({ title: "Could not verify document", description: errorText(err), variant: "destructive" });
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!document) {
+    if (!canGenerate) return null;
+    return (
+      <div className="rounded-lg border p-4 flex items-center justify-between gap-4" data-testid={`executed-lease-${applicationId}`}>
+        <p className="text-sm text-muted-foreground">The signed lease PDF has not been generated yet.</p>
+        <Button size="sm" variant="outline" className="gap-2" onClick={handleGenerate} disabled={isGenerating} data-testid="button-generate-executed-lease">
+          <RefreshCw className={`w-4 h-4 ${isGenerating ? "animate-spin" : ""}`} />
+          Generate PDF
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3" data-testid={`executed-lease-${applicationId}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <FileCheck2 className="w-4 h-4 text-primary" />
+            Executed Lease
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Generated {format(new Date(document.created_at), "MMM d, yyyy h:mm a")}
+            {document.draft_version ? ` · Draft v${document.draft_version}` : ""}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {document.download_url && (
+            <Button variant="outline" size="sm" className="gap-2" asChild>
+              <a href={document.download_url} target="_blank" rel="noopener noreferrer" data-testid="link-download-executed-lease">
+                <Download className="w-4 h-4" />
+                Download PDF
+              </a>
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => fileInput.current?.click()}
+            disabled={isVerifying}
+            data-testid="button-verify-executed-lease"
+          >
+            <Upload className="w-4 h-4" />
+            {isVerifying ? "Checking..." : "Verify a Copy"}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/pdf"
+            className="hidden"
+            onChange={(e) => handleVerify(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-muted-foreground">SHA-256</p>
+        <code className="block text-xs break-all bg-muted rounded px-2 py-1">{document.document_hash}</code>
+      </div>
+
+      {verification && (
+        <div className={`flex items-start gap-2 rounded-md p-3 text-sm ${verification.valid ? "bg-green-50 dark:bg-green-950/30" : "bg-red-50 dark:bg-red-950/30"}`}>
+          {verification.valid ? (
+            <ShieldCheck className="w-4 h-4 mt-0.5 text-green-600" />
+          ) : (
+            <ShieldAlert className="w-4 h-4 mt-0.5 text-red-600" />
+          )}
+          <div className="space-y-1">
+            <p className="font-medium">
+              {verification.valid ? "This copy matches the executed lease." : "This copy does not match the executed lease."}
+            </p>
+            {verification.valid && !verification.isLatest && (
+              <Badge variant="secondary">Earlier generated version</Badge>
+            )}
+            {!verification.valid && (
+              <p className="text-xs text-muted-foreground break-all">Uploaded file hash: {verification.uploadedHash}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,16 +4,8 @@ import "leaflet/dist/leaflet.css";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, School, ShoppingBag, Train, Trees, Building2, Coffee, Utensils, Dumbbell } from "lucide-react";
-
-interface NearbyPlace {
-  name: string;
-  distance: number;
-}
-
-interface NearbyPlacesData {
-  [category: string]: NearbyPlace[];
-}
+import { MapPin, School, ShoppingBag, Train, Trees, Building2, Coffee, Utensils, Dumbbell, Hospital } from "lucide-react";
+import type { NearbyPlacesData } from "@/hooks/use-nearby-places";
 
 interface InteractiveMapProps {
   center: LatLngTuple;
@@ -31,17 +23,19 @@ const placeTypeIcons: Record<string, { icon: typeof MapPin; color: string }> = {
   restaurant: { icon: Utensils, color: "#F59E0B" },
   cafe: { icon: Coffee, color: "#A78BFA" },
   gym: { icon: Dumbbell, color: "#EF4444" },
+  hospital: { icon: Hospital, color: "#DC2626" },
   default: { icon: Building2, color: "#6B7280" },
 };
 
 function getPlaceIcon(type: string) {
   const normalizedType = type.toLowerCase();
   if (normalizedType.includes("school") || normalizedType.includes("education")) return placeTypeIcons.school;
-  if (normalizedType.includes("shop") || normalizedType.includes("store") || normalizedType.includes("mall")) return placeTypeIcons.shopping;
+  if (normalizedType.includes("shop") || normalizedType.includes("store") || normalizedType.includes("grocer") || normalizedType.includes("mall")) return placeTypeIcons.shopping;
   if (normalizedType.includes("transit") || normalizedType.includes("station") || normalizedType.includes("bus")) return placeTypeIcons.transit;
   if (normalizedType.includes("park") || normalizedType.includes("garden")) return placeTypeIcons.park;
   if (normalizedType.includes("restaurant") || normalizedType.includes("food")) return placeTypeIcons.restaurant;
   if (normalizedType.includes("cafe") || normalizedType.includes("coffee")) return placeTypeIcons.cafe;
+  if (normalizedType.includes("hospital") || normalizedType.includes("clinic")) return placeTypeIcons.hospital;
   if (normalizedType.includes("gym") || normalizedType.includes("fitness")) return placeTypeIcons.gym;
   return placeTypeIcons.default;
 }
@@ -136,17 +130,19 @@ export function InteractiveMap({ center, title, address, nearbyPlaces = {}, show
         name: place.name,
         type: category,
         distance: `${place.distance} mi`,
-        coords: generateNearbyCoordinates(center, idx),
+        coords: place.latitude != null && place.longitude != null
+          ? [place.latitude, place.longitude]
+          : generateNearbyCoordinates(center, idx),
       });
       idx++;
     });
   });
 
   const filteredPlaces = selectedFilter 
-    ? allPlaces.filter(p => p.type.toLowerCase().includes(selectedFilter.toLowerCase()))
+    ? allPlaces.filter(p => p.type.toLowerCase() === selectedFilter)
     : allPlaces;
 
-  const filterTypes = ["School", "Shopping", "Transit", "Park", "Restaurant"];
+  const filterTypes = Object.keys(nearbyPlaces).filter((category) => nearbyPlaces[category].length > 0);
 
   return (
     <div className="relative w-full rounded-lg overflow-hidden border" data-testid="section-interactive-map">
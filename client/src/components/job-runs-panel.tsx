@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter, Loader2, Lock, Play } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { JOB_RUN_STATUSES } from "@shared/schema";
+import { useJobs, useJobRuns, useJobActions, type JobRun } from "@/hooks/use-jobs";
+
+const formatLabel = (value: string) => value.replace(/[_-]/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+const errorMessage = (err: unknown) => {
+  const raw = err instanceof Error ? err.message : "Something went wrong";
+  const match = raw.match(/^\d+: (.*)$/);
+  if (!match) return raw;
+  try {
+    return JSON.parse(match[1]).error || raw;
+  } catch {
+    return match[1];
+  }
+};
+
+function StatusBadge({ status }: { status: string | null }) {
+  if (!status) return <span className="text-xs text-muted-foreground">Never run</span>;
+  const variant = status === "failed" ? "destructive" : status === "running" ? "secondary" : "default";
+  return <Badge variant={variant} className="text-[10px] uppercase tracking-widest font-bold">{status}</Badge>;
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function RunOutcome({ run }: { run: JobRun }) {
+  if (run.error) {
+    return <p className="text-xs text-destructive break-words">{run.error}</p>;
+  }
+  if (!run.result) return null;
+
+  // Only scalar counters are shown inline; nested reports stay in the database
+  const counters = Object.entries(run.result).filter(([, value]) => typeof value === "number");
+  return (
+    <p className="text-xs text-muted-foreground">
+      {counters.map(([key, value]) => `${value} ${key.replace(/([A-Z])/g, " $1").toLowerCase()}`).join(" · ")}
+    </p>
+  );
+}
+
+export function JobRunsPanel() {
+  const { toast } = useToast();
+  const [job, setJob] = useState("all");
+  const [status, setStatus] = useState("all");
+  const { data: jobs = [], isLoading: jobsLoading } = useJobs();
+  const { data: runsData, isLoading: runsLoading } = useJobRuns({
+    job: job === "all" ? undefined : job,
+    status: status === "all" ? undefined : status,
+  });
+  const { runJob, runningJob, setEnabled, isToggling } = useJobActions();
+
+  const runs = runsData?.runs || [];
+
+  const handleRun = async (name: string) => {
+    try {
+      const run = await runJob(name);
+      toast({
+        title: run.status === "succeeded" ? `${formatLabel(name)} completed` : `${formatLabel(name)} failed`,
+        description: run.error || undefined,
+        variant: run.status === "succeeded" ? undefined : "destructive",
+      });
+    } catch (err) {
+      toast({ title: "Could not run job", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  const handleToggle = async (name: string, enabled: boolean) => {
+    try {
+      await setEnabled({ name, enabled });
+      toast({ title: enabled ? "Job enabled" : "Job paused" });
+    } catch (err) {
+      toast({ title: "Could not update job", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        {jobsLoading ? (
+          <div className="p-6"><Skeleton className="h-[200px] w-full" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Last run</TableHead>
+                <TableHead>Next run</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground py-8">
+                    No jobs registered yet. Jobs appear once the scheduler has started.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                jobs.map((scheduled) => {
+                  const isLocked = !!scheduled.locked_until && new Date(scheduled.locked_until) > new Date();
+                  return (
+                    <TableRow key={scheduled.name} data-testid={`job-row-${scheduled.name}`}>
+                      <TableCell className="max-w-[280px]">
+                        <p className="font-medium">{formatLabel(scheduled.name)}</p>
+                        <p className="text-xs text-muted-foreground">{scheduled.description}</p>
+                      </TableCell>
+                      <TableCell className="text-xs">{scheduled.schedule}</TableCell>
+                      <TableCell className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <StatusBadge status={isLocked ? "running" : scheduled.last_status} />
+                          {scheduled.consecutive_failures > 0 && (
+                            <span className="text-xs text-destructive">{scheduled.consecutive_failures} failures in a row</span>
+                          )}
+                        </div>
+                        {scheduled.last_run_at && (
+                          <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(scheduled.last_run_at))} ago</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {scheduled.enabled ? format(new Date(scheduled.next_run_at), "MMM d, HH:mm") : "Paused"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={scheduled.enabled}
+                          disabled={isToggling}
+                          onCheckedChange={(checked) => handleToggle(scheduled.name, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isLocked || !!runningJob}
+                          onClick={() => handleRun(scheduled.name)}
+                          data-testid={`button-run-job-${scheduled.name}`}
+                        >
+                          {runningJob === scheduled.name ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          ) : isLocked ? (
+                            <Lock className="w-4 h-4 mr-1" />
+                          ) : (
+                            <Play className="w-4 h-4 mr-1" />
+                          )}
+                          Run now
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <div className="flex flex-wrap gap-4 items-center">
+        <Select value={job} onValueChange={setJob}>
+          <SelectTrigger className="w-[260px]">
+            <Filter className="w-4 h-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All jobs</SelectItem>
+            {jobs.map((scheduled) => (
+              <SelectItem key={scheduled.name} value={scheduled.name}>{formatLabel(scheduled.name)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any status</SelectItem>
+            {JOB_RUN_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>{formatLabel(s)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {runsData && (
+          <span className="text-sm text-muted-foreground">{runsData.pagination.total} runs</span>
+        )}
+      </div>
+
+      <Card>
+        {runsLoading ? (
+          <div className="p-6"><Skeleton className="h-[200px] w-full" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-sm text-muted-foreground py-8">
+                    No runs recorded.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell>
+                      <p className="font-medium text-sm">{formatLabel(run.job_name)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {run.trigger === "manual" ? "Manual" : "Scheduled"}
+                        {run.attempt > 1 && ` · attempt ${run.attempt}`}
+                      </p>
+                    </TableCell>
+                    <TableCell><StatusBadge status={run.status} /></TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {format(new Date(run.started_at), "MMM d, HH:mm:ss")}
+                      {run.instance_id && <p className="truncate max-w-[180px]">{run.instance_id}</p>}
+                    </TableCell>
+                    <TableCell className="text-xs">{formatDuration(run.duration_ms)}</TableCell>
+                    <TableCell className="max-w-[320px]"><RunOutcome run={run} /></TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+}
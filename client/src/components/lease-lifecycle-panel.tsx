@@ -0,0 +1,455 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { CalendarClock, RefreshCw, LogOut, Settings } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { useLeaseLifecycle, type LeaseLifecycle } from "@/hooks/use-lease-lifecycle";
+
+const STATUS_LABELS: Record<LeaseLifecycle["lease"]["status"], string> = {
+  active: "Active",
+  month_to_month: "Month to month",
+  expired: "Ended",
+  terminated: "Terminated early",
+};
+
+interface LeaseLifecyclePanelProps {
+  leaseId: string;
+  viewerRole: "landlord" | "tenant";
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.");
+const formatDay = (value: string) => format(new Date(value), "MMM d, yyyy");
+
+function RenewalOfferDialog({
+  open,
+  onOpenChange,
+  lifecycle,
+  onSubmit,
+  isSubmitting,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lifecycle: LeaseLifecycle;
+  onSubmit: (offer: { monthlyRent: number; termMonths?: number; monthToMonth: boolean; message?: string }) => Promise<void>;
+  isSubmitting: boolean;
+}) {
+  const [monthlyRent, setMonthlyRent] = useState(lifecycle.lease.monthlyRent);
+  const [termMonths, setTermMonths] = useState("12");
+  const [monthToMonth, setMonthToMonth] = useState(false);
+  const [message, setMessage] = useState("");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Offer a Renewal</DialogTitle>
+          <DialogDescription>
+            The new term starts when the current one ends on {formatDay(lifecycle.lease.leaseEndDate)}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="renewal-rent">Monthly rent</Label>
+            <Input
+              id="renewal-rent"
+              type="number"
+              min="0"
+              value={monthlyRent}
+              onChange={(e) => setMonthlyRent(e.target.value)}
+              data-testid="input-renewal-rent"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="renewal-month-to-month"
+              checked={monthToMonth}
+              onCheckedChange={(checked) => setMonthToMonth(checked === true)}
+            />
+            <Label htmlFor="renewal-month-to-month">Month to month</Label>
+          </div>
+          {!monthToMonth && (
+            <div>
+              <Label htmlFor="renewal-term">Term (months)</Label>
+              <Input
+                id="renewal-term"
+                type="number"
+                min="1"
+                max="60"
+                value={termMonths}
+                onChange={(e) => setTermMonths(e.target.value)}
+                data-testid="input-renewal-term"
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="renewal-message">Message to tenant</Label>
+            <Textarea id="renewal-message" value={message} onChange={(e) => setMessage(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() =>
+              onSubmit({
+                monthlyRent: parseFloat(monthlyRent),
+                termMonths: monthToMonth ? undefined : parseInt(termMonths, 10),
+                monthToMonth,
+                message: message || undefined,
+              })
+            }
+            disabled={isSubmitting || !monthlyRent}
+            data-testid="button-send-renewal"
+          >
+            Send Offer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function NoticeDialog({
+  open,
+  onOpenChange,
+  lifecycle,
+  viewerRole,
+  onSubmit,
+  isSubmitting,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lifecycle: LeaseLifecycle;
+  viewerRole: LeaseLifecyclePanelProps["viewerRole"];
+  onSubmit: (notice: { moveOutDate: string; reason?: string }) => Promise<void>;
+  isSubmitting: boolean;
+}) {
+  const [moveOutDate, setMoveOutDate] = useState("");
+  const [reason, setReason] = useState("");
+  const { lease } = lifecycle;
+
+  const earliest = new Date(Date.now() + lease.noticePeriodDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const leavingEarly =
+    lease.status === "active" && !!moveOutDate && new Date(moveOutDate) < new Date(lease.leaseEndDate.slice(0, 10));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Give Notice to Vacate</DialogTitle>
+          <DialogDescription>
+            This lease requires {lease.noticePeriodDays} days' notice. The earliest move-out date is {formatDay(earliest)}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="notice-date">Move-out date</Label>
+            <Input
+              id="notice-date"
+              type="date"
+              min={earliest}
+              value={moveOutDate}
+              onChange={(e) => setMoveOutDate(e.target.value)}
+              data-testid="input-notice-date"
+            />
+          </div>
+          {leavingEarly && viewerRole === "tenant" && (
+            <p className="text-sm text-amber-700 dark:text-amber-400">
+              This is before your lease ends on {formatDay(lease.leaseEndDate)}.
+              {lease.earlyTerminationFee
+                ? ` An early termination fee of $${lease.earlyTerminationFee.toFixed(2)} will be charged.`
+                : ""}
+            </p>
+          )}
+          <div>
+            <Label htmlFor="notice-reason">Reason (optional)</Label>
+            <Textarea id="notice-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={() => onSubmit({ moveOutDate, reason: reason || undefined })}
+            disabled={isSubmitting || !moveOutDate}
+            data-testid="button-submit-notice"
+          >
+            Give Notice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TerminationTermsDialog({
+  open,
+  onOpenChange,
+  lifecycle,
+  onSubmit,
+  isSubmitting,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lifecycle: LeaseLifecycle;
+  onSubmit: (terms: { noticePeriodDays: number; earlyTerminationFee: number | null }) => Promise<void>;
+  isSubmitting: boolean;
+}) {
+  const [noticePeriodDays, setNoticePeriodDays] = useState(String(lifecycle.lease.noticePeriodDays));
+  const [fee, setFee] = useState(lifecycle.lease.earlyTerminationFee ? String(lifecycle.lease.earlyTerminationFee) : "");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Termination Terms</DialogTitle>
+          <DialogDescription>How much notice either side must give, and what leaving a fixed term early costs.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="terms-notice">Notice period (days)</Label>
+            <Input
+              id="terms-notice"
+              type="number"
+              min="0"
+              max="180"
+              value={noticePeriodDays}
+              onChange={(e) => setNoticePeriodDays(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="terms-fee">Early termination fee</Label>
+            <Input id="terms-fee" type="number" min="0" placeholder="None" value={fee} onChange={(e) => setFee(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() =>
+              onSubmit({ noticePeriodDays: parseInt(noticePeriodDays, 10), earlyTerminationFee: fee ? parseFloat(fee) : null })
+            }
+            disabled={isSubmitting || noticePeriodDays === ""}
+          >
+            Save Terms
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Renewal offers, notices to vacate and termination terms for one lease
+export function LeaseLifecyclePanel({ leaseId, viewerRole }: LeaseLifecyclePanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<"renewal" | "notice" | "terms" | null>(null);
+  const {
+    data: lifecycle,
+    isLoading,
+    offerRenewal,
+    respondToRenewal,
+    withdrawRenewal,
+    giveNotice,
+    cancelNotice,
+    updateTerminationTerms,
+  } = useLeaseLifecycle(leaseId);
+
+  if (isLoading || !lifecycle) return null;
+
+  const { lease } = lifecycle;
+  const running = lease.status === "active" || lease.status === "month_to_month";
+  const pendingRenewal = lifecycle.renewals.find((renewal) => renewal.status === "pending");
+  const pendingNotice = lifecycle.notices.find((notice) => notice.status === "pending");
+
+  const run = async (action: () => Promise<unknown>, successTitle: string, errorTitle: string) => {
+    try {
+      await action();
+      toast({ title: successTitle });
+      setDialog(null);
+    } catch (err) {
+      toast({ title: errorTitle, description: errorText(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="p-6" data-testid={`lease-lifecycle-${leaseId}`}>
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <CalendarClock className="h-5 w-5 text-muted-foreground" />
+            <h3 className="font-semibold">{lease.property?.title || "Lease Term"}</h3>
+            <Badge variant={running ? "default" : "secondary"}>{STATUS_LABELS[lease.status]}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {lease.status === "month_to_month"
+              ? `Month to month, current period ends ${formatDay(lease.leaseEndDate)}`
+              : `${formatDay(lease.leaseStartDate)} – ${formatDay(lease.leaseEndDate)}`}
+            {" · "}${parseFloat(lease.monthlyRent).toFixed(2)}/month · {lease.noticePeriodDays} days' notice
+          </p>
+        </div>
+        {running && (
+          <div className="flex flex-wrap gap-2">
+            {viewerRole === "landlord" && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setDialog("terms")} data-testid="button-termination-terms">
+                  <Settings className="h-4 w-4 mr-1" />
+                  Terms
+                </Button>
+                {!pendingRenewal && !pendingNotice && (
+                  <Button size="sm" onClick={() => setDialog("renewal")} data-testid="button-offer-renewal">
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Offer Renewal
+                  </Button>
+                )}
+              </>
+            )}
+            {!pendingNotice && (
+              <Button variant="outline" size="sm" onClick={() => setDialog("notice")} data-testid="button-give-notice">
+                <LogOut className="h-4 w-4 mr-1" />
+                Give Notice
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {pendingRenewal && (
+        <div className="rounded-md border p-4 mb-3" data-testid={`renewal-${pendingRenewal.id}`}>
+          <p className="font-medium">
+            Renewal offer:{" "}
+            {pendingRenewal.term_months ? `${pendingRenewal.term_months} months` : "month to month"} at $
+            {parseFloat(pendingRenewal.monthly_rent).toFixed(2)}/month
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Starts {formatDay(pendingRenewal.start_date)}
+            {pendingRenewal.end_date ? `, ends ${formatDay(pendingRenewal.end_date)}` : ""} · Respond by{" "}
+            {formatDay(pendingRenewal.response_deadline)}
+          </p>
+          {pendingRenewal.message && <p className="text-sm mt-2">{pendingRenewal.message}</p>}
+          <div className="flex gap-2 mt-3">
+            {viewerRole === "tenant" ? (
+              <>
+                <Button
+                  size="sm"
+                  disabled={respondToRenewal.isPending}
+                  onClick={() =>
+                    run(
+                      () => respondToRenewal.mutateAsync({ renewalId: pendingRenewal.id, decision: "accept" }),
+                      "Renewal accepted",
+                      "Could not accept renewal"
+                    )
+                  }
+                  data-testid="button-accept-renewal"
+                >
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={respondToRenewal.isPending}
+                  onClick={() =>
+                    run(
+                      () => respondToRenewal.mutateAsync({ renewalId: pendingRenewal.id, decision: "decline" }),
+                      "Renewal declined",
+                      "Could not decline renewal"
+                    )
+                  }
+                  data-testid="button-decline-renewal"
+                >
+                  Decline
+                </Button>
+              </>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={withdrawRenewal.isPending}
+                onClick={() =>
+                  run(() => withdrawRenewal.mutateAsync(pendingRenewal.id), "Renewal offer withdrawn", "Could not withdraw offer")
+                }
+                data-testid="button-withdraw-renewal"
+              >
+                Withdraw Offer
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {pendingNotice && (
+        <div className="rounded-md border border-amber-300 dark:border-amber-800 p-4 mb-3" data-testid={`notice-${pendingNotice.id}`}>
+          <p className="font-medium">
+            {pendingNotice.given_by_role === "tenant" ? "Tenant" : "Landlord"} gave notice to vacate by{" "}
+            {formatDay(pendingNotice.move_out_date)}
+          </p>
+          {pendingNotice.early_termination && (
+            <p className="text-sm text-muted-foreground">
+              Early termination
+              {pendingNotice.fee_payment ? ` · $${parseFloat(pendingNotice.fee_payment.amount).toFixed(2)} fee (${pendingNotice.fee_payment.status})` : ""}
+            </p>
+          )}
+          {pendingNotice.reason && <p className="text-sm mt-2">{pendingNotice.reason}</p>}
+          {pendingNotice.given_by === user?.id && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="mt-3"
+              disabled={cancelNotice.isPending}
+              onClick={() => run(() => cancelNotice.mutateAsync(pendingNotice.id), "Notice withdrawn", "Could not withdraw notice")}
+              data-testid="button-withdraw-notice"
+            >
+              Withdraw Notice
+            </Button>
+          )}
+        </div>
+      )}
+
+      {lifecycle.renewals.filter((renewal) => renewal.status !== "pending").length > 0 && (
+        <div className="text-sm text-muted-foreground space-y-1">
+          {lifecycle.renewals
+            .filter((renewal) => renewal.status !== "pending")
+            .map((renewal) => (
+              <p key={renewal.id}>
+                Renewal at ${parseFloat(renewal.monthly_rent).toFixed(2)}/month offered {formatDay(renewal.created_at)}: {renewal.status}
+              </p>
+            ))}
+        </div>
+      )}
+
+      {dialog === "renewal" && (
+        <RenewalOfferDialog
+          open
+          onOpenChange={(open) => !open && setDialog(null)}
+          lifecycle={lifecycle}
+          isSubmitting={offerRenewal.isPending}
+          onSubmit={(offer) => run(() => offerRenewal.mutateAsync(offer), "Renewal offer sent", "Could not send renewal offer")}
+        />
+      )}
+      {dialog === "notice" && (
+        <NoticeDialog
+          open
+          onOpenChange={(open) => !open && setDialog(null)}
+          lifecycle={lifecycle}
+          viewerRole={viewerRole}
+          isSubmitting={giveNotice.isPending}
+          onSubmit={(notice) => run(() => giveNotice.mutateAsync(notice), "Notice given", "Could not give notice")}
+        />
+      )}
+      {dialog === "terms" && (
+        <TerminationTermsDialog
+          open
+          onOpenChange={(open) => !open && setDialog(null)}
+          lifecycle={lifecycle}
+          isSubmitting={updateTerminationTerms.isPending}
+          onSubmit={(terms) =>
+            run(() => updateTerminationTerms.mutateAsync(terms), "Termination terms saved", "Could not save terms")
+          }
+        />
+      )}
+    </Card>
+  );
+}
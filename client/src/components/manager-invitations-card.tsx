@@ -0,0 +1,73 @@
+import { format } from "date-fns";
+import { Mail } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useManagerInvitations, MANAGER_PERMISSION_LABELS } from "@/hooks/use-property-managers";
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.");
+
+// Pending invitations for a property manager to accept or decline
+export function ManagerInvitationsCard() {
+  const { toast } = useToast();
+  const { data: invitations = [], respond } = useManagerInvitations();
+
+  if (invitations.length === 0) return null;
+
+  const handleRespond = async (invitationId: string, decision: "accept" | "decline") => {
+    try {
+      await respond.mutateAsync({ invitationId, decision });
+      toast({ title: decision === "accept" ? "Invitation accepted" : "Invitation declined" });
+    } catch (err) {
+      toast({ title: "Could not respond to invitation", description: errorText(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="p-6" data-testid="card-manager-invitations">
+      <div className="flex items-center gap-2 mb-4">
+        <Mail className="h-5 w-5 text-muted-foreground" />
+        <h3 className="font-semibold">Management Invitations</h3>
+      </div>
+      <div className="space-y-3">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="rounded-md border p-4" data-testid={`manager-invitation-${invitation.id}`}>
+            <p className="font-medium">{invitation.properties?.title || "Property"}</p>
+            <p className="text-sm text-muted-foreground">
+              {invitation.inviter?.full_name ? `From ${invitation.inviter.full_name} · ` : ""}
+              Expires {format(new Date(invitation.expires_at), "MMM d, yyyy")}
+            </p>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {invitation.permissions.map((permission) => (
+                <Badge key={permission} variant="secondary">
+                  {MANAGER_PERMISSION_LABELS[permission] ?? permission}
+                </Badge>
+              ))}
+            </div>
+            {invitation.notes && <p className="text-sm mt-2">{invitation.notes}</p>}
+            <div className="flex gap-2 mt-3">
+              <Button
+                size="sm"
+                disabled={respond.isPending}
+                onClick={() => handleRespond(invitation.id, "accept")}
+                data-testid={`button-accept-invitation-${invitation.id}`}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={respond.isPending}
+                onClick={() => handleRespond(invitation.id, "decline")}
+                data-testid={`button-decline-invitation-${invitation.id}`}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { useLocation } from "wouter";
+import { Loader2, Mail, Phone, PawPrint, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { MatchScoreBadge, MatchShortfalls } from "@/components/requirement-matches";
+import { useMatchingRenters, type MatchingRenter } from "@/hooks/use-requirement-matches";
+import { useMessagingActions } from "@/hooks/use-messaging";
+import { useToast } from "@/hooks/use-toast";
+
+interface MatchingRentersDialogProps {
+  propertyId: string | null;
+  propertyTitle?: string;
+  onClose: () => void;
+}
+
+export function MatchingRentersDialog({ propertyId, propertyTitle, onClose }: MatchingRentersDialogProps) {
+  const { data: matches = [], isLoading } = useMatchingRenters(propertyId);
+  const { createConversation, isCreating } = useMessagingActions();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const messageRenter = async (renter: NonNullable<MatchingRenter["renter"]>) => {
+    if (!renter.userId || !propertyId) return;
+    try {
+      const conversation = await createConversation({
+        participantIds: [renter.userId],
+        propertyId,
+        subject: propertyTitle?.slice(0, 200),
+        initialMessage: `Hi ${renter.contactName || "there"}, your rental requirements look like a good fit for ${propertyTitle || "one of my listings"}. Would you like to know more or set up a tour?`,
+      });
+      navigate(`/messages?conversation=${conversation.id}`);
+    } catch (err) {
+      toast({ title: "Error", description: "Failed to start a conversation", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!propertyId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Matching Renters</DialogTitle>
+          <DialogDescription>
+            Renters whose requirements fit {propertyTitle || "this listing"}, best match first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : matches.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No renters match this listing yet. Matches are refreshed every hour.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {matches.map((match) => (
+              <div key={match.id} className="rounded-md border p-3" data-testid={`matching-renter-${match.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold text-foreground">{match.renter?.contactName || "Renter"}</p>
+                  <MatchScoreBadge score={match.score} />
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground mt-1">
+                  {match.renter?.budgetMax && (
+                    <span>Up to ${parseFloat(match.renter.budgetMax).toLocaleString()}/mo</span>
+                  )}
+                  {match.renter?.bedrooms !== null && match.renter?.bedrooms !== undefined && (
+                    <span>{match.renter.bedrooms}+ bd</span>
+                  )}
+                  {match.renter?.moveInDate && <span>Moving {match.renter.moveInDate}</span>}
+                  {match.renter?.hasPets && (
+                    <span className="flex items-center gap-1">
+                      <PawPrint className="h-3 w-3" /> Has pets
+                    </span>
+                  )}
+                </div>
+                {match.renter && (
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs mt-2">
+                    {match.renter.contactEmail && (
+                      <a href={`mailto:${match.renter.contactEmail}`} className="flex items-center gap-1 text-primary hover:underline">
+                        <Mail className="h-3 w-3" /> {match.renter.contactEmail}
+                      </a>
+                    )}
+                    {match.renter.contactPhone && (
+                      <a href={`tel:${match.renter.contactPhone}`} className="flex items-center gap-1 text-primary hover:underline">
+                        <Phone className="h-3 w-3" /> {match.renter.contactPhone}
+                      </a>
+                    )}
+                    {!match.renter.contactEmail && match.renter.userId && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        disabled={isCreating}
+                        onClick={() => messageRenter(match.renter!)}
+                        data-testid={`button-message-renter-${match.id}`}
+                      >
+                        <MessageSquare className="h-3 w-3 mr-1" /> Message
+                      </Button>
+                    )}
+                  </div>
+                )}
+                <MatchShortfalls breakdown={match.breakdown} />
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
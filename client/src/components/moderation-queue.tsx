@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EyeOff, Filter, UserCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { REPORT_PRIORITIES, REPORT_STATUSES } from "@shared/schema";
+import {
+  useModerationQueue,
+  useModerationActions,
+  type ContentReport,
+  type ModerationQueueFilters,
+} from "@/hooks/use-moderation";
+
+const formatLabel = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+function isHidden(report: ContentReport) {
+  return !!(report.properties?.moderation_hidden_at || report.reviews?.moderation_hidden_at);
+}
+
+function ResolveReportDialog({ report, onOpenChange }: { report: ContentReport | null; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const { resolve, isUpdating } = useModerationActions();
+  const [resolution, setResolution] = useState("");
+  const [contentAction, setContentAction] = useState("none");
+
+  const handleClose = async (status: "resolved" | "dismissed") => {
+    if (!report) return;
+    try {
+      await resolve({ id: report.id, status, resolution: resolution.trim(), contentAction });
+      toast({ title: status === "resolved" ? "Report resolved" : "Report dismissed" });
+      setResolution("");
+      setContentAction("none");
+      onOpenChange(false);
+    } catch (err) {
+      toast({
+        title: "Could not close report",
+        description: err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!report} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        {report && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{formatLabel(report.report_type)}</DialogTitle>
+              <DialogDescription>
+                {report.property_id ? "Listing" : "Review"} reported by {report.reporter?.full_name || report.reporter?.email || "a user"}
+                {report.target_report_count > 1 && ` · ${report.target_report_count} open reports on this content`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="text-sm p-3 bg-muted rounded space-y-1">
+                {report.properties ? (
+                  <>
+                    <a href={`/property/${report.properties.id}`} target="_blank" rel="noreferrer" className="font-medium underline">
+                      {report.properties.title}
+                    </a>
+                    <p className="text-muted-foreground">{report.properties.address}</p>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-medium">{report.reviews?.title || `${report.reviews?.rating ?? "?"}-star review`}</p>
+                    <p className="whitespace-pre-wrap">{report.reviews?.comment}</p>
+                  </>
+                )}
+                {isHidden(report) && (
+                  <Badge variant="destructive" className="text-[10px]"><EyeOff className="w-3 h-3 mr-1" />Hidden from public</Badge>
+                )}
+              </div>
+
+              {report.description && (
+                <div className="text-sm">
+                  <p className="text-muted-foreground mb-1">Reporter's note</p>
+                  <p className="whitespace-pre-wrap">{report.description}</p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Content</Label>
+                <Select value={contentAction} onValueChange={setContentAction}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{isHidden(report) ? "Keep hidden" : "Leave visible"}</SelectItem>
+                    {isHidden(report)
+                      ? <SelectItem value="restore">Restore to public view</SelectItem>
+                      : <SelectItem value="hide">Hide from public view</SelectItem>}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="moderation-resolution">Resolution note</Label>
+                <Textarea
+                  id="moderation-resolution"
+                  value={resolution}
+                  onChange={(e) => setResolution(e.target.value)}
+                  rows={3}
+                  placeholder="Applies to every open report on this content"
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" disabled={!resolution.trim() || isUpdating} onClick={() => handleClose("dismissed")}>
+                Dismiss
+              </Button>
+              <Button disabled={!resolution.trim() || isUpdating} onClick={() => handleClose("resolved")}>
+                Resolve
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ModerationQueue() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [status, setStatus] = useState("open");
+  const [targetType, setTargetType] = useState("all");
+  const [assignment, setAssignment] = useState("all");
+  const [selected, setSelected] = useState<ContentReport | null>(null);
+  const { assign, isUpdating } = useModerationActions();
+
+  const filters: ModerationQueueFilters = {
+    status: status === "open" ? undefined : status,
+    targetType: targetType === "all" ? undefined : (targetType as ModerationQueueFilters["targetType"]),
+    assignment: assignment === "all" ? undefined : (assignment as ModerationQueueFilters["assignment"]),
+  };
+  const { data, isLoading } = useModerationQueue(filters);
+  const reports = data?.reports || [];
+
+  const handleAssign = async (id: string, payload: { priority?: string } = {}) => {
+    try {
+      await assign({ id, ...payload });
+      toast({ title: payload.priority ? "Priority updated" : "Report assigned to you" });
+    } catch {
+      toast({ title: "Could not update report", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4 items-center">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[200px]">
+            <Filter className="w-4 h-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">All open</SelectItem>
+            {REPORT_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>{formatLabel(s)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={targetType} onValueChange={setTargetType}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All content</SelectItem>
+            <SelectItem value="property">Listings</SelectItem>
+            <SelectItem value="review">Reviews</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={assignment} onValueChange={setAssignment}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Everyone</SelectItem>
+            <SelectItem value="mine">Assigned to me</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+        {data && (
+          <span className="text-sm text-muted-foreground">
+            {data.pagination.total} reports · auto-hide after {data.autoHideThreshold} reports
+          </span>
+        )}
+      </div>
+
+      <Card>
+        {isLoading ? (
+          <div className="p-6"><Skeleton className="h-[200px] w-full" /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Content</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Assignee</TableHead>
+                <TableHead>Age</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-muted-foreground py-8">
+                    Nothing to moderate.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                reports.map((report) => (
+                  <TableRow key={report.id} data-testid={`report-row-${report.id}`}>
+                    <TableCell className="max-w-[260px]">
+                      <p className="font-medium truncate">
+                        {report.properties?.title || report.reviews?.comment || "Removed content"}
+                      </p>
+                      <div className="flex gap-1 mt-1">
+                        <Badge variant="outline" className="text-[10px]">{report.property_id ? "Listing" : "Review"}</Badge>
+                        {report.target_report_count > 1 && (
+                          <Badge variant="secondary" className="text-[10px]">{report.target_report_count} reports</Badge>
+                        )}
+                        {isHidden(report) && (
+                          <Badge variant="destructive" className="text-[10px]"><EyeOff className="w-3 h-3 mr-1" />Hidden</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {formatLabel(report.report_type)}
+                      {report.status !== "pending" && (
+                        <p className="text-muted-foreground">{formatLabel(report.status)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={report.priority || "normal"}
+                        onValueChange={(priority) => handleAssign(report.id, { priority })}
+                        disabled={isUpdating}
+                      >
+                        <SelectTrigger className="h-8 w-[110px] text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REPORT_PRIORITIES.map((p) => (
+                            <SelectItem key={p} value={p}>{formatLabel(p)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {report.assignee?.full_name || report.assignee?.email || (
+                        <span className="text-muted-foreground">Unassigned</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(report.created_at))}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      {report.assigned_to !== user?.id && ["pending", "under_review"].includes(report.status) && (
+                        <Button variant="ghost" size="icon" title="Assign to me" disabled={isUpdating} onClick={() => handleAssign(report.id)}>
+                          <UserCheck className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {["pending", "under_review"].includes(report.status) && (
+                        <Button variant="outline" size="sm" onClick={() => setSelected(report)}>Review</Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <ResolveReportDialog report={selected} onOpenChange={(open) => !open && setSelected(null)} />
+    </div>
+  );
+}
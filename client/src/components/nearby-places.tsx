@@ -1,6 +1,6 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { 
-  UtensilsCrossed, ShoppingCart, GraduationCap, Bus
+  MapPin, ShoppingCart, GraduationCap, Bus, Trees, Hospital
 } from "lucide-react";
 import type { NearbyPlacesData } from "@/hooks/use-nearby-places";
 
@@ -8,18 +8,20 @@ interface NearbyPlacesProps {
   places: NearbyPlacesData;
 }
 
-const categoryIcons: Record<string, typeof UtensilsCrossed> = {
-  Restaurants: UtensilsCrossed,
-  Groceries: ShoppingCart,
+const categoryIcons: Record<string, typeof MapPin> = {
   Schools: GraduationCap,
   Transit: Bus,
+  Groceries: ShoppingCart,
+  Parks: Trees,
+  Hospitals: Hospital,
 };
 
 const categoryColors: Record<string, string> = {
-  Restaurants: "bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-100",
-  Groceries: "bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-100",
   Schools: "bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-100",
   Transit: "bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-100",
+  Groceries: "bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-100",
+  Parks: "bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-100",
+  Hospitals: "bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-100",
 };
 
 export function NearbyPlaces({ places }: NearbyPlacesProps) {
@@ -38,11 +40,11 @@ export function NearbyPlaces({ places }: NearbyPlacesProps) {
 
   return (
     <div 
-      className="grid grid-cols-2 md:grid-cols-4 gap-4"
+      className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4"
       data-testid="section-nearby-places-grid"
     >
       {categories.map((category) => {
-        const IconComponent = categoryIcons[category] || UtensilsCrossed;
+        const IconComponent = categoryIcons[category] || MapPin;
         const colorClass = categoryColors[category] || "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-100";
         const categoryPlaces = places[category] || [];
 
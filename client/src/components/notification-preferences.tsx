@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthToken } from "@/lib/auth-context";
+import {
+  isPushSupported,
+  getNotificationPermission,
+  requestNotificationPermission,
+  subscribeToPushNotifications,
+  unsubscribeFromPushNotifications,
+} from "@/lib/pwa";
+import type { UpdateNotificationPreferences } from "@shared/schema";
+import { useNotificationPreferences, type NotificationPreferences } from "@/hooks/use-notification-preferences";
+
+const TOGGLES: {
+  field: keyof UpdateNotificationPreferences;
+  column: keyof NotificationPreferences;
+  label: string;
+  description: string;
+}[] = [
+  { field: "emailNewApplications", column: "email_new_applications", label: "New applications & requests", description: "Applications, scoring results and maintenance requests on your properties" },
+  { field: "emailStatusUpdates", column: "email_status_updates", label: "Status updates", description: "Application decisions, document reviews, disputes and maintenance progress" },
+  { field: "emailPropertySaved", column: "email_property_saved", label: "Saved properties", description: "Price drops on properties you have favorited" },
+  { field: "emailLeaseReminders", column: "email_lease_reminders", label: "Lease & rent reminders", description: "Lease signatures, deposits and upcoming rent" },
+];
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  instant: "Instantly",
+  daily: "Daily summary",
+  weekly: "Weekly summary",
+};
+
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const { preferences, isLoading, updatePreferences, isUpdating } = useNotificationPreferences();
+
+  const [isSubscribing, setIsSubscribing] = useState(false);
+  const pushSupported = isPushSupported();
+
+  const save = async (updates: UpdateNotificationPreferences) => {
+    try {
+      await updatePreferences(updates);
+    } catch {
+      toast({ title: "Could not save preferences", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  // Subscribes this browser before turning push on so the first notification has somewhere to go
+  const togglePush = async (enabled: boolean) => {
+    setIsSubscribing(true);
+    try {
+      const token = await getAuthToken();
+      if (!token) return;
+
+      if (!enabled) {
+        await unsubscribeFromPushNotifications(token);
+        await save({ pushNotifications: false });
+        return;
+      }
+
+      const permission = await requestNotificationPermission();
+      if (permission !== "granted") {
+        toast({ title: "Notifications are blocked", description: "Allow notifications for this site in your browser settings.", variant: "destructive" });
+        return;
+      }
+
+      if (!(await subscribeToPushNotifications(token))) {
+        toast({ title: "Could not enable push notifications", description: "Please try again.", variant: "destructive" });
+        return;
+      }
+
+      await save({ pushNotifications: true });
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Settings2 className="h-5 w-5" />
+          Notification Settings
+        </CardTitle>
+        <CardDescription>Choose how we reach you and how often.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !preferences ? (
+          <Skeleton className="h-[240px] w-full" />
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-4">
+              <p className="text-sm font-semibold">Email</p>
+              {TOGGLES.map((toggle) => (
+                <div key={toggle.field} className="flex items-start justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`pref-${toggle.field}`}>{toggle.label}</Label>
+                    <p className="text-xs text-muted-foreground">{toggle.description}</p>
+                  </div>
+                  <Switch
+                    id={`pref-${toggle.field}`}
+                    checked={!!preferences[toggle.column]}
+                    disabled={isUpdating}
+                    onCheckedChange={(checked) => save({ [toggle.field]: checked })}
+                    data-testid={`switch-${toggle.field}`}
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">Payment and tour emails are always sent.</p>
+            </div>
+
+            <div className="flex items-start justify-between gap-4 border-t pt-4">
+              <div>
+                <Label>Email frequency</Label>
+                <p className="text-xs text-muted-foreground">
+                  Summaries bundle routine updates into one email. Urgent notices are still sent right away.
+                </p>
+              </div>
+              <Select
+                value={preferences.notification_frequency}
+                disabled={isUpdating}
+                onValueChange={(value) => save({ notificationFrequency: value })}
+              >
+                <SelectTrigger className="w-[170px]" data-testid="select-notification-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-start justify-between gap-4 border-t pt-4">
+              <div>
+                <Label htmlFor="pref-push">Push notifications</Label>
+                <p className="text-xs text-muted-foreground">
+                  {!pushSupported
+                    ? "This browser does not support push notifications"
+                    : getNotificationPermission() === "denied"
+                      ? "Notifications are blocked for this site in your browser settings"
+                      : "Application decisions, new applications, payments and lease updates on this device"}
+                </p>
+              </div>
+              <Switch
+                id="pref-push"
+                checked={preferences.push_notifications}
+                disabled={isUpdating || isSubscribing || (!pushSupported && !preferences.push_notifications)}
+                onCheckedChange={togglePush}
+                data-testid="switch-pushNotifications"
+              />
+            </div>
+
+            <div className="flex items-start justify-between gap-4 border-t pt-4">
+              <div>
+                <Label htmlFor="pref-in-app">In-app notifications</Label>
+                <p className="text-xs text-muted-foreground">Show notifications in the bell and on this page</p>
+              </div>
+              <Switch
+                id="pref-in-app"
+                checked={preferences.in_app_notifications}
+                disabled={isUpdating}
+                onCheckedChange={(checked) => save({ inAppNotifications: checked })}
+                data-testid="switch-inAppNotifications"
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Bed, Bath, Maximize, Heart, MapPin, Calendar, Image as ImageIcon } from "lucide-react";
 import type { Property } from "@/lib/types";
 import { useFavorites } from "@/hooks/use-favorites";
+import { HighlightedText } from "@/components/search-highlight";
 import placeholderExterior from "@assets/generated_images/modern_luxury_home_exterior_with_blue_sky.png";
 
 interface PropertyListCardProps {
@@ -80,7 +81,11 @@ export const PropertyListCard = memo(function PropertyListCard({ property, onQui
                     onClick={(e) => e.stopPropagation()}
                     data-testid="text-property-title"
                   >
-                    {property.title}
+                    {property.search_highlight?.title ? (
+                      <HighlightedText text={property.search_highlight.title} />
+                    ) : (
+                      property.title
+                    )}
                   </h3>
                 </Link>
                 <div className="flex items-center text-muted-foreground text-sm mt-1">
@@ -99,7 +104,11 @@ export const PropertyListCard = memo(function PropertyListCard({ property, onQui
             </div>
 
             <p className="text-muted-foreground text-sm line-clamp-2 mb-3" data-testid="text-property-description">
-              {property.description || "Beautiful property available for rent. Contact us for more details."}
+              {property.search_highlight?.snippet ? (
+                <HighlightedText text={property.search_highlight.snippet} />
+              ) : (
+                property.description || "Beautiful property available for rent. Contact us for more details."
+              )}
             </p>
 
             <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
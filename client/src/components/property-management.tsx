@@ -23,9 +23,11 @@ import {
   Trash2,
   Plus,
   TrendingUp,
-  Calendar
+  Calendar,
+  Filter
 } from "lucide-react";
 import { format } from "date-fns";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 import type { Property, PropertyNote } from "@shared/schema";
 
 interface PropertyAnalytics {
@@ -35,8 +37,28 @@ interface PropertyAnalytics {
   applicationsByStatus: Record<string, number>;
   listedAt: string | null;
   priceHistory: Array<{ price: string; changedAt: string; changedBy?: string }>;
+  range: { from: string; to: string; days: number };
+  timeSeries: Array<{
+    date: string;
+    views: number;
+    galleryOpens: number;
+    favorites: number;
+    inquiryStarts: number;
+    applicationStarts: number;
+  }>;
+  funnel: {
+    steps: Array<{ step: "view" | "inquiry" | "application"; count: number; rateFromPrevious: number }>;
+    viewToApplicationRate: number;
+    submitted: { inquiries: number; applications: number };
+  };
 }
 
+const FUNNEL_LABELS: Record<string, string> = {
+  view: "Viewed listing",
+  inquiry: "Started an inquiry",
+  application: "Started an application",
+};
+
 interface PropertyManagementProps {
   property: Property;
   onUpdate?: () => void;
@@ -273,6 +295,68 @@ export function PropertyManagement({ property, onUpdate }: PropertyManagementPro
               </Card>
             </div>
 
+            {analytics?.data?.timeSeries && (
+              <Card>
+                <CardHeader className="py-4">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Eye className="h-5 w-5" />
+                    Last {analytics.data.range.days} Days
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="pb-6">
+                  <ResponsiveContainer width="100%" height={220}>
+                    <LineChart data={analytics.data.timeSeries}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" tickFormatter={(date) => format(new Date(`${date}T00:00:00`), "MMM d")} fontSize={11} />
+                      <YAxis allowDecimals={false} fontSize={11} width={30} />
+                      <Tooltip labelFormatter={(date) => format(new Date(`${date}T00:00:00`), "MMM d, yyyy")} />
+                      <Legend />
+                      <Line type="monotone" dataKey="views" name="Views" stroke="#3B82F6" dot={false} />
+                      <Line type="monotone" dataKey="inquiryStarts" name="Inquiries started" stroke="#F59E0B" dot={false} />
+                      <Line type="monotone" dataKey="applicationStarts" name="Applications started" stroke="#10B981" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            )}
+
+            {analytics?.data?.funnel && (
+              <Card>
+                <CardHeader className="py-4">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Filter className="h-5 w-5" />
+                    Conversion Funnel
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="pb-6 space-y-3">
+                  {analytics.data.funnel.steps.map((step, index) => (
+                    <div key={step.step} className="space-y-1" data-testid={`funnel-step-${step.step}`}>
+                      <div className="flex justify-between text-sm">
+                        <span>{FUNNEL_LABELS[step.step]}</span>
+                        <span className="font-medium">
+                          {step.count}
+                          {index > 0 && <span className="text-muted-foreground"> · {step.rateFromPrevious}%</span>}
+                        </span>
+                      </div>
+                      <div className="h-2 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full bg-primary"
+                          style={{
+                            width: `${analytics.data.funnel.steps[0].count > 0 ? (step.count / analytics.data.funnel.steps[0].count) * 100 : 0}%`,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground pt-1">
+                    {analytics.data.funnel.viewToApplicationRate}% of visitors started an application.{" "}
+                    {analytics.data.funnel.submitted.inquiries} inquiries and {analytics.data.funnel.submitted.applications} applications
+                    were submitted in this period.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             {analytics?.data?.priceHistory && analytics.data.priceHistory.length > 0 && (
               <Card>
                 <CardHeader className="py-4">
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Mail, UserMinus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  usePropertyManagers,
+  MANAGER_PERMISSION_LABELS,
+  type ManagerPermission,
+} from "@/hooks/use-property-managers";
+
+const ALL_PERMISSIONS = Object.keys(MANAGER_PERMISSION_LABELS) as ManagerPermission[];
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.");
+
+function PermissionChecklist({
+  idPrefix,
+  value,
+  onChange,
+  disabled,
+}: {
+  idPrefix: string;
+  value: ManagerPermission[];
+  onChange: (permissions: ManagerPermission[]) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {ALL_PERMISSIONS.map((permission) => (
+        <div key={permission} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${permission}`}
+            checked={value.includes(permission)}
+            disabled={disabled}
+            onCheckedChange={(checked) =>
+              onChange(checked === true ? [...value, permission] : value.filter((p) => p !== permission))
+            }
+          />
+          <Label htmlFor={`${idPrefix}-${permission}`} className="text-sm font-normal">
+            {MANAGER_PERMISSION_LABELS[permission]}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface PropertyManagersDialogProps {
+  propertyId: string | null;
+  propertyTitle?: string;
+  onClose: () => void;
+}
+
+// Invite property managers and control what each one can do on a property
+export function PropertyManagersDialog({ propertyId, propertyTitle, onClose }: PropertyManagersDialogProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [permissions, setPermissions] = useState<ManagerPermission[]>(["view_properties", "manage_maintenance"]);
+  const { data, isLoading, invite, revokeInvitation, updateAssignment, revokeAssignment } = usePropertyManagers(propertyId);
+
+  const run = async (action: () => Promise<unknown>, successTitle: string, errorTitle: string) => {
+    try {
+      await action();
+      toast({ title: successTitle });
+      return true;
+    } catch (err) {
+      toast({ title: errorTitle, description: errorText(err), variant: "destructive" });
+      return false;
+    }
+  };
+
+  const handleInvite = async () => {
+    const sent = await run(() => invite.mutateAsync({ email, permissions }), "Invitation sent", "Could not send invitation");
+    if (sent) setEmail("");
+  };
+
+  return (
+    <Dialog open={!!propertyId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Property Managers</DialogTitle>
+          <DialogDescription>
+            Managers of {propertyTitle || "this property"} can only take the actions you allow.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {data.assignments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No managers are assigned yet.</p>
+            ) : (
+              data.assignments.map((assignment) => {
+                const granted = assignment.permissions ?? ALL_PERMISSIONS;
+                return (
+                  <div key={assignment.id} className="rounded-md border p-3 space-y-3" data-testid={`manager-assignment-${assignment.id}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{assignment.manager?.full_name || assignment.manager?.email}</p>
+                        <p className="text-xs text-muted-foreground truncate">{assignment.manager?.email}</p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={revokeAssignment.isPending}
+                        onClick={() =>
+                          run(() => revokeAssignment.mutateAsync(assignment.id), "Manager access revoked", "Could not revoke access")
+                        }
+                        data-testid={`button-revoke-manager-${assignment.id}`}
+                      >
+                        <UserMinus className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </div>
+                    <PermissionChecklist
+                      idPrefix={assignment.id}
+                      value={granted}
+                      disabled={updateAssignment.isPending}
+                      onChange={(next) =>
+                        next.length > 0 &&
+                        run(
+                          () => updateAssignment.mutateAsync({ assignmentId: assignment.id, permissions: next }),
+                          "Permissions updated",
+                          "Could not update permissions"
+                        )
+                      }
+                    />
+                  </div>
+                );
+              })
+            )}
+
+            {data.invitations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Pending invitations</p>
+                {data.invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center justify-between gap-2 text-sm rounded-md border p-2">
+                    <div className="min-w-0">
+                      <p className="truncate">{invitation.email}</p>
+                      <p className="text-xs text-muted-foreground">Expires {format(new Date(invitation.expires_at), "MMM d, yyyy")}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{invitation.permissions.length} permissions</Badge>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        disabled={revokeInvitation.isPending}
+                        onClick={() =>
+                          run(() => revokeInvitation.mutateAsync(invitation.id), "Invitation revoked", "Could not revoke invitation")
+                        }
+                        data-testid={`button-revoke-invitation-${invitation.id}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3 border-t pt-4">
+              <p className="text-sm font-medium">Invite a manager</p>
+              <Input
+                type="email"
+                placeholder="manager@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                data-testid="input-manager-email"
+              />
+              <PermissionChecklist idPrefix="invite" value={permissions} onChange={setPermissions} />
+              <Button
+                className="w-full"
+                onClick={handleInvite}
+                disabled={invite.isPending || !email || permissions.length === 0}
+                data-testid="button-invite-manager"
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                Send Invitation
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useReportContent } from "@/hooks/use-moderation";
+
+interface ReportContentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  propertyId?: string;
+  reviewId?: string;
+}
+
+const PROPERTY_REASONS = [
+  { value: "fraudulent_listing", label: "Scam or fraudulent listing" },
+  { value: "misleading_information", label: "Inaccurate or misleading details" },
+  { value: "duplicate_listing", label: "Duplicate listing" },
+  { value: "discrimination", label: "Discriminatory language" },
+  { value: "inappropriate_content", label: "Offensive content" },
+  { value: "other", label: "Something else" },
+];
+
+const REVIEW_REASONS = [
+  { value: "inappropriate_content", label: "Offensive or abusive" },
+  { value: "misleading_information", label: "Inaccurate or fake review" },
+  { value: "spam", label: "Spam or advertising" },
+  { value: "other", label: "Something else" },
+];
+
+export function ReportContentDialog({ open, onOpenChange, propertyId, reviewId }: ReportContentDialogProps) {
+  const { toast } = useToast();
+  const { submitReport, isSubmitting } = useReportContent();
+  const reasons = reviewId ? REVIEW_REASONS : PROPERTY_REASONS;
+  const [reportType, setReportType] = useState("");
+  const [description, setDescription] = useState("");
+
+  const handleSubmit = async () => {
+    try {
+      await submitReport({
+        propertyId,
+        reviewId,
+        reportType,
+        description: description.trim() || undefined,
+      });
+      toast({ title: "Report submitted", description: "Thanks for letting us know. Our team will take a look." });
+      setReportType("");
+      setDescription("");
+      onOpenChange(false);
+    } catch (err) {
+      const raw = err instanceof Error ? err.message : "";
+      const status = raw.match(/^(\d+):/)?.[1];
+      toast({
+        title: status === "401" ? "Sign in to report content" : "Could not submit report",
+        description: status === "409" ? "You have already reported this. Our team is reviewing it." : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>{reviewId ? "Report Review" : "Report Listing"}</DialogTitle>
+          <DialogDescription>Tell us what's wrong. Reports are confidential.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reportType} onValueChange={setReportType}>
+            {reasons.map((reason) => (
+              <div key={reason.value} className="flex items-center gap-2">
+                <RadioGroupItem value={reason.value} id={`report-${reason.value}`} />
+                <Label htmlFor={`report-${reason.value}`} className="font-normal">{reason.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-description">Details (optional)</Label>
+            <Textarea
+              id="report-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              data-testid="input-report-description"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!reportType || isSubmitting} data-testid="button-submit-report">
+            {isSubmitting ? "Submitting..." : "Submit Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useLocation } from "wouter";
+import { Loader2, Sparkles, MapPin, Bed, Bath } from "lucide-react";
+import { REQUIREMENT_MATCH_SCORES } from "@shared/schema";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useRequirementMatches, type MatchCriterion } from "@/hooks/use-requirement-matches";
+
+export function MatchScoreBadge({ score }: { score: number }) {
+  const strong = score >= REQUIREMENT_MATCH_SCORES.strong;
+  return (
+    <Badge
+      variant={strong ? "default" : "secondary"}
+      className={strong ? "bg-green-600 hover:bg-green-600" : undefined}
+    >
+      {score}% match
+    </Badge>
+  );
+}
+
+// Criteria that cost points, so users can see why a match isn't perfect
+export function MatchShortfalls({ breakdown }: { breakdown: MatchCriterion[] }) {
+  const missed = (breakdown || []).filter((item) => item.points < item.maxPoints);
+  if (missed.length === 0) return null;
+
+  return (
+    <ul className="text-xs text-muted-foreground mt-2 space-y-0.5">
+      {missed.map((item) => (
+        <li key={item.criterion}>• {item.detail}</li>
+      ))}
+    </ul>
+  );
+}
+
+export function RequirementMatches() {
+  const [, navigate] = useLocation();
+  const { data: matches = [], isLoading } = useRequirementMatches();
+
+  if (isLoading) {
+    return (
+      <Card className="p-16 text-center">
+        <Loader2 className="h-12 w-12 text-muted-foreground mx-auto mb-4 animate-spin" />
+        <p className="text-foreground font-semibold">Finding matches...</p>
+      </Card>
+    );
+  }
+
+  if (matches.length === 0) {
+    return (
+      <Card className="p-16 text-center">
+        <Sparkles className="h-16 w-16 text-muted-foreground/40 mx-auto mb-6" />
+        <h3 className="text-xl font-semibold text-foreground mb-2">No Matches Yet</h3>
+        <p className="text-muted-foreground mb-6 max-w-sm mx-auto">
+          Tell us what you're looking for and we'll match you with listings as they come up.
+        </p>
+        <Button onClick={() => navigate("/property-requirements")} data-testid="button-add-requirements">
+          Set Your Requirements
+        </Button>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {matches.map((match) => (
+        <Card key={match.id} className="p-6" data-testid={`card-requirement-match-${match.id}`}>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-2">
+                <h3 className="text-lg font-bold text-foreground truncate">
+                  {match.property?.title || "Listing"}
+                </h3>
+                <MatchScoreBadge score={match.score} />
+              </div>
+              {match.property && (
+                <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {[match.property.address, match.property.city].filter(Boolean).join(", ")}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Bed className="h-3 w-3" />
+                    {match.property.bedrooms ?? 0} bd
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Bath className="h-3 w-3" />
+                    {match.property.bathrooms ?? 0} ba
+                  </span>
+                  {match.property.price && (
+                    <span className="font-semibold text-foreground">
+                      ${parseFloat(String(match.property.price)).toLocaleString()}/mo
+                    </span>
+                  )}
+                </div>
+              )}
+              <MatchShortfalls breakdown={match.breakdown} />
+            </div>
+            {match.property && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/property/${match.property!.id}`)}
+                data-testid={`button-view-match-${match.id}`}
+              >
+                View Listing
+              </Button>
+            )}
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
+import { useState } from "react";
+import { Flag } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ReviewStars } from "@/components/review-stars";
+import { ReportContentDialog } from "@/components/report-content-dialog";
+import { useAuth } from "@/lib/auth-context";
 import type { PropertyReview } from "@/hooks/use-property-reviews";
 
 interface ReviewCardProps {
@@ -8,6 +13,9 @@ interface ReviewCardProps {
 }
 
 export function ReviewCard({ review }: ReviewCardProps) {
+  const { user } = useAuth();
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
   return (
     <Card 
       className="transition-all duration-200 hover-elevate"
@@ -43,8 +51,22 @@ export function ReviewCard({ review }: ReviewCardProps) {
             <p className="text-sm leading-relaxed">
               {review.comment}
             </p>
+
+            {user && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 mt-2 text-xs text-muted-foreground"
+                onClick={() => setIsReportOpen(true)}
+                data-testid={`button-report-review-${review.id}`}
+              >
+                <Flag className="h-3 w-3 mr-1" />
+                Report
+              </Button>
+            )}
           </div>
         </div>
+        <ReportContentDialog reviewId={review.id} open={isReportOpen} onOpenChange={setIsReportOpen} />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Bell, BellOff } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { SavedSearch } from "@/hooks/use-saved-searches";
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  instant: "Instantly",
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+interface SavedSearchAlertsProps {
+  search: SavedSearch;
+  onUpdate: (
+    searchId: string,
+    alerts: { alertsEnabled?: boolean; alertFrequency?: SavedSearch["alert_frequency"] }
+  ) => Promise<unknown>;
+}
+
+export function SavedSearchAlerts({ search, onUpdate }: SavedSearchAlertsProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  // Searches saved before alerts existed default to daily alerts on the server
+  const enabled = search.alerts_enabled ?? true;
+  const frequency = search.alert_frequency ?? "daily";
+
+  const handleUpdate = async (alerts: Parameters<SavedSearchAlertsProps["onUpdate"]>[1]) => {
+    setSaving(true);
+    const updated = await onUpdate(search.id, alerts);
+    setSaving(false);
+
+    if (updated) {
+      toast({
+        title: alerts.alertsEnabled === false ? "Alerts turned off" : "Alerts updated",
+        description: alerts.alertsEnabled === false
+          ? `You won't get emails for "${search.name}".`
+          : `We'll email you ${FREQUENCY_LABELS[alerts.alertFrequency ?? frequency].toLowerCase()} about new and reduced listings.`,
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-3" data-testid={`alerts-${search.id}`}>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={enabled}
+          disabled={saving}
+          onCheckedChange={(checked) => handleUpdate({ alertsEnabled: checked })}
+          data-testid={`switch-alerts-${search.id}`}
+        />
+        {enabled ? (
+          <Bell className="h-4 w-4 text-blue-600" />
+        ) : (
+          <BellOff className="h-4 w-4 text-muted-foreground" />
+        )}
+        <span className="text-sm text-muted-foreground">Email alerts</span>
+      </div>
+
+      {enabled && (
+        <Select
+          value={frequency}
+          disabled={saving}
+          onValueChange={(value) => handleUpdate({ alertFrequency: value as SavedSearch["alert_frequency"] })}
+        >
+          <SelectTrigger className="w-[130px] h-8" data-testid={`select-alert-frequency-${search.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
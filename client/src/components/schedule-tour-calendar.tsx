@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { format, addDays, startOfWeek, isSameDay, isAfter, isBefore, startOfDay } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Calendar, Clock, Video, MapPin, ChevronLeft, ChevronRight, Check, User, Mail, Phone } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { useTourSlots, useTourActions, type TourSlot, type TourType } from "@/hooks/use-tours";
 
 interface ScheduleTourCalendarProps {
   propertyId: string;
@@ -21,20 +23,22 @@ interface ScheduleTourCalendarProps {
 }
 
 interface TourScheduleData {
+  bookingId: string;
   date: Date;
   time: string;
-  tourType: "in-person" | "video";
+  tourType: TourType;
   name: string;
   email: string;
   phone: string;
   message?: string;
 }
 
-const timeSlots = [
-  "9:00 AM", "10:00 AM", "11:00 AM", 
-  "12:00 PM", "1:00 PM", "2:00 PM", 
-  "3:00 PM", "4:00 PM", "5:00 PM"
-];
+const TOUR_TYPE_LABELS: Record<TourType, string> = {
+  in_person: "In-Person",
+  video: "Video",
+};
+
+const formatSlotTime = (slot: TourSlot) => format(new Date(slot.startsAt), "h:mm a");
 
 export function ScheduleTourCalendar({
   propertyId,
@@ -45,11 +49,14 @@ export function ScheduleTourCalendar({
   onOpenChange,
 }: ScheduleTourCalendarProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: slots = [], isLoading: slotsLoading, refetch: refetchSlots } = useTourSlots(propertyId, open);
+  const { bookTour } = useTourActions();
   const [step, setStep] = useState(1);
   const [weekOffset, setWeekOffset] = useState(0);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [selectedTime, setSelectedTime] = useState<string | null>(null);
-  const [tourType, setTourType] = useState<"in-person" | "video">("in-person");
+  const [selectedSlot, setSelectedSlot] = useState<TourSlot | null>(null);
+  const [tourType, setTourType] = useState<TourType>("in_person");
   const [formData, setFormData] = useState({
     name: "",
     email: "",
@@ -62,41 +69,90 @@ export function ScheduleTourCalendar({
   const weekStart = addDays(startOfWeek(today, { weekStartsOn: 0 }), weekOffset * 7);
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
 
+  const slotsByDay = useMemo(() => {
+    const grouped = new Map<string, TourSlot[]>();
+    for (const slot of slots) {
+      const key = format(new Date(slot.startsAt), "yyyy-MM-dd");
+      grouped.set(key, [...(grouped.get(key) || []), slot]);
+    }
+    return grouped;
+  }, [slots]);
+
+  const daySlots = selectedDate ? slotsByDay.get(format(selectedDate, "yyyy-MM-dd")) || [] : [];
+  const selectedTime = selectedSlot ? formatSlotTime(selectedSlot) : null;
+  const tourLabel = TOUR_TYPE_LABELS[tourType].toLowerCase();
+
+  // Prefill contact details for signed-in renters
+  useEffect(() => {
+    if (open && user) {
+      setFormData((prev) => ({
+        ...prev,
+        name: prev.name || user.full_name || "",
+        email: prev.email || user.email || "",
+        phone: prev.phone || user.phone || "",
+      }));
+    }
+  }, [open, user]);
+
   const handleDateSelect = (date: Date) => {
     if (isBefore(date, today)) return;
     setSelectedDate(date);
-    setSelectedTime(null);
+    setSelectedSlot(null);
+  };
+
+  const handleSlotSelect = (slot: TourSlot) => {
+    setSelectedSlot(slot);
+    if (!slot.tourTypes.includes(tourType)) {
+      setTourType(slot.tourTypes[0]);
+    }
   };
 
   const handleSubmit = async () => {
-    if (!selectedDate || !selectedTime) return;
+    if (!selectedDate || !selectedSlot || !selectedTime) return;
     
     setIsSubmitting(true);
-    
-    const scheduleData: TourScheduleData = {
-      date: selectedDate,
-      time: selectedTime,
-      tourType,
-      ...formData,
-    };
 
     try {
+      const result = await bookTour({
+        propertyId,
+        startsAt: selectedSlot.startsAt,
+        tourType,
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone || undefined,
+        message: formData.message || undefined,
+      });
+
       if (onSchedule) {
-        await onSchedule(scheduleData);
+        await onSchedule({
+          bookingId: result?.data?.id,
+          date: selectedDate,
+          time: selectedTime,
+          tourType,
+          ...formData,
+        });
       }
       
       toast({
         title: "Tour Scheduled!",
-        description: `Your ${tourType} tour is confirmed for ${format(selectedDate, "MMMM d")} at ${selectedTime}.`,
+        description: `Your ${tourLabel} tour is confirmed for ${format(selectedDate, "MMMM d")} at ${selectedTime}.`,
       });
 
       setStep(4);
     } catch (error) {
+      const slotTaken = error instanceof Error && error.message.startsWith("409");
       toast({
-        title: "Error",
-        description: "Failed to schedule tour. Please try again.",
+        title: slotTaken ? "Slot Unavailable" : "Error",
+        description: slotTaken
+          ? "That time was just booked. Please pick another slot."
+          : "Failed to schedule tour. Please try again.",
         variant: "destructive",
       });
+      if (slotTaken) {
+        setSelectedSlot(null);
+        setStep(1);
+        refetchSlots();
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -105,7 +161,7 @@ export function ScheduleTourCalendar({
   const resetForm = () => {
     setStep(1);
     setSelectedDate(null);
-    setSelectedTime(null);
+    setSelectedSlot(null);
     setFormData({ name: "", email: "", phone: "", message: "" });
   };
 
@@ -179,6 +235,7 @@ export function ScheduleTourCalendar({
               <div className="grid grid-cols-7 gap-2">
                 {weekDays.map((day) => {
                   const isPast = isBefore(day, today);
+                  const hasSlots = slotsByDay.has(format(day, "yyyy-MM-dd"));
                   const isSelected = selectedDate && isSameDay(day, selectedDate);
                   const isToday = isSameDay(day, today);
                   
@@ -186,9 +243,9 @@ export function ScheduleTourCalendar({
                     <button
                       key={day.toISOString()}
                       onClick={() => handleDateSelect(day)}
-                      disabled={isPast}
+                      disabled={isPast || !hasSlots}
                       className={`p-2 rounded-lg text-center transition-all ${
-                        isPast 
+                        isPast || !hasSlots
                           ? 'opacity-40 cursor-not-allowed' 
                           : isSelected 
                             ? 'bg-primary text-primary-foreground' 
@@ -207,28 +264,39 @@ export function ScheduleTourCalendar({
                 })}
               </div>
 
+              {slotsLoading ? (
+                <p className="text-sm text-muted-foreground text-center">Loading availability...</p>
+              ) : slots.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center">
+                  No tour times are available right now. Contact the agent to arrange a visit.
+                </p>
+              ) : null}
+
               {selectedDate && (
                 <div className="space-y-2 pt-4 border-t">
                   <p className="text-sm font-medium">Available times for {format(selectedDate, "EEEE, MMMM d")}</p>
                   <div className="grid grid-cols-3 gap-2">
-                    {timeSlots.map((time) => (
-                      <Button
-                        key={time}
-                        variant={selectedTime === time ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => setSelectedTime(time)}
-                        data-testid={`time-${time.replace(/\s/g, "-")}`}
-                      >
-                        {time}
-                      </Button>
-                    ))}
+                    {daySlots.map((slot) => {
+                      const time = formatSlotTime(slot);
+                      return (
+                        <Button
+                          key={slot.startsAt}
+                          variant={selectedSlot?.startsAt === slot.startsAt ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => handleSlotSelect(slot)}
+                          data-testid={`time-${time.replace(/\s/g, "-")}`}
+                        >
+                          {time}
+                        </Button>
+                      );
+                    })}
                   </div>
                 </div>
               )}
 
               <Button
                 className="w-full"
-                disabled={!selectedDate || !selectedTime}
+                disabled={!selectedDate || !selectedSlot}
                 onClick={() => setStep(2)}
                 data-testid="button-continue-step-1"
               >
@@ -251,14 +319,15 @@ export function ScheduleTourCalendar({
                 <Label>Tour Type</Label>
                 <RadioGroup
                   value={tourType}
-                  onValueChange={(value) => setTourType(value as "in-person" | "video")}
+                  onValueChange={(value) => setTourType(value as TourType)}
                   className="grid grid-cols-2 gap-3"
                 >
                   <div>
                     <RadioGroupItem
-                      value="in-person"
+                      value="in_person"
                       id="in-person"
                       className="peer sr-only"
+                      disabled={!selectedSlot?.tourTypes.includes("in_person")}
                     />
                     <Label
                       htmlFor="in-person"
@@ -274,6 +343,7 @@ export function ScheduleTourCalendar({
                       value="video"
                       id="video"
                       className="peer sr-only"
+                      disabled={!selectedSlot?.tourTypes.includes("video")}
                     />
                     <Label
                       htmlFor="video"
@@ -302,12 +372,12 @@ export function ScheduleTourCalendar({
             <div className="space-y-4" data-testid="tour-step-3">
               <div className="p-3 bg-muted rounded-lg">
                 <div className="flex items-center gap-2 mb-2">
-                  {tourType === "in-person" ? (
+                  {tourType === "in_person" ? (
                     <MapPin className="h-4 w-4 text-primary" />
                   ) : (
                     <Video className="h-4 w-4 text-primary" />
                   )}
-                  <span className="font-medium capitalize">{tourType} Tour</span>
+                  <span className="font-medium">{TOUR_TYPE_LABELS[tourType]} Tour</span>
                 </div>
                 <p className="text-sm text-muted-foreground">
                   {selectedDate && format(selectedDate, "EEEE, MMMM d")} at {selectedTime}
@@ -399,7 +469,7 @@ export function ScheduleTourCalendar({
               <div>
                 <h3 className="text-xl font-bold mb-1">Tour Scheduled!</h3>
                 <p className="text-muted-foreground">
-                  Your {tourType} tour is confirmed for
+                  Your {tourLabel} tour is confirmed for
                 </p>
                 <p className="font-medium text-lg">
                   {selectedDate && format(selectedDate, "EEEE, MMMM d")} at {selectedTime}
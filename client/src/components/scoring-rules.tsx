@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOwnedProperties } from "@/hooks/use-owned-properties";
+import { useScoringRules } from "@/hooks/use-scoring-rules";
+import { SCORING_CATEGORIES, EVICTION_POLICIES, type ScoringRulesConfig } from "@shared/schema";
+
+const PORTFOLIO = "portfolio";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  income: "Income",
+  credit: "Credit",
+  rentalHistory: "Rental history",
+  employment: "Employment",
+  documents: "Documents",
+};
+
+const EVICTION_POLICY_LABELS: Record<string, string> = {
+  reject: "Score rental history as zero",
+  penalize: "Reduce rental history by 75%",
+  ignore: "Flag only, do not score",
+};
+
+const errorMessage = (err: unknown) => {
+  const raw = err instanceof Error ? err.message : "Something went wrong";
+  const match = raw.match(/^\d+: (.*)$/);
+  if (!match) return raw;
+  try {
+    return JSON.parse(match[1]).error || raw;
+  } catch {
+    return match[1];
+  }
+};
+
+function NumberField({ id, label, value, step, onChange }: {
+  id: string;
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step ?? 1}
+        value={Number.isFinite(value) ? value : ""}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+      />
+    </div>
+  );
+}
+
+export function ScoringRulesCard() {
+  const { toast } = useToast();
+  const { properties } = useOwnedProperties();
+  const { defaults, rulesets, isLoading, saveRules, isSaving, deleteRules, isDeleting } = useScoringRules();
+  const [scope, setScope] = useState(PORTFOLIO);
+  const [draft, setDraft] = useState<ScoringRulesConfig | null>(null);
+
+  const propertyId = scope === PORTFOLIO ? null : scope;
+  const portfolio = rulesets.find((r) => !r.property_id);
+  const current = rulesets.find((r) => r.property_id === propertyId);
+
+  // A property without its own rules starts from the portfolio rules, then the defaults
+  useEffect(() => {
+    const base = current?.rules || portfolio?.rules || defaults;
+    if (base) setDraft(structuredClone(base));
+  }, [scope, current?.id, portfolio?.id, defaults]);
+
+  const update = (recipe: (next: ScoringRulesConfig) => void) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const next = structuredClone(prev);
+      recipe(next);
+      return next;
+    });
+  };
+
+  const weightTotal = draft
+    ? SCORING_CATEGORIES.reduce((sum, category) => sum + (draft.weights[category] || 0), 0)
+    : 0;
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await saveRules({ propertyId, rules: draft });
+      toast({ title: "Scoring rules saved", description: "Open applications are being rescored." });
+    } catch (err) {
+      toast({ title: "Could not save rules", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  const handleReset = async () => {
+    if (!current) return;
+    try {
+      await deleteRules(current.id);
+      toast({ title: propertyId ? "Property now uses your portfolio rules" : "Portfolio now uses the default rules" });
+    } catch (err) {
+      toast({ title: "Could not reset rules", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <SlidersHorizontal className="h-5 w-5" />
+          Application Scoring
+        </CardTitle>
+        <CardDescription>Set the criteria applications are scored against, for all your properties or one at a time.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !draft ? (
+          <Skeleton className="h-[320px] w-full" />
+        ) : (
+          <div className="space-y-6">
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="w-full sm:w-[320px]" data-testid="select-scoring-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PORTFOLIO}>All properties</SelectItem>
+                {properties.map((property) => (
+                  <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!current && (
+              <p className="text-xs text-muted-foreground">
+                {propertyId
+                  ? portfolio ? "Using your portfolio rules." : "Using the default rules."
+                  : "Using the default rules."}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">
+                Weights <span className={weightTotal === 100 ? "text-muted-foreground" : "text-destructive"}>({weightTotal} / 100)</span>
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {SCORING_CATEGORIES.map((category) => (
+                  <NumberField
+                    key={category}
+                    id={`weight-${category}`}
+                    label={CATEGORY_LABELS[category]}
+                    value={draft.weights[category]}
+                    onChange={(value) => update((next) => { next.weights[category] = value; })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField
+                id="income-min"
+                label="Minimum income-to-rent ratio"
+                step={0.1}
+                value={draft.income.minIncomeToRent}
+                onChange={(value) => update((next) => { next.income.minIncomeToRent = value; })}
+              />
+              <NumberField
+                id="income-target"
+                label="Target income-to-rent ratio"
+                step={0.1}
+                value={draft.income.targetIncomeToRent}
+                onChange={(value) => update((next) => { next.income.targetIncomeToRent = value; })}
+              />
+              <NumberField
+                id="credit-min"
+                label="Minimum credit score"
+                value={draft.credit.minScore}
+                onChange={(value) => update((next) => { next.credit.minScore = value; })}
+              />
+              <NumberField
+                id="credit-target"
+                label="Target credit score"
+                value={draft.credit.targetScore}
+                onChange={(value) => update((next) => { next.credit.targetScore = value; })}
+              />
+              <NumberField
+                id="rental-years"
+                label="Target years renting"
+                value={draft.rentalHistory.targetYears}
+                onChange={(value) => update((next) => { next.rentalHistory.targetYears = value; })}
+              />
+              <NumberField
+                id="employment-years"
+                label="Target years employed"
+                value={draft.employment.targetYears}
+                onChange={(value) => update((next) => { next.employment.targetYears = value; })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Eviction on record</Label>
+              <Select
+                value={draft.rentalHistory.evictionPolicy}
+                onValueChange={(value) => update((next) => { next.rentalHistory.evictionPolicy = value; })}
+              >
+                <SelectTrigger className="w-full sm:w-[320px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVICTION_POLICIES.map((policy) => (
+                    <SelectItem key={policy} value={policy}>{EVICTION_POLICY_LABELS[policy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving || weightTotal !== 100} data-testid="button-save-scoring-rules">
+                {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save rules
+              </Button>
+              {current && (
+                <Button variant="outline" onClick={handleReset} disabled={isDeleting}>
+                  {propertyId ? "Use portfolio rules" : "Use default rules"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
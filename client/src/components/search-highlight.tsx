@@ -0,0 +1,28 @@
+import { Fragment } from "react";
+
+const HIGHLIGHT_PATTERN = /\{\{(.*?)\}\}/g;
+
+interface HighlightedTextProps {
+  // Search API text with matched words wrapped in {{ }}
+  text: string;
+  className?: string;
+}
+
+// Renders search highlights as <mark> without trusting the listing text as HTML
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(HIGHLIGHT_PATTERN);
+
+  return (
+    <span className={className}>
+      {parts.map((part, idx) =>
+        idx % 2 === 1 ? (
+          <mark key={idx} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={idx}>{part}</Fragment>
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,481 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Shield, Plus, Trash2, Camera, FileText, Send, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useImageKitUpload } from "@/hooks/use-imagekit-upload";
+import {
+  useSecurityDeposit,
+  type DeductionPhotoInput,
+  type SecurityDepositStatus,
+} from "@/hooks/use-security-deposit";
+
+const STATUS_LABELS: Record<SecurityDepositStatus, string> = {
+  awaiting_payment: "Awaiting payment",
+  held: "Held",
+  itemizing: "Itemizing deductions",
+  itemized: "Statement sent",
+  acknowledged: "Acknowledged",
+  disputed: "Disputed",
+  closed: "Closed",
+};
+
+const DEDUCTION_CATEGORIES = [
+  { value: "cleaning", label: "Cleaning" },
+  { value: "damage", label: "Damage" },
+  { value: "unpaid_rent", label: "Unpaid rent" },
+  { value: "unpaid_utilities", label: "Unpaid utilities" },
+  { value: "keys_and_locks", label: "Keys and locks" },
+  { value: "other", label: "Other" },
+];
+
+interface SecurityDepositLedgerProps {
+  leaseId: string;
+  viewerRole: "landlord" | "tenant";
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.");
+const formatDay = (value: string) => format(new Date(value), "MMM d, yyyy");
+const money = (value: number | string) => `$${(typeof value === "string" ? parseFloat(value) : value).toFixed(2)}`;
+const categoryLabel = (value: string) => DEDUCTION_CATEGORIES.find((c) => c.value === value)?.label ?? value;
+
+function DeductionDialog({
+  open,
+  onOpenChange,
+  leaseId,
+  onSubmit,
+  isSubmitting,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leaseId: string;
+  onSubmit: (deduction: { category: string; description: string; amount: number; photos: DeductionPhotoInput[] }) => Promise<void>;
+  isSubmitting: boolean;
+}) {
+  const [category, setCategory] = useState("damage");
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [photos, setPhotos] = useState<DeductionPhotoInput[]>([]);
+  const { uploadImage, isUploading } = useImageKitUpload({ folder: `/deposits/${leaseId}` });
+
+  const handleFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files || [])) {
+      const uploaded = await uploadImage(file);
+      if (uploaded) {
+        setPhotos((current) => [...current, { imageKitFileId: uploaded.fileId, url: uploaded.url, thumbnailUrl: uploaded.thumbnailUrl }]);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Deduction</DialogTitle>
+          <DialogDescription>Each deduction appears on the itemized statement with its photo evidence.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger data-testid="select-deduction-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEDUCTION_CATEGORIES.map((c) => (
+                  <SelectItem key={c.value} value={c.value}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="deduction-description">Description</Label>
+            <Textarea
+              id="deduction-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Carpet stain in the living room, professional cleaning"
+              data-testid="input-deduction-description"
+            />
+          </div>
+          <div>
+            <Label htmlFor="deduction-amount">Amount</Label>
+            <Input
+              id="deduction-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-deduction-amount"
+            />
+          </div>
+          <div>
+            <Label htmlFor="deduction-photos">Photos</Label>
+            <Input
+              id="deduction-photos"
+              type="file"
+              accept="image/*"
+              multiple
+              disabled={isUploading}
+              onChange={(e) => handleFiles(e.target.files)}
+              data-testid="input-deduction-photos"
+            />
+            {photos.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {photos.map((photo) => (
+                  <img key={photo.imageKitFileId} src={photo.thumbnailUrl || photo.url} alt="" className="h-14 w-14 rounded object-cover" />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => onSubmit({ category, description, amount: parseFloat(amount), photos })}
+            disabled={isSubmitting || isUploading || description.trim().length < 3 || !(parseFloat(amount) > 0)}
+            data-testid="button-save-deduction"
+          >
+            Add Deduction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DisputeDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (note: string) => Promise<void>;
+  isSubmitting: boolean;
+}) {
+  const [note, setNote] = useState("");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dispute Deductions</DialogTitle>
+          <DialogDescription>This opens a dispute with the landlord. Explain which deductions you disagree with and why.</DialogDescription>
+        </DialogHeader>
+        <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={5} data-testid="input-dispute-note" />
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={() => onSubmit(note)}
+            disabled={isSubmitting || note.trim().length < 10}
+            data-testid="button-submit-deposit-dispute"
+          >
+            Open Dispute
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RefundDialog({
+  open,
+  onOpenChange,
+  suggestedAmount,
+  onSubmit,
+  isSubmitting,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suggestedAmount: string;
+  onSubmit: (refund: { amount: number; reference?: string }) => Promise<void>;
+  isSubmitting: boolean;
+}) {
+  const [amount, setAmount] = useState(suggestedAmount);
+  const [reference, setReference] = useState("");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Refund</DialogTitle>
+          <DialogDescription>Recording the refund closes the deposit ledger.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="refund-amount">Amount refunded</Label>
+            <Input id="refund-amount" type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="refund-reference">Reference (optional)</Label>
+            <Input
+              id="refund-reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Check number or transfer ID"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => onSubmit({ amount: parseFloat(amount), reference: reference || undefined })}
+            disabled={isSubmitting || amount === ""}
+            data-testid="button-record-refund"
+          >
+            Record Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Security deposit ledger, itemized deductions and the tenant's response for one lease
+export function SecurityDepositLedger({ leaseId, viewerRole }: SecurityDepositLedgerProps) {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<"deduction" | "dispute" | "refund" | null>(null);
+  const [photoTarget, setPhotoTarget] = useState<string | null>(null);
+  const { uploadImage, isUploading } = useImageKitUpload({ folder: `/deposits/${leaseId}` });
+  const {
+    data: ledger,
+    isLoading,
+    addDeduction,
+    removeDeduction,
+    attachPhotos,
+    sendItemization,
+    respond,
+    recordRefund,
+  } = useSecurityDeposit(leaseId);
+
+  if (isLoading || !ledger) return null;
+
+  const { deposit, deductions, totals } = ledger;
+  const isLandlord = viewerRole === "landlord";
+  const editable = deposit.status === "held" || deposit.status === "itemizing";
+  const canItemize = isLandlord && editable && !!deposit.move_out_date;
+
+  const run = async (action: () => Promise<unknown>, successTitle: string, errorTitle: string) => {
+    try {
+      await action();
+      toast({ title: successTitle });
+      setDialog(null);
+    } catch (err) {
+      toast({ title: errorTitle, description: errorText(err), variant: "destructive" });
+    }
+  };
+
+  const handleEvidence = async (deductionId: string, files: FileList | null) => {
+    setPhotoTarget(deductionId);
+    const photos: DeductionPhotoInput[] = [];
+    for (const file of Array.from(files || [])) {
+      const uploaded = await uploadImage(file);
+      if (uploaded) photos.push({ imageKitFileId: uploaded.fileId, url: uploaded.url, thumbnailUrl: uploaded.thumbnailUrl });
+    }
+    if (photos.length > 0) {
+      await run(() => attachPhotos.mutateAsync({ deductionId, photos }), "Photos attached", "Could not attach photos");
+    }
+    setPhotoTarget(null);
+  };
+
+  return (
+    <Card className="p-6" data-testid={`security-deposit-${leaseId}`}>
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Shield className="h-5 w-5 text-muted-foreground" />
+            <h3 className="font-semibold">Security Deposit</h3>
+            <Badge variant={deposit.status === "disputed" ? "destructive" : "secondary"}>{STATUS_LABELS[deposit.status]}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {money(deposit.amount)} deposit · {money(totals.balanceHeld)} currently held
+          </p>
+        </div>
+        {canItemize && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDialog("deduction")} data-testid="button-add-deduction">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Deduction
+            </Button>
+            <Button
+              size="sm"
+              disabled={sendItemization.isPending}
+              onClick={() => run(() => sendItemization.mutateAsync(), "Itemized statement sent", "Could not send statement")}
+              data-testid="button-send-itemization"
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Send Statement
+            </Button>
+          </div>
+        )}
+        {isLandlord && ["itemized", "acknowledged", "disputed"].includes(deposit.status) && (
+          <Button size="sm" onClick={() => setDialog("refund")} data-testid="button-open-refund">
+            Record Refund
+          </Button>
+        )}
+      </div>
+
+      {deposit.return_deadline && editable && (
+        <div
+          className={`rounded-md border p-3 mb-3 text-sm ${
+            (deposit.days_until_deadline ?? 0) <= 3 ? "border-amber-300 dark:border-amber-800" : ""
+          }`}
+        >
+          <p>
+            Moved out {formatDay(deposit.move_out_date!)}. The itemized statement is due by {formatDay(deposit.return_deadline)}
+            {deposit.state ? ` under ${deposit.state} law` : ""}
+            {deposit.days_until_deadline !== null &&
+              (deposit.days_until_deadline >= 0
+                ? ` (${deposit.days_until_deadline} days left).`
+                : ` (${Math.abs(deposit.days_until_deadline)} days overdue).`)}
+          </p>
+        </div>
+      )}
+
+      {deductions.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {deductions.map((deduction) => (
+            <div key={deduction.id} className="rounded-md border p-3" data-testid={`deduction-${deduction.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">
+                    {categoryLabel(deduction.category)} · {money(deduction.amount)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{deduction.description}</p>
+                </div>
+                {isLandlord && deposit.status !== "closed" && (
+                  <div className="flex gap-1">
+                    <Label className="cursor-pointer inline-flex items-center text-sm text-muted-foreground px-2">
+                      <Camera className="h-4 w-4 mr-1" />
+                      {photoTarget === deduction.id && isUploading ? "Uploading…" : "Photos"}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        disabled={isUploading}
+                        onChange={(e) => handleEvidence(deduction.id, e.target.files)}
+                      />
+                    </Label>
+                    {editable && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={removeDeduction.isPending}
+                        onClick={() => run(() => removeDeduction.mutateAsync(deduction.id), "Deduction removed", "Could not remove deduction")}
+                        data-testid={`button-remove-deduction-${deduction.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+              {deduction.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {deduction.photos.map((photo) => (
+                    <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+                      <img src={photo.thumbnail_url || photo.url} alt="" className="h-14 w-14 rounded object-cover" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          <p className="text-sm text-right">
+            Total deductions: <span className="font-medium">{money(totals.pendingDeductions)}</span>
+          </p>
+        </div>
+      )}
+
+      {deposit.itemized_at && (
+        <div className="rounded-md border p-4 mb-3">
+          <p className="font-medium">
+            Statement sent {formatDay(deposit.itemized_at)}: {money(deposit.refund_amount ?? 0)} refund
+            {parseFloat(deposit.balance_owed ?? "0") > 0 ? `, ${money(deposit.balance_owed!)} owed by tenant` : ""}
+          </p>
+          {deposit.letter_url && (
+            <a href={deposit.letter_url} target="_blank" rel="noreferrer" className="inline-flex items-center text-sm text-primary mt-1">
+              <FileText className="h-4 w-4 mr-1" />
+              View itemization letter
+            </a>
+          )}
+          {deposit.status === "disputed" && (
+            <p className="text-sm text-destructive mt-2 flex items-start gap-1">
+              <AlertTriangle className="h-4 w-4 mt-0.5" />
+              The tenant disputed this statement{deposit.tenant_response_note ? `: ${deposit.tenant_response_note}` : "."}
+            </p>
+          )}
+          {viewerRole === "tenant" && deposit.status === "itemized" && (
+            <div className="flex gap-2 mt-3">
+              <Button
+                size="sm"
+                disabled={respond.isPending}
+                onClick={() => run(() => respond.mutateAsync({ response: "acknowledge" }), "Statement acknowledged", "Could not acknowledge statement")}
+                data-testid="button-acknowledge-deposit"
+              >
+                Acknowledge
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setDialog("dispute")} data-testid="button-dispute-deposit">
+                Dispute
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {ledger.ledger.length > 0 && (
+        <div className="text-sm text-muted-foreground space-y-1">
+          {ledger.ledger.map((entry) => (
+            <p key={entry.id} className="flex justify-between gap-4">
+              <span>
+                {formatDay(entry.created_at)} · {entry.description || entry.entry_type}
+              </span>
+              <span>
+                {entry.entry_type === "received" ? "+" : "-"}
+                {money(entry.amount)}
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {dialog === "deduction" && (
+        <DeductionDialog
+          open
+          onOpenChange={(open) => !open && setDialog(null)}
+          leaseId={leaseId}
+          isSubmitting={addDeduction.isPending}
+          onSubmit={(deduction) => run(() => addDeduction.mutateAsync(deduction), "Deduction added", "Could not add deduction")}
+        />
+      )}
+      {dialog === "dispute" && (
+        <DisputeDialog
+          open
+          onOpenChange={(open) => !open && setDialog(null)}
+          isSubmitting={respond.isPending}
+          onSubmit={(note) => run(() => respond.mutateAsync({ response: "dispute", note }), "Dispute opened", "Could not open dispute")}
+        />
+      )}
+      {dialog === "refund" && (
+        <RefundDialog
+          open
+          onOpenChange={(open) => !open && setDialog(null)}
+          suggestedAmount={deposit.refund_amount ?? "0"}
+          isSubmitting={recordRefund.isPending}
+          onSubmit={(refund) => run(() => recordRefund.mutateAsync(refund), "Refund recorded", "Could not record refund")}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, Clock, MapPin, Video, Plus, Trash2, Mail, Phone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useTourBookings,
+  useTourAvailability,
+  useTourActions,
+  type TourType,
+} from "@/hooks/use-tours";
+
+interface TourScheduleCardProps {
+  properties: Array<{ id: string; title?: string | null; address?: string | null }>;
+}
+
+const SLOT_LENGTHS = [15, 30, 45, 60];
+
+function AvailabilityDialog({
+  open,
+  onOpenChange,
+  properties,
+}: TourScheduleCardProps & { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const { createAvailability, isCreatingAvailability, deleteAvailability, isUpdating } = useTourActions();
+  const [propertyId, setPropertyId] = useState(properties[0]?.id || "");
+  const [date, setDate] = useState("");
+  const [startTime, setStartTime] = useState("10:00");
+  const [endTime, setEndTime] = useState("14:00");
+  const [slotMinutes, setSlotMinutes] = useState(30);
+  const [tourTypes, setTourTypes] = useState<TourType[]>(["in_person", "video"]);
+  const [meetingUrl, setMeetingUrl] = useState("");
+  const { data: windows = [] } = useTourAvailability(open ? propertyId : undefined);
+
+  const toggleType = (type: TourType, checked: boolean) => {
+    setTourTypes((prev) => (checked ? Array.from(new Set([...prev, type])) : prev.filter((t) => t !== type)));
+  };
+
+  const handleSave = async () => {
+    try {
+      // Times are entered in the host's local timezone and sent as UTC instants
+      await createAvailability({
+        propertyId,
+        startsAt: new Date(`${date}T${startTime}`).toISOString(),
+        endsAt: new Date(`${date}T${endTime}`).toISOString(),
+        slotMinutes,
+        tourTypes,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        meetingUrl: meetingUrl || undefined,
+      });
+      toast({ title: "Availability published", description: "Renters can now book these times." });
+      setDate("");
+    } catch (err) {
+      toast({
+        title: "Could not publish availability",
+        description: err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAvailability({ id, propertyId });
+    } catch (err) {
+      toast({
+        title: "Could not remove availability",
+        description: err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Tour Availability</DialogTitle>
+          <DialogDescription>Publish windows when renters can book tours.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Property</Label>
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger data-testid="select-tour-property">
+                <SelectValue placeholder="Select property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.title || p.address || "Untitled property"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="tour-date">Date</Label>
+              <Input id="tour-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-tour-date" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tour-start">From</Label>
+              <Input id="tour-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tour-end">To</Label>
+              <Input id="tour-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Slot length</Label>
+              <Select value={String(slotMinutes)} onValueChange={(v) => setSlotMinutes(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SLOT_LENGTHS.map((m) => (
+                    <SelectItem key={m} value={String(m)}>{m} minutes</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Tour types</Label>
+              <div className="flex items-center gap-4 h-10">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={tourTypes.includes("in_person")} onCheckedChange={(c) => toggleType("in_person", c === true)} />
+                  In-person
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={tourTypes.includes("video")} onCheckedChange={(c) => toggleType("video", c === true)} />
+                  Video
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {tourTypes.includes("video") && (
+            <div className="space-y-2">
+              <Label htmlFor="tour-meeting-url">Video call link (optional)</Label>
+              <Input
+                id="tour-meeting-url"
+                placeholder="https://meet.example.com/your-room"
+                value={meetingUrl}
+                onChange={(e) => setMeetingUrl(e.target.value)}
+              />
+            </div>
+          )}
+
+          {windows.length > 0 && (
+            <div className="space-y-2 pt-2 border-t">
+              <p className="text-sm font-medium">Upcoming windows</p>
+              {windows.map((w) => (
+                <div key={w.id} className="flex items-center justify-between text-sm p-2 bg-muted rounded">
+                  <span>
+                    {format(new Date(w.starts_at), "EEE, MMM d · h:mm a")} – {format(new Date(w.ends_at), "h:mm a")}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={isUpdating} onClick={() => handleDelete(w.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button
+            onClick={handleSave}
+            disabled={!propertyId || !date || !startTime || !endTime || tourTypes.length === 0 || isCreatingAvailability}
+            data-testid="button-save-availability"
+          >
+            {isCreatingAvailability ? "Publishing..." : "Publish"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function TourScheduleCard({ properties }: TourScheduleCardProps) {
+  const { toast } = useToast();
+  const { data: tours = [], isLoading } = useTourBookings({ scope: "hosting", upcoming: true });
+  const { updateTourStatus, isUpdating } = useTourActions();
+  const [showAvailability, setShowAvailability] = useState(false);
+
+  const confirmedTours = tours.filter((t) => t.status === "confirmed");
+
+  const handleStatus = async (id: string, status: string) => {
+    try {
+      await updateTourStatus({ id, status });
+      toast({ title: status === "cancelled" ? "Tour cancelled" : "Tour updated" });
+    } catch (err) {
+      toast({
+        title: "Could not update tour",
+        description: err instanceof Error ? err.message.replace(/^\d+: /, "") : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="p-8 rounded-xl border border-border/50 shadow-sm" data-testid="section-tours">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-foreground">Upcoming Tours</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowAvailability(true)}
+          disabled={properties.length === 0}
+          data-testid="button-manage-availability"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Availability
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading tours...</p>
+      ) : confirmedTours.length === 0 ? (
+        <div className="text-center py-6">
+          <Calendar className="h-10 w-10 text-muted-foreground/40 mx-auto mb-3" strokeWidth={1.5} />
+          <p className="text-sm text-muted-foreground">
+            No tours booked yet. Publish availability so renters can schedule visits.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {confirmedTours.slice(0, 10).map((tour) => (
+            <div key={tour.id} className="p-4 rounded-lg border border-border/60" data-testid={`tour-${tour.id}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{tour.properties?.title || "Property"}</p>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Clock className="h-3.5 w-3.5" />
+                    {format(new Date(tour.starts_at), "EEE, MMM d · h:mm a")}
+                  </p>
+                  <p className="text-sm mt-1">{tour.name}</p>
+                  <div className="flex flex-wrap gap-3 text-xs text-muted-foreground mt-1">
+                    <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{tour.email}</span>
+                    {tour.phone && <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{tour.phone}</span>}
+                  </div>
+                </div>
+                <Badge variant="outline" className="flex items-center gap-1 shrink-0">
+                  {tour.tour_type === "video" ? <Video className="h-3 w-3" /> : <MapPin className="h-3 w-3" />}
+                  {tour.tour_type === "video" ? "Video" : "In-person"}
+                </Badge>
+              </div>
+              <div className="flex gap-2 mt-3">
+                <Button size="sm" variant="outline" disabled={isUpdating} onClick={() => handleStatus(tour.id, "cancelled")}>
+                  Cancel
+                </Button>
+                {new Date(tour.starts_at) <= new Date() && (
+                  <>
+                    <Button size="sm" variant="secondary" disabled={isUpdating} onClick={() => handleStatus(tour.id, "completed")}>
+                      Completed
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={isUpdating} onClick={() => handleStatus(tour.id, "no_show")}>
+                      No-show
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {properties.length > 0 && (
+        <AvailabilityDialog open={showAvailability} onOpenChange={setShowAvailability} properties={properties} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+
+export interface DocumentVerification {
+  id: string;
+  application_id: string;
+  document_type: string;
+  status: 'pending' | 'verified' | 'rejected' | 'expired';
+  rejection_reason: string | null;
+  expires_at: string | null;
+  verified_at: string | null;
+  notes: string | null;
+  created_at: string;
+  file_url: string | null;
+  uploaded_files?: {
+    id: string;
+    original_name: string;
+    mime_type: string;
+    file_size: number;
+    checksum: string | null;
+  } | null;
+  users?: { id: string; full_name: string | null; email: string } | null;
+  applications?: {
+    id: string;
+    status: string;
+    properties?: { id: string; title: string; address: string } | null;
+  } | null;
+}
+
+const REVIEW_QUEUE_KEY = '/api/v2/documents/review-queue';
+
+function documentsKey(applicationId: string) {
+  return ['/api/v2/applications', applicationId, 'documents'];
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function useApplicationDocuments(applicationId?: string) {
+  return useQuery<DocumentVerification[]>({
+    queryKey: documentsKey(applicationId || ''),
+    enabled: !!applicationId,
+    select: (res: any) => res?.data ?? [],
+  });
+}
+
+export function useDocumentReviewQueue(status: string = 'pending') {
+  return useQuery<{ documents: DocumentVerification[]; pagination: any }>({
+    queryKey: [REVIEW_QUEUE_KEY, status],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `${REVIEW_QUEUE_KEY}?status=${status}&limit=100`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+}
+
+export function useDocumentActions() {
+  const invalidate = (applicationId?: string) => {
+    queryClient.invalidateQueries({ queryKey: [REVIEW_QUEUE_KEY] });
+    if (applicationId) {
+      queryClient.invalidateQueries({ queryKey: documentsKey(applicationId) });
+    }
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ applicationId, documentType, file }: { applicationId: string; documentType: string; file: File }) => {
+      const data = await readFileAsBase64(file);
+      const res = await apiRequest('POST', `/api/v2/applications/${applicationId}/documents`, {
+        documentType,
+        file: { name: file.name, type: file.type, data },
+      });
+      return res.json();
+    },
+    onSuccess: (_, variables) => invalidate(variables.applicationId),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, ...payload }: {
+      id: string;
+      applicationId: string;
+      status: 'verified' | 'rejected';
+      rejectionReason?: string;
+      expiresAt?: string;
+      notes?: string;
+    }) => {
+      const { applicationId: _applicationId, ...body } = payload;
+      const res = await apiRequest('PATCH', `/api/v2/documents/${id}/review`, body);
+      return res.json();
+    },
+    onSuccess: (_, variables) => invalidate(variables.applicationId),
+  });
+
+  return {
+    uploadDocument: uploadMutation.mutateAsync,
+    isUploading: uploadMutation.isPending,
+    reviewDocument: reviewMutation.mutateAsync,
+    isReviewing: reviewMutation.isPending,
+  };
+}
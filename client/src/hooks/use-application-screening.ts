@@ -0,0 +1,80 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+
+export interface ScreeningReportSummary {
+  id: string;
+  screening_type: 'credit' | 'criminal' | 'eviction';
+  provider: string;
+  status: 'pending' | 'completed' | 'failed';
+  summary: { result: 'clear' | 'review'; score?: number; recordCount?: number } | null;
+  failure_reason: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface ApplicationScreening {
+  consent: {
+    id: string;
+    screeningTypes: string[];
+    consentVersion: string;
+    signature: string;
+    grantedAt: string;
+  } | null;
+  consentVersion: string;
+  reports: ScreeningReportSummary[];
+}
+
+function screeningKey(applicationId: string) {
+  return ['/api/v2/applications', applicationId, 'screening'];
+}
+
+export function useApplicationScreening(applicationId?: string) {
+  return useQuery<ApplicationScreening>({
+    queryKey: screeningKey(applicationId || ''),
+    enabled: !!applicationId,
+    select: (res: any) => res?.data,
+  });
+}
+
+export function useScreeningActions(applicationId: string) {
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: screeningKey(applicationId) });
+  };
+
+  const consentMutation = useMutation({
+    mutationFn: async (body: { screeningTypes: string[]; signature: string; ssn?: string; acknowledged: true }) => {
+      const res = await apiRequest('POST', `/api/v2/applications/${applicationId}/screening/consent`, body);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', `/api/v2/applications/${applicationId}/screening/consent`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (screeningTypes?: string[]) => {
+      const res = await apiRequest('POST', `/api/v2/applications/${applicationId}/screening`, { screeningTypes });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      // The score breakdown picks up the new results
+      queryClient.invalidateQueries({ queryKey: ['/api/applications', applicationId] });
+    },
+  });
+
+  return {
+    giveConsent: consentMutation.mutateAsync,
+    isConsenting: consentMutation.isPending,
+    revokeConsent: revokeMutation.mutateAsync,
+    isRevoking: revokeMutation.isPending,
+    runScreening: runMutation.mutateAsync,
+    isRunning: runMutation.isPending,
+  };
+}
@@ -0,0 +1,141 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/lib/auth-context';
+
+interface DisputeUser {
+  id: string;
+  full_name: string | null;
+  email: string;
+  role?: string;
+}
+
+export interface Dispute {
+  id: string;
+  initiator_id: string;
+  respondent_id: string | null;
+  property_id: string | null;
+  application_id: string | null;
+  dispute_type: string;
+  subject: string;
+  description: string;
+  status: string;
+  priority: string;
+  assigned_to: string | null;
+  resolution: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  properties?: { id: string; title: string; address: string } | null;
+  initiator?: DisputeUser | null;
+  respondent?: DisputeUser | null;
+  assignee?: DisputeUser | null;
+}
+
+export interface DisputeMessage {
+  id: string;
+  sender_id: string | null;
+  message: string;
+  is_internal: boolean;
+  attachments?: string[] | null;
+  created_at: string;
+  users?: { id: string; full_name: string | null; role: string } | null;
+}
+
+export interface DisputeDetail extends Dispute {
+  messages: DisputeMessage[];
+  validNextStatuses: string[];
+  permissions: { canManage: boolean; canWithdraw: boolean };
+}
+
+export interface DisputeQueueFilters {
+  status?: string;
+  priority?: string;
+  assignment?: 'mine' | 'unassigned';
+}
+
+const DISPUTES_KEY = '/api/v2/disputes';
+const ADMIN_DISPUTES_KEY = '/api/v2/admin/disputes';
+
+function invalidateDisputes(id?: string | null) {
+  queryClient.invalidateQueries({ queryKey: [DISPUTES_KEY] });
+  queryClient.invalidateQueries({ queryKey: [ADMIN_DISPUTES_KEY] });
+  if (id) {
+    queryClient.invalidateQueries({ queryKey: [DISPUTES_KEY, id] });
+  }
+}
+
+export function useMyDisputes() {
+  const { user } = useAuth();
+
+  return useQuery<Dispute[]>({
+    queryKey: [DISPUTES_KEY],
+    enabled: !!user?.id,
+    select: (res: any) => res?.data ?? [],
+  });
+}
+
+export function useDisputeQueue(filters: DisputeQueueFilters) {
+  return useQuery<{ disputes: Dispute[]; pagination: any }>({
+    queryKey: [ADMIN_DISPUTES_KEY, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '100' });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const res = await apiRequest('GET', `${ADMIN_DISPUTES_KEY}?${params.toString()}`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+}
+
+export function useDispute(id: string | null) {
+  return useQuery<DisputeDetail>({
+    queryKey: [DISPUTES_KEY, id],
+    enabled: !!id,
+    select: (res: any) => res?.data,
+  });
+}
+
+export function useDisputeActions(id?: string | null) {
+  const openMutation = useMutation({
+    mutationFn: async (payload: Record<string, any>) => {
+      const res = await apiRequest('POST', DISPUTES_KEY, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateDisputes(),
+  });
+
+  const messageMutation = useMutation({
+    mutationFn: async (payload: { message: string; isInternal: boolean }) => {
+      const res = await apiRequest('POST', `${DISPUTES_KEY}/${id}/messages`, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateDisputes(id),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (payload: { status: string; resolution?: string; note?: string }) => {
+      const res = await apiRequest('PATCH', `${DISPUTES_KEY}/${id}/status`, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateDisputes(id),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (payload: { assignedTo?: string | null; priority?: string }) => {
+      const res = await apiRequest('PATCH', `${ADMIN_DISPUTES_KEY}/${id}/assign`, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateDisputes(id),
+  });
+
+  return {
+    openDispute: openMutation.mutateAsync,
+    isOpening: openMutation.isPending,
+    addMessage: messageMutation.mutateAsync,
+    updateStatus: statusMutation.mutateAsync,
+    assign: assignMutation.mutateAsync,
+    isUpdating: messageMutation.isPending || statusMutation.isPending || assignMutation.isPending,
+  };
+}
@@ -2,6 +2,7 @@ import { createContext, useContext, useState, useEffect, useCallback, type React
 import { useAuth } from '@/lib/auth-context';
 import { getFavorites, addFavorite, removeFavorite } from '@/lib/supabase-service';
 import { useToast } from '@/hooks/use-toast';
+import { trackPropertyEvent } from '@/lib/analytics';
 
 interface FavoritesContextType {
   favorites: string[];
@@ -60,6 +61,7 @@ export function FavoritesProvider({ children }: { children: ReactNode }) {
     try {
       if (wasAdding) {
         await addFavorite(user.id, propertyId);
+        trackPropertyEvent(propertyId, 'favorite');
       } else {
         await removeFavorite(user.id, propertyId);
       }
@@ -8,7 +8,7 @@ export function useInquiries() {
 
   // Fetch agent's inquiries
   const { data: agentInquiries = [], isLoading } = useQuery<Inquiry[]>({
-    queryKey: ['/api/inquiries/agent', user?.id],
+    queryKey: ['/api/v2/inquiries/agent', user?.id],
     enabled: !!user?.id && user?.role === 'agent',
     select: (res: any) => res?.data ?? [],
   });
@@ -16,12 +16,12 @@ export function useInquiries() {
   // Submit inquiry mutation
   const submitInquiryMutation = useMutation({
     mutationFn: async (inquiryData: Record<string, any>) => {
-      const response = await apiRequest('POST', '/api/inquiries', inquiryData);
+      const response = await apiRequest('POST', '/api/v2/inquiries', inquiryData);
       return response.json();
     },
     onSuccess: () => {
       if (user?.id) {
-        queryClient.invalidateQueries({ queryKey: ['/api/inquiries/agent', user.id] });
+        queryClient.invalidateQueries({ queryKey: ['/api/v2/inquiries/agent', user.id] });
       }
     },
   });
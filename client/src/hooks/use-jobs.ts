@@ -0,0 +1,92 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+
+export interface ScheduledJob {
+  name: string;
+  description: string | null;
+  schedule: string;
+  enabled: boolean;
+  next_run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_run_at: string | null;
+  last_success_at: string | null;
+  last_status: string | null;
+  last_error: string | null;
+  consecutive_failures: number;
+}
+
+export interface JobRun {
+  id: string;
+  job_name: string;
+  status: 'running' | 'succeeded' | 'failed';
+  attempt: number;
+  trigger: 'schedule' | 'manual';
+  instance_id: string | null;
+  result: Record<string, any> | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+}
+
+export interface JobRunFilters {
+  job?: string;
+  status?: string;
+}
+
+const JOBS_KEY = '/api/v2/admin/jobs';
+const JOB_RUNS_KEY = '/api/v2/admin/jobs/runs';
+
+export function useJobs() {
+  return useQuery<ScheduledJob[]>({
+    queryKey: [JOBS_KEY],
+    select: (res: any) => res?.data,
+  });
+}
+
+export function useJobRuns(filters: JobRunFilters) {
+  return useQuery<{ runs: JobRun[]; pagination: any }>({
+    queryKey: [JOB_RUNS_KEY, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '100' });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const res = await apiRequest('GET', `${JOB_RUNS_KEY}?${params.toString()}`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+}
+
+export function useJobActions() {
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [JOBS_KEY] });
+    queryClient.invalidateQueries({ queryKey: [JOB_RUNS_KEY] });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest('POST', `${JOBS_KEY}/${name}/run`);
+      const json = await res.json();
+      return json.data as JobRun;
+    },
+    onSettled: invalidate,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ name, enabled }: { name: string; enabled: boolean }) => {
+      const res = await apiRequest('PATCH', `${JOBS_KEY}/${name}`, { enabled });
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    runJob: runMutation.mutateAsync,
+    runningJob: runMutation.isPending ? runMutation.variables : undefined,
+    setEnabled: toggleMutation.mutateAsync,
+    isToggling: toggleMutation.isPending,
+  };
+}
@@ -0,0 +1,163 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import type { Inquiry, LeadStage } from '@/lib/types';
+
+export interface Lead extends Inquiry {
+  applications?: { id: string; status: string; created_at: string } | null;
+  openTasks?: number;
+  nextTaskDueAt?: string | null;
+  hasOverdueTask?: boolean;
+}
+
+export interface LeadTask {
+  id: string;
+  inquiry_id: string;
+  agent_id: string;
+  title: string;
+  notes: string | null;
+  due_at: string;
+  completed_at: string | null;
+  created_at: string;
+  inquiries?: {
+    id: string;
+    sender_name: string;
+    stage: LeadStage;
+    properties?: { id: string; title: string } | null;
+  } | null;
+}
+
+export interface LeadMetricsSummary {
+  leads: number;
+  open: number;
+  lost: number;
+  funnel: Array<{ stage: LeadStage; count: number; rateFromPrevious: number }>;
+  conversionRate: number;
+  averageResponseHours: number | null;
+}
+
+export interface LeadMetrics {
+  range: { since: string; days: number };
+  totals: LeadMetricsSummary;
+  bySource: Array<{ source: string; leads: number; applied: number; conversionRate: number }>;
+}
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  tour_scheduled: 'Tour Scheduled',
+  applied: 'Applied',
+  lost: 'Lost',
+};
+
+// Mirrors the server's allowed transitions
+export const LEAD_STAGE_TRANSITIONS: Record<LeadStage, LeadStage[]> = {
+  new: ['contacted', 'tour_scheduled', 'applied', 'lost'],
+  contacted: ['tour_scheduled', 'applied', 'lost'],
+  tour_scheduled: ['contacted', 'applied', 'lost'],
+  applied: ['lost'],
+  lost: ['new', 'contacted'],
+};
+
+const leadsKey = ['/api/v2/inquiries'];
+
+function agentLeadsKey(agentId: string) {
+  return ['/api/v2/inquiries', 'agent', agentId];
+}
+
+function leadKey(inquiryId: string) {
+  return ['/api/v2/inquiries', inquiryId];
+}
+
+async function getData<T>(url: string): Promise<T> {
+  const res = await apiRequest('GET', url);
+  const json = await res.json();
+  return json.data;
+}
+
+export function useAgentLeads(agentId?: string) {
+  return useQuery<Lead[]>({
+    queryKey: agentLeadsKey(agentId || ''),
+    enabled: !!agentId,
+    queryFn: () => getData(`/api/v2/inquiries/agent/${agentId}`),
+  });
+}
+
+export function useLead(inquiryId?: string | null) {
+  return useQuery<Lead & { tasks: LeadTask[] }>({
+    queryKey: leadKey(inquiryId || ''),
+    enabled: !!inquiryId,
+    queryFn: () => getData(`/api/v2/inquiries/${inquiryId}`),
+  });
+}
+
+export function useLeadTasks(agentId?: string, status: 'open' | 'overdue' | 'completed' = 'open') {
+  return useQuery<LeadTask[]>({
+    queryKey: [...agentLeadsKey(agentId || ''), 'tasks', status],
+    enabled: !!agentId,
+    queryFn: () => getData(`/api/v2/inquiries/agent/${agentId}/tasks?status=${status}`),
+  });
+}
+
+export function useLeadMetrics(agentId?: string, days = 90) {
+  return useQuery<LeadMetrics>({
+    queryKey: [...agentLeadsKey(agentId || ''), 'metrics', days],
+    enabled: !!agentId,
+    queryFn: () => getData(`/api/v2/inquiries/agent/${agentId}/metrics?days=${days}`),
+  });
+}
+
+export function useLeadActions(inquiryId: string) {
+  // Stage, task and link changes all feed the pipeline list, task list and metrics
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: leadsKey });
+
+  const stageMutation = useMutation({
+    mutationFn: async (data: { stage: LeadStage; lostReason?: string }) => {
+      const res = await apiRequest('PATCH', `/api/v2/inquiries/${inquiryId}/stage`, data);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async (applicationId: string | null) => {
+      const res = await apiRequest('PUT', `/api/v2/inquiries/${inquiryId}/application`, { applicationId });
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const createTaskMutation = useMutation({
+    mutationFn: async (data: { title: string; dueAt: string; notes?: string }) => {
+      const res = await apiRequest('POST', `/api/v2/inquiries/${inquiryId}/tasks`, data);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ taskId, ...data }: { taskId: string; completed?: boolean; dueAt?: string; title?: string }) => {
+      const res = await apiRequest('PATCH', `/api/v2/inquiries/${inquiryId}/tasks/${taskId}`, data);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const res = await apiRequest('DELETE', `/api/v2/inquiries/${inquiryId}/tasks/${taskId}`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    updateStage: stageMutation.mutateAsync,
+    isUpdatingStage: stageMutation.isPending,
+    linkApplication: linkMutation.mutateAsync,
+    isLinking: linkMutation.isPending,
+    createTask: createTaskMutation.mutateAsync,
+    isCreatingTask: createTaskMutation.isPending,
+    updateTask: updateTaskMutation.mutateAsync,
+    deleteTask: deleteTaskMutation.mutateAsync,
+  };
+}
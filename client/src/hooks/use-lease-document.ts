@@ -0,0 +1,81 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+
+export interface ExecutedLeaseDocument {
+  id: string;
+  application_id: string;
+  lease_draft_id: string | null;
+  draft_version: number | null;
+  document_hash: string;
+  size_bytes: number;
+  created_at: string;
+  download_url: string | null;
+}
+
+export interface LeaseDocumentVerification {
+  valid: boolean;
+  uploadedHash: string;
+  documentHash: string;
+  isLatest: boolean;
+  document: { id: string; draft_version: number | null; created_at: string } | null;
+}
+
+function leaseDocumentKey(applicationId: string) {
+  return ['/api/v2/applications', applicationId, 'lease', 'document'];
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// 404 just means the executed PDF hasn't been rendered yet
+export function useExecutedLease(applicationId?: string) {
+  return useQuery<ExecutedLeaseDocument | null>({
+    queryKey: leaseDocumentKey(applicationId || ''),
+    enabled: !!applicationId,
+    queryFn: async () => {
+      try {
+        const res = await apiRequest('GET', `/api/v2/applications/${applicationId}/lease/document`);
+        const json = await res.json();
+        return json.data;
+      } catch (err) {
+        if (err instanceof Error && err.message.startsWith('404:')) return null;
+        throw err;
+      }
+    },
+  });
+}
+
+export function useLeaseDocumentActions(applicationId: string) {
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/v2/applications/${applicationId}/lease/document`);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: leaseDocumentKey(applicationId) }),
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (file: File): Promise<LeaseDocumentVerification> => {
+      const data = await readFileAsBase64(file);
+      const res = await apiRequest('POST', `/api/v2/applications/${applicationId}/lease/document/verify`, {
+        file: { name: file.name, type: file.type, data },
+      });
+      const json = await res.json();
+      return json.data;
+    },
+  });
+
+  return {
+    generate: generateMutation.mutateAsync,
+    isGenerating: generateMutation.isPending,
+    verify: verifyMutation.mutateAsync,
+    isVerifying: verifyMutation.isPending,
+    verification: verifyMutation.data,
+  };
+}
@@ -0,0 +1,133 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export interface LeaseRenewalOffer {
+  id: string;
+  monthly_rent: string;
+  term_months: number | null;
+  start_date: string;
+  end_date: string | null;
+  message: string | null;
+  status: 'pending' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+  response_deadline: string;
+  responded_at: string | null;
+  response_note: string | null;
+  lease_templates?: { name: string } | null;
+  created_at: string;
+}
+
+export interface LeaseNotice {
+  id: string;
+  given_by: string;
+  given_by_role: 'tenant' | 'landlord';
+  move_out_date: string;
+  reason: string | null;
+  early_termination: boolean;
+  status: 'pending' | 'completed' | 'cancelled';
+  fee_payment?: { id: string; amount: string; status: string } | null;
+  created_at: string;
+}
+
+export interface LeaseLifecycle {
+  lease: {
+    id: string;
+    property: { title: string; address: string } | null;
+    status: 'active' | 'month_to_month' | 'expired' | 'terminated';
+    monthlyRent: string;
+    leaseStartDate: string;
+    leaseEndDate: string;
+    noticePeriodDays: number;
+    earlyTerminationFee: number | null;
+    moveOutDate: string | null;
+    endedAt: string | null;
+  };
+  renewals: LeaseRenewalOffer[];
+  notices: LeaseNotice[];
+}
+
+export interface RenewalOfferInput {
+  templateId?: string;
+  monthlyRent?: number;
+  termMonths?: number;
+  monthToMonth?: boolean;
+  responseDeadline?: string;
+  message?: string;
+}
+
+export function useLeaseLifecycle(leaseId: string | undefined) {
+  const queryKey = ['/api/v2/leases', leaseId, 'lifecycle'];
+
+  const query = useQuery<LeaseLifecycle>({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/v2/leases/${leaseId}/lifecycle`);
+      return res.json();
+    },
+    select: (res: any) => res?.data,
+    enabled: !!leaseId,
+  });
+
+  // Renewals and notices change the rent schedule too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/v2/leases/${leaseId}/payment-history`] });
+  };
+
+  const offerRenewal = useMutation({
+    mutationFn: async (offer: RenewalOfferInput) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/renewals`, offer);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const giveNotice = useMutation({
+    mutationFn: async (notice: { moveOutDate: string; reason?: string }) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/notices`, notice);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const respondToRenewal = useMutation({
+    mutationFn: async ({ renewalId, decision, note }: { renewalId: string; decision: 'accept' | 'decline'; note?: string }) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/renewals/${renewalId}/respond`, { decision, note });
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const withdrawRenewal = useMutation({
+    mutationFn: async (renewalId: string) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/renewals/${renewalId}/withdraw`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const cancelNotice = useMutation({
+    mutationFn: async (noticeId: string) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/notices/${noticeId}/cancel`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateTerminationTerms = useMutation({
+    mutationFn: async (terms: { noticePeriodDays: number; earlyTerminationFee?: number | null }) => {
+      const res = await apiRequest('PUT', `/api/v2/leases/${leaseId}/termination-terms`, terms);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    ...query,
+    offerRenewal,
+    respondToRenewal,
+    withdrawRenewal,
+    giveNotice,
+    cancelNotice,
+    updateTerminationTerms,
+  };
+}
@@ -0,0 +1,145 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+
+export interface LeaseMergeField {
+  key: string;
+  label: string;
+  type: 'text' | 'currency' | 'date' | 'number';
+}
+
+export interface LeaseTemplateClause {
+  id: string;
+  title: string;
+  content: string;
+  optional: boolean;
+  category?: string;
+  libraryClauseId?: string;
+}
+
+export interface LeaseTemplate {
+  id: string;
+  user_id: string;
+  agency_id: string | null;
+  name: string;
+  description: string | null;
+  state: string | null;
+  rent_amount: string | null;
+  security_deposit: string | null;
+  lease_term_months: number | null;
+  content: string;
+  custom_clauses: LeaseTemplateClause[] | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+  compliance: {
+    requiredClauses: string[];
+    missingClauses: string[];
+  };
+}
+
+export interface LibraryClause {
+  id: string;
+  agency_id: string | null;
+  created_by: string;
+  title: string;
+  content: string;
+  category: string;
+  state: string | null;
+  created_at: string;
+}
+
+export interface LeaseTemplateInput {
+  name: string;
+  description?: string;
+  state?: string;
+  rentAmount?: number;
+  securityDeposit?: number;
+  leaseTermMonths?: number;
+  content: string;
+  customClauses: LeaseTemplateClause[];
+  shareWithAgency: boolean;
+  isDefault: boolean;
+}
+
+export interface LibraryClauseInput {
+  title: string;
+  content: string;
+  category: string;
+  state?: string | null;
+  shareWithAgency?: boolean;
+}
+
+const TEMPLATES_KEY = '/api/v2/lease-templates';
+const CLAUSES_KEY = '/api/v2/lease-clauses';
+
+export function useLeaseMergeFields() {
+  return useQuery<LeaseMergeField[]>({
+    queryKey: [TEMPLATES_KEY, 'merge-fields'],
+    select: (res: any) => res?.data ?? [],
+    staleTime: Infinity,
+  });
+}
+
+export function useLeaseTemplates() {
+  return useQuery<LeaseTemplate[]>({
+    queryKey: [TEMPLATES_KEY],
+    select: (res: any) => res?.data ?? [],
+  });
+}
+
+export function useLeaseClauseLibrary() {
+  return useQuery<LibraryClause[]>({
+    queryKey: [CLAUSES_KEY],
+    select: (res: any) => res?.data ?? [],
+  });
+}
+
+export function useLeaseTemplateActions() {
+  const invalidateTemplates = () => queryClient.invalidateQueries({ queryKey: [TEMPLATES_KEY] });
+  const invalidateClauses = () => queryClient.invalidateQueries({ queryKey: [CLAUSES_KEY] });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ id, ...input }: LeaseTemplateInput & { id?: string }) => {
+      const res = id
+        ? await apiRequest('PATCH', `${TEMPLATES_KEY}/${id}`, input)
+        : await apiRequest('POST', TEMPLATES_KEY, input);
+      return res.json();
+    },
+    onSuccess: invalidateTemplates,
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `${TEMPLATES_KEY}/${id}`);
+      return res.json();
+    },
+    onSuccess: invalidateTemplates,
+  });
+
+  const saveClauseMutation = useMutation({
+    mutationFn: async ({ id, ...input }: LibraryClauseInput & { id?: string }) => {
+      const res = id
+        ? await apiRequest('PATCH', `${CLAUSES_KEY}/${id}`, input)
+        : await apiRequest('POST', CLAUSES_KEY, input);
+      return res.json();
+    },
+    onSuccess: invalidateClauses,
+  });
+
+  const deleteClauseMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `${CLAUSES_KEY}/${id}`);
+      return res.json();
+    },
+    onSuccess: invalidateClauses,
+  });
+
+  return {
+    saveTemplate: saveTemplateMutation.mutateAsync,
+    isSavingTemplate: saveTemplateMutation.isPending,
+    deleteTemplate: deleteTemplateMutation.mutateAsync,
+    saveClause: saveClauseMutation.mutateAsync,
+    isSavingClause: saveClauseMutation.isPending,
+    deleteClause: deleteClauseMutation.mutateAsync,
+  };
+}
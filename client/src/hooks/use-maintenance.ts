@@ -0,0 +1,148 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/lib/auth-context';
+
+export interface MaintenanceRequest {
+  id: string;
+  lease_id: string;
+  property_id: string;
+  tenant_id: string;
+  title: string;
+  description: string;
+  category: string;
+  urgency: string;
+  status: string;
+  entry_permission: boolean;
+  entry_instructions?: string | null;
+  assigned_to?: string | null;
+  vendor?: { name: string; company?: string; phone?: string; email?: string } | null;
+  scheduled_for?: string | null;
+  status_history?: Array<{ status: string; changedBy: string; changedAt: string; note?: string }>;
+  resolution_notes?: string | null;
+  completed_at?: string | null;
+  closed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  properties?: { id: string; title: string; address: string } | null;
+  tenant?: { id: string; full_name: string | null; email: string } | null;
+}
+
+export interface MaintenanceComment {
+  id: string;
+  comment: string;
+  is_internal: boolean;
+  created_at: string;
+  users?: { id: string; full_name: string | null; role: string } | null;
+}
+
+export interface MaintenanceRequestDetail extends MaintenanceRequest {
+  comments: MaintenanceComment[];
+  photos: Array<{ id: string; url: string; thumbnail_url?: string | null }>;
+  permissions: { canManage: boolean; canCancel: boolean };
+}
+
+const MAINTENANCE_KEY = '/api/v2/maintenance';
+
+function invalidateMaintenance(id?: string) {
+  queryClient.invalidateQueries({ queryKey: [MAINTENANCE_KEY] });
+  if (id) {
+    queryClient.invalidateQueries({ queryKey: [MAINTENANCE_KEY, id] });
+  }
+}
+
+export function useMaintenanceRequests(status?: string) {
+  const { user } = useAuth();
+
+  const { data, isLoading, error } = useQuery<{ requests: MaintenanceRequest[]; pagination: any }>({
+    queryKey: [MAINTENANCE_KEY, 'list', status ?? 'all'],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '50' });
+      if (status) params.set('status', status);
+      const res = await apiRequest('GET', `${MAINTENANCE_KEY}?${params.toString()}`);
+      const json = await res.json();
+      return json.data;
+    },
+    enabled: !!user?.id,
+  });
+
+  return {
+    requests: data?.requests ?? [],
+    pagination: data?.pagination,
+    isLoading,
+    error,
+  };
+}
+
+export function useMaintenanceLeases() {
+  const { user } = useAuth();
+
+  return useQuery<any[]>({
+    queryKey: [MAINTENANCE_KEY, 'leases'],
+    enabled: !!user?.id && user?.role === 'renter',
+    select: (res: any) => res?.data ?? [],
+  });
+}
+
+export function useMaintenanceRequest(id: string | null) {
+  return useQuery<MaintenanceRequestDetail>({
+    queryKey: [MAINTENANCE_KEY, id],
+    enabled: !!id,
+    select: (res: any) => res?.data,
+  });
+}
+
+export function useMaintenanceActions(id?: string | null) {
+  const createMutation = useMutation({
+    mutationFn: async (payload: Record<string, any>) => {
+      const res = await apiRequest('POST', MAINTENANCE_KEY, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateMaintenance(),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (payload: { status: string; note?: string; resolutionNotes?: string }) => {
+      const res = await apiRequest('PATCH', `${MAINTENANCE_KEY}/${id}/status`, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateMaintenance(id ?? undefined),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (payload: Record<string, any>) => {
+      const res = await apiRequest('PATCH', `${MAINTENANCE_KEY}/${id}/assign`, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateMaintenance(id ?? undefined),
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (payload: { scheduledFor: string; note?: string }) => {
+      const res = await apiRequest('PATCH', `${MAINTENANCE_KEY}/${id}/schedule`, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateMaintenance(id ?? undefined),
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (payload: { comment: string; isInternal: boolean }) => {
+      const res = await apiRequest('POST', `${MAINTENANCE_KEY}/${id}/comments`, payload);
+      return res.json();
+    },
+    onSuccess: () => invalidateMaintenance(id ?? undefined),
+  });
+
+  return {
+    createRequest: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    updateStatus: statusMutation.mutateAsync,
+    assign: assignMutation.mutateAsync,
+    schedule: scheduleMutation.mutateAsync,
+    addComment: commentMutation.mutateAsync,
+    isUpdating:
+      statusMutation.isPending ||
+      assignMutation.isPending ||
+      scheduleMutation.isPending ||
+      commentMutation.isPending,
+  };
+}
@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery, useMutation, useQuery, type InfiniteData } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { getAuthToken } from '@/lib/auth-context';
+
+export interface ConversationParticipant {
+  user_id: string;
+  last_read_at: string | null;
+  users: {
+    id: string;
+    full_name: string;
+    profile_image: string | null;
+  } | null;
+}
+
+export interface Conversation {
+  id: string;
+  subject: string | null;
+  property_id: string | null;
+  application_id: string | null;
+  created_at: string;
+  updated_at: string;
+  lastMessage?: {
+    id: string;
+    content: string;
+    message_type: string;
+    sender_id: string;
+    created_at: string;
+  } | null;
+  unreadCount?: number;
+  participants: ConversationParticipant[];
+  properties?: {
+    id: string;
+    title: string;
+    address: string;
+  } | null;
+}
+
+export interface MessageAttachment {
+  fileId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  url: string | null;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  message_type: string;
+  attachments: MessageAttachment[] | null;
+  created_at: string;
+  users?: {
+    id: string;
+    full_name: string;
+    profile_image: string | null;
+  };
+}
+
+interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+type MessagingServerEvent =
+  | { type: 'ready'; userId: string }
+  | { type: 'message'; conversationId: string; message: Message }
+  | { type: 'typing'; conversationId: string; userId: string; isTyping: boolean }
+  | { type: 'read'; conversationId: string; userId: string; readAt: string }
+  | { type: 'error'; message: string };
+
+const MESSAGES_PAGE_SIZE = 30;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+// Typing indicators clear themselves if the "stopped typing" event never arrives
+const TYPING_EXPIRY_MS = 6 * 1000;
+
+const conversationsKey = ['/api/v2/conversations'];
+
+function conversationKey(conversationId: string) {
+  return ['/api/v2/conversations', conversationId];
+}
+
+function messagesKey(conversationId: string) {
+  return ['/api/v2/conversations', conversationId, 'messages'];
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function useConversations(enabled = true) {
+  return useQuery<Conversation[]>({
+    queryKey: conversationsKey,
+    enabled,
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/v2/conversations');
+      const json = await res.json();
+      return json.data || [];
+    },
+  });
+}
+
+export function useConversation(conversationId?: string | null) {
+  return useQuery<Conversation>({
+    queryKey: conversationKey(conversationId || ''),
+    enabled: !!conversationId,
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/v2/conversations/${conversationId}`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+}
+
+// Pages run newest to oldest; the flattened list is oldest first for display
+export function useConversationMessages(conversationId?: string | null) {
+  const query = useInfiniteQuery({
+    queryKey: messagesKey(conversationId || ''),
+    enabled: !!conversationId,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }): Promise<MessagePage> => {
+      const params = new URLSearchParams({ limit: String(MESSAGES_PAGE_SIZE) });
+      if (pageParam) params.set('before', pageParam);
+      const res = await apiRequest('GET', `/api/v2/conversations/${conversationId}/messages?${params}`);
+      const json = await res.json();
+      return json.data;
+    },
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor : null),
+  });
+
+  const messages = query.data ? [...query.data.pages].reverse().flatMap((page) => page.messages) : [];
+
+  return {
+    messages,
+    isLoading: query.isLoading,
+    hasEarlier: !!query.hasNextPage,
+    loadEarlier: query.fetchNextPage,
+    isLoadingEarlier: query.isFetchingNextPage,
+  };
+}
+
+function appendMessage(conversationId: string, message: Message) {
+  queryClient.setQueryData<InfiniteData<MessagePage, string | null>>(messagesKey(conversationId), (data) => {
+    if (!data || data.pages.some((page) => page.messages.some((m) => m.id === message.id))) return data;
+
+    const [newest, ...older] = data.pages;
+    return { ...data, pages: [{ ...newest, messages: [...newest.messages, message] }, ...older] };
+  });
+}
+
+export function useMessagingActions() {
+  const sendMutation = useMutation({
+    mutationFn: async ({ conversationId, content, files = [] }: { conversationId: string; content: string; files?: File[] }) => {
+      const attachmentIds: string[] = [];
+      for (const file of files) {
+        const data = await readFileAsBase64(file);
+        const res = await apiRequest('POST', `/api/v2/conversations/${conversationId}/attachments`, {
+          file: { name: file.name, type: file.type, data },
+        });
+        const json = await res.json();
+        attachmentIds.push(json.data.fileId);
+      }
+
+      const res = await apiRequest('POST', `/api/v2/conversations/${conversationId}/messages`, { content, attachmentIds });
+      const json = await res.json();
+      return json.data as Message;
+    },
+    onSuccess: (message, { conversationId }) => {
+      appendMessage(conversationId, message);
+      queryClient.invalidateQueries({ queryKey: conversationsKey, exact: true });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { participantIds: string[]; propertyId?: string; subject?: string; initialMessage: string }) => {
+      const res = await apiRequest('POST', '/api/v2/conversations', data);
+      const json = await res.json();
+      return json.data as Conversation;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: conversationsKey, exact: true }),
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (conversationId: string) => {
+      const res = await apiRequest('POST', `/api/v2/conversations/${conversationId}/read`);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: conversationsKey, exact: true }),
+  });
+
+  return {
+    sendMessage: sendMutation.mutateAsync,
+    isSending: sendMutation.isPending,
+    createConversation: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    markRead: markReadMutation.mutate,
+  };
+}
+
+// Keeps one socket open while signed in. New messages are written into the
+// query cache, read receipts refresh the conversation, and typing state is
+// tracked per conversation.
+export function useMessagingSocket(userId?: string | null) {
+  const socketRef = useRef<WebSocket | null>(null);
+  // The server drops sockets whose first message isn't auth, so nothing else is sent until "ready"
+  const readyRef = useRef(false);
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const [connected, setConnected] = useState(false);
+  const [typing, setTyping] = useState<Record<string, string[]>>({});
+
+  const setUserTyping = useCallback((conversationId: string, typingUserId: string, isTyping: boolean) => {
+    const timerKey = `${conversationId}:${typingUserId}`;
+    const existing = typingTimers.current.get(timerKey);
+    if (existing) clearTimeout(existing);
+    typingTimers.current.delete(timerKey);
+
+    if (isTyping) {
+      typingTimers.current.set(timerKey, setTimeout(() => setUserTyping(conversationId, typingUserId, false), TYPING_EXPIRY_MS));
+    }
+
+    setTyping((prev) => {
+      const others = (prev[conversationId] || []).filter((id) => id !== typingUserId);
+      return { ...prev, [conversationId]: isTyping ? [...others, typingUserId] : others };
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let closed = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+      const socket = new WebSocket(`${protocol}://${window.location.host}/ws/messages`);
+      socketRef.current = socket;
+
+      socket.onopen = async () => {
+        const token = await getAuthToken();
+        if (!token) return socket.close();
+        socket.send(JSON.stringify({ type: 'auth', token }));
+      };
+
+      socket.onmessage = (raw) => {
+        let event: MessagingServerEvent;
+        try {
+          event = JSON.parse(raw.data);
+        } catch {
+          return;
+        }
+
+        switch (event.type) {
+          case 'ready':
+            attempts = 0;
+            readyRef.current = true;
+            setConnected(true);
+            // Anything sent while we were disconnected
+            queryClient.invalidateQueries({ queryKey: conversationsKey });
+            break;
+          case 'message':
+            appendMessage(event.conversationId, event.message);
+            setUserTyping(event.conversationId, event.message.sender_id, false);
+            queryClient.invalidateQueries({ queryKey: conversationsKey, exact: true });
+            break;
+          case 'read':
+            queryClient.invalidateQueries({ queryKey: conversationKey(event.conversationId), exact: true });
+            break;
+          case 'typing':
+            setUserTyping(event.conversationId, event.userId, event.isTyping);
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        if (socketRef.current !== socket) return;
+        socketRef.current = null;
+        readyRef.current = false;
+        setConnected(false);
+        if (closed) return;
+
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      readyRef.current = false;
+      setConnected(false);
+      typingTimers.current.forEach((timer) => clearTimeout(timer));
+      typingTimers.current.clear();
+    };
+  }, [userId, setUserTyping]);
+
+  const sendTyping = useCallback((conversationId: string, isTyping: boolean) => {
+    const socket = socketRef.current;
+    if (readyRef.current && socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'typing', conversationId, isTyping }));
+    }
+  }, []);
+
+  const typingIn = useCallback((conversationId: string) => typing[conversationId] || [], [typing]);
+
+  return { connected, sendTyping, typingIn };
+}
@@ -0,0 +1,86 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+
+export interface ContentReport {
+  id: string;
+  reporter_id: string | null;
+  property_id: string | null;
+  review_id: string | null;
+  report_type: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  assigned_to: string | null;
+  resolution: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  target_report_count: number;
+  properties?: { id: string; title: string; address: string; moderation_hidden_at: string | null } | null;
+  reviews?: { id: string; property_id: string; rating: number; title: string | null; comment: string | null; moderation_hidden_at: string | null } | null;
+  reporter?: { id: string; full_name: string | null; email: string } | null;
+  assignee?: { id: string; full_name: string | null; email: string } | null;
+}
+
+export interface ModerationQueueFilters {
+  status?: string;
+  priority?: string;
+  targetType?: 'property' | 'review';
+  assignment?: 'mine' | 'unassigned';
+}
+
+const MODERATION_KEY = '/api/v2/admin/moderation/reports';
+
+export function useModerationQueue(filters: ModerationQueueFilters) {
+  return useQuery<{ reports: ContentReport[]; autoHideThreshold: number; pagination: any }>({
+    queryKey: [MODERATION_KEY, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '100' });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const res = await apiRequest('GET', `${MODERATION_KEY}?${params.toString()}`);
+      const json = await res.json();
+      return json.data;
+    },
+  });
+}
+
+export function useReportContent() {
+  const mutation = useMutation({
+    mutationFn: async (payload: { propertyId?: string; reviewId?: string; reportType: string; description?: string }) => {
+      const res = await apiRequest('POST', '/api/v2/reports', payload);
+      return res.json();
+    },
+  });
+
+  return {
+    submitReport: mutation.mutateAsync,
+    isSubmitting: mutation.isPending,
+  };
+}
+
+export function useModerationActions() {
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [MODERATION_KEY] });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, ...payload }: { id: string; assignedTo?: string | null; priority?: string }) => {
+      const res = await apiRequest('PATCH', `${MODERATION_KEY}/${id}/assign`, payload);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, ...payload }: { id: string; status: 'resolved' | 'dismissed'; resolution: string; contentAction: string }) => {
+      const res = await apiRequest('PATCH', `${MODERATION_KEY}/${id}/resolve`, payload);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    assign: assignMutation.mutateAsync,
+    resolve: resolveMutation.mutateAsync,
+    isUpdating: assignMutation.isPending || resolveMutation.isPending,
+  };
+}
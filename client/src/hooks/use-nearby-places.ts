@@ -1,24 +1,57 @@
-// TODO: Implement real nearby places API integration using Google Maps API or similar
-// This hook should fetch actual nearby places based on coordinates
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
 
 export interface NearbyPlace {
   name: string;
   distance: number;
+  subtype?: string | null;
+  latitude?: number;
+  longitude?: number;
 }
 
+// Keyed by display label, e.g. { Schools: [...], Transit: [...] }
 export interface NearbyPlacesData {
   [category: string]: NearbyPlace[];
 }
 
-export function useNearbyPlaces(
-  latitude?: number | string,
-  longitude?: number | string
-): NearbyPlacesData {
-  // TODO: Replace with real API call to nearby places service
-  // For now, return empty object
-  if (!latitude || !longitude) {
-    return {};
-  }
+export interface NearbyPlacesResult {
+  radiusMiles: number;
+  computedAt: string;
+  places: NearbyPlacesData;
+}
+
+export const NEARBY_PLACE_CATEGORY_LABELS: Record<string, string> = {
+  schools: 'Schools',
+  transit: 'Transit',
+  groceries: 'Groceries',
+  parks: 'Parks',
+  hospitals: 'Hospitals',
+};
+
+// 404 means the listing has no coordinates on file, so there is nothing to show
+export function useNearbyPlaces(propertyId?: string) {
+  return useQuery<NearbyPlacesResult | null>({
+    queryKey: ['/api/v2/properties', propertyId, 'nearby-places'],
+    enabled: !!propertyId,
+    staleTime: 60 * 60 * 1000,
+    queryFn: async () => {
+      try {
+        const res = await apiRequest('GET', `/api/v2/properties/${propertyId}/nearby-places`);
+        const json = await res.json();
+        const categories: Record<string, NearbyPlace[]> = json.data?.categories ?? {};
+
+        const places: NearbyPlacesData = {};
+        for (const [category, categoryPlaces] of Object.entries(categories)) {
+          if (categoryPlaces.length > 0) {
+            places[NEARBY_PLACE_CATEGORY_LABELS[category] ?? category] = categoryPlaces;
+          }
+        }
 
-  return {};
+        return { radiusMiles: json.data.radiusMiles, computedAt: json.data.computedAt, places };
+      } catch (err) {
+        if (err instanceof Error && err.message.startsWith('404:')) return null;
+        throw err;
+      }
+    },
+  });
 }
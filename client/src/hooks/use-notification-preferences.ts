@@ -0,0 +1,46 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/lib/auth-context';
+import type { NotificationFrequency, UpdateNotificationPreferences } from '@shared/schema';
+
+export interface NotificationPreferences {
+  email_new_applications: boolean;
+  email_status_updates: boolean;
+  email_property_saved: boolean;
+  email_lease_reminders: boolean;
+  in_app_notifications: boolean;
+  push_notifications: boolean;
+  notification_frequency: NotificationFrequency;
+  updated_at: string | null;
+}
+
+const PREFERENCES_KEY = '/api/v2/notification-preferences';
+
+export function useNotificationPreferences() {
+  const { isLoggedIn } = useAuth();
+
+  const query = useQuery<NotificationPreferences>({
+    queryKey: [PREFERENCES_KEY],
+    enabled: isLoggedIn,
+    select: (res: any) => res?.data,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateNotificationPreferences) => {
+      const res = await apiRequest('PUT', PREFERENCES_KEY, updates);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [PREFERENCES_KEY] });
+      // The in-app feed is empty while in-app notifications are off
+      queryClient.invalidateQueries({ queryKey: ['/api/user/notifications'] });
+    },
+  });
+
+  return {
+    preferences: query.data,
+    isLoading: query.isLoading,
+    updatePreferences: updateMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+  };
+}
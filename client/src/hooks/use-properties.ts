@@ -1,4 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { buildPropertySearchParams, type PropertySearchFilters } from '@/lib/api';
 import type { Property } from '@/lib/types';
 
 interface PaginationInfo {
@@ -10,25 +12,69 @@ interface PaginationInfo {
   hasPrevPage: boolean;
 }
 
+export interface PropertyFacets {
+  propertyType: Record<string, number>;
+  bedrooms: Record<string, number>;
+  bathrooms: Record<string, number>;
+  petsAllowed: number;
+  furnished: number;
+  amenities: Record<string, number>;
+}
+
 interface PropertiesApiResponse {
   success: boolean;
   data: {
-    properties: Property[];
+    properties: (Property & { distance_miles?: number | null })[];
     pagination: PaginationInfo;
+    facets?: PropertyFacets;
   };
   message?: string;
 }
 
-export function useProperties() {
+export function useProperties(filters?: PropertySearchFilters) {
+  const query = filters ? buildPropertySearchParams(filters).toString() : '';
+
   const { data, isLoading: loading, error } = useQuery<PropertiesApiResponse>({
-    queryKey: ['/api/v2/properties'],
+    queryKey: query ? ['/api/v2/properties', query] : ['/api/v2/properties'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', query ? `/api/v2/properties?${query}` : '/api/v2/properties');
+      return res.json();
+    },
     staleTime: 60000,
     refetchOnMount: true,
   });
 
   const properties = data?.data?.properties || [];
 
-  return { properties, loading, error };
+  return {
+    properties,
+    loading,
+    error,
+    pagination: data?.data?.pagination,
+    facets: data?.data?.facets,
+  };
+}
+
+export interface SearchSuggestion {
+  type: 'city' | 'neighborhood' | 'address';
+  label: string;
+  propertyId: string | null;
+  listingCount: number;
+}
+
+export function usePropertySuggestions(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery<SearchSuggestion[]>({
+    queryKey: ['/api/v2/properties/suggestions', trimmed],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/v2/properties/suggestions?q=${encodeURIComponent(trimmed)}`);
+      return res.json();
+    },
+    select: (res: any) => res?.data || [],
+    enabled: trimmed.length >= 2,
+    staleTime: 60000,
+  });
 }
 
 export function useAllProperties() {
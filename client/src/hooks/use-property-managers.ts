@@ -0,0 +1,117 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+
+export type ManagerPermission =
+  | 'view_properties'
+  | 'manage_applications'
+  | 'manage_leases'
+  | 'manage_payments'
+  | 'manage_maintenance'
+  | 'messaging_access';
+
+export const MANAGER_PERMISSION_LABELS: Record<ManagerPermission, string> = {
+  view_properties: 'View property',
+  manage_applications: 'Review applications',
+  manage_leases: 'Send and manage leases',
+  manage_payments: 'View and record payments',
+  manage_maintenance: 'Handle maintenance',
+  messaging_access: 'Message tenants',
+};
+
+export interface ManagerAssignment {
+  id: string;
+  property_id: string;
+  property_manager_id: string;
+  permissions: ManagerPermission[] | null;
+  notes: string | null;
+  assigned_at: string;
+  manager: { id: string; full_name: string | null; email: string; profile_image: string | null } | null;
+}
+
+export interface ManagerInvitation {
+  id: string;
+  property_id: string;
+  email: string;
+  permissions: ManagerPermission[];
+  notes: string | null;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+  expires_at: string;
+  created_at: string;
+  properties?: { id: string; title: string; address: string; city: string | null; state: string | null } | null;
+  inviter?: { full_name: string | null } | null;
+}
+
+export function usePropertyManagers(propertyId: string | null) {
+  const queryKey = ['/api/v2/properties', propertyId, 'managers'];
+
+  const query = useQuery<{ assignments: ManagerAssignment[]; invitations: ManagerInvitation[] }>({
+    queryKey,
+    select: (res: any) => res?.data,
+    enabled: !!propertyId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const invite = useMutation({
+    mutationFn: async (input: { email: string; permissions: ManagerPermission[]; notes?: string }) => {
+      const res = await apiRequest('POST', `/api/v2/properties/${propertyId}/managers/invitations`, input);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const revokeInvitation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const res = await apiRequest('DELETE', `/api/v2/properties/${propertyId}/managers/invitations/${invitationId}`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateAssignment = useMutation({
+    mutationFn: async ({ assignmentId, permissions }: { assignmentId: string; permissions: ManagerPermission[] }) => {
+      const res = await apiRequest('PATCH', `/api/v2/properties/${propertyId}/managers/${assignmentId}`, { permissions });
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const revokeAssignment = useMutation({
+    mutationFn: async (assignmentId: string) => {
+      const res = await apiRequest('DELETE', `/api/v2/properties/${propertyId}/managers/${assignmentId}`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    ...query,
+    invite,
+    revokeInvitation,
+    updateAssignment,
+    revokeAssignment,
+  };
+}
+
+export function useManagerInvitations(enabled = true) {
+  const queryKey = ['/api/v2/manager/invitations'];
+
+  const query = useQuery<ManagerInvitation[]>({
+    queryKey,
+    select: (res: any) => res?.data ?? [],
+    enabled,
+  });
+
+  const respond = useMutation({
+    mutationFn: async ({ invitationId, decision }: { invitationId: string; decision: 'accept' | 'decline' }) => {
+      const res = await apiRequest('POST', `/api/v2/manager/invitations/${invitationId}/respond`, { decision });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/v2/manager/assignments'] });
+    },
+  });
+
+  return { ...query, respond };
+}
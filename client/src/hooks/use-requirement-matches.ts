@@ -0,0 +1,67 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { Property } from '@/lib/types';
+
+export interface MatchCriterion {
+  criterion: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface RequirementMatch {
+  id: string;
+  requirementId: string;
+  score: number;
+  breakdown: MatchCriterion[];
+  matchedAt: string;
+  property: Property | null;
+}
+
+export interface MatchingRenter {
+  id: string;
+  score: number;
+  breakdown: MatchCriterion[];
+  matchedAt: string;
+  renter: {
+    id: string;
+    // Set when the renter has an account they can be messaged through
+    userId: string | null;
+    contactName: string;
+    // Only returned to admins and agents
+    contactEmail: string | null;
+    contactPhone: string | null;
+    budgetMin: string | null;
+    budgetMax: string | null;
+    bedrooms: number | null;
+    moveInDate: string | null;
+    hasPets: boolean;
+  } | null;
+}
+
+// Listings that fit the signed-in renter's requirements
+export function useRequirementMatches(enabled = true) {
+  return useQuery<RequirementMatch[]>({
+    queryKey: ['/api/v2/requirements/matches'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/v2/requirements/matches');
+      return res.json();
+    },
+    select: (res: any) => res?.data || [],
+    enabled,
+    staleTime: 60000,
+  });
+}
+
+// Renters whose requirements fit one of the caller's listings
+export function useMatchingRenters(propertyId: string | null) {
+  return useQuery<MatchingRenter[]>({
+    queryKey: ['/api/v2/properties', propertyId, 'matching-renters'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/v2/properties/${propertyId}/matching-renters`);
+      return res.json();
+    },
+    select: (res: any) => res?.data || [],
+    enabled: !!propertyId,
+  });
+}
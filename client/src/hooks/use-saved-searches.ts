@@ -14,6 +14,8 @@ export interface SavedSearch {
     bedrooms?: number;
     bathrooms?: number;
   };
+  alerts_enabled?: boolean;
+  alert_frequency?: 'instant' | 'daily' | 'weekly';
   createdAt: string;
   updatedAt?: string;
 }
@@ -215,6 +217,47 @@ export function useSavedSearches() {
     }
   };
 
+  // Update alert cadence / on-off for a search
+  const updateAlerts = async (
+    searchId: string,
+    alerts: { alertsEnabled?: boolean; alertFrequency?: SavedSearch['alert_frequency'] }
+  ) => {
+    try {
+      const token = await getAuthToken();
+      const response = await fetch(`/api/v2/saved-searches/${searchId}/alerts`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+        body: JSON.stringify(alerts),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update alerts');
+      }
+
+      const data = await response.json();
+      const updatedSearch = data.data || data;
+      setSearches((current) =>
+        current.map((s) =>
+          s.id === searchId
+            ? { ...s, alerts_enabled: updatedSearch.alerts_enabled, alert_frequency: updatedSearch.alert_frequency }
+            : s
+        )
+      );
+      return updatedSearch;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error updating alerts';
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
   return {
     searches,
     loading,
@@ -222,5 +265,6 @@ export function useSavedSearches() {
     createSearch,
     deleteSearch,
     updateSearch,
+    updateAlerts,
   };
 }
@@ -0,0 +1,49 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import type { ScoringRulesConfig } from '@shared/schema';
+
+export interface ScoringRuleset {
+  id: string;
+  owner_id: string;
+  property_id: string | null;
+  name: string | null;
+  rules: ScoringRulesConfig;
+  created_at: string;
+  updated_at: string;
+  properties?: { id: string; title: string; address: string } | null;
+}
+
+const SCORING_RULES_KEY = '/api/v2/scoring-rules';
+
+export function useScoringRules() {
+  const query = useQuery<{ defaults: ScoringRulesConfig; rulesets: ScoringRuleset[] }>({
+    queryKey: [SCORING_RULES_KEY],
+    select: (res: any) => res?.data,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: { propertyId: string | null; name?: string; rules: ScoringRulesConfig }) => {
+      const res = await apiRequest('PUT', SCORING_RULES_KEY, body);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [SCORING_RULES_KEY] }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `${SCORING_RULES_KEY}/${id}`);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [SCORING_RULES_KEY] }),
+  });
+
+  return {
+    defaults: query.data?.defaults,
+    rulesets: query.data?.rulesets || [],
+    isLoading: query.isLoading,
+    saveRules: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteRules: deleteMutation.mutateAsync,
+    isDeleting: deleteMutation.isPending,
+  };
+}
@@ -0,0 +1,159 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export type SecurityDepositStatus =
+  | 'awaiting_payment'
+  | 'held'
+  | 'itemizing'
+  | 'itemized'
+  | 'acknowledged'
+  | 'disputed'
+  | 'closed';
+
+export interface DeductionPhoto {
+  id: string;
+  url: string;
+  thumbnail_url: string | null;
+  created_at: string;
+}
+
+export interface DepositDeduction {
+  id: string;
+  category: string;
+  description: string;
+  amount: string;
+  created_at: string;
+  photos: DeductionPhoto[];
+}
+
+export interface DepositLedgerEntry {
+  id: string;
+  entry_type: 'received' | 'deduction' | 'refund';
+  amount: string;
+  description: string | null;
+  created_at: string;
+}
+
+export interface SecurityDepositLedger {
+  deposit: {
+    id: string;
+    lease_id: string;
+    amount: string;
+    status: SecurityDepositStatus;
+    state: string | null;
+    move_out_date: string | null;
+    return_deadline: string | null;
+    days_until_deadline: number | null;
+    itemized_at: string | null;
+    letter_url: string | null;
+    letter_hash: string | null;
+    refund_amount: string | null;
+    balance_owed: string | null;
+    tenant_response: 'acknowledged' | 'disputed' | null;
+    tenant_response_note: string | null;
+    dispute_id: string | null;
+    closed_at: string | null;
+  };
+  deductions: DepositDeduction[];
+  ledger: DepositLedgerEntry[];
+  totals: {
+    received: number;
+    deducted: number;
+    refunded: number;
+    balanceHeld: number;
+    pendingDeductions: number;
+  };
+}
+
+export interface DeductionPhotoInput {
+  imageKitFileId: string;
+  url: string;
+  thumbnailUrl?: string;
+}
+
+export interface DeductionInput {
+  category: string;
+  description: string;
+  amount: number;
+  photos: DeductionPhotoInput[];
+}
+
+// 404 means the lease was signed without a security deposit
+export function useSecurityDeposit(leaseId: string | undefined) {
+  const queryKey = ['/api/v2/leases', leaseId, 'deposit'];
+
+  const query = useQuery<SecurityDepositLedger | null>({
+    queryKey,
+    queryFn: async () => {
+      try {
+        const res = await apiRequest('GET', `/api/v2/leases/${leaseId}/deposit`);
+        const json = await res.json();
+        return json.data;
+      } catch (err) {
+        if (err instanceof Error && err.message.startsWith('404:')) return null;
+        throw err;
+      }
+    },
+    enabled: !!leaseId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const addDeduction = useMutation({
+    mutationFn: async (deduction: DeductionInput) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/deposit/deductions`, deduction);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const removeDeduction = useMutation({
+    mutationFn: async (deductionId: string) => {
+      const res = await apiRequest('DELETE', `/api/v2/leases/${leaseId}/deposit/deductions/${deductionId}`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const attachPhotos = useMutation({
+    mutationFn: async ({ deductionId, photos }: { deductionId: string; photos: DeductionPhotoInput[] }) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/deposit/deductions/${deductionId}/photos`, { photos });
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const sendItemization = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/deposit/itemization`);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const respond = useMutation({
+    mutationFn: async (input: { response: 'acknowledge' | 'dispute'; note?: string }) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/deposit/respond`, input);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const recordRefund = useMutation({
+    mutationFn: async (input: { amount?: number; reference?: string }) => {
+      const res = await apiRequest('POST', `/api/v2/leases/${leaseId}/deposit/refund`, input);
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    ...query,
+    addDeduction,
+    removeDeduction,
+    attachPhotos,
+    sendItemization,
+    respond,
+    recordRefund,
+  };
+}
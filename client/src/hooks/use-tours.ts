@@ -0,0 +1,129 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/lib/auth-context';
+
+export type TourType = 'in_person' | 'video';
+
+export interface TourSlot {
+  availabilityId: string;
+  startsAt: string;
+  endsAt: string;
+  tourTypes: TourType[];
+}
+
+export interface TourAvailabilityWindow {
+  id: string;
+  property_id: string;
+  starts_at: string;
+  ends_at: string;
+  slot_minutes: number;
+  tour_types: TourType[];
+  meeting_url?: string | null;
+  notes?: string | null;
+}
+
+export interface TourBooking {
+  id: string;
+  property_id: string;
+  renter_id?: string | null;
+  tour_type: TourType;
+  status: 'confirmed' | 'cancelled' | 'completed' | 'no_show';
+  starts_at: string;
+  ends_at: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  message?: string | null;
+  meeting_url?: string | null;
+  properties?: { id: string; title: string; address: string; city?: string; state?: string } | null;
+}
+
+const TOURS_KEY = '/api/v2/tours';
+
+export function useTourSlots(propertyId: string | undefined, enabled = true) {
+  return useQuery<TourSlot[]>({
+    queryKey: ['/api/v2/properties', propertyId, 'tour-slots'],
+    enabled: !!propertyId && enabled,
+    staleTime: 30 * 1000,
+    select: (res: any) => res?.data ?? [],
+  });
+}
+
+export function useTourBookings(options: { scope?: 'booked' | 'hosting'; upcoming?: boolean } = {}) {
+  const { user } = useAuth();
+  const params = new URLSearchParams();
+  if (options.scope) params.set('scope', options.scope);
+  if (options.upcoming !== undefined) params.set('upcoming', String(options.upcoming));
+  const query = params.toString();
+
+  return useQuery<TourBooking[]>({
+    queryKey: [TOURS_KEY, user?.id, query],
+    queryFn: async () => {
+      const res = await apiRequest('GET', query ? `${TOURS_KEY}?${query}` : TOURS_KEY);
+      const json = await res.json();
+      return json.data ?? [];
+    },
+    enabled: !!user?.id,
+  });
+}
+
+export function useTourAvailability(propertyId: string | undefined) {
+  return useQuery<TourAvailabilityWindow[]>({
+    queryKey: ['/api/v2/properties', propertyId, 'tour-availability'],
+    enabled: !!propertyId,
+    select: (res: any) => res?.data ?? [],
+  });
+}
+
+export function useTourActions() {
+  const bookMutation = useMutation({
+    mutationFn: async ({ propertyId, ...payload }: { propertyId: string } & Record<string, any>) => {
+      const res = await apiRequest('POST', `/api/v2/properties/${propertyId}/tours`, payload);
+      return res.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/v2/properties', variables.propertyId, 'tour-slots'] });
+      queryClient.invalidateQueries({ queryKey: [TOURS_KEY] });
+    },
+  });
+
+  const createAvailabilityMutation = useMutation({
+    mutationFn: async ({ propertyId, ...payload }: { propertyId: string } & Record<string, any>) => {
+      const res = await apiRequest('POST', `/api/v2/properties/${propertyId}/tour-availability`, payload);
+      return res.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/v2/properties', variables.propertyId] });
+    },
+  });
+
+  const deleteAvailabilityMutation = useMutation({
+    mutationFn: async ({ id }: { id: string; propertyId: string }) => {
+      const res = await apiRequest('DELETE', `${TOURS_KEY}/availability/${id}`);
+      return res.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/v2/properties', variables.propertyId] });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, ...payload }: { id: string; status: string; reason?: string }) => {
+      const res = await apiRequest('PATCH', `${TOURS_KEY}/${id}/status`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TOURS_KEY] });
+    },
+  });
+
+  return {
+    bookTour: bookMutation.mutateAsync,
+    isBooking: bookMutation.isPending,
+    createAvailability: createAvailabilityMutation.mutateAsync,
+    isCreatingAvailability: createAvailabilityMutation.isPending,
+    deleteAvailability: deleteAvailabilityMutation.mutateAsync,
+    updateTourStatus: statusMutation.mutateAsync,
+    isUpdating: statusMutation.isPending || deleteAvailabilityMutation.isPending,
+  };
+}
@@ -1,25 +1,123 @@
-// Performance monitoring & analytics integration prep
-export function trackEvent(event: string, data?: Record<string, any>) {
+import { getAuthToken } from './auth-context';
+
+// First-party listing analytics. Events are batched and sent to our own ingest
+// endpoint, which filters bots and keeps each event once per browser session.
+export type PropertyEventType = 'view' | 'gallery_open' | 'favorite' | 'inquiry_start' | 'application_start';
+
+const SESSION_KEY = 'choiceProperties_session';
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH = 20;
+
+let queue: Array<{ propertyId: string; type: PropertyEventType; referrer?: string }> = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const tracked = new Set<string>();
+
+function getSessionId(): string {
   try {
-    if (window.gtag) {
-      window.gtag('event', event, data);
+    let sessionId = sessionStorage.getItem(SESSION_KEY);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      sessionStorage.setItem(SESSION_KEY, sessionId);
     }
+    return sessionId;
   } catch (e) {
-    console.debug('Analytics tracking:', event);
+    return 'no-session-storage';
   }
 }
 
-export function trackPageView(path: string) {
+async function flush() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) return;
+
+  const events = queue.slice(0, MAX_BATCH);
+  queue = queue.slice(MAX_BATCH);
+
   try {
-    if (window.gtag) {
-      window.gtag('config', 'GA_MEASUREMENT_ID', {
-        page_path: path,
-        page_title: document.title,
-      });
+    const token = await getAuthToken();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
     }
+
+    await fetch('/api/v2/analytics/events', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ sessionId: getSessionId(), events }),
+      credentials: 'include',
+      // Lets the last batch finish when the tab is closing
+      keepalive: true,
+    });
   } catch (e) {
-    console.debug('Page view tracked:', path);
+    console.debug('Analytics events dropped:', events.length);
   }
+
+  if (queue.length > 0) flush();
+}
+
+export function trackPropertyEvent(propertyId: string, type: PropertyEventType) {
+  if (typeof window === 'undefined' || navigator.webdriver) return;
+
+  // The server de-duplicates per session too; this just saves the request
+  const key = `${propertyId}:${type}`;
+  if (tracked.has(key)) return;
+  tracked.add(key);
+
+  queue.push({ propertyId, type, referrer: document.referrer.slice(0, 500) || undefined });
+
+  if (queue.length >= MAX_BATCH) {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => {
+    flush();
+  });
+}
+
+// First-touch attribution for lead inquiries. UTM tags and the external
+// referrer only exist on the landing URL, so they're kept for the session.
+const ATTRIBUTION_KEY = 'choiceProperties_attribution';
+
+export interface LeadAttribution {
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  referrer?: string;
+}
+
+function captureLeadAttribution() {
+  try {
+    if (sessionStorage.getItem(ATTRIBUTION_KEY)) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const attribution: LeadAttribution = {
+      utmSource: params.get('utm_source')?.slice(0, 100) || undefined,
+      utmMedium: params.get('utm_medium')?.slice(0, 100) || undefined,
+      utmCampaign: params.get('utm_campaign')?.slice(0, 100) || undefined,
+      referrer: document.referrer.slice(0, 500) || undefined,
+    };
+    sessionStorage.setItem(ATTRIBUTION_KEY, JSON.stringify(attribution));
+  } catch (e) {
+    // Attribution is best effort
+  }
+}
+
+export function getLeadAttribution(): LeadAttribution {
+  try {
+    return JSON.parse(sessionStorage.getItem(ATTRIBUTION_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+}
+
+if (typeof window !== 'undefined') {
+  captureLeadAttribution();
 }
 
 export function trackPerformance() {
@@ -36,9 +134,3 @@ export function trackPerformance() {
     observer.observe({ entryTypes: ['navigation', 'resource'] });
   }
 }
-
-declare global {
-  interface Window {
-    gtag?: (command: string, id: string, config?: any) => void;
-  }
-}
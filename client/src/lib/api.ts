@@ -43,14 +43,50 @@ async function apiCall<T>(
 }
 
 // Properties API - Using v2 endpoints
+export type PropertySort = "relevance" | "newest" | "price_asc" | "price_desc" | "distance";
+
+export interface PropertySearchFilters {
+  q?: string;
+  propertyType?: string;
+  city?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  minSquareFeet?: number;
+  maxSquareFeet?: number;
+  petsAllowed?: boolean;
+  furnished?: boolean;
+  amenities?: string[];
+  availableFrom?: string;
+  lat?: number;
+  lng?: number;
+  radius?: number;
+  bounds?: { south: number; west: number; north: number; east: number };
+  sort?: PropertySort;
+  page?: number;
+  limit?: number;
+}
+
+export function buildPropertySearchParams(filters: PropertySearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") return;
+    if (key === "bounds") {
+      const { south, west, north, east } = value as NonNullable<PropertySearchFilters["bounds"]>;
+      params.append("bounds", [south, west, north, east].join(","));
+    } else if (Array.isArray(value)) {
+      if (value.length > 0) params.append(key, value.join(","));
+    } else {
+      params.append(key, String(value));
+    }
+  });
+  return params;
+}
+
 export const propertiesApi = {
-  getAll: (filters?: { propertyType?: string; city?: string; minPrice?: number; maxPrice?: number }) => {
-    const params = new URLSearchParams();
-    if (filters?.propertyType) params.append("propertyType", filters.propertyType);
-    if (filters?.city) params.append("city", filters.city);
-    if (filters?.minPrice) params.append("minPrice", filters.minPrice.toString());
-    if (filters?.maxPrice) params.append("maxPrice", filters.maxPrice.toString());
-    
+  getAll: (filters?: PropertySearchFilters) => {
+    const params = buildPropertySearchParams(filters || {});
     return apiCall(`/api/v2/properties?${params.toString()}`);
   },
   getById: (id: string) => apiCall(`/api/v2/properties/${id}`),
@@ -67,9 +67,7 @@ export async function subscribeToPushNotifications(token: string): Promise<boole
     let subscription = await registration.pushManager.getSubscription();
     
     if (!subscription) {
-      // Generate a VAPID public key for push notifications
-      // In production, this would come from environment variables
-      const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+      const vapidPublicKey = await getVapidPublicKey();
       
       if (!vapidPublicKey) {
         console.warn('[PUSH] VAPID public key not configured');
@@ -149,6 +147,21 @@ export async function getPushSubscriptionStatus(): Promise<boolean> {
 }
 
 // Helper functions
+async function getVapidPublicKey(): Promise<string | null> {
+  if (import.meta.env.VITE_VAPID_PUBLIC_KEY) {
+    return import.meta.env.VITE_VAPID_PUBLIC_KEY;
+  }
+
+  try {
+    const response = await fetch('/api/push/vapid-public-key');
+    if (!response.ok) return null;
+    const json = await response.json();
+    return json.data?.publicKey || null;
+  } catch (e) {
+    return null;
+  }
+}
+
 function urlBase64ToUint8Array(base64String: string): Uint8Array {
   const padding = '='.repeat((4 - base64String.length % 4) % 4);
   const base64 = (base64String + padding)
@@ -48,6 +48,7 @@ export interface Property {
   title: string;
   description: string | null;
   address: string;
+  neighborhood?: string | null;
   city: string | null;
   state: string | null;
   zip_code: string | null;
@@ -82,6 +83,8 @@ export interface Property {
   created_at: string;
   updated_at: string | null;
   owner?: Owner;
+  // Present on keyword search results; matched words are wrapped in {{ }}
+  search_highlight?: { title: string | null; snippet: string | null };
 }
 
 // Extended property with computed/joined fields for display
@@ -244,11 +247,27 @@ export interface Inquiry {
   message: string | null;
   inquiry_type: string | null;
   status: string | null;
+  user_id?: string | null;
+  stage?: LeadStage;
+  source?: string;
+  entry_point?: string | null;
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  utm_campaign?: string | null;
+  referrer?: string | null;
+  application_id?: string | null;
+  contacted_at?: string | null;
+  tour_scheduled_at?: string | null;
+  applied_at?: string | null;
+  lost_at?: string | null;
+  lost_reason?: string | null;
   created_at: string;
   updated_at: string | null;
   properties?: Property;
 }
 
+export type LeadStage = 'new' | 'contacted' | 'tour_scheduled' | 'applied' | 'lost';
+
 // Requirement types aligned with database
 export interface Requirement {
   id: string;
@@ -8,10 +8,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
-import { Trash2, Shield, Users, Building, History, Loader2, Check, Filter, Search, ShieldCheck, ShieldX } from 'lucide-react';
+import { Trash2, Shield, Users, Building, History, Loader2, Check, Filter, Search, ShieldCheck, ShieldX, Scale, Flag, FileCheck, Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DisputeQueue } from '@/components/dispute-queue';
+import { ModerationQueue } from '@/components/moderation-queue';
+import { DocumentReviewQueue } from '@/components/document-review-queue';
+import { JobRunsPanel } from '@/components/job-runs-panel';
 
 export interface AdminAction {
   id: string;
@@ -124,10 +128,14 @@ export default function SuperAdminDashboard() {
       </div>
 
       <Tabs defaultValue="users" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 max-w-md mb-8">
+        <TabsList className="grid w-full grid-cols-7 max-w-5xl mb-8">
           <TabsTrigger value="users" className="flex gap-2"><Users className="w-4 h-4" /> Users</TabsTrigger>
           <TabsTrigger value="properties" className="flex gap-2"><Building className="w-4 h-4" /> Properties</TabsTrigger>
           <TabsTrigger value="logs" className="flex gap-2"><History className="w-4 h-4" /> System Logs</TabsTrigger>
+          <TabsTrigger value="disputes" className="flex gap-2"><Scale className="w-4 h-4" /> Disputes</TabsTrigger>
+          <TabsTrigger value="moderation" className="flex gap-2"><Flag className="w-4 h-4" /> Moderation</TabsTrigger>
+          <TabsTrigger value="documents" className="flex gap-2"><FileCheck className="w-4 h-4" /> Documents</TabsTrigger>
+          <TabsTrigger value="jobs" className="flex gap-2"><Clock className="w-4 h-4" /> Jobs</TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="space-y-6">
@@ -311,6 +319,22 @@ export default function SuperAdminDashboard() {
             </Table>
           </Card>
         </TabsContent>
+
+        <TabsContent value="disputes">
+          <DisputeQueue />
+        </TabsContent>
+
+        <TabsContent value="moderation">
+          <ModerationQueue />
+        </TabsContent>
+
+        <TabsContent value="documents">
+          <DocumentReviewQueue />
+        </TabsContent>
+
+        <TabsContent value="jobs">
+          <JobRunsPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -14,8 +14,10 @@ import {
   Clock,
   TrendingUp,
   ArrowRight,
+  Users,
 } from 'lucide-react';
 import { updateMetaTags } from '@/lib/seo';
+import { TourScheduleCard } from '@/components/tour-schedule-card';
 
 export default function AgentDashboard() {
   const { user, logout, isLoggedIn } = useAuth();
@@ -161,6 +163,17 @@ export default function AgentDashboard() {
                 </span>
                 <ArrowRight className="h-4 w-4" strokeWidth={1.5} />
               </Button>
+              <Button
+                onClick={() => navigate('/agent-leads')}
+                className="w-full justify-between bg-blue-600 hover:bg-blue-700 h-11 font-medium"
+                data-testid="button-view-leads"
+              >
+                <span className="flex items-center gap-2">
+                  <Users className="h-4 w-4" strokeWidth={1.5} />
+                  Leads & Follow-ups
+                </span>
+                <ArrowRight className="h-4 w-4" strokeWidth={1.5} />
+              </Button>
               <Button
                 onClick={() => navigate('/agent-profile')}
                 variant="outline"
@@ -192,6 +205,11 @@ export default function AgentDashboard() {
               </p>
             </div>
           </Card>
+
+          {/* Tours */}
+          <div className="lg:col-span-2">
+            <TourScheduleCard properties={assignedProperties} />
+          </div>
         </div>
       </div>
 
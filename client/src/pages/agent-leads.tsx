@@ -0,0 +1,526 @@
+import { useMemo, useState } from 'react';
+import { useLocation } from 'wouter';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Navbar } from '@/components/layout/navbar';
+import { Footer } from '@/components/layout/footer';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useAgentLeads,
+  useLead,
+  useLeadTasks,
+  useLeadMetrics,
+  useLeadActions,
+  LEAD_STAGE_LABELS,
+  LEAD_STAGE_TRANSITIONS,
+  type Lead,
+  type LeadTask,
+} from '@/hooks/use-leads';
+import type { LeadStage } from '@/lib/types';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ArrowLeft,
+  Users,
+  TrendingUp,
+  Clock,
+  Inbox,
+  Mail,
+  Phone,
+  Building2,
+  CalendarClock,
+  AlertCircle,
+  Trash2,
+  Link2,
+  Loader2,
+} from 'lucide-react';
+import { updateMetaTags } from '@/lib/seo';
+
+const PIPELINE_STAGES: LeadStage[] = ['new', 'contacted', 'tour_scheduled', 'applied', 'lost'];
+
+const STAGE_COLORS: Record<LeadStage, string> = {
+  new: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  contacted: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300',
+  tour_scheduled: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300',
+  applied: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  lost: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  direct: 'Direct',
+  search: 'Search',
+  social: 'Social',
+  email: 'Email',
+  paid: 'Paid',
+  referral: 'Referral',
+};
+
+function errorMessage(err: unknown, fallback: string) {
+  return err instanceof Error ? err.message.replace(/^\d+:\s*/, '') : fallback;
+}
+
+function TaskRow({ task, showLead }: { task: LeadTask; showLead?: boolean }) {
+  const { toast } = useToast();
+  const { updateTask, deleteTask } = useLeadActions(task.inquiry_id);
+  const isOverdue = !task.completed_at && new Date(task.due_at).getTime() < Date.now();
+
+  const run = (action: () => Promise<unknown>) =>
+    action().catch((err) => toast({ title: 'Error', description: errorMessage(err, 'Failed to update task'), variant: 'destructive' }));
+
+  return (
+    <div className="flex items-start gap-3 py-2" data-testid={`task-${task.id}`}>
+      <Checkbox
+        checked={!!task.completed_at}
+        onCheckedChange={(checked) => run(() => updateTask({ taskId: task.id, completed: checked === true }))}
+        aria-label={`Mark ${task.title} complete`}
+        className="mt-1"
+      />
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm font-medium ${task.completed_at ? 'line-through text-muted-foreground' : ''}`}>{task.title}</p>
+        {showLead && task.inquiries && (
+          <p className="text-xs text-muted-foreground truncate">
+            {task.inquiries.sender_name}
+            {task.inquiries.properties?.title ? ` · ${task.inquiries.properties.title}` : ''}
+          </p>
+        )}
+        <p className={`text-xs flex items-center gap-1 ${isOverdue ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}>
+          {isOverdue ? <AlertCircle className="h-3 w-3" /> : <CalendarClock className="h-3 w-3" />}
+          {format(new Date(task.due_at), 'MMM d, h:mm a')}
+        </p>
+        {task.notes && <p className="text-xs text-muted-foreground mt-1 whitespace-pre-wrap">{task.notes}</p>}
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label={`Delete ${task.title}`}
+        onClick={() => run(() => deleteTask(task.id))}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function LeadDetailDialog({ inquiryId, onClose }: { inquiryId: string | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { data: lead, isLoading } = useLead(inquiryId);
+  const actions = useLeadActions(inquiryId || '');
+  const [nextStage, setNextStage] = useState<LeadStage | ''>('');
+  const [lostReason, setLostReason] = useState('');
+  const [applicationId, setApplicationId] = useState('');
+  const [taskTitle, setTaskTitle] = useState('');
+  const [taskDue, setTaskDue] = useState('');
+
+  const handleStageChange = async () => {
+    if (!nextStage) return;
+    try {
+      await actions.updateStage({ stage: nextStage, lostReason: nextStage === 'lost' ? lostReason || undefined : undefined });
+      setNextStage('');
+      setLostReason('');
+      toast({ title: 'Stage updated', description: `Lead moved to ${LEAD_STAGE_LABELS[nextStage]}` });
+    } catch (err) {
+      toast({ title: 'Error', description: errorMessage(err, 'Failed to update stage'), variant: 'destructive' });
+    }
+  };
+
+  const handleLink = async (id: string | null) => {
+    try {
+      await actions.linkApplication(id);
+      setApplicationId('');
+    } catch (err) {
+      toast({ title: 'Error', description: errorMessage(err, 'Failed to link application'), variant: 'destructive' });
+    }
+  };
+
+  const handleAddTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!taskTitle.trim() || !taskDue) return;
+    try {
+      await actions.createTask({ title: taskTitle.trim(), dueAt: new Date(taskDue).toISOString() });
+      setTaskTitle('');
+      setTaskDue('');
+    } catch (err) {
+      toast({ title: 'Error', description: errorMessage(err, 'Failed to add task'), variant: 'destructive' });
+    }
+  };
+
+  const stage = (lead?.stage || 'new') as LeadStage;
+  const attribution = lead
+    ? [lead.utm_source, lead.utm_medium, lead.utm_campaign].filter(Boolean).join(' / ')
+    : '';
+
+  return (
+    <Dialog open={!!inquiryId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{lead?.sender_name || 'Lead'}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !lead ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge className={STAGE_COLORS[stage]}>{LEAD_STAGE_LABELS[stage]}</Badge>
+                <Badge variant="outline">{SOURCE_LABELS[lead.source || 'direct'] || lead.source}</Badge>
+                <span className="text-muted-foreground">
+                  Received {formatDistanceToNow(new Date(lead.created_at), { addSuffix: true })}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Mail className="h-4 w-4" />
+                <a href={`mailto:${lead.sender_email}`} className="hover:underline">{lead.sender_email}</a>
+              </div>
+              {lead.sender_phone && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Phone className="h-4 w-4" />
+                  <a href={`tel:${lead.sender_phone}`} className="hover:underline">{lead.sender_phone}</a>
+                </div>
+              )}
+              {lead.properties && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Building2 className="h-4 w-4" />
+                  {lead.properties.title}
+                </div>
+              )}
+              {attribution && <p className="text-xs text-muted-foreground">Campaign: {attribution}</p>}
+              {lead.lost_reason && <p className="text-xs text-muted-foreground">Lost: {lead.lost_reason}</p>}
+              {lead.message && <p className="rounded-md bg-muted p-3 whitespace-pre-wrap">{lead.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Move to stage</Label>
+              <div className="flex gap-2">
+                <Select value={nextStage} onValueChange={(value) => setNextStage(value as LeadStage)}>
+                  <SelectTrigger data-testid="select-lead-stage">
+                    <SelectValue placeholder="Choose a stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAD_STAGE_TRANSITIONS[stage].map((option) => (
+                      <SelectItem key={option} value={option}>{LEAD_STAGE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleStageChange} disabled={!nextStage || actions.isUpdatingStage} data-testid="button-update-stage">
+                  Update
+                </Button>
+              </div>
+              {nextStage === 'lost' && (
+                <Input
+                  placeholder="Why was this lead lost? (optional)"
+                  value={lostReason}
+                  onChange={(e) => setLostReason(e.target.value)}
+                  data-testid="input-lost-reason"
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Application</Label>
+              {lead.applications ? (
+                <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                  <span>
+                    Applied {format(new Date(lead.applications.created_at), 'MMM d, yyyy')} · {lead.applications.status.replace(/_/g, ' ')}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => navigate(`/applications/${lead.applications!.id}`)}>
+                      View
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleLink(null)} disabled={actions.isLinking}>
+                      Unlink
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Application ID"
+                    value={applicationId}
+                    onChange={(e) => setApplicationId(e.target.value)}
+                    data-testid="input-application-id"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleLink(applicationId.trim())}
+                    disabled={!applicationId.trim() || actions.isLinking}
+                    data-testid="button-link-application"
+                  >
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Link
+                  </Button>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">Applications from the same account or email are linked automatically.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Follow-ups</Label>
+              {lead.tasks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No follow-ups yet.</p>
+              ) : (
+                <div className="divide-y">
+                  {lead.tasks.map((task) => <TaskRow key={task.id} task={task} />)}
+                </div>
+              )}
+              <form onSubmit={handleAddTask} className="flex flex-col sm:flex-row gap-2 pt-2">
+                <Input
+                  placeholder="e.g. Call back about parking"
+                  value={taskTitle}
+                  onChange={(e) => setTaskTitle(e.target.value)}
+                  data-testid="input-task-title"
+                />
+                <Input
+                  type="datetime-local"
+                  value={taskDue}
+                  onChange={(e) => setTaskDue(e.target.value)}
+                  className="sm:w-56"
+                  data-testid="input-task-due"
+                />
+                <Button type="submit" disabled={!taskTitle.trim() || !taskDue || actions.isCreatingTask} data-testid="button-add-task">
+                  Add
+                </Button>
+              </form>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LeadCard({ lead, onOpen }: { lead: Lead; onOpen: () => void }) {
+  return (
+    <button
+      className="w-full text-left rounded-lg border bg-card p-3 hover-elevate"
+      onClick={onOpen}
+      data-testid={`card-lead-${lead.id}`}
+    >
+      <p className="font-medium truncate">{lead.sender_name}</p>
+      {lead.properties?.title && <p className="text-xs text-muted-foreground truncate">{lead.properties.title}</p>}
+      <div className="flex items-center justify-between gap-2 mt-2 text-xs text-muted-foreground">
+        <span>{formatDistanceToNow(new Date(lead.created_at), { addSuffix: true })}</span>
+        <span>{SOURCE_LABELS[lead.source || 'direct'] || lead.source}</span>
+      </div>
+      {lead.nextTaskDueAt && (
+        <p className={`flex items-center gap-1 mt-1 text-xs ${lead.hasOverdueTask ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}>
+          <CalendarClock className="h-3 w-3" />
+          Follow up {format(new Date(lead.nextTaskDueAt), 'MMM d')}
+        </p>
+      )}
+    </button>
+  );
+}
+
+export default function AgentLeads() {
+  const { user, isLoggedIn } = useAuth();
+  const [, navigate] = useLocation();
+  const [selectedLead, setSelectedLead] = useState<string | null>(null);
+  const [days, setDays] = useState(90);
+  const { data: leads = [], isLoading } = useAgentLeads(user?.id);
+  const { data: tasks = [] } = useLeadTasks(user?.id, 'open');
+  const { data: metrics } = useLeadMetrics(user?.id, days);
+
+  useMemo(() => {
+    updateMetaTags({
+      title: 'Leads - Agent Dashboard',
+      description: 'Track inquiries through your lead pipeline',
+    });
+  }, []);
+
+  const byStage = useMemo(() => {
+    const groups = Object.fromEntries(PIPELINE_STAGES.map((stage) => [stage, [] as Lead[]])) as Record<LeadStage, Lead[]>;
+    leads.forEach((lead) => groups[(lead.stage || 'new') as LeadStage]?.push(lead));
+    return groups;
+  }, [leads]);
+
+  if (!isLoggedIn || !user) {
+    navigate('/login');
+    return null;
+  }
+
+  const overdueCount = tasks.filter((task) => new Date(task.due_at).getTime() < Date.now()).length;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Navbar />
+
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white py-8">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center gap-2 mb-4">
+            <Button
+              variant="ghost"
+              className="text-white hover:bg-white/20 p-0 h-auto"
+              onClick={() => navigate('/agent-dashboard')}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </div>
+          <h1 className="text-3xl font-bold">Leads</h1>
+          <p className="text-purple-100 mt-2">
+            {leads.length} leads · {tasks.length} open follow-ups{overdueCount > 0 ? ` (${overdueCount} overdue)` : ''}
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 flex-1 space-y-8">
+        {/* Conversion Metrics */}
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <h2 className="text-2xl font-bold text-foreground">Conversion</h2>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40" data-testid="select-metrics-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last 12 months</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="p-6" data-testid="stat-leads">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-bold text-muted-foreground uppercase tracking-widest">Leads</p>
+                <p className="text-2xl font-bold text-primary mt-2">{metrics?.totals.leads ?? '—'}</p>
+              </div>
+              <Users className="h-5 w-5 text-primary opacity-20" strokeWidth={1.5} />
+            </div>
+          </Card>
+          <Card className="p-6" data-testid="stat-conversion">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-bold text-muted-foreground uppercase tracking-widest">Lead → Application</p>
+                <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-2">
+                  {metrics ? `${metrics.totals.conversionRate}%` : '—'}
+                </p>
+              </div>
+              <TrendingUp className="h-5 w-5 text-green-500 opacity-20" strokeWidth={1.5} />
+            </div>
+          </Card>
+          <Card className="p-6" data-testid="stat-response-time">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-bold text-muted-foreground uppercase tracking-widest">Avg. First Response</p>
+                <p className="text-2xl font-bold text-indigo-600 dark:text-indigo-400 mt-2">
+                  {metrics?.totals.averageResponseHours != null ? `${metrics.totals.averageResponseHours}h` : '—'}
+                </p>
+              </div>
+              <Clock className="h-5 w-5 text-indigo-500 opacity-20" strokeWidth={1.5} />
+            </div>
+          </Card>
+          <Card className="p-6" data-testid="stat-open">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-bold text-muted-foreground uppercase tracking-widest">Open</p>
+                <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400 mt-2">{metrics?.totals.open ?? '—'}</p>
+              </div>
+              <Inbox className="h-5 w-5 text-yellow-500 opacity-20" strokeWidth={1.5} />
+            </div>
+          </Card>
+        </div>
+
+        {metrics && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card className="p-6" data-testid="card-lead-funnel">
+              <h3 className="font-semibold mb-4">Pipeline Funnel</h3>
+              <div className="space-y-3">
+                {metrics.totals.funnel.map((step) => (
+                  <div key={step.stage}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span>{LEAD_STAGE_LABELS[step.stage]}</span>
+                      <span className="text-muted-foreground">
+                        {step.count}
+                        {step.stage !== 'new' && ` · ${step.rateFromPrevious}%`}
+                      </span>
+                    </div>
+                    <Progress value={metrics.totals.leads > 0 ? (step.count / metrics.totals.leads) * 100 : 0} />
+                  </div>
+                ))}
+              </div>
+            </Card>
+            <Card className="p-6" data-testid="card-lead-sources">
+              <h3 className="font-semibold mb-4">By Source</h3>
+              <div className="space-y-2 text-sm">
+                {metrics.bySource.filter((row) => row.leads > 0).length === 0 ? (
+                  <p className="text-muted-foreground">No leads in this period.</p>
+                ) : (
+                  metrics.bySource
+                    .filter((row) => row.leads > 0)
+                    .map((row) => (
+                      <div key={row.source} className="flex justify-between">
+                        <span>{SOURCE_LABELS[row.source] || row.source}</span>
+                        <span className="text-muted-foreground">
+                          {row.leads} leads · {row.applied} applied · {row.conversionRate}%
+                        </span>
+                      </div>
+                    ))
+                )}
+              </div>
+            </Card>
+          </div>
+        )}
+
+        <Tabs defaultValue="pipeline">
+          <TabsList>
+            <TabsTrigger value="pipeline" data-testid="tab-pipeline">Pipeline</TabsTrigger>
+            <TabsTrigger value="tasks" data-testid="tab-tasks">Follow-ups ({tasks.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pipeline" className="mt-4">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+                {PIPELINE_STAGES.map((stage) => (
+                  <div key={stage} className="space-y-2" data-testid={`column-${stage}`}>
+                    <div className="flex items-center justify-between">
+                      <Badge className={STAGE_COLORS[stage]}>{LEAD_STAGE_LABELS[stage]}</Badge>
+                      <span className="text-sm text-muted-foreground">{byStage[stage].length}</span>
+                    </div>
+                    {byStage[stage].map((lead) => (
+                      <LeadCard key={lead.id} lead={lead} onOpen={() => setSelectedLead(lead.id)} />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="tasks" className="mt-4">
+            <Card className="p-6">
+              {tasks.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">You're all caught up.</p>
+              ) : (
+                <div className="divide-y">
+                  {tasks.map((task) => <TaskRow key={task.id} task={task} showLead />)}
+                </div>
+              )}
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <LeadDetailDialog inquiryId={selectedLead} onClose={() => setSelectedLead(null)} />
+
+      <Footer />
+    </div>
+  );
+}
@@ -37,6 +37,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { trackPropertyEvent } from "@/lib/analytics";
 import { Navbar } from "@/components/layout/navbar";
 import { Footer } from "@/components/layout/footer";
 import PrivacyNotice from "@/components/shared/PrivacyNotice";
@@ -162,6 +163,10 @@ export default function Apply() {
     }
   }, [propertyId, form]);
 
+  useEffect(() => {
+    if (property?.id) trackPropertyEvent(property.id, "application_start");
+  }, [property?.id]);
+
   const steps = [
     { id: 1, label: "Personal Information" },
     { id: 2, label: "Employment & Income" },
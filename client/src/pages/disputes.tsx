@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Navbar } from '@/components/layout/navbar';
+import { Footer } from '@/components/layout/footer';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { updateMetaTags } from '@/lib/seo';
+import { useOwnedProperties } from '@/hooks/use-owned-properties';
+import { usePropertyApplications } from '@/hooks/use-property-applications';
+import { useMyDisputes, useDisputeActions } from '@/hooks/use-disputes';
+import { DisputeThreadDialog, disputeStatusVariant, formatDisputeLabel } from '@/components/dispute-thread';
+import { DISPUTE_TYPES } from '@shared/schema';
+import { Scale, Plus } from 'lucide-react';
+
+const errorMessage = (err: unknown) => {
+  const raw = err instanceof Error ? err.message : 'Something went wrong';
+  const match = raw.match(/^\d+: (.*)$/);
+  if (!match) return raw;
+  try {
+    return JSON.parse(match[1]).error || raw;
+  } catch {
+    return match[1];
+  }
+};
+
+function OpenDisputeDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { openDispute, isOpening } = useDisputeActions();
+  const isRenter = user?.role === 'renter';
+  const { properties } = useOwnedProperties();
+  const [propertyId, setPropertyId] = useState('');
+  const [form, setForm] = useState({
+    applicationId: '',
+    disputeType: 'other',
+    subject: '',
+    description: '',
+  });
+
+  // Renters pick one of their own applications; landlords pick an applicant on one of their properties
+  const { data: myApplications = [] } = useQuery<any[]>({
+    queryKey: ['/api/v2/applications/user', user?.id],
+    enabled: open && isRenter && !!user?.id,
+    select: (res: any) => res?.data ?? [],
+  });
+  const { applications: propertyApplications } = usePropertyApplications(isRenter ? undefined : propertyId || undefined);
+  const applications = isRenter ? myApplications : propertyId ? propertyApplications : [];
+
+  const handleSubmit = async () => {
+    try {
+      await openDispute({
+        applicationId: form.applicationId,
+        disputeType: form.disputeType,
+        subject: form.subject,
+        description: form.description,
+      });
+      toast({ title: 'Dispute opened', description: 'Our team will review it and keep you updated.' });
+      setForm({ applicationId: '', disputeType: 'other', subject: '', description: '' });
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Could not open dispute', description: errorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Open a Dispute</DialogTitle>
+          <DialogDescription>Tell us what went wrong. Both parties will be able to respond.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!isRenter && (
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select
+                value={propertyId}
+                onValueChange={(value) => {
+                  setPropertyId(value);
+                  setForm({ ...form, applicationId: '' });
+                }}
+              >
+                <SelectTrigger data-testid="select-dispute-property">
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.title || p.address}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{isRenter ? 'Application' : 'Applicant or tenant'}</Label>
+            <Select value={form.applicationId} onValueChange={(applicationId) => setForm({ ...form, applicationId })}>
+              <SelectTrigger data-testid="select-dispute-application">
+                <SelectValue placeholder={isRenter || propertyId ? 'Select' : 'Choose a property first'} />
+              </SelectTrigger>
+              <SelectContent>
+                {applications.map((app: any) => (
+                  <SelectItem key={app.id} value={app.id}>
+                    {isRenter
+                      ? app.properties?.title || app.properties?.address || 'Application'
+                      : app.users?.full_name || app.users?.email || 'Applicant'}
+                    {` · ${formatDisputeLabel(app.status)}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={form.disputeType} onValueChange={(disputeType) => setForm({ ...form, disputeType })}>
+              <SelectTrigger data-testid="select-dispute-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISPUTE_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>{formatDisputeLabel(t)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dispute-subject">Subject</Label>
+            <Input
+              id="dispute-subject"
+              value={form.subject}
+              onChange={(e) => setForm({ ...form, subject: e.target.value })}
+              data-testid="input-dispute-subject"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dispute-description">What happened?</Label>
+            <Textarea
+              id="dispute-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={5}
+              data-testid="input-dispute-description"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!form.applicationId || !form.subject.trim() || !form.description.trim() || isOpening}
+            data-testid="button-submit-dispute"
+          >
+            {isOpening ? 'Submitting...' : 'Open Dispute'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Disputes() {
+  useEffect(() => {
+    updateMetaTags({
+      title: 'Disputes - Choice Properties',
+      description: 'Raise and follow disputes about a rental or application.',
+      url: 'https://choiceproperties.com/disputes',
+    });
+  }, []);
+
+  const [showNew, setShowNew] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: disputes = [], isLoading } = useMyDisputes();
+
+  return (
+    <>
+      <Navbar />
+      <main className="min-h-screen bg-background flex flex-col">
+        <div className="bg-gradient-to-br from-primary via-primary/90 to-secondary/80 py-12 px-6 relative overflow-hidden mb-12">
+          <div className="container max-w-6xl mx-auto relative z-10">
+            <h1 className="text-4xl font-bold tracking-tight mb-2 text-white">Disputes</h1>
+            <p className="text-white/80 text-lg font-medium">
+              Raise an issue and work it through with our support team
+            </p>
+          </div>
+        </div>
+
+        <div className="container max-w-6xl mx-auto px-4 pb-12">
+          <div className="flex justify-end mb-6">
+            <Button onClick={() => setShowNew(true)} className="gap-2" data-testid="button-new-dispute">
+              <Plus className="w-4 h-4" />
+              Open Dispute
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="text-muted-foreground py-12 text-center">Loading disputes...</div>
+          ) : disputes.length === 0 ? (
+            <Card className="p-16 flex flex-col items-center justify-center text-center">
+              <Scale className="w-20 h-20 text-muted-foreground/40 mb-6" strokeWidth={1.5} />
+              <h2 className="text-xl font-bold mb-2">No Disputes</h2>
+              <p className="text-muted-foreground max-w-sm">
+                Disputes you open, or that are opened with you, will appear here.
+              </p>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {disputes.map((dispute) => (
+                <Card
+                  key={dispute.id}
+                  className="p-5 cursor-pointer hover:shadow-md transition-shadow"
+                  onClick={() => setSelectedId(dispute.id)}
+                  data-testid={`card-dispute-${dispute.id}`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold truncate">{dispute.subject}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDisputeLabel(dispute.dispute_type)}
+                        {dispute.properties?.title && ` · ${dispute.properties.title}`}
+                        {' · '}
+                        {new Date(dispute.updated_at || dispute.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Badge variant={disputeStatusVariant(dispute.status)} className="flex-shrink-0">
+                      {formatDisputeLabel(dispute.status)}
+                    </Badge>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+      <Footer />
+
+      <OpenDisputeDialog open={showNew} onOpenChange={setShowNew} />
+      <DisputeThreadDialog disputeId={selectedId} onOpenChange={(open) => !open && setSelectedId(null)} />
+    </>
+  );
+}
@@ -25,6 +25,8 @@ import {
 } from 'lucide-react';
 import { updateMetaTags } from '@/lib/seo';
 import { LandlordDashboardSkeleton } from '@/components/dashboard-skeleton';
+import { TourScheduleCard } from '@/components/tour-schedule-card';
+import { ManagerInvitationsCard } from '@/components/manager-invitations-card';
 
 export default function LandlordDashboard() {
   const { user, logout, isLoggedIn } = useAuth();
@@ -284,6 +286,18 @@ export default function LandlordDashboard() {
               </p>
             </div>
           </Card>
+
+          {/* Invitations from owners to manage their properties */}
+          {user.role === 'property_manager' && (
+            <div className="lg:col-span-2">
+              <ManagerInvitationsCard />
+            </div>
+          )}
+
+          {/* Tours */}
+          <div className="lg:col-span-2">
+            <TourScheduleCard properties={Array.isArray(properties) ? properties : []} />
+          </div>
         </div>
       </div>
 
@@ -7,6 +7,7 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/lib/auth-context';
 import { Timeline, type TimelineStep } from '@/components/timeline';
+import { ExecutedLeaseCard } from '@/components/executed-lease-card';
 import { updateMetaTags } from '@/lib/seo';
 import { FileText, Users, Clock, CheckCircle, AlertCircle } from 'lucide-react';
 
@@ -112,11 +113,19 @@ export default function LandlordLeaseDashboard() {
       <main className="min-h-screen bg-background py-12">
         <div className="container max-w-6xl mx-auto px-4">
           {/* Header */}
-          <div className="mb-8">
-            <h1 className="text-3xl font-bold mb-2">Lease Pipeline</h1>
-            <p className="text-muted-foreground">
-              Monitor lease status, signatures, and move-in preparation
-            </p>
+          <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">Lease Pipeline</h1>
+              <p className="text-muted-foreground">
+                Monitor lease status, signatures, and move-in preparation
+              </p>
+            </div>
+            <Link href="/lease-templates">
+              <Button variant="outline" className="gap-2" data-testid="link-lease-templates">
+                <FileText className="w-4 h-4" />
+                Lease Templates
+              </Button>
+            </Link>
           </div>
 
           {/* Stats */}
@@ -207,6 +216,12 @@ export default function LandlordLeaseDashboard() {
                             <Timeline steps={getTimelineSteps(app)} />
                           </div>
 
+                          {app.leaseSignedAt && (
+                            <div className="mb-4">
+                              <ExecutedLeaseCard applicationId={app.id} canGenerate />
+                            </div>
+                          )}
+
                           {/* Actions */}
                           <div className="flex gap-2">
                             <Link href={`/application-review/${app.id}`}>
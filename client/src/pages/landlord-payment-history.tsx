@@ -11,10 +11,12 @@ import { useToast } from '@/hooks/use-toast';
 import { updateMetaTags } from '@/lib/seo';
 import { CheckCircle, Clock, AlertTriangle, DollarSign, Download } from 'lucide-react';
 import { format } from 'date-fns';
+import { LeaseLifecyclePanel } from '@/components/lease-lifecycle-panel';
+import { SecurityDepositLedger } from '@/components/security-deposit-ledger';
 
 interface PaymentRecord {
   id: string;
-  type: 'rent' | 'security_deposit';
+  type: 'rent' | 'security_deposit' | 'late_fee' | 'early_termination_fee';
   status: 'pending' | 'paid' | 'overdue' | 'verified';
   amount: number;
   due_date: string;
@@ -212,6 +214,11 @@ Generated: ${format(new Date(), 'MMMM dd, yyyy HH:mm:ss')}
             </p>
           </div>
 
+          <div className="space-y-4 mb-8">
+            <LeaseLifecyclePanel leaseId={leaseId} viewerRole="landlord" />
+            <SecurityDepositLedger leaseId={leaseId} viewerRole="landlord" />
+          </div>
+
           {/* Summary Cards */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
             <Card className="p-6">
@@ -260,7 +267,7 @@ Generated: ${format(new Date(), 'MMMM dd, yyyy HH:mm:ss')}
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-2">
                         <h3 className="font-semibold">
-                          {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'}
+                          {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : payment.type === 'early_termination_fee' ? 'Early Termination Fee' : 'Security Deposit'}
                         </h3>
                         <Badge className={getStatusColor(payment.status)}>
                           <span className="inline-flex items-center gap-1">
@@ -32,7 +32,7 @@ import {
 
 interface Payment {
   id: string;
-  type: 'rent' | 'security_deposit';
+  type: 'rent' | 'security_deposit' | 'late_fee';
   status: 'pending' | 'paid' | 'overdue' | 'verified';
   amount: number;
   dueDate: string;
@@ -241,7 +241,7 @@ export default function LandlordPaymentsVerification() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold">
-                                {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'}
+                                {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : 'Security Deposit'}
                               </h3>
                               <Badge className="bg-amber-100 dark:bg-amber-900 text-amber-700 dark:text-amber-400">
                                 <span className="inline-flex items-center gap-1">
@@ -278,7 +278,7 @@ export default function LandlordPaymentsVerification() {
                                 <DialogHeader>
                                   <DialogTitle>Verify Overdue Payment</DialogTitle>
                                   <DialogDescription>
-                                    {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'} - ${payment.amount.toFixed(2)}
+                                    {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : 'Security Deposit'} - ${payment.amount.toFixed(2)}
                                   </DialogDescription>
                                 </DialogHeader>
                                 <div className="space-y-4">
@@ -379,7 +379,7 @@ export default function LandlordPaymentsVerification() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold">
-                                {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'}
+                                {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : 'Security Deposit'}
                               </h3>
                               <Badge className={getStatusColor(payment.status)}>
                                 <span className="inline-flex items-center gap-1">
@@ -412,7 +412,7 @@ export default function LandlordPaymentsVerification() {
                                 <DialogHeader>
                                   <DialogTitle>Verify Payment</DialogTitle>
                                   <DialogDescription>
-                                    {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'} - ${payment.amount.toFixed(2)}
+                                    {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : 'Security Deposit'} - ${payment.amount.toFixed(2)}
                                   </DialogDescription>
                                 </DialogHeader>
                                 <div className="space-y-4">
@@ -513,7 +513,7 @@ export default function LandlordPaymentsVerification() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold text-muted-foreground">
-                                {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'}
+                                {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : 'Security Deposit'}
                               </h3>
                               <Badge className={getStatusColor(payment.status)}>
                                 <span className="inline-flex items-center gap-1">
@@ -28,6 +28,7 @@ const profileSchema = z.object({
 type ProfileFormInput = z.infer<typeof profileSchema>;
 
 import { ProfileSettings } from "@/components/profile-settings";
+import { ScoringRulesCard } from "@/components/scoring-rules";
 
 export default function LandlordProfile() {
   const { user, logout, isLoggedIn } = useAuth();
@@ -66,6 +67,7 @@ export default function LandlordProfile() {
             </Button>
           </div>
           <ProfileSettings />
+          <ScoringRulesCard />
         </div>
       </main>
       <Footer />
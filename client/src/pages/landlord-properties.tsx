@@ -28,6 +28,8 @@ import {
   Upload,
   AlertCircle,
   UserCheck,
+  Users,
+  UserCog,
 } from 'lucide-react';
 import { updateMetaTags } from '@/lib/seo';
 import { PropertyCardSkeletonGrid } from '@/components/skeleton-loaders';
@@ -42,6 +44,8 @@ import {
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { AgentAssignmentDialog } from '@/components/agent-assignment-dialog';
+import { MatchingRentersDialog } from '@/components/matching-renters-dialog';
+import { PropertyManagersDialog } from '@/components/property-managers-dialog';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 
 // Validation schema
@@ -96,6 +100,8 @@ export default function LandlordProperties() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [previewImages, setPreviewImages] = useState<string[]>([]);
   const [assignmentProperty, setAssignmentProperty] = useState<{ id: string; agentId?: string | null } | null>(null);
+  const [matchingProperty, setMatchingProperty] = useState<{ id: string; title: string } | null>(null);
+  const [managersProperty, setManagersProperty] = useState<{ id: string; title: string } | null>(null);
   const { uploadImage, isUploading } = useSupabaseStorageUpload({ folder: 'properties', maxSize: 5 });
   const { properties, loading, createProperty, updateProperty, deleteProperty } =
     useOwnedProperties();
@@ -949,6 +955,26 @@ export default function LandlordProperties() {
                         Relist Property
                       </Button>
                     )}
+                    <Button
+                      onClick={() => setMatchingProperty({ id: property.id, title: property.title })}
+                      size="sm"
+                      variant="outline"
+                      data-testid={`button-matching-renters-${property.id}`}
+                      title="Matching renters"
+                    >
+                      <Users className="h-3 w-3" />
+                    </Button>
+                    {user.role !== 'property_manager' && (
+                      <Button
+                        onClick={() => setManagersProperty({ id: property.id, title: property.title })}
+                        size="sm"
+                        variant="outline"
+                        data-testid={`button-property-managers-${property.id}`}
+                        title="Property managers"
+                      >
+                        <UserCog className="h-3 w-3" />
+                      </Button>
+                    )}
                     <Button
                       onClick={() => handleEditProperty(property)}
                       size="sm"
@@ -984,6 +1010,18 @@ export default function LandlordProperties() {
         />
       )}
 
+      <MatchingRentersDialog
+        propertyId={matchingProperty?.id ?? null}
+        propertyTitle={matchingProperty?.title}
+        onClose={() => setMatchingProperty(null)}
+      />
+
+      <PropertyManagersDialog
+        propertyId={managersProperty?.id ?? null}
+        propertyTitle={managersProperty?.title}
+        onClose={() => setManagersProperty(null)}
+      />
+
       <Footer />
     </div>
   );
@@ -0,0 +1,496 @@
+import { useEffect, useRef, useState } from 'react';
+import { Navbar } from '@/components/layout/navbar';
+import { Footer } from '@/components/layout/footer';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, BookOpen, FileText, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { updateMetaTags } from '@/lib/seo';
+import { LEASE_CLAUSE_CATEGORIES } from '@shared/schema';
+import {
+  useLeaseClauseLibrary,
+  useLeaseMergeFields,
+  useLeaseTemplateActions,
+  useLeaseTemplates,
+  type LeaseTemplate,
+  type LeaseTemplateClause,
+  type LibraryClause,
+} from '@/hooks/use-lease-templates';
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message.replace(/^\d+: /, '') : 'Please try again.');
+
+const categoryLabel = (category: string) =>
+  category.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+function TemplateEditorDialog({
+  template,
+  open,
+  onOpenChange,
+}: {
+  template: LeaseTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const { data: mergeFields = [] } = useLeaseMergeFields();
+  const { data: library = [] } = useLeaseClauseLibrary();
+  const { saveTemplate, isSavingTemplate } = useLeaseTemplateActions();
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  const [name, setName] = useState('');
+  const [state, setState] = useState('');
+  const [content, setContent] = useState('');
+  const [clauses, setClauses] = useState<LeaseTemplateClause[]>([]);
+  const [shareWithAgency, setShareWithAgency] = useState(false);
+  const [isDefault, setIsDefault] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? '');
+    setState(template?.state ?? '');
+    setContent(template?.content ?? '');
+    setClauses(template?.custom_clauses ?? []);
+    setShareWithAgency(!!template?.agency_id);
+    setIsDefault(template?.is_default ?? false);
+  }, [open, template]);
+
+  // Inserts the placeholder at the cursor rather than the end of the text
+  const insertField = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const el = contentRef.current;
+    const start = el?.selectionStart ?? content.length;
+    const end = el?.selectionEnd ?? content.length;
+    setContent(content.slice(0, start) + placeholder + content.slice(end));
+  };
+
+  const addLibraryClause = (clause: LibraryClause) => {
+    setClauses((current) => [
+      ...current,
+      {
+        id: crypto.randomUUID(),
+        title: clause.title,
+        content: clause.content,
+        optional: false,
+        category: clause.category,
+        libraryClauseId: clause.id,
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveTemplate({
+        id: template?.id,
+        name,
+        state: state || undefined,
+        content,
+        customClauses: clauses,
+        shareWithAgency,
+        isDefault,
+      });
+      toast({ title: template ? 'Template updated' : 'Template created' });
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Could not save template', description: errorText(err), variant: 'destructive' });
+    }
+  };
+
+  const unusedLibrary = library.filter(
+    (clause) => !clauses.some((c) => c.libraryClauseId === clause.id) && (!clause.state || !state || clause.state === state.toUpperCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Lease Template' : 'New Lease Template'}</DialogTitle>
+          <DialogDescription>
+            Merge fields are filled in from the application and lease terms when the lease is sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="sm:col-span-2 space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-template-name" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-state">State</Label>
+              <Input
+                id="template-state"
+                value={state}
+                maxLength={2}
+                placeholder="e.g. CA"
+                onChange={(e) => setState(e.target.value.toUpperCase())}
+                data-testid="input-template-state"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-content">Lease text</Label>
+            <div className="flex flex-wrap gap-1">
+              {mergeFields.map((field) => (
+                <Button
+                  key={field.key}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  title={field.label}
+                  onClick={() => insertField(field.key)}
+                  data-testid={`button-merge-field-${field.key}`}
+                >
+                  {field.label}
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              id="template-content"
+              ref={contentRef}
+              rows={12}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="font-mono text-sm"
+              data-testid="textarea-template-content"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Clauses</Label>
+              {unusedLibrary.length > 0 && (
+                <Select onValueChange={(id) => {
+                  const clause = library.find((c) => c.id === id);
+                  if (clause) addLibraryClause(clause);
+                }}>
+                  <SelectTrigger className="w-56 h-8" data-testid="select-add-library-clause">
+                    <SelectValue placeholder="Add from library" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unusedLibrary.map((clause) => (
+                      <SelectItem key={clause.id} value={clause.id}>{clause.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {clauses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No clauses added.</p>
+            ) : (
+              <div className="space-y-2">
+                {clauses.map((clause) => (
+                  <div key={clause.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{clause.title}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {clause.category && <Badge variant="secondary">{categoryLabel(clause.category)}</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={clause.optional}
+                          onCheckedChange={(optional) =>
+                            setClauses((current) => current.map((c) => (c.id === clause.id ? { ...c, optional } : c)))
+                          }
+                        />
+                        <span className="text-xs text-muted-foreground">Optional</span>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setClauses((current) => current.filter((c) => c.id !== clause.id))}
+                        aria-label="Remove clause"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="template-share" checked={shareWithAgency} onCheckedChange={setShareWithAgency} />
+              <Label htmlFor="template-share">Share with my agency</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="template-default" checked={isDefault} onCheckedChange={setIsDefault} />
+              <Label htmlFor="template-default">Use as my default</Label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSavingTemplate || !name.trim() || !content.trim()} data-testid="button-save-template">
+            {isSavingTemplate ? 'Saving...' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ClauseEditorDialog({
+  clause,
+  open,
+  onOpenChange,
+}: {
+  clause: LibraryClause | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const { saveClause, isSavingClause } = useLeaseTemplateActions();
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [category, setCategory] = useState('other');
+  const [state, setState] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(clause?.title ?? '');
+    setContent(clause?.content ?? '');
+    setCategory(clause?.category ?? 'other');
+    setState(clause?.state ?? '');
+  }, [open, clause]);
+
+  const handleSave = async () => {
+    try {
+      await saveClause({ id: clause?.id, title, content, category, state: state || (clause ? null : undefined) });
+      toast({ title: clause ? 'Clause updated' : 'Clause added to library' });
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Could not save clause', description: errorText(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{clause ? 'Edit Clause' : 'New Clause'}</DialogTitle>
+          <DialogDescription>Library clauses are shared with everyone in your agency.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="clause-title">Title</Label>
+            <Input id="clause-title" value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-clause-title" />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger data-testid="select-clause-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEASE_CLAUSE_CATEGORIES.map((value) => (
+                    <SelectItem key={value} value={value}>{categoryLabel(value)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clause-state">State (optional)</Label>
+              <Input
+                id="clause-state"
+                value={state}
+                maxLength={2}
+                placeholder="Any state"
+                onChange={(e) => setState(e.target.value.toUpperCase())}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="clause-content">Clause text</Label>
+            <Textarea id="clause-content" rows={8} value={content} onChange={(e) => setContent(e.target.value)} data-testid="textarea-clause-content" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSavingClause || !title.trim() || !content.trim()} data-testid="button-save-clause">
+            {isSavingClause ? 'Saving...' : 'Save Clause'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function LeaseTemplates() {
+  const { toast } = useToast();
+  const { data: templates = [], isLoading: templatesLoading } = useLeaseTemplates();
+  const { data: library = [], isLoading: libraryLoading } = useLeaseClauseLibrary();
+  const { deleteTemplate, deleteClause } = useLeaseTemplateActions();
+
+  const [editingTemplate, setEditingTemplate] = useState<LeaseTemplate | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [editingClause, setEditingClause] = useState<LibraryClause | null>(null);
+  const [clauseDialogOpen, setClauseDialogOpen] = useState(false);
+
+  useEffect(() => {
+    updateMetaTags({
+      title: 'Lease Templates - Choice Properties',
+      description: 'Build lease templates with merge fields and a shared clause library.',
+      url: 'https://choiceproperties.com/lease-templates',
+    });
+  }, []);
+
+  const openTemplate = (template: LeaseTemplate | null) => {
+    setEditingTemplate(template);
+    setTemplateDialogOpen(true);
+  };
+
+  const openClause = (clause: LibraryClause | null) => {
+    setEditingClause(clause);
+    setClauseDialogOpen(true);
+  };
+
+  const handleDeleteTemplate = async (template: LeaseTemplate) => {
+    if (!window.confirm(`Delete "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      toast({ title: 'Template deleted' });
+    } catch (err) {
+      toast({ title: 'Could not delete template', description: errorText(err), variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteClause = async (clause: LibraryClause) => {
+    if (!window.confirm(`Remove "${clause.title}" from the library?`)) return;
+    try {
+      await deleteClause(clause.id);
+      toast({ title: 'Clause removed' });
+    } catch (err) {
+      toast({ title: 'Could not remove clause', description: errorText(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <>
+      <Navbar />
+      <main className="min-h-screen bg-background py-12">
+        <div className="container max-w-5xl mx-auto px-4">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Lease Templates</h1>
+            <p className="text-muted-foreground">
+              Reusable lease text with merge fields, and the clause library your agency shares
+            </p>
+          </div>
+
+          <Tabs defaultValue="templates">
+            <TabsList>
+              <TabsTrigger value="templates" className="gap-2"><FileText className="w-4 h-4" />Templates</TabsTrigger>
+              <TabsTrigger value="clauses" className="gap-2"><BookOpen className="w-4 h-4" />Clause Library</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="templates" className="space-y-4 mt-6">
+              <div className="flex justify-end">
+                <Button className="gap-2" onClick={() => openTemplate(null)} data-testid="button-new-template">
+                  <Plus className="w-4 h-4" />
+                  New Template
+                </Button>
+              </div>
+              {templatesLoading ? (
+                <p className="text-muted-foreground">Loading templates...</p>
+              ) : templates.length === 0 ? (
+                <Card className="p-8 text-center text-muted-foreground">No lease templates yet.</Card>
+              ) : (
+                templates.map((template) => (
+                  <Card key={template.id} className="p-5" data-testid={`card-template-${template.id}`}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <h3 className="font-semibold flex items-center gap-2">
+                          {template.name}
+                          {template.is_default && <Badge>Default</Badge>}
+                          {template.state && <Badge variant="outline">{template.state}</Badge>}
+                          {template.agency_id && (
+                            <Badge variant="secondary" className="gap-1"><Users className="w-3 h-3" />Agency</Badge>
+                          )}
+                        </h3>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {(template.custom_clauses || []).length} clauses · Updated {new Date(template.updated_at).toLocaleDateString()}
+                        </p>
+                        {template.compliance.missingClauses.length > 0 && (
+                          <p className="text-sm text-amber-600 dark:text-amber-400 mt-2 flex items-center gap-1">
+                            <AlertTriangle className="w-4 h-4" />
+                            {template.state} leases also need: {template.compliance.missingClauses.map(categoryLabel).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <Button variant="ghost" size="icon" onClick={() => openTemplate(template)} aria-label="Edit template">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteTemplate(template)} aria-label="Delete template">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="clauses" className="space-y-4 mt-6">
+              <div className="flex justify-end">
+                <Button className="gap-2" onClick={() => openClause(null)} data-testid="button-new-clause">
+                  <Plus className="w-4 h-4" />
+                  New Clause
+                </Button>
+              </div>
+              {libraryLoading ? (
+                <p className="text-muted-foreground">Loading clauses...</p>
+              ) : library.length === 0 ? (
+                <Card className="p-8 text-center text-muted-foreground">The clause library is empty.</Card>
+              ) : (
+                library.map((clause) => (
+                  <Card key={clause.id} className="p-5" data-testid={`card-clause-${clause.id}`}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold flex items-center gap-2">
+                          {clause.title}
+                          <Badge variant="secondary">{categoryLabel(clause.category)}</Badge>
+                          {clause.state && <Badge variant="outline">{clause.state}</Badge>}
+                        </h3>
+                        <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{clause.content}</p>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <Button variant="ghost" size="icon" onClick={() => openClause(clause)} aria-label="Edit clause">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteClause(clause)} aria-label="Delete clause">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+      <Footer />
+
+      <TemplateEditorDialog template={editingTemplate} open={templateDialogOpen} onOpenChange={setTemplateDialogOpen} />
+      <ClauseEditorDialog clause={editingClause} open={clauseDialogOpen} onOpenChange={setClauseDialogOpen} />
+    </>
+  );
+}
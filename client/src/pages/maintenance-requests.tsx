@@ -0,0 +1,566 @@
+import { useEffect, useState } from 'react';
+import { Navbar } from '@/components/layout/navbar';
+import { Footer } from '@/components/layout/footer';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { updateMetaTags } from '@/lib/seo';
+import {
+  useMaintenanceRequests,
+  useMaintenanceLeases,
+  useMaintenanceRequest,
+  useMaintenanceActions,
+} from '@/hooks/use-maintenance';
+import {
+  MAINTENANCE_CATEGORIES,
+  MAINTENANCE_URGENCIES,
+  MAINTENANCE_STATUSES,
+  MAINTENANCE_STATUS_TRANSITIONS,
+} from '@shared/schema';
+import { Wrench, Plus, Calendar, User, Lock, AlertTriangle } from 'lucide-react';
+
+const formatLabel = (value: string) =>
+  value.split('_').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+const URGENCY_STYLES: Record<string, string> = {
+  low: 'bg-muted text-muted-foreground',
+  normal: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  emergency: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+const errorMessage = (err: unknown) => {
+  const raw = err instanceof Error ? err.message : 'Something went wrong';
+  const match = raw.match(/^\d+: (.*)$/);
+  if (!match) return raw;
+  try {
+    return JSON.parse(match[1]).error || raw;
+  } catch {
+    return match[1];
+  }
+};
+
+function NewRequestDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const { data: leases = [] } = useMaintenanceLeases();
+  const { createRequest, isCreating } = useMaintenanceActions();
+  const [form, setForm] = useState({
+    leaseId: '',
+    title: '',
+    description: '',
+    category: 'other',
+    urgency: 'normal',
+    entryPermission: false,
+    entryInstructions: '',
+  });
+
+  useEffect(() => {
+    if (!form.leaseId && leases.length > 0) {
+      setForm((f) => ({ ...f, leaseId: leases[0].id }));
+    }
+  }, [leases, form.leaseId]);
+
+  const handleSubmit = async () => {
+    try {
+      await createRequest({
+        ...form,
+        entryInstructions: form.entryInstructions || undefined,
+      });
+      toast({ title: 'Request submitted', description: 'Your landlord has been notified.' });
+      setForm((f) => ({ ...f, title: '', description: '', entryInstructions: '' }));
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Could not submit request', description: errorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Maintenance Request</DialogTitle>
+          <DialogDescription>Describe the issue and we'll route it to your landlord.</DialogDescription>
+        </DialogHeader>
+
+        {leases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You need an active lease before you can open a maintenance request.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={form.leaseId} onValueChange={(leaseId) => setForm({ ...form, leaseId })}>
+                <SelectTrigger data-testid="select-maintenance-lease">
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {leases.map((lease: any) => (
+                    <SelectItem key={lease.id} value={lease.id}>
+                      {lease.properties?.title || lease.properties?.address || 'Leased property'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={(category) => setForm({ ...form, category })}>
+                  <SelectTrigger data-testid="select-maintenance-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAINTENANCE_CATEGORIES.map((c) => (
+                      <SelectItem key={c} value={c}>{formatLabel(c)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Urgency</Label>
+                <Select value={form.urgency} onValueChange={(urgency) => setForm({ ...form, urgency })}>
+                  <SelectTrigger data-testid="select-maintenance-urgency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAINTENANCE_URGENCIES.map((u) => (
+                      <SelectItem key={u} value={u}>{formatLabel(u)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-title">Summary</Label>
+              <Input
+                id="maintenance-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="e.g. Kitchen sink is leaking"
+                data-testid="input-maintenance-title"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maintenance-description">Details</Label>
+              <Textarea
+                id="maintenance-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={4}
+                data-testid="input-maintenance-description"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="maintenance-entry"
+                checked={form.entryPermission}
+                onCheckedChange={(checked) => setForm({ ...form, entryPermission: checked === true })}
+                data-testid="checkbox-maintenance-entry"
+              />
+              <Label htmlFor="maintenance-entry" className="font-normal">
+                Maintenance may enter when I'm not home
+              </Label>
+            </div>
+
+            {form.entryPermission && (
+              <div className="space-y-2">
+                <Label htmlFor="maintenance-entry-instructions">Entry instructions</Label>
+                <Textarea
+                  id="maintenance-entry-instructions"
+                  value={form.entryInstructions}
+                  onChange={(e) => setForm({ ...form, entryInstructions: e.target.value })}
+                  rows={2}
+                  placeholder="Pets, alarm codes, preferred times..."
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isCreating || leases.length === 0 || !form.title || form.description.length < 10}
+            data-testid="button-submit-maintenance"
+          >
+            {isCreating ? 'Submitting...' : 'Submit Request'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RequestDetailDialog({ requestId, onClose }: { requestId: string | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const { data: request, isLoading } = useMaintenanceRequest(requestId);
+  const { updateStatus, assign, schedule, addComment, isUpdating } = useMaintenanceActions(requestId);
+  const [comment, setComment] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [vendorName, setVendorName] = useState('');
+  const [vendorPhone, setVendorPhone] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [resolutionNotes, setResolutionNotes] = useState('');
+
+  useEffect(() => {
+    setComment('');
+    setIsInternal(false);
+    setVendorName('');
+    setVendorPhone('');
+    setScheduledFor('');
+    setResolutionNotes('');
+  }, [requestId]);
+
+  const run = async (action: () => Promise<unknown>, successTitle: string) => {
+    try {
+      await action();
+      toast({ title: successTitle });
+    } catch (err) {
+      toast({ title: 'Action failed', description: errorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  const canManage = request?.permissions.canManage ?? false;
+  const nextStatuses = request ? MAINTENANCE_STATUS_TRANSITIONS[request.status] || [] : [];
+
+  return (
+    <Dialog open={!!requestId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        {isLoading || !request ? (
+          <div className="py-12 text-center text-muted-foreground">Loading request...</div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {request.title}
+                <Badge variant="outline">{formatLabel(request.status)}</Badge>
+              </DialogTitle>
+              <DialogDescription>
+                {request.properties?.title} &middot; {formatLabel(request.category)} &middot;{' '}
+                <span className={`px-1.5 py-0.5 rounded text-xs ${URGENCY_STYLES[request.urgency] || ''}`}>
+                  {formatLabel(request.urgency)}
+                </span>
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-6">
+              <p className="text-sm whitespace-pre-wrap">{request.description}</p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <User className="w-4 h-4 text-muted-foreground" />
+                  <span>
+                    {request.vendor?.name
+                      ? `Vendor: ${request.vendor.name}${request.vendor.phone ? ` (${request.vendor.phone})` : ''}`
+                      : 'No vendor assigned'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-muted-foreground" />
+                  <span>
+                    {request.scheduled_for
+                      ? `Scheduled ${new Date(request.scheduled_for).toLocaleString()}`
+                      : 'Not scheduled'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Lock className="w-4 h-4 text-muted-foreground" />
+                  <span>{request.entry_permission ? 'Entry permitted' : 'Tenant must be present'}</span>
+                </div>
+              </div>
+
+              {request.entry_instructions && (
+                <div className="p-3 bg-muted rounded text-sm">
+                  <p className="font-medium mb-1">Entry instructions</p>
+                  <p className="text-muted-foreground">{request.entry_instructions}</p>
+                </div>
+              )}
+
+              {request.photos.length > 0 && (
+                <div className="grid grid-cols-4 gap-2">
+                  {request.photos.map((photo) => (
+                    <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={photo.thumbnail_url || photo.url}
+                        alt="Maintenance photo"
+                        className="w-full h-20 object-cover rounded"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {canManage && (
+                <div className="space-y-4 border-t pt-4">
+                  <h4 className="text-sm font-semibold">Manage</h4>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+                    <Input placeholder="Vendor name" value={vendorName} onChange={(e) => setVendorName(e.target.value)} />
+                    <Input placeholder="Vendor phone" value={vendorPhone} onChange={(e) => setVendorPhone(e.target.value)} />
+                    <Button
+                      variant="outline"
+                      disabled={isUpdating || !vendorName}
+                      onClick={() => run(
+                        () => assign({ vendor: { name: vendorName, phone: vendorPhone || undefined } }),
+                        'Vendor assigned'
+                      )}
+                    >
+                      Assign Vendor
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+                    <Input
+                      type="datetime-local"
+                      className="sm:col-span-2"
+                      value={scheduledFor}
+                      onChange={(e) => setScheduledFor(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={isUpdating || !scheduledFor}
+                      onClick={() => run(
+                        () => schedule({ scheduledFor: new Date(scheduledFor).toISOString() }),
+                        'Visit scheduled'
+                      )}
+                    >
+                      Schedule
+                    </Button>
+                  </div>
+
+                  {nextStatuses.includes('completed') && (
+                    <Textarea
+                      placeholder="Resolution notes (optional)"
+                      value={resolutionNotes}
+                      onChange={(e) => setResolutionNotes(e.target.value)}
+                      rows={2}
+                    />
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {nextStatuses.map((status) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant={status === 'cancelled' ? 'destructive' : 'secondary'}
+                        disabled={isUpdating}
+                        onClick={() => run(
+                          () => updateStatus({
+                            status,
+                            resolutionNotes: status === 'completed' && resolutionNotes ? resolutionNotes : undefined,
+                          }),
+                          `Marked ${formatLabel(status).toLowerCase()}`
+                        )}
+                        data-testid={`button-status-${status}`}
+                      >
+                        {formatLabel(status)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!canManage && request.permissions.canCancel && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={isUpdating}
+                  onClick={() => run(() => updateStatus({ status: 'cancelled' }), 'Request cancelled')}
+                >
+                  Cancel Request
+                </Button>
+              )}
+
+              <div className="space-y-3 border-t pt-4">
+                <h4 className="text-sm font-semibold">Activity</h4>
+                {request.comments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No comments yet.</p>
+                ) : (
+                  request.comments.map((c) => (
+                    <div key={c.id} className={`p-3 rounded text-sm ${c.is_internal ? 'bg-amber-50 dark:bg-amber-950' : 'bg-muted'}`}>
+                      <div className="flex justify-between mb-1 text-xs text-muted-foreground">
+                        <span>
+                          {c.users?.full_name || 'User'}
+                          {c.is_internal && ' · Internal note'}
+                        </span>
+                        <span>{new Date(c.created_at).toLocaleString()}</span>
+                      </div>
+                      <p className="whitespace-pre-wrap">{c.comment}</p>
+                    </div>
+                  ))
+                )}
+
+                <Textarea
+                  placeholder="Add a comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={2}
+                  data-testid="input-maintenance-comment"
+                />
+                <div className="flex items-center justify-between">
+                  {canManage ? (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="maintenance-internal"
+                        checked={isInternal}
+                        onCheckedChange={(checked) => setIsInternal(checked === true)}
+                      />
+                      <Label htmlFor="maintenance-internal" className="font-normal text-sm">
+                        Internal note (hidden from tenant)
+                      </Label>
+                    </div>
+                  ) : <span />}
+                  <Button
+                    size="sm"
+                    disabled={isUpdating || !comment.trim()}
+                    onClick={() => run(async () => {
+                      await addComment({ comment: comment.trim(), isInternal });
+                      setComment('');
+                    }, 'Comment added')}
+                    data-testid="button-add-maintenance-comment"
+                  >
+                    Post
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function MaintenanceRequests() {
+  useEffect(() => {
+    updateMetaTags({
+      title: 'Maintenance Requests - Choice Properties',
+      description: 'Submit and track maintenance requests for your rental.',
+      url: 'https://choiceproperties.com/maintenance',
+    });
+  }, []);
+
+  const { user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [showNew, setShowNew] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { requests, isLoading } = useMaintenanceRequests(statusFilter === 'all' ? undefined : statusFilter);
+
+  const isTenant = user?.role === 'renter';
+
+  return (
+    <>
+      <Navbar />
+      <main className="min-h-screen bg-background flex flex-col">
+        <div className="bg-gradient-to-br from-primary via-primary/90 to-secondary/80 py-12 px-6 relative overflow-hidden mb-12">
+          <div className="container max-w-6xl mx-auto relative z-10">
+            <h1 className="text-4xl font-bold tracking-tight mb-2 text-white">Maintenance</h1>
+            <p className="text-white/80 text-lg font-medium">
+              {isTenant ? 'Report issues and follow repairs in your home' : 'Triage, assign and resolve tenant requests'}
+            </p>
+          </div>
+        </div>
+
+        <div className="container max-w-6xl mx-auto px-4 pb-12">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full sm:w-56" data-testid="select-maintenance-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {MAINTENANCE_STATUSES.map((s) => (
+                  <SelectItem key={s} value={s}>{formatLabel(s)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isTenant && (
+              <Button onClick={() => setShowNew(true)} className="gap-2" data-testid="button-new-maintenance">
+                <Plus className="w-4 h-4" />
+                New Request
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="text-muted-foreground py-12 text-center">Loading requests...</div>
+          ) : requests.length === 0 ? (
+            <Card className="p-16 flex flex-col items-center justify-center text-center">
+              <Wrench className="w-20 h-20 text-muted-foreground/40 mb-6" strokeWidth={1.5} />
+              <h2 className="text-xl font-bold mb-2">No Maintenance Requests</h2>
+              <p className="text-muted-foreground max-w-sm">
+                {isTenant
+                  ? "Something not working? Open a request and we'll keep you updated."
+                  : 'Requests from your tenants will appear here.'}
+              </p>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {requests.map((request) => (
+                <Card
+                  key={request.id}
+                  className="p-5 cursor-pointer hover:shadow-md transition-shadow"
+                  onClick={() => setSelectedId(request.id)}
+                  data-testid={`card-maintenance-${request.id}`}
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        {request.urgency === 'emergency' && <AlertTriangle className="w-4 h-4 text-red-600" />}
+                        <h3 className="font-semibold truncate">{request.title}</h3>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {request.properties?.title || request.properties?.address}
+                        {!isTenant && request.tenant?.full_name && ` · ${request.tenant.full_name}`}
+                        {' · '}
+                        {new Date(request.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${URGENCY_STYLES[request.urgency] || ''}`}>
+                        {formatLabel(request.urgency)}
+                      </span>
+                      <Badge variant="outline">{formatLabel(request.status)}</Badge>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+      <Footer />
+
+      {isTenant && <NewRequestDialog open={showNew} onOpenChange={setShowNew} />}
+      <RequestDetailDialog requestId={selectedId} onClose={() => setSelectedId(null)} />
+    </>
+  );
+}
@@ -1,7 +1,15 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@/lib/auth-context";
+import {
+  useConversations,
+  useConversation,
+  useConversationMessages,
+  useMessagingActions,
+  useMessagingSocket,
+  type Conversation,
+  type MessageAttachment,
+} from "@/hooks/use-messaging";
+import { ALLOWED_FILE_TYPES, MESSAGE_MAX_ATTACHMENTS } from "@shared/schema";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,60 +30,54 @@ import {
   ArrowLeft,
   Search,
   Building2,
-  Loader2
+  Loader2,
+  Paperclip,
+  FileText,
+  X,
+  CheckCheck
 } from "lucide-react";
 import { Navbar } from "@/components/layout/navbar";
 import { Footer } from "@/components/layout/footer";
 import { EmptyState, EmptyStatePresets } from "@/components/empty-state";
 
-interface Conversation {
-  id: string;
-  subject: string | null;
-  property_id: string | null;
-  application_id: string | null;
-  created_at: string;
-  updated_at: string;
-  lastMessage?: {
-    content: string;
-    created_at: string;
-  };
-  unreadCount?: number;
-  participants?: Array<{
-    user_id: string;
-    users: {
-      id: string;
-      full_name: string;
-      profile_image: string | null;
-    };
-  }>;
-  properties?: {
-    id: string;
-    title: string;
-    address: string;
-  } | null;
-}
+// Typing events are re-sent at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 3000;
 
-interface Message {
-  id: string;
-  conversation_id: string;
-  sender_id: string;
-  content: string;
-  message_type: string;
-  attachments: string[] | null;
-  created_at: string;
-  users?: {
-    id: string;
-    full_name: string;
-    profile_image: string | null;
-  };
+function AttachmentLink({ attachment, isMine }: { attachment: MessageAttachment; isMine: boolean }) {
+  if (attachment.url && attachment.mimeType.startsWith("image/")) {
+    return (
+      <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="block">
+        <img src={attachment.url} alt={attachment.name} className="max-h-48 rounded-md" />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={attachment.url || undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`flex items-center gap-2 text-sm underline-offset-2 hover:underline ${isMine ? "text-primary-foreground" : ""}`}
+    >
+      <FileText className="h-4 w-4 shrink-0" />
+      <span className="truncate">{attachment.name}</span>
+      <span className="text-xs opacity-75 shrink-0">{Math.max(1, Math.round(attachment.size / 1024))} KB</span>
+    </a>
+  );
 }
 
 export default function Messages() {
   const { user, isLoggedIn } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
-  const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const [selectedConversation, setSelectedConversation] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("conversation")
+  );
   const [newMessage, setNewMessage] = useState("");
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastTypingSentRef = useRef(0);
+  const stopTypingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [newConversationOpen, setNewConversationOpen] = useState(false);
   const [newConversationData, setNewConversationData] = useState({
@@ -85,87 +87,89 @@ export default function Messages() {
     initialMessage: ""
   });
 
-  const { data: conversationsResponse, isLoading: loadingConversations } = useQuery<{ data: Conversation[] }>({
-    queryKey: ["/api/conversations"],
-    enabled: isLoggedIn
-  });
+  const { data: conversations = [], isLoading: loadingConversations } = useConversations(isLoggedIn);
+  const { data: selectedConversationData } = useConversation(isLoggedIn ? selectedConversation : null);
+  const {
+    messages,
+    isLoading: loadingMessages,
+    hasEarlier,
+    loadEarlier,
+    isLoadingEarlier,
+  } = useConversationMessages(isLoggedIn ? selectedConversation : null);
+  const { sendMessage, isSending, createConversation, isCreating, markRead } = useMessagingActions();
+  const { sendTyping, typingIn } = useMessagingSocket(user?.id);
 
-  const conversations: Conversation[] = conversationsResponse?.data || [];
+  const lastMessage = messages[messages.length - 1];
 
-  const { data: messagesResponse, isLoading: loadingMessages } = useQuery<{ data: Conversation & { messages: Message[] } }>({
-    queryKey: ["/api/conversations", selectedConversation],
-    enabled: !!selectedConversation && isLoggedIn
-  });
+  // Messages from others that arrive while the conversation is open are read immediately
+  useEffect(() => {
+    if (selectedConversation && lastMessage && lastMessage.sender_id !== user?.id) {
+      markRead(selectedConversation);
+    }
+  }, [selectedConversation, lastMessage?.id]);
+
+  const handleSelectConversation = (conversationId: string) => {
+    if (selectedConversation) sendTyping(selectedConversation, false);
+    setSelectedConversation(conversationId);
+    setPendingFiles([]);
+    markRead(conversationId);
+  };
 
-  const selectedConversationData = messagesResponse?.data;
+  const stopTyping = () => {
+    if (stopTypingTimerRef.current) clearTimeout(stopTypingTimerRef.current);
+    stopTypingTimerRef.current = null;
+    lastTypingSentRef.current = 0;
+    if (selectedConversation) sendTyping(selectedConversation, false);
+  };
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async (data: { conversationId: string; content: string }) => {
-      const response = await apiRequest("POST", `/api/conversations/${data.conversationId}/messages`, { content: data.content });
-      return response.json();
-    },
-    onSuccess: () => {
-      setNewMessage("");
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", selectedConversation] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-    },
-    onError: () => {
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (!selectedConversation) return;
+
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendTyping(selectedConversation, true);
+    }
+
+    if (stopTypingTimerRef.current) clearTimeout(stopTypingTimerRef.current);
+    stopTypingTimerRef.current = setTimeout(stopTyping, TYPING_THROTTLE_MS);
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (pendingFiles.length + files.length > MESSAGE_MAX_ATTACHMENTS) {
       toast({
-        title: "Error",
-        description: "Failed to send message",
+        title: "Too many files",
+        description: `You can attach up to ${MESSAGE_MAX_ATTACHMENTS} files per message`,
         variant: "destructive"
       });
+      return;
     }
-  });
+    setPendingFiles(prev => [...prev, ...files]);
+  };
 
-  const createConversationMutation = useMutation({
-    mutationFn: async (data: { participantIds: string[]; propertyId?: string; subject?: string; initialMessage?: string }) => {
-      const response = await apiRequest("POST", "/api/conversations", data);
-      return response.json();
-    },
-    onSuccess: (data) => {
-      setNewConversationOpen(false);
-      setNewConversationData({ participantId: "", propertyId: "", subject: "", initialMessage: "" });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-      if (data?.data?.id) {
-        setSelectedConversation(data.data.id);
-      }
-      toast({
-        title: "Success",
-        description: "Conversation started"
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!newMessage.trim() && pendingFiles.length === 0) || !selectedConversation) return;
+
+    stopTyping();
+    try {
+      await sendMessage({
+        conversationId: selectedConversation,
+        content: newMessage.trim(),
+        files: pendingFiles
       });
-    },
-    onError: () => {
+      setNewMessage("");
+      setPendingFiles([]);
+    } catch (err) {
       toast({
         title: "Error",
-        description: "Failed to create conversation",
+        description: err instanceof Error ? err.message.replace(/^\d+:\s*/, "") : "Failed to send message",
         variant: "destructive"
       });
     }
-  });
-
-  const markAsReadMutation = useMutation({
-    mutationFn: async (conversationId: string) => {
-      const response = await apiRequest("PATCH", `/api/conversations/${conversationId}/read`);
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-    }
-  });
-
-  const handleSelectConversation = (conversationId: string) => {
-    setSelectedConversation(conversationId);
-    markAsReadMutation.mutate(conversationId);
-  };
-
-  const handleSendMessage = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newMessage.trim() || !selectedConversation) return;
-    sendMessageMutation.mutate({
-      conversationId: selectedConversation,
-      content: newMessage.trim()
-    });
   };
 
   const handleCreateConversation = () => {
@@ -177,12 +181,30 @@ export default function Messages() {
       });
       return;
     }
-    createConversationMutation.mutate({
+    createConversation({
       participantIds: [newConversationData.participantId],
       propertyId: newConversationData.propertyId || undefined,
       subject: newConversationData.subject || undefined,
       initialMessage: newConversationData.initialMessage
-    });
+    })
+      .then((conversation) => {
+        setNewConversationOpen(false);
+        setNewConversationData({ participantId: "", propertyId: "", subject: "", initialMessage: "" });
+        if (conversation?.id) {
+          setSelectedConversation(conversation.id);
+        }
+        toast({
+          title: "Success",
+          description: "Conversation started"
+        });
+      })
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to create conversation",
+          variant: "destructive"
+        });
+      });
   };
 
   const filteredConversations = conversations.filter(conv => {
@@ -200,6 +222,22 @@ export default function Messages() {
     return conv.participants?.filter(p => p.user_id !== user?.id) || [];
   };
 
+  // The newest of my messages that every other participant has read
+  const lastReadMineId = (() => {
+    if (!selectedConversationData) return null;
+    const others = getOtherParticipants(selectedConversationData);
+    if (others.length === 0) return null;
+    const readUpTo = Math.min(...others.map(p => (p.last_read_at ? new Date(p.last_read_at).getTime() : 0)));
+    const readMine = messages.filter(m => m.sender_id === user?.id && new Date(m.created_at).getTime() <= readUpTo);
+    return readMine[readMine.length - 1]?.id ?? null;
+  })();
+
+  const typingNames = selectedConversation
+    ? typingIn(selectedConversation)
+        .map(id => selectedConversationData?.participants.find(p => p.user_id === id)?.users?.full_name)
+        .filter(Boolean)
+    : [];
+
   const getInitials = (name: string | null | undefined) => {
     if (!name) return "?";
     return name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
@@ -282,10 +320,10 @@ export default function Messages() {
                 <Button 
                   className="w-full" 
                   onClick={handleCreateConversation}
-                  disabled={createConversationMutation.isPending}
+                  disabled={isCreating}
                   data-testid="button-send-new-message"
                 >
-                  {createConversationMutation.isPending ? "Sending..." : "Start Conversation"}
+                  {isCreating ? "Sending..." : "Start Conversation"}
                 </Button>
               </div>
             </DialogContent>
@@ -346,7 +384,7 @@ export default function Messages() {
                                 <span className="font-medium truncate">
                                   {firstOther?.full_name || "Unknown"}
                                 </span>
-                                {conv.unreadCount && conv.unreadCount > 0 && (
+                                {!!conv.unreadCount && conv.unreadCount > 0 && (
                                   <Badge variant="default" className="shrink-0" data-testid={`badge-unread-${conv.id}`}>
                                     {conv.unreadCount}
                                   </Badge>
@@ -357,7 +395,7 @@ export default function Messages() {
                               )}
                               {conv.lastMessage && (
                                 <p className="text-sm text-muted-foreground truncate mt-1">
-                                  {conv.lastMessage.content}
+                                  {conv.lastMessage.content || (conv.lastMessage.message_type === "attachment" ? "Sent an attachment" : "")}
                                 </p>
                               )}
                               <div className="flex items-center gap-2 mt-1">
@@ -413,7 +451,11 @@ export default function Messages() {
                               ?.users?.full_name || 
                             "Conversation"}
                         </h3>
-                        {selectedConversationData.properties && (
+                        {typingNames.length > 0 ? (
+                          <p className="text-sm text-muted-foreground italic" data-testid="text-typing">
+                            {typingNames.join(", ")} {typingNames.length === 1 ? "is" : "are"} typing…
+                          </p>
+                        ) : selectedConversationData.properties && (
                           <p className="text-sm text-muted-foreground flex items-center gap-1">
                             <Building2 className="h-3 w-3" />
                             {selectedConversationData.properties.title}
@@ -429,7 +471,20 @@ export default function Messages() {
                       <div className="text-center text-muted-foreground py-4">Loading messages...</div>
                     ) : (
                       <div className="space-y-4">
-                        {selectedConversationData.messages?.map(msg => {
+                        {hasEarlier && (
+                          <div className="flex justify-center">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => loadEarlier()}
+                              disabled={isLoadingEarlier}
+                              data-testid="button-load-earlier"
+                            >
+                              {isLoadingEarlier ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load earlier messages"}
+                            </Button>
+                          </div>
+                        )}
+                        {messages.map(msg => {
                           const isMine = msg.sender_id === user?.id;
                           return (
                             <div
@@ -454,10 +509,23 @@ export default function Messages() {
                                       : "bg-muted"
                                   }`}
                                 >
-                                  <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                                  {msg.content && <p className="text-sm whitespace-pre-wrap">{msg.content}</p>}
+                                  {msg.attachments && msg.attachments.length > 0 && (
+                                    <div className={`space-y-2 ${msg.content ? "mt-2" : ""}`}>
+                                      {msg.attachments.map(attachment => (
+                                        <AttachmentLink key={attachment.fileId} attachment={attachment} isMine={isMine} />
+                                      ))}
+                                    </div>
+                                  )}
                                 </div>
-                                <p className={`text-xs text-muted-foreground mt-1 ${isMine ? "text-right" : ""}`}>
+                                <p className={`text-xs text-muted-foreground mt-1 flex items-center gap-1 ${isMine ? "justify-end" : ""}`}>
                                   {format(new Date(msg.created_at), "MMM d, h:mm a")}
+                                  {msg.id === lastReadMineId && (
+                                    <span className="flex items-center gap-0.5" data-testid={`text-read-${msg.id}`}>
+                                      <CheckCheck className="h-3 w-3" />
+                                      Read
+                                    </span>
+                                  )}
                                 </p>
                               </div>
                             </div>
@@ -468,18 +536,54 @@ export default function Messages() {
                   </ScrollArea>
                   <Separator />
                   <form onSubmit={handleSendMessage} className="p-4">
+                    {pendingFiles.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        {pendingFiles.map((file, index) => (
+                          <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                            <span className="truncate max-w-[160px]">{file.name}</span>
+                            <button
+                              type="button"
+                              aria-label={`Remove ${file.name}`}
+                              onClick={() => setPendingFiles(prev => prev.filter((_, i) => i !== index))}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex gap-2">
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        accept={ALLOWED_FILE_TYPES.join(",")}
+                        className="hidden"
+                        onChange={handleFilesSelected}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Attach files"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isSending || pendingFiles.length >= MESSAGE_MAX_ATTACHMENTS}
+                        data-testid="button-attach-file"
+                      >
+                        <Paperclip className="h-4 w-4" />
+                      </Button>
                       <Input
                         data-testid="input-message"
                         placeholder="Type a message..."
                         value={newMessage}
-                        onChange={e => setNewMessage(e.target.value)}
-                        disabled={sendMessageMutation.isPending}
+                        onChange={e => handleMessageChange(e.target.value)}
+                        onBlur={stopTyping}
+                        disabled={isSending}
                       />
                       <Button 
                         type="submit" 
                         size="icon"
-                        disabled={!newMessage.trim() || sendMessageMutation.isPending}
+                        disabled={(!newMessage.trim() && pendingFiles.length === 0) || isSending}
                         data-testid="button-send-message"
                       >
                         <Send className="h-4 w-4" />
@@ -1,6 +1,7 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { UnifiedNotificationsList, Notification } from "@/components/notifications-unified";
+import { NotificationPreferencesCard } from "@/components/notification-preferences";
 import { useAuth } from "@/lib/auth-context";
 import { useLocation } from "wouter";
 import { Card } from "@/components/ui/card";
@@ -216,6 +217,8 @@ export default function NotificationsPage() {
               </div>
             </Tabs>
           </Card>
+
+          <NotificationPreferencesCard />
         </div>
       </div>
     </div>
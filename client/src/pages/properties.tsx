@@ -19,8 +19,20 @@ import { updateMetaTags } from "@/lib/seo";
 import { PropertyCardSkeletonGrid } from "@/components/skeleton-loaders";
 import { PropertyListCard } from "@/components/property-list-card";
 
+// Keyword searches go to the server once the input settles
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function Properties() {
-  const { properties: allProperties, loading } = useProperties();
+  const [search, setSearch] = useState(() => new URLSearchParams(window.location.search).get("q") || "");
+  const [keyword, setKeyword] = useState(search.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setKeyword(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const serverSearch = keyword.length >= 2;
+  const { properties: allProperties, loading } = useProperties(serverSearch ? { q: keyword, limit: 100 } : undefined);
   const [filteredProperties, setFilteredProperties] = useState<Property[]>(allProperties);
   const [isMobileFiltersOpen, setIsMobileFiltersOpen] = useState(false);
   const [viewMode, setViewMode] = useState<"grid" | "list" | "map">("grid");
@@ -44,7 +56,6 @@ export default function Properties() {
   const [isQuickViewOpen, setIsQuickViewOpen] = useState(false);
   
   // Filters
-  const [search, setSearch] = useState("");
   const [priceMin, setPriceMin] = useState("0");
   const [priceMax, setPriceMax] = useState("10000");
   const [bedrooms, setBedrooms] = useState("any");
@@ -57,7 +68,8 @@ export default function Properties() {
   useEffect(() => {
     let result = allProperties;
 
-    if (search) {
+    // Server results are already matched (including misspellings) and ranked
+    if (search && !serverSearch) {
       const query = search.toLowerCase();
       result = result.filter(p => 
         p.title.toLowerCase().includes(query) || 
@@ -98,7 +110,7 @@ export default function Properties() {
     }
 
     setFilteredProperties(result);
-  }, [search, priceMin, priceMax, bedrooms, bathrooms, homeType, sortBy, allProperties]);
+  }, [search, serverSearch, priceMin, priceMax, bedrooms, bathrooms, homeType, sortBy, allProperties]);
 
   const saveSearch = () => {
     const newSearch = { search, priceMin, priceMax, bedrooms, bathrooms, homeType };
@@ -17,7 +17,7 @@ import {
   MapPin, Bed, Bath, Heart, Share2, 
   Home, Ruler, Calendar, Check, ExternalLink,
   MessageSquare, Phone, Mail, Info, TrendingUp, Eye, Bookmark,
-  X, ChevronLeft, ChevronRight, CheckCircle2, Star, Building2, ArrowLeft
+  X, ChevronLeft, ChevronRight, CheckCircle2, Star, Building2, ArrowLeft, Flag
 } from "lucide-react";
 import { 
   Card, 
@@ -26,12 +26,17 @@ import {
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { useFavorites } from "@/hooks/use-favorites";
 import { InteractiveMap } from "@/components/interactive-map";
+import { NearbyPlaces } from "@/components/nearby-places";
+import { useNearbyPlaces } from "@/hooks/use-nearby-places";
+import { trackPropertyEvent, getLeadAttribution } from "@/lib/analytics";
 import { updateMetaTags, getPropertyStructuredData, addStructuredData, removeStructuredData } from "@/lib/seo";
 import { PropertyDetailsSkeleton } from "@/components/property-details-skeleton";
 import NotFound from "@/pages/not-found";
 
 import { AssignAgentDropdown } from "@/components/property-assign-dropdown";
 import { PostedBy } from "@/components/property/posted-by";
+import { ScheduleTourCalendar } from "@/components/schedule-tour-calendar";
+import { ReportContentDialog } from "@/components/report-content-dialog";
 
 export default function PropertyDetails() {
   const [match, params] = useRoute("/property/:id");
@@ -43,6 +48,8 @@ export default function PropertyDetails() {
   const [inquiryForm, setInquiryForm] = useState({ name: "", email: "", phone: "", message: "" });
   const [submittingInquiry, setSubmittingInquiry] = useState(false);
   const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [isTourOpen, setIsTourOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
 
   const { data: propertyData, isLoading } = useQuery<{ property: Property; owner: Owner | null }>({
     queryKey: ['/api/v2/properties', id],
@@ -59,6 +66,15 @@ export default function PropertyDetails() {
   });
 
   const property = propertyData?.property;
+  const { data: nearbyPlaces } = useNearbyPlaces(property?.latitude && property?.longitude ? id : undefined);
+
+  useEffect(() => {
+    if (property?.id) trackPropertyEvent(property.id, "view");
+  }, [property?.id]);
+
+  useEffect(() => {
+    if (isGalleryOpen && property?.id) trackPropertyEvent(property.id, "gallery_open");
+  }, [isGalleryOpen, property?.id]);
 
   useEffect(() => {
     if (property) {
@@ -116,7 +132,9 @@ export default function PropertyDetails() {
         senderName: inquiryForm.name,
         senderEmail: inquiryForm.email,
         senderPhone: inquiryForm.phone,
-        message: inquiryForm.message
+        message: inquiryForm.message,
+        entryPoint: "property_listing",
+        ...getLeadAttribution()
       });
       toast({ title: "Success", description: "Your inquiry has been sent!" });
       setInquiryForm({ name: "", email: "", phone: "", message: "" });
@@ -324,6 +342,17 @@ export default function PropertyDetails() {
                     >
                       <Share2 className="h-5 w-5" />
                     </Button>
+                    {user && user.id !== property.owner_id && (
+                      <Button
+                        variant="outline"
+                        className="rounded-full h-10 w-10 p-0"
+                        onClick={() => setIsReportOpen(true)}
+                        title="Report listing"
+                        data-testid="button-report-property"
+                      >
+                        <Flag className="h-5 w-5" />
+                      </Button>
+                    )}
                   </div>
                 </Card>
 
@@ -516,10 +545,22 @@ export default function PropertyDetails() {
                       center={[lat, lng]} 
                       title={property.title} 
                       address={property.address}
+                      nearbyPlaces={nearbyPlaces?.places}
                     />
                   </div>
                 </section>
               )}
+
+              {/* Neighborhood */}
+              {nearbyPlaces && (
+                <section className="space-y-4">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <h3 className="text-xl font-bold border-b-2 border-blue-600 w-fit pb-1">What's Nearby</h3>
+                    <p className="text-xs text-gray-500">Within {nearbyPlaces.radiusMiles} miles</p>
+                  </div>
+                  <NearbyPlaces places={nearbyPlaces.places} />
+                </section>
+              )}
             </div>
 
             {/* Right Column: Sticky Contact Card */}
@@ -536,7 +577,7 @@ export default function PropertyDetails() {
                     
                     {!isOffMarket && !isComingSoon ? (
                       <>
-                        <div className="space-y-4">
+                        <div className="space-y-4" onFocus={() => trackPropertyEvent(property.id, "inquiry_start")}>
                           <Input 
                             placeholder="Full Name" 
                             value={inquiryForm.name} 
@@ -565,6 +606,15 @@ export default function PropertyDetails() {
                           >
                             {submittingInquiry ? "Sending..." : "Contact Agent"}
                           </Button>
+                          <Button 
+                            variant="outline" 
+                            className="w-full h-12 font-bold border-2 border-blue-600 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                            onClick={() => setIsTourOpen(true)}
+                            data-testid="button-schedule-tour"
+                          >
+                            <Calendar className="h-4 w-4 mr-2" />
+                            Schedule a Tour
+                          </Button>
                           <Button 
                             variant="outline" 
                             className="w-full h-12 font-bold border-2 border-blue-600 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
@@ -663,6 +713,16 @@ export default function PropertyDetails() {
         </div>
       )}
 
+      <ScheduleTourCalendar
+        propertyId={property.id}
+        propertyTitle={property.title}
+        propertyAddress={property.address}
+        open={isTourOpen}
+        onOpenChange={setIsTourOpen}
+      />
+
+      <ReportContentDialog propertyId={property.id} open={isReportOpen} onOpenChange={setIsReportOpen} />
+
       <Footer />
     </div>
   );
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
+import { apiRequest } from '@/lib/queryClient';
 import { Download, Share2, Save, CheckCircle } from 'lucide-react';
 
 interface RequirementData {
@@ -83,7 +84,7 @@ export default function PropertyRequirements() {
     }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!formData.name || !formData.email || !formData.phone) {
@@ -91,7 +92,29 @@ export default function PropertyRequirements() {
       return;
     }
 
-    // Save to localStorage
+    // Saved on the server so listings can be matched against it; keep the local copy too
+    try {
+      await apiRequest('POST', '/api/requirements', {
+        contactName: formData.name,
+        contactEmail: formData.email,
+        contactPhone: formData.phone,
+        budgetMin: String(formData.minBudget),
+        budgetMax: String(formData.maxBudget),
+        bedrooms: formData.bedrooms === 'studio' ? 0 : parseInt(formData.bedrooms, 10),
+        bathrooms: formData.bathrooms,
+        propertyType: formData.propertyTypes,
+        locations: formData.locations.split(',').map(location => location.trim()).filter(Boolean),
+        amenities: formData.amenities,
+        pets: { hasPets: formData.hasPets, details: formData.petDetails },
+        leaseTerm: formData.leaseLength,
+        moveInDate: formData.moveInDate || undefined,
+        additionalNotes: formData.additionalNotes || undefined,
+      });
+    } catch (err) {
+      toast.error('Could not save your requirements. Please try again.');
+      return;
+    }
+
     const requirements = JSON.parse(localStorage.getItem('choiceProperties_requirements') || '[]');
     requirements.push(formData);
     localStorage.setItem('choiceProperties_requirements', JSON.stringify(requirements));
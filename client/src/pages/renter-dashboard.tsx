@@ -6,6 +6,7 @@ import { useAuth } from '@/lib/auth-context';
 import { useApplications } from '@/hooks/use-applications';
 import { useFavorites } from '@/hooks/use-favorites';
 import { useSavedSearches } from '@/hooks/use-saved-searches';
+import { useRequirementMatches } from '@/hooks/use-requirement-matches';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -35,9 +36,12 @@ import {
   MessageSquare,
   Upload,
   CalendarClock,
+  Sparkles,
 } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { PaymentForm } from '@/components/payment-form';
+import { SavedSearchAlerts } from '@/components/saved-search-alerts';
+import { RequirementMatches } from '@/components/requirement-matches';
 import { RenterDashboardSkeleton } from '@/components/dashboard-skeleton';
 
 interface PropertyData {
@@ -105,7 +109,8 @@ export default function RenterDashboard() {
   // Fetch hooks
   const { applications, loading: appsLoading } = useApplications();
   const { favorites, toggleFavorite, loading: favoritesLoading } = useFavorites();
-  const { searches, loading: searchesLoading, deleteSearch } = useSavedSearches();
+  const { searches, loading: searchesLoading, deleteSearch, updateAlerts } = useSavedSearches();
+  const { data: requirementMatches = [] } = useRequirementMatches(!!user);
 
   // Fetch property details for favorites using v2 API
   useEffect(() => {
@@ -250,6 +255,7 @@ export default function RenterDashboard() {
     { id: 'applications', label: 'My Applications', icon: FileText, count: stats.applications },
     { id: 'favorites', label: 'Saved Properties', icon: Heart, count: stats.favorites },
     { id: 'searches', label: 'Saved Searches', icon: Search, count: stats.savedSearches },
+    { id: 'matches', label: 'Matches for You', icon: Sparkles, count: requirementMatches.length },
   ];
 
   return (
@@ -818,6 +824,13 @@ export default function RenterDashboard() {
           </div>
         )}
 
+        {/* Requirement Matches Section */}
+        {activeTab === 'matches' && (
+          <div className="space-y-4" data-testid="section-matches">
+            <RequirementMatches />
+          </div>
+        )}
+
         {/* Saved Searches Section */}
         {activeTab === 'searches' && (
           <div className="space-y-4" data-testid="section-searches">
@@ -919,6 +932,8 @@ export default function RenterDashboard() {
                         <p className="text-xs text-muted-foreground mt-3">
                           Saved {new Date(search.createdAt).toLocaleDateString()}
                         </p>
+
+                        <SavedSearchAlerts search={search} onUpdate={updateAlerts} />
                       </div>
 
                       {/* Right Actions */}
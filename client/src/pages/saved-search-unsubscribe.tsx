@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { Navbar } from "@/components/layout/navbar";
+import { Footer } from "@/components/layout/footer";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { BellOff, AlertCircle, Loader2 } from "lucide-react";
+import { updateMetaTags } from "@/lib/seo";
+
+type UnsubscribeState =
+  | { status: "loading" }
+  | { status: "done"; name: string }
+  | { status: "error"; message: string };
+
+export default function SavedSearchUnsubscribe() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<UnsubscribeState>({ status: "loading" });
+
+  useEffect(() => {
+    updateMetaTags({
+      title: "Unsubscribe - Choice Properties",
+      description: "Stop email alerts for a saved search.",
+    });
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = async () => {
+      try {
+        // Public endpoint: the token in the link is the only credential
+        const response = await fetch("/api/v2/saved-searches/unsubscribe", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const body = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          setState({ status: "error", message: body.error || "We couldn't process this unsubscribe link." });
+          return;
+        }
+
+        setState({ status: "done", name: body.data?.name || "your saved search" });
+      } catch {
+        setState({ status: "error", message: "We couldn't reach the server. Please try again." });
+      }
+    };
+
+    unsubscribe();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Navbar />
+      <main className="flex-1 flex items-center justify-center px-4 py-16">
+        <Card className="max-w-md w-full p-8 text-center" data-testid="card-saved-search-unsubscribe">
+          {state.status === "loading" && (
+            <>
+              <Loader2 className="h-10 w-10 mx-auto mb-4 animate-spin text-blue-600" />
+              <p className="text-muted-foreground">Updating your alert settings...</p>
+            </>
+          )}
+
+          {state.status === "done" && (
+            <>
+              <BellOff className="h-10 w-10 mx-auto mb-4 text-blue-600" />
+              <h1 className="text-2xl font-bold mb-2">You're unsubscribed</h1>
+              <p className="text-muted-foreground mb-6">
+                You won't receive any more alerts for "{state.name}". Your other saved searches are unchanged,
+                and you can turn alerts back on from your dashboard at any time.
+              </p>
+              <Link href="/renter-dashboard">
+                <Button data-testid="button-manage-searches">Manage saved searches</Button>
+              </Link>
+            </>
+          )}
+
+          {state.status === "error" && (
+            <>
+              <AlertCircle className="h-10 w-10 mx-auto mb-4 text-destructive" />
+              <h1 className="text-2xl font-bold mb-2">Link not valid</h1>
+              <p className="text-muted-foreground mb-6">{state.message}</p>
+              <Link href="/renter-dashboard">
+                <Button variant="outline">Go to dashboard</Button>
+              </Link>
+            </>
+          )}
+        </Card>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/lib/auth-context';
 import { useToast } from '@/hooks/use-toast';
 import { Timeline, type TimelineStep } from '@/components/timeline';
+import { ExecutedLeaseCard } from '@/components/executed-lease-card';
 import { updateMetaTags } from '@/lib/seo';
 import { Download, FileText, Home, CheckCircle, Clock, Eye, EyeOff, ExternalLink, MessageSquare, Check } from 'lucide-react';
 
@@ -291,6 +292,12 @@ export default function TenantLeaseDashboard() {
                           </div>
                         </div>
 
+                        {app.leaseSignedAt && (
+                          <div className="mt-4">
+                            <ExecutedLeaseCard applicationId={app.id} />
+                          </div>
+                        )}
+
                         {/* Inline Document Viewer */}
                         {previewLeaseId?.startsWith(app.id) && previewUrl && (
                           <div className="mt-4 border rounded-lg overflow-hidden bg-muted/20 animate-in fade-in slide-in-from-top-2 duration-300">
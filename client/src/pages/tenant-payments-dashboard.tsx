@@ -12,10 +12,12 @@ import { updateMetaTags } from '@/lib/seo';
 import { DollarSign, AlertCircle, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
 import { format } from 'date-fns';
 import { apiRequest, queryClient } from '@/lib/queryClient';
+import { LeaseLifecyclePanel } from '@/components/lease-lifecycle-panel';
+import { SecurityDepositLedger } from '@/components/security-deposit-ledger';
 
 interface Payment {
   id: string;
-  type: 'rent' | 'security_deposit';
+  type: 'rent' | 'security_deposit' | 'late_fee' | 'early_termination_fee';
   status: 'pending' | 'paid' | 'overdue' | 'verified';
   amount: number;
   dueDate: string;
@@ -205,6 +207,20 @@ export default function TenantPaymentsDashboard() {
 
         <div className="container max-w-6xl mx-auto px-4 pb-12">
 
+          {/* Lease term: renewal offers, notices to vacate and the security deposit */}
+          {applications?.some((app) => app.leaseId) && (
+            <div className="space-y-4 mb-8">
+              {applications
+                .filter((app) => app.leaseId)
+                .map((app) => (
+                  <div key={app.leaseId} className="space-y-4">
+                    <LeaseLifecyclePanel leaseId={app.leaseId} viewerRole="tenant" />
+                    <SecurityDepositLedger leaseId={app.leaseId} viewerRole="tenant" />
+                  </div>
+                ))}
+            </div>
+          )}
+
           {!hasPayments ? (
             <Card className="p-8 text-center">
               <DollarSign className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
@@ -265,7 +281,7 @@ export default function TenantPaymentsDashboard() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold">
-                                {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'}
+                                {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : payment.type === 'early_termination_fee' ? 'Early Termination Fee' : 'Security Deposit'}
                               </h3>
                               <Badge className={getStatusColor(payment.status)}>
                                 <span className="inline-flex items-center gap-1">
@@ -313,7 +329,7 @@ export default function TenantPaymentsDashboard() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold">
-                                {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'}
+                                {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : payment.type === 'early_termination_fee' ? 'Early Termination Fee' : 'Security Deposit'}
                               </h3>
                               <Badge className={getStatusColor(payment.status)}>
                                 <span className="inline-flex items-center gap-1">
@@ -359,7 +375,7 @@ export default function TenantPaymentsDashboard() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold text-muted-foreground">
-                                {payment.type === 'rent' ? 'Monthly Rent' : 'Security Deposit'}
+                                {payment.type === 'rent' ? 'Monthly Rent' : payment.type === 'late_fee' ? 'Late Fee' : payment.type === 'early_termination_fee' ? 'Early Termination Fee' : 'Security Deposit'}
                               </h3>
                               <Badge className={getStatusColor(payment.status)}>
                                 <span className="inline-flex items-center gap-1">
@@ -0,0 +1,128 @@
+-- Full-text property search with trigram fallback and location autocomplete
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE "properties" ADD COLUMN IF NOT EXISTS "neighborhood" text;
+ALTER TABLE "properties" ADD COLUMN IF NOT EXISTS "search_vector" tsvector;
+
+-- Weights: A title, B location, C amenities and type, D description
+CREATE OR REPLACE FUNCTION properties_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', concat_ws(' ', NEW.address, NEW.neighborhood, NEW.city, NEW.state, NEW.zip_code)), 'B') ||
+    setweight(to_tsvector('english', concat_ws(' ', NEW.property_type,
+      (SELECT string_agg(value, ' ') FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(NEW.amenities) = 'array' THEN NEW.amenities ELSE '[]'::jsonb END
+      ) AS value))), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'D');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "properties_search_vector_trigger" ON "properties";
+CREATE TRIGGER "properties_search_vector_trigger"
+  BEFORE INSERT OR UPDATE OF title, description, address, neighborhood, city, state, zip_code, property_type, amenities
+  ON "properties"
+  FOR EACH ROW EXECUTE FUNCTION properties_search_vector_update();
+
+-- Backfill existing rows through the trigger
+UPDATE "properties" SET "title" = "title";
+
+CREATE INDEX IF NOT EXISTS "idx_properties_search_vector" ON "properties" USING GIN ("search_vector");
+CREATE INDEX IF NOT EXISTS "idx_properties_address_trgm" ON "properties" USING GIN ("address" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_properties_title_trgm" ON "properties" USING GIN ("title" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_properties_city_trgm" ON "properties" USING GIN ("city" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_properties_neighborhood_trgm" ON "properties" USING GIN ("neighborhood" gin_trgm_ops);
+
+-- Ranked matches for a keyword query. Full-text hits come first, ordered by
+-- ts_rank_cd; trigram matches on title/address/neighborhood follow so that
+-- misspelled street names still find something. Highlights wrap matched words
+-- in {{ }} and are only produced for full-text hits. Only public listings
+-- (active, not hidden by moderation) are ranked unless include_hidden is set,
+-- which owner and admin views use to search drafts and pulled listings too.
+DROP FUNCTION IF EXISTS search_properties(text, integer);
+CREATE OR REPLACE FUNCTION search_properties(search_query text, max_results integer DEFAULT 200, include_hidden boolean DEFAULT false)
+RETURNS TABLE (id uuid, rank real, title_highlight text, snippet text)
+LANGUAGE sql STABLE AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  ),
+  full_text AS (
+    SELECT
+      p.id,
+      ts_rank_cd(p.search_vector, q.tsq, 32) AS rank,
+      ts_headline('english', p.title, q.tsq, 'StartSel={{, StopSel=}}, HighlightAll=true') AS title_highlight,
+      ts_headline('english', coalesce(p.description, ''), q.tsq,
+        'StartSel={{, StopSel=}}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "') AS snippet
+    FROM properties p, query q
+    WHERE p.search_vector @@ q.tsq
+      AND p.deleted_at IS NULL
+      AND (include_hidden OR (p.status = 'active' AND p.moderation_hidden_at IS NULL))
+    ORDER BY rank DESC
+    LIMIT max_results
+  ),
+  fuzzy AS (
+    SELECT
+      p.id,
+      greatest(
+        word_similarity(search_query, p.address),
+        word_similarity(search_query, p.title),
+        word_similarity(search_query, coalesce(p.neighborhood, ''))
+      ) AS rank
+    FROM properties p
+    WHERE p.deleted_at IS NULL
+      AND (include_hidden OR (p.status = 'active' AND p.moderation_hidden_at IS NULL))
+      AND (search_query <% p.address OR search_query <% p.title OR search_query <% p.neighborhood)
+      AND p.id NOT IN (SELECT f.id FROM full_text f)
+    ORDER BY rank DESC
+    LIMIT max_results
+  )
+  SELECT ranked.id, ranked.rank::real, ranked.title_highlight, ranked.snippet
+  FROM (
+    SELECT f.id, f.rank, f.title_highlight, f.snippet, 0 AS tier FROM full_text f
+    UNION ALL
+    SELECT z.id, z.rank, NULL, NULL, 1 AS tier FROM fuzzy z
+  ) ranked
+  ORDER BY ranked.tier, ranked.rank DESC
+  LIMIT max_results;
+$$;
+
+-- Autocomplete for the search box: cities and neighborhoods with their public
+-- listing counts, then individual listing addresses. Prefix matches rank above
+-- fuzzy ones.
+CREATE OR REPLACE FUNCTION property_search_suggestions(prefix text, max_results integer DEFAULT 8)
+RETURNS TABLE (kind text, label text, property_id uuid, listing_count bigint)
+LANGUAGE sql STABLE AS $$
+  WITH listings AS (
+    SELECT p.id, p.address, p.neighborhood, p.city, p.state
+    FROM properties p
+    WHERE p.status = 'active'
+      AND p.deleted_at IS NULL
+      AND p.moderation_hidden_at IS NULL
+  ),
+  pattern AS (
+    SELECT replace(replace(replace(prefix, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS starts_with
+  ),
+  candidates AS (
+    SELECT 'city' AS kind, concat_ws(', ', l.city, l.state) AS label, NULL::uuid AS property_id,
+      count(*) AS listing_count, bool_or(l.city ILIKE pt.starts_with) AS is_prefix, max(similarity(l.city, prefix)) AS score
+    FROM listings l, pattern pt
+    WHERE l.city ILIKE pt.starts_with OR l.city % prefix
+    GROUP BY l.city, l.state
+    UNION ALL
+    SELECT 'neighborhood', concat_ws(', ', l.neighborhood, l.city), NULL::uuid,
+      count(*), bool_or(l.neighborhood ILIKE pt.starts_with), max(similarity(l.neighborhood, prefix))
+    FROM listings l, pattern pt
+    WHERE l.neighborhood ILIKE pt.starts_with OR l.neighborhood % prefix
+    GROUP BY l.neighborhood, l.city
+    UNION ALL
+    SELECT 'address', concat_ws(', ', l.address, l.city), l.id,
+      1, l.address ILIKE pt.starts_with, word_similarity(prefix, l.address)
+    FROM listings l, pattern pt
+    WHERE l.address ILIKE pt.starts_with OR prefix <% l.address
+  )
+  SELECT c.kind, c.label, c.property_id, c.listing_count
+  FROM candidates c
+  ORDER BY c.is_prefix DESC, c.score DESC, c.listing_count DESC
+  LIMIT max_results;
+$$;
@@ -0,0 +1,59 @@
+-- Nearby places lookup over the imported points-of-interest dataset.
+-- Requires the points_of_interest and property_nearby_places tables from
+-- shared/schema.ts (npm run db:push) before this file is applied.
+
+CREATE INDEX IF NOT EXISTS "idx_points_of_interest_lat_lng" ON "points_of_interest" ("latitude", "longitude");
+CREATE INDEX IF NOT EXISTS "idx_points_of_interest_category" ON "points_of_interest" ("category");
+
+-- Closest points of interest per category within radius_miles of the origin.
+-- A bounding box narrows rows through the lat/lng index before the haversine
+-- distance (earth radius 3958.8 miles) is computed; per_category caps how many
+-- of the closest places each category returns.
+CREATE OR REPLACE FUNCTION nearby_points_of_interest(
+  origin_lat double precision,
+  origin_lng double precision,
+  radius_miles double precision DEFAULT 2,
+  per_category integer DEFAULT 5
+)
+RETURNS TABLE (
+  id uuid,
+  category text,
+  subtype text,
+  name text,
+  latitude double precision,
+  longitude double precision,
+  distance_miles double precision
+)
+LANGUAGE sql STABLE AS $$
+  WITH bounds AS (
+    SELECT
+      radius_miles / 69.0 AS lat_delta,
+      radius_miles / (69.0 * greatest(cos(radians(origin_lat)), 0.01)) AS lng_delta
+  ),
+  candidates AS (
+    SELECT
+      poi.id,
+      poi.category,
+      poi.subtype,
+      poi.name,
+      poi.latitude,
+      poi.longitude,
+      3958.8 * 2 * asin(sqrt(
+        power(sin(radians(poi.latitude - origin_lat) / 2), 2) +
+        cos(radians(origin_lat)) * cos(radians(poi.latitude)) *
+        power(sin(radians(poi.longitude - origin_lng) / 2), 2)
+      )) AS distance_miles
+    FROM points_of_interest poi, bounds b
+    WHERE poi.latitude BETWEEN origin_lat - b.lat_delta AND origin_lat + b.lat_delta
+      AND poi.longitude BETWEEN origin_lng - b.lng_delta AND origin_lng + b.lng_delta
+  ),
+  ranked AS (
+    SELECT c.*, row_number() OVER (PARTITION BY c.category ORDER BY c.distance_miles) AS category_rank
+    FROM candidates c
+    WHERE c.distance_miles <= radius_miles
+  )
+  SELECT r.id, r.category, r.subtype, r.name, r.latitude, r.longitude, r.distance_miles
+  FROM ranked r
+  WHERE r.category_rank <= per_category
+  ORDER BY r.category, r.distance_miles;
+$$;
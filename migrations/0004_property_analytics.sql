@@ -0,0 +1,42 @@
+-- Daily rollups for first-party listing analytics.
+-- Requires the property_events and property_analytics_daily tables from
+-- shared/schema.ts (npm run db:push) before this file is applied.
+
+CREATE INDEX IF NOT EXISTS "idx_property_events_occurred_at" ON "property_events" ("occurred_at");
+CREATE INDEX IF NOT EXISTS "idx_property_analytics_daily_property_date" ON "property_analytics_daily" ("property_id", "date");
+
+-- Recounts one UTC day of events into property_analytics_daily. Safe to run
+-- repeatedly for the same day; each run replaces that day's totals.
+CREATE OR REPLACE FUNCTION rollup_property_analytics(target_date date)
+RETURNS integer
+LANGUAGE plpgsql AS $$
+DECLARE
+  rolled_up integer;
+BEGIN
+  INSERT INTO property_analytics_daily
+    (property_id, date, views, gallery_opens, favorites, inquiry_starts, application_starts, updated_at)
+  SELECT
+    e.property_id,
+    target_date,
+    count(*) FILTER (WHERE e.event_type = 'view'),
+    count(*) FILTER (WHERE e.event_type = 'gallery_open'),
+    count(*) FILTER (WHERE e.event_type = 'favorite'),
+    count(*) FILTER (WHERE e.event_type = 'inquiry_start'),
+    count(*) FILTER (WHERE e.event_type = 'application_start'),
+    now()
+  FROM property_events e
+  WHERE e.occurred_at >= target_date::timestamp
+    AND e.occurred_at < (target_date + 1)::timestamp
+  GROUP BY e.property_id
+  ON CONFLICT (property_id, date) DO UPDATE SET
+    views = EXCLUDED.views,
+    gallery_opens = EXCLUDED.gallery_opens,
+    favorites = EXCLUDED.favorites,
+    inquiry_starts = EXCLUDED.inquiry_starts,
+    application_starts = EXCLUDED.application_starts,
+    updated_at = EXCLUDED.updated_at;
+
+  GET DIAGNOSTICS rolled_up = ROW_COUNT;
+  RETURN rolled_up;
+END
+$$;
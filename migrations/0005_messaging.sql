@@ -0,0 +1,43 @@
+-- Conversation list summaries without loading every message.
+
+CREATE INDEX IF NOT EXISTS "idx_messages_conversation_created" ON "messages" ("conversation_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "idx_conversation_participants_user" ON "conversation_participants" ("user_id");
+
+-- One row per conversation the viewer takes part in: how many messages from
+-- other participants arrived after the viewer's last_read_at, and the latest
+-- message for the list preview.
+CREATE OR REPLACE FUNCTION conversation_summaries(viewer uuid)
+RETURNS TABLE (
+  conversation_id uuid,
+  unread_count integer,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_at timestamp
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    cp.conversation_id,
+    (
+      SELECT count(*)::integer
+      FROM messages m
+      WHERE m.conversation_id = cp.conversation_id
+        AND m.sender_id IS DISTINCT FROM viewer
+        AND (cp.last_read_at IS NULL OR m.created_at > cp.last_read_at)
+    ) AS unread_count,
+    last.id,
+    last.content,
+    last.message_type,
+    last.sender_id,
+    last.created_at
+  FROM conversation_participants cp
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.content, m.message_type, m.sender_id, m.created_at
+    FROM messages m
+    WHERE m.conversation_id = cp.conversation_id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last ON true
+  WHERE cp.user_id = viewer;
+$$;
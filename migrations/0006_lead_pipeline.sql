@@ -0,0 +1,44 @@
+-- Lead pipeline metrics over inquiries.
+-- Requires the new inquiries columns and the lead_tasks table from
+-- shared/schema.ts (npm run db:push) before this file is applied.
+
+CREATE INDEX IF NOT EXISTS "idx_inquiries_agent_stage" ON "inquiries" ("agent_id", "stage");
+CREATE INDEX IF NOT EXISTS "idx_inquiries_property_email" ON "inquiries" ("property_id", "sender_email");
+CREATE INDEX IF NOT EXISTS "idx_lead_tasks_agent_due" ON "lead_tasks" ("agent_id", "due_at") WHERE "completed_at" IS NULL;
+
+-- Per agent and source, how many leads created since `since` reached each
+-- stage. A lead that skipped a stage (say, applied straight after the first
+-- reply) counts toward every stage before the one it reached, so the funnel
+-- never widens. Response time is summed in hours with its own count so the
+-- caller can average it across agents and sources exactly.
+CREATE OR REPLACE FUNCTION lead_pipeline_metrics(agent_ids uuid[], since timestamp)
+RETURNS TABLE (
+  agent_id uuid,
+  source text,
+  leads integer,
+  contacted integer,
+  tours_scheduled integer,
+  applied integer,
+  lost integer,
+  open integer,
+  responded integer,
+  response_hours_total double precision
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    i.agent_id,
+    i.source,
+    count(*)::integer,
+    count(*) FILTER (WHERE coalesce(i.contacted_at, i.tour_scheduled_at, i.applied_at) IS NOT NULL)::integer,
+    count(*) FILTER (WHERE coalesce(i.tour_scheduled_at, i.applied_at) IS NOT NULL)::integer,
+    count(*) FILTER (WHERE i.applied_at IS NOT NULL)::integer,
+    count(*) FILTER (WHERE i.stage = 'lost')::integer,
+    count(*) FILTER (WHERE i.stage NOT IN ('applied', 'lost'))::integer,
+    count(i.contacted_at)::integer,
+    coalesce(sum(extract(epoch FROM i.contacted_at - i.created_at) / 3600.0), 0)::double precision
+  FROM inquiries i
+  WHERE i.agent_id = ANY(agent_ids)
+    AND i.created_at >= since
+    AND i.deleted_at IS NULL
+  GROUP BY i.agent_id, i.source;
+$$;
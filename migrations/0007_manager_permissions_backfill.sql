@@ -0,0 +1,9 @@
+-- Property manager assignments made before per-permission grants have no
+-- permissions list. The permission checks now treat a missing list as no
+-- access, so those rows are given the full set they effectively had.
+-- Requires the permissions column on property_manager_assignments from
+-- shared/schema.ts (npm run db:push) before this file is applied.
+
+UPDATE "property_manager_assignments"
+SET "permissions" = '["view_properties", "manage_applications", "manage_leases", "manage_payments", "manage_maintenance", "messaging_access"]'::jsonb
+WHERE "permissions" IS NULL;
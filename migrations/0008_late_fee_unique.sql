@@ -0,0 +1,10 @@
+-- At most one late fee per rent payment, so overlapping overdue sweeps can't
+-- charge twice. The insert that loses the race gets a unique violation and
+-- the sweep uses the existing fee instead.
+-- Requires the parent_payment_id column on payments from shared/schema.ts
+-- (npm run db:push). Creating the index fails if duplicate late fees already
+-- exist; void the extra rows first.
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_payments_late_fee_parent"
+  ON "payments" ("parent_payment_id")
+  WHERE "type" = 'late_fee';
@@ -0,0 +1,9 @@
+import { generateVapidKeys } from '../server/push';
+
+// Prints a fresh VAPID key pair for .env. Rotating the keys invalidates every
+// existing browser subscription, so generate once per environment.
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log(`VITE_VAPID_PUBLIC_KEY=${publicKey}`);
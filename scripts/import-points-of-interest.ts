@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import pkg from 'pg';
+import { categorizeOsmTags, formatOsmAddress } from '../server/modules/nearby-places/osm-categories';
+const { Client } = pkg;
+
+// Loads a points-of-interest extract into points_of_interest.
+//
+// Usage: npm run poi:import -- <file.json> [--source osm]
+//
+// Accepts Overpass API output (`[out:json]` with `out center;`) or a GeoJSON
+// FeatureCollection exported from an OSM extract (e.g. osmium export). Features
+// whose tags don't map to a neighborhood category, or that have no name, are
+// skipped. Re-running with the same source updates existing rows in place.
+
+const BATCH_SIZE = 500;
+
+const databaseUrl = process.env.DATABASE_URL;
+
+if (!databaseUrl) {
+  console.error('❌ Error: Missing DATABASE_URL environment variable');
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const filePath = args.find((arg) => !arg.startsWith('--'));
+const sourceFlag = args.indexOf('--source');
+const source = sourceFlag >= 0 ? args[sourceFlag + 1] : 'osm';
+
+if (!filePath || !source) {
+  console.error('Usage: npm run poi:import -- <file.json> [--source osm]');
+  process.exit(1);
+}
+
+interface PointRow {
+  sourceId: string;
+  category: string;
+  subtype: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+}
+
+function toRow(sourceId: string, tags: Record<string, string>, latitude: number, longitude: number): PointRow | null {
+  const match = categorizeOsmTags(tags);
+  if (!match || !tags.name || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+  return {
+    sourceId,
+    category: match.category,
+    subtype: match.subtype,
+    name: tags.name,
+    latitude,
+    longitude,
+    address: formatOsmAddress(tags),
+  };
+}
+
+// Polygons and lines are placed at the average of their outer ring's vertices
+function centerOf(geometry: any): [number, number] | null {
+  if (!geometry) return null;
+  if (geometry.type === 'Point') return geometry.coordinates;
+
+  const ring =
+    geometry.type === 'Polygon' ? geometry.coordinates[0]
+    : geometry.type === 'MultiPolygon' ? geometry.coordinates[0]?.[0]
+    : geometry.type === 'LineString' ? geometry.coordinates
+    : null;
+  if (!ring?.length) return null;
+
+  const sum = ring.reduce((acc: [number, number], [lng, lat]: [number, number]) => [acc[0] + lng, acc[1] + lat], [0, 0]);
+  return [sum[0] / ring.length, sum[1] / ring.length];
+}
+
+function parsePoints(input: any): PointRow[] {
+  if (Array.isArray(input.elements)) {
+    return input.elements
+      .map((element: any) => {
+        const latitude = element.lat ?? element.center?.lat;
+        const longitude = element.lon ?? element.center?.lon;
+        return toRow(`${element.type}/${element.id}`, element.tags || {}, latitude, longitude);
+      })
+      .filter(Boolean);
+  }
+
+  if (input.type === 'FeatureCollection' && Array.isArray(input.features)) {
+    return input.features
+      .map((feature: any, index: number) => {
+        const properties = feature.properties || {};
+        const tags = properties.tags || properties;
+        const center = centerOf(feature.geometry);
+        const sourceId = String(feature.id ?? properties['@id'] ?? properties.id ?? `feature/${index}`);
+        return center ? toRow(sourceId, tags, center[1], center[0]) : null;
+      })
+      .filter(Boolean);
+  }
+
+  throw new Error('Unrecognized file format: expected Overpass JSON or a GeoJSON FeatureCollection');
+}
+
+async function importPointsOfInterest() {
+  const client = new Client({ connectionString: databaseUrl });
+
+  try {
+    console.log(`🌱 Importing points of interest from ${filePath}...`);
+    const parsed = parsePoints(JSON.parse(fs.readFileSync(filePath!, 'utf-8')));
+    // A feature listed twice would make the batched upsert touch the same row twice
+    const points = Array.from(new Map(parsed.map((point) => [point.sourceId, point])).values());
+    console.log(`Found ${points.length} categorized places`);
+
+    await client.connect();
+    await client.query('BEGIN');
+
+    for (let start = 0; start < points.length; start += BATCH_SIZE) {
+      const batch = points.slice(start, start + BATCH_SIZE);
+      const values: unknown[] = [];
+      const placeholders = batch.map((point, i) => {
+        values.push(source, point.sourceId, point.category, point.subtype, point.name, point.latitude, point.longitude, point.address);
+        const offset = i * 8;
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`;
+      });
+
+      await client.query(
+        `INSERT INTO points_of_interest (source, source_id, category, subtype, name, latitude, longitude, address)
+         VALUES ${placeholders.join(', ')}
+         ON CONFLICT (source, source_id) DO UPDATE SET
+           category = EXCLUDED.category,
+           subtype = EXCLUDED.subtype,
+           name = EXCLUDED.name,
+           latitude = EXCLUDED.latitude,
+           longitude = EXCLUDED.longitude,
+           address = EXCLUDED.address,
+           updated_at = now()`,
+        values
+      );
+    }
+
+    // Cached neighborhood results were computed from the old dataset
+    await client.query('DELETE FROM property_nearby_places');
+    await client.query('COMMIT');
+
+    console.log(`✅ Imported ${points.length} points of interest from source "${source}"`);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('❌ Import failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await client.end().catch(() => {});
+  }
+}
+
+importPointsOfInterest();
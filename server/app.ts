@@ -4,6 +4,7 @@ import express, { type Express, type Request, Response, NextFunction } from "exp
 import cors from "cors";
 import helmet from "helmet";
 import { registerRoutes } from "./routes";
+import { startJobScheduler } from "./modules/jobs";
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -160,5 +161,6 @@ export default async function runApp(
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobScheduler();
   });
 }
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { getSupabaseOrThrow, isSupabaseConfigured } from "./supabase";
 import { cache, CACHE_TTL } from "./cache";
 import { logSecurityEvent } from "./security/audit-logger";
+import type { PermissionGroup } from "@shared/schema";
 
 /* ------------------------------------------------ */
 /* Types */
@@ -321,4 +322,140 @@ export function requireApplicationReviewAccess() {
     }
     next();
   };
-}
\ No newline at end of file
+}
+
+/* ------------------------------------------------ */
+/* Property Manager Permissions */
+/* ------------------------------------------------ */
+
+type ManagedResource = "property" | "application" | "lease";
+
+const MANAGED_RESOURCE_MAP: Record<Exclude<ManagedResource, "property">, { table: string; param: string }> = {
+  application: { table: "applications", param: "id" },
+  lease: { table: "leases", param: "leaseId" },
+};
+
+interface ManagerAssignment {
+  id: string;
+  property_id: string;
+  permissions: PermissionGroup[] | null;
+}
+
+// A missing permissions list grants nothing; migrations/0007 gave older assignments the full set
+const grantsPermission = (permissions: PermissionGroup[] | null, permission: PermissionGroup) =>
+  !!permissions && permissions.includes(permission);
+
+export async function getManagerAssignment(
+  managerId: string,
+  propertyId: string
+): Promise<ManagerAssignment | null> {
+  const supabase = getSupabaseOrThrow();
+  const { data, error } = await supabase
+    .from("property_manager_assignments")
+    .select("id, property_id, permissions")
+    .eq("property_manager_id", managerId)
+    .eq("property_id", propertyId)
+    .is("revoked_at", null)
+    .maybeSingle<ManagerAssignment>();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function hasManagerPermission(
+  managerId: string,
+  propertyId: string,
+  permission: PermissionGroup
+): Promise<boolean> {
+  const assignment = await getManagerAssignment(managerId, propertyId);
+  return !!assignment && grantsPermission(assignment.permissions, permission);
+}
+
+// Properties on which the manager holds the given permission
+export async function getManagedPropertyIds(managerId: string, permission: PermissionGroup): Promise<string[]> {
+  const supabase = getSupabaseOrThrow();
+  const { data, error } = await supabase
+    .from("property_manager_assignments")
+    .select("id, property_id, permissions")
+    .eq("property_manager_id", managerId)
+    .is("revoked_at", null)
+    .returns<ManagerAssignment[]>();
+
+  if (error) throw error;
+  return (data || [])
+    .filter((assignment) => grantsPermission(assignment.permissions, permission))
+    .map((assignment) => assignment.property_id);
+}
+
+async function getManagedResourcePropertyId(
+  resource: ManagedResource,
+  req: AuthenticatedRequest
+): Promise<{ propertyId: string | null; found: boolean }> {
+  if (resource === "property") {
+    const propertyId = (req.params.propertyId || req.query.propertyId || null) as string | null;
+    return { propertyId, found: true };
+  }
+
+  const config = MANAGED_RESOURCE_MAP[resource];
+  const { data } = await getSupabaseOrThrow()
+    .from(config.table)
+    .select("property_id")
+    .eq("id", req.params[config.param])
+    .maybeSingle<{ property_id: string | null }>();
+
+  return { propertyId: data?.property_id ?? null, found: !!data };
+}
+
+// Gates a manager action on one permission of the manager's assignment to the
+// resource's property. Only property-level list endpoints called without a
+// propertyId pass through; they scope their results with getManagedPropertyIds.
+export function requireManagerPermission(permission: PermissionGroup, resource: ManagedResource) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    if (req.user.role !== "property_manager") {
+      return res.status(403).json({ error: "Only property managers can access this endpoint" });
+    }
+
+    try {
+      const { propertyId, found } = await getManagedResourcePropertyId(resource, req);
+
+      if (!found) {
+        return res.status(404).json({ error: "Resource not found" });
+      }
+
+      if (!propertyId) {
+        if (resource === "property") return next();
+        // An application or lease with no property can't be tied to any assignment
+        return res.status(403).json({ error: "Not assigned to this property" });
+      }
+
+      const assignment = await getManagerAssignment(req.user.id, propertyId);
+
+      if (!assignment) {
+        return res.status(403).json({ error: "Not assigned to this property" });
+      }
+
+      if (!grantsPermission(assignment.permissions, permission)) {
+        logSecurityEvent(
+          req.user.id,
+          "manager_permission",
+          false,
+          { permission, propertyId, path: req.path },
+          req
+        );
+        return res.status(403).json({
+          error: `Your assignment for this property does not include the ${permission} permission`,
+          code: "PERMISSION_DENIED",
+        });
+      }
+
+      next();
+    } catch (err) {
+      console.error("[AUTH] Manager permission check failed:", err);
+      return res.status(500).json({ error: "Permission verification failed" });
+    }
+  };
+}
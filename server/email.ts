@@ -529,3 +529,400 @@ export function getPaymentReceiptEmailTemplate(data: {
     </div>
   `;
 }
+
+// New maintenance request template (to landlord)
+export function getMaintenanceRequestEmailTemplate(data: {
+  recipientName: string;
+  tenantName: string;
+  propertyTitle: string;
+  title: string;
+  category: string;
+  urgency: string;
+  description: string;
+  entryPermission: boolean;
+}) {
+  const isEmergency = data.urgency === "emergency";
+  return `
+    <h2>${isEmergency ? "EMERGENCY " : ""}Maintenance Request Submitted</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>${escapeHtml(data.tenantName)} has submitted a maintenance request for <strong>${escapeHtml(data.propertyTitle)}</strong>.</p>
+    <p><strong>Issue:</strong> ${escapeHtml(data.title)}</p>
+    <p><strong>Category:</strong> ${escapeHtml(data.category.replace(/_/g, " "))}</p>
+    <p><strong>Urgency:</strong> ${escapeHtml(data.urgency)}</p>
+    <p><strong>Permission to enter:</strong> ${data.entryPermission ? "Yes" : "No - coordinate with tenant"}</p>
+    <p>${escapeHtml(data.description)}</p>
+    <p>Please log in to triage and assign this request.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Maintenance request update template (status, schedule, comments)
+export function getMaintenanceUpdateEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle: string;
+  title: string;
+  headline: string;
+  detail?: string;
+}) {
+  return `
+    <h2>Maintenance Request Update</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>There is an update on the maintenance request <strong>${escapeHtml(data.title)}</strong> for ${escapeHtml(data.propertyTitle)}.</p>
+    <p><strong>${escapeHtml(data.headline)}</strong></p>
+    ${data.detail ? `<p>${escapeHtml(data.detail)}</p>` : ""}
+    <p>Log in to view the full request history.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Tour booking confirmation template (sent to both the renter and the host)
+export function getTourConfirmationEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle: string;
+  propertyAddress: string;
+  when: string;
+  tourType: string;
+  meetingUrl?: string | null;
+  forHost?: boolean;
+  guestName?: string;
+  guestEmail?: string;
+  guestPhone?: string | null;
+  message?: string | null;
+}) {
+  const tourLabel = data.tourType === "video" ? "video tour" : "in-person tour";
+  return `
+    <h2>Tour Confirmed</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>${data.forHost
+      ? `A ${tourLabel} of <strong>${escapeHtml(data.propertyTitle)}</strong> has been booked.`
+      : `Your ${tourLabel} of <strong>${escapeHtml(data.propertyTitle)}</strong> is confirmed.`}</p>
+    <p><strong>When:</strong> ${escapeHtml(data.when)}</p>
+    ${data.tourType === "video"
+      ? (data.meetingUrl ? `<p><strong>Join link:</strong> <a href="${escapeHtml(data.meetingUrl)}">${escapeHtml(data.meetingUrl)}</a></p>` : "<p>The host will share a video link before the tour.</p>")
+      : `<p><strong>Where:</strong> ${escapeHtml(data.propertyAddress)}</p>`}
+    ${data.forHost ? `
+    <p><strong>Guest:</strong> ${escapeHtml(data.guestName || "")} (${escapeHtml(data.guestEmail || "")}${data.guestPhone ? `, ${escapeHtml(data.guestPhone)}` : ""})</p>
+    ${data.message ? `<p><strong>Message:</strong> ${escapeHtml(data.message)}</p>` : ""}
+    ` : "<p>If your plans change, please cancel from your dashboard so the slot can be offered to someone else.</p>"}
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Tour reminder template
+export function getTourReminderEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle: string;
+  propertyAddress: string;
+  when: string;
+  tourType: string;
+  meetingUrl?: string | null;
+}) {
+  return `
+    <h2>Tour Reminder</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>This is a reminder of your upcoming ${data.tourType === "video" ? "video tour" : "tour"} of <strong>${escapeHtml(data.propertyTitle)}</strong>.</p>
+    <p><strong>When:</strong> ${escapeHtml(data.when)}</p>
+    ${data.tourType === "video"
+      ? (data.meetingUrl ? `<p><strong>Join link:</strong> <a href="${escapeHtml(data.meetingUrl)}">${escapeHtml(data.meetingUrl)}</a></p>` : "")
+      : `<p><strong>Where:</strong> ${escapeHtml(data.propertyAddress)}</p>`}
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Tour cancellation template
+export function getTourCancelledEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle: string;
+  when: string;
+  reason?: string | null;
+}) {
+  return `
+    <h2>Tour Cancelled</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>The tour of <strong>${escapeHtml(data.propertyTitle)}</strong> scheduled for ${escapeHtml(data.when)} has been cancelled.</p>
+    ${data.reason ? `<p><strong>Reason:</strong> ${escapeHtml(data.reason)}</p>` : ""}
+    <p>You can book another time from the property page.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Dispute update template
+export function getDisputeUpdateEmailTemplate(data: {
+  recipientName: string;
+  subject: string;
+  propertyTitle?: string | null;
+  headline: string;
+  detail?: string;
+}) {
+  return `
+    <h2>Dispute Update</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>There is an update on the dispute <strong>${escapeHtml(data.subject)}</strong>${data.propertyTitle ? ` regarding ${escapeHtml(data.propertyTitle)}` : ""}.</p>
+    <p><strong>${escapeHtml(data.headline)}</strong></p>
+    ${data.detail ? `<blockquote style="border-left: 3px solid #ccc; padding-left: 12px; color: #555;">${escapeHtml(data.detail)}</blockquote>` : ""}
+    <p>Log in to view the full conversation and respond.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+export function getLeaseUpdateEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle?: string | null;
+  headline: string;
+  detail?: string;
+}) {
+  return `
+    <h2>Lease Update</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>There is an update on your lease${data.propertyTitle ? ` for <strong>${escapeHtml(data.propertyTitle)}</strong>` : ""}.</p>
+    <p><strong>${escapeHtml(data.headline)}</strong></p>
+    ${data.detail ? `<blockquote style="border-left: 3px solid #ccc; padding-left: 12px; color: #555;">${escapeHtml(data.detail)}</blockquote>` : ""}
+    <p>Log in to review the details and respond.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Document review result template
+export function getDocumentReviewEmailTemplate(data: {
+  applicantName: string;
+  propertyTitle: string;
+  documentLabel: string;
+  verified: boolean;
+  rejectionReason?: string | null;
+  expiresAt?: string | null;
+}) {
+  return `
+    <h2>${data.verified ? "Document Verified" : "Document Needs Attention"}</h2>
+    <p>Hi ${escapeHtml(data.applicantName)},</p>
+    ${data.verified
+      ? `<p>Your <strong>${escapeHtml(data.documentLabel)}</strong> for <strong>${escapeHtml(data.propertyTitle)}</strong> has been verified.</p>
+         ${data.expiresAt ? `<p>This verification is valid until ${escapeHtml(data.expiresAt)}.</p>` : ""}`
+      : `<p>We could not verify your <strong>${escapeHtml(data.documentLabel)}</strong> for <strong>${escapeHtml(data.propertyTitle)}</strong>.</p>
+         ${data.rejectionReason ? `<p><strong>Reason:</strong> ${escapeHtml(data.rejectionReason)}</p>` : ""}
+         <p>Please upload a replacement from your application page.</p>`}
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Daily/weekly digest of batched notifications
+export function getNotificationDigestEmailTemplate(data: {
+  recipientName: string;
+  frequency: "daily" | "weekly";
+  items: { subject: string; createdAt: string }[];
+}) {
+  const rows = data.items
+    .map((item) => `<li style="margin-bottom: 8px;">${escapeHtml(item.subject)} <span style="color: #888;">(${escapeHtml(item.createdAt)})</span></li>`)
+    .join("");
+
+  return `
+    <h2>Your ${data.frequency === "weekly" ? "Weekly" : "Daily"} Summary</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>Here is what happened since your last summary:</p>
+    <ul>${rows}</ul>
+    <p>Log in and open your notifications for the details. You can change how often you receive these summaries in your notification settings.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Overdue rent reminder template; tone escalates with each reminder level
+export function getRentOverdueEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle: string;
+  amount: string;
+  dueDate: string;
+  daysOverdue: number;
+  level: number;
+  lateFee?: string | null;
+  forLandlord?: boolean;
+}) {
+  const heading = data.forLandlord
+    ? "Tenant Rent Still Outstanding"
+    : data.level >= 3 ? "Final Notice: Rent Overdue" : data.level === 2 ? "Second Notice: Rent Overdue" : "Rent Payment Overdue";
+
+  return `
+    <h2>${heading}</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    ${data.forLandlord
+      ? `<p>Rent of <strong>$${escapeHtml(data.amount)}</strong> for <strong>${escapeHtml(data.propertyTitle)}</strong> was due on ${escapeHtml(data.dueDate)} and is now ${data.daysOverdue} days overdue. Your tenant has received ${data.level} reminders.</p>`
+      : `<p>Your rent payment of <strong>$${escapeHtml(data.amount)}</strong> for <strong>${escapeHtml(data.propertyTitle)}</strong> was due on ${escapeHtml(data.dueDate)} and is now ${data.daysOverdue} day${data.daysOverdue !== 1 ? "s" : ""} overdue.</p>
+         ${data.lateFee ? `<p>A late fee of <strong>$${escapeHtml(data.lateFee)}</strong> has been added to your account under the terms of your lease.</p>` : ""}
+         ${data.level >= 3
+           ? "<p><strong>Please pay immediately or contact your landlord.</strong> Your landlord has been notified of the outstanding balance.</p>"
+           : "<p>Please submit your payment as soon as possible to avoid further action.</p>"}`}
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+// Saved search alert listing new and price-dropped matches, with a per-search unsubscribe link
+export function getSavedSearchAlertEmailTemplate(data: {
+  recipientName: string;
+  searchName: string;
+  listings: { title: string; address: string; price: string; previousPrice?: string | null; url: string }[];
+  manageUrl: string;
+  unsubscribeUrl: string;
+}) {
+  const rows = data.listings
+    .map((listing) => `
+      <li style="margin-bottom: 12px;">
+        <a href="${escapeHtml(listing.url)}"><strong>${escapeHtml(listing.title)}</strong></a><br>
+        <span style="color: #555;">${escapeHtml(listing.address)}</span><br>
+        ${listing.previousPrice
+          ? `<strong>$${escapeHtml(listing.price)}/mo</strong> <span style="color: #16a34a;">reduced from <s>$${escapeHtml(listing.previousPrice)}</s></span>`
+          : `<strong>$${escapeHtml(listing.price)}/mo</strong> <span style="color: #2563eb;">new listing</span>`}
+      </li>`)
+    .join("");
+
+  return `
+    <h2>New Matches for "${escapeHtml(data.searchName)}"</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>${data.listings.length} listing${data.listings.length !== 1 ? "s" : ""} matching your saved search ${data.listings.length !== 1 ? "are" : "is"} now available:</p>
+    <ul style="padding-left: 18px;">${rows}</ul>
+    <p><a href="${escapeHtml(data.manageUrl)}">Manage your saved searches</a></p>
+    <p>Best regards,<br>Choice Properties Team</p>
+    <p style="font-size: 12px; color: #888;">You are receiving this because you turned on alerts for this search. <a href="${escapeHtml(data.unsubscribeUrl)}">Stop alerts for this search</a></p>
+  `;
+}
+
+export function getRequirementMatchEmailTemplate(data: {
+  recipientName: string;
+  listings: { title: string; address: string; price: string; score: number; url: string }[];
+  manageUrl: string;
+}) {
+  const rows = data.listings
+    .map((listing) => `
+      <li style="margin-bottom: 12px;">
+        <a href="${escapeHtml(listing.url)}"><strong>${escapeHtml(listing.title)}</strong></a><br>
+        <span style="color: #555;">${escapeHtml(listing.address)}</span><br>
+        <strong>$${escapeHtml(listing.price)}/mo</strong> <span style="color: #16a34a;">${listing.score}% match</span>
+      </li>`)
+    .join("");
+
+  return `
+    <h2>Listings That Match Your Requirements</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>We found ${data.listings.length} listing${data.listings.length !== 1 ? "s" : ""} that closely match${data.listings.length !== 1 ? "" : "es"} the budget, size and location you told us about:</p>
+    <ul style="padding-left: 18px;">${rows}</ul>
+    <p><a href="${escapeHtml(data.manageUrl)}">See all your matches</a></p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+export function getMatchingRenterEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle: string;
+  renters: { name: string; budgetMax: string | null; moveInDate: string | null; score: number }[];
+  viewUrl: string;
+}) {
+  const rows = data.renters
+    .map((renter) => `
+      <li style="margin-bottom: 8px;">
+        <strong>${escapeHtml(renter.name)}</strong> <span style="color: #16a34a;">${renter.score}% match</span><br>
+        <span style="color: #555;">
+          ${renter.budgetMax ? `Budget up to $${escapeHtml(renter.budgetMax)}/mo` : "No budget given"}${renter.moveInDate ? ` · Moving ${escapeHtml(renter.moveInDate)}` : ""}
+        </span>
+      </li>`)
+    .join("");
+
+  return `
+    <h2>Renters Looking for a Home Like Yours</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>${data.renters.length} renter${data.renters.length !== 1 ? "s" : ""} looking for a place closely match${data.renters.length !== 1 ? "" : "es"} <strong>${escapeHtml(data.propertyTitle)}</strong>:</p>
+    <ul style="padding-left: 18px;">${rows}</ul>
+    <p><a href="${escapeHtml(data.viewUrl)}">View matching renters and their contact details</a></p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+export function getManagerInvitationEmailTemplate(data: {
+  recipientName: string;
+  inviterName: string;
+  propertyTitle: string;
+  permissions: string[];
+  expiresAt: string;
+  acceptUrl: string;
+}) {
+  const permissionList = data.permissions
+    .map((permission) => `<li>${escapeHtml(permission.replace(/_/g, " "))}</li>`)
+    .join("");
+
+  return `
+    <h2>You've Been Invited to Manage a Property</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>${escapeHtml(data.inviterName)} has invited you to manage <strong>${escapeHtml(data.propertyTitle)}</strong> on Choice Properties with these permissions:</p>
+    <ul style="padding-left: 18px;">${permissionList}</ul>
+    <p><a href="${escapeHtml(data.acceptUrl)}" style="display: inline-block; padding: 10px 20px; background-color: #2563eb; color: white; text-decoration: none; border-radius: 5px;">Review Invitation</a></p>
+    <p>Sign in with a property manager account using this email address to accept. The invitation expires on ${escapeHtml(data.expiresAt)}.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+export function getManagerAssignmentEmailTemplate(data: {
+  recipientName: string;
+  propertyTitle: string;
+  headline: string;
+  detail?: string;
+}) {
+  return `
+    <h2>Property Manager Update</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>There is an update on the management of <strong>${escapeHtml(data.propertyTitle)}</strong>.</p>
+    <p><strong>${escapeHtml(data.headline)}</strong></p>
+    ${data.detail ? `<p style="color: #555;">${escapeHtml(data.detail)}</p>` : ""}
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+export function getNewMessageEmailTemplate(data: {
+  recipientName: string;
+  senderName: string;
+  preview: string;
+  attachmentCount: number;
+  propertyTitle?: string | null;
+  conversationUrl: string;
+}) {
+  const attachments = data.attachmentCount > 0
+    ? `<p style="color: #555;">${data.attachmentCount} attachment${data.attachmentCount === 1 ? "" : "s"} included.</p>`
+    : "";
+
+  return `
+    <h2>New Message from ${escapeHtml(data.senderName)}</h2>
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p>${escapeHtml(data.senderName)} sent you a message${data.propertyTitle ? ` about <strong>${escapeHtml(data.propertyTitle)}</strong>` : ""}:</p>
+    ${data.preview ? `<blockquote style="margin: 0 0 16px; padding: 10px 14px; border-left: 3px solid #2563eb; background-color: #f8fafc; white-space: pre-wrap;">${escapeHtml(data.preview)}</blockquote>` : ""}
+    ${attachments}
+    <p><a href="${escapeHtml(data.conversationUrl)}" style="display: inline-block; padding: 10px 20px; background-color: #2563eb; color: white; text-decoration: none; border-radius: 5px;">Reply</a></p>
+    <p style="color: #555;">We won't email you about further messages in this conversation until you've read it.</p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
+
+export function getLeadTasksDueEmailTemplate(data: {
+  agentName: string;
+  tasks: Array<{ title: string; leadName: string; propertyTitle?: string | null; dueAt: string }>;
+  leadsUrl: string;
+}) {
+  const rows = data.tasks
+    .map((task) => `
+      <tr>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;"><strong>${escapeHtml(task.title)}</strong></td>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(task.leadName)}${task.propertyTitle ? `<br><span style="color: #555;">${escapeHtml(task.propertyTitle)}</span>` : ""}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(task.dueAt)}</td>
+      </tr>`)
+    .join("");
+
+  return `
+    <h2>Follow-ups Due</h2>
+    <p>Hi ${escapeHtml(data.agentName)},</p>
+    <p>${data.tasks.length === 1 ? "A follow-up on one of your leads is" : `${data.tasks.length} follow-ups on your leads are`} now due:</p>
+    <table style="width: 100%; border-collapse: collapse; margin-bottom: 16px;">
+      <tr>
+        <th style="padding: 8px; text-align: left; border-bottom: 2px solid #e5e7eb;">Task</th>
+        <th style="padding: 8px; text-align: left; border-bottom: 2px solid #e5e7eb;">Lead</th>
+        <th style="padding: 8px; text-align: left; border-bottom: 2px solid #e5e7eb;">Due</th>
+      </tr>
+      ${rows}
+    </table>
+    <p><a href="${escapeHtml(data.leadsUrl)}" style="display: inline-block; padding: 10px 20px; background-color: #2563eb; color: white; text-decoration: none; border-radius: 5px;">Open Leads</a></p>
+    <p>Best regards,<br>Choice Properties Team</p>
+  `;
+}
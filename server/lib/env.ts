@@ -19,7 +19,7 @@ interface EnvConfig {
   key: string;
   required: boolean;
   description: string;
-  category: 'supabase' | 'imagekit' | 'email' | 'security' | 'app';
+  category: 'supabase' | 'imagekit' | 'email' | 'push' | 'security' | 'app';
 }
 
 const ENV_VARIABLES: EnvConfig[] = [
@@ -62,6 +62,19 @@ const ENV_VARIABLES: EnvConfig[] = [
     description: 'SendGrid API key for email notifications',
     category: 'email'
   },
+  // Web Push (Optional - generate with `npm run vapid:generate`)
+  {
+    key: 'VAPID_PUBLIC_KEY',
+    required: false,
+    description: 'VAPID public key for web push notifications',
+    category: 'push'
+  },
+  {
+    key: 'VAPID_PRIVATE_KEY',
+    required: false,
+    description: 'VAPID private key used to sign web push requests',
+    category: 'push'
+  },
   // Security (Optional but recommended)
   {
     key: 'ENCRYPTION_KEY',
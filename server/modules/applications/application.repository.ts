@@ -158,6 +158,103 @@ export async function updateApplicationStatus(
   return data;
 }
 
+export async function findExpiredApplications(now: string, statuses: readonly string[]) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase
+    .from("applications")
+    .select("id, status, status_history")
+    .lte("expires_at", now)
+    .is("expired_at", null)
+    .in("status", [...statuses])
+    .limit(200);
+
+  throwIfError(error, "findExpiredApplications");
+
+  return data ?? [];
+}
+
+// Guarded on the status read by the sweep so a decision made meanwhile is kept
+export async function expireApplication(id: string, currentStatus: string, updateData: Record<string, any>) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase
+    .from("applications")
+    .update(updateData)
+    .eq("id", id)
+    .eq("status", currentStatus)
+    .select("id");
+
+  throwIfError(error, "expireApplication");
+
+  return (data ?? []).length > 0;
+}
+
+/* ------------------------------------------------ */
+/* Documents */
+/* ------------------------------------------------ */
+
+export async function findDocumentVerifications(applicationId: string) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase
+    .from("document_verifications")
+    .select("id, document_type, status, expires_at, created_at")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: false });
+
+  throwIfError(error, "findDocumentVerifications");
+
+  return data ?? [];
+}
+
+/* ------------------------------------------------ */
+/* Screening */
+/* ------------------------------------------------ */
+
+export async function findScreeningReports(applicationId: string) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase
+    .from("screening_reports")
+    .select("id, screening_type, provider, status, summary, completed_at, created_at")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: false });
+
+  throwIfError(error, "findScreeningReports");
+
+  return data ?? [];
+}
+
+/* ------------------------------------------------ */
+/* Scoring rules */
+/* ------------------------------------------------ */
+
+// Property-specific rules win over the owner's portfolio default
+export async function findScoringRules(propertyId: string) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data: property, error: propertyError } = await supabase
+    .from("properties")
+    .select("owner_id")
+    .eq("id", propertyId)
+    .maybeSingle();
+
+  throwIfError(propertyError, "findScoringRules property");
+  if (!property?.owner_id) return null;
+
+  const { data, error } = await supabase
+    .from("scoring_rules")
+    .select("id, property_id, rules")
+    .eq("owner_id", property.owner_id)
+    .or(`property_id.eq.${propertyId},property_id.is.null`);
+
+  throwIfError(error, "findScoringRules");
+
+  const rules = data ?? [];
+  return rules.find((r: any) => r.property_id === propertyId) || rules.find((r: any) => !r.property_id) || null;
+}
+
 /* ------------------------------------------------ */
 /* Property & User */
 /* ------------------------------------------------ */
@@ -1,10 +1,21 @@
-import { insertApplicationSchema, type ApplicationStatus, type RejectionCategory } from "@shared/schema";
 import {
-  sendEmail,
-  getApplicationConfirmationEmailTemplate,
-} from "../../email";
-import { notifyOwnerOfNewApplication, sendStatusChangeNotification, notifyOwnerOfScoringComplete } from "../../notification-service";
+  insertApplicationSchema,
+  REQUIRED_APPLICATION_DOCUMENTS,
+  DEFAULT_SCORING_RULES,
+  OPEN_APPLICATION_STATUSES,
+  type ApplicationStatus,
+  type RejectionCategory,
+  type ScoringCategory,
+  type ScoringRulesConfig,
+} from "@shared/schema";
+import {
+  notifyOwnerOfNewApplication,
+  sendStatusChangeNotification,
+  notifyOwnerOfScoringComplete,
+  sendApplicationReceivedNotification,
+} from "../../notification-service";
 import * as applicationRepository from "./application.repository";
+import { InquiryService } from "../inquiries/inquiry.service";
 
 /* ------------------------------------------------ */
 /* Constants & Helpers */
@@ -21,6 +32,8 @@ const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
   approved: [],
   rejected: [],
   withdrawn: [],
+  // Set by the expiration job only, never by a user
+  expired: [],
 };
 
 export function isValidStatusTransition(
@@ -35,18 +48,87 @@ export function getValidNextStatuses(currentStatus: ApplicationStatus): Applicat
   return STATUS_TRANSITIONS[currentStatus] || [];
 }
 
+export interface DocumentStatusEntry {
+  uploaded: boolean;
+  verified: boolean;
+  status: string;
+  verificationId: string;
+  expiresAt: string | null;
+}
+
 /**
- * Mock Credit Bureau Integration
- * Structure ready for real provider (Experian/TransUnion/Plaid)
+ * Collapse document_verifications rows into the per-type documentStatus shape.
+ * Only the newest upload of each type counts, and a verified document past its
+ * expiry date is treated as expired even before the sweep marks it.
  */
-async function fetchCreditScore(ssn: string): Promise<number> {
-  // Simulate API latency
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Deterministic mock score based on SSN last digit for testing
-  const lastDigit = parseInt(ssn.slice(-1)) || 5;
-  const baseScore = 600 + (lastDigit * 20); // 600 - 800 range
-  return baseScore;
+export function summarizeDocumentVerifications(verifications: any[]): Record<string, DocumentStatusEntry> {
+  const summary: Record<string, DocumentStatusEntry> = {};
+  const sorted = [...verifications].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+  for (const verification of sorted) {
+    if (summary[verification.document_type]) continue;
+
+    const lapsed = verification.status === "verified" &&
+      verification.expires_at &&
+      new Date(verification.expires_at).getTime() < Date.now();
+    const status = lapsed ? "expired" : verification.status;
+
+    summary[verification.document_type] = {
+      uploaded: status === "pending" || status === "verified",
+      verified: status === "verified",
+      status,
+      verificationId: verification.id,
+      expiresAt: verification.expires_at || null,
+    };
+  }
+
+  return summary;
+}
+
+export interface ScreeningStatusEntry {
+  status: string;
+  provider: string;
+  result?: "clear" | "review";
+  score?: number;
+  recordCount?: number;
+  completedAt: string | null;
+}
+
+/**
+ * Collapse screening_reports rows into one entry per screening type,
+ * keeping only the newest report of each type.
+ */
+export function summarizeScreeningReports(reports: any[]): Record<string, ScreeningStatusEntry> {
+  const summary: Record<string, ScreeningStatusEntry> = {};
+  const sorted = [...reports].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+  for (const report of sorted) {
+    if (summary[report.screening_type]) continue;
+
+    summary[report.screening_type] = {
+      status: report.status,
+      provider: report.provider,
+      result: report.summary?.result,
+      score: report.summary?.score,
+      recordCount: report.summary?.recordCount,
+      completedAt: report.completed_at || null,
+    };
+  }
+
+  return summary;
+}
+
+export interface ScoreExplanation {
+  category: ScoringCategory | "screening";
+  points: number;
+  maxPoints: number;
+  rule: string;
+  detail: string;
+  flags: string[];
 }
 
 export interface ScoreBreakdown {
@@ -58,17 +140,63 @@ export interface ScoreBreakdown {
   totalScore: number;
   maxScore: number;
   flags: string[];
+  screening?: Record<string, ScreeningStatusEntry>;
+  rulesetId: string | null;
+  rulesetSource: "property" | "portfolio" | "default";
+  explanations: ScoreExplanation[];
 }
 
-export async function calculateApplicationScore(application: any): Promise<ScoreBreakdown> {
-  const flags: string[] = [];
-  let incomeScore = 0;
-  let creditScore = 0;
-  let rentalHistoryScore = 0;
-  let employmentScore = 0;
-  let documentsScore = 0;
+export interface ResolvedScoringRules {
+  id: string | null;
+  source: "property" | "portfolio" | "default";
+  rules: ScoringRulesConfig;
+}
+
+/**
+ * Pick the rules that apply to a property: its own rules first, then the
+ * owner's portfolio default, then the built-in defaults.
+ */
+export async function resolveScoringRules(propertyId?: string | null): Promise<ResolvedScoringRules> {
+  if (propertyId) {
+    const found = await applicationRepository.findScoringRules(propertyId);
+    if (found) {
+      return { id: found.id, source: found.property_id ? "property" : "portfolio", rules: found.rules };
+    }
+  }
 
-  // 1. Income score (max 25 points)
+  return { id: null, source: "default", rules: DEFAULT_SCORING_RULES };
+}
+
+// Durations are free text such as "3 years", "18 months" or "2 yrs 6 mos".
+// A bare number with no unit is read as years.
+function parseYears(value: unknown): number {
+  const str = (value || "0").toString();
+  const yearMatch = str.match(/(\d+)\s*(?:years?|yrs?)\b/i);
+  const monthMatch = str.match(/(\d+)\s*(?:months?|mos?)\b/i);
+
+  if (yearMatch || monthMatch) {
+    const years = (yearMatch ? parseInt(yearMatch[1]) : 0) + (monthMatch ? parseInt(monthMatch[1]) / 12 : 0);
+    return Math.round(years * 10) / 10;
+  }
+
+  const bareMatch = str.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+  return bareMatch ? parseFloat(bareMatch[1]) : 0;
+}
+
+export async function calculateApplicationScore(application: any, ruleset?: ResolvedScoringRules): Promise<ScoreBreakdown> {
+  const { id: rulesetId, source: rulesetSource, rules } =
+    ruleset || await resolveScoringRules(application.property_id || application.propertyId);
+  const explanations: ScoreExplanation[] = [];
+
+  // Each category scores a 0-1 fraction of its configured weight
+  const explain = (category: ScoringCategory, fraction: number, rule: string, detail: string, flags: string[] = []) => {
+    const maxPoints = rules.weights[category];
+    const points = Math.round(Math.max(0, Math.min(1, fraction)) * maxPoints);
+    explanations.push({ category, points, maxPoints, rule, detail, flags });
+    return points;
+  };
+
+  // 1. Income relative to rent
   const employment = application.employment || {};
   let monthlyIncome = parseFloat(employment.monthlyIncome || employment.income || 0);
   
@@ -80,97 +208,182 @@ export async function calculateApplicationScore(application: any): Promise<Score
     monthlyIncome += coApplicantIncome;
   }
 
-  if (monthlyIncome >= 5000) incomeScore = 25;
-  else if (monthlyIncome >= 4000) incomeScore = 22;
-  else if (monthlyIncome >= 3000) incomeScore = 18;
-  else if (monthlyIncome >= 2000) incomeScore = 12;
-  else if (monthlyIncome > 0) {
-    incomeScore = 5;
-    flags.push("low_income");
+  const rent = parseFloat(application.rentSnapshot || application.rent_snapshot || 0);
+  const { minIncomeToRent, targetIncomeToRent } = rules.income;
+  let incomeScore: number;
+
+  if (!(monthlyIncome > 0)) {
+    incomeScore = explain("income", 0, "income.provided", "No income was provided", ["no_income_provided"]);
+  } else if (!(rent > 0)) {
+    incomeScore = explain("income", 0.5, "income.rentUnknown", "Rent is unknown, so income could not be compared to it");
   } else {
-    flags.push("no_income_provided");
+    const ratio = monthlyIncome / rent;
+    const detail = `Income is ${ratio.toFixed(1)}x rent`;
+
+    if (ratio >= targetIncomeToRent) {
+      incomeScore = explain("income", 1, "income.targetIncomeToRent", `${detail}, meeting the ${targetIncomeToRent}x target`);
+    } else if (ratio >= minIncomeToRent) {
+      incomeScore = explain(
+        "income",
+        0.5 + 0.5 * (ratio - minIncomeToRent) / (targetIncomeToRent - minIncomeToRent),
+        "income.minIncomeToRent",
+        `${detail}, between the ${minIncomeToRent}x minimum and ${targetIncomeToRent}x target`
+      );
+    } else {
+      incomeScore = explain(
+        "income",
+        0.2 * ratio / minIncomeToRent,
+        "income.minIncomeToRent",
+        `${detail}, below the ${minIncomeToRent}x minimum`,
+        ["low_income"]
+      );
+    }
   }
 
-  // 2. Credit score (max 25 points) - Refactored to use mock API
-  const personalInfo = application.personalInfo || {};
-  const ssn = personalInfo.ssnProvided || personalInfo.ssn;
-  
-  if (ssn) {
-    const score = await fetchCreditScore(ssn.toString());
-    if (score >= 750) creditScore = 25;
-    else if (score >= 700) creditScore = 20;
-    else if (score >= 650) creditScore = 15;
-    else if (score >= 600) creditScore = 10;
-    else {
-      creditScore = 5;
-      flags.push("poor_credit_score");
+  // 2. Credit from the screening provider's credit report
+  const screening = application.id
+    ? summarizeScreeningReports(await applicationRepository.findScreeningReports(application.id))
+    : {};
+  const credit = screening.credit;
+  const { minScore, targetScore } = rules.credit;
+  let creditScore: number;
+
+  if (credit?.status === "completed" && typeof credit.score === "number") {
+    const score = credit.score;
+    if (score >= targetScore) {
+      creditScore = explain("credit", 1, "credit.targetScore", `Credit score ${score} meets the ${targetScore} target`);
+    } else if (score >= minScore) {
+      creditScore = explain(
+        "credit",
+        0.4 + 0.6 * (score - minScore) / (targetScore - minScore),
+        "credit.minScore",
+        `Credit score ${score} is between the ${minScore} minimum and ${targetScore} target`
+      );
+    } else {
+      creditScore = explain("credit", 0, "credit.minScore", `Credit score ${score} is below the ${minScore} minimum`, ["poor_credit_score"]);
     }
+  } else if (credit?.status === "pending") {
+    creditScore = explain("credit", 0, "screening.credit", "The credit check is still pending", ["credit_check_pending"]);
+  } else if (credit?.status === "failed") {
+    creditScore = explain("credit", 0, "screening.credit", "The credit check could not be completed", ["credit_check_failed"]);
   } else {
-    creditScore = 0;
-    flags.push("no_credit_check_authorization");
+    creditScore = explain("credit", 0, "screening.credit", "No credit check has been authorized", ["no_credit_check_authorization"]);
   }
 
-  // 3. Rental history score (max 20 points)
-  const rentalHistory = application.rentalHistory || {};
-  let yearsRentingValue = 0;
-  const rentalStr = (rentalHistory.yearsRenting || rentalHistory.duration || "0").toString();
-  const rentYearMatch = rentalStr.match(/(\d+)\s*(?:year|yr)?/i);
-  const rentMonthMatch = rentalStr.match(/(\d+)\s*(?:month|mo)?/);
-  
-  if (rentYearMatch) yearsRentingValue = parseInt(rentYearMatch[1]) || 0;
-  else if (rentMonthMatch) yearsRentingValue = Math.floor(parseInt(rentMonthMatch[1]) / 12) || 0;
-
-  if (yearsRentingValue >= 3) rentalHistoryScore = 20;
-  else if (yearsRentingValue >= 2) rentalHistoryScore = 16;
-  else if (yearsRentingValue >= 1) rentalHistoryScore = 12;
-  else if (yearsRentingValue > 0) rentalHistoryScore = 8;
-  else {
-    rentalHistoryScore = 5;
-    flags.push("limited_rental_history");
+  // 3. Rental history and eviction policy
+  const rentalHistory = application.rentalHistory || application.rental_history || {};
+  const yearsRenting = parseYears(rentalHistory.yearsRenting || rentalHistory.duration);
+  const { targetYears: targetRentalYears, evictionPolicy } = rules.rentalHistory;
+  const rentalFlags: string[] = [];
+  let rentalFraction: number;
+  let rentalRule: string;
+  let rentalDetail: string;
+
+  if (yearsRenting >= targetRentalYears) {
+    rentalFraction = 1;
+    rentalRule = "rentalHistory.targetYears";
+    rentalDetail = `${yearsRenting} years renting meets the ${targetRentalYears}-year target`;
+  } else {
+    rentalFraction = 0.25 + 0.75 * yearsRenting / targetRentalYears;
+    rentalRule = "rentalHistory.targetYears";
+    rentalDetail = `${yearsRenting} years renting, below the ${targetRentalYears}-year target`;
+    if (yearsRenting === 0) rentalFlags.push("limited_rental_history");
   }
 
-  if (rentalHistory.hasEviction || rentalHistory.evicted) {
-    rentalHistoryScore = Math.max(0, rentalHistoryScore - 15);
-    flags.push("previous_eviction");
+  const evictionRecords = screening.eviction?.recordCount || 0;
+  if (rentalHistory.hasEviction || rentalHistory.evicted || evictionRecords > 0) {
+    rentalFlags.push("previous_eviction");
+    rentalRule = "rentalHistory.evictionPolicy";
+
+    if (evictionPolicy === "reject") {
+      rentalFraction = 0;
+      rentalFlags.push("eviction_policy_violation");
+      rentalDetail += "; an eviction is on record and the policy does not accept evictions";
+    } else if (evictionPolicy === "penalize") {
+      rentalFraction *= 0.25;
+      rentalDetail += "; an eviction is on record, reducing this category by 75%";
+    } else {
+      rentalDetail += "; an eviction is on record but the policy does not score it";
+    }
   }
 
-  // 4. Employment score (max 15 points)
-  let employmentLengthYears = 0;
-  const employmentStr = (employment.yearsEmployed || employment.duration || employment.employmentLength || "0").toString();
-  const yearMatch = employmentStr.match(/(\d+)\s*(?:year|yr)?/i);
-  const monthMatch = employmentStr.match(/(\d+)\s*(?:month|mo)?/);
-  
-  if (yearMatch) employmentLengthYears = parseInt(yearMatch[1]) || 0;
-  else if (monthMatch) employmentLengthYears = Math.floor(parseInt(monthMatch[1]) / 12) || 0;
+  const rentalHistoryScore = explain("rentalHistory", rentalFraction, rentalRule, rentalDetail, rentalFlags);
 
+  // 4. Employment
+  const employmentLengthYears = parseYears(employment.yearsEmployed || employment.duration || employment.employmentLength);
+  const { targetYears: targetEmploymentYears } = rules.employment;
   const isEmployed = employment.employed !== false && employment.status !== "unemployed";
-  
-  if (isEmployed && employmentLengthYears >= 2) employmentScore = 15;
-  else if (isEmployed && employmentLengthYears >= 1) employmentScore = 12;
-  else if (isEmployed) employmentScore = 8;
-  else {
-    employmentScore = 3;
-    flags.push("unemployed");
+  let employmentScore: number;
+
+  if (!isEmployed) {
+    employmentScore = explain("employment", 0.2, "employment.status", "The applicant is not currently employed", ["unemployed"]);
+  } else if (employmentLengthYears >= targetEmploymentYears) {
+    employmentScore = explain(
+      "employment",
+      1,
+      "employment.targetYears",
+      `${employmentLengthYears} years employed meets the ${targetEmploymentYears}-year target`
+    );
+  } else {
+    employmentScore = explain(
+      "employment",
+      0.5 + 0.5 * employmentLengthYears / targetEmploymentYears,
+      "employment.targetYears",
+      `${employmentLengthYears} years employed, below the ${targetEmploymentYears}-year target`
+    );
   }
 
-  // 5. Documents score (max 15 points)
-  const docStatus = application.documentStatus || {};
-  const requiredDocs = ["id", "proof_of_income", "employment_verification"];
+  // 5. Documents
+  // Reviewed uploads take precedence over the self-reported documentStatus JSON
+  const verifications = application.id
+    ? await applicationRepository.findDocumentVerifications(application.id)
+    : [];
+  const docStatus = verifications.length > 0
+    ? summarizeDocumentVerifications(verifications)
+    : application.documentStatus || application.document_status || {};
+  const documentFlags: string[] = [];
   let uploadedDocs = 0;
   let verifiedDocs = 0;
 
-  for (const doc of requiredDocs) {
+  for (const doc of REQUIRED_APPLICATION_DOCUMENTS) {
     if (docStatus[doc]?.uploaded) uploadedDocs++;
     if (docStatus[doc]?.verified) verifiedDocs++;
+    if (docStatus[doc]?.status === "rejected" && !documentFlags.includes("rejected_documents")) {
+      documentFlags.push("rejected_documents");
+    }
+    if (docStatus[doc]?.status === "expired" && !documentFlags.includes("expired_documents")) {
+      documentFlags.push("expired_documents");
+    }
+  }
+
+  const requiredCount = REQUIRED_APPLICATION_DOCUMENTS.length;
+  let documentsScore: number;
+
+  if (verifiedDocs >= requiredCount) {
+    documentsScore = explain("documents", 1, "documents.required", "All required documents are verified", documentFlags);
+  } else if (uploadedDocs > 0) {
+    documentsScore = explain(
+      "documents",
+      0.8 * uploadedDocs / requiredCount,
+      "documents.required",
+      `${uploadedDocs} of ${requiredCount} required documents uploaded, ${verifiedDocs} verified`,
+      documentFlags
+    );
+  } else {
+    documentsScore = explain("documents", 0, "documents.required", "No required documents uploaded", [...documentFlags, "missing_documents"]);
   }
 
-  if (verifiedDocs >= 3) documentsScore = 15;
-  else if (uploadedDocs >= 3) documentsScore = 12;
-  else if (uploadedDocs >= 2) documentsScore = 8;
-  else if (uploadedDocs >= 1) documentsScore = 5;
-  else {
-    documentsScore = 0;
-    flags.push("missing_documents");
+  // Criminal history does not change the score; it is surfaced for the reviewer to weigh
+  const criminalRecords = screening.criminal?.recordCount || 0;
+  if (criminalRecords > 0) {
+    explanations.push({
+      category: "screening",
+      points: 0,
+      maxPoints: 0,
+      rule: "screening.criminal",
+      detail: `${criminalRecords} criminal record${criminalRecords === 1 ? "" : "s"} found; not scored`,
+      flags: ["criminal_record_found"],
+    });
   }
 
   return {
@@ -181,10 +394,29 @@ export async function calculateApplicationScore(application: any): Promise<Score
     documentsScore,
     totalScore: incomeScore + creditScore + rentalHistoryScore + employmentScore + documentsScore,
     maxScore: 100,
-    flags,
+    flags: explanations.flatMap((explanation) => explanation.flags),
+    ...(Object.keys(screening).length > 0 ? { screening } : {}),
+    rulesetId,
+    rulesetSource,
+    explanations,
   };
 }
 
+// Recalculate and persist the score, e.g. after a document review changes the inputs
+export async function refreshApplicationScore(applicationId: string): Promise<ScoreBreakdown | null> {
+  const application = await applicationRepository.findApplicationById(applicationId);
+  if (!application) return null;
+
+  const scoreBreakdown = await calculateApplicationScore(application);
+  await applicationRepository.updateApplication(applicationId, {
+    score: scoreBreakdown.totalScore,
+    score_breakdown: scoreBreakdown,
+    scored_at: new Date().toISOString()
+  });
+
+  return scoreBreakdown;
+}
+
 /* ------------------------------------------------ */
 /* Types */
 /* ------------------------------------------------ */
@@ -345,14 +577,7 @@ export async function createApplication(
   /* ------------------------------------------------ */
 
   if (user?.email) {
-    sendEmail({
-      to: user.email,
-      subject: "Your Application Has Been Received",
-      html: getApplicationConfirmationEmailTemplate({
-        applicantName: user.full_name || "Applicant",
-        propertyTitle: property?.title || "Property",
-      }),
-    }).catch((err) =>
+    sendApplicationReceivedNotification(application.id, user, property?.title || "Property").catch((err) =>
       console.error("[APPLICATION] Confirmation email failed:", err)
     );
   }
@@ -361,6 +586,14 @@ export async function createApplication(
     console.error("[APPLICATION] Owner notification failed:", err)
   );
 
+  // Credit the agent's lead pipeline with the conversion
+  new InquiryService()
+    .linkNewApplication(
+      { id: application.id, property_id: propertyId as string, user_id: input.userId },
+      user?.email ?? null
+    )
+    .catch((err) => console.error("[APPLICATION] Lead linking failed:", err));
+
   return { data: application };
 }
 
@@ -558,4 +791,39 @@ export async function updateStatus(
   }).catch(console.error);
 
   return { success: true, data };
-}
\ No newline at end of file
+}
+
+/* ------------------------------------------------ */
+/* Expiration */
+/* ------------------------------------------------ */
+
+// Run by the job scheduler; moves undecided applications past expires_at to "expired"
+export async function expireStaleApplications(): Promise<{ expired: number }> {
+  const now = new Date().toISOString();
+  const applications = await applicationRepository.findExpiredApplications(now, OPEN_APPLICATION_STATUSES);
+  let expired = 0;
+
+  for (const application of applications) {
+    const historyEntry = {
+      status: "expired",
+      changedAt: now,
+      changedBy: "system",
+      reason: "Application expired before a decision was made",
+    };
+
+    const updated = await applicationRepository.expireApplication(application.id, application.status, {
+      status: "expired",
+      previous_status: application.status,
+      status_history: [...(application.status_history || []), historyEntry],
+      expired_at: now,
+      updated_at: now,
+    });
+
+    if (!updated) continue;
+    expired++;
+
+    sendStatusChangeNotification(application.id, "expired").catch(console.error);
+  }
+
+  return { expired };
+}
@@ -0,0 +1,171 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const DISPUTE_SELECT = `
+  *,
+  properties(id, title, address, owner_id),
+  applications(id, status, user_id),
+  initiator:users!disputes_initiator_id_fkey(id, full_name, email, role),
+  respondent:users!disputes_respondent_id_fkey(id, full_name, email, role),
+  assignee:users!disputes_assigned_to_fkey(id, full_name, email)
+`;
+
+export interface DisputeQueueFilters {
+  status?: string;
+  statuses?: string[];
+  priority?: string;
+  disputeType?: string;
+  assignedTo?: string;
+  unassigned?: boolean;
+  limit: number;
+}
+
+export class DisputeRepository {
+  async getApplicationById(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id, user_id, property_id, properties(id, owner_id, listing_agent_id)")
+      .eq("id", applicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getPropertyById(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, owner_id, listing_agent_id")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // A user is connected to a property if they hold a lease or have applied to it
+  async hasPropertyRelationship(userId: string, propertyId: string): Promise<boolean> {
+    const supabase = getSupabaseOrThrow();
+    const [lease, application] = await Promise.all([
+      supabase.from("leases").select("id").eq("property_id", propertyId).eq("tenant_id", userId).limit(1),
+      supabase.from("applications").select("id").eq("property_id", propertyId).eq("user_id", userId).limit(1),
+    ]);
+
+    if (lease.error) throw lease.error;
+    if (application.error) throw application.error;
+    return (lease.data || []).length > 0 || (application.data || []).length > 0;
+  }
+
+  async getUserRole(userId: string): Promise<string | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.role || null;
+  }
+
+  async createDispute(disputeData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("disputes")
+      .insert([disputeData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getDisputeById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("disputes")
+      .select(DISPUTE_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listDisputesForUser(userId: string, status?: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("disputes")
+      .select(DISPUTE_SELECT)
+      .or(`initiator_id.eq.${userId},respondent_id.eq.${userId}`);
+
+    if (status) query = query.eq("status", status);
+
+    const { data, error } = await query.order("updated_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listQueue(filters: DisputeQueueFilters): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase.from("disputes").select(DISPUTE_SELECT);
+
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.statuses) query = query.in("status", filters.statuses);
+    if (filters.priority) query = query.eq("priority", filters.priority);
+    if (filters.disputeType) query = query.eq("dispute_type", filters.disputeType);
+    if (filters.assignedTo) query = query.eq("assigned_to", filters.assignedTo);
+    if (filters.unassigned) query = query.is("assigned_to", null);
+
+    const { data, error } = await query
+      .order("created_at", { ascending: true })
+      .limit(filters.limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateDispute(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("disputes")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getMessages(disputeId: string, includeInternal: boolean): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("dispute_messages")
+      .select("*, users(id, full_name, role)")
+      .eq("dispute_id", disputeId);
+
+    if (!includeInternal) {
+      query = query.eq("is_internal", false);
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createMessage(messageData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("dispute_messages")
+      .insert([messageData])
+      .select("*, users(id, full_name, role)")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
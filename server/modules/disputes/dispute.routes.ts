@@ -0,0 +1,136 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import {
+  openDisputeSchema,
+  disputeMessageRequestSchema,
+  disputeStatusUpdateSchema,
+  disputeAssignSchema,
+} from "@shared/schema";
+import { DisputeService } from "./dispute.service";
+
+const disputeService = new DisputeService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[DISPUTES] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerDisputeRoutes(app: Express): void {
+  // POST /api/v2/disputes - Tenant, applicant or landlord opens a dispute
+  app.post("/api/v2/disputes", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = openDisputeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await disputeService.openDispute(validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Dispute opened"));
+    } catch (err: any) {
+      return handleError(res, err, "Open", "Failed to open dispute");
+    }
+  });
+
+  // GET /api/v2/disputes - Disputes the current user is a party to
+  app.get("/api/v2/disputes", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await disputeService.listMyDisputes(req.user!.id, req.query.status as string | undefined);
+
+      return res.json(success(result, "Disputes retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve disputes");
+    }
+  });
+
+  // GET /api/v2/disputes/:id - Dispute detail with message thread
+  app.get("/api/v2/disputes/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await disputeService.getDispute(req.params.id, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Dispute retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to retrieve dispute");
+    }
+  });
+
+  // POST /api/v2/disputes/:id/messages - Reply to the thread or add an internal note
+  app.post("/api/v2/disputes/:id/messages", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = disputeMessageRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await disputeService.addMessage(req.params.id, validation.data, req.user!.id, req.user!.role);
+
+      return res.status(201).json(success(result, "Message added"));
+    } catch (err: any) {
+      return handleError(res, err, "Message", "Failed to add message");
+    }
+  });
+
+  // PATCH /api/v2/disputes/:id/status - Admin transition, or initiator withdrawal
+  app.patch("/api/v2/disputes/:id/status", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = disputeStatusUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await disputeService.updateStatus(
+        req.params.id,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Dispute status updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Status update", "Failed to update dispute status");
+    }
+  });
+
+  // GET /api/v2/admin/disputes - Prioritized admin work queue
+  app.get("/api/v2/admin/disputes", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+
+      const result = await disputeService.getQueue(req.user!.id, {
+        status: req.query.status as string | undefined,
+        priority: req.query.priority as string | undefined,
+        disputeType: req.query.type as string | undefined,
+        assignment: req.query.assignment as string | undefined,
+        page,
+        limit,
+      });
+
+      return res.json(success(result, "Dispute queue retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Queue", "Failed to retrieve dispute queue");
+    }
+  });
+
+  // PATCH /api/v2/admin/disputes/:id/assign - Assign an admin and/or set priority
+  app.patch("/api/v2/admin/disputes/:id/assign", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = disputeAssignSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await disputeService.assign(req.params.id, validation.data, req.user!.id, req);
+
+      return res.json(success(result, "Dispute assignment updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Assign", "Failed to assign dispute");
+    }
+  });
+}
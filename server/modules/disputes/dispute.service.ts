@@ -0,0 +1,352 @@
+import {
+  DISPUTE_STATUS_TRANSITIONS,
+  DISPUTE_PRIORITIES,
+  type OpenDispute,
+  type DisputeStatusUpdate,
+  type DisputeAssign,
+} from "@shared/schema";
+import { DisputeRepository } from "./dispute.repository";
+import { logAuditEvent } from "../../security/audit-logger";
+import { sendDisputeUpdateNotification } from "../../notification-service";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Statuses that still need admin attention and make up the working queue
+const ACTIVE_STATUSES = ["open", "under_investigation", "awaiting_response", "escalated"];
+
+// Parties may withdraw their own dispute until an admin has resolved it
+const INITIATOR_CLOSABLE_STATUSES = ["open", "under_investigation", "awaiting_response", "escalated"];
+
+// Upper bound on rows pulled for in-memory priority ordering of the queue
+const QUEUE_FETCH_LIMIT = 500;
+
+export function isValidDisputeTransition(currentStatus: string, newStatus: string): boolean {
+  return (DISPUTE_STATUS_TRANSITIONS[currentStatus] || []).includes(newStatus);
+}
+
+export function getValidNextDisputeStatuses(currentStatus: string): string[] {
+  return DISPUTE_STATUS_TRANSITIONS[currentStatus] || [];
+}
+
+function priorityRank(priority: string | null): number {
+  const index = DISPUTE_PRIORITIES.indexOf((priority || "normal") as any);
+  return index === -1 ? 1 : index;
+}
+
+export class DisputeService {
+  private repository: DisputeRepository;
+
+  constructor() {
+    this.repository = new DisputeRepository();
+  }
+
+  private async getDisputeWithAccess(id: string, userId: string, userRole: string) {
+    const dispute = await this.repository.getDisputeById(id);
+
+    if (!dispute) {
+      throw { status: 404, message: "Dispute not found" };
+    }
+
+    const isAdmin = ADMIN_ROLES.includes(userRole);
+    const isParty = dispute.initiator_id === userId || dispute.respondent_id === userId;
+
+    if (!isAdmin && !isParty) {
+      throw { status: 403, message: "Not authorized to access this dispute" };
+    }
+
+    return { dispute, isAdmin, isParty };
+  }
+
+  // Work out which property the dispute concerns and who the other party is
+  private async resolveParties(input: OpenDispute, userId: string) {
+    if (input.applicationId) {
+      const application = await this.repository.getApplicationById(input.applicationId);
+
+      if (!application) {
+        throw { status: 404, message: "Application not found" };
+      }
+
+      const property = application.properties as any;
+      const isApplicant = application.user_id === userId;
+      const isLandlordSide = property?.owner_id === userId || property?.listing_agent_id === userId;
+
+      if (!isApplicant && !isLandlordSide) {
+        throw { status: 403, message: "You are not a party to this application" };
+      }
+
+      return {
+        propertyId: application.property_id,
+        applicationId: application.id,
+        respondentId: isApplicant ? property?.owner_id || null : application.user_id,
+      };
+    }
+
+    const property = await this.repository.getPropertyById(input.propertyId!);
+
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    const isLandlordSide = property.owner_id === userId || property.listing_agent_id === userId;
+
+    if (isLandlordSide) {
+      if (!input.respondentId) {
+        throw { status: 400, message: "Select the tenant or applicant this dispute is with" };
+      }
+      if (!(await this.repository.hasPropertyRelationship(input.respondentId, property.id))) {
+        throw { status: 400, message: "The respondent has no lease or application on this property" };
+      }
+      return { propertyId: property.id, applicationId: null, respondentId: input.respondentId };
+    }
+
+    if (!(await this.repository.hasPropertyRelationship(userId, property.id))) {
+      throw { status: 403, message: "You can only open disputes on properties you rent or applied to" };
+    }
+
+    return { propertyId: property.id, applicationId: null, respondentId: property.owner_id };
+  }
+
+  async openDispute(input: OpenDispute, userId: string, req: any): Promise<any> {
+    const parties = await this.resolveParties(input, userId);
+
+    if (parties.respondentId === userId) {
+      throw { status: 400, message: "You cannot open a dispute against yourself" };
+    }
+
+    const dispute = await this.repository.createDispute({
+      initiator_id: userId,
+      respondent_id: parties.respondentId,
+      property_id: parties.propertyId,
+      application_id: parties.applicationId,
+      dispute_type: input.disputeType,
+      subject: input.subject,
+      description: input.description,
+      status: "open",
+      priority: "normal",
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "dispute",
+      resourceId: dispute.id,
+      newData: { disputeType: input.disputeType, propertyId: parties.propertyId, applicationId: parties.applicationId },
+      req,
+    });
+
+    if (dispute.respondent_id) {
+      sendDisputeUpdateNotification(dispute.id, dispute.respondent_id, "A dispute has been opened with you").catch((err) =>
+        console.error("[DISPUTES] Respondent notification failed:", err)
+      );
+    }
+
+    return dispute;
+  }
+
+  async listMyDisputes(userId: string, status?: string): Promise<any[]> {
+    return this.repository.listDisputesForUser(userId, status);
+  }
+
+  async getDispute(id: string, userId: string, userRole: string): Promise<any> {
+    const { dispute, isAdmin } = await this.getDisputeWithAccess(id, userId, userRole);
+    const messages = await this.repository.getMessages(id, isAdmin);
+
+    return {
+      ...dispute,
+      messages,
+      validNextStatuses: isAdmin ? getValidNextDisputeStatuses(dispute.status) : [],
+      permissions: {
+        canManage: isAdmin,
+        canWithdraw: dispute.initiator_id === userId && INITIATOR_CLOSABLE_STATUSES.includes(dispute.status),
+      },
+    };
+  }
+
+  async addMessage(
+    id: string,
+    input: { message: string; isInternal: boolean; attachments?: string[] },
+    userId: string,
+    userRole: string
+  ): Promise<any> {
+    const { dispute, isAdmin } = await this.getDisputeWithAccess(id, userId, userRole);
+
+    if (input.isInternal && !isAdmin) {
+      throw { status: 403, message: "Only admins can add internal notes" };
+    }
+
+    if (dispute.status === "closed") {
+      throw { status: 400, message: "This dispute is closed" };
+    }
+
+    const message = await this.repository.createMessage({
+      dispute_id: id,
+      sender_id: userId,
+      message: input.message,
+      is_internal: input.isInternal,
+      attachments: input.attachments || null,
+    });
+
+    // A party replying to an information request puts the dispute back with the
+    // investigator; any message also bumps updated_at so the thread sorts to the top
+    await this.repository.updateDispute(
+      id,
+      !isAdmin && dispute.status === "awaiting_response" ? { status: "under_investigation" } : {}
+    );
+
+    if (!input.isInternal) {
+      const recipients = [dispute.initiator_id, dispute.respondent_id, dispute.assigned_to]
+        .filter((recipientId): recipientId is string => !!recipientId && recipientId !== userId);
+
+      for (const recipientId of Array.from(new Set(recipients))) {
+        sendDisputeUpdateNotification(id, recipientId, "New message on your dispute", input.message).catch((err) =>
+          console.error("[DISPUTES] Message notification failed:", err)
+        );
+      }
+    }
+
+    return message;
+  }
+
+  async updateStatus(id: string, input: DisputeStatusUpdate, userId: string, userRole: string, req: any): Promise<any> {
+    const { dispute, isAdmin } = await this.getDisputeWithAccess(id, userId, userRole);
+
+    if (!isAdmin) {
+      const isWithdrawal = input.status === "closed" &&
+        dispute.initiator_id === userId &&
+        INITIATOR_CLOSABLE_STATUSES.includes(dispute.status);
+
+      if (!isWithdrawal) {
+        throw { status: 403, message: "Only admins can change the status of a dispute" };
+      }
+    }
+
+    if (!isValidDisputeTransition(dispute.status, input.status)) {
+      throw {
+        status: 400,
+        message: `Invalid status transition from ${dispute.status} to ${input.status}`,
+      };
+    }
+
+    if (input.status === "resolved" && !input.resolution && !dispute.resolution) {
+      throw { status: 400, message: "A resolution summary is required to resolve a dispute" };
+    }
+
+    const updates: Record<string, any> = { status: input.status };
+    if (input.resolution) updates.resolution = input.resolution;
+    if (input.status === "resolved") {
+      updates.resolved_by = userId;
+      updates.resolved_at = new Date().toISOString();
+    }
+
+    const updated = await this.repository.updateDispute(id, updates);
+
+    if (input.note) {
+      await this.repository.createMessage({
+        dispute_id: id,
+        sender_id: userId,
+        message: input.note,
+        is_internal: isAdmin,
+      });
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "status_change",
+      resourceType: "dispute",
+      resourceId: id,
+      previousData: { status: dispute.status },
+      newData: { status: input.status, resolution: input.resolution },
+      req,
+    });
+
+    const headline = `Dispute status changed to ${input.status.replace(/_/g, " ")}`;
+    for (const recipientId of [dispute.initiator_id, dispute.respondent_id]) {
+      if (recipientId && recipientId !== userId) {
+        sendDisputeUpdateNotification(id, recipientId, headline, input.resolution).catch((err) =>
+          console.error("[DISPUTES] Status notification failed:", err)
+        );
+      }
+    }
+
+    return updated;
+  }
+
+  async assign(id: string, input: DisputeAssign, userId: string, req: any): Promise<any> {
+    const dispute = await this.repository.getDisputeById(id);
+
+    if (!dispute) {
+      throw { status: 404, message: "Dispute not found" };
+    }
+
+    const updates: Record<string, any> = {};
+
+    if (input.assignedTo !== undefined) {
+      if (input.assignedTo) {
+        const role = await this.repository.getUserRole(input.assignedTo);
+        if (!role || !ADMIN_ROLES.includes(role)) {
+          throw { status: 400, message: "Disputes can only be assigned to admins" };
+        }
+      }
+      updates.assigned_to = input.assignedTo;
+    } else if (!input.priority) {
+      // No payload means "assign to me"
+      updates.assigned_to = userId;
+    }
+
+    if (input.priority) updates.priority = input.priority;
+
+    const updated = await this.repository.updateDispute(id, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "dispute",
+      resourceId: id,
+      previousData: { assignedTo: dispute.assigned_to, priority: dispute.priority },
+      newData: { assignedTo: updates.assigned_to, priority: updates.priority },
+      req,
+    });
+
+    if (updates.assigned_to && updates.assigned_to !== userId) {
+      sendDisputeUpdateNotification(id, updates.assigned_to, "A dispute has been assigned to you").catch((err) =>
+        console.error("[DISPUTES] Assignment notification failed:", err)
+      );
+    }
+
+    return updated;
+  }
+
+  // Admin queue: active disputes ordered by priority, then oldest first
+  async getQueue(
+    adminId: string,
+    filters: { status?: string; priority?: string; disputeType?: string; assignment?: string; page: number; limit: number }
+  ): Promise<any> {
+    const disputes = await this.repository.listQueue({
+      status: filters.status,
+      statuses: filters.status ? undefined : ACTIVE_STATUSES,
+      priority: filters.priority,
+      disputeType: filters.disputeType,
+      assignedTo: filters.assignment === "mine" ? adminId : undefined,
+      unassigned: filters.assignment === "unassigned",
+      limit: QUEUE_FETCH_LIMIT,
+    });
+
+    disputes.sort((a, b) => {
+      const byPriority = priorityRank(b.priority) - priorityRank(a.priority);
+      if (byPriority !== 0) return byPriority;
+      return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    });
+
+    const offset = (filters.page - 1) * filters.limit;
+
+    return {
+      disputes: disputes.slice(offset, offset + filters.limit),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total: disputes.length,
+        totalPages: Math.ceil(disputes.length / filters.limit),
+      },
+    };
+  }
+}
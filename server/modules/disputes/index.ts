@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerDisputeRoutes } from "./dispute.routes";
+
+export function registerDisputeModuleRoutes(app: Express): void {
+  registerDisputeRoutes(app);
+}
+
+export { DisputeService } from "./dispute.service";
+export { DisputeRepository } from "./dispute.repository";
@@ -0,0 +1,218 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+// Private bucket holding applicant documents; files are only exposed through short-lived signed URLs
+export const DOCUMENTS_BUCKET = "documents";
+
+const VERIFICATION_SELECT = `
+  *,
+  uploaded_files(id, original_name, mime_type, file_size, storage_path, checksum)
+`;
+
+const QUEUE_SELECT = `
+  *,
+  uploaded_files(id, original_name, mime_type, file_size, storage_path, checksum),
+  users!document_verifications_user_id_fkey(id, full_name, email),
+  applications(id, status, property_id, properties(id, title, address))
+`;
+
+export class DocumentRepository {
+  async getApplication(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id, user_id, property_id, status, properties(id, title, owner_id, listing_agent_id)")
+      .eq("id", applicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getReviewablePropertyIds(userId: string): Promise<string[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id")
+      .or(`owner_id.eq.${userId},listing_agent_id.eq.${userId}`);
+
+    if (error) throw error;
+    return (data || []).map((p: any) => p.id);
+  }
+
+  async getApplicationIdsForProperties(propertyIds: string[]): Promise<string[]> {
+    if (propertyIds.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id")
+      .in("property_id", propertyIds);
+
+    if (error) throw error;
+    return (data || []).map((a: any) => a.id);
+  }
+
+  async uploadToStorage(path: string, buffer: Buffer, contentType: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(path, buffer, { contentType, upsert: false });
+
+    if (error) throw error;
+  }
+
+  async removeFromStorage(path: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.storage.from(DOCUMENTS_BUCKET).remove([path]);
+
+    if (error) throw error;
+  }
+
+  async createSignedUrls(paths: string[], expiresInSeconds: number): Promise<Record<string, string>> {
+    if (paths.length === 0) return {};
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrls(paths, expiresInSeconds);
+
+    if (error) throw error;
+
+    const urls: Record<string, string> = {};
+    (data || []).forEach((entry: any) => {
+      if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+    });
+    return urls;
+  }
+
+  async createUploadedFile(fileData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("uploaded_files")
+      .insert([fileData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateUploadedFile(id: string, updates: Record<string, any>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("uploaded_files")
+      .update(updates)
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  async createVerification(verificationData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("document_verifications")
+      .insert([verificationData])
+      .select(VERIFICATION_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getVerificationById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("document_verifications")
+      .select(VERIFICATION_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listForApplication(applicationId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("document_verifications")
+      .select(VERIFICATION_SELECT)
+      .eq("application_id", applicationId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listQueue(filters: { status: string; applicationIds?: string[]; page: number; limit: number }): Promise<{ data: any[]; count: number }> {
+    const supabase = getSupabaseOrThrow();
+    const offset = (filters.page - 1) * filters.limit;
+
+    let query = supabase
+      .from("document_verifications")
+      .select(QUEUE_SELECT, { count: "exact" })
+      .eq("status", filters.status);
+
+    if (filters.applicationIds) query = query.in("application_id", filters.applicationIds);
+
+    const { data, error, count } = await query
+      .order("created_at", { ascending: true })
+      .range(offset, offset + filters.limit - 1);
+
+    if (error) throw error;
+    return { data: data || [], count: count ?? 0 };
+  }
+
+  async updateVerification(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("document_verifications")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(VERIFICATION_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Older uploads of the same type still waiting for review are replaced by the new one
+  async supersedePending(applicationId: string, documentType: string, keepId: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("document_verifications")
+      .update({
+        status: "rejected",
+        rejection_reason: "Replaced by a newer upload",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("application_id", applicationId)
+      .eq("document_type", documentType)
+      .eq("status", "pending")
+      .neq("id", keepId);
+
+    if (error) throw error;
+  }
+
+  async expireLapsedVerifications(nowIso: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("document_verifications")
+      .update({ status: "expired", updated_at: nowIso })
+      .eq("status", "verified")
+      .lt("expires_at", nowIso)
+      .select("id, application_id, file_id");
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateApplicationDocumentStatus(applicationId: string, documentStatus: Record<string, any>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("applications")
+      .update({ document_status: documentStatus, updated_at: new Date().toISOString() })
+      .eq("id", applicationId);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,82 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { uploadApplicationDocumentSchema, documentReviewSchema, DOCUMENT_VERIFICATION_STATUSES } from "@shared/schema";
+import { DocumentService } from "./document.service";
+
+const documentService = new DocumentService();
+
+const REVIEWER_ROLES = ["landlord", "property_manager", "agent", "admin", "super_admin"] as const;
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[DOCUMENTS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerDocumentRoutes(app: Express): void {
+  // POST /api/v2/applications/:applicationId/documents - Applicant uploads a document for review
+  app.post("/api/v2/applications/:applicationId/documents", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = uploadApplicationDocumentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await documentService.upload(req.params.applicationId, validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Document uploaded"));
+    } catch (err: any) {
+      return handleError(res, err, "Upload", "Failed to upload document");
+    }
+  });
+
+  // GET /api/v2/applications/:applicationId/documents - Documents and their verification state
+  app.get("/api/v2/applications/:applicationId/documents", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await documentService.listForApplication(req.params.applicationId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Documents retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve documents");
+    }
+  });
+
+  // GET /api/v2/documents/review-queue - Documents awaiting review, oldest first
+  app.get("/api/v2/documents/review-queue", authenticateToken, requireRole(...REVIEWER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
+      if (!DOCUMENT_VERIFICATION_STATUSES.includes(status as any)) {
+        return res.status(400).json({ error: "Invalid status filter" });
+      }
+
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+
+      const result = await documentService.getQueue(req.user!.id, req.user!.role, { status, page, limit });
+
+      return res.json(success(result, "Review queue retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Queue", "Failed to retrieve review queue");
+    }
+  });
+
+  // PATCH /api/v2/documents/:id/review - Verify or reject a document
+  app.patch("/api/v2/documents/:id/review", authenticateToken, requireRole(...REVIEWER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = documentReviewSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await documentService.review(req.params.id, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, "Document reviewed"));
+    } catch (err: any) {
+      return handleError(res, err, "Review", "Failed to review document");
+    }
+  });
+}
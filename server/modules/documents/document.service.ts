@@ -0,0 +1,256 @@
+import type { UploadApplicationDocument, DocumentReview } from "@shared/schema";
+import { DocumentRepository } from "./document.repository";
+import { validateFileUpload, generateSecureFilename, getUploadPath } from "../../security/file-upload";
+import { logAuditEvent } from "../../security/audit-logger";
+import { sendDocumentReviewNotification } from "../../notification-service";
+import { summarizeDocumentVerifications, refreshApplicationScore } from "../applications/application.service";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Signed download links are handed out per request and expire quickly
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+export class DocumentService {
+  private repository: DocumentRepository;
+
+  constructor() {
+    this.repository = new DocumentRepository();
+  }
+
+  private isReviewer(application: any, userId: string, userRole: string): boolean {
+    const property = application.properties as any;
+    return ADMIN_ROLES.includes(userRole) ||
+      property?.owner_id === userId ||
+      property?.listing_agent_id === userId;
+  }
+
+  private async getApplicationOrThrow(applicationId: string) {
+    const application = await this.repository.getApplication(applicationId);
+
+    if (!application) {
+      throw { status: 404, message: "Application not found" };
+    }
+
+    return application;
+  }
+
+  private async withSignedUrls(verifications: any[]): Promise<any[]> {
+    const paths = verifications
+      .map((v) => v.uploaded_files?.storage_path)
+      .filter((path): path is string => !!path);
+    const urls = await this.repository.createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+    return verifications.map((v) => ({
+      ...v,
+      file_url: v.uploaded_files?.storage_path ? urls[v.uploaded_files.storage_path] || null : null,
+    }));
+  }
+
+  // Mirror the reviewed state into applications.document_status and rescore
+  private async syncApplication(applicationId: string) {
+    const verifications = await this.repository.listForApplication(applicationId);
+    await this.repository.updateApplicationDocumentStatus(applicationId, summarizeDocumentVerifications(verifications));
+    await refreshApplicationScore(applicationId);
+  }
+
+  async upload(applicationId: string, input: UploadApplicationDocument, userId: string, req: any): Promise<any> {
+    const application = await this.getApplicationOrThrow(applicationId);
+
+    if (application.user_id !== userId) {
+      throw { status: 403, message: "Only the applicant can upload documents" };
+    }
+
+    if (["withdrawn", "rejected"].includes(application.status)) {
+      throw { status: 400, message: `Cannot upload documents to a ${application.status} application` };
+    }
+
+    const buffer = Buffer.from(input.file.data.replace(/^data:[^;]+;base64,/, ""), "base64");
+    const validation = validateFileUpload(input.file.name, input.file.type, buffer.length, buffer);
+
+    if (!validation.valid) {
+      throw { status: 400, message: validation.error };
+    }
+
+    const existing = await this.repository.listForApplication(applicationId);
+    const duplicate = existing.find((v) =>
+      v.document_type === input.documentType &&
+      ["pending", "verified"].includes(v.status) &&
+      v.uploaded_files?.checksum === validation.checksum
+    );
+
+    if (duplicate) {
+      throw { status: 409, message: "This file has already been uploaded for this document" };
+    }
+
+    const storagePath = `${getUploadPath(userId, applicationId)}/${generateSecureFilename(input.file.name)}`;
+    await this.repository.uploadToStorage(storagePath, buffer, input.file.type);
+
+    let verification: any;
+    try {
+      const file = await this.repository.createUploadedFile({
+        user_id: userId,
+        application_id: applicationId,
+        filename: storagePath.split("/").pop(),
+        original_name: validation.sanitizedFilename,
+        mime_type: input.file.type,
+        file_size: buffer.length,
+        storage_path: storagePath,
+        checksum: validation.checksum,
+      });
+
+      verification = await this.repository.createVerification({
+        user_id: userId,
+        application_id: applicationId,
+        file_id: file.id,
+        document_type: input.documentType,
+        status: "pending",
+      });
+    } catch (err) {
+      // Don't leave orphaned files in storage when the records could not be written
+      await this.repository.removeFromStorage(storagePath).catch((removeErr) =>
+        console.error("[DOCUMENTS] Failed to clean up upload:", removeErr)
+      );
+      throw err;
+    }
+
+    await this.repository.supersedePending(applicationId, input.documentType, verification.id);
+    await this.syncApplication(applicationId);
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "document_verification",
+      resourceId: verification.id,
+      newData: { applicationId, documentType: input.documentType, checksum: validation.checksum },
+      req,
+    });
+
+    return verification;
+  }
+
+  async listForApplication(applicationId: string, userId: string, userRole: string): Promise<any[]> {
+    const application = await this.getApplicationOrThrow(applicationId);
+
+    if (application.user_id !== userId && !this.isReviewer(application, userId, userRole)) {
+      throw { status: 403, message: "Not authorized to view these documents" };
+    }
+
+    return this.withSignedUrls(await this.repository.listForApplication(applicationId));
+  }
+
+  // Admins see every application; landlords and agents see applications on their listings
+  async getQueue(userId: string, userRole: string, filters: { status: string; page: number; limit: number }): Promise<any> {
+    let applicationIds: string[] | undefined;
+
+    if (!ADMIN_ROLES.includes(userRole)) {
+      const propertyIds = await this.repository.getReviewablePropertyIds(userId);
+      applicationIds = await this.repository.getApplicationIdsForProperties(propertyIds);
+
+      if (applicationIds.length === 0) {
+        return {
+          documents: [],
+          pagination: { page: filters.page, limit: filters.limit, total: 0, totalPages: 0 },
+        };
+      }
+    }
+
+    const { data, count } = await this.repository.listQueue({ ...filters, applicationIds });
+
+    return {
+      documents: await this.withSignedUrls(data),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total: count,
+        totalPages: Math.ceil(count / filters.limit),
+      },
+    };
+  }
+
+  async review(id: string, input: DocumentReview, userId: string, userRole: string, req: any): Promise<any> {
+    const verification = await this.repository.getVerificationById(id);
+
+    if (!verification) {
+      throw { status: 404, message: "Document not found" };
+    }
+
+    const application = await this.getApplicationOrThrow(verification.application_id);
+
+    if (!this.isReviewer(application, userId, userRole)) {
+      throw { status: 403, message: "Not authorized to review this document" };
+    }
+
+    if (application.user_id === userId) {
+      throw { status: 403, message: "You cannot review your own documents" };
+    }
+
+    if (!["pending", "verified"].includes(verification.status)) {
+      throw { status: 400, message: `Document is already ${verification.status}` };
+    }
+
+    if (input.expiresAt && new Date(input.expiresAt).getTime() <= Date.now()) {
+      throw { status: 400, message: "Expiry date must be in the future" };
+    }
+
+    const verified = input.status === "verified";
+    const now = new Date().toISOString();
+
+    const updated = await this.repository.updateVerification(id, {
+      status: input.status,
+      verified_by: userId,
+      verified_at: now,
+      rejection_reason: verified ? null : input.rejectionReason,
+      expires_at: verified ? input.expiresAt || null : null,
+      notes: input.notes ?? verification.notes,
+    });
+
+    if (verification.file_id) {
+      await this.repository.updateUploadedFile(verification.file_id, {
+        is_verified: verified,
+        verified_by: verified ? userId : null,
+        verified_at: verified ? now : null,
+      });
+    }
+
+    await this.syncApplication(verification.application_id);
+
+    await logAuditEvent({
+      userId,
+      action: "status_change",
+      resourceType: "document_verification",
+      resourceId: id,
+      previousData: { status: verification.status },
+      newData: { status: input.status, rejectionReason: input.rejectionReason, expiresAt: input.expiresAt },
+      req,
+    });
+
+    sendDocumentReviewNotification(id).catch((err) =>
+      console.error("[DOCUMENTS] Review notification failed:", err)
+    );
+
+    return updated;
+  }
+
+  // Mark verified documents past their expiry date as expired and rescore the
+  // affected applications. Returns the number of documents expired.
+  async expireLapsedVerifications(): Promise<number> {
+    const expired = await this.repository.expireLapsedVerifications(new Date().toISOString());
+
+    for (const verification of expired) {
+      if (verification.file_id) {
+        await this.repository.updateUploadedFile(verification.file_id, { is_verified: false });
+      }
+    }
+
+    const applicationIds = Array.from(new Set(expired.map((v: any) => v.application_id).filter(Boolean)));
+    for (const applicationId of applicationIds) {
+      await this.syncApplication(applicationId as string);
+    }
+
+    if (expired.length > 0) {
+      console.log(`[DOCUMENTS] Expired ${expired.length} document verifications`);
+    }
+
+    return expired.length;
+  }
+}
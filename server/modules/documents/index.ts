@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerDocumentRoutes } from "./document.routes";
+
+export function registerDocumentModuleRoutes(app: Express): void {
+  registerDocumentRoutes(app);
+}
+
+export { DocumentService } from "./document.service";
+export { DocumentRepository } from "./document.repository";
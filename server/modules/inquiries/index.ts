@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerInquiryRoutes } from "./inquiry.routes";
+
+export function registerInquiryModuleRoutes(app: Express): void {
+  registerInquiryRoutes(app);
+}
+
+export { InquiryService } from "./inquiry.service";
+export { InquiryRepository } from "./inquiry.repository";
@@ -0,0 +1,335 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const LEAD_SELECT = `
+  id, agent_id, property_id, user_id, sender_name, sender_email, sender_phone, message, inquiry_type,
+  status, stage, source, entry_point, utm_source, utm_medium, utm_campaign, referrer, application_id,
+  contacted_at, tour_scheduled_at, applied_at, lost_at, lost_reason, created_at, updated_at,
+  properties:property_id(id, title, address),
+  applications:application_id(id, status, created_at)
+`;
+
+const TASK_SELECT = "id, inquiry_id, agent_id, title, notes, due_at, completed_at, reminded_at, created_at, updated_at";
+
+export class InquiryRepository {
+  async getProperty(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, title, owner_id, listing_agent_id")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getUser(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, email, full_name, role, agency_id")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getUsers(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, email, full_name")
+      .in("id", ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Admin inbox for new inquiries: the admin_email setting, else the first admin account.
+  // id is set when the address belongs to an account, so its notification preferences apply.
+  async getAdminRecipient(): Promise<{ id: string | null; email: string; full_name?: string | null } | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data: setting } = await supabase
+      .from("admin_settings")
+      .select("value")
+      .eq("key", "admin_email")
+      .maybeSingle();
+
+    if (setting?.value) {
+      const { data: account } = await supabase
+        .from("users")
+        .select("id, full_name")
+        .eq("email", setting.value)
+        .maybeSingle();
+
+      return { id: account?.id ?? null, email: setting.value, full_name: account?.full_name };
+    }
+
+    const { data: admin } = await supabase
+      .from("users")
+      .select("id, email, full_name")
+      .eq("role", "admin")
+      .limit(1)
+      .maybeSingle();
+
+    return admin?.email ? admin : null;
+  }
+
+  async createInquiry(inquiryData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("inquiries")
+      .insert([inquiryData])
+      .select(LEAD_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getInquiry(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("inquiries")
+      .select(LEAD_SELECT)
+      .eq("id", id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listByAgent(agentId: string, stage?: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("inquiries")
+      .select(`${LEAD_SELECT}, lead_tasks(id, due_at, completed_at)`)
+      .eq("agent_id", agentId)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false });
+
+    if (stage) {
+      query = query.eq("stage", stage);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listByProperty(propertyId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("inquiries")
+      .select(`${LEAD_SELECT}, lead_tasks(id, due_at, completed_at)`)
+      .eq("property_id", propertyId)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateInquiry(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("inquiries")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(LEAD_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Unlinked leads on a listing from the same person, newest first
+  async findLinkableInquiries(propertyId: string, userId: string, email: string | null): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const lookups = [
+      supabase
+        .from("inquiries")
+        .select("id, stage, applied_at, created_at")
+        .eq("property_id", propertyId)
+        .eq("user_id", userId)
+        .is("application_id", null)
+        .is("deleted_at", null),
+    ];
+
+    if (email) {
+      lookups.push(
+        supabase
+          .from("inquiries")
+          .select("id, stage, applied_at, created_at")
+          .eq("property_id", propertyId)
+          .eq("sender_email", email.toLowerCase())
+          .is("application_id", null)
+          .is("deleted_at", null)
+      );
+    }
+
+    const results = await Promise.all(lookups);
+    const rows = new Map<string, any>();
+    for (const { data, error } of results) {
+      if (error) throw error;
+      (data || []).forEach((row: any) => rows.set(row.id, row));
+    }
+
+    return Array.from(rows.values()).sort(
+      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+  }
+
+  async getApplication(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id, property_id, user_id, status, created_at")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listTasks(inquiryId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lead_tasks")
+      .select(TASK_SELECT)
+      .eq("inquiry_id", inquiryId)
+      .order("due_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listAgentTasks(agentId: string, status: "open" | "overdue" | "completed"): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("lead_tasks")
+      .select(`${TASK_SELECT}, inquiries:inquiry_id(id, sender_name, stage, properties:property_id(id, title))`)
+      .eq("agent_id", agentId);
+
+    if (status === "completed") {
+      query = query.not("completed_at", "is", null).order("completed_at", { ascending: false }).limit(100);
+    } else {
+      query = query.is("completed_at", null).order("due_at", { ascending: true });
+      if (status === "overdue") {
+        query = query.lt("due_at", new Date().toISOString());
+      }
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getTask(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lead_tasks")
+      .select(TASK_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createTask(taskData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lead_tasks")
+      .insert([taskData])
+      .select(TASK_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateTask(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lead_tasks")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(TASK_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.from("lead_tasks").delete().eq("id", id);
+
+    if (error) throw error;
+  }
+
+  async listDueUnremindedTasks(now: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lead_tasks")
+      .select(`${TASK_SELECT}, inquiries:inquiry_id(id, sender_name, properties:property_id(id, title))`)
+      .is("completed_at", null)
+      .is("reminded_at", null)
+      .lte("due_at", now)
+      .order("due_at", { ascending: true })
+      .limit(500);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async markTasksReminded(ids: string[], remindedAt: string): Promise<void> {
+    if (ids.length === 0) return;
+
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.from("lead_tasks").update({ reminded_at: remindedAt }).in("id", ids);
+
+    if (error) throw error;
+  }
+
+  async getAgency(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("agencies")
+      .select("id, name, owner_id")
+      .eq("id", id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listAgencyAgents(agencyId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, full_name, email")
+      .eq("agency_id", agencyId);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getPipelineMetrics(agentIds: string[], since: string): Promise<any[]> {
+    if (agentIds.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase.rpc("lead_pipeline_metrics", { agent_ids: agentIds, since });
+
+    if (error) throw error;
+    return data || [];
+  }
+}
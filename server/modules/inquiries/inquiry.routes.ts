@@ -0,0 +1,208 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, optionalAuth } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { inquiryLimiter } from "../../rate-limit";
+import {
+  createInquirySchema,
+  updateLeadStageSchema,
+  linkLeadApplicationSchema,
+  createLeadTaskSchema,
+  updateLeadTaskSchema,
+  leadListQuerySchema,
+  leadTaskListQuerySchema,
+  leadMetricsQuerySchema,
+} from "@shared/schema";
+import { InquiryService } from "./inquiry.service";
+
+const inquiryService = new InquiryService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[INQUIRIES] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerInquiryRoutes(app: Express): void {
+  // POST /api/v2/inquiries - Submit an inquiry; it enters the agent's pipeline as a new lead
+  app.post("/api/v2/inquiries", inquiryLimiter, optionalAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createInquirySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.createInquiry(validation.data, {
+        userId: req.user?.id,
+        siteHost: req.get("host"),
+      });
+
+      return res.status(201).json(success(result, "Inquiry submitted successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Create", "Failed to submit inquiry");
+    }
+  });
+
+  // GET /api/v2/inquiries/agent/:agentId - Agent's lead pipeline, optionally filtered by stage
+  app.get("/api/v2/inquiries/agent/:agentId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = leadListQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.listAgentLeads(req.params.agentId, req.user!, validation.data.stage);
+
+      return res.json(success(result, "Agent inquiries fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "List agent leads", "Failed to fetch agent inquiries");
+    }
+  });
+
+  // GET /api/v2/inquiries/agent/:agentId/tasks - Agent's follow-up tasks across all leads
+  app.get("/api/v2/inquiries/agent/:agentId/tasks", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = leadTaskListQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.listTasks(req.params.agentId, validation.data.status, req.user!);
+
+      return res.json(success(result, "Follow-up tasks fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "List tasks", "Failed to fetch follow-up tasks");
+    }
+  });
+
+  // GET /api/v2/inquiries/agent/:agentId/metrics - Stage funnel, response time and source conversion for an agent
+  app.get("/api/v2/inquiries/agent/:agentId/metrics", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = leadMetricsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.getAgentMetrics(req.params.agentId, validation.data.days, req.user!);
+
+      return res.json(success(result, "Lead metrics fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Agent metrics", "Failed to fetch lead metrics");
+    }
+  });
+
+  // GET /api/v2/agencies/:agencyId/lead-metrics - Lead conversion across an agency, broken down by agent
+  app.get("/api/v2/agencies/:agencyId/lead-metrics", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = leadMetricsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.getAgencyMetrics(req.params.agencyId, validation.data.days, req.user!);
+
+      return res.json(success(result, "Agency lead metrics fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Agency metrics", "Failed to fetch agency lead metrics");
+    }
+  });
+
+  // GET /api/v2/inquiries/property/:propertyId - Leads for one listing
+  app.get("/api/v2/inquiries/property/:propertyId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await inquiryService.listPropertyLeads(req.params.propertyId, req.user!);
+
+      return res.json(success(result, "Property inquiries fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "List property leads", "Failed to fetch property inquiries");
+    }
+  });
+
+  // GET /api/v2/inquiries/:id - Lead details with follow-up tasks and linked application
+  app.get("/api/v2/inquiries/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await inquiryService.getLead(req.params.id, req.user!);
+
+      return res.json(success(result, "Inquiry fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to fetch inquiry");
+    }
+  });
+
+  // PATCH /api/v2/inquiries/:id/stage - Move a lead through the pipeline
+  app.patch("/api/v2/inquiries/:id/stage", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateLeadStageSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.updateStage(req.params.id, validation.data, req.user!, req);
+
+      return res.json(success(result, "Lead stage updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update stage", "Failed to update lead stage");
+    }
+  });
+
+  // PUT /api/v2/inquiries/:id/application - Link the renter's application to a lead, or unlink with null
+  app.put("/api/v2/inquiries/:id/application", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = linkLeadApplicationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.linkApplication(req.params.id, validation.data.applicationId, req.user!);
+
+      return res.json(success(result, validation.data.applicationId ? "Application linked" : "Application unlinked"));
+    } catch (err: any) {
+      return handleError(res, err, "Link application", "Failed to link application");
+    }
+  });
+
+  // POST /api/v2/inquiries/:id/tasks - Add a follow-up task with a due date
+  app.post("/api/v2/inquiries/:id/tasks", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createLeadTaskSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.createTask(req.params.id, validation.data, req.user!);
+
+      return res.status(201).json(success(result, "Follow-up task added"));
+    } catch (err: any) {
+      return handleError(res, err, "Create task", "Failed to add follow-up task");
+    }
+  });
+
+  // PATCH /api/v2/inquiries/:id/tasks/:taskId - Edit, reschedule or complete a follow-up task
+  app.patch("/api/v2/inquiries/:id/tasks/:taskId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateLeadTaskSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await inquiryService.updateTask(req.params.id, req.params.taskId, validation.data, req.user!);
+
+      return res.json(success(result, "Follow-up task updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update task", "Failed to update follow-up task");
+    }
+  });
+
+  // DELETE /api/v2/inquiries/:id/tasks/:taskId - Remove a follow-up task
+  app.delete("/api/v2/inquiries/:id/tasks/:taskId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      await inquiryService.deleteTask(req.params.id, req.params.taskId, req.user!);
+
+      return res.json(success(null, "Follow-up task removed"));
+    } catch (err: any) {
+      return handleError(res, err, "Delete task", "Failed to remove follow-up task");
+    }
+  });
+}
@@ -0,0 +1,437 @@
+import type { CreateInquiry, UpdateLeadStage, CreateLeadTask, UpdateLeadTask, LeadStage } from "@shared/schema";
+import { LEAD_SOURCES } from "@shared/schema";
+import { InquiryRepository } from "./inquiry.repository";
+import { attributeLeadSource } from "./lead-attribution";
+import { sendLeadTasksDueNotification, sendNewInquiryNotification } from "../../notification-service";
+import { logAuditEvent } from "../../security/audit-logger";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STAGE_TRANSITIONS: Record<LeadStage, LeadStage[]> = {
+  new: ["contacted", "tour_scheduled", "applied", "lost"],
+  contacted: ["tour_scheduled", "applied", "lost"],
+  // A cancelled tour sends the lead back to contacted
+  tour_scheduled: ["contacted", "applied", "lost"],
+  applied: ["lost"],
+  lost: ["new", "contacted"],
+};
+
+// The legacy status column is still read by older dashboards
+const STAGE_STATUS: Record<LeadStage, string> = {
+  new: "pending",
+  contacted: "responded",
+  tour_scheduled: "responded",
+  applied: "responded",
+  lost: "closed",
+};
+
+type Viewer = { id: string; role: string };
+
+const rate = (count: number, base: number) => (base > 0 ? Math.round((count / base) * 1000) / 10 : 0);
+
+interface PipelineCounts {
+  leads: number;
+  contacted: number;
+  toursScheduled: number;
+  applied: number;
+  lost: number;
+  open: number;
+  responded: number;
+  responseHoursTotal: number;
+}
+
+const emptyCounts = (): PipelineCounts => ({
+  leads: 0,
+  contacted: 0,
+  toursScheduled: 0,
+  applied: 0,
+  lost: 0,
+  open: 0,
+  responded: 0,
+  responseHoursTotal: 0,
+});
+
+function addCounts(target: PipelineCounts, row: any) {
+  target.leads += row.leads;
+  target.contacted += row.contacted;
+  target.toursScheduled += row.tours_scheduled;
+  target.applied += row.applied;
+  target.lost += row.lost;
+  target.open += row.open;
+  target.responded += row.responded;
+  target.responseHoursTotal += row.response_hours_total;
+}
+
+function summarize(counts: PipelineCounts) {
+  return {
+    leads: counts.leads,
+    open: counts.open,
+    lost: counts.lost,
+    funnel: [
+      { stage: "new", count: counts.leads, rateFromPrevious: 100 },
+      { stage: "contacted", count: counts.contacted, rateFromPrevious: rate(counts.contacted, counts.leads) },
+      { stage: "tour_scheduled", count: counts.toursScheduled, rateFromPrevious: rate(counts.toursScheduled, counts.contacted) },
+      { stage: "applied", count: counts.applied, rateFromPrevious: rate(counts.applied, counts.toursScheduled) },
+    ],
+    conversionRate: rate(counts.applied, counts.leads),
+    averageResponseHours: counts.responded > 0 ? Math.round((counts.responseHoursTotal / counts.responded) * 10) / 10 : null,
+  };
+}
+
+function withTaskSummary({ lead_tasks, ...lead }: any) {
+  const open = (lead_tasks || []).filter((task: any) => !task.completed_at);
+  const nextDueAt = open.map((task: any) => task.due_at).sort()[0] ?? null;
+
+  return {
+    ...lead,
+    openTasks: open.length,
+    nextTaskDueAt: nextDueAt,
+    hasOverdueTask: nextDueAt ? new Date(nextDueAt).getTime() < Date.now() : false,
+  };
+}
+
+export class InquiryService {
+  private repository: InquiryRepository;
+
+  constructor() {
+    this.repository = new InquiryRepository();
+  }
+
+  private async getAccessibleLead(inquiryId: string, viewer: Viewer): Promise<any> {
+    const lead = await this.repository.getInquiry(inquiryId);
+
+    if (!lead) {
+      throw { status: 404, message: "Lead not found" };
+    }
+
+    if (lead.agent_id !== viewer.id && !ADMIN_ROLES.includes(viewer.role)) {
+      throw { status: 403, message: "You do not have access to this lead" };
+    }
+
+    return lead;
+  }
+
+  // Agents see their own pipeline; agency owners see their agents'; admins see everyone's
+  private async assertCanViewAgent(agentId: string, viewer: Viewer): Promise<any> {
+    const agent = await this.repository.getUser(agentId);
+
+    if (!agent) {
+      throw { status: 404, message: "Agent not found" };
+    }
+
+    if (agentId === viewer.id || ADMIN_ROLES.includes(viewer.role)) return agent;
+
+    const agency = agent.agency_id ? await this.repository.getAgency(agent.agency_id) : null;
+    if (agency?.owner_id === viewer.id) return agent;
+
+    throw { status: 403, message: "You do not have access to this agent's leads" };
+  }
+
+  async createInquiry(input: CreateInquiry, context: { userId?: string; siteHost?: string }): Promise<any> {
+    let agentId = input.agentId ?? null;
+    let propertyTitle: string | undefined;
+
+    // Listing inquiries go to the listing agent, or the owner when nobody is assigned
+    if (input.propertyId) {
+      const property = await this.repository.getProperty(input.propertyId);
+      if (!property) {
+        throw { status: 404, message: "Property not found" };
+      }
+      agentId = property.listing_agent_id || property.owner_id;
+      propertyTitle = property.title;
+    } else if (agentId && !(await this.repository.getUser(agentId))) {
+      throw { status: 404, message: "Agent not found" };
+    }
+
+    const inquiry = await this.repository.createInquiry({
+      agent_id: agentId,
+      property_id: input.propertyId ?? null,
+      user_id: context.userId ?? null,
+      sender_name: input.senderName,
+      sender_email: input.senderEmail.toLowerCase(),
+      sender_phone: input.senderPhone || null,
+      message: input.message || null,
+      inquiry_type: input.inquiryType || null,
+      status: STAGE_STATUS.new,
+      stage: "new",
+      source: attributeLeadSource(input, context.siteHost),
+      entry_point: input.entryPoint ?? (input.propertyId ? "property_listing" : null),
+      utm_source: input.utmSource || null,
+      utm_medium: input.utmMedium || null,
+      utm_campaign: input.utmCampaign || null,
+      referrer: input.referrer || null,
+    });
+
+    this.notifyAdmin(inquiry, agentId, propertyTitle).catch((err) =>
+      console.error("[INQUIRIES] Admin notification failed:", err)
+    );
+
+    return inquiry;
+  }
+
+  // New inquiries are still copied to the central admin inbox
+  private async notifyAdmin(inquiry: any, agentId: string | null, propertyTitle?: string) {
+    const admin = await this.repository.getAdminRecipient();
+    if (!admin) return;
+
+    const agent = agentId ? await this.repository.getUser(agentId) : null;
+
+    await sendNewInquiryNotification(admin, inquiry, agent?.full_name || "Unknown Agent", propertyTitle);
+  }
+
+  async listAgentLeads(agentId: string, viewer: Viewer, stage?: string): Promise<any[]> {
+    await this.assertCanViewAgent(agentId, viewer);
+    const leads = await this.repository.listByAgent(agentId, stage);
+
+    return leads.map(withTaskSummary);
+  }
+
+  async listPropertyLeads(propertyId: string, viewer: Viewer): Promise<any[]> {
+    const property = await this.repository.getProperty(propertyId);
+
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    const canView =
+      property.owner_id === viewer.id || property.listing_agent_id === viewer.id || ADMIN_ROLES.includes(viewer.role);
+    if (!canView) {
+      throw { status: 403, message: "You do not have access to this listing's leads" };
+    }
+
+    const leads = await this.repository.listByProperty(propertyId);
+    return leads.map(withTaskSummary);
+  }
+
+  async getLead(inquiryId: string, viewer: Viewer): Promise<any> {
+    const lead = await this.getAccessibleLead(inquiryId, viewer);
+    const tasks = await this.repository.listTasks(inquiryId);
+
+    return { ...lead, tasks };
+  }
+
+  async updateStage(inquiryId: string, input: UpdateLeadStage, viewer: Viewer, req: any): Promise<any> {
+    const lead = await this.getAccessibleLead(inquiryId, viewer);
+    const from = lead.stage as LeadStage;
+    const to = input.stage as LeadStage;
+
+    if (from === to) return lead;
+
+    if (!STAGE_TRANSITIONS[from]?.includes(to)) {
+      throw { status: 400, message: `Cannot move a lead from ${from} to ${to}` };
+    }
+
+    const now = new Date().toISOString();
+    const updates: Record<string, any> = { stage: to, status: STAGE_STATUS[to] };
+
+    if (to === "contacted" && !lead.contacted_at) updates.contacted_at = now;
+    if (to === "tour_scheduled" && !lead.tour_scheduled_at) updates.tour_scheduled_at = now;
+    if (to === "applied" && !lead.applied_at) updates.applied_at = now;
+    if (to === "lost") {
+      updates.lost_at = now;
+      updates.lost_reason = input.lostReason || null;
+    } else if (from === "lost") {
+      updates.lost_at = null;
+      updates.lost_reason = null;
+    }
+
+    const updated = await this.repository.updateInquiry(inquiryId, updates);
+
+    await logAuditEvent({
+      userId: viewer.id,
+      action: "update",
+      resourceType: "inquiry",
+      resourceId: inquiryId,
+      previousData: { stage: from },
+      newData: { stage: to, lostReason: updates.lost_reason },
+      req,
+    });
+
+    return updated;
+  }
+
+  async linkApplication(inquiryId: string, applicationId: string | null, viewer: Viewer): Promise<any> {
+    const lead = await this.getAccessibleLead(inquiryId, viewer);
+
+    if (!applicationId) {
+      return this.repository.updateInquiry(inquiryId, { application_id: null });
+    }
+
+    const application = await this.repository.getApplication(applicationId);
+    if (!application) {
+      throw { status: 404, message: "Application not found" };
+    }
+    if (lead.property_id && application.property_id !== lead.property_id) {
+      throw { status: 400, message: "The application is for a different property than this lead" };
+    }
+
+    return this.repository.updateInquiry(inquiryId, this.appliedUpdates(lead, applicationId));
+  }
+
+  private appliedUpdates(lead: { applied_at: string | null }, applicationId: string) {
+    return {
+      application_id: applicationId,
+      stage: "applied",
+      status: STAGE_STATUS.applied,
+      applied_at: lead.applied_at ?? new Date().toISOString(),
+      lost_at: null,
+      lost_reason: null,
+    };
+  }
+
+  // Called when a renter applies: their most recent unlinked inquiry on the
+  // listing, matched by account or email, is linked and moved to applied.
+  async linkNewApplication(application: { id: string; property_id: string; user_id: string }, applicantEmail: string | null): Promise<string | null> {
+    const [lead] = await this.repository.findLinkableInquiries(application.property_id, application.user_id, applicantEmail);
+    if (!lead) return null;
+
+    await this.repository.updateInquiry(lead.id, this.appliedUpdates(lead, application.id));
+    return lead.id;
+  }
+
+  async listTasks(agentId: string, status: "open" | "overdue" | "completed", viewer: Viewer): Promise<any[]> {
+    await this.assertCanViewAgent(agentId, viewer);
+    return this.repository.listAgentTasks(agentId, status);
+  }
+
+  async createTask(inquiryId: string, input: CreateLeadTask, viewer: Viewer): Promise<any> {
+    const lead = await this.getAccessibleLead(inquiryId, viewer);
+
+    return this.repository.createTask({
+      inquiry_id: inquiryId,
+      // Tasks belong to the lead's agent even when an admin creates them
+      agent_id: lead.agent_id,
+      title: input.title,
+      notes: input.notes || null,
+      due_at: new Date(input.dueAt).toISOString(),
+    });
+  }
+
+  private async getAccessibleTask(inquiryId: string, taskId: string, viewer: Viewer): Promise<any> {
+    await this.getAccessibleLead(inquiryId, viewer);
+    const task = await this.repository.getTask(taskId);
+
+    if (!task || task.inquiry_id !== inquiryId) {
+      throw { status: 404, message: "Task not found" };
+    }
+
+    return task;
+  }
+
+  async updateTask(inquiryId: string, taskId: string, input: UpdateLeadTask, viewer: Viewer): Promise<any> {
+    const task = await this.getAccessibleTask(inquiryId, taskId, viewer);
+    const updates: Record<string, any> = {};
+
+    if (input.title !== undefined) updates.title = input.title;
+    if (input.notes !== undefined) updates.notes = input.notes || null;
+    if (input.dueAt !== undefined) {
+      updates.due_at = new Date(input.dueAt).toISOString();
+      // A rescheduled task gets a fresh reminder
+      updates.reminded_at = null;
+    }
+    if (input.completed !== undefined) {
+      updates.completed_at = input.completed ? task.completed_at ?? new Date().toISOString() : null;
+    }
+
+    return this.repository.updateTask(taskId, updates);
+  }
+
+  async deleteTask(inquiryId: string, taskId: string, viewer: Viewer): Promise<void> {
+    await this.getAccessibleTask(inquiryId, taskId, viewer);
+    await this.repository.deleteTask(taskId);
+  }
+
+  async sendTaskReminders(): Promise<{ remindersSent: number; tasks: number }> {
+    const now = new Date().toISOString();
+    const tasks = await this.repository.listDueUnremindedTasks(now);
+    if (tasks.length === 0) return { remindersSent: 0, tasks: 0 };
+
+    const byAgent = new Map<string, any[]>();
+    for (const task of tasks) {
+      if (!byAgent.has(task.agent_id)) byAgent.set(task.agent_id, []);
+      byAgent.get(task.agent_id)!.push(task);
+    }
+
+    const agents = await this.repository.getUsers(Array.from(byAgent.keys()));
+    let remindersSent = 0;
+
+    for (const agent of agents) {
+      if (!agent.email) continue;
+
+      const agentTasks = byAgent.get(agent.id)!;
+      const sent = await sendLeadTasksDueNotification(
+        agent,
+        agentTasks.map((task) => ({
+          id: task.id,
+          title: task.title,
+          dueAt: task.due_at,
+          leadName: task.inquiries?.sender_name || "Lead",
+          propertyTitle: task.inquiries?.properties?.title ?? null,
+        }))
+      );
+
+      // Marked either way so a failing mailbox isn't retried every run
+      await this.repository.markTasksReminded(agentTasks.map((task) => task.id), now);
+      if (sent) remindersSent++;
+    }
+
+    return { remindersSent, tasks: tasks.length };
+  }
+
+  private async buildMetrics(agents: any[], days: number) {
+    const since = new Date(Date.now() - days * DAY_MS).toISOString();
+    const rows = await this.repository.getPipelineMetrics(agents.map((agent) => agent.id), since);
+
+    const totals = emptyCounts();
+    const byAgent = new Map<string, PipelineCounts>(agents.map((agent) => [agent.id, emptyCounts()]));
+    const bySource = new Map<string, PipelineCounts>(LEAD_SOURCES.map((source) => [source, emptyCounts()]));
+
+    for (const row of rows) {
+      addCounts(totals, row);
+      addCounts(byAgent.get(row.agent_id)!, row);
+      if (!bySource.has(row.source)) bySource.set(row.source, emptyCounts());
+      addCounts(bySource.get(row.source)!, row);
+    }
+
+    return {
+      range: { since, days },
+      totals: summarize(totals),
+      bySource: Array.from(bySource.entries()).map(([source, counts]) => ({
+        source,
+        leads: counts.leads,
+        applied: counts.applied,
+        conversionRate: rate(counts.applied, counts.leads),
+      })),
+      agents: agents.map((agent) => ({
+        agentId: agent.id,
+        name: agent.full_name,
+        ...summarize(byAgent.get(agent.id)!),
+      })),
+    };
+  }
+
+  async getAgentMetrics(agentId: string, days: number, viewer: Viewer): Promise<any> {
+    const agent = await this.assertCanViewAgent(agentId, viewer);
+    const { agents, ...metrics } = await this.buildMetrics([agent], days);
+
+    return { agentId, name: agent.full_name, ...metrics };
+  }
+
+  async getAgencyMetrics(agencyId: string, days: number, viewer: Viewer): Promise<any> {
+    const agency = await this.repository.getAgency(agencyId);
+
+    if (!agency) {
+      throw { status: 404, message: "Agency not found" };
+    }
+
+    if (agency.owner_id !== viewer.id && !ADMIN_ROLES.includes(viewer.role)) {
+      throw { status: 403, message: "Only the agency owner can view agency lead metrics" };
+    }
+
+    const agents = await this.repository.listAgencyAgents(agencyId);
+    const metrics = await this.buildMetrics(agents, days);
+
+    return { agency: { id: agency.id, name: agency.name }, ...metrics };
+  }
+}
@@ -0,0 +1,45 @@
+import type { LeadSource } from "@shared/schema";
+
+const PAID_MEDIUMS = /^(cpc|ppc|paid|paid[_-]?search|paid[_-]?social|display|cpm|banner|retargeting)$/;
+const EMAIL_MEDIUMS = /^(e-?mail|newsletter)$/;
+const SOCIAL_MEDIUMS = /^(social|social[_-]?media|sm)$/;
+
+const SEARCH_HOSTS = /(^|\.)(google|bing|yahoo|duckduckgo|baidu|yandex|ecosia|ask)\.[a-z.]+$/;
+const SOCIAL_HOSTS = /(^|\.)(facebook|fb|instagram|twitter|x|t|linkedin|lnkd|pinterest|reddit|tiktok|youtube|nextdoor|threads)\.(com|co|net|in)$/;
+const EMAIL_HOSTS = /^(mail\.google\.com|outlook\.(live|office)\.com|mail\.yahoo\.com|mail\.aol\.com)$/;
+
+function hostOf(url?: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+// UTM tags win over the referrer because links in apps and emails often arrive
+// without one. A referrer from our own site says nothing about the channel.
+export function attributeLeadSource(
+  input: { utmSource?: string; utmMedium?: string; referrer?: string },
+  siteHost?: string
+): LeadSource {
+  const medium = input.utmMedium?.trim().toLowerCase();
+  const utmSource = input.utmSource?.trim().toLowerCase();
+
+  if (medium && PAID_MEDIUMS.test(medium)) return "paid";
+  if (medium && EMAIL_MEDIUMS.test(medium)) return "email";
+  if (medium && SOCIAL_MEDIUMS.test(medium)) return "social";
+  if (medium === "organic") return "search";
+
+  const referrerHost = hostOf(input.referrer);
+  const ownHost = siteHost?.toLowerCase().replace(/^www\./, "").split(":")[0];
+
+  if (referrerHost && referrerHost !== ownHost) {
+    if (EMAIL_HOSTS.test(referrerHost)) return "email";
+    if (SEARCH_HOSTS.test(referrerHost)) return "search";
+    if (SOCIAL_HOSTS.test(referrerHost)) return "social";
+    return "referral";
+  }
+
+  return utmSource ? "referral" : "direct";
+}
@@ -0,0 +1,10 @@
+import type { Express } from "express";
+import { registerJobRoutes } from "./job.routes";
+
+export function registerJobModuleRoutes(app: Express): void {
+  registerJobRoutes(app);
+}
+
+export { JobService } from "./job.service";
+export { JobRepository } from "./job.repository";
+export { JobScheduler, jobScheduler, startJobScheduler } from "./job.scheduler";
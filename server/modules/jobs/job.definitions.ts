@@ -0,0 +1,195 @@
+import {
+  checkAndSendExpirationWarnings,
+  checkAndSendTourReminders,
+  sendNotificationDigests,
+} from "../../notification-service";
+import { publishScheduledProperties, unpublishExpiredProperties } from "../properties/property.service";
+import { expireStaleApplications } from "../applications/application.service";
+import { LeaseService } from "../leases/lease.service";
+import { SecurityDepositService } from "../security-deposits/security-deposit.service";
+import { DocumentService } from "../documents/document.service";
+import { PaymentService } from "../payments/payment.service";
+import { SavedSearchService } from "../saved-searches/saved-search.service";
+import { RequirementMatchService } from "../requirements/requirement.service";
+import { ListingAnalyticsService } from "../listing-analytics/listing-analytics.service";
+import { InquiryService } from "../inquiries/inquiry.service";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface JobSchedule {
+  // Human-readable form stored on the job row and shown to admins
+  label: string;
+  next(from: Date): Date;
+}
+
+export interface JobContext {
+  // When the last successful run started, so incremental jobs can skip rows untouched since
+  lastSucceededAt: string | null;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  // How long a claimed lock is honoured before another instance may take the job over
+  lockTimeoutMs?: number;
+  // Attempts per scheduled run before the job waits for its next regular slot
+  maxAttempts?: number;
+  run: (context: JobContext) => Promise<unknown>;
+}
+
+export function everyMinutes(minutes: number): JobSchedule {
+  const interval = minutes * MINUTE_MS;
+  return {
+    label: minutes === 60 ? "Hourly" : `Every ${minutes} minutes`,
+    // Aligned to the interval so restarts do not shift the timetable
+    next: (from) => new Date(Math.floor(from.getTime() / interval) * interval + interval),
+  };
+}
+
+export function dailyAt(hourUtc: number): JobSchedule {
+  return {
+    label: `Daily at ${String(hourUtc).padStart(2, "0")}:00 UTC`,
+    next: (from) => {
+      const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), hourUtc));
+      return next > from ? next : new Date(next.getTime() + DAY_MS);
+    },
+  };
+}
+
+export function weeklyAt(weekday: number, hourUtc: number): JobSchedule {
+  return {
+    label: `${WEEKDAYS[weekday]}s at ${String(hourUtc).padStart(2, "0")}:00 UTC`,
+    next: (from) => {
+      const daysAhead = (weekday - from.getUTCDay() + 7) % 7;
+      const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + daysAhead, hourUtc));
+      return next > from ? next : new Date(next.getTime() + 7 * DAY_MS);
+    },
+  };
+}
+
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: "property-scheduled-publish",
+    description: "Publish listings whose scheduled publish time has passed",
+    schedule: everyMinutes(5),
+    run: async () => ({ published: await publishScheduledProperties() }),
+  },
+  {
+    name: "property-listing-expiration",
+    description: "Unpublish listings past their expiry date that have auto-unpublish enabled",
+    schedule: everyMinutes(60),
+    run: async () => ({ unpublished: await unpublishExpiredProperties() }),
+  },
+  {
+    name: "application-expiration-warnings",
+    description: "Warn applicants whose applications expire within three days",
+    schedule: dailyAt(14),
+    run: async () => ({ warningsSent: await checkAndSendExpirationWarnings() }),
+  },
+  {
+    name: "application-expiration",
+    description: "Expire undecided applications past their expiry date",
+    schedule: everyMinutes(60),
+    run: () => expireStaleApplications(),
+  },
+  {
+    name: "rent-due-reminders",
+    description: "Remind tenants of rent due in the next three days",
+    schedule: dailyAt(13),
+    run: () => new LeaseService().sendRentDueReminders(),
+  },
+  {
+    name: "rent-overdue-processing",
+    description: "Mark unpaid rent overdue, charge late fees and send overdue reminders",
+    schedule: dailyAt(6),
+    lockTimeoutMs: 30 * MINUTE_MS,
+    run: () => new LeaseService().processOverduePayments(),
+  },
+  {
+    name: "lease-terms",
+    description: "Expire unanswered renewal offers, end leases at move-out and roll expired terms month to month",
+    schedule: dailyAt(5),
+    lockTimeoutMs: 30 * MINUTE_MS,
+    run: () => new LeaseService().processLeaseTerms(),
+  },
+  {
+    name: "deposit-return-deadlines",
+    description: "Open deposit ledgers at move-out, set state return deadlines and remind landlords before they lapse",
+    schedule: dailyAt(6),
+    lockTimeoutMs: 30 * MINUTE_MS,
+    run: () => new SecurityDepositService().processReturnDeadlines(),
+  },
+  {
+    name: "tour-reminders",
+    description: "Remind renters and landlords of upcoming tours",
+    schedule: everyMinutes(15),
+    run: async () => ({ remindersSent: await checkAndSendTourReminders() }),
+  },
+  {
+    name: "document-verification-expiry",
+    description: "Expire document verifications past their expiry date",
+    schedule: everyMinutes(60),
+    run: async () => ({ expired: await new DocumentService().expireLapsedVerifications() }),
+  },
+  {
+    name: "notification-digest-daily",
+    description: "Send daily notification digests",
+    schedule: dailyAt(15),
+    run: async () => ({ digestsSent: await sendNotificationDigests("daily") }),
+  },
+  {
+    name: "notification-digest-weekly",
+    description: "Send weekly notification digests",
+    schedule: weeklyAt(1, 15),
+    run: async () => ({ digestsSent: await sendNotificationDigests("weekly") }),
+  },
+  {
+    name: "saved-search-matching",
+    description: "Match new and price-dropped listings to saved searches and send instant alerts",
+    schedule: everyMinutes(10),
+    run: () => new SavedSearchService().matchListings(),
+  },
+  {
+    name: "saved-search-alerts-daily",
+    description: "Send daily saved search alerts",
+    schedule: dailyAt(16),
+    run: () => new SavedSearchService().sendAlerts("daily"),
+  },
+  {
+    name: "saved-search-alerts-weekly",
+    description: "Send weekly saved search alerts",
+    schedule: weeklyAt(1, 16),
+    run: () => new SavedSearchService().sendAlerts("weekly"),
+  },
+  {
+    name: "requirement-matching",
+    description: "Score listings against renter requirements and email both sides about strong matches",
+    schedule: everyMinutes(60),
+    lockTimeoutMs: 30 * MINUTE_MS,
+    run: ({ lastSucceededAt }) => new RequirementMatchService().matchAll(lastSucceededAt),
+  },
+  {
+    name: "listing-analytics-rollup",
+    description: "Roll listing events up into daily analytics and prune raw events past retention",
+    schedule: everyMinutes(60),
+    run: () => new ListingAnalyticsService().rollup(),
+  },
+  {
+    name: "lead-task-reminders",
+    description: "Remind agents of lead follow-up tasks that have come due",
+    schedule: everyMinutes(15),
+    run: () => new InquiryService().sendTaskReminders(),
+  },
+  {
+    name: "payment-reconciliation",
+    description: "Replay unprocessed payment webhooks and repair unsettled payments",
+    schedule: everyMinutes(60),
+    lockTimeoutMs: 30 * MINUTE_MS,
+    run: () => new PaymentService().reconcile(),
+  },
+];
@@ -0,0 +1,149 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const JOB_SELECT = "name, description, schedule, enabled, next_run_at, locked_by, locked_until, last_run_at, last_success_at, last_status, last_error, consecutive_failures, updated_at";
+
+export class JobRepository {
+  // Inserts rows for newly registered jobs; existing rows keep their state
+  async ensureJobs(jobs: Array<{ name: string; description: string; schedule: string; next_run_at: string }>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("scheduled_jobs")
+      .upsert(jobs, { onConflict: "name", ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  async syncDefinition(name: string, values: { description: string; schedule: string }): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("scheduled_jobs")
+      .update(values)
+      .eq("name", name);
+
+    if (error) throw error;
+  }
+
+  async listJobs(): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scheduled_jobs")
+      .select(JOB_SELECT)
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getJob(name: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scheduled_jobs")
+      .select(JOB_SELECT)
+      .eq("name", name)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getDueJobNames(now: string): Promise<string[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scheduled_jobs")
+      .select("name")
+      .eq("enabled", true)
+      .lte("next_run_at", now)
+      .or(`locked_until.is.null,locked_until.lt.${now}`);
+
+    if (error) throw error;
+    return (data || []).map((row: any) => row.name);
+  }
+
+  // Conditional update so only one instance wins the lock; a lock past locked_until
+  // belongs to an instance that died mid-run and may be taken over.
+  async claimJob(name: string, instanceId: string, lockedUntil: string, requireDue: boolean): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const now = new Date().toISOString();
+    let query = supabase
+      .from("scheduled_jobs")
+      .update({ locked_by: instanceId, locked_until: lockedUntil, updated_at: now })
+      .eq("name", name)
+      .or(`locked_until.is.null,locked_until.lt.${now}`);
+
+    if (requireDue) {
+      query = query.eq("enabled", true).lte("next_run_at", now);
+    }
+
+    const { data, error } = await query.select(JOB_SELECT);
+
+    if (error) throw error;
+    return (data || [])[0] || null;
+  }
+
+  async releaseJob(name: string, instanceId: string, values: Record<string, any>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("scheduled_jobs")
+      .update({ ...values, locked_by: null, locked_until: null, updated_at: new Date().toISOString() })
+      .eq("name", name)
+      .eq("locked_by", instanceId);
+
+    if (error) throw error;
+  }
+
+  async updateJob(name: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scheduled_jobs")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("name", name)
+      .select(JOB_SELECT)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createRun(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("job_runs")
+      .insert([values])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async finishRun(id: string, values: Record<string, any>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("job_runs")
+      .update(values)
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  async listRuns(filters: { jobName?: string; status?: string; limit: number; offset: number }): Promise<{ runs: any[]; total: number }> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("job_runs")
+      .select("id, job_name, status, attempt, trigger, instance_id, result, error, started_at, finished_at, duration_ms", { count: "exact" })
+      .order("started_at", { ascending: false });
+
+    if (filters.jobName) {
+      query = query.eq("job_name", filters.jobName);
+    }
+
+    if (filters.status) {
+      query = query.eq("status", filters.status);
+    }
+
+    const { data, error, count } = await query.range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (error) throw error;
+    return { runs: data || [], total: count || 0 };
+  }
+}
@@ -0,0 +1,76 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { updateScheduledJobSchema, JOB_RUN_STATUSES } from "@shared/schema";
+import { JobService } from "./job.service";
+
+const jobService = new JobService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[JOBS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerJobRoutes(app: Express): void {
+  // GET /api/v2/admin/jobs - Registered jobs with schedule, lock and last result
+  app.get("/api/v2/admin/jobs", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const jobs = await jobService.listJobs();
+
+      return res.json(success(jobs, "Jobs retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve jobs");
+    }
+  });
+
+  // GET /api/v2/admin/jobs/runs - Run history, filterable by job and status
+  app.get("/api/v2/admin/jobs/runs", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const jobName = req.query.job as string | undefined;
+      const status = req.query.status as string | undefined;
+      if (status && !(JOB_RUN_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: "Invalid status filter" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const result = await jobService.listRuns(jobName, status, limit, offset);
+
+      return res.json(success(result, "Job runs retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Runs", "Failed to retrieve job runs");
+    }
+  });
+
+  // POST /api/v2/admin/jobs/:name/run - Run a job now and wait for the result
+  app.post("/api/v2/admin/jobs/:name/run", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const run = await jobService.runNow(req.params.name, req.user!.id, req);
+
+      return res.json(success(run, run.status === "succeeded" ? "Job completed" : "Job failed"));
+    } catch (err: any) {
+      return handleError(res, err, "Run", "Failed to run job");
+    }
+  });
+
+  // PATCH /api/v2/admin/jobs/:name - Enable or disable a job
+  app.patch("/api/v2/admin/jobs/:name", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateScheduledJobSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const job = await jobService.update(req.params.name, validation.data, req.user!.id, req);
+
+      return res.json(success(job, "Job updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update", "Failed to update job");
+    }
+  });
+}
@@ -0,0 +1,177 @@
+import { hostname } from "node:os";
+import { randomBytes } from "node:crypto";
+import { JobRepository } from "./job.repository";
+import { JOB_DEFINITIONS, type JobDefinition } from "./job.definitions";
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const DEFAULT_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Retries wait 1, 2, 4... minutes
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+export type JobTrigger = "schedule" | "manual";
+
+export class JobScheduler {
+  private repository: JobRepository;
+  private definitions: Map<string, JobDefinition>;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  readonly instanceId: string;
+
+  constructor(definitions: JobDefinition[] = JOB_DEFINITIONS) {
+    this.repository = new JobRepository();
+    this.definitions = new Map(definitions.map((definition) => [definition.name, definition]));
+    this.instanceId = `${hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+  }
+
+  getDefinition(name: string): JobDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  getDefinitions(): JobDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.registerJobs();
+
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => console.error("[JOBS] Tick failed:", err));
+    }, TICK_INTERVAL_MS);
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+
+    console.log(`[JOBS] Scheduler started on ${this.instanceId} with ${this.definitions.size} jobs`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async registerJobs(): Promise<void> {
+    const now = new Date();
+    const definitions = this.getDefinitions();
+
+    await this.repository.ensureJobs(definitions.map((definition) => ({
+      name: definition.name,
+      description: definition.description,
+      schedule: definition.schedule.label,
+      next_run_at: definition.schedule.next(now).toISOString(),
+    })));
+
+    // Keep descriptions and schedule labels current after a code change
+    for (const definition of definitions) {
+      await this.repository.syncDefinition(definition.name, {
+        description: definition.description,
+        schedule: definition.schedule.label,
+      });
+    }
+  }
+
+  // Runs every due job one after another; a slow job delays the rest rather than
+  // overlapping with the next tick.
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const dueNames = await this.repository.getDueJobNames(new Date().toISOString());
+
+      for (const name of dueNames) {
+        const definition = this.definitions.get(name);
+        if (!definition) continue;
+
+        await this.runJob(definition, "schedule");
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Returns null when another instance holds the job's lock (or, for scheduled runs,
+  // when it is no longer due); otherwise the finished run.
+  async runJob(definition: JobDefinition, trigger: JobTrigger): Promise<any> {
+    const lockTimeoutMs = definition.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    const maxAttempts = definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    const job = await this.repository.claimJob(
+      definition.name,
+      this.instanceId,
+      new Date(Date.now() + lockTimeoutMs).toISOString(),
+      trigger === "schedule"
+    );
+    if (!job) return null;
+
+    const failures = job.consecutive_failures || 0;
+    const attempt = (failures % maxAttempts) + 1;
+    const startedAt = new Date();
+
+    const run = await this.repository.createRun({
+      job_name: definition.name,
+      status: "running",
+      attempt,
+      trigger,
+      instance_id: this.instanceId,
+      started_at: startedAt.toISOString(),
+    });
+
+    let result: any = null;
+    let errorMessage: string | null = null;
+
+    try {
+      result = await definition.run({ lastSucceededAt: job.last_success_at ?? null });
+    } catch (err: any) {
+      errorMessage = err?.message || String(err);
+      console.error(`[JOBS] ${definition.name} attempt ${attempt} failed:`, err);
+    }
+
+    const finishedAt = new Date();
+    const succeeded = errorMessage === null;
+
+    await this.repository.finishRun(run.id, {
+      status: succeeded ? "succeeded" : "failed",
+      result: result && typeof result === "object" ? result : null,
+      error: errorMessage,
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+    });
+
+    // Manual runs leave the timetable alone unless they fail and need a retry
+    let nextRunAt: Date | null = trigger === "schedule" ? definition.schedule.next(finishedAt) : null;
+    if (!succeeded && attempt < maxAttempts) {
+      nextRunAt = new Date(finishedAt.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+
+    await this.repository.releaseJob(definition.name, this.instanceId, {
+      ...(nextRunAt && { next_run_at: nextRunAt.toISOString() }),
+      last_run_at: startedAt.toISOString(),
+      // The start, not the finish: rows changed while the run was working are picked up next time
+      ...(succeeded && { last_success_at: startedAt.toISOString() }),
+      last_status: succeeded ? "succeeded" : "failed",
+      last_error: errorMessage,
+      consecutive_failures: succeeded ? 0 : failures + 1,
+    });
+
+    return { ...run, status: succeeded ? "succeeded" : "failed", result, error: errorMessage };
+  }
+}
+
+export const jobScheduler = new JobScheduler();
+
+export async function startJobScheduler(): Promise<void> {
+  if (process.env.JOBS_ENABLED === "false") {
+    console.log("[JOBS] Scheduler disabled (JOBS_ENABLED=false)");
+    return;
+  }
+
+  try {
+    await jobScheduler.start();
+  } catch (err) {
+    console.error("[JOBS] Failed to start scheduler:", err);
+  }
+}
@@ -0,0 +1,80 @@
+import type { UpdateScheduledJob } from "@shared/schema";
+import { JobRepository } from "./job.repository";
+import { jobScheduler } from "./job.scheduler";
+import { logAuditEvent } from "../../security/audit-logger";
+
+export class JobService {
+  private repository: JobRepository;
+
+  constructor() {
+    this.repository = new JobRepository();
+  }
+
+  async listJobs(): Promise<any[]> {
+    return this.repository.listJobs();
+  }
+
+  async listRuns(jobName: string | undefined, status: string | undefined, limit: number, offset: number): Promise<any> {
+    const { runs, total } = await this.repository.listRuns({ jobName, status, limit, offset });
+
+    return {
+      runs,
+      pagination: {
+        offset,
+        limit,
+        total
+      }
+    };
+  }
+
+  async runNow(name: string, userId: string, req: any): Promise<any> {
+    const definition = jobScheduler.getDefinition(name);
+    if (!definition) {
+      throw { status: 404, message: "Job not found" };
+    }
+
+    const run = await jobScheduler.runJob(definition, "manual");
+    if (!run) {
+      throw { status: 409, message: "Job is already running" };
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "job_run",
+      resourceType: "scheduled_job",
+      resourceId: name,
+      newData: { runId: run.id, status: run.status },
+      req,
+    });
+
+    return run;
+  }
+
+  async update(name: string, input: UpdateScheduledJob, userId: string, req: any): Promise<any> {
+    const definition = jobScheduler.getDefinition(name);
+    const job = await this.repository.getJob(name);
+    if (!definition || !job) {
+      throw { status: 404, message: "Job not found" };
+    }
+
+    const values: Record<string, any> = { enabled: input.enabled };
+    // A re-enabled job resumes at its next slot instead of catching up on missed ones
+    if (input.enabled && !job.enabled) {
+      values.next_run_at = definition.schedule.next(new Date()).toISOString();
+    }
+
+    const updated = await this.repository.updateJob(name, values);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "scheduled_job",
+      resourceId: name,
+      previousData: { enabled: job.enabled },
+      newData: { enabled: input.enabled },
+      req,
+    });
+
+    return updated;
+  }
+}
@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerLeaseDocumentRoutes } from "./lease-document.routes";
+
+export function registerLeaseDocumentModuleRoutes(app: Express): void {
+  registerLeaseDocumentRoutes(app);
+}
+
+export { LeaseDocumentService } from "./lease-document.service";
+export { LeaseDocumentRepository } from "./lease-document.repository";
@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import PDFDocument from "pdfkit";
+
+export interface LeasePdfSigner {
+  signatureId: string;
+  role: string;
+  name: string;
+  email: string | null;
+  signedAt: string;
+  signatureData: string;
+}
+
+export interface LeasePdfInput {
+  documentId: string;
+  applicationId: string;
+  draftVersion: number | null;
+  propertyTitle: string;
+  propertyAddress: string;
+  tenantName: string;
+  landlordName: string;
+  rentAmount: string | null;
+  securityDeposit: string | null;
+  leaseStartDate: string;
+  leaseEndDate: string;
+  content: string;
+  clauses: Array<{ title: string; content: string }>;
+  signers: LeasePdfSigner[];
+  generatedAt: Date;
+}
+
+const sha256 = (value: string | Buffer) => crypto.createHash("sha256").update(value).digest("hex");
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+
+const formatMoney = (value: string | null) =>
+  value ? `$${parseFloat(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : "—";
+
+// Lease drafts are stored as HTML or plain text; the PDF only needs the text
+export function leaseContentToText(content: string): string {
+  return content
+    .replace(/<\s*br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, "\n\n")
+    .replace(/<li[^>]*>/gi, "• ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Fingerprint of the agreed terms, printed on the certificate page. The PDF's
+// own hash can't be printed inside it, so it is stored alongside the file.
+export function leaseContentHash(input: Pick<LeasePdfInput, "content" | "clauses">): string {
+  return sha256(JSON.stringify({ content: input.content, clauses: input.clauses }));
+}
+
+function signatureImage(signatureData: string): Buffer | null {
+  const match = signatureData.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  return match ? Buffer.from(match[2], "base64") : null;
+}
+
+// Renders the executed lease: terms, agreement text, included clauses, both
+// signatures and an audit certificate page.
+export function renderLeasePdf(input: LeasePdfInput): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "LETTER",
+      margin: 72,
+      info: {
+        Title: `Lease Agreement - ${input.propertyTitle}`,
+        Author: "Choice Properties",
+        Subject: `Executed lease ${input.documentId}`,
+        CreationDate: input.generatedAt,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    // Terms
+    doc.font("Helvetica-Bold").fontSize(20).text("Residential Lease Agreement", { align: "center" });
+    doc.moveDown(0.5);
+    doc.font("Helvetica").fontSize(11).text(`${input.propertyTitle}\n${input.propertyAddress}`, { align: "center" });
+    doc.moveDown(1.5);
+
+    const terms: Array<[string, string]> = [
+      ["Tenant", input.tenantName],
+      ["Landlord", input.landlordName],
+      ["Lease term", `${formatDay(input.leaseStartDate)} to ${formatDay(input.leaseEndDate)}`],
+      ["Monthly rent", formatMoney(input.rentAmount)],
+      ["Security deposit", formatMoney(input.securityDeposit)],
+    ];
+    terms.forEach(([label, value]) => {
+      doc.font("Helvetica-Bold").fontSize(11).text(`${label}: `, { continued: true });
+      doc.font("Helvetica").text(value);
+    });
+    doc.moveDown(1.5);
+
+    // Agreement text and clauses
+    doc.font("Helvetica").fontSize(10.5).text(leaseContentToText(input.content), { align: "justify" });
+
+    if (input.clauses.length > 0) {
+      doc.moveDown(1.5);
+      doc.font("Helvetica-Bold").fontSize(13).text("Additional Clauses");
+      input.clauses.forEach((clause, idx) => {
+        doc.moveDown(0.75);
+        doc.font("Helvetica-Bold").fontSize(11).text(`${idx + 1}. ${clause.title}`);
+        doc.font("Helvetica").fontSize(10.5).text(leaseContentToText(clause.content), { align: "justify" });
+      });
+    }
+
+    // Signatures
+    doc.addPage();
+    doc.font("Helvetica-Bold").fontSize(16).text("Signatures");
+    doc.moveDown();
+    input.signers.forEach((signer) => {
+      doc.font("Helvetica-Bold").fontSize(11).text(`${signer.role === "tenant" ? "Tenant" : "Landlord"}: ${signer.name}`);
+      const image = signatureImage(signer.signatureData);
+      if (image) {
+        try {
+          doc.image(image, { fit: [220, 80] });
+        } catch {
+          doc.font("Helvetica-Oblique").fontSize(10).text("[signature image could not be rendered]");
+        }
+      } else {
+        doc.font("Helvetica-Oblique").fontSize(14).text(signer.signatureData.slice(0, 80));
+      }
+      doc.font("Helvetica").fontSize(10).text(`Signed ${new Date(signer.signedAt).toUTCString()}`);
+      doc.moveDown(1.5);
+    });
+
+    // Audit certificate
+    doc.addPage();
+    doc.font("Helvetica-Bold").fontSize(16).text("Certificate of Completion");
+    doc.moveDown();
+    const certificate: Array<[string, string]> = [
+      ["Document ID", input.documentId],
+      ["Application ID", input.applicationId],
+      ["Lease draft version", input.draftVersion ? String(input.draftVersion) : "—"],
+      ["Generated", input.generatedAt.toUTCString()],
+      ["Terms fingerprint (SHA-256)", leaseContentHash(input)],
+    ];
+    certificate.forEach(([label, value]) => {
+      doc.font("Helvetica-Bold").fontSize(10).text(`${label}: `, { continued: true });
+      doc.font("Courier").fontSize(9).text(value);
+    });
+    doc.moveDown();
+
+    input.signers.forEach((signer) => {
+      doc.font("Helvetica-Bold").fontSize(11).text(`${signer.role === "tenant" ? "Tenant" : "Landlord"} signature`);
+      const rows: Array<[string, string]> = [
+        ["Name", signer.name],
+        ["Email", signer.email || "—"],
+        ["Signed at", new Date(signer.signedAt).toISOString()],
+        ["Signature record", signer.signatureId],
+        ["Signature fingerprint (SHA-256)", sha256(signer.signatureData)],
+      ];
+      rows.forEach(([label, value]) => {
+        doc.font("Helvetica").fontSize(10).text(`${label}: `, { continued: true });
+        doc.font("Courier").fontSize(9).text(value);
+      });
+      doc.moveDown();
+    });
+
+    doc.font("Helvetica-Oblique").fontSize(9).text(
+      "The SHA-256 hash of this PDF is recorded by Choice Properties when it is generated. Any change to the file, " +
+        "however small, produces a different hash. Upload a copy to the lease verification service to confirm it is unaltered."
+    );
+
+    doc.end();
+  });
+}
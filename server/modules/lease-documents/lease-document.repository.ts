@@ -0,0 +1,99 @@
+import { getSupabaseOrThrow } from "../../supabase";
+import { DOCUMENTS_BUCKET } from "../documents/document.repository";
+
+export class LeaseDocumentRepository {
+  async getApplication(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id, user_id, property_id, properties(id, title, address, city, state, owner_id, listing_agent_id), tenant:users!applications_user_id_fkey(id, full_name, email)")
+      .eq("id", applicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getLatestDraft(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_drafts")
+      .select("id, version, content, custom_clauses, rent_amount, security_deposit, lease_start_date, lease_end_date")
+      .eq("application_id", applicationId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getSignatures(applicationId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_signatures")
+      .select("id, signer_id, signer_role, signature_data, document_hash, signed_at, signer:users(full_name, email)")
+      .eq("application_id", applicationId)
+      .order("signed_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Signatures captured before the PDF existed are bound to it once it is rendered
+  async setSignatureHashes(signatureIds: string[], documentHash: string): Promise<void> {
+    if (signatureIds.length === 0) return;
+
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("lease_signatures")
+      .update({ document_hash: documentHash })
+      .in("id", signatureIds)
+      .is("document_hash", null);
+
+    if (error) throw error;
+  }
+
+  async uploadToStorage(path: string, buffer: Buffer): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(path, buffer, { contentType: "application/pdf", upsert: false });
+
+    if (error) throw error;
+  }
+
+  async createSignedUrl(path: string, expiresInSeconds: number): Promise<string | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(path, expiresInSeconds, { download: true });
+
+    if (error) throw error;
+    return data?.signedUrl || null;
+  }
+
+  async createDocument(documentData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_documents")
+      .insert([documentData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listDocuments(applicationId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_documents")
+      .select("*")
+      .eq("application_id", applicationId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+}
@@ -0,0 +1,56 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { verifyLeaseDocumentSchema } from "@shared/schema";
+import { LeaseDocumentService } from "./lease-document.service";
+
+const leaseDocumentService = new LeaseDocumentService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[LEASE_DOCUMENTS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerLeaseDocumentRoutes(app: Express): void {
+  // POST /api/v2/applications/:applicationId/lease/document - Render the executed lease PDF after both signatures
+  app.post("/api/v2/applications/:applicationId/lease/document", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseDocumentService.generateExecutedDocument(req.params.applicationId, req.user!.id, req.user!.role, req);
+
+      return res.status(201).json(success(result, "Executed lease generated"));
+    } catch (err: any) {
+      return handleError(res, err, "Generate", "Failed to generate executed lease");
+    }
+  });
+
+  // GET /api/v2/applications/:applicationId/lease/document - Latest executed lease with its hash and a download link
+  app.get("/api/v2/applications/:applicationId/lease/document", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseDocumentService.getLatestDocument(req.params.applicationId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Executed lease retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to retrieve executed lease");
+    }
+  });
+
+  // POST /api/v2/applications/:applicationId/lease/document/verify - Check an uploaded PDF against the stored hash
+  app.post("/api/v2/applications/:applicationId/lease/document/verify", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = verifyLeaseDocumentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseDocumentService.verifyDocument(req.params.applicationId, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, result.valid ? "Document matches the executed lease" : "Document does not match the executed lease"));
+    } catch (err: any) {
+      return handleError(res, err, "Verify", "Failed to verify lease document");
+    }
+  });
+}
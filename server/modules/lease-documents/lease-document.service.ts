@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import type { VerifyLeaseDocument } from "@shared/schema";
+import { LeaseDocumentRepository } from "./lease-document.repository";
+import { renderLeasePdf, type LeasePdfSigner } from "./lease-document.renderer";
+import { validateFileUpload } from "../../security/file-upload";
+import { logAuditEvent } from "../../security/audit-logger";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Signed download links are handed out per request and expire quickly
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+export class LeaseDocumentService {
+  private repository: LeaseDocumentRepository;
+
+  constructor() {
+    this.repository = new LeaseDocumentRepository();
+  }
+
+  private isLandlord(application: any, userId: string, userRole: string): boolean {
+    const property = application.properties as any;
+    return ADMIN_ROLES.includes(userRole) ||
+      property?.owner_id === userId ||
+      property?.listing_agent_id === userId;
+  }
+
+  private async getApplicationForParty(applicationId: string, userId: string, userRole: string) {
+    const application = await this.repository.getApplication(applicationId);
+
+    if (!application) {
+      throw { status: 404, message: "Application not found" };
+    }
+
+    if (application.user_id !== userId && !this.isLandlord(application, userId, userRole)) {
+      throw { status: 403, message: "Not authorized to access this lease" };
+    }
+
+    return application;
+  }
+
+  // Renders the executed lease once tenant and landlord have both signed,
+  // stores it privately and records the SHA-256 of the exact bytes stored.
+  async generateExecutedDocument(applicationId: string, userId: string, userRole: string, req?: any): Promise<any> {
+    const application = await this.repository.getApplication(applicationId);
+
+    if (!application) {
+      throw { status: 404, message: "Application not found" };
+    }
+
+    if (!this.isLandlord(application, userId, userRole)) {
+      throw { status: 403, message: "Only the landlord can generate the executed lease" };
+    }
+
+    const draft = await this.repository.getLatestDraft(applicationId);
+    if (!draft) {
+      throw { status: 400, message: "No lease draft found for this application" };
+    }
+
+    // Latest signature per side wins if a party re-signed
+    const signatures = await this.repository.getSignatures(applicationId);
+    const tenantSig = signatures.find((s) => s.signer_role === "tenant");
+    const landlordSig = signatures.find((s) => s.signer_role === "landlord");
+
+    if (!tenantSig || !landlordSig) {
+      throw { status: 400, message: "Both tenant and landlord must sign before the lease can be generated" };
+    }
+
+    const property = application.properties as any;
+    const tenant = application.tenant as any;
+    const toSigner = (sig: any, fallbackName: string): LeasePdfSigner => ({
+      signatureId: sig.id,
+      role: sig.signer_role,
+      name: sig.signer?.full_name || fallbackName,
+      email: sig.signer?.email || null,
+      signedAt: sig.signed_at,
+      signatureData: sig.signature_data,
+    });
+
+    const documentId = crypto.randomUUID();
+    const generatedAt = new Date();
+    const pdf = await renderLeasePdf({
+      documentId,
+      applicationId,
+      draftVersion: draft.version ?? null,
+      propertyTitle: property?.title || "Rental property",
+      propertyAddress: [property?.address, property?.city, property?.state].filter(Boolean).join(", "),
+      tenantName: tenant?.full_name || tenantSig.signer?.full_name || "Tenant",
+      landlordName: landlordSig.signer?.full_name || "Landlord",
+      rentAmount: draft.rent_amount,
+      securityDeposit: draft.security_deposit,
+      leaseStartDate: draft.lease_start_date,
+      leaseEndDate: draft.lease_end_date,
+      content: draft.content,
+      clauses: (draft.custom_clauses || [])
+        .filter((clause: any) => clause.included !== false)
+        .map((clause: any) => ({ title: clause.title, content: clause.content })),
+      signers: [toSigner(tenantSig, "Tenant"), toSigner(landlordSig, "Landlord")],
+      generatedAt,
+    });
+
+    const documentHash = crypto.createHash("sha256").update(pdf).digest("hex");
+    const storagePath = `leases/${applicationId}/v${draft.version ?? 1}-${generatedAt.getTime()}.pdf`;
+
+    await this.repository.uploadToStorage(storagePath, pdf);
+
+    const document = await this.repository.createDocument({
+      id: documentId,
+      application_id: applicationId,
+      lease_draft_id: draft.id,
+      draft_version: draft.version ?? null,
+      storage_path: storagePath,
+      document_hash: documentHash,
+      size_bytes: pdf.length,
+      generated_by: userId,
+    });
+
+    await this.repository.setSignatureHashes([tenantSig.id, landlordSig.id], documentHash);
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "lease_document",
+      resourceId: document.id,
+      newData: { applicationId, draftVersion: draft.version, documentHash, sizeBytes: pdf.length },
+      req,
+    });
+
+    return document;
+  }
+
+  async getLatestDocument(applicationId: string, userId: string, userRole: string): Promise<any> {
+    await this.getApplicationForParty(applicationId, userId, userRole);
+
+    const [document] = await this.repository.listDocuments(applicationId);
+    if (!document) {
+      throw { status: 404, message: "The executed lease has not been generated yet" };
+    }
+
+    const downloadUrl = await this.repository.createSignedUrl(document.storage_path, SIGNED_URL_TTL_SECONDS);
+    return { ...document, download_url: downloadUrl };
+  }
+
+  // Hashes an uploaded copy and compares it with every PDF generated for the
+  // application, so an older executed version still verifies as authentic.
+  async verifyDocument(applicationId: string, input: VerifyLeaseDocument, userId: string, userRole: string, req?: any): Promise<any> {
+    await this.getApplicationForParty(applicationId, userId, userRole);
+
+    const buffer = Buffer.from(input.file.data.replace(/^data:[^;]+;base64,/, ""), "base64");
+    const validation = validateFileUpload(input.file.name, input.file.type, buffer.length, buffer);
+
+    if (!validation.valid) {
+      throw { status: 400, message: validation.error };
+    }
+
+    const documents = await this.repository.listDocuments(applicationId);
+    if (documents.length === 0) {
+      throw { status: 404, message: "The executed lease has not been generated yet" };
+    }
+
+    const uploadedHash = validation.checksum!;
+    const match = documents.find((d) => d.document_hash === uploadedHash) || null;
+    const latest = documents[0];
+
+    await logAuditEvent({
+      userId,
+      action: "document_verify",
+      resourceType: "lease_document",
+      resourceId: (match || latest).id,
+      metadata: { verification: match ? "match" : "mismatch", uploadedHash },
+      req,
+    });
+
+    return {
+      valid: !!match,
+      uploadedHash,
+      documentHash: (match || latest).document_hash,
+      isLatest: match?.id === latest.id,
+      document: match ? { id: match.id, draft_version: match.draft_version, created_at: match.created_at } : null,
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerLeaseTemplateRoutes } from "./lease-template.routes";
+
+export function registerLeaseTemplateModuleRoutes(app: Express): void {
+  registerLeaseTemplateRoutes(app);
+}
+
+export { LeaseTemplateService } from "./lease-template.service";
+export { LeaseTemplateRepository } from "./lease-template.repository";
@@ -0,0 +1,122 @@
+import {
+  LEASE_MERGE_FIELDS,
+  STATE_REQUIRED_LEASE_CLAUSES,
+  type LeaseMergeFieldType,
+  type LeaseClauseCategory,
+} from "@shared/schema";
+
+// {{ field.key }} with optional inner whitespace
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-zA-Z0-9_.]+)\s*\}\}/g;
+
+const FIELD_TYPES = new Map<string, LeaseMergeFieldType>(LEASE_MERGE_FIELDS.map((f) => [f.key, f.type]));
+
+export type LeaseMergeValues = Partial<Record<string, string | number | string[] | null>>;
+
+export interface LeaseMergeResult {
+  content: string;
+  unresolved: string[];
+}
+
+export function findMergeFields(content: string): string[] {
+  const keys = new Set<string>();
+  content.replace(MERGE_FIELD_PATTERN, (_placeholder, key: string) => {
+    keys.add(key);
+    return "";
+  });
+  return Array.from(keys);
+}
+
+export function findUnknownMergeFields(content: string): string[] {
+  return findMergeFields(content).filter((key) => !FIELD_TYPES.has(key));
+}
+
+function formatValue(type: LeaseMergeFieldType, value: string | number | string[]): string {
+  if (Array.isArray(value)) return value.join(", ");
+
+  switch (type) {
+    case "currency":
+      return `$${Number(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case "date":
+      return new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+    case "number":
+      return String(Number(value));
+    default:
+      return String(value);
+  }
+}
+
+// Replaces every field that has a value. Anything left (unknown keys or empty
+// values) stays in the text as {{key}} and is reported as unresolved.
+export function renderMergeFields(content: string, values: LeaseMergeValues): LeaseMergeResult {
+  const unresolved = new Set<string>();
+
+  const rendered = content.replace(MERGE_FIELD_PATTERN, (placeholder, key: string) => {
+    const type = FIELD_TYPES.get(key);
+    const value = values[key];
+    const isEmpty = value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+
+    if (!type || isEmpty) {
+      unresolved.add(key);
+      return placeholder;
+    }
+    return formatValue(type, value);
+  });
+
+  return { content: rendered, unresolved: Array.from(unresolved) };
+}
+
+// Builds merge values from an application (with its property, tenant and
+// co-applicants) and the lease draft whose terms are being sent.
+export function buildMergeValues(application: any, draft: any, landlordName: string | null): LeaseMergeValues {
+  const property = application.properties as any;
+  const tenant = application.tenant as any;
+  const policies = application.policies_snapshot || {};
+  const coApplicants: any[] = (application.co_applicants || []).filter((c: any) => c.status !== "rejected");
+
+  const tenantNames = [tenant?.full_name, ...coApplicants.map((c) => c.full_name)].filter(Boolean);
+  const start = draft?.lease_start_date ? new Date(draft.lease_start_date) : null;
+  const end = draft?.lease_end_date ? new Date(draft.lease_end_date) : null;
+  const termMonths = start && end
+    ? (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth())
+    : null;
+
+  return {
+    "tenant.names": tenantNames,
+    "tenant.primary_name": tenant?.full_name ?? null,
+    "tenant.email": tenant?.email ?? null,
+    "landlord.name": landlordName,
+    "property.title": property?.title ?? application.property_title_snapshot ?? null,
+    "property.address": [property?.address ?? application.property_address_snapshot, property?.city, property?.state, property?.zip_code]
+      .filter(Boolean)
+      .join(", ") || null,
+    "property.city": property?.city ?? null,
+    "property.state": property?.state ?? null,
+    "lease.rent": draft?.rent_amount ?? null,
+    "lease.deposit": draft?.security_deposit ?? null,
+    "lease.start_date": draft?.lease_start_date ?? null,
+    "lease.end_date": draft?.lease_end_date ?? null,
+    "lease.term_months": termMonths && termMonths > 0 ? termMonths : null,
+    "policy.pets": policies.petPolicy ?? null,
+    "policy.smoking": policies.smokingPolicy ?? null,
+    "policy.occupancy_limit": policies.occupancyLimit ?? null,
+    "policy.utilities_included": policies.utilitiesIncluded ?? null,
+  };
+}
+
+export function getRequiredClauseCategories(state: string | null | undefined): readonly LeaseClauseCategory[] {
+  return state ? STATE_REQUIRED_LEASE_CLAUSES[state.toUpperCase()] || [] : [];
+}
+
+// Required categories not covered by a clause that will actually be in the lease
+export function findMissingRequiredClauses(
+  state: string | null | undefined,
+  clauses: Array<{ category?: string; optional?: boolean; included?: boolean }>
+): LeaseClauseCategory[] {
+  const covered = new Set(
+    clauses
+      .filter((clause) => clause.included !== false)
+      .map((clause) => clause.category)
+      .filter(Boolean)
+  );
+  return getRequiredClauseCategories(state).filter((category) => !covered.has(category));
+}
@@ -0,0 +1,204 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const TEMPLATE_SELECT =
+  "id, user_id, agency_id, name, description, state, rent_amount, security_deposit, lease_term_months, content, custom_clauses, is_default, created_at, updated_at";
+
+const CLAUSE_SELECT = "id, agency_id, created_by, title, content, category, state, created_at, updated_at";
+
+export class LeaseTemplateRepository {
+  async getUserAgencyId(userId: string): Promise<string | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("agency_id")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.agency_id ?? null;
+  }
+
+  // Own templates plus any shared with the user's agency
+  async listTemplates(userId: string, agencyId: string | null): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase.from("lease_templates").select(TEMPLATE_SELECT);
+
+    query = agencyId
+      ? query.or(`user_id.eq.${userId},agency_id.eq.${agencyId}`)
+      : query.eq("user_id", userId);
+
+    const { data, error } = await query
+      .order("is_default", { ascending: false })
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getTemplate(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_templates")
+      .select(TEMPLATE_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createTemplate(templateData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_templates")
+      .insert([templateData])
+      .select(TEMPLATE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateTemplate(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_templates")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(TEMPLATE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("lease_templates")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  // Only one default per owner
+  async clearDefaultTemplate(userId: string, exceptId: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("lease_templates")
+      .update({ is_default: false })
+      .eq("user_id", userId)
+      .eq("is_default", true)
+      .neq("id", exceptId);
+
+    if (error) throw error;
+  }
+
+  async listClauses(userId: string, agencyId: string | null): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase.from("lease_clauses").select(CLAUSE_SELECT);
+
+    query = agencyId
+      ? query.or(`created_by.eq.${userId},agency_id.eq.${agencyId}`)
+      : query.eq("created_by", userId);
+
+    const { data, error } = await query
+      .order("category", { ascending: true })
+      .order("title", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getClause(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_clauses")
+      .select(CLAUSE_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createClause(clauseData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_clauses")
+      .insert([clauseData])
+      .select(CLAUSE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateClause(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_clauses")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(CLAUSE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteClause(id: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("lease_clauses")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  // Everything merge fields can draw on for one application's lease
+  async getApplicationForLease(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select(`
+        id, user_id, policies_snapshot, property_title_snapshot, property_address_snapshot,
+        properties(id, title, address, city, state, zip_code, owner_id, listing_agent_id),
+        tenant:users!applications_user_id_fkey(id, full_name, email),
+        co_applicants(full_name, status)
+      `)
+      .eq("id", applicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getLatestDraft(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_drafts")
+      .select("id, template_id, version, status, content, custom_clauses, rent_amount, security_deposit, lease_start_date, lease_end_date")
+      .eq("application_id", applicationId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getUserName(userId: string): Promise<string | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("full_name")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.full_name ?? null;
+  }
+}
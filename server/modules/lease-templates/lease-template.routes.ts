@@ -0,0 +1,149 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import {
+  createLeaseTemplateSchema,
+  updateLeaseTemplateSchema,
+  createLeaseClauseSchema,
+  updateLeaseClauseSchema,
+} from "@shared/schema";
+import { LeaseTemplateService } from "./lease-template.service";
+
+const leaseTemplateService = new LeaseTemplateService();
+
+const LANDLORD_ROLES = ["landlord", "property_manager", "agent", "admin", "super_admin"] as const;
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[LEASE_TEMPLATES] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerLeaseTemplateRoutes(app: Express): void {
+  // GET /api/v2/lease-templates/merge-fields - Merge fields usable in template content
+  app.get("/api/v2/lease-templates/merge-fields", authenticateToken, requireRole(...LANDLORD_ROLES), (_req, res) => {
+    return res.json(success(leaseTemplateService.getMergeFields(), "Merge fields retrieved"));
+  });
+
+  // GET /api/v2/lease-templates - Own templates and those shared with the caller's agency
+  app.get("/api/v2/lease-templates", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseTemplateService.listTemplates(req.user!.id);
+
+      return res.json(success(result, "Lease templates retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List templates", "Failed to retrieve lease templates");
+    }
+  });
+
+  // POST /api/v2/lease-templates - Create a template
+  app.post("/api/v2/lease-templates", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createLeaseTemplateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseTemplateService.createTemplate(validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Lease template created"));
+    } catch (err: any) {
+      return handleError(res, err, "Create template", "Failed to create lease template");
+    }
+  });
+
+  // PATCH /api/v2/lease-templates/:id - Update a template
+  app.patch("/api/v2/lease-templates/:id", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateLeaseTemplateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseTemplateService.updateTemplate(req.params.id, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, "Lease template updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update template", "Failed to update lease template");
+    }
+  });
+
+  // DELETE /api/v2/lease-templates/:id - Delete a template
+  app.delete("/api/v2/lease-templates/:id", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      await leaseTemplateService.deleteTemplate(req.params.id, req.user!.id, req.user!.role, req);
+
+      return res.json(success(null, "Lease template deleted"));
+    } catch (err: any) {
+      return handleError(res, err, "Delete template", "Failed to delete lease template");
+    }
+  });
+
+  // GET /api/v2/lease-clauses - Clause library for the caller and their agency
+  app.get("/api/v2/lease-clauses", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseTemplateService.listClauses(req.user!.id);
+
+      return res.json(success(result, "Lease clauses retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List clauses", "Failed to retrieve lease clauses");
+    }
+  });
+
+  // POST /api/v2/lease-clauses - Add a clause to the library
+  app.post("/api/v2/lease-clauses", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createLeaseClauseSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseTemplateService.createClause(validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Lease clause created"));
+    } catch (err: any) {
+      return handleError(res, err, "Create clause", "Failed to create lease clause");
+    }
+  });
+
+  // PATCH /api/v2/lease-clauses/:id - Update a library clause
+  app.patch("/api/v2/lease-clauses/:id", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateLeaseClauseSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseTemplateService.updateClause(req.params.id, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, "Lease clause updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update clause", "Failed to update lease clause");
+    }
+  });
+
+  // DELETE /api/v2/lease-clauses/:id - Remove a clause from the library
+  app.delete("/api/v2/lease-clauses/:id", authenticateToken, requireRole(...LANDLORD_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      await leaseTemplateService.deleteClause(req.params.id, req.user!.id, req.user!.role, req);
+
+      return res.json(success(null, "Lease clause deleted"));
+    } catch (err: any) {
+      return handleError(res, err, "Delete clause", "Failed to delete lease clause");
+    }
+  });
+
+  // GET /api/v2/applications/:applicationId/lease-draft/preview - Draft with merge fields filled in and send blockers
+  app.get("/api/v2/applications/:applicationId/lease-draft/preview", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseTemplateService.previewDraft(req.params.applicationId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Lease draft preview generated"));
+    } catch (err: any) {
+      return handleError(res, err, "Preview draft", "Failed to preview lease draft");
+    }
+  });
+}
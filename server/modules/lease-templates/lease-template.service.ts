@@ -0,0 +1,313 @@
+import type { CreateLeaseTemplate, UpdateLeaseTemplate, CreateLeaseClause, UpdateLeaseClause } from "@shared/schema";
+import { LEASE_MERGE_FIELDS } from "@shared/schema";
+import { LeaseTemplateRepository } from "./lease-template.repository";
+import {
+  buildMergeValues,
+  findMissingRequiredClauses,
+  findUnknownMergeFields,
+  getRequiredClauseCategories,
+  renderMergeFields,
+} from "./lease-template.merge";
+import { logAuditEvent } from "../../security/audit-logger";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+export interface LeaseDraftReadiness {
+  content: string;
+  customClauses: any[];
+  unresolvedFields: string[];
+  missingClauses: string[];
+  state: string | null;
+}
+
+export class LeaseTemplateService {
+  private repository: LeaseTemplateRepository;
+
+  constructor() {
+    this.repository = new LeaseTemplateRepository();
+  }
+
+  getMergeFields() {
+    return LEASE_MERGE_FIELDS;
+  }
+
+  private assertKnownFields(content: string, label: string) {
+    const unknown = findUnknownMergeFields(content);
+    if (unknown.length > 0) {
+      throw { status: 400, message: `${label} uses unknown merge field${unknown.length > 1 ? "s" : ""}: ${unknown.map((k) => `{{${k}}}`).join(", ")}` };
+    }
+  }
+
+  private assertTemplateFields(content: string | undefined, clauses: Array<{ title: string; content: string }> | undefined) {
+    if (content !== undefined) this.assertKnownFields(content, "Template");
+    clauses?.forEach((clause) => this.assertKnownFields(clause.content, `Clause "${clause.title}"`));
+  }
+
+  // Templates are checked against their state on save; the send step enforces it
+  private withCompliance(template: any) {
+    const clauses = (template.custom_clauses || []).map((c: any) => ({ ...c, included: !c.optional }));
+    return {
+      ...template,
+      compliance: {
+        requiredClauses: getRequiredClauseCategories(template.state),
+        missingClauses: findMissingRequiredClauses(template.state, clauses),
+      },
+    };
+  }
+
+  private async getEditableTemplate(id: string, userId: string, userRole: string) {
+    const template = await this.repository.getTemplate(id);
+
+    if (!template) {
+      throw { status: 404, message: "Lease template not found" };
+    }
+
+    if (template.user_id !== userId && !ADMIN_ROLES.includes(userRole)) {
+      throw { status: 403, message: "Only the template owner can change it" };
+    }
+
+    return template;
+  }
+
+  async listTemplates(userId: string): Promise<any[]> {
+    const agencyId = await this.repository.getUserAgencyId(userId);
+    const templates = await this.repository.listTemplates(userId, agencyId);
+    return templates.map((t) => this.withCompliance(t));
+  }
+
+  async createTemplate(input: CreateLeaseTemplate, userId: string, req?: any): Promise<any> {
+    this.assertTemplateFields(input.content, input.customClauses);
+
+    const agencyId = input.shareWithAgency ? await this.repository.getUserAgencyId(userId) : null;
+    if (input.shareWithAgency && !agencyId) {
+      throw { status: 400, message: "You are not a member of an agency" };
+    }
+
+    const template = await this.repository.createTemplate({
+      user_id: userId,
+      agency_id: agencyId,
+      name: input.name,
+      description: input.description ?? null,
+      state: input.state ?? null,
+      rent_amount: input.rentAmount ?? null,
+      security_deposit: input.securityDeposit ?? null,
+      lease_term_months: input.leaseTermMonths ?? null,
+      content: input.content,
+      custom_clauses: input.customClauses,
+      is_default: input.isDefault,
+    });
+
+    if (input.isDefault) await this.repository.clearDefaultTemplate(userId, template.id);
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "lease_template",
+      resourceId: template.id,
+      newData: { name: template.name, state: template.state, agencyId },
+      req,
+    });
+
+    return this.withCompliance(template);
+  }
+
+  async updateTemplate(id: string, input: UpdateLeaseTemplate, userId: string, userRole: string, req?: any): Promise<any> {
+    const existing = await this.getEditableTemplate(id, userId, userRole);
+    this.assertTemplateFields(input.content, input.customClauses);
+
+    const updates: Record<string, any> = {};
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.state !== undefined) updates.state = input.state;
+    if (input.rentAmount !== undefined) updates.rent_amount = input.rentAmount;
+    if (input.securityDeposit !== undefined) updates.security_deposit = input.securityDeposit;
+    if (input.leaseTermMonths !== undefined) updates.lease_term_months = input.leaseTermMonths;
+    if (input.content !== undefined) updates.content = input.content;
+    if (input.customClauses !== undefined) updates.custom_clauses = input.customClauses;
+    if (input.isDefault !== undefined) updates.is_default = input.isDefault;
+    if (input.shareWithAgency !== undefined) {
+      const agencyId = input.shareWithAgency ? await this.repository.getUserAgencyId(existing.user_id) : null;
+      if (input.shareWithAgency && !agencyId) {
+        throw { status: 400, message: "You are not a member of an agency" };
+      }
+      updates.agency_id = agencyId;
+    }
+
+    const template = await this.repository.updateTemplate(id, updates);
+    if (input.isDefault) await this.repository.clearDefaultTemplate(existing.user_id, id);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "lease_template",
+      resourceId: id,
+      previousData: { name: existing.name, state: existing.state, agencyId: existing.agency_id },
+      newData: { ...updates, content: undefined, custom_clauses: undefined },
+      req,
+    });
+
+    return this.withCompliance(template);
+  }
+
+  async deleteTemplate(id: string, userId: string, userRole: string, req?: any): Promise<void> {
+    const existing = await this.getEditableTemplate(id, userId, userRole);
+    await this.repository.deleteTemplate(id);
+
+    await logAuditEvent({
+      userId,
+      action: "delete",
+      resourceType: "lease_template",
+      resourceId: id,
+      previousData: { name: existing.name, state: existing.state },
+      req,
+    });
+  }
+
+  async listClauses(userId: string): Promise<any[]> {
+    const agencyId = await this.repository.getUserAgencyId(userId);
+    return this.repository.listClauses(userId, agencyId);
+  }
+
+  // Agency clauses can be edited by any member; personal ones only by their author
+  private async getEditableClause(id: string, userId: string, userRole: string) {
+    const clause = await this.repository.getClause(id);
+
+    if (!clause) {
+      throw { status: 404, message: "Clause not found" };
+    }
+
+    if (clause.created_by !== userId && !ADMIN_ROLES.includes(userRole)) {
+      const agencyId = clause.agency_id ? await this.repository.getUserAgencyId(userId) : null;
+      if (!agencyId || agencyId !== clause.agency_id) {
+        throw { status: 403, message: "Not authorized to change this clause" };
+      }
+    }
+
+    return clause;
+  }
+
+  async createClause(input: CreateLeaseClause, userId: string, req?: any): Promise<any> {
+    this.assertKnownFields(input.content, "Clause");
+
+    const agencyId = input.shareWithAgency ? await this.repository.getUserAgencyId(userId) : null;
+    const clause = await this.repository.createClause({
+      agency_id: agencyId,
+      created_by: userId,
+      title: input.title,
+      content: input.content,
+      category: input.category,
+      state: input.state ?? null,
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "lease_clause",
+      resourceId: clause.id,
+      newData: { title: clause.title, category: clause.category, state: clause.state, agencyId },
+      req,
+    });
+
+    return clause;
+  }
+
+  async updateClause(id: string, input: UpdateLeaseClause, userId: string, userRole: string, req?: any): Promise<any> {
+    const existing = await this.getEditableClause(id, userId, userRole);
+    if (input.content !== undefined) this.assertKnownFields(input.content, "Clause");
+
+    const updates: Record<string, any> = {};
+    if (input.title !== undefined) updates.title = input.title;
+    if (input.content !== undefined) updates.content = input.content;
+    if (input.category !== undefined) updates.category = input.category;
+    if (input.state !== undefined) updates.state = input.state;
+
+    const clause = await this.repository.updateClause(id, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "lease_clause",
+      resourceId: id,
+      previousData: { title: existing.title, category: existing.category, state: existing.state },
+      newData: { title: clause.title, category: clause.category, state: clause.state },
+      req,
+    });
+
+    return clause;
+  }
+
+  async deleteClause(id: string, userId: string, userRole: string, req?: any): Promise<void> {
+    const existing = await this.getEditableClause(id, userId, userRole);
+    await this.repository.deleteClause(id);
+
+    await logAuditEvent({
+      userId,
+      action: "delete",
+      resourceType: "lease_clause",
+      resourceId: id,
+      previousData: { title: existing.title, category: existing.category },
+      req,
+    });
+  }
+
+  // Merges the latest draft for an application and reports anything that would
+  // block sending it: merge fields without a value and state-required clauses
+  // that aren't included. Drafts keep their {{fields}} until the lease is sent
+  // so edits to rent or dates flow into the final text.
+  async getDraftReadiness(applicationId: string): Promise<LeaseDraftReadiness> {
+    const application = await this.repository.getApplicationForLease(applicationId);
+    if (!application) {
+      throw { status: 404, message: "Application not found" };
+    }
+
+    const draft = await this.repository.getLatestDraft(applicationId);
+    if (!draft) {
+      throw { status: 404, message: "No lease draft found" };
+    }
+
+    const property = application.properties as any;
+    const template = draft.template_id ? await this.repository.getTemplate(draft.template_id) : null;
+    const landlordName = property?.owner_id ? await this.repository.getUserName(property.owner_id) : null;
+    const values = buildMergeValues(application, draft, landlordName);
+
+    const unresolved = new Set<string>();
+    const body = renderMergeFields(draft.content || "", values);
+    body.unresolved.forEach((key) => unresolved.add(key));
+
+    const customClauses = (draft.custom_clauses || []).map((clause: any) => {
+      if (clause.included === false) return clause;
+      const merged = renderMergeFields(clause.content, values);
+      merged.unresolved.forEach((key) => unresolved.add(key));
+      return { ...clause, content: merged.content };
+    });
+
+    const state = template?.state ?? property?.state ?? null;
+
+    return {
+      content: body.content,
+      customClauses,
+      unresolvedFields: Array.from(unresolved),
+      missingClauses: findMissingRequiredClauses(state, customClauses),
+      state,
+    };
+  }
+
+  async previewDraft(applicationId: string, userId: string, userRole: string): Promise<LeaseDraftReadiness & { ready: boolean }> {
+    const application = await this.repository.getApplicationForLease(applicationId);
+    if (!application) {
+      throw { status: 404, message: "Application not found" };
+    }
+
+    const property = application.properties as any;
+    const canView = ADMIN_ROLES.includes(userRole) || property?.owner_id === userId || property?.listing_agent_id === userId;
+    if (!canView) {
+      throw { status: 403, message: "Only the landlord can preview the lease draft" };
+    }
+
+    const readiness = await this.getDraftReadiness(applicationId);
+    return {
+      ...readiness,
+      ready: readiness.unresolvedFields.length === 0 && readiness.missingClauses.length === 0,
+    };
+  }
+}
@@ -1,10 +1,15 @@
-import { supabase } from "../../supabase";
+import { supabase, getSupabaseOrThrow } from "../../supabase";
+
+// Leases that still bill rent: fixed-term and rolled over to month-to-month
+export const RUNNING_LEASE_STATUSES = ["active", "month_to_month"];
+
+const PAST_DUE_PAGE_SIZE = 500;
 
 export class LeaseRepository {
   async getLeaseById(leaseId: string): Promise<any> {
     const { data, error } = await supabase
       .from("leases")
-      .select("id, landlord_id, tenant_id, monthly_rent, security_deposit_amount, applications(property_id, properties(title, address))")
+      .select("id, landlord_id, tenant_id, monthly_rent, security_deposit_amount, late_fee_type, late_fee_amount, late_fee_grace_days, late_fee_max_amount, applications(property_id, properties(title, address))")
       .eq("id", leaseId)
       .single();
 
@@ -15,7 +20,7 @@ export class LeaseRepository {
   async getLeaseWithDates(leaseId: string): Promise<any> {
     const { data, error } = await supabase
       .from("leases")
-      .select("id, tenant_id, landlord_id, monthly_rent, rent_due_day, lease_start_date, lease_end_date")
+      .select("id, tenant_id, landlord_id, monthly_rent, rent_due_day, lease_start_date, lease_end_date, move_out_date")
       .eq("id", leaseId)
       .single();
 
@@ -77,4 +82,365 @@ export class LeaseRepository {
     if (error) throw error;
     return data || [];
   }
+
+  // ===== Late fees =====
+
+  async updateLateFeeRules(leaseId: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", leaseId)
+      .select("id, late_fee_type, late_fee_amount, late_fee_grace_days, late_fee_max_amount")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Unpaid rent past its due date on running leases, with the lease's late fee
+  // rule. Payments already overdue with every reminder sent are done and left
+  // out; the rest is read a page at a time so a backlog can't starve newer rows.
+  async getPastDueRentPayments(now: string, finalReminderLevel: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const payments: any[] = [];
+
+    for (let offset = 0; ; offset += PAST_DUE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("id, lease_id, tenant_id, amount, status, due_date, overdue_at, reminder_level, leases!inner(id, status, landlord_id, late_fee_type, late_fee_amount, late_fee_grace_days, late_fee_max_amount)")
+        .eq("type", "rent")
+        .in("status", ["pending", "overdue"])
+        .or(`status.eq.pending,reminder_level.is.null,reminder_level.lt.${finalReminderLevel}`)
+        .lt("due_date", now)
+        .in("leases.status", RUNNING_LEASE_STATUSES)
+        .order("due_date", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + PAST_DUE_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      payments.push(...(data || []));
+      if (!data || data.length < PAST_DUE_PAGE_SIZE) break;
+    }
+
+    return payments;
+  }
+
+  // Guarded on the current status so a payment made mid-sweep is not flagged
+  async markPaymentOverdue(paymentId: string): Promise<boolean> {
+    const supabase = getSupabaseOrThrow();
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from("payments")
+      .update({ status: "overdue", overdue_at: now, updated_at: now })
+      .eq("id", paymentId)
+      .eq("status", "pending")
+      .select("id");
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async findLateFeeForPayment(paymentId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payments")
+      .select("id, amount")
+      .eq("type", "late_fee")
+      .eq("parent_payment_id", paymentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Returns null when the payment already has a late fee (unique index in migrations/0008)
+  async createLateFee(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payments")
+      .insert([{ ...values, type: "late_fee", status: "pending" }])
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") return null;
+      throw error;
+    }
+    return data;
+  }
+
+  async setReminderLevel(paymentId: string, level: number): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("payments")
+      .update({ reminder_level: level, updated_at: new Date().toISOString() })
+      .eq("id", paymentId);
+
+    if (error) throw error;
+  }
+
+  // Unpaid rent due within the window on running leases
+  async getUpcomingRentPayments(from: string, until: string, limit: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payments")
+      .select("id, tenant_id, amount, due_date, leases!inner(id, status)")
+      .eq("type", "rent")
+      .eq("status", "pending")
+      .gte("due_date", from)
+      .lte("due_date", until)
+      .in("leases.status", RUNNING_LEASE_STATUSES)
+      .order("due_date", { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // ===== Renewals and notices =====
+
+  async getLeaseTerms(leaseId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .select("id, tenant_id, landlord_id, property_id, monthly_rent, rent_due_day, lease_start_date, lease_end_date, notice_period_days, early_termination_fee, move_out_date, ended_at, status, properties(title, address)")
+      .eq("id", leaseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateLease(leaseId: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", leaseId)
+      .select("id, monthly_rent, lease_start_date, lease_end_date, notice_period_days, early_termination_fee, move_out_date, ended_at, status")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getLeaseTemplate(templateId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_templates")
+      .select("id, user_id, name, rent_amount, lease_term_months")
+      .eq("id", templateId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Unpaid rent due after a date, replaced when the term or rent changes
+  async deletePendingRentAfter(leaseId: string, after: string): Promise<number> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payments")
+      .delete()
+      .eq("lease_id", leaseId)
+      .eq("type", "rent")
+      .eq("status", "pending")
+      .gt("due_date", after)
+      .select("id");
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  async createEarlyTerminationFee(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payments")
+      .insert([{ ...values, type: "early_termination_fee", status: "pending" }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Only an unpaid fee is removed; one already paid stays on the ledger
+  async deletePendingPayment(paymentId: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("payments")
+      .delete()
+      .eq("id", paymentId)
+      .eq("status", "pending");
+
+    if (error) throw error;
+  }
+
+  async getRenewals(leaseId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_renewals")
+      .select("*, lease_templates(name)")
+      .eq("lease_id", leaseId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getRenewal(leaseId: string, renewalId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_renewals")
+      .select("*")
+      .eq("id", renewalId)
+      .eq("lease_id", leaseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findPendingRenewal(leaseId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_renewals")
+      .select("id")
+      .eq("lease_id", leaseId)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createRenewal(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_renewals")
+      .insert([values])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Guarded on pending so two responses can't both apply
+  async updatePendingRenewal(renewalId: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_renewals")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", renewalId)
+      .eq("status", "pending")
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async withdrawPendingRenewals(leaseId: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("lease_renewals")
+      .update({ status: "withdrawn", updated_at: new Date().toISOString() })
+      .eq("lease_id", leaseId)
+      .eq("status", "pending");
+
+    if (error) throw error;
+  }
+
+  async expireRenewalsBefore(now: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_renewals")
+      .update({ status: "expired", updated_at: now })
+      .eq("status", "pending")
+      .lt("response_deadline", now)
+      .select("id, lease_id");
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getNotices(leaseId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_notices")
+      .select("*, fee_payment:payments(id, amount, status)")
+      .eq("lease_id", leaseId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getNotice(leaseId: string, noticeId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_notices")
+      .select("*")
+      .eq("id", noticeId)
+      .eq("lease_id", leaseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findPendingNotice(leaseId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_notices")
+      .select("id, early_termination")
+      .eq("lease_id", leaseId)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createNotice(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_notices")
+      .insert([values])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateNotice(noticeId: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("lease_notices")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", noticeId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Running leases whose move-out date or current term end has passed
+  async getLeasesDueForTermChange(now: string, limit: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .select("id, tenant_id, landlord_id, monthly_rent, rent_due_day, lease_end_date, move_out_date, status")
+      .in("status", RUNNING_LEASE_STATUSES)
+      .or(`move_out_date.lte.${now},lease_end_date.lte.${now}`)
+      .order("lease_end_date", { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
 }
@@ -3,6 +3,13 @@ import type { AuthenticatedRequest } from "../../auth-middleware";
 import { authenticateToken } from "../../auth-middleware";
 import { success, error as errorResponse } from "../../response";
 import { LeaseService } from "./lease.service";
+import {
+  lateFeeRulesSchema,
+  leaseTerminationTermsSchema,
+  createLeaseRenewalSchema,
+  respondLeaseRenewalSchema,
+  createLeaseNoticeSchema,
+} from "@shared/schema";
 
 const leaseService = new LeaseService();
 
@@ -25,7 +32,10 @@ export function registerLeaseRoutes(app: Express): void {
   // POST /api/v2/leases/:leaseId/generate-rent-payments - Generate rent payments
   app.post("/api/v2/leases/:leaseId/generate-rent-payments", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const { gracePeriodDays = 0 } = req.body;
+      const { gracePeriodDays } = req.body;
+      if (gracePeriodDays !== undefined && (!Number.isInteger(gracePeriodDays) || gracePeriodDays < 0 || gracePeriodDays > 31)) {
+        return res.status(400).json({ error: "gracePeriodDays must be a whole number between 0 and 31" });
+      }
 
       const result = await leaseService.generateRentPayments(
         req.params.leaseId,
@@ -59,4 +69,192 @@ export function registerLeaseRoutes(app: Express): void {
       return res.status(500).json(errorResponse("Failed to retrieve rent payments"));
     }
   });
+
+  // PUT /api/v2/leases/:leaseId/late-fee-rules - Set late fee and grace period rules
+  app.put("/api/v2/leases/:leaseId/late-fee-rules", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = lateFeeRulesSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseService.updateLateFeeRules(
+        req.params.leaseId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Late fee rules updated successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Update late fee rules error:", err);
+      return res.status(500).json(errorResponse("Failed to update late fee rules"));
+    }
+  });
+
+  // GET /api/v2/leases/:leaseId/lifecycle - Get lease term, renewal offers and notices
+  app.get("/api/v2/leases/:leaseId/lifecycle", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseService.getLifecycle(req.params.leaseId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Lease details retrieved successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Lifecycle error:", err);
+      return res.status(500).json(errorResponse("Failed to retrieve lease details"));
+    }
+  });
+
+  // PUT /api/v2/leases/:leaseId/termination-terms - Set the notice period and early termination fee
+  app.put("/api/v2/leases/:leaseId/termination-terms", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = leaseTerminationTermsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseService.updateTerminationTerms(
+        req.params.leaseId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Termination terms updated successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Update termination terms error:", err);
+      return res.status(500).json(errorResponse("Failed to update termination terms"));
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/renewals - Offer the tenant a renewal
+  app.post("/api/v2/leases/:leaseId/renewals", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createLeaseRenewalSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseService.createRenewalOffer(
+        req.params.leaseId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Renewal offer sent successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Create renewal error:", err);
+      return res.status(500).json(errorResponse("Failed to create renewal offer"));
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/renewals/:renewalId/respond - Tenant accepts or declines a renewal offer
+  app.post("/api/v2/leases/:leaseId/renewals/:renewalId/respond", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = respondLeaseRenewalSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseService.respondToRenewal(
+        req.params.leaseId,
+        req.params.renewalId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Renewal response recorded successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Respond to renewal error:", err);
+      return res.status(500).json(errorResponse("Failed to respond to renewal offer"));
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/renewals/:renewalId/withdraw - Withdraw a pending renewal offer
+  app.post("/api/v2/leases/:leaseId/renewals/:renewalId/withdraw", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseService.withdrawRenewal(
+        req.params.leaseId,
+        req.params.renewalId,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Renewal offer withdrawn successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Withdraw renewal error:", err);
+      return res.status(500).json(errorResponse("Failed to withdraw renewal offer"));
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/notices - Give notice to vacate
+  app.post("/api/v2/leases/:leaseId/notices", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createLeaseNoticeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await leaseService.giveNotice(
+        req.params.leaseId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Notice to vacate recorded successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Give notice error:", err);
+      return res.status(500).json(errorResponse("Failed to give notice"));
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/notices/:noticeId/cancel - Withdraw a pending notice to vacate
+  app.post("/api/v2/leases/:leaseId/notices/:noticeId/cancel", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leaseService.cancelNotice(
+        req.params.leaseId,
+        req.params.noticeId,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Notice to vacate withdrawn successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[LEASES] Cancel notice error:", err);
+      return res.status(500).json(errorResponse("Failed to withdraw notice"));
+    }
+  });
 }
@@ -1,5 +1,81 @@
-import { LeaseRepository } from "./lease.repository";
+import { LeaseRepository, RUNNING_LEASE_STATUSES } from "./lease.repository";
 import { logAuditEvent } from "../../security/audit-logger";
+import {
+  sendRentOverdueNotification,
+  sendRentDueSoonNotification,
+  sendLeaseUpdateNotification,
+} from "../../notification-service";
+import type { LateFeeRules, LeaseTerminationTerms, CreateLeaseRenewal, RespondLeaseRenewal, CreateLeaseNotice } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Overdue reminders go out when a payment becomes overdue, then 7 and 14 days later
+const OVERDUE_REMINDER_DAYS = [0, 7, 14];
+
+// How far ahead tenants are reminded of upcoming rent
+const RENT_DUE_REMINDER_DAYS = 3;
+
+// Renewal offers the landlord doesn't give a deadline for stay open this long
+const DEFAULT_RENEWAL_RESPONSE_DAYS = 14;
+const DEFAULT_RENEWAL_TERM_MONTHS = 12;
+
+export function calculateLateFee(rent: number, lease: any): number {
+  const amount = parseFloat(lease.late_fee_amount ?? "0");
+  if (!amount || lease.late_fee_type === "none" || !lease.late_fee_type) return 0;
+
+  let fee = lease.late_fee_type === "percent" ? (rent * amount) / 100 : amount;
+  if (lease.late_fee_max_amount) {
+    fee = Math.min(fee, parseFloat(lease.late_fee_max_amount));
+  }
+  return Math.round(fee * 100) / 100;
+}
+
+// Monthly rent rows due on the lease's rent day between two dates, inclusive
+function buildRentSchedule(lease: any, rentAmount: number, startDate: Date, endDate: Date): any[] {
+  const rentDueDay = lease.rent_due_day || 1;
+  const paymentsToCreate = [];
+  const currentDate = new Date(startDate);
+
+  while (currentDate < endDate) {
+    // Calculate the due date for this month (rentDueDay of current month)
+    const dueDate = new Date(currentDate.getFullYear(), currentDate.getMonth(), rentDueDay);
+
+    // If the due date is before the lease start, set it to next month
+    if (dueDate < startDate) {
+      dueDate.setMonth(dueDate.getMonth() + 1);
+    }
+
+    // Only add if due date is within lease period
+    if (dueDate <= endDate) {
+      paymentsToCreate.push({
+        lease_id: lease.id,
+        tenant_id: lease.tenant_id,
+        amount: rentAmount,
+        type: "rent",
+        status: "pending",
+        due_date: dueDate.toISOString()
+      });
+    }
+
+    // Move to next month
+    currentDate.setMonth(currentDate.getMonth() + 1);
+  }
+
+  return paymentsToCreate;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Start of the day in UTC, so notice periods count whole days
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleDateString();
 
 export class LeaseService {
   private repository: LeaseRepository;
@@ -56,14 +132,20 @@ export class LeaseService {
         id: lease.id,
         property: (lease.applications as any)?.[0]?.properties,
         monthlyRent: lease.monthly_rent,
-        securityDepositAmount: lease.security_deposit_amount
+        securityDepositAmount: lease.security_deposit_amount,
+        lateFeeRules: {
+          type: lease.late_fee_type || "none",
+          amount: lease.late_fee_amount ? parseFloat(lease.late_fee_amount) : null,
+          graceDays: lease.late_fee_grace_days ?? 0,
+          maxAmount: lease.late_fee_max_amount ? parseFloat(lease.late_fee_max_amount) : null,
+        }
       },
       payments: enrichedPayments,
       summary
     };
   }
 
-  async generateRentPayments(leaseId: string, userId: string, userRole: string, gracePeriodDays: number = 0, req: any): Promise<any> {
+  async generateRentPayments(leaseId: string, userId: string, userRole: string, gracePeriodDays: number | undefined, req: any): Promise<any> {
     const lease = await this.repository.getLeaseWithDates(leaseId);
 
     if (!lease) {
@@ -78,40 +160,24 @@ export class LeaseService {
       throw { status: 403, message: "Not authorized to generate rent payments" };
     }
 
-    const startDate = new Date(lease.lease_start_date);
-    const endDate = new Date(lease.lease_end_date);
-    const rentDueDay = lease.rent_due_day || 1;
-    const rentAmount = parseFloat(lease.monthly_rent.toString());
-
-    // Generate monthly rent payment dates
-    const paymentsToCreate = [];
-    const currentDate = new Date(startDate);
-
-    while (currentDate < endDate) {
-      // Calculate the due date for this month (rentDueDay of current month)
-      const dueDate = new Date(currentDate.getFullYear(), currentDate.getMonth(), rentDueDay);
-
-      // If the due date is before the lease start, set it to next month
-      if (dueDate < startDate) {
-        dueDate.setMonth(dueDate.getMonth() + 1);
-      }
-
-      // Only add if due date is within lease period
-      if (dueDate <= endDate) {
-        paymentsToCreate.push({
-          lease_id: leaseId,
-          tenant_id: lease.tenant_id,
-          amount: rentAmount,
-          type: "rent",
-          status: "pending",
-          due_date: dueDate.toISOString()
-        });
+    // The grace period is a lease term, so only the landlord side may change it
+    if (gracePeriodDays !== undefined) {
+      if (!isLandlord && !isAdmin) {
+        throw { status: 403, message: "Only the landlord can set the grace period" };
       }
-
-      // Move to next month
-      currentDate.setMonth(currentDate.getMonth() + 1);
+      await this.repository.updateLateFeeRules(leaseId, { late_fee_grace_days: gracePeriodDays });
     }
 
+    // No rent is due past a tenant's notified move-out
+    const endDate = new Date(lease.lease_end_date);
+    const moveOut = lease.move_out_date ? new Date(lease.move_out_date) : null;
+    const paymentsToCreate = buildRentSchedule(
+      lease,
+      parseFloat(lease.monthly_rent.toString()),
+      new Date(lease.lease_start_date),
+      moveOut && moveOut < endDate ? moveOut : endDate
+    );
+
     if (paymentsToCreate.length === 0) {
       return { created: 0, message: "No rent payments to create for lease period" };
     }
@@ -183,4 +249,623 @@ export class LeaseService {
 
     return { payments: grouped, stats };
   }
+
+  async updateLateFeeRules(leaseId: string, input: LateFeeRules, userId: string, userRole: string, req: any): Promise<any> {
+    const lease = await this.repository.getLeaseById(leaseId);
+
+    if (!lease) {
+      throw { status: 404, message: "Lease not found" };
+    }
+
+    if (lease.landlord_id !== userId && userRole !== "admin") {
+      throw { status: 403, message: "Only the landlord can change late fee rules" };
+    }
+
+    const updated = await this.repository.updateLateFeeRules(leaseId, {
+      late_fee_type: input.type,
+      late_fee_amount: input.type === "none" ? null : input.amount,
+      late_fee_grace_days: input.graceDays,
+      late_fee_max_amount: input.type === "none" ? null : input.maxAmount ?? null,
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "lease",
+      resourceId: leaseId,
+      previousData: {
+        lateFeeType: lease.late_fee_type,
+        lateFeeAmount: lease.late_fee_amount,
+        lateFeeGraceDays: lease.late_fee_grace_days,
+        lateFeeMaxAmount: lease.late_fee_max_amount,
+      },
+      newData: { ...input },
+      req
+    });
+
+    return updated;
+  }
+
+  // Scheduled sweep: flags rent past its grace period as overdue, charges the lease's
+  // late fee once per payment, and sends escalating reminders.
+  async processOverduePayments(): Promise<{ markedOverdue: number; lateFeesCreated: number; remindersSent: number }> {
+    const now = new Date();
+    const result = { markedOverdue: 0, lateFeesCreated: 0, remindersSent: 0 };
+
+    const pastDue = await this.repository.getPastDueRentPayments(now.toISOString(), OVERDUE_REMINDER_DAYS.length);
+
+    for (const payment of pastDue) {
+      try {
+        const lease = payment.leases as any;
+        const graceDays = lease?.late_fee_grace_days ?? 0;
+        const overdueFrom = new Date(new Date(payment.due_date).getTime() + graceDays * DAY_MS);
+        if (now < overdueFrom) continue;
+
+        if (payment.status === "pending") {
+          const marked = await this.repository.markPaymentOverdue(payment.id);
+          if (!marked) continue;
+          result.markedOverdue++;
+
+          await logAuditEvent({
+            action: "payment_marked_overdue",
+            resourceType: "payment",
+            resourceId: payment.id,
+            previousData: { status: "pending" },
+            newData: { status: "overdue" },
+            metadata: {
+              actionType: "payment_marked_overdue",
+              dueDate: payment.due_date,
+              graceDays,
+              timestamp: now.toISOString(),
+            },
+          });
+        }
+
+        let lateFee = await this.repository.findLateFeeForPayment(payment.id);
+        const feeAmount = calculateLateFee(parseFloat(payment.amount), lease);
+        if (!lateFee && feeAmount > 0) {
+          const created = await this.repository.createLateFee({
+            lease_id: payment.lease_id,
+            tenant_id: payment.tenant_id,
+            amount: feeAmount,
+            due_date: now.toISOString(),
+            parent_payment_id: payment.id,
+            notes: `Late fee for rent due ${new Date(payment.due_date).toLocaleDateString()}`,
+          });
+
+          if (created) {
+            lateFee = created;
+            result.lateFeesCreated++;
+
+            await logAuditEvent({
+              action: "payment_created",
+              resourceType: "payment",
+              resourceId: lateFee.id,
+              newData: { type: "late_fee", amount: feeAmount, parentPaymentId: payment.id },
+              metadata: { actionType: "payment_created", lateFeeType: lease.late_fee_type },
+            });
+          } else {
+            // A concurrent run charged it first
+            lateFee = await this.repository.findLateFeeForPayment(payment.id);
+          }
+        }
+
+        const daysOverdue = Math.floor((now.getTime() - overdueFrom.getTime()) / DAY_MS);
+        const level = OVERDUE_REMINDER_DAYS.filter((days) => daysOverdue >= days).length;
+        if (level > (payment.reminder_level || 0)) {
+          const sent = await sendRentOverdueNotification(
+            payment.id,
+            level,
+            lateFee ? parseFloat(lateFee.amount).toFixed(2) : null
+          );
+          // Record the level either way so a bounced email is not resent every run
+          await this.repository.setReminderLevel(payment.id, level);
+          if (sent) result.remindersSent++;
+        }
+      } catch (err) {
+        console.error(`[LEASES] Failed to process overdue payment ${payment.id}:`, err);
+      }
+    }
+
+    return result;
+  }
+
+  // Scheduled sweep: reminds tenants of rent due in the next few days. The notification
+  // itself skips tenants already reminded within the last day.
+  async sendRentDueReminders(): Promise<{ remindersSent: number }> {
+    const now = new Date();
+    const until = new Date(now.getTime() + RENT_DUE_REMINDER_DAYS * DAY_MS);
+    let remindersSent = 0;
+
+    const upcoming = await this.repository.getUpcomingRentPayments(now.toISOString(), until.toISOString(), 500);
+
+    for (const payment of upcoming) {
+      try {
+        const dueDate = new Date(payment.due_date);
+        const daysUntilDue = Math.max(0, Math.ceil((dueDate.getTime() - now.getTime()) / DAY_MS));
+        const sent = await sendRentDueSoonNotification(
+          payment.tenant_id,
+          parseFloat(payment.amount).toFixed(2),
+          dueDate.toLocaleDateString(),
+          daysUntilDue
+        );
+        if (sent) remindersSent++;
+      } catch (err) {
+        console.error(`[LEASES] Failed to send rent reminder for payment ${payment.id}:`, err);
+      }
+    }
+
+    return { remindersSent };
+  }
+
+  // ===== Renewals and notices =====
+
+  private async getLeaseForParty(leaseId: string, userId: string, userRole: string) {
+    const lease = await this.repository.getLeaseTerms(leaseId);
+
+    if (!lease) {
+      throw { status: 404, message: "Lease not found" };
+    }
+
+    const isLandlord = lease.landlord_id === userId;
+    const isTenant = lease.tenant_id === userId;
+    const isAdmin = userRole === "admin";
+
+    if (!isLandlord && !isTenant && !isAdmin) {
+      throw { status: 403, message: "Not authorized to view this lease" };
+    }
+
+    return { lease, isLandlord, isTenant, isAdmin };
+  }
+
+  // Replaces unpaid rent after `from` with rent at the new amount up to `until`
+  private async regenerateRent(lease: any, rentAmount: number, from: Date, until: Date): Promise<number> {
+    await this.repository.deletePendingRentAfter(lease.id, from.toISOString());
+
+    const schedule = buildRentSchedule(lease, rentAmount, from, until);
+    const existingPayments = await this.repository.getExistingRentPayments(lease.id);
+    const existingDates = new Set(existingPayments.map((p) => new Date(p.due_date).toDateString()));
+    const newPayments = schedule.filter((p) => !existingDates.has(new Date(p.due_date).toDateString()));
+
+    if (newPayments.length === 0) return 0;
+    const inserted = await this.repository.createRentPayments(newPayments);
+    return inserted.length;
+  }
+
+  private notifyParty(leaseId: string, recipientId: string | null, headline: string, detail?: string) {
+    if (!recipientId) return;
+    sendLeaseUpdateNotification(leaseId, recipientId, headline, detail).catch((err) =>
+      console.error("[LEASES] Lease update notification failed:", err)
+    );
+  }
+
+  // Lease term, termination terms, renewal offers and notices in one view
+  async getLifecycle(leaseId: string, userId: string, userRole: string): Promise<any> {
+    const { lease } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    const [renewals, notices] = await Promise.all([
+      this.repository.getRenewals(leaseId),
+      this.repository.getNotices(leaseId),
+    ]);
+
+    return {
+      lease: {
+        id: lease.id,
+        property: lease.properties,
+        status: lease.status,
+        monthlyRent: lease.monthly_rent,
+        leaseStartDate: lease.lease_start_date,
+        leaseEndDate: lease.lease_end_date,
+        noticePeriodDays: lease.notice_period_days,
+        earlyTerminationFee: lease.early_termination_fee ? parseFloat(lease.early_termination_fee) : null,
+        moveOutDate: lease.move_out_date,
+        endedAt: lease.ended_at,
+      },
+      renewals,
+      notices,
+    };
+  }
+
+  async updateTerminationTerms(leaseId: string, input: LeaseTerminationTerms, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease, isLandlord, isAdmin } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    if (!isLandlord && !isAdmin) {
+      throw { status: 403, message: "Only the landlord can change termination terms" };
+    }
+
+    const updated = await this.repository.updateLease(leaseId, {
+      notice_period_days: input.noticePeriodDays,
+      early_termination_fee: input.earlyTerminationFee ?? null,
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "lease",
+      resourceId: leaseId,
+      previousData: {
+        noticePeriodDays: lease.notice_period_days,
+        earlyTerminationFee: lease.early_termination_fee,
+      },
+      newData: { ...input },
+      req
+    });
+
+    return updated;
+  }
+
+  // Offers the tenant a new term starting when the current one ends. Rent and
+  // length come from the request, then the chosen lease template, then the lease.
+  async createRenewalOffer(leaseId: string, input: CreateLeaseRenewal, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease, isLandlord, isAdmin } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    if (!isLandlord && !isAdmin) {
+      throw { status: 403, message: "Only the landlord can offer a renewal" };
+    }
+
+    if (!RUNNING_LEASE_STATUSES.includes(lease.status)) {
+      throw { status: 400, message: "Only a running lease can be renewed" };
+    }
+
+    if (await this.repository.findPendingNotice(leaseId)) {
+      throw { status: 409, message: "A notice to vacate is pending on this lease" };
+    }
+
+    if (await this.repository.findPendingRenewal(leaseId)) {
+      throw { status: 409, message: "A renewal offer is already awaiting a response" };
+    }
+
+    let template: any = null;
+    if (input.templateId) {
+      template = await this.repository.getLeaseTemplate(input.templateId);
+      if (!template || (template.user_id !== userId && template.user_id !== lease.landlord_id)) {
+        throw { status: 404, message: "Lease template not found" };
+      }
+    }
+
+    const monthlyRent = input.monthlyRent
+      ?? (template?.rent_amount ? parseFloat(template.rent_amount) : parseFloat(lease.monthly_rent));
+    const termMonths = input.monthToMonth
+      ? null
+      : input.termMonths ?? template?.lease_term_months ?? DEFAULT_RENEWAL_TERM_MONTHS;
+
+    const startDate = new Date(lease.lease_end_date);
+    const responseDeadline = input.responseDeadline
+      ? new Date(input.responseDeadline)
+      : new Date(Date.now() + DEFAULT_RENEWAL_RESPONSE_DAYS * DAY_MS);
+
+    if (responseDeadline <= new Date()) {
+      throw { status: 400, message: "The response deadline must be in the future" };
+    }
+
+    const renewal = await this.repository.createRenewal({
+      lease_id: leaseId,
+      template_id: template?.id ?? null,
+      offered_by: userId,
+      monthly_rent: monthlyRent,
+      term_months: termMonths,
+      start_date: startDate.toISOString(),
+      end_date: termMonths ? addMonths(startDate, termMonths).toISOString() : null,
+      message: input.message ?? null,
+      status: "pending",
+      response_deadline: responseDeadline.toISOString(),
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "lease",
+      resourceId: leaseId,
+      previousData: { monthlyRent: lease.monthly_rent, leaseEndDate: lease.lease_end_date },
+      newData: { renewalId: renewal.id, monthlyRent, termMonths, templateId: template?.id ?? null },
+      req
+    });
+
+    this.notifyParty(
+      leaseId,
+      lease.tenant_id,
+      termMonths
+        ? `You've been offered a ${termMonths}-month renewal at $${monthlyRent.toFixed(2)}/month`
+        : `You've been offered a month-to-month renewal at $${monthlyRent.toFixed(2)}/month`,
+      `Please respond by ${formatDate(responseDeadline)}.${input.message ? ` ${input.message}` : ""}`
+    );
+
+    return renewal;
+  }
+
+  // Accepting extends the lease and replaces unpaid rent for the new term
+  async respondToRenewal(
+    leaseId: string,
+    renewalId: string,
+    input: RespondLeaseRenewal,
+    userId: string,
+    userRole: string,
+    req: any
+  ): Promise<any> {
+    const { lease, isTenant } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    if (!isTenant) {
+      throw { status: 403, message: "Only the tenant can respond to a renewal offer" };
+    }
+
+    const renewal = await this.repository.getRenewal(leaseId, renewalId);
+    if (!renewal) {
+      throw { status: 404, message: "Renewal offer not found" };
+    }
+
+    if (renewal.status !== "pending") {
+      throw { status: 400, message: `This renewal offer is already ${renewal.status}` };
+    }
+
+    if (new Date(renewal.response_deadline) < new Date()) {
+      throw { status: 400, message: "This renewal offer has expired" };
+    }
+
+    const accepted = input.decision === "accept";
+    const updated = await this.repository.updatePendingRenewal(renewalId, {
+      status: accepted ? "accepted" : "declined",
+      responded_at: new Date().toISOString(),
+      response_note: input.note ?? null,
+    });
+
+    if (!updated) {
+      throw { status: 409, message: "This renewal offer was already answered" };
+    }
+
+    let rentPaymentsCreated = 0;
+    if (accepted) {
+      const startDate = new Date(renewal.start_date);
+      // Month-to-month renewals run a month at a time; the lease-terms job rolls them on
+      const endDate = renewal.end_date ? new Date(renewal.end_date) : addMonths(startDate, 1);
+      const monthlyRent = parseFloat(renewal.monthly_rent);
+
+      await this.repository.updateLease(leaseId, {
+        monthly_rent: monthlyRent,
+        lease_end_date: endDate.toISOString(),
+        status: renewal.term_months ? "active" : "month_to_month",
+      });
+      rentPaymentsCreated = await this.regenerateRent(lease, monthlyRent, startDate, endDate);
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "lease",
+      resourceId: leaseId,
+      previousData: { renewalStatus: "pending", monthlyRent: lease.monthly_rent, leaseEndDate: lease.lease_end_date },
+      newData: { renewalId, renewalStatus: updated.status, rentPaymentsCreated },
+      req
+    });
+
+    this.notifyParty(
+      leaseId,
+      lease.landlord_id,
+      accepted ? "Your tenant accepted the renewal offer" : "Your tenant declined the renewal offer",
+      input.note
+    );
+
+    return { renewal: updated, rentPaymentsCreated };
+  }
+
+  async withdrawRenewal(leaseId: string, renewalId: string, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease, isLandlord, isAdmin } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    if (!isLandlord && !isAdmin) {
+      throw { status: 403, message: "Only the landlord can withdraw a renewal offer" };
+    }
+
+    const renewal = await this.repository.getRenewal(leaseId, renewalId);
+    if (!renewal) {
+      throw { status: 404, message: "Renewal offer not found" };
+    }
+
+    const updated = await this.repository.updatePendingRenewal(renewalId, { status: "withdrawn" });
+    if (!updated) {
+      throw { status: 400, message: `This renewal offer is already ${renewal.status}` };
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "lease",
+      resourceId: leaseId,
+      previousData: { renewalStatus: renewal.status },
+      newData: { renewalId, renewalStatus: "withdrawn" },
+      req
+    });
+
+    this.notifyParty(leaseId, lease.tenant_id, "Your landlord withdrew the renewal offer");
+
+    return updated;
+  }
+
+  // Either side may give notice with at least the lease's notice period. A tenant
+  // leaving before a fixed term ends is charged the early termination fee.
+  async giveNotice(leaseId: string, input: CreateLeaseNotice, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease, isLandlord, isTenant, isAdmin } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    if (!RUNNING_LEASE_STATUSES.includes(lease.status)) {
+      throw { status: 400, message: "This lease has already ended" };
+    }
+
+    if (await this.repository.findPendingNotice(leaseId)) {
+      throw { status: 409, message: "A notice to vacate is already pending on this lease" };
+    }
+
+    const moveOutDate = new Date(input.moveOutDate);
+    const noticeDays = lease.notice_period_days ?? 30;
+    const earliest = new Date(startOfDay(new Date()).getTime() + noticeDays * DAY_MS);
+    if (moveOutDate < earliest) {
+      throw { status: 400, message: `At least ${noticeDays} days' notice is required; the earliest move-out date is ${earliest.toISOString().slice(0, 10)}` };
+    }
+
+    const leaseEnd = new Date(lease.lease_end_date);
+    const earlyTermination = lease.status === "active" && moveOutDate < startOfDay(leaseEnd);
+    const givenByRole = isTenant && !isLandlord ? "tenant" : "landlord";
+
+    if (earlyTermination && givenByRole !== "tenant" && !isAdmin) {
+      throw { status: 400, message: "A fixed-term lease can't be ended by the landlord before its end date" };
+    }
+
+    let feePayment: any = null;
+    const fee = lease.early_termination_fee ? parseFloat(lease.early_termination_fee) : 0;
+    if (earlyTermination && givenByRole === "tenant" && fee > 0) {
+      feePayment = await this.repository.createEarlyTerminationFee({
+        lease_id: leaseId,
+        tenant_id: lease.tenant_id,
+        amount: fee,
+        due_date: moveOutDate.toISOString(),
+        notes: `Early termination fee for moving out on ${input.moveOutDate}`,
+      });
+    }
+
+    const notice = await this.repository.createNotice({
+      lease_id: leaseId,
+      given_by: userId,
+      given_by_role: givenByRole,
+      move_out_date: moveOutDate.toISOString(),
+      reason: input.reason ?? null,
+      early_termination: earlyTermination,
+      fee_payment_id: feePayment?.id ?? null,
+      status: "pending",
+    });
+
+    await this.repository.updateLease(leaseId, { move_out_date: moveOutDate.toISOString() });
+    // No rent falls due after the tenant has left, and a renewal no longer applies
+    await this.repository.deletePendingRentAfter(leaseId, moveOutDate.toISOString());
+    await this.repository.withdrawPendingRenewals(leaseId);
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "lease",
+      resourceId: leaseId,
+      previousData: { status: lease.status, leaseEndDate: lease.lease_end_date },
+      newData: { noticeId: notice.id, moveOutDate: input.moveOutDate, earlyTermination, feeAmount: feePayment ? fee : null },
+      req
+    });
+
+    this.notifyParty(
+      leaseId,
+      givenByRole === "tenant" ? lease.landlord_id : lease.tenant_id,
+      `${givenByRole === "tenant" ? "Your tenant" : "Your landlord"} gave notice to vacate by ${formatDate(moveOutDate)}`,
+      input.reason
+    );
+
+    return { notice, feePayment };
+  }
+
+  // Withdrawing a notice restores the remaining rent schedule and drops an unpaid fee
+  async cancelNotice(leaseId: string, noticeId: string, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease, isAdmin } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    const notice = await this.repository.getNotice(leaseId, noticeId);
+    if (!notice) {
+      throw { status: 404, message: "Notice not found" };
+    }
+
+    if (notice.given_by !== userId && !isAdmin) {
+      throw { status: 403, message: "Only the party who gave notice can withdraw it" };
+    }
+
+    if (notice.status !== "pending" || new Date(notice.move_out_date) <= new Date()) {
+      throw { status: 400, message: "This notice can no longer be withdrawn" };
+    }
+
+    if (notice.fee_payment_id) {
+      await this.repository.deletePendingPayment(notice.fee_payment_id);
+    }
+
+    const updated = await this.repository.updateNotice(noticeId, {
+      status: "cancelled",
+      cancelled_at: new Date().toISOString(),
+    });
+    await this.repository.updateLease(leaseId, { move_out_date: null });
+    const rentPaymentsCreated = await this.regenerateRent(
+      lease,
+      parseFloat(lease.monthly_rent),
+      new Date(notice.move_out_date),
+      new Date(lease.lease_end_date)
+    );
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "lease",
+      resourceId: leaseId,
+      previousData: { noticeStatus: "pending", moveOutDate: notice.move_out_date },
+      newData: { noticeId, noticeStatus: "cancelled", rentPaymentsCreated },
+      req
+    });
+
+    this.notifyParty(
+      leaseId,
+      notice.given_by_role === "tenant" ? lease.landlord_id : lease.tenant_id,
+      "A notice to vacate on your lease was withdrawn"
+    );
+
+    return { notice: updated, rentPaymentsCreated };
+  }
+
+  // Scheduled sweep: expires unanswered renewal offers, ends leases whose move-out
+  // date has passed, and rolls leases past their end date on month to month.
+  async processLeaseTerms(): Promise<{ renewalsExpired: number; leasesEnded: number; leasesRolled: number; rentPaymentsCreated: number }> {
+    const now = new Date();
+    const result = { renewalsExpired: 0, leasesEnded: 0, leasesRolled: 0, rentPaymentsCreated: 0 };
+
+    const expired = await this.repository.expireRenewalsBefore(now.toISOString());
+    result.renewalsExpired = expired.length;
+
+    const leases = await this.repository.getLeasesDueForTermChange(now.toISOString(), 500);
+
+    for (const lease of leases) {
+      try {
+        const moveOut = lease.move_out_date ? new Date(lease.move_out_date) : null;
+
+        if (moveOut && moveOut <= now) {
+          const notice = await this.repository.findPendingNotice(lease.id);
+          const status = notice?.early_termination ? "terminated" : "expired";
+          await this.repository.updateLease(lease.id, { status, ended_at: now.toISOString() });
+          if (notice) {
+            await this.repository.updateNotice(notice.id, { status: "completed" });
+          }
+          result.leasesEnded++;
+
+          await logAuditEvent({
+            action: "update",
+            resourceType: "lease",
+            resourceId: lease.id,
+            previousData: { status: lease.status },
+            newData: { status, moveOutDate: lease.move_out_date },
+            metadata: { actionType: "lease_ended", timestamp: now.toISOString() },
+          });
+          continue;
+        }
+
+        // Past the end of its term with no move-out before then: carry on month to month
+        let endDate = new Date(lease.lease_end_date);
+        const from = endDate;
+        while (endDate <= now) {
+          endDate = addMonths(endDate, 1);
+        }
+        const rentUntil = moveOut && moveOut < endDate ? moveOut : endDate;
+
+        await this.repository.updateLease(lease.id, {
+          status: "month_to_month",
+          lease_end_date: endDate.toISOString(),
+        });
+        result.rentPaymentsCreated += await this.regenerateRent(lease, parseFloat(lease.monthly_rent), from, rentUntil);
+        result.leasesRolled++;
+
+        if (lease.status === "active") {
+          this.notifyParty(lease.id, lease.tenant_id, "Your lease has ended and now continues month to month");
+          this.notifyParty(lease.id, lease.landlord_id, "A lease has ended and now continues month to month");
+        }
+      } catch (err) {
+        console.error(`[LEASES] Failed to process lease term for ${lease.id}:`, err);
+      }
+    }
+
+    return result;
+  }
 }
@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerListingAnalyticsRoutes } from "./listing-analytics.routes";
+
+export function registerListingAnalyticsModuleRoutes(app: Express): void {
+  registerListingAnalyticsRoutes(app);
+}
+
+export { ListingAnalyticsService } from "./listing-analytics.service";
+export { ListingAnalyticsRepository } from "./listing-analytics.repository";
@@ -0,0 +1,104 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const DAILY_SELECT = "date, views, gallery_opens, favorites, inquiry_starts, application_starts";
+
+export class ListingAnalyticsRepository {
+  async getProperty(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, owner_id, view_count, save_count, listed_at, price_history, deleted_at")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findListedPropertyIds(propertyIds: string[]): Promise<string[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id")
+      .in("id", propertyIds)
+      .is("deleted_at", null);
+
+    if (error) throw error;
+    return (data || []).map((row: any) => row.id);
+  }
+
+  // Rows already recorded for the same session are skipped; only new rows come back
+  async insertEvents(events: Record<string, any>[]): Promise<Array<{ property_id: string; event_type: string }>> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_events")
+      .upsert(events, { onConflict: "property_id,event_type,session_id", ignoreDuplicates: true })
+      .select("property_id, event_type");
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async incrementViewCount(propertyId: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.rpc("increment_property_views", { property_id: propertyId });
+
+    if (error) throw error;
+  }
+
+  async getDailyRollups(propertyId: string, fromDate: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_analytics_daily")
+      .select(DAILY_SELECT)
+      .eq("property_id", propertyId)
+      .gte("date", fromDate)
+      .order("date", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getApplicationStatuses(propertyId: string): Promise<Array<{ status: string; created_at: string }>> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("status, created_at")
+      .eq("property_id", propertyId);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async countInquiriesSince(propertyId: string, since: string): Promise<number> {
+    const supabase = getSupabaseOrThrow();
+    const { count, error } = await supabase
+      .from("inquiries")
+      .select("id", { count: "exact", head: true })
+      .eq("property_id", propertyId)
+      .is("deleted_at", null)
+      .gte("created_at", since);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async rollupDay(date: string): Promise<number> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase.rpc("rollup_property_analytics", { target_date: date });
+
+    if (error) throw error;
+    return (data as number) ?? 0;
+  }
+
+  async deleteEventsBefore(cutoff: string): Promise<number> {
+    const supabase = getSupabaseOrThrow();
+    const { count, error } = await supabase
+      .from("property_events")
+      .delete({ count: "exact" })
+      .lt("occurred_at", cutoff);
+
+    if (error) throw error;
+    return count || 0;
+  }
+}
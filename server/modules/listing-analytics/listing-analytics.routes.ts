@@ -0,0 +1,54 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, optionalAuth } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { viewLimiter } from "../../rate-limit";
+import { trackPropertyEventsSchema, propertyAnalyticsQuerySchema } from "@shared/schema";
+import { ListingAnalyticsService } from "./listing-analytics.service";
+
+const listingAnalyticsService = new ListingAnalyticsService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[LISTING_ANALYTICS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerListingAnalyticsRoutes(app: Express): void {
+  // POST /api/v2/analytics/events - Ingest a batch of listing events from the browser tracker
+  app.post("/api/v2/analytics/events", viewLimiter, optionalAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = trackPropertyEventsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await listingAnalyticsService.track(validation.data, {
+        userId: req.user?.id,
+        userAgent: req.get("user-agent"),
+      });
+
+      return res.status(202).json(success(result, "Events received"));
+    } catch (err: any) {
+      return handleError(res, err, "Track", "Failed to record events");
+    }
+  });
+
+  // GET /api/properties/:id/analytics - Daily time series and view→inquiry→application funnel for a listing
+  app.get("/api/properties/:id/analytics", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = propertyAnalyticsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await listingAnalyticsService.getPropertyAnalytics(req.params.id, validation.data.days, req.user!);
+
+      return res.json(success(result, "Property analytics fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to fetch property analytics");
+    }
+  });
+}
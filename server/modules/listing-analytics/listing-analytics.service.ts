@@ -0,0 +1,165 @@
+import type { TrackPropertyEvents } from "@shared/schema";
+import { PROPERTY_EVENT_RETENTION_DAYS } from "@shared/schema";
+import { ListingAnalyticsRepository } from "./listing-analytics.repository";
+import { hasManagerPermission } from "../../auth-middleware";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Crawlers, link previews, uptime monitors and scripted clients
+const BOT_USER_AGENT =
+  /bot|crawl|spider|slurp|preview|facebookexternalhit|embedly|headless|lighthouse|pingdom|uptime|monitor|curl|wget|python-requests|axios|node-fetch|okhttp|postman|insomnia/i;
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const rate = (count: number, base: number) => (base > 0 ? Math.round((count / base) * 1000) / 10 : 0);
+
+function isBotUserAgent(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+export class ListingAnalyticsService {
+  private repository: ListingAnalyticsRepository;
+
+  constructor() {
+    this.repository = new ListingAnalyticsRepository();
+  }
+
+  private async getViewableProperty(propertyId: string, user: { id: string; role: string }) {
+    const property = await this.repository.getProperty(propertyId);
+
+    if (!property || property.deleted_at) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    const isOwner = property.owner_id === user.id;
+    const isAdmin = user.role === "admin" || user.role === "super_admin";
+    const isManager = user.role === "property_manager" && (await hasManagerPermission(user.id, propertyId, "view_properties"));
+
+    if (!isOwner && !isAdmin && !isManager) {
+      throw { status: 403, message: "You do not have access to this listing's analytics" };
+    }
+
+    return property;
+  }
+
+  // Bot traffic and events for unknown or removed listings are dropped without an error,
+  // so the tracker never retries them
+  async track(
+    input: TrackPropertyEvents,
+    context: { userId?: string; userAgent?: string }
+  ): Promise<{ accepted: number; recorded: number }> {
+    if (isBotUserAgent(context.userAgent)) {
+      return { accepted: 0, recorded: 0 };
+    }
+
+    const listedIds = new Set(
+      await this.repository.findListedPropertyIds(Array.from(new Set(input.events.map((event) => event.propertyId))))
+    );
+    const events = input.events.filter((event) => listedIds.has(event.propertyId));
+
+    if (events.length === 0) {
+      return { accepted: 0, recorded: 0 };
+    }
+
+    const inserted = await this.repository.insertEvents(
+      events.map((event) => ({
+        property_id: event.propertyId,
+        event_type: event.type,
+        session_id: input.sessionId,
+        user_id: context.userId ?? null,
+        referrer: event.referrer ?? null,
+      }))
+    );
+
+    // properties.view_count stays the lifetime total shown on listing cards
+    for (const row of inserted) {
+      if (row.event_type === "view") {
+        await this.repository.incrementViewCount(row.property_id).catch((err) =>
+          console.error("[LISTING_ANALYTICS] View count increment failed:", err)
+        );
+      }
+    }
+
+    return { accepted: events.length, recorded: inserted.length };
+  }
+
+  // Daily series for the last `days` days and the view → inquiry → application funnel over the same window
+  async getPropertyAnalytics(propertyId: string, days: number, user: { id: string; role: string }): Promise<any> {
+    const property = await this.getViewableProperty(propertyId, user);
+
+    const from = new Date(Date.now() - (days - 1) * DAY_MS);
+    const fromDate = toDateString(from);
+
+    const [rollups, applications, inquiries] = await Promise.all([
+      this.repository.getDailyRollups(propertyId, fromDate),
+      this.repository.getApplicationStatuses(propertyId),
+      this.repository.countInquiriesSince(propertyId, `${fromDate}T00:00:00Z`),
+    ]);
+
+    const byDate = new Map(rollups.map((row) => [row.date, row]));
+    const timeSeries = Array.from({ length: days }, (_, i) => {
+      const date = toDateString(new Date(from.getTime() + i * DAY_MS));
+      const row = byDate.get(date);
+      return {
+        date,
+        views: row?.views ?? 0,
+        galleryOpens: row?.gallery_opens ?? 0,
+        favorites: row?.favorites ?? 0,
+        inquiryStarts: row?.inquiry_starts ?? 0,
+        applicationStarts: row?.application_starts ?? 0,
+      };
+    });
+
+    const totals = timeSeries.reduce(
+      (acc, day) => ({
+        views: acc.views + day.views,
+        galleryOpens: acc.galleryOpens + day.galleryOpens,
+        favorites: acc.favorites + day.favorites,
+        inquiryStarts: acc.inquiryStarts + day.inquiryStarts,
+        applicationStarts: acc.applicationStarts + day.applicationStarts,
+      }),
+      { views: 0, galleryOpens: 0, favorites: 0, inquiryStarts: 0, applicationStarts: 0 }
+    );
+
+    const applicationsInWindow = applications.filter((app) => app.created_at >= fromDate).length;
+
+    return {
+      views: property.view_count || 0,
+      saves: property.save_count || 0,
+      applicationCount: applications.length,
+      applicationsByStatus: applications.reduce((acc: Record<string, number>, app) => {
+        acc[app.status] = (acc[app.status] || 0) + 1;
+        return acc;
+      }, {}),
+      listedAt: property.listed_at,
+      priceHistory: property.price_history || [],
+      range: { from: fromDate, to: toDateString(new Date()), days },
+      totals,
+      timeSeries,
+      funnel: {
+        steps: [
+          { step: "view", count: totals.views, rateFromPrevious: 100 },
+          { step: "inquiry", count: totals.inquiryStarts, rateFromPrevious: rate(totals.inquiryStarts, totals.views) },
+          { step: "application", count: totals.applicationStarts, rateFromPrevious: rate(totals.applicationStarts, totals.inquiryStarts) },
+        ],
+        viewToApplicationRate: rate(totals.applicationStarts, totals.views),
+        submitted: { inquiries, applications: applicationsInWindow },
+      },
+    };
+  }
+
+  // Re-rolls today and yesterday so late events still land, then prunes raw events past retention
+  async rollup(): Promise<{ rolledUp: number; pruned: number }> {
+    const now = new Date();
+    let rolledUp = 0;
+
+    for (const date of [toDateString(new Date(now.getTime() - DAY_MS)), toDateString(now)]) {
+      rolledUp += await this.repository.rollupDay(date);
+    }
+
+    const cutoff = new Date(now.getTime() - PROPERTY_EVENT_RETENTION_DAYS * DAY_MS).toISOString();
+    const pruned = await this.repository.deleteEventsBefore(cutoff);
+
+    return { rolledUp, pruned };
+  }
+}
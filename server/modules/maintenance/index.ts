@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerMaintenanceRoutes } from "./maintenance.routes";
+
+export function registerMaintenanceModuleRoutes(app: Express): void {
+  registerMaintenanceRoutes(app);
+}
+
+export { MaintenanceService } from "./maintenance.service";
+export { MaintenanceRepository } from "./maintenance.repository";
@@ -0,0 +1,181 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+export interface MaintenanceListFilters {
+  status?: string;
+  propertyId?: string;
+  urgency?: string;
+  tenantId?: string;
+  propertyIds?: string[];
+  limit: number;
+  offset: number;
+}
+
+export class MaintenanceRepository {
+  async getLeaseById(leaseId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .select("id, tenant_id, landlord_id, property_id, status, properties(id, title, address, owner_id)")
+      .eq("id", leaseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getActiveLeasesForTenant(tenantId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .select("id, property_id, lease_start_date, lease_end_date, properties(id, title, address)")
+      .eq("tenant_id", tenantId)
+      .eq("status", "active")
+      .order("lease_start_date", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getPropertyById(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, title, address, owner_id, listing_agent_id")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getOwnedPropertyIds(ownerId: string): Promise<string[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id")
+      .or(`owner_id.eq.${ownerId},listing_agent_id.eq.${ownerId}`);
+
+    if (error) throw error;
+    return (data || []).map((p: any) => p.id);
+  }
+
+  async createRequest(requestData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("maintenance_requests")
+      .insert([requestData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getRequestById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("maintenance_requests")
+      .select(`
+        *,
+        properties(id, title, address, city, state, owner_id),
+        tenant:users!maintenance_requests_tenant_id_fkey(id, full_name, email, phone),
+        assignee:users!maintenance_requests_assigned_to_fkey(id, full_name, email)
+      `)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listRequests(filters: MaintenanceListFilters): Promise<{ requests: any[]; total: number }> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("maintenance_requests")
+      .select(
+        "*, properties(id, title, address), tenant:users!maintenance_requests_tenant_id_fkey(id, full_name, email)",
+        { count: "exact" }
+      );
+
+    if (filters.tenantId) query = query.eq("tenant_id", filters.tenantId);
+    if (filters.propertyIds) query = query.in("property_id", filters.propertyIds);
+    if (filters.propertyId) query = query.eq("property_id", filters.propertyId);
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.urgency) query = query.eq("urgency", filters.urgency);
+
+    const { data, error, count } = await query
+      .order("created_at", { ascending: false })
+      .range(filters.offset, filters.offset + filters.limit - 1);
+
+    if (error) throw error;
+    return { requests: data || [], total: count || 0 };
+  }
+
+  async updateRequest(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("maintenance_requests")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getComments(requestId: string, includeInternal: boolean): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("maintenance_comments")
+      .select("*, users(id, full_name, role)")
+      .eq("request_id", requestId);
+
+    if (!includeInternal) {
+      query = query.eq("is_internal", false);
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createComment(commentData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("maintenance_comments")
+      .insert([commentData])
+      .select("*, users(id, full_name, role)")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getPhotos(requestId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("photos")
+      .select("id, url, thumbnail_url, uploader_id, created_at")
+      .eq("maintenance_request_id", requestId)
+      .eq("archived", false)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createPhotos(photoRows: Record<string, any>[]): Promise<any[]> {
+    if (photoRows.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("photos")
+      .insert(photoRows)
+      .select("id, url, thumbnail_url, uploader_id, created_at");
+
+    if (error) throw error;
+    return data || [];
+  }
+}
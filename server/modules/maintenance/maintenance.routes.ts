@@ -0,0 +1,193 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import {
+  insertMaintenanceRequestSchema,
+  maintenanceStatusUpdateSchema,
+  maintenanceAssignSchema,
+  maintenanceScheduleSchema,
+  insertMaintenanceCommentSchema,
+  maintenancePhotosSchema,
+} from "@shared/schema";
+import { MaintenanceService } from "./maintenance.service";
+
+const maintenanceService = new MaintenanceService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[MAINTENANCE] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerMaintenanceRoutes(app: Express): void {
+  // POST /api/v2/maintenance - Tenant opens a maintenance request
+  app.post("/api/v2/maintenance", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = insertMaintenanceRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await maintenanceService.createRequest(validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Maintenance request submitted"));
+    } catch (err: any) {
+      return handleError(res, err, "Create", "Failed to submit maintenance request");
+    }
+  });
+
+  // GET /api/v2/maintenance - List requests visible to the current user
+  app.get("/api/v2/maintenance", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const result = await maintenanceService.listRequests(req.user!.id, req.user!.role, {
+        status: req.query.status as string | undefined,
+        propertyId: req.query.propertyId as string | undefined,
+        urgency: req.query.urgency as string | undefined,
+        page,
+        limit,
+      });
+
+      return res.json(success(result, "Maintenance requests retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve maintenance requests");
+    }
+  });
+
+  // GET /api/v2/maintenance/leases - Active leases the tenant can open requests against
+  app.get("/api/v2/maintenance/leases", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await maintenanceService.getEligibleLeases(req.user!.id);
+
+      return res.json(success(result, "Eligible leases retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Leases", "Failed to retrieve leases");
+    }
+  });
+
+  // GET /api/v2/maintenance/:id - Request detail with comments and photos
+  app.get("/api/v2/maintenance/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await maintenanceService.getRequest(req.params.id, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Maintenance request retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to retrieve maintenance request");
+    }
+  });
+
+  // PATCH /api/v2/maintenance/:id/status - Triage, progress, close or cancel
+  app.patch("/api/v2/maintenance/:id/status", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = maintenanceStatusUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await maintenanceService.updateStatus(
+        req.params.id,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Maintenance status updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Status update", "Failed to update maintenance status");
+    }
+  });
+
+  // PATCH /api/v2/maintenance/:id/assign - Assign a vendor or staff member
+  app.patch("/api/v2/maintenance/:id/assign", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = maintenanceAssignSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await maintenanceService.assign(
+        req.params.id,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Maintenance request assigned"));
+    } catch (err: any) {
+      return handleError(res, err, "Assign", "Failed to assign maintenance request");
+    }
+  });
+
+  // PATCH /api/v2/maintenance/:id/schedule - Schedule the visit
+  app.patch("/api/v2/maintenance/:id/schedule", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = maintenanceScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await maintenanceService.schedule(
+        req.params.id,
+        validation.data.scheduledFor,
+        validation.data.note,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Maintenance visit scheduled"));
+    } catch (err: any) {
+      return handleError(res, err, "Schedule", "Failed to schedule maintenance request");
+    }
+  });
+
+  // POST /api/v2/maintenance/:id/comments - Add a comment or internal note
+  app.post("/api/v2/maintenance/:id/comments", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = insertMaintenanceCommentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await maintenanceService.addComment(
+        req.params.id,
+        validation.data.comment,
+        validation.data.isInternal,
+        req.user!.id,
+        req.user!.role
+      );
+
+      return res.status(201).json(success(result, "Comment added"));
+    } catch (err: any) {
+      return handleError(res, err, "Comment", "Failed to add comment");
+    }
+  });
+
+  // POST /api/v2/maintenance/:id/photos - Attach uploaded photos
+  app.post("/api/v2/maintenance/:id/photos", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = maintenancePhotosSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await maintenanceService.addPhotos(
+        req.params.id,
+        validation.data.photos,
+        req.user!.id,
+        req.user!.role
+      );
+
+      return res.status(201).json(success(result, "Photos attached"));
+    } catch (err: any) {
+      return handleError(res, err, "Photos", "Failed to attach photos");
+    }
+  });
+}
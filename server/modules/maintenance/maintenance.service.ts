@@ -0,0 +1,398 @@
+import {
+  MAINTENANCE_STATUS_TRANSITIONS,
+  type InsertMaintenanceRequest,
+  type MaintenanceAssign,
+  type MaintenanceStatusUpdate,
+} from "@shared/schema";
+import { MaintenanceRepository } from "./maintenance.repository";
+import { logAuditEvent } from "../../security/audit-logger";
+import { hasManagerPermission, getManagedPropertyIds } from "../../auth-middleware";
+import {
+  notifyLandlordOfMaintenanceRequest,
+  sendMaintenanceUpdateNotification,
+} from "../../notification-service";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Tenants may only withdraw a request before work has been arranged
+const TENANT_CANCELLABLE_STATUSES = ["submitted", "triaged"];
+
+export function isValidMaintenanceTransition(currentStatus: string, newStatus: string): boolean {
+  return (MAINTENANCE_STATUS_TRANSITIONS[currentStatus] || []).includes(newStatus);
+}
+
+interface MaintenanceAccess {
+  isTenant: boolean;
+  isLandlord: boolean;
+  isManager: boolean;
+  isAdmin: boolean;
+  canManage: boolean;
+}
+
+export class MaintenanceService {
+  private repository: MaintenanceRepository;
+
+  constructor() {
+    this.repository = new MaintenanceRepository();
+  }
+
+  private async resolveAccess(request: any, userId: string, userRole: string): Promise<MaintenanceAccess> {
+    const isTenant = request.tenant_id === userId;
+    const isLandlord = request.landlord_id === userId || request.properties?.owner_id === userId;
+    const isAdmin = ADMIN_ROLES.includes(userRole);
+
+    let isManager = false;
+    if (!isLandlord && !isAdmin && userRole === "property_manager") {
+      isManager = await hasManagerPermission(userId, request.property_id, "manage_maintenance");
+    }
+
+    return {
+      isTenant,
+      isLandlord,
+      isManager,
+      isAdmin,
+      canManage: isLandlord || isManager || isAdmin,
+    };
+  }
+
+  private async getRequestWithAccess(id: string, userId: string, userRole: string) {
+    const request = await this.repository.getRequestById(id);
+
+    if (!request) {
+      throw { status: 404, message: "Maintenance request not found" };
+    }
+
+    const access = await this.resolveAccess(request, userId, userRole);
+
+    if (!access.isTenant && !access.canManage) {
+      throw { status: 403, message: "Not authorized to access this maintenance request" };
+    }
+
+    return { request, access };
+  }
+
+  private buildHistoryEntry(status: string, userId: string, note?: string) {
+    return {
+      status,
+      changedAt: new Date().toISOString(),
+      changedBy: userId,
+      ...(note && { note }),
+    };
+  }
+
+  async createRequest(input: InsertMaintenanceRequest, userId: string, req: any): Promise<any> {
+    const lease = await this.repository.getLeaseById(input.leaseId);
+
+    if (!lease) {
+      throw { status: 404, message: "Lease not found" };
+    }
+
+    if (lease.tenant_id !== userId) {
+      throw { status: 403, message: "Only the tenant on this lease can open maintenance requests" };
+    }
+
+    if (lease.status !== "active") {
+      throw { status: 400, message: "Maintenance requests can only be opened on an active lease" };
+    }
+
+    const propertyId = lease.property_id || (lease.properties as any)?.id;
+    if (!propertyId) {
+      throw { status: 400, message: "Lease is not linked to a property" };
+    }
+
+    const request = await this.repository.createRequest({
+      lease_id: lease.id,
+      property_id: propertyId,
+      tenant_id: userId,
+      landlord_id: lease.landlord_id || (lease.properties as any)?.owner_id || null,
+      title: input.title,
+      description: input.description,
+      category: input.category,
+      urgency: input.urgency,
+      entry_permission: input.entryPermission,
+      entry_instructions: input.entryInstructions || null,
+      status: "submitted",
+      status_history: [this.buildHistoryEntry("submitted", userId)],
+    });
+
+    const photos = await this.repository.createPhotos(
+      (input.photos || []).map((photo) => ({
+        imagekit_file_id: photo.imageKitFileId,
+        url: photo.url,
+        thumbnail_url: photo.thumbnailUrl || null,
+        category: "maintenance",
+        uploader_id: userId,
+        property_id: propertyId,
+        maintenance_request_id: request.id,
+        is_private: true,
+      }))
+    );
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "maintenance_request",
+      resourceId: request.id,
+      newData: { category: input.category, urgency: input.urgency, leaseId: lease.id },
+      req,
+    });
+
+    notifyLandlordOfMaintenanceRequest(request.id).catch((err) =>
+      console.error("[MAINTENANCE] Landlord notification failed:", err)
+    );
+
+    return { ...request, photos };
+  }
+
+  async getEligibleLeases(userId: string): Promise<any[]> {
+    return this.repository.getActiveLeasesForTenant(userId);
+  }
+
+  async listRequests(
+    userId: string,
+    userRole: string,
+    filters: { status?: string; propertyId?: string; urgency?: string; page: number; limit: number }
+  ): Promise<any> {
+    const offset = (filters.page - 1) * filters.limit;
+    const baseFilters = {
+      status: filters.status,
+      propertyId: filters.propertyId,
+      urgency: filters.urgency,
+      limit: filters.limit,
+      offset,
+    };
+
+    let result: { requests: any[]; total: number };
+
+    if (ADMIN_ROLES.includes(userRole)) {
+      result = await this.repository.listRequests(baseFilters);
+    } else if (userRole === "renter") {
+      result = await this.repository.listRequests({ ...baseFilters, tenantId: userId });
+    } else {
+      const propertyIds = userRole === "property_manager"
+        ? await getManagedPropertyIds(userId, "manage_maintenance")
+        : await this.repository.getOwnedPropertyIds(userId);
+
+      result = propertyIds.length === 0
+        ? { requests: [], total: 0 }
+        : await this.repository.listRequests({ ...baseFilters, propertyIds });
+    }
+
+    return {
+      requests: result.requests,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / filters.limit),
+      },
+    };
+  }
+
+  async getRequest(id: string, userId: string, userRole: string): Promise<any> {
+    const { request, access } = await this.getRequestWithAccess(id, userId, userRole);
+
+    const [comments, photos] = await Promise.all([
+      this.repository.getComments(id, access.canManage),
+      this.repository.getPhotos(id),
+    ]);
+
+    return {
+      ...request,
+      entry_instructions: access.canManage || access.isTenant ? request.entry_instructions : null,
+      comments,
+      photos,
+      permissions: {
+        canManage: access.canManage,
+        canCancel: access.isTenant && TENANT_CANCELLABLE_STATUSES.includes(request.status),
+      },
+    };
+  }
+
+  async updateStatus(id: string, input: MaintenanceStatusUpdate, userId: string, userRole: string, req: any): Promise<any> {
+    const { request, access } = await this.getRequestWithAccess(id, userId, userRole);
+
+    if (!isValidMaintenanceTransition(request.status, input.status)) {
+      throw { status: 400, message: `Invalid status transition from ${request.status} to ${input.status}` };
+    }
+
+    if (!access.canManage) {
+      const isTenantCancel = input.status === "cancelled" && TENANT_CANCELLABLE_STATUSES.includes(request.status);
+      if (!isTenantCancel) {
+        throw { status: 403, message: "Only the landlord or assigned manager can update this request" };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const updates: Record<string, any> = {
+      status: input.status,
+      status_history: [...(request.status_history || []), this.buildHistoryEntry(input.status, userId, input.note)],
+    };
+
+    if (input.status === "completed") updates.completed_at = now;
+    if (input.status === "closed" || input.status === "cancelled") {
+      updates.closed_at = now;
+      updates.closed_by = userId;
+    }
+    if (input.resolutionNotes) updates.resolution_notes = input.resolutionNotes;
+
+    const updated = await this.repository.updateRequest(id, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "status_change",
+      resourceType: "maintenance_request",
+      resourceId: id,
+      previousData: { status: request.status },
+      newData: { status: input.status },
+      metadata: { note: input.note },
+      req,
+    });
+
+    this.notifyParticipants(request, userId, `Status changed to ${input.status.replace(/_/g, " ")}`, input.note);
+
+    return updated;
+  }
+
+  async assign(id: string, input: MaintenanceAssign, userId: string, userRole: string, req: any): Promise<any> {
+    const { request, access } = await this.getRequestWithAccess(id, userId, userRole);
+
+    if (!access.canManage) {
+      throw { status: 403, message: "Only the landlord or assigned manager can assign this request" };
+    }
+
+    if (["closed", "cancelled"].includes(request.status)) {
+      throw { status: 400, message: "Cannot assign a closed maintenance request" };
+    }
+
+    const updates: Record<string, any> = {};
+    if (input.assignedTo !== undefined) updates.assigned_to = input.assignedTo;
+    if (input.vendor !== undefined) updates.vendor = input.vendor;
+    if (input.urgency) updates.urgency = input.urgency;
+
+    const hasAssignee = (input.vendor ?? request.vendor) || (input.assignedTo ?? request.assigned_to);
+    if (hasAssignee && isValidMaintenanceTransition(request.status, "assigned")) {
+      updates.status = "assigned";
+      updates.status_history = [
+        ...(request.status_history || []),
+        this.buildHistoryEntry("assigned", userId, input.vendor?.name ? `Assigned to ${input.vendor.name}` : undefined),
+      ];
+    }
+
+    const updated = await this.repository.updateRequest(id, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "maintenance_request",
+      resourceId: id,
+      previousData: { assignedTo: request.assigned_to, vendor: request.vendor, status: request.status },
+      newData: updates,
+      req,
+    });
+
+    if (updates.status) {
+      this.notifyParticipants(request, userId, "A vendor has been assigned to your request", input.vendor?.name);
+    }
+
+    return updated;
+  }
+
+  async schedule(id: string, scheduledFor: string, note: string | undefined, userId: string, userRole: string, req: any): Promise<any> {
+    const { request, access } = await this.getRequestWithAccess(id, userId, userRole);
+
+    if (!access.canManage) {
+      throw { status: 403, message: "Only the landlord or assigned manager can schedule this request" };
+    }
+
+    if (new Date(scheduledFor) < new Date()) {
+      throw { status: 400, message: "Scheduled time must be in the future" };
+    }
+
+    const updates: Record<string, any> = { scheduled_for: scheduledFor };
+
+    if (request.status !== "scheduled") {
+      if (!isValidMaintenanceTransition(request.status, "scheduled")) {
+        throw { status: 400, message: `Cannot schedule a request with status ${request.status}` };
+      }
+      updates.status = "scheduled";
+    }
+
+    updates.status_history = [
+      ...(request.status_history || []),
+      this.buildHistoryEntry("scheduled", userId, note),
+    ];
+
+    const updated = await this.repository.updateRequest(id, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "maintenance_request",
+      resourceId: id,
+      previousData: { scheduledFor: request.scheduled_for, status: request.status },
+      newData: { scheduledFor, status: updated.status },
+      req,
+    });
+
+    const when = new Date(scheduledFor).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+    this.notifyParticipants(request, userId, `Work has been scheduled for ${when}`, note);
+
+    return updated;
+  }
+
+  async addComment(id: string, comment: string, isInternal: boolean, userId: string, userRole: string): Promise<any> {
+    const { request, access } = await this.getRequestWithAccess(id, userId, userRole);
+
+    if (isInternal && !access.canManage) {
+      throw { status: 403, message: "Only the landlord or assigned manager can add internal notes" };
+    }
+
+    const created = await this.repository.createComment({
+      request_id: id,
+      user_id: userId,
+      comment,
+      is_internal: isInternal,
+    });
+
+    if (!isInternal) {
+      this.notifyParticipants(request, userId, "New comment on your maintenance request", comment);
+    }
+
+    return created;
+  }
+
+  async addPhotos(id: string, photos: Array<{ imageKitFileId: string; url: string; thumbnailUrl?: string }>, userId: string, userRole: string): Promise<any[]> {
+    const { request } = await this.getRequestWithAccess(id, userId, userRole);
+
+    if (["closed", "cancelled"].includes(request.status)) {
+      throw { status: 400, message: "Cannot add photos to a closed maintenance request" };
+    }
+
+    return await this.repository.createPhotos(
+      photos.map((photo) => ({
+        imagekit_file_id: photo.imageKitFileId,
+        url: photo.url,
+        thumbnail_url: photo.thumbnailUrl || null,
+        category: "maintenance",
+        uploader_id: userId,
+        property_id: request.property_id,
+        maintenance_request_id: id,
+        is_private: true,
+      }))
+    );
+  }
+
+  // Notify whichever side of the ticket did not perform the action
+  private notifyParticipants(request: any, actorId: string, headline: string, detail?: string): void {
+    const recipients = new Set<string>();
+    if (request.tenant_id && request.tenant_id !== actorId) recipients.add(request.tenant_id);
+    if (request.landlord_id && request.landlord_id !== actorId) recipients.add(request.landlord_id);
+
+    for (const recipientId of Array.from(recipients)) {
+      sendMaintenanceUpdateNotification(request.id, recipientId, headline, detail).catch((err) =>
+        console.error("[MAINTENANCE] Update notification failed:", err)
+      );
+    }
+  }
+}
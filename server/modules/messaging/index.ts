@@ -0,0 +1,20 @@
+import type { Express } from "express";
+import type { Server } from "http";
+import { registerMessagingRoutes } from "./messaging.routes";
+import { MessagingService } from "./messaging.service";
+import { messagingHub } from "./messaging.realtime";
+
+export function registerMessagingModuleRoutes(app: Express): void {
+  registerMessagingRoutes(app);
+}
+
+// Serves the messaging WebSocket on the HTTP server and routes typing events to the service
+export function attachMessagingRealtime(server: Server): void {
+  const messagingService = new MessagingService();
+  messagingHub.onClientEvent((userId, event) => messagingService.handleClientEvent(userId, event));
+  messagingHub.attach(server);
+}
+
+export { MessagingService } from "./messaging.service";
+export { MessagingRepository } from "./messaging.repository";
+export { MESSAGING_SOCKET_PATH } from "./messaging.realtime";
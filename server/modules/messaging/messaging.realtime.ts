@@ -0,0 +1,147 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { getSupabaseOrThrow } from "../../supabase";
+
+export const MESSAGING_SOCKET_PATH = "/ws/messages";
+
+// A socket must authenticate within this window or it is closed
+const AUTH_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export type MessagingServerEvent =
+  | { type: "ready"; userId: string }
+  | { type: "message"; conversationId: string; message: any }
+  | { type: "typing"; conversationId: string; userId: string; isTyping: boolean }
+  | { type: "read"; conversationId: string; userId: string; readAt: string }
+  | { type: "error"; message: string };
+
+export type MessagingClientEvent = { type: "typing"; conversationId: string; isTyping: boolean };
+
+type ClientEventHandler = (userId: string, event: MessagingClientEvent) => Promise<void>;
+
+interface TrackedSocket extends WebSocket {
+  userId?: string;
+  isAlive?: boolean;
+}
+
+// Connections live in this process only. Events published on one instance reach
+// sockets held by that instance; offline recipients fall back to email either way.
+class MessagingHub {
+  private wss: WebSocketServer | null = null;
+  private sockets = new Map<string, Set<TrackedSocket>>();
+  private clientEventHandler: ClientEventHandler | null = null;
+
+  attach(server: Server): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: 4 * 1024 });
+
+    // Only our path is upgraded here; other upgrade requests (such as the Vite HMR socket) are left alone
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const pathname = new URL(req.url || "/", "http://localhost").pathname;
+      if (pathname !== MESSAGING_SOCKET_PATH) return;
+
+      this.wss!.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws as TrackedSocket));
+    });
+
+    const heartbeat = setInterval(() => {
+      this.wss?.clients.forEach((client) => {
+        const tracked = client as TrackedSocket;
+        if (tracked.isAlive === false) {
+          tracked.terminate();
+          return;
+        }
+        tracked.isAlive = false;
+        tracked.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref?.();
+  }
+
+  onClientEvent(handler: ClientEventHandler): void {
+    this.clientEventHandler = handler;
+  }
+
+  isOnline(userId: string): boolean {
+    return (this.sockets.get(userId)?.size ?? 0) > 0;
+  }
+
+  publish(userIds: string[], event: MessagingServerEvent): void {
+    const payload = JSON.stringify(event);
+    for (const userId of userIds) {
+      this.sockets.get(userId)?.forEach((socket) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(payload);
+      });
+    }
+  }
+
+  private send(socket: TrackedSocket, event: MessagingServerEvent) {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+  }
+
+  private handleConnection(socket: TrackedSocket) {
+    socket.isAlive = true;
+    socket.on("pong", () => {
+      socket.isAlive = true;
+    });
+
+    const authTimer = setTimeout(() => {
+      if (!socket.userId) socket.close(4401, "Authentication required");
+    }, AUTH_TIMEOUT_MS);
+
+    socket.on("message", async (raw) => {
+      let event: any;
+      try {
+        event = JSON.parse(raw.toString());
+      } catch {
+        return this.send(socket, { type: "error", message: "Invalid message" });
+      }
+
+      if (!socket.userId) {
+        if (event?.type !== "auth" || typeof event.token !== "string") {
+          return socket.close(4401, "Authentication required");
+        }
+
+        const userId = await this.authenticate(event.token);
+        if (!userId) {
+          return socket.close(4401, "Invalid token");
+        }
+
+        clearTimeout(authTimer);
+        socket.userId = userId;
+        if (!this.sockets.has(userId)) this.sockets.set(userId, new Set());
+        this.sockets.get(userId)!.add(socket);
+        return this.send(socket, { type: "ready", userId });
+      }
+
+      if (event?.type === "typing" && typeof event.conversationId === "string" && this.clientEventHandler) {
+        await this.clientEventHandler(socket.userId, {
+          type: "typing",
+          conversationId: event.conversationId,
+          isTyping: event.isTyping === true,
+        }).catch((err) => console.error("[MESSAGING] Client event failed:", err));
+      }
+    });
+
+    socket.on("close", () => {
+      clearTimeout(authTimer);
+      if (!socket.userId) return;
+
+      const userSockets = this.sockets.get(socket.userId);
+      userSockets?.delete(socket);
+      if (userSockets?.size === 0) this.sockets.delete(socket.userId);
+    });
+  }
+
+  private async authenticate(token: string): Promise<string | null> {
+    try {
+      const { data } = await getSupabaseOrThrow().auth.getUser(token);
+      return data?.user?.id ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const messagingHub = new MessagingHub();
@@ -0,0 +1,243 @@
+import { getSupabaseOrThrow } from "../../supabase";
+import { DOCUMENTS_BUCKET } from "../documents/document.repository";
+
+const CONVERSATION_SELECT = `
+  id, property_id, application_id, subject, created_at, updated_at,
+  properties:property_id(id, title, address, images),
+  conversation_participants(user_id, last_read_at, users:user_id(id, full_name, profile_image))
+`;
+
+const MESSAGE_SELECT =
+  "id, conversation_id, sender_id, content, message_type, attachments, read_at, created_at, users:sender_id(id, full_name, profile_image)";
+
+export class MessagingRepository {
+  async listConversationIds(userId: string): Promise<string[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("conversation_participants")
+      .select("conversation_id")
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    return (data || []).map((row: any) => row.conversation_id);
+  }
+
+  async listConversations(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("conversations")
+      .select(CONVERSATION_SELECT)
+      .in("id", ids)
+      .order("updated_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getConversation(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("conversations")
+      .select(CONVERSATION_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getConversationSummaries(userId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase.rpc("conversation_summaries", { viewer: userId });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getParticipants(conversationId: string): Promise<Array<{ user_id: string; last_read_at: string | null }>> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("conversation_participants")
+      .select("user_id, last_read_at")
+      .eq("conversation_id", conversationId);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async findUsers(ids: string[]): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, email, full_name")
+      .in("id", ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createConversation(conversationData: Record<string, any>, participantIds: string[]): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data: conversation, error } = await supabase
+      .from("conversations")
+      .insert([conversationData])
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    const { error: participantError } = await supabase
+      .from("conversation_participants")
+      .insert(participantIds.map((userId) => ({ conversation_id: conversation.id, user_id: userId })));
+
+    if (participantError) {
+      await supabase.from("conversations").delete().eq("id", conversation.id);
+      throw participantError;
+    }
+
+    return conversation;
+  }
+
+  async touchConversation(id: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("conversations")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  // Newest first; the service reverses each page for display
+  async listMessages(conversationId: string, options: { before?: string; limit: number }): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: false })
+      .limit(options.limit);
+
+    if (options.before) {
+      query = query.lt("created_at", options.before);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createMessage(messageData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("messages")
+      .insert([messageData])
+      .select(MESSAGE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async countUnread(conversationId: string, userId: string, since: string | null): Promise<number> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("messages")
+      .select("id", { count: "exact", head: true })
+      .eq("conversation_id", conversationId)
+      .neq("sender_id", userId);
+
+    if (since) {
+      query = query.gt("created_at", since);
+    }
+
+    const { count, error } = await query;
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async markParticipantRead(conversationId: string, userId: string, readAt: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("conversation_participants")
+      .update({ last_read_at: readAt })
+      .eq("conversation_id", conversationId)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+  }
+
+  async markMessagesRead(conversationId: string, readerId: string, readAt: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("messages")
+      .update({ read_at: readAt })
+      .eq("conversation_id", conversationId)
+      .neq("sender_id", readerId)
+      .is("read_at", null);
+
+    if (error) throw error;
+  }
+
+  async getUploadedFiles(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("uploaded_files")
+      .select("id, user_id, original_name, mime_type, file_size, storage_path")
+      .in("id", ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createUploadedFile(fileData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("uploaded_files")
+      .insert([fileData])
+      .select("id, original_name, mime_type, file_size, storage_path")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async uploadToStorage(path: string, buffer: Buffer, contentType: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(path, buffer, { contentType, upsert: false });
+
+    if (error) throw error;
+  }
+
+  async removeFromStorage(path: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.storage.from(DOCUMENTS_BUCKET).remove([path]);
+
+    if (error) throw error;
+  }
+
+  async createSignedUrls(paths: string[], expiresInSeconds: number): Promise<Record<string, string>> {
+    if (paths.length === 0) return {};
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrls(paths, expiresInSeconds);
+
+    if (error) throw error;
+
+    const urls: Record<string, string> = {};
+    (data || []).forEach((entry: any) => {
+      if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+    });
+    return urls;
+  }
+}
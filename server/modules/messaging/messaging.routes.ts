@@ -0,0 +1,120 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import {
+  createConversationSchema,
+  sendMessageSchema,
+  uploadMessageAttachmentSchema,
+  messageHistoryQuerySchema,
+} from "@shared/schema";
+import { MessagingService } from "./messaging.service";
+
+const messagingService = new MessagingService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[MESSAGING] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerMessagingRoutes(app: Express): void {
+  // GET /api/v2/conversations - Conversations with last message and unread count
+  app.get("/api/v2/conversations", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await messagingService.listConversations(req.user!.id);
+
+      return res.json(success(result, "Conversations fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to fetch conversations");
+    }
+  });
+
+  // POST /api/v2/conversations - Start a conversation with an initial message
+  app.post("/api/v2/conversations", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createConversationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await messagingService.createConversation(validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Conversation created successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Create", "Failed to create conversation");
+    }
+  });
+
+  // GET /api/v2/conversations/:id - Conversation details and participants
+  app.get("/api/v2/conversations/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await messagingService.getConversation(req.params.id, req.user!.id);
+
+      return res.json(success(result, "Conversation fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to fetch conversation");
+    }
+  });
+
+  // GET /api/v2/conversations/:id/messages - One page of message history, older pages via ?before=
+  app.get("/api/v2/conversations/:id/messages", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = messageHistoryQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await messagingService.listMessages(req.params.id, req.user!.id, validation.data);
+
+      return res.json(success(result, "Messages fetched successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "List messages", "Failed to fetch messages");
+    }
+  });
+
+  // POST /api/v2/conversations/:id/messages - Send a message, optionally with uploaded attachments
+  app.post("/api/v2/conversations/:id/messages", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = sendMessageSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await messagingService.sendMessage(req.params.id, validation.data, req.user!.id);
+
+      return res.status(201).json(success(result, "Message sent successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Send", "Failed to send message");
+    }
+  });
+
+  // POST /api/v2/conversations/:id/attachments - Upload a file to attach to the next message
+  app.post("/api/v2/conversations/:id/attachments", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = uploadMessageAttachmentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await messagingService.uploadAttachment(req.params.id, validation.data, req.user!.id);
+
+      return res.status(201).json(success(result, "Attachment uploaded successfully"));
+    } catch (err: any) {
+      return handleError(res, err, "Upload attachment", "Failed to upload attachment");
+    }
+  });
+
+  // POST /api/v2/conversations/:id/read - Mark the conversation read and notify other participants
+  app.post("/api/v2/conversations/:id/read", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await messagingService.markRead(req.params.id, req.user!.id);
+
+      return res.json(success(result, "Conversation marked as read"));
+    } catch (err: any) {
+      return handleError(res, err, "Mark read", "Failed to mark conversation as read");
+    }
+  });
+}
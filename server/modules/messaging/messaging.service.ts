@@ -0,0 +1,267 @@
+import type { CreateConversation, SendMessage, UploadMessageAttachment, MessageAttachment } from "@shared/schema";
+import { MessagingRepository } from "./messaging.repository";
+import { messagingHub, type MessagingClientEvent } from "./messaging.realtime";
+import { validateFileUpload, generateSecureFilename } from "../../security/file-upload";
+import { logAuditEvent } from "../../security/audit-logger";
+import { sendNewMessageNotification } from "../../notification-service";
+import { cache } from "../../cache";
+
+// Signed attachment links are handed out per request and expire quickly
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+// Typing indicators arrive several times a second, so participant lists are cached briefly
+const PARTICIPANTS_CACHE_TTL_MS = 60 * 1000;
+
+const attachmentPrefix = (conversationId: string) => `uploads/conversations/${conversationId}/`;
+
+export class MessagingService {
+  private repository: MessagingRepository;
+
+  constructor() {
+    this.repository = new MessagingRepository();
+  }
+
+  private async getParticipantIds(conversationId: string): Promise<string[]> {
+    const cacheKey = `conversation_participants:${conversationId}`;
+    const cached = cache.get<string[]>(cacheKey);
+    if (cached) return cached;
+
+    const participantIds = (await this.repository.getParticipants(conversationId)).map((p) => p.user_id);
+    cache.set(cacheKey, participantIds, PARTICIPANTS_CACHE_TTL_MS);
+    return participantIds;
+  }
+
+  private async assertParticipant(conversationId: string, userId: string): Promise<string[]> {
+    const participantIds = await this.getParticipantIds(conversationId);
+
+    if (!participantIds.includes(userId)) {
+      throw { status: 404, message: "Conversation not found" };
+    }
+
+    return participantIds;
+  }
+
+  private async withAttachmentUrls(messages: any[]): Promise<any[]> {
+    const fileIds = messages.flatMap((m) => (m.attachments || []).map((a: MessageAttachment) => a.fileId));
+    if (fileIds.length === 0) return messages;
+
+    const files = await this.repository.getUploadedFiles(fileIds);
+    const urls = await this.repository.createSignedUrls(files.map((f) => f.storage_path), SIGNED_URL_TTL_SECONDS);
+    const urlByFileId = new Map(files.map((f) => [f.id, urls[f.storage_path] || null]));
+
+    return messages.map((m) => ({
+      ...m,
+      attachments: m.attachments
+        ? m.attachments.map((a: MessageAttachment) => ({ ...a, url: urlByFileId.get(a.fileId) ?? null }))
+        : null,
+    }));
+  }
+
+  async listConversations(userId: string): Promise<any[]> {
+    const ids = await this.repository.listConversationIds(userId);
+    if (ids.length === 0) return [];
+
+    const [conversations, summaries] = await Promise.all([
+      this.repository.listConversations(ids),
+      this.repository.getConversationSummaries(userId),
+    ]);
+    const summaryById = new Map(summaries.map((s) => [s.conversation_id, s]));
+
+    return conversations.map(({ conversation_participants, ...conversation }: any) => {
+      const summary = summaryById.get(conversation.id);
+      return {
+        ...conversation,
+        participants: conversation_participants || [],
+        unreadCount: summary?.unread_count ?? 0,
+        lastMessage: summary?.last_message_id
+          ? {
+              id: summary.last_message_id,
+              content: summary.last_message_content,
+              message_type: summary.last_message_type,
+              sender_id: summary.last_message_sender_id,
+              created_at: summary.last_message_at,
+            }
+          : null,
+      };
+    });
+  }
+
+  async getConversation(conversationId: string, userId: string): Promise<any> {
+    await this.assertParticipant(conversationId, userId);
+    const { conversation_participants, ...conversation } = await this.repository.getConversation(conversationId);
+
+    return { ...conversation, participants: conversation_participants || [] };
+  }
+
+  // Pages walk backwards from `before`; each page is returned oldest first
+  async listMessages(conversationId: string, userId: string, options: { before?: string; limit: number }): Promise<any> {
+    await this.assertParticipant(conversationId, userId);
+
+    const rows = await this.repository.listMessages(conversationId, { before: options.before, limit: options.limit + 1 });
+    const hasMore = rows.length > options.limit;
+    const page = rows.slice(0, options.limit).reverse();
+
+    return {
+      messages: await this.withAttachmentUrls(page),
+      hasMore,
+      nextCursor: hasMore ? page[0].created_at : null,
+    };
+  }
+
+  async createConversation(input: CreateConversation, userId: string, req: any): Promise<any> {
+    const otherIds = Array.from(new Set(input.participantIds.filter((id) => id !== userId)));
+
+    if (otherIds.length === 0) {
+      throw { status: 400, message: "Add at least one other participant" };
+    }
+
+    const users = await this.repository.findUsers(otherIds);
+    if (users.length !== otherIds.length) {
+      throw { status: 404, message: "Recipient not found" };
+    }
+
+    const conversation = await this.repository.createConversation(
+      {
+        property_id: input.propertyId ?? null,
+        application_id: input.applicationId ?? null,
+        subject: input.subject?.trim() || null,
+      },
+      [userId, ...otherIds]
+    );
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "conversation",
+      resourceId: conversation.id,
+      newData: { participantIds: otherIds, propertyId: input.propertyId, applicationId: input.applicationId },
+      req,
+    });
+
+    await this.sendMessage(conversation.id, { content: input.initialMessage, attachmentIds: [] }, userId);
+
+    return this.getConversation(conversation.id, userId);
+  }
+
+  async uploadAttachment(conversationId: string, input: UploadMessageAttachment, userId: string): Promise<MessageAttachment> {
+    await this.assertParticipant(conversationId, userId);
+
+    const buffer = Buffer.from(input.file.data.replace(/^data:[^;]+;base64,/, ""), "base64");
+    const validation = validateFileUpload(input.file.name, input.file.type, buffer.length, buffer);
+
+    if (!validation.valid) {
+      throw { status: 400, message: validation.error };
+    }
+
+    const storagePath = `${attachmentPrefix(conversationId)}${generateSecureFilename(input.file.name)}`;
+    await this.repository.uploadToStorage(storagePath, buffer, input.file.type);
+
+    try {
+      const file = await this.repository.createUploadedFile({
+        user_id: userId,
+        filename: storagePath.split("/").pop(),
+        original_name: validation.sanitizedFilename,
+        mime_type: input.file.type,
+        file_size: buffer.length,
+        storage_path: storagePath,
+        checksum: validation.checksum,
+      });
+
+      return { fileId: file.id, name: file.original_name, mimeType: file.mime_type, size: file.file_size };
+    } catch (err) {
+      await this.repository.removeFromStorage(storagePath).catch((removeErr) =>
+        console.error("[MESSAGING] Failed to clean up attachment:", removeErr)
+      );
+      throw err;
+    }
+  }
+
+  async sendMessage(conversationId: string, input: SendMessage, userId: string): Promise<any> {
+    const participantIds = await this.assertParticipant(conversationId, userId);
+
+    // Attachments must have been uploaded by the sender to this conversation
+    const files = await this.repository.getUploadedFiles(input.attachmentIds);
+    if (
+      files.length !== input.attachmentIds.length ||
+      files.some((f) => f.user_id !== userId || !f.storage_path.startsWith(attachmentPrefix(conversationId)))
+    ) {
+      throw { status: 400, message: "One or more attachments could not be found" };
+    }
+
+    const attachments: MessageAttachment[] = files.map((f) => ({
+      fileId: f.id,
+      name: f.original_name,
+      mimeType: f.mime_type,
+      size: f.file_size,
+    }));
+
+    const message = await this.repository.createMessage({
+      conversation_id: conversationId,
+      sender_id: userId,
+      content: input.content.trim(),
+      message_type: attachments.length > 0 ? "attachment" : "text",
+      attachments: attachments.length > 0 ? attachments : null,
+    });
+
+    await this.repository.touchConversation(conversationId);
+    await this.repository.markParticipantRead(conversationId, userId, message.created_at);
+
+    const [withUrls] = await this.withAttachmentUrls([message]);
+    messagingHub.publish(participantIds, { type: "message", conversationId, message: withUrls });
+
+    this.notifyOfflineRecipients(conversationId, participantIds.filter((id) => id !== userId), message).catch((err) =>
+      console.error("[MESSAGING] Offline notification failed:", err)
+    );
+
+    return withUrls;
+  }
+
+  // Offline recipients get one email per unread streak rather than one per message
+  private async notifyOfflineRecipients(conversationId: string, recipientIds: string[], message: any) {
+    const offline = recipientIds.filter((id) => !messagingHub.isOnline(id));
+    if (offline.length === 0) return;
+
+    const [participants, users, conversation] = await Promise.all([
+      this.repository.getParticipants(conversationId),
+      this.repository.findUsers(offline),
+      this.repository.getConversation(conversationId),
+    ]);
+
+    for (const user of users) {
+      const lastReadAt = participants.find((p) => p.user_id === user.id)?.last_read_at ?? null;
+      if ((await this.repository.countUnread(conversationId, user.id, lastReadAt)) > 1) continue;
+
+      await sendNewMessageNotification(user, {
+        conversationId,
+        senderName: message.users?.full_name || "Someone",
+        content: message.content,
+        attachmentCount: message.attachments?.length ?? 0,
+        propertyTitle: conversation?.properties?.title ?? null,
+      });
+    }
+  }
+
+  async markRead(conversationId: string, userId: string): Promise<{ readAt: string }> {
+    const participantIds = await this.assertParticipant(conversationId, userId);
+    const readAt = new Date().toISOString();
+
+    await this.repository.markParticipantRead(conversationId, userId, readAt);
+    await this.repository.markMessagesRead(conversationId, userId, readAt);
+
+    messagingHub.publish(participantIds, { type: "read", conversationId, userId, readAt });
+
+    return { readAt };
+  }
+
+  async handleClientEvent(userId: string, event: MessagingClientEvent): Promise<void> {
+    if (event.type !== "typing") return;
+
+    const participantIds = await this.getParticipantIds(event.conversationId);
+    if (!participantIds.includes(userId)) return;
+
+    messagingHub.publish(
+      participantIds.filter((id) => id !== userId),
+      { type: "typing", conversationId: event.conversationId, userId, isTyping: event.isTyping }
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerModerationRoutes } from "./moderation.routes";
+
+export function registerModerationModuleRoutes(app: Express): void {
+  registerModerationRoutes(app);
+}
+
+export { ModerationService } from "./moderation.service";
+export { ModerationRepository } from "./moderation.repository";
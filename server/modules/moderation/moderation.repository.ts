@@ -0,0 +1,176 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const REPORT_SELECT = `
+  *,
+  properties(id, title, address, owner_id, moderation_hidden_at),
+  reviews(id, property_id, rating, title, comment, moderation_hidden_at),
+  reporter:users!content_reports_reporter_id_fkey(id, full_name, email),
+  assignee:users!content_reports_assigned_to_fkey(id, full_name, email)
+`;
+
+// Open reports are the ones still waiting on a moderator decision
+export const OPEN_REPORT_STATUSES = ["pending", "under_review"];
+
+export interface ReportTarget {
+  column: "property_id" | "review_id";
+  table: "properties" | "reviews";
+  id: string;
+}
+
+export interface ReportQueueFilters {
+  status?: string;
+  statuses?: string[];
+  priority?: string;
+  targetType?: "property" | "review";
+  assignedTo?: string;
+  unassigned?: boolean;
+  limit: number;
+}
+
+export class ModerationRepository {
+  async getPropertyById(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, title, owner_id, moderation_hidden_at")
+      .eq("id", propertyId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getReviewById(reviewId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("reviews")
+      .select("id, user_id, property_id, moderation_hidden_at")
+      .eq("id", reviewId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findOpenReportByReporter(reporterId: string, target: ReportTarget): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("content_reports")
+      .select("id")
+      .eq("reporter_id", reporterId)
+      .eq(target.column, target.id)
+      .in("status", OPEN_REPORT_STATUSES)
+      .limit(1);
+
+    if (error) throw error;
+    return (data || [])[0] || null;
+  }
+
+  async createReport(reportData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("content_reports")
+      .insert([reportData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getOpenReportsForTarget(target: ReportTarget): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("content_reports")
+      .select("id, reporter_id, priority")
+      .eq(target.column, target.id)
+      .in("status", OPEN_REPORT_STATUSES);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateOpenReportsForTarget(target: ReportTarget, updates: Record<string, any>): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("content_reports")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq(target.column, target.id)
+      .in("status", OPEN_REPORT_STATUSES)
+      .select("id");
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getReportById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("content_reports")
+      .select(REPORT_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listQueue(filters: ReportQueueFilters): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase.from("content_reports").select(REPORT_SELECT);
+
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.statuses) query = query.in("status", filters.statuses);
+    if (filters.priority) query = query.eq("priority", filters.priority);
+    if (filters.targetType === "property") query = query.not("property_id", "is", null);
+    if (filters.targetType === "review") query = query.not("review_id", "is", null);
+    if (filters.assignedTo) query = query.eq("assigned_to", filters.assignedTo);
+    if (filters.unassigned) query = query.is("assigned_to", null);
+
+    const { data, error } = await query
+      .order("created_at", { ascending: true })
+      .limit(filters.limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateReport(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("content_reports")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // updated_at moves too, so jobs that look for recently changed rows see the hide or restore
+  async setContentHidden(target: ReportTarget, hidden: boolean): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from(target.table)
+      .update({ moderation_hidden_at: hidden ? now : null, updated_at: now })
+      .eq("id", target.id);
+
+    if (error) throw error;
+  }
+
+  async getUserRole(userId: string): Promise<string | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.role || null;
+  }
+}
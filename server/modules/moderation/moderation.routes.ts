@@ -0,0 +1,92 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { inquiryLimiter } from "../../rate-limit";
+import {
+  createContentReportSchema,
+  contentReportAssignSchema,
+  contentReportResolveSchema,
+} from "@shared/schema";
+import { ModerationService } from "./moderation.service";
+
+const moderationService = new ModerationService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[MODERATION] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerModerationRoutes(app: Express): void {
+  // POST /api/v2/reports - Flag a listing or review for moderator review
+  app.post("/api/v2/reports", inquiryLimiter, authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createContentReportSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await moderationService.createReport(validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Report submitted"));
+    } catch (err: any) {
+      return handleError(res, err, "Create", "Failed to submit report");
+    }
+  });
+
+  // GET /api/v2/admin/moderation/reports - Prioritized moderation queue
+  app.get("/api/v2/admin/moderation/reports", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+
+      const result = await moderationService.getQueue(req.user!.id, {
+        status: req.query.status as string | undefined,
+        priority: req.query.priority as string | undefined,
+        targetType: req.query.targetType as string | undefined,
+        assignment: req.query.assignment as string | undefined,
+        page,
+        limit,
+      });
+
+      return res.json(success(result, "Moderation queue retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Queue", "Failed to retrieve moderation queue");
+    }
+  });
+
+  // PATCH /api/v2/admin/moderation/reports/:id/assign - Claim a report or change its priority
+  app.patch("/api/v2/admin/moderation/reports/:id/assign", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = contentReportAssignSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await moderationService.assign(req.params.id, validation.data, req.user!.id, req);
+
+      return res.json(success(result, "Report updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Assign", "Failed to update report");
+    }
+  });
+
+  // PATCH /api/v2/admin/moderation/reports/:id/resolve - Resolve or dismiss, optionally hiding or restoring the content
+  app.patch("/api/v2/admin/moderation/reports/:id/resolve", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = contentReportResolveSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await moderationService.resolve(req.params.id, validation.data, req.user!.id, req);
+
+      return res.json(success(result, "Report closed"));
+    } catch (err: any) {
+      return handleError(res, err, "Resolve", "Failed to close report");
+    }
+  });
+}
@@ -0,0 +1,273 @@
+import {
+  REPORT_PRIORITIES,
+  type CreateContentReport,
+  type ContentReportAssign,
+  type ContentReportResolve,
+} from "@shared/schema";
+import { ModerationRepository, OPEN_REPORT_STATUSES, type ReportTarget } from "./moderation.repository";
+import { logAuditEvent } from "../../security/audit-logger";
+import { cache } from "../../cache";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Independent reporters needed before content is pulled from public view pending review
+const AUTO_HIDE_THRESHOLD = parseInt(process.env.MODERATION_AUTO_HIDE_THRESHOLD || "3", 10);
+
+// Report types that put people or money at risk jump the queue
+const HIGH_PRIORITY_REPORT_TYPES = ["fraudulent_listing", "safety_concern", "discrimination"];
+
+// Upper bound on rows pulled for in-memory priority ordering of the queue
+const QUEUE_FETCH_LIMIT = 500;
+
+function priorityRank(priority: string | null): number {
+  const index = REPORT_PRIORITIES.indexOf((priority || "normal") as any);
+  return index === -1 ? 1 : index;
+}
+
+function targetFor(report: { property_id?: string | null; review_id?: string | null }): ReportTarget {
+  return report.property_id
+    ? { column: "property_id", table: "properties", id: report.property_id }
+    : { column: "review_id", table: "reviews", id: report.review_id! };
+}
+
+function targetKey(report: { property_id?: string | null; review_id?: string | null }): string {
+  const target = targetFor(report);
+  return `${target.column}:${target.id}`;
+}
+
+export class ModerationService {
+  private repository: ModerationRepository;
+
+  constructor() {
+    this.repository = new ModerationRepository();
+  }
+
+  private invalidateTargetCache(target: ReportTarget) {
+    if (target.table === "properties") {
+      cache.invalidate(`property:${target.id}`);
+      cache.invalidate("properties:");
+    }
+  }
+
+  private async setHidden(target: ReportTarget, hidden: boolean, userId: string | undefined, newData: Record<string, any>, req: any) {
+    await this.repository.setContentHidden(target, hidden);
+    this.invalidateTargetCache(target);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: target.table === "properties" ? "property" : "review",
+      resourceId: target.id,
+      previousData: { moderationHidden: !hidden },
+      newData: { moderationHidden: hidden, ...newData },
+      req,
+    });
+  }
+
+  async createReport(input: CreateContentReport, userId: string, req: any): Promise<any> {
+    let target: ReportTarget;
+    let content: any;
+
+    if (input.propertyId) {
+      content = await this.repository.getPropertyById(input.propertyId);
+      if (!content) {
+        throw { status: 404, message: "Property not found" };
+      }
+      if (content.owner_id === userId) {
+        throw { status: 400, message: "You cannot report your own listing" };
+      }
+      target = { column: "property_id", table: "properties", id: content.id };
+    } else {
+      content = await this.repository.getReviewById(input.reviewId!);
+      if (!content) {
+        throw { status: 404, message: "Review not found" };
+      }
+      if (content.user_id === userId) {
+        throw { status: 400, message: "You cannot report your own review" };
+      }
+      target = { column: "review_id", table: "reviews", id: content.id };
+    }
+
+    if (await this.repository.findOpenReportByReporter(userId, target)) {
+      throw { status: 409, message: "You have already reported this content. Our team is reviewing it." };
+    }
+
+    const report = await this.repository.createReport({
+      reporter_id: userId,
+      property_id: input.propertyId || null,
+      review_id: input.reviewId || null,
+      report_type: input.reportType,
+      description: input.description || null,
+      status: "pending",
+      priority: HIGH_PRIORITY_REPORT_TYPES.includes(input.reportType) ? "high" : "normal",
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "content_report",
+      resourceId: report.id,
+      newData: { reportType: input.reportType, propertyId: input.propertyId, reviewId: input.reviewId },
+      req,
+    });
+
+    await this.applyAutoHide(target, content, req);
+
+    return report;
+  }
+
+  // Pull content from public view once enough different users have flagged it.
+  // Repeat reports from the same account only count once.
+  private async applyAutoHide(target: ReportTarget, content: any, req: any) {
+    if (content.moderation_hidden_at) return;
+
+    const openReports = await this.repository.getOpenReportsForTarget(target);
+    const reporters = new Set(openReports.map((r: any) => r.reporter_id).filter(Boolean));
+
+    if (reporters.size < AUTO_HIDE_THRESHOLD) return;
+
+    await this.setHidden(target, true, undefined, { reason: "auto_hidden", reportCount: reporters.size }, req);
+
+    if (openReports.some((r: any) => r.priority !== "urgent")) {
+      await this.repository.updateOpenReportsForTarget(target, { priority: "urgent" });
+    }
+  }
+
+  async assign(id: string, input: ContentReportAssign, userId: string, req: any): Promise<any> {
+    const report = await this.repository.getReportById(id);
+
+    if (!report) {
+      throw { status: 404, message: "Report not found" };
+    }
+
+    const updates: Record<string, any> = {};
+
+    if (input.assignedTo !== undefined) {
+      if (input.assignedTo) {
+        const role = await this.repository.getUserRole(input.assignedTo);
+        if (!role || !ADMIN_ROLES.includes(role)) {
+          throw { status: 400, message: "Reports can only be assigned to admins" };
+        }
+      }
+      updates.assigned_to = input.assignedTo;
+    } else if (!input.priority) {
+      // No payload means "assign to me"
+      updates.assigned_to = userId;
+    }
+
+    if (input.priority) updates.priority = input.priority;
+    if (updates.assigned_to && report.status === "pending") updates.status = "under_review";
+
+    const updated = await this.repository.updateReport(id, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "content_report",
+      resourceId: id,
+      previousData: { assignedTo: report.assigned_to, priority: report.priority, status: report.status },
+      newData: { assignedTo: updates.assigned_to, priority: updates.priority, status: updates.status },
+      req,
+    });
+
+    return updated;
+  }
+
+  // Closing a report closes every open report on the same content, since the
+  // moderator's decision applies to the content rather than to one complaint
+  async resolve(id: string, input: ContentReportResolve, userId: string, req: any): Promise<any> {
+    const report = await this.repository.getReportById(id);
+
+    if (!report) {
+      throw { status: 404, message: "Report not found" };
+    }
+
+    if (!OPEN_REPORT_STATUSES.includes(report.status)) {
+      throw { status: 400, message: `Report is already ${report.status}` };
+    }
+
+    const target = targetFor(report);
+    const content = report.properties || report.reviews;
+
+    if (input.contentAction === "hide" && !content?.moderation_hidden_at) {
+      await this.setHidden(target, true, userId, { reason: "moderator", reportId: id }, req);
+    } else if (input.contentAction === "restore" && content?.moderation_hidden_at) {
+      await this.setHidden(target, false, userId, { reason: "moderator", reportId: id }, req);
+    }
+
+    const closed = await this.repository.updateOpenReportsForTarget(target, {
+      status: input.status,
+      resolution: input.resolution,
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "status_change",
+      resourceType: "content_report",
+      resourceId: id,
+      previousData: { status: report.status },
+      newData: {
+        status: input.status,
+        resolution: input.resolution,
+        contentAction: input.contentAction,
+        closedReportIds: closed.map((r: any) => r.id),
+      },
+      req,
+    });
+
+    return this.repository.getReportById(id);
+  }
+
+  // Admin queue: open reports by priority, then by how many people flagged the
+  // same content, then oldest first
+  async getQueue(
+    adminId: string,
+    filters: { status?: string; priority?: string; targetType?: string; assignment?: string; page: number; limit: number }
+  ): Promise<any> {
+    const reports = await this.repository.listQueue({
+      status: filters.status,
+      statuses: filters.status ? undefined : OPEN_REPORT_STATUSES,
+      priority: filters.priority,
+      targetType: filters.targetType === "property" || filters.targetType === "review" ? filters.targetType : undefined,
+      assignedTo: filters.assignment === "mine" ? adminId : undefined,
+      unassigned: filters.assignment === "unassigned",
+      limit: QUEUE_FETCH_LIMIT,
+    });
+
+    const reportCounts = new Map<string, number>();
+    for (const report of reports) {
+      if (OPEN_REPORT_STATUSES.includes(report.status)) {
+        const key = targetKey(report);
+        reportCounts.set(key, (reportCounts.get(key) || 0) + 1);
+      }
+    }
+
+    const withCounts = reports.map((report) => ({
+      ...report,
+      target_report_count: reportCounts.get(targetKey(report)) || 1,
+    }));
+
+    withCounts.sort((a, b) => {
+      const byPriority = priorityRank(b.priority) - priorityRank(a.priority);
+      if (byPriority !== 0) return byPriority;
+      const byCount = b.target_report_count - a.target_report_count;
+      if (byCount !== 0) return byCount;
+      return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    });
+
+    const offset = (filters.page - 1) * filters.limit;
+
+    return {
+      reports: withCounts.slice(offset, offset + filters.limit),
+      autoHideThreshold: AUTO_HIDE_THRESHOLD,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total: withCounts.length,
+        totalPages: Math.ceil(withCounts.length / filters.limit),
+      },
+    };
+  }
+}
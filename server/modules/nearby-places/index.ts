@@ -0,0 +1,10 @@
+import type { Express } from "express";
+import { registerNearbyPlaceRoutes } from "./nearby-place.routes";
+
+export function registerNearbyPlaceModuleRoutes(app: Express): void {
+  registerNearbyPlaceRoutes(app);
+}
+
+export { NearbyPlaceService } from "./nearby-place.service";
+export { NearbyPlaceRepository } from "./nearby-place.repository";
+export { categorizeOsmTags, formatOsmAddress } from "./osm-categories";
@@ -0,0 +1,68 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+export interface NearbyPointOfInterest {
+  id: string;
+  category: string;
+  subtype: string | null;
+  name: string;
+  latitude: number;
+  longitude: number;
+  distance_miles: number;
+}
+
+export class NearbyPlaceRepository {
+  async getProperty(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, latitude, longitude, deleted_at")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getCachedPlaces(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_nearby_places")
+      .select("property_id, latitude, longitude, radius_miles, places, computed_at")
+      .eq("property_id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async saveCachedPlaces(cacheData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_nearby_places")
+      .upsert([cacheData], { onConflict: "property_id" })
+      .select("property_id, latitude, longitude, radius_miles, places, computed_at")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findNearbyPointsOfInterest(
+    latitude: number,
+    longitude: number,
+    radiusMiles: number,
+    perCategory: number
+  ): Promise<NearbyPointOfInterest[]> {
+    const supabase = getSupabaseOrThrow();
+
+    const { data, error } = await supabase.rpc("nearby_points_of_interest", {
+      origin_lat: latitude,
+      origin_lng: longitude,
+      radius_miles: radiusMiles,
+      per_category: perCategory,
+    });
+
+    if (error) throw error;
+    return (data ?? []) as NearbyPointOfInterest[];
+  }
+}
@@ -0,0 +1,26 @@
+import type { Express, Response } from "express";
+import { success, error as errorResponse } from "../../response";
+import { NearbyPlaceService } from "./nearby-place.service";
+
+const nearbyPlaceService = new NearbyPlaceService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[NEARBY_PLACES] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerNearbyPlaceRoutes(app: Express): void {
+  // GET /api/v2/properties/:propertyId/nearby-places - Schools, transit, groceries, parks and hospitals near a listing
+  app.get("/api/v2/properties/:propertyId/nearby-places", async (req, res) => {
+    try {
+      const result = await nearbyPlaceService.getNearbyPlaces(req.params.propertyId);
+
+      return res.json(success(result, "Nearby places retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to retrieve nearby places");
+    }
+  });
+}
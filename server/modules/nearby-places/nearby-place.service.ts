@@ -0,0 +1,96 @@
+import {
+  NEARBY_PLACE_CATEGORIES,
+  NEARBY_PLACES_RADIUS_MILES,
+  NEARBY_PLACES_PER_CATEGORY,
+  NEARBY_PLACES_CACHE_DAYS,
+} from "@shared/schema";
+import { NearbyPlaceRepository } from "./nearby-place.repository";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cached results are reused only while the property sits at the same spot
+const COORDINATE_TOLERANCE = 0.00001;
+
+type NearbyPlacesByCategory = Record<string, Array<{
+  id: string;
+  name: string;
+  subtype: string | null;
+  distance: number;
+  latitude: number;
+  longitude: number;
+}>>;
+
+export class NearbyPlaceService {
+  private repository: NearbyPlaceRepository;
+
+  constructor() {
+    this.repository = new NearbyPlaceRepository();
+  }
+
+  private isCacheFresh(cached: any, latitude: number, longitude: number): boolean {
+    if (!cached) return false;
+
+    const computedAt = new Date(cached.computed_at).getTime();
+    return (
+      Math.abs(Number(cached.latitude) - latitude) < COORDINATE_TOLERANCE &&
+      Math.abs(Number(cached.longitude) - longitude) < COORDINATE_TOLERANCE &&
+      Number(cached.radius_miles) === NEARBY_PLACES_RADIUS_MILES &&
+      Date.now() - computedAt < NEARBY_PLACES_CACHE_DAYS * DAY_MS
+    );
+  }
+
+  // Closest schools, transit, groceries, parks and hospitals around a listing, by category
+  async getNearbyPlaces(propertyId: string): Promise<any> {
+    const property = await this.repository.getProperty(propertyId);
+
+    if (!property || property.deleted_at) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    const latitude = property.latitude == null ? NaN : Number(property.latitude);
+    const longitude = property.longitude == null ? NaN : Number(property.longitude);
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      throw { status: 404, message: "This property has no location on file" };
+    }
+
+    let cached = await this.repository.getCachedPlaces(propertyId);
+
+    if (!this.isCacheFresh(cached, latitude, longitude)) {
+      const rows = await this.repository.findNearbyPointsOfInterest(
+        latitude,
+        longitude,
+        NEARBY_PLACES_RADIUS_MILES,
+        NEARBY_PLACES_PER_CATEGORY
+      );
+
+      const places: NearbyPlacesByCategory = Object.fromEntries(NEARBY_PLACE_CATEGORIES.map((category) => [category, []]));
+      for (const row of rows) {
+        places[row.category]?.push({
+          id: row.id,
+          name: row.name,
+          subtype: row.subtype,
+          distance: Math.round(row.distance_miles * 10) / 10,
+          latitude: row.latitude,
+          longitude: row.longitude,
+        });
+      }
+
+      cached = await this.repository.saveCachedPlaces({
+        property_id: propertyId,
+        latitude,
+        longitude,
+        radius_miles: NEARBY_PLACES_RADIUS_MILES,
+        places,
+        computed_at: new Date().toISOString(),
+      });
+    }
+
+    return {
+      propertyId,
+      radiusMiles: Number(cached.radius_miles),
+      computedAt: cached.computed_at,
+      categories: cached.places,
+    };
+  }
+}
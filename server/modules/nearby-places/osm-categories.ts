@@ -0,0 +1,32 @@
+import type { NearbyPlaceCategory } from "@shared/schema";
+
+// OpenStreetMap tag values that place a feature in each neighborhood category.
+// Checked in order, so a feature tagged both amenity=school and leisure=park is a school.
+const OSM_CATEGORY_TAGS: Array<{ category: NearbyPlaceCategory; key: string; values: string[] }> = [
+  { category: "schools", key: "amenity", values: ["school", "kindergarten", "college", "university"] },
+  { category: "hospitals", key: "amenity", values: ["hospital", "clinic"] },
+  { category: "transit", key: "amenity", values: ["bus_station"] },
+  { category: "transit", key: "highway", values: ["bus_stop"] },
+  { category: "transit", key: "railway", values: ["station", "halt", "tram_stop", "subway_entrance"] },
+  { category: "transit", key: "public_transport", values: ["station", "platform"] },
+  { category: "groceries", key: "shop", values: ["supermarket", "grocery", "greengrocer"] },
+  { category: "parks", key: "leisure", values: ["park", "garden", "nature_reserve"] },
+];
+
+export function categorizeOsmTags(
+  tags: Record<string, string | undefined>
+): { category: NearbyPlaceCategory; subtype: string } | null {
+  for (const { category, key, values } of OSM_CATEGORY_TAGS) {
+    const value = tags[key];
+    if (value && values.includes(value)) {
+      return { category, subtype: value };
+    }
+  }
+  return null;
+}
+
+export function formatOsmAddress(tags: Record<string, string | undefined>): string | null {
+  const street = [tags["addr:housenumber"], tags["addr:street"]].filter(Boolean).join(" ");
+  const address = [street, tags["addr:city"], tags["addr:state"]].filter(Boolean).join(", ");
+  return address || null;
+}
@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerNotificationRoutes } from "./notification.routes";
+
+export function registerNotificationModuleRoutes(app: Express): void {
+  registerNotificationRoutes(app);
+}
+
+export { NotificationService } from "./notification.service";
+export { NotificationRepository } from "./notification.repository";
@@ -0,0 +1,30 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const PREFERENCE_COLUMNS =
+  "email_new_applications, email_status_updates, email_property_saved, email_lease_reminders, in_app_notifications, push_notifications, notification_frequency, updated_at";
+
+export class NotificationRepository {
+  async getPreferences(userId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("user_notification_preferences")
+      .select(PREFERENCE_COLUMNS)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async upsertPreferences(userId: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("user_notification_preferences")
+      .upsert([{ user_id: userId, ...values, updated_at: new Date().toISOString() }], { onConflict: "user_id" })
+      .select(PREFERENCE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
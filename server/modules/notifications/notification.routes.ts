@@ -0,0 +1,45 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { updateNotificationPreferencesSchema } from "@shared/schema";
+import { NotificationService } from "./notification.service";
+
+const notificationService = new NotificationService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[NOTIFICATIONS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerNotificationRoutes(app: Express): void {
+  // GET /api/v2/notification-preferences - Current user's channel and frequency settings
+  app.get("/api/v2/notification-preferences", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await notificationService.getPreferences(req.user!.id);
+
+      return res.json(success(result, "Notification preferences retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Get preferences", "Failed to retrieve notification preferences");
+    }
+  });
+
+  // PUT /api/v2/notification-preferences - Update any subset of the current user's settings
+  app.put("/api/v2/notification-preferences", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateNotificationPreferencesSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await notificationService.updatePreferences(req.user!.id, validation.data);
+
+      return res.json(success(result, "Notification preferences updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update preferences", "Failed to update notification preferences");
+    }
+  });
+}
@@ -0,0 +1,42 @@
+import type { UpdateNotificationPreferences } from "@shared/schema";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "../../notification-service";
+import { NotificationRepository } from "./notification.repository";
+
+const PREFERENCE_COLUMN_BY_FIELD: Record<keyof UpdateNotificationPreferences, string> = {
+  emailNewApplications: "email_new_applications",
+  emailStatusUpdates: "email_status_updates",
+  emailPropertySaved: "email_property_saved",
+  emailLeaseReminders: "email_lease_reminders",
+  inAppNotifications: "in_app_notifications",
+  pushNotifications: "push_notifications",
+  notificationFrequency: "notification_frequency",
+};
+
+export class NotificationService {
+  private repository = new NotificationRepository();
+
+  // Stored preferences merged over the defaults so the settings page always has every toggle
+  async getPreferences(userId: string): Promise<any> {
+    const stored = await this.repository.getPreferences(userId);
+    return this.withDefaults(stored);
+  }
+
+  async updatePreferences(userId: string, input: UpdateNotificationPreferences): Promise<any> {
+    const values: Record<string, any> = {};
+    for (const [field, value] of Object.entries(input)) {
+      if (value === undefined) continue;
+      values[PREFERENCE_COLUMN_BY_FIELD[field as keyof UpdateNotificationPreferences]] = value;
+    }
+
+    const saved = await this.repository.upsertPreferences(userId, values);
+    return this.withDefaults(saved);
+  }
+
+  private withDefaults(stored: any): any {
+    const merged: Record<string, any> = { ...DEFAULT_NOTIFICATION_PREFERENCES, updated_at: null };
+    for (const [key, value] of Object.entries(stored || {})) {
+      if (value !== null && value !== undefined) merged[key] = value;
+    }
+    return merged;
+  }
+}
@@ -7,3 +7,4 @@ export function registerPaymentModuleRoutes(app: Express): void {
 
 export { PaymentService } from "./payment.service";
 export { PaymentRepository } from "./payment.repository";
+export { getPaymentProvider } from "./payment.provider";
@@ -0,0 +1,70 @@
+import type { PaymentProviderEventType } from "@shared/schema";
+import { SandboxPaymentProvider } from "./sandbox.provider";
+
+// Amounts cross the provider boundary in integer cents to avoid float rounding
+
+export interface ChargeRequest {
+  amountCents: number;
+  currency: string;
+  source: string;
+  idempotencyKey: string;
+  description: string;
+  metadata: Record<string, string>;
+}
+
+export interface ChargeResult {
+  providerPaymentId: string;
+  status: "succeeded" | "failed" | "pending";
+  failureReason?: string;
+}
+
+export interface RefundRequest {
+  providerPaymentId: string;
+  amountCents: number;
+  idempotencyKey: string;
+  reason?: string;
+}
+
+export interface RefundResult {
+  providerRefundId: string;
+  status: "succeeded" | "failed";
+  failureReason?: string;
+}
+
+export interface ProviderWebhookEvent {
+  id: string;
+  type: PaymentProviderEventType;
+  providerPaymentId: string;
+  amountCents?: number;
+  failureReason?: string;
+  providerRefundId?: string;
+  payload: Record<string, any>;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  refund(request: RefundRequest): Promise<RefundResult>;
+  // Throws { status: 400 } when the signature does not match the raw request body
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): ProviderWebhookEvent;
+}
+
+const providers: Record<string, () => PaymentProvider> = {
+  sandbox: () => new SandboxPaymentProvider(),
+};
+
+const instances = new Map<string, PaymentProvider>();
+
+export function getPaymentProvider(name: string = process.env.PAYMENT_PROVIDER || "sandbox"): PaymentProvider {
+  const factory = providers[name];
+  if (!factory) {
+    throw { status: 404, message: `Unknown payment provider: ${name}` };
+  }
+
+  let provider = instances.get(name);
+  if (!provider) {
+    provider = factory();
+    instances.set(name, provider);
+  }
+  return provider;
+}
@@ -1,4 +1,4 @@
-import { supabase } from "../../supabase";
+import { supabase, getSupabaseOrThrow } from "../../supabase";
 
 export interface PaymentData {
   id: string;
@@ -124,4 +124,214 @@ export class PaymentRepository {
     if (error) throw error;
     return data;
   }
+
+  // ===== Provider transactions =====
+
+  async getApplicationForCharge(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id, user_id, status, previous_status, status_history, application_fee, payment_status, payment_attempts, properties(id, title, owner_id, listing_agent_id, application_fee)")
+      .eq("id", applicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getPaymentForCharge(paymentId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payments")
+      .select("id, lease_id, tenant_id, amount, type, status, reference_id, leases(landlord_id, application_id)")
+      .eq("id", paymentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findTransactionByIdempotencyKey(idempotencyKey: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .select("*")
+      .eq("idempotency_key", idempotencyKey)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findOpenTransactionForTarget(column: "application_id" | "payment_id", targetId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .select("id, status")
+      .eq(column, targetId)
+      .in("status", ["pending", "succeeded"])
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Returns null when another request already claimed the idempotency key
+  async createTransaction(values: Record<string, any>): Promise<any | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .insert([values])
+      .select("*")
+      .single();
+
+    if (error) {
+      if (error.code === "23505") return null;
+      throw error;
+    }
+    return data;
+  }
+
+  async getTransactionById(transactionId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .select("*")
+      .eq("id", transactionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getTransactionByProviderPaymentId(provider: string, providerPaymentId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .select("*")
+      .eq("provider", provider)
+      .eq("provider_payment_id", providerPaymentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Guarded on the expected current status so concurrent webhook and API updates cannot both win
+  async updateTransaction(transactionId: string, expectedStatuses: string[], updates: Record<string, any>): Promise<any | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", transactionId)
+      .in("status", expectedStatuses)
+      .select("*")
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listTransactionsForReconciliation(statuses: string[], since: string, limit: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .select("*")
+      .in("status", statuses)
+      .gte("updated_at", since)
+      .order("updated_at", { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listStalePendingTransactions(before: string, limit: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_transactions")
+      .select("id, provider, provider_payment_id, purpose, application_id, payment_id, amount, created_at")
+      .eq("status", "pending")
+      .lt("created_at", before)
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateApplicationPayment(applicationId: string, updates: Record<string, any>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("applications")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", applicationId);
+
+    if (error) throw error;
+  }
+
+  async updateLeasePayment(paymentId: string, updates: Record<string, any>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("payments")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", paymentId);
+
+    if (error) throw error;
+  }
+
+  // ===== Provider events =====
+
+  async getProviderEvent(provider: string, eventId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_provider_events")
+      .select("*")
+      .eq("provider", provider)
+      .eq("event_id", eventId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createProviderEvent(values: Record<string, any>): Promise<any | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_provider_events")
+      .insert([values])
+      .select("*")
+      .single();
+
+    if (error) {
+      if (error.code === "23505") return null;
+      throw error;
+    }
+    return data;
+  }
+
+  async updateProviderEvent(eventRowId: string, updates: Record<string, any>): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("payment_provider_events")
+      .update(updates)
+      .eq("id", eventRowId);
+
+    if (error) throw error;
+  }
+
+  async listUnprocessedEvents(before: string, limit: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payment_provider_events")
+      .select("*")
+      .is("processed_at", null)
+      .lt("created_at", before)
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
 }
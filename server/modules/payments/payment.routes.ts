@@ -1,31 +1,111 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import type { AuthenticatedRequest } from "../../auth-middleware";
-import { authenticateToken } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
 import { success, error as errorResponse } from "../../response";
+import { processPaymentSchema, refundPaymentSchema } from "@shared/schema";
 import { PaymentService } from "./payment.service";
 import { getPaymentAuditLogs } from "../../security/audit-logger";
 
 const paymentService = new PaymentService();
 
+function getIdempotencyKey(req: Request): string | null {
+  const key = req.get("Idempotency-Key")?.trim();
+  return key && key.length <= 255 ? key : null;
+}
+
 export function registerPaymentRoutes(app: Express): void {
-  // POST /api/v2/payments/process - Mock payment processing
+  // POST /api/v2/payments/process - Charge an application fee, rent or deposit through the payment provider
   app.post("/api/v2/payments/process", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const { applicationId, amount, cardToken } = req.body;
+      const idempotencyKey = getIdempotencyKey(req);
+      if (!idempotencyKey) {
+        return res.status(400).json({ error: "An Idempotency-Key header is required" });
+      }
 
-      if (!applicationId || !amount) {
-        return res.status(400).json({ error: "Missing applicationId or amount" });
+      const validation = processPaymentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
       }
 
-      const result = await paymentService.processPayment(applicationId, amount, cardToken);
+      const result = await paymentService.processPayment(validation.data, idempotencyKey, req.user!.id, req);
+
+      if (result.status === "failed") {
+        return res.status(402).json({ error: "Payment was declined", data: result });
+      }
 
-      return res.json(success(result, "Payment processed successfully"));
+      return res.status(result.replayed ? 200 : 201).json(success(
+        result,
+        result.status === "pending" ? "Payment is processing" : "Payment processed successfully"
+      ));
     } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
       console.error("[PAYMENTS] Process error:", err);
       return res.status(500).json(errorResponse("Failed to process payment"));
     }
   });
 
+  // POST /api/v2/payments/transactions/:transactionId/refund - Refund all or part of a settled charge
+  app.post("/api/v2/payments/transactions/:transactionId/refund", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const idempotencyKey = getIdempotencyKey(req);
+      if (!idempotencyKey) {
+        return res.status(400).json({ error: "An Idempotency-Key header is required" });
+      }
+
+      const validation = refundPaymentSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await paymentService.refundTransaction(
+        req.params.transactionId,
+        validation.data,
+        idempotencyKey,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Refund processed successfully"));
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      console.error("[PAYMENTS] Refund error:", err);
+      return res.status(500).json(errorResponse("Failed to process refund"));
+    }
+  });
+
+  // POST /api/v2/payments/webhooks/:provider - Signed event callbacks from the payment provider
+  app.post("/api/v2/payments/webhooks/:provider", async (req, res) => {
+    try {
+      const result = await paymentService.handleWebhook(req.params.provider, req.rawBody, req.headers);
+
+      return res.json({ received: true, duplicate: result.duplicate });
+    } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      // A 5xx makes the provider retry; the stored event is also replayed by reconciliation
+      console.error("[PAYMENTS] Webhook error:", err);
+      return res.status(500).json(errorResponse("Failed to process webhook"));
+    }
+  });
+
+  // POST /api/v2/admin/payments/reconcile - Replay pending provider events and repair payment rows
+  app.post("/api/v2/admin/payments/reconcile", authenticateToken, requireRole("admin", "super_admin"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const report = await paymentService.reconcile();
+
+      return res.json(success(report, "Payments reconciled"));
+    } catch (err: any) {
+      console.error("[PAYMENTS] Reconcile error:", err);
+      return res.status(500).json(errorResponse("Failed to reconcile payments"));
+    }
+  });
+
   // POST /api/v2/payments/:paymentId/verify - Verify payment manually
   app.post("/api/v2/payments/:paymentId/verify", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
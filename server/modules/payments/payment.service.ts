@@ -1,10 +1,27 @@
 import { PaymentRepository, type PaymentData } from "./payment.repository";
-import { logPaymentAction } from "../../security/audit-logger";
+import { getPaymentProvider, type ChargeResult, type ProviderWebhookEvent } from "./payment.provider";
+import { logPaymentAction, logAuditEvent } from "../../security/audit-logger";
 import {
   sendPaymentReceivedNotification,
   sendPaymentVerifiedNotification,
+  sendPaymentFailureNotification,
 } from "../../notification-service";
 import { success } from "../../response";
+import type { ProcessPayment, RefundPayment } from "@shared/schema";
+
+// Pending charges older than this are reported by reconciliation
+const STALE_PENDING_HOURS = 24;
+// Settled transactions changed within this window are re-checked against their target rows
+const RECONCILE_LOOKBACK_DAYS = 7;
+
+const PURPOSE_LABELS: Record<string, string> = {
+  application_fee: "Application Fee",
+  rent: "Rent",
+  security_deposit: "Security Deposit",
+  late_fee: "Late Fee",
+};
+
+const toCents = (amount: number | string) => Math.round(parseFloat(amount.toString()) * 100);
 
 export class PaymentService {
   private repository: PaymentRepository;
@@ -13,22 +30,555 @@ export class PaymentService {
     this.repository = new PaymentRepository();
   }
 
-  async processPayment(applicationId: string, amount: number, cardToken?: string): Promise<any> {
-    // Simulate payment processing (in real app, would call Stripe/PayPal/etc)
-    const mockPaymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const mockTransactionId = `txn_${Date.now()}`;
+  // Charge an application fee or a rent/deposit row through the configured provider.
+  // Replaying the same idempotency key returns the original transaction instead of charging again.
+  async processPayment(input: ProcessPayment, idempotencyKey: string, userId: string, req?: any): Promise<any> {
+    const provider = getPaymentProvider();
+
+    const existing = await this.repository.findTransactionByIdempotencyKey(idempotencyKey);
+    if (existing) {
+      return this.replayTransaction(existing, input, userId);
+    }
+
+    const target = await this.resolveChargeTarget(input, userId);
+
+    if (input.amount !== undefined && toCents(input.amount) !== toCents(target.amount)) {
+      throw { status: 400, message: `Amount does not match the ${PURPOSE_LABELS[target.purpose].toLowerCase()} due` };
+    }
+
+    const openTransaction = await this.repository.findOpenTransactionForTarget(target.column, target.id);
+    if (openTransaction) {
+      throw {
+        status: 409,
+        message: openTransaction.status === "pending"
+          ? "A payment for this item is already being processed"
+          : "This item has already been paid",
+      };
+    }
+
+    const transaction = await this.repository.createTransaction({
+      provider: provider.name,
+      idempotency_key: idempotencyKey,
+      user_id: userId,
+      purpose: target.purpose,
+      application_id: target.applicationId,
+      payment_id: target.paymentId,
+      amount: target.amount,
+      currency: "usd",
+      status: "pending",
+    });
+
+    // Lost the race to a concurrent request with the same key
+    if (!transaction) {
+      const winner = await this.repository.findTransactionByIdempotencyKey(idempotencyKey);
+      return this.replayTransaction(winner, input, userId);
+    }
+
+    let result: ChargeResult;
+    try {
+      result = await provider.charge({
+        amountCents: toCents(target.amount),
+        currency: "usd",
+        source: input.source,
+        idempotencyKey,
+        description: `${PURPOSE_LABELS[target.purpose]} - ${target.description}`,
+        metadata: { transactionId: transaction.id, purpose: target.purpose, targetId: target.id },
+      });
+    } catch (err) {
+      await this.repository.updateTransaction(transaction.id, ["pending"], {
+        status: "failed",
+        failure_reason: "provider_error",
+      });
+      throw err;
+    }
+
+    const updated = await this.repository.updateTransaction(transaction.id, ["pending"], {
+      provider_payment_id: result.providerPaymentId,
+    });
+
+    const settled = result.status === "pending"
+      ? updated
+      : await this.settleTransaction(updated || transaction, result.status, result.failureReason, userId, req);
+
+    return this.formatTransaction(settled || updated || transaction);
+  }
+
+  async refundTransaction(
+    transactionId: string,
+    input: RefundPayment,
+    idempotencyKey: string,
+    userId: string,
+    userRole: string,
+    req?: any
+  ): Promise<any> {
+    const transaction = await this.repository.getTransactionById(transactionId);
+    if (!transaction) {
+      throw { status: 404, message: "Transaction not found" };
+    }
+
+    await this.assertCanRefund(transaction, userId, userRole);
+
+    const previousRefund = (transaction.refunds || []).find((r: any) => r.idempotencyKey === idempotencyKey);
+    if (previousRefund) {
+      return this.formatTransaction(transaction);
+    }
+
+    if (!["succeeded", "partially_refunded"].includes(transaction.status)) {
+      throw { status: 400, message: "Only settled payments can be refunded" };
+    }
+
+    const remainingCents = toCents(transaction.amount) - toCents(transaction.refunded_amount || 0);
+    const refundCents = input.amount !== undefined ? toCents(input.amount) : remainingCents;
+    if (refundCents <= 0 || refundCents > remainingCents) {
+      throw { status: 400, message: `Refund must be between $0.01 and $${(remainingCents / 100).toFixed(2)}` };
+    }
+
+    const provider = getPaymentProvider(transaction.provider);
+    const result = await provider.refund({
+      providerPaymentId: transaction.provider_payment_id,
+      amountCents: refundCents,
+      idempotencyKey,
+      reason: input.reason,
+    });
+
+    if (result.status !== "succeeded") {
+      throw { status: 402, message: result.failureReason || "The refund was declined by the payment provider" };
+    }
+
+    const refund = {
+      providerRefundId: result.providerRefundId,
+      idempotencyKey,
+      amount: refundCents / 100,
+      reason: input.reason,
+      refundedBy: userId,
+      createdAt: new Date().toISOString(),
+    };
+
+    const updated = await this.applyRefund(transaction, refund, userId, req);
+    return this.formatTransaction(updated);
+  }
+
+  // Verify and apply a provider webhook. Events are stored first and deduplicated by
+  // event id, so provider retries are acknowledged without being applied twice.
+  async handleWebhook(providerName: string, rawBody: unknown, headers: Record<string, any>): Promise<{ duplicate: boolean }> {
+    if (!Buffer.isBuffer(rawBody)) {
+      throw { status: 400, message: "Missing request body" };
+    }
+
+    const provider = getPaymentProvider(providerName);
+    const event = provider.verifyWebhook(rawBody, headers);
+
+    let stored = await this.repository.getProviderEvent(provider.name, event.id);
+    if (stored?.processed_at) {
+      return { duplicate: true };
+    }
+
+    if (!stored) {
+      stored = await this.repository.createProviderEvent({
+        provider: provider.name,
+        event_id: event.id,
+        event_type: event.type,
+        provider_payment_id: event.providerPaymentId,
+        payload: event.payload,
+      });
+      // A concurrent delivery of the same event is handling it
+      if (!stored) return { duplicate: true };
+    }
+
+    await this.processStoredEvent(stored, event);
+    return { duplicate: false };
+  }
+
+  // Replays unprocessed webhook events, repairs application/payment rows that do not
+  // reflect their settled transaction, and reports charges stuck in pending.
+  async reconcile(): Promise<any> {
+    const now = Date.now();
+    const report = {
+      eventsReplayed: 0,
+      unmatchedEvents: [] as any[],
+      targetsRepaired: [] as any[],
+      stalePending: [] as any[],
+    };
+
+    const events = await this.repository.listUnprocessedEvents(new Date(now - 60 * 1000).toISOString(), 200);
+    for (const stored of events) {
+      const processed = await this.processStoredEvent(stored, this.eventFromStored(stored));
+      if (processed) {
+        report.eventsReplayed++;
+      } else {
+        report.unmatchedEvents.push({ eventId: stored.event_id, type: stored.event_type, providerPaymentId: stored.provider_payment_id });
+      }
+    }
+
+    const since = new Date(now - RECONCILE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const settled = await this.repository.listTransactionsForReconciliation(
+      ["succeeded", "refunded", "partially_refunded"],
+      since,
+      500
+    );
+    for (const transaction of settled) {
+      const repaired = await this.syncTarget(transaction, null);
+      if (repaired) {
+        report.targetsRepaired.push({ transactionId: transaction.id, purpose: transaction.purpose, status: transaction.status });
+      }
+    }
+
+    const stale = await this.repository.listStalePendingTransactions(
+      new Date(now - STALE_PENDING_HOURS * 60 * 60 * 1000).toISOString(),
+      200
+    );
+    report.stalePending = stale.map((t) => ({
+      transactionId: t.id,
+      providerPaymentId: t.provider_payment_id,
+      purpose: t.purpose,
+      amount: parseFloat(t.amount),
+      createdAt: t.created_at,
+    }));
+
+    return report;
+  }
+
+  private async resolveChargeTarget(input: ProcessPayment, userId: string): Promise<{
+    purpose: string;
+    column: "application_id" | "payment_id";
+    id: string;
+    applicationId: string | null;
+    paymentId: string | null;
+    amount: number;
+    description: string;
+  }> {
+    if (input.applicationId) {
+      const application = await this.repository.getApplicationForCharge(input.applicationId);
+      if (!application) {
+        throw { status: 404, message: "Application not found" };
+      }
+      if (application.user_id !== userId) {
+        throw { status: 403, message: "Only the applicant can pay this application fee" };
+      }
+      if (["paid", "manually_verified"].includes(application.payment_status)) {
+        throw { status: 409, message: "This application fee has already been paid" };
+      }
+
+      const fee = parseFloat(application.application_fee ?? application.properties?.application_fee ?? "0");
+      if (!fee || fee <= 0) {
+        throw { status: 400, message: "No application fee is due for this application" };
+      }
 
-    // In production, verify amount matches application fee
-    // For now, mock success after 100ms delay to simulate processing
-    await new Promise(resolve => setTimeout(resolve, 100));
+      return {
+        purpose: "application_fee",
+        column: "application_id",
+        id: application.id,
+        applicationId: application.id,
+        paymentId: null,
+        amount: fee,
+        description: application.properties?.title || "Application",
+      };
+    }
+
+    const payment = await this.repository.getPaymentForCharge(input.paymentId!);
+    if (!payment) {
+      throw { status: 404, message: "Payment not found" };
+    }
+    if (payment.tenant_id !== userId) {
+      throw { status: 403, message: "Only the tenant can pay this balance" };
+    }
+    if (["paid", "verified", "refunded"].includes(payment.status)) {
+      throw { status: 409, message: "This payment has already been made" };
+    }
+
+    return {
+      purpose: payment.type,
+      column: "payment_id",
+      id: payment.id,
+      applicationId: payment.leases?.application_id || null,
+      paymentId: payment.id,
+      amount: parseFloat(payment.amount),
+      description: `Lease ${payment.lease_id.substring(0, 8)}`,
+    };
+  }
+
+  private replayTransaction(transaction: any, input: ProcessPayment, userId: string): any {
+    const sameTarget = input.applicationId
+      ? transaction.purpose === "application_fee" && transaction.application_id === input.applicationId
+      : transaction.payment_id === input.paymentId;
+
+    if (transaction.user_id !== userId || !sameTarget) {
+      throw { status: 409, message: "Idempotency key was already used for a different payment" };
+    }
+
+    return { ...this.formatTransaction(transaction), replayed: true };
+  }
+
+  // Move a pending transaction to its final state and reflect it on the target row
+  private async settleTransaction(
+    transaction: any,
+    status: "succeeded" | "failed",
+    failureReason: string | undefined,
+    actorId: string | null,
+    req?: any
+  ): Promise<any> {
+    const updated = await this.repository.updateTransaction(transaction.id, ["pending"], {
+      status,
+      failure_reason: status === "failed" ? failureReason || "payment_failed" : null,
+      settled_at: new Date().toISOString(),
+    });
+
+    // Already settled by a concurrent webhook or API call
+    if (!updated) {
+      return this.repository.getTransactionById(transaction.id);
+    }
+
+    await this.syncTarget(updated, actorId, req);
+
+    await logAuditEvent({
+      userId: actorId || undefined,
+      action: status === "succeeded" ? "payment_charged" : "payment_failed",
+      resourceType: "payment_transaction",
+      resourceId: updated.id,
+      previousData: { status: "pending" },
+      newData: { status, failureReason: updated.failure_reason },
+      metadata: {
+        provider: updated.provider,
+        providerPaymentId: updated.provider_payment_id,
+        purpose: updated.purpose,
+        amount: parseFloat(updated.amount),
+      },
+      req,
+    });
+
+    if (updated.user_id) {
+      try {
+        const label = PURPOSE_LABELS[updated.purpose] || "Payment";
+        const amount = parseFloat(updated.amount).toFixed(2);
+        if (status === "succeeded" && updated.payment_id) {
+          await sendPaymentVerifiedNotification(updated.payment_id, updated.user_id, label, amount);
+        } else if (status === "failed") {
+          await sendPaymentFailureNotification(updated.user_id, label, amount, updated.failure_reason);
+        }
+      } catch (notificationErr) {
+        console.error("[PAYMENTS] Failed to send charge notification:", notificationErr);
+      }
+    }
+
+    return updated;
+  }
+
+  private async applyRefund(transaction: any, refund: any, actorId: string | null, req?: any): Promise<any> {
+    const refundedCents = toCents(transaction.refunded_amount || 0) + toCents(refund.amount);
+    const status = refundedCents >= toCents(transaction.amount) ? "refunded" : "partially_refunded";
+
+    const updated = await this.repository.updateTransaction(transaction.id, ["succeeded", "partially_refunded"], {
+      status,
+      refunded_amount: refundedCents / 100,
+      refunds: [...(transaction.refunds || []), refund],
+    });
+
+    if (!updated) {
+      throw { status: 409, message: "The transaction changed while the refund was processing; please retry" };
+    }
+
+    await this.syncTarget(updated, actorId, req);
+
+    await logAuditEvent({
+      userId: actorId || undefined,
+      action: "payment_refunded",
+      resourceType: "payment_transaction",
+      resourceId: updated.id,
+      previousData: { status: transaction.status, refundedAmount: parseFloat(transaction.refunded_amount || 0) },
+      newData: { status, refundedAmount: refundedCents / 100 },
+      metadata: { providerRefundId: refund.providerRefundId, reason: refund.reason },
+      req,
+    });
+
+    return updated;
+  }
+
+  // Bring the application or lease payment row in line with the transaction.
+  // Returns true when the row had to be changed.
+  private async syncTarget(transaction: any, actorId: string | null, req?: any): Promise<boolean> {
+    const reference = transaction.provider_payment_id;
+    const now = new Date().toISOString();
+
+    if (transaction.purpose === "application_fee" && transaction.application_id) {
+      const application = await this.repository.getApplicationForCharge(transaction.application_id);
+      if (!application) return false;
+
+      const attempts = application.payment_attempts || [];
+      const amount = parseFloat(transaction.amount);
+
+      if (transaction.status === "succeeded") {
+        if (application.payment_status === "paid") return false;
+
+        const updates: Record<string, any> = {
+          payment_status: "paid",
+          payment_paid_at: transaction.settled_at || now,
+          payment_attempts: [...attempts, { referenceId: reference, timestamp: now, status: "success", amount }],
+        };
+        if (application.status === "pending_payment") {
+          updates.status = "payment_verified";
+          updates.previous_status = application.status;
+          updates.status_history = [
+            ...(application.status_history || []),
+            { status: "payment_verified", changedAt: now, changedBy: actorId, reason: `Application fee paid online. Reference: ${reference}` },
+          ];
+        }
+        await this.repository.updateApplicationPayment(application.id, updates);
+        await logAuditEvent({
+          userId: actorId || undefined,
+          action: "payment_attempt",
+          resourceType: "application",
+          resourceId: application.id,
+          previousData: { paymentStatus: application.payment_status },
+          newData: { paymentStatus: "paid" },
+          metadata: { transactionId: transaction.id, referenceId: reference, amount },
+          req,
+        });
+        return true;
+      }
+
+      if (transaction.status === "failed") {
+        if (attempts.some((a: any) => a.referenceId === reference)) return false;
+        await this.repository.updateApplicationPayment(application.id, {
+          payment_status: application.payment_status === "paid" ? "paid" : "failed",
+          payment_attempts: [...attempts, { referenceId: reference, timestamp: now, status: "failed", amount, errorMessage: transaction.failure_reason }],
+        });
+        return true;
+      }
+
+      if (transaction.status === "refunded" && application.payment_status !== "refunded") {
+        await this.repository.updateApplicationPayment(application.id, { payment_status: "refunded" });
+        return true;
+      }
+
+      return false;
+    }
+
+    if (transaction.payment_id) {
+      const payment = await this.repository.getPaymentForCharge(transaction.payment_id);
+      if (!payment) return false;
+
+      if (transaction.status === "succeeded" && payment.status !== "verified") {
+        // Provider-confirmed funds need no landlord verification step
+        await this.repository.updateLeasePayment(payment.id, {
+          status: "verified",
+          paid_at: transaction.settled_at || now,
+          verified_at: now,
+          reference_id: reference,
+        });
+        await logAuditEvent({
+          userId: actorId || undefined,
+          action: "payment_verified",
+          resourceType: "payment",
+          resourceId: payment.id,
+          previousData: { status: payment.status },
+          newData: { status: "verified" },
+          metadata: { transactionId: transaction.id, provider: transaction.provider, referenceId: reference, method: "online" },
+          req,
+        });
+        return true;
+      }
+
+      if (transaction.status === "refunded" && payment.status !== "refunded") {
+        await this.repository.updateLeasePayment(payment.id, { status: "refunded" });
+        await logAuditEvent({
+          userId: actorId || undefined,
+          action: "payment_status_changed",
+          resourceType: "payment",
+          resourceId: payment.id,
+          previousData: { status: payment.status },
+          newData: { status: "refunded" },
+          metadata: { transactionId: transaction.id, referenceId: reference },
+          req,
+        });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private async processStoredEvent(stored: any, event: ProviderWebhookEvent): Promise<boolean> {
+    try {
+      const transaction = await this.repository.getTransactionByProviderPaymentId(stored.provider, event.providerPaymentId);
+      if (!transaction) {
+        await this.repository.updateProviderEvent(stored.id, { processing_error: "No transaction matches this payment" });
+        return false;
+      }
+
+      if (event.type === "charge.succeeded" || event.type === "charge.failed") {
+        if (transaction.status === "pending") {
+          await this.settleTransaction(
+            transaction,
+            event.type === "charge.succeeded" ? "succeeded" : "failed",
+            event.failureReason,
+            null
+          );
+        }
+      } else if (event.type === "charge.refunded") {
+        const refundId = event.providerRefundId || event.id;
+        const alreadyApplied = (transaction.refunds || []).some((r: any) => r.providerRefundId === refundId);
+        if (!alreadyApplied && ["succeeded", "partially_refunded"].includes(transaction.status)) {
+          const remainingCents = toCents(transaction.amount) - toCents(transaction.refunded_amount || 0);
+          await this.applyRefund(transaction, {
+            providerRefundId: refundId,
+            idempotencyKey: `event:${event.id}`,
+            amount: Math.min(event.amountCents ?? remainingCents, remainingCents) / 100,
+            reason: "Refunded by payment provider",
+            createdAt: new Date().toISOString(),
+          }, null);
+        }
+      }
+
+      await this.repository.updateProviderEvent(stored.id, { processed_at: new Date().toISOString(), processing_error: null });
+      return true;
+    } catch (err: any) {
+      await this.repository.updateProviderEvent(stored.id, { processing_error: err?.message || "Processing failed" });
+      throw err;
+    }
+  }
+
+  private eventFromStored(stored: any): ProviderWebhookEvent {
+    const data = stored.payload?.data || {};
+    return {
+      id: stored.event_id,
+      type: stored.event_type,
+      providerPaymentId: stored.provider_payment_id,
+      amountCents: data.amountCents,
+      failureReason: data.failureReason,
+      providerRefundId: data.refundId,
+      payload: stored.payload || {},
+    };
+  }
+
+  private async assertCanRefund(transaction: any, userId: string, userRole: string): Promise<void> {
+    if (userRole === "admin" || userRole === "super_admin") return;
+
+    if (transaction.purpose === "application_fee" && transaction.application_id) {
+      const application = await this.repository.getApplicationForCharge(transaction.application_id);
+      if (application?.properties?.owner_id === userId) return;
+    } else if (transaction.payment_id) {
+      const payment = await this.repository.getPaymentForCharge(transaction.payment_id);
+      if (payment?.leases?.landlord_id === userId) return;
+    }
+
+    throw { status: 403, message: "Only the landlord or an admin can refund this payment" };
+  }
 
+  private formatTransaction(transaction: any): any {
     return {
-      paymentId: mockPaymentId,
-      transactionId: mockTransactionId,
-      amount,
-      status: "completed",
-      timestamp: new Date().toISOString(),
-      message: "[MOCK PAYMENT] In production, this would process with real payment provider"
+      id: transaction.id,
+      provider: transaction.provider,
+      providerPaymentId: transaction.provider_payment_id,
+      purpose: transaction.purpose,
+      applicationId: transaction.application_id,
+      paymentId: transaction.payment_id,
+      amount: parseFloat(transaction.amount),
+      refundedAmount: parseFloat(transaction.refunded_amount || 0),
+      currency: transaction.currency,
+      status: transaction.status,
+      failureReason: transaction.failure_reason,
+      settledAt: transaction.settled_at,
+      createdAt: transaction.created_at,
     };
   }
 
@@ -87,7 +637,7 @@ export class PaymentService {
         await sendPaymentVerifiedNotification(
           paymentId,
           payment.leases?.tenant_id,
-          payment.type === "rent" ? "Rent" : "Security Deposit",
+          PURPOSE_LABELS[payment.type] || "Payment",
           amount.toString()
         );
       }
@@ -150,7 +700,7 @@ export class PaymentService {
         await sendPaymentReceivedNotification(
           paymentId,
           tenantData.full_name,
-          payment.type === "rent" ? "Rent" : "Security Deposit",
+          PURPOSE_LABELS[payment.type] || "Payment",
           payment.amount.toString()
         );
       }
@@ -185,7 +735,7 @@ export class PaymentService {
     const receipt = {
       receiptNumber: `RCP-${payment.id.substring(0, 8).toUpperCase()}`,
       paymentId: payment.id,
-      type: payment.type === "rent" ? "Monthly Rent" : "Security Deposit",
+      type: payment.type === "rent" ? "Monthly Rent" : PURPOSE_LABELS[payment.type] || "Payment",
       amount: parseFloat(payment.amount.toString()),
       dueDate: payment.due_date,
       paidDate: payment.paid_at || payment.verified_at,
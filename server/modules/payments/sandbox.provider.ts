@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import type { PaymentProviderEventType } from "@shared/schema";
+import { PAYMENT_PROVIDER_EVENT_TYPES } from "@shared/schema";
+import type {
+  PaymentProvider,
+  ChargeRequest,
+  ChargeResult,
+  RefundRequest,
+  RefundResult,
+  ProviderWebhookEvent,
+} from "./payment.provider";
+
+export const SANDBOX_SIGNATURE_HEADER = "x-sandbox-signature";
+
+// Webhooks older than this are rejected to limit replay of captured requests
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Outcome is decided by the source token so local runs are reproducible:
+//   tok_sandbox_decline              -> failed (card_declined)
+//   tok_sandbox_insufficient_funds   -> failed (insufficient_funds)
+//   tok_sandbox_pending              -> pending, settled later by a webhook
+//   any other tok_sandbox_*          -> succeeded
+const FAILING_SOURCES: Record<string, string> = {
+  tok_sandbox_decline: "card_declined",
+  tok_sandbox_insufficient_funds: "insufficient_funds",
+};
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 24);
+}
+
+function getWebhookSecret(): string {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw { status: 503, message: "Payment webhook secret is not configured" };
+  }
+  return "sandbox_webhook_secret";
+}
+
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = "sandbox";
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    if (process.env.NODE_ENV === "production" && process.env.PAYMENT_SANDBOX_ENABLED !== "true") {
+      throw { status: 503, message: "Online payments are not available" };
+    }
+
+    // Ids derive from the idempotency key, so a retried charge maps to the same payment
+    const providerPaymentId = `sbx_ch_${hash(request.idempotencyKey)}`;
+
+    if (!request.source.startsWith("tok_sandbox")) {
+      return { providerPaymentId, status: "failed", failureReason: "invalid_source" };
+    }
+
+    const failureReason = FAILING_SOURCES[request.source];
+    if (failureReason) {
+      return { providerPaymentId, status: "failed", failureReason };
+    }
+
+    if (request.source === "tok_sandbox_pending") {
+      return { providerPaymentId, status: "pending" };
+    }
+
+    return { providerPaymentId, status: "succeeded" };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResult> {
+    return {
+      providerRefundId: `sbx_re_${hash(request.idempotencyKey)}`,
+      status: "succeeded",
+    };
+  }
+
+  // Produces the signature header value for a body, for local webhook testing
+  signPayload(rawBody: string | Buffer, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const signature = crypto
+      .createHmac("sha256", getWebhookSecret())
+      .update(`${timestamp}.${rawBody.toString()}`)
+      .digest("hex");
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): ProviderWebhookEvent {
+    const header = headers[SANDBOX_SIGNATURE_HEADER];
+    if (!header || Array.isArray(header)) {
+      throw { status: 400, message: "Missing webhook signature" };
+    }
+
+    const parts = Object.fromEntries(
+      header.split(",").map((part) => part.split("=", 2) as [string, string])
+    );
+    const timestamp = Number(parts.t);
+    if (!timestamp || !parts.v1) {
+      throw { status: 400, message: "Malformed webhook signature" };
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw { status: 400, message: "Webhook signature has expired" };
+    }
+
+    const expected = this.signPayload(rawBody, timestamp).split("v1=")[1];
+    const expectedBuffer = Buffer.from(expected, "hex");
+    const actualBuffer = Buffer.from(parts.v1, "hex");
+    if (expectedBuffer.length !== actualBuffer.length || !crypto.timingSafeEqual(expectedBuffer, actualBuffer)) {
+      throw { status: 400, message: "Invalid webhook signature" };
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString());
+    } catch {
+      throw { status: 400, message: "Invalid webhook payload" };
+    }
+
+    if (!payload?.id || !payload?.data?.paymentId || !PAYMENT_PROVIDER_EVENT_TYPES.includes(payload.type)) {
+      throw { status: 400, message: "Unsupported webhook event" };
+    }
+
+    return {
+      id: payload.id,
+      type: payload.type as PaymentProviderEventType,
+      providerPaymentId: payload.data.paymentId,
+      amountCents: payload.data.amountCents,
+      failureReason: payload.data.failureReason,
+      providerRefundId: payload.data.refundId,
+      payload,
+    };
+  }
+}
@@ -4,13 +4,36 @@ import { getSupabaseOrThrow } from "../../supabase";
 /* Types */
 /* ------------------------------------------------ */
 
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
 export interface PropertyFilters {
   propertyType?: string;
   city?: string;
-  minPrice?: string;
-  maxPrice?: string;
+  minPrice?: number;
+  maxPrice?: number;
   status?: string;
   ownerId?: string;
+  // Moderation-hidden listings; only for the owner's own dashboard or admins
+  includeHidden?: boolean;
+  bedrooms?: number;
+  bathrooms?: number;
+  minSquareFeet?: number;
+  maxSquareFeet?: number;
+  petsAllowed?: boolean;
+  furnished?: boolean;
+  amenities?: string[];
+  availableFrom?: string;
+  bounds?: GeoBounds;
+  // Search origin; radius is in miles
+  near?: { lat: number; lng: number; radius?: number };
+  // Keyword search hits, best match first; only these listings are returned
+  textMatchIds?: string[];
+  sort?: string;
   page: number;
   limit: number;
 }
@@ -45,35 +68,63 @@ export interface PropertyCreateData {
 /* Queries */
 /* ------------------------------------------------ */
 
-export async function findAllProperties(filters: PropertyFilters) {
-  const {
-    propertyType,
-    city,
-    minPrice,
-    maxPrice,
-    status,
-    ownerId,
-    page,
-    limit,
-  } = filters;
+const MILES_PER_DEGREE_LAT = 69;
+// Radius and distance searches are ranked in memory; this caps how many rows they pull
+const GEO_CANDIDATE_LIMIT = 1000;
+const FACET_ROW_LIMIT = 1000;
+
+export function distanceInMiles(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 3958.8 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
 
-  const supabase = getSupabaseOrThrow();
-  const offset = (page - 1) * limit;
+// Box around a radius, used to let the database discard far-away rows first
+function radiusBounds(lat: number, lng: number, radius: number): GeoBounds {
+  const latDelta = radius / MILES_PER_DEGREE_LAT;
+  const lngDelta = radius / (MILES_PER_DEGREE_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+  return { south: lat - latDelta, west: lng - lngDelta, north: lat + latDelta, east: lng + lngDelta };
+}
 
-  let query = supabase
-    .from("properties")
-    .select("*", { count: "exact" });
+function applyPropertyFilters(query: any, filters: PropertyFilters): any {
+  const { ownerId, status, near } = filters;
 
   // Owner-specific view (Landlord / Admin dashboards)
   if (ownerId) {
     query = query.or(`owner_id.eq.${ownerId},listing_agent_id.eq.${ownerId}`);
   }
 
+  if (filters.textMatchIds) query = query.in("id", filters.textMatchIds);
+
   // Public filters
-  if (propertyType) query = query.eq("property_type", propertyType);
-  if (city) query = query.ilike("city", `%${city}%`);
-  if (minPrice) query = query.gte("price", minPrice);
-  if (maxPrice) query = query.lte("price", maxPrice);
+  if (filters.propertyType) query = query.eq("property_type", filters.propertyType);
+  if (filters.city) query = query.ilike("city", `%${filters.city}%`);
+  if (filters.minPrice !== undefined) query = query.gte("price", filters.minPrice);
+  if (filters.maxPrice !== undefined) query = query.lte("price", filters.maxPrice);
+  if (filters.bedrooms !== undefined) query = query.gte("bedrooms", filters.bedrooms);
+  if (filters.bathrooms !== undefined) query = query.gte("bathrooms", filters.bathrooms);
+  if (filters.minSquareFeet !== undefined) query = query.gte("square_feet", filters.minSquareFeet);
+  if (filters.maxSquareFeet !== undefined) query = query.lte("square_feet", filters.maxSquareFeet);
+  if (filters.petsAllowed !== undefined) query = query.eq("pets_allowed", filters.petsAllowed);
+  if (filters.furnished !== undefined) query = query.eq("furnished", filters.furnished);
+  // amenities is a jsonb array, so containment needs a JSON literal
+  if (filters.amenities?.length) query = query.contains("amenities", JSON.stringify(filters.amenities));
+  if (filters.availableFrom) {
+    query = query.or(`available_from.is.null,available_from.lte.${filters.availableFrom}`);
+  }
+
+  const boxes: GeoBounds[] = [];
+  if (filters.bounds) boxes.push(filters.bounds);
+  if (near?.radius) boxes.push(radiusBounds(near.lat, near.lng, near.radius));
+  for (const box of boxes) {
+    query = query
+      .gte("latitude", box.south)
+      .lte("latitude", box.north)
+      .gte("longitude", box.west)
+      .lte("longitude", box.east);
+  }
 
   // Status handling
   if (status) {
@@ -83,9 +134,51 @@ export async function findAllProperties(filters: PropertyFilters) {
     query = query.eq("status", "active");
   }
 
-  const { data, error, count } = await query
-    .order("created_at", { ascending: false })
-    .range(offset, offset + limit - 1);
+  // Listings pulled by moderation stay visible to their owner only
+  if (!filters.includeHidden) {
+    query = query.is("moderation_hidden_at", null);
+  }
+
+  return query;
+}
+
+// Adds distance_miles when searching from a point and drops rows outside the radius
+function withDistance<T extends { latitude?: any; longitude?: any }>(rows: T[], near: PropertyFilters["near"]) {
+  if (!near) return rows;
+
+  return rows
+    .map((row) => {
+      const lat = parseFloat(row.latitude);
+      const lng = parseFloat(row.longitude);
+      const distance = Number.isFinite(lat) && Number.isFinite(lng) ? distanceInMiles(near, { lat, lng }) : null;
+      return { ...row, distance_miles: distance === null ? null : Math.round(distance * 10) / 10 };
+    })
+    .filter((row) => !near.radius || (row.distance_miles !== null && row.distance_miles <= near.radius));
+}
+
+export async function findAllProperties(filters: PropertyFilters) {
+  const { near, sort, page, limit } = filters;
+
+  const supabase = getSupabaseOrThrow();
+  const offset = (page - 1) * limit;
+
+  let query = applyPropertyFilters(
+    supabase.from("properties").select("*", { count: "exact" }),
+    filters
+  );
+
+  if (sort === "price_asc" || sort === "price_desc") {
+    query = query.order("price", { ascending: sort === "price_asc", nullsFirst: false });
+  }
+  query = query.order("created_at", { ascending: false });
+
+  // A circle, a distance ranking or a relevance ranking can't be paged by the
+  // database, so the candidates are fetched, ranked and paged here instead.
+  const rankInMemory = (!!near && (!!near.radius || sort === "distance")) || sort === "relevance";
+
+  const { data, error, count } = rankInMemory
+    ? await query.limit(GEO_CANDIDATE_LIMIT)
+    : await query.range(offset, offset + limit - 1);
 
   if (error) {
     console.error("[PROPERTY_REPOSITORY] findAllProperties error:", {
@@ -98,8 +191,22 @@ export async function findAllProperties(filters: PropertyFilters) {
     throw error;
   }
 
+  let rows: any[] = withDistance(data ?? [], near);
+  let total = count ?? 0;
+
+  if (rankInMemory) {
+    if (sort === "distance") {
+      rows.sort((a, b) => (a.distance_miles ?? Infinity) - (b.distance_miles ?? Infinity));
+    } else if (sort === "relevance" && filters.textMatchIds) {
+      const position = new Map(filters.textMatchIds.map((id, index) => [id, index]));
+      rows.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+    }
+    total = rows.length;
+    rows = rows.slice(offset, offset + limit);
+  }
+
   // Pre-fetch images for each property to eliminate N+1 calls
-  const propertiesWithImages = await Promise.all((data ?? []).map(async (property) => {
+  const propertiesWithImages = await Promise.all(rows.map(async ({ search_vector, ...property }) => {
     const imageUrls = (property.images || []).map((url: string, index: number) => ({
       id: `${property.id}-${index}`,
       url: url,
@@ -117,10 +224,57 @@ export async function findAllProperties(filters: PropertyFilters) {
 
   return {
     data: propertiesWithImages,
-    count: count ?? 0,
+    count: total,
   };
 }
 
+export interface PropertyTextMatch {
+  id: string;
+  rank: number;
+  title_highlight: string | null;
+  snippet: string | null;
+}
+
+export async function searchPropertyText(query: string, limit: number, includeHidden = false): Promise<PropertyTextMatch[]> {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase.rpc("search_properties", {
+    search_query: query,
+    max_results: limit,
+    include_hidden: includeHidden,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as PropertyTextMatch[];
+}
+
+export async function findSearchSuggestions(prefix: string, limit: number) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase.rpc("property_search_suggestions", {
+    prefix,
+    max_results: limit,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as Array<{ kind: string; label: string; property_id: string | null; listing_count: number }>;
+}
+
+// Just the columns facet counts are built from, for every listing matching the filters
+export async function findPropertyFacetRows(filters: PropertyFilters) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await applyPropertyFilters(
+    supabase
+      .from("properties")
+      .select("property_type, bedrooms, bathrooms, pets_allowed, furnished, amenities, latitude, longitude"),
+    filters
+  ).limit(FACET_ROW_LIMIT);
+
+  if (error) throw error;
+  return withDistance((data ?? []) as any[], filters.near);
+}
+
 export async function findPropertyById(id: string) {
   const supabase = getSupabaseOrThrow();
 
@@ -142,7 +296,9 @@ export async function findPropertyById(id: string) {
     return null;
   }
 
-  return data;
+  // The search document is internal to keyword search
+  const { search_vector, ...property } = data;
+  return property;
 }
 
 export async function findPropertiesByOwner(ownerId: string) {
@@ -423,6 +579,61 @@ export async function deleteProperty(id: string) {
   return null;
 }
 
+/* ------------------------------------------------ */
+/* Scheduled Listing Changes */
+/* ------------------------------------------------ */
+
+export async function findPropertiesDueForPublish(now: string) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase
+    .from("properties")
+    .select("id, expires_at, expiration_days")
+    .eq("listing_status", "coming_soon")
+    .not("scheduled_publish_at", "is", null)
+    .lte("scheduled_publish_at", now)
+    .is("deleted_at", null)
+    .limit(200);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function findExpiredListings(now: string) {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase
+    .from("properties")
+    .select("id")
+    .eq("listing_status", "available")
+    .eq("auto_unpublish", true)
+    .lte("expires_at", now)
+    .is("deleted_at", null)
+    .limit(200);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Guarded on the current listing status so a landlord's concurrent change wins
+export async function updateListingStatusIfCurrent(
+  id: string,
+  currentStatus: string,
+  updateData: Record<string, any>
+): Promise<boolean> {
+  const supabase = getSupabaseOrThrow();
+
+  const { data, error } = await supabase
+    .from("properties")
+    .update({ ...updateData, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("listing_status", currentStatus)
+    .select("id");
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
 /* ------------------------------------------------ */
 /* Analytics */
 /* ------------------------------------------------ */
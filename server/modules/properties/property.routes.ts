@@ -1,11 +1,13 @@
 import { Router } from "express";
 import {
   authenticateToken,
+  optionalAuth,
   requireOwnership,
   type AuthenticatedRequest,
 } from "../../auth-middleware";
 import { success, error as errorResponse } from "../../response";
 import { viewLimiter } from "../../rate-limit";
+import { propertySearchQuerySchema, propertySuggestionQuerySchema, propertyAnalyticsQuerySchema } from "@shared/schema";
 import * as propertyService from "./property.service";
 
 const router = Router();
@@ -16,29 +18,14 @@ const router = Router();
  * ─────────────────────────────────────────────────────────────
  */
 
-router.get("/", async (req, res) => {
+router.get("/", optionalAuth, async (req: AuthenticatedRequest, res) => {
   try {
-    const {
-      propertyType,
-      city,
-      minPrice,
-      maxPrice,
-      status,
-      page,
-      limit,
-      ownerId,
-    } = req.query;
-
-    const result = await propertyService.getProperties({
-      propertyType: propertyType as string | undefined,
-      city: city as string | undefined,
-      minPrice: minPrice as string | undefined,
-      maxPrice: maxPrice as string | undefined,
-      status: status as string | undefined,
-      ownerId: ownerId as string | undefined,
-      page: page as string | undefined,
-      limit: limit as string | undefined,
-    });
+    const validation = propertySearchQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json(errorResponse(validation.error.errors[0].message));
+    }
+
+    const result = await propertyService.getProperties(validation.data, req.user);
 
     return res.json(success(result, "Properties fetched successfully"));
   } catch (error: any) {
@@ -51,12 +38,34 @@ router.get("/", async (req, res) => {
   }
 });
 
+/**
+ * Autocomplete for the search box (cities, neighborhoods, addresses)
+ */
+router.get("/suggestions", async (req, res) => {
+  try {
+    const validation = propertySuggestionQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json(errorResponse(validation.error.errors[0].message));
+    }
+
+    const data = await propertyService.getSearchSuggestions(validation.data.q, validation.data.limit);
+    return res.json(success(data, "Suggestions fetched successfully"));
+  } catch (error: any) {
+    console.error("[PROPERTY_ROUTES] GET /suggestions error:", {
+      message: error.message,
+      stack: error.stack,
+      query: req.query,
+    });
+    return res.status(500).json(errorResponse("Failed to fetch suggestions"));
+  }
+});
+
 /**
  * Full property (owner + analytics)
  */
-router.get("/:id/full", async (req, res) => {
+router.get("/:id/full", optionalAuth, async (req: AuthenticatedRequest, res) => {
   try {
-    const data = await propertyService.getPropertyFull(req.params.id);
+    const data = await propertyService.getPropertyFull(req.params.id, req.user);
     if (!data) {
       return res.status(404).json(errorResponse("Property not found"));
     }
@@ -74,9 +83,9 @@ router.get("/:id/full", async (req, res) => {
 /**
  * Basic property detail
  */
-router.get("/:id", async (req, res) => {
+router.get("/:id", optionalAuth, async (req: AuthenticatedRequest, res) => {
   try {
-    const data = await propertyService.getPropertyById(req.params.id);
+    const data = await propertyService.getPropertyById(req.params.id, req.user);
     if (!data) {
       return res.status(404).json(errorResponse("Property not found"));
     }
@@ -92,13 +101,22 @@ router.get("/:id", async (req, res) => {
 });
 
 /**
- * Property analytics (views, saves, applications)
+ * Property analytics: daily time series and view → inquiry → application funnel
  */
 router.get("/:id/analytics", authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    const analytics = await propertyService.getPropertyAnalytics(req.params.id);
+    const validation = propertyAnalyticsQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json(errorResponse(validation.error.errors[0].message));
+    }
+
+    const analytics = await propertyService.getPropertyAnalytics(req.params.id, validation.data.days, req.user!);
     return res.json(success(analytics, "Analytics fetched"));
   } catch (error: any) {
+    if (error.status) {
+      return res.status(error.status).json(errorResponse(error.message));
+    }
+
     console.error("[PROPERTY_ROUTES] GET /:id/analytics error:", {
       message: error.message,
       stack: error.stack,
@@ -309,11 +327,12 @@ router.patch(
   "/:id/price",
   authenticateToken,
   requireOwnership("property"),
-  async (req, res) => {
+  async (req: AuthenticatedRequest, res) => {
     try {
       const data = await propertyService.updatePropertyPrice(
         req.params.id,
-        req.body.price
+        req.body.price,
+        req.user?.id
       );
       return res.json(success(data, "Price updated"));
     } catch (error: any) {
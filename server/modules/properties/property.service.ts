@@ -1,23 +1,39 @@
 import { z } from "zod";
-import { insertPropertySchema } from "@shared/schema";
+import { insertPropertySchema, type PropertySearchQuery } from "@shared/schema";
 import { cache, CACHE_TTL } from "../../cache";
 import { invalidateOwnershipCache } from "../../auth-middleware";
 import * as propertyRepository from "./property.repository";
 import { getSupabaseOrThrow } from "../../supabase";
+import { ListingAnalyticsService } from "../listing-analytics/listing-analytics.service";
 
 /* ------------------------------------------------ */
 /* Types */
 /* ------------------------------------------------ */
 
-export interface GetPropertiesParams {
-  propertyType?: string;
-  city?: string;
-  minPrice?: string;
-  maxPrice?: string;
-  status?: string;
-  ownerId?: string;
-  page?: string;
-  limit?: string;
+export type GetPropertiesParams = PropertySearchQuery;
+
+type Viewer = { id: string; role: string };
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Listings pulled by moderation are only served to the people who manage them
+function canViewHiddenListing(property: any, viewer?: Viewer): boolean {
+  if (!viewer) return false;
+  return (
+    property.owner_id === viewer.id ||
+    property.listing_agent_id === viewer.id ||
+    ADMIN_ROLES.includes(viewer.role)
+  );
+}
+
+export interface PropertyFacets {
+  propertyType: Record<string, number>;
+  // Keyed "0".."4+" bedrooms and "1+".."4+" bathrooms, matching the filter semantics
+  bedrooms: Record<string, number>;
+  bathrooms: Record<string, number>;
+  petsAllowed: number;
+  furnished: number;
+  amenities: Record<string, number>;
 }
 
 export interface GetPropertiesResult {
@@ -30,6 +46,7 @@ export interface GetPropertiesResult {
     hasNextPage: boolean;
     hasPrevPage: boolean;
   };
+  facets: PropertyFacets;
 }
 
 export interface CreatePropertyInput {
@@ -233,43 +250,109 @@ async function formatPosterInfo(property: any) {
   };
 }
 
+function buildFacets(rows: any[]): PropertyFacets {
+  const facets: PropertyFacets = {
+    propertyType: {},
+    bedrooms: {},
+    bathrooms: {},
+    petsAllowed: 0,
+    furnished: 0,
+    amenities: {},
+  };
+  const increment = (bucket: Record<string, number>, key: string) => {
+    bucket[key] = (bucket[key] || 0) + 1;
+  };
+
+  for (const row of rows) {
+    if (row.property_type) increment(facets.propertyType, row.property_type);
+
+    if (row.bedrooms !== null && row.bedrooms !== undefined) {
+      increment(facets.bedrooms, row.bedrooms >= 4 ? "4+" : String(row.bedrooms));
+    }
+
+    // Bathroom filters are minimums, so a 2.5-bath listing counts toward 1+ and 2+
+    const baths = parseFloat(row.bathrooms);
+    for (let min = 1; min <= 4 && baths >= min; min++) {
+      increment(facets.bathrooms, `${min}+`);
+    }
+
+    if (row.pets_allowed) facets.petsAllowed++;
+    if (row.furnished) facets.furnished++;
+
+    if (Array.isArray(row.amenities)) {
+      Array.from(new Set<string>(row.amenities)).forEach((amenity) => increment(facets.amenities, amenity));
+    }
+  }
+
+  return facets;
+}
+
+// Keyword searches rank at most this many listings before other filters apply
+const TEXT_SEARCH_LIMIT = 200;
+
 export async function getProperties(
-  params: GetPropertiesParams
+  params: GetPropertiesParams,
+  viewer?: Viewer
 ): Promise<GetPropertiesResult> {
   const page = Math.max(1, Number(params.page) || 1);
   const limit = Math.min(100, Math.max(1, Number(params.limit) || 20));
+  // ownerId is a public query param; hidden listings need the owner themself to be asking
+  const includeHidden = !!params.ownerId && !!viewer &&
+    (viewer.id === params.ownerId || ADMIN_ROLES.includes(viewer.role));
 
-  const cacheKey = [
-    "properties",
-    params.propertyType ?? "",
-    params.city ?? "",
-    params.minPrice ?? "",
-    params.maxPrice ?? "",
-    params.status ?? "active",
-    params.ownerId ?? "",
-    page,
-    limit,
-  ].join(":");
+  const cacheKey = `properties:${JSON.stringify({ ...params, status: params.status ?? "active", page, limit, includeHidden })}`;
 
   const cached = cache.get<GetPropertiesResult>(cacheKey);
   if (cached) return cached;
 
-  const { data = [], count = 0 } =
-    await propertyRepository.findAllProperties({
-      propertyType: params.propertyType,
-      city: params.city,
-      minPrice: params.minPrice,
-      maxPrice: params.maxPrice,
-      status: params.status,
-      ownerId: params.ownerId,
-      page,
-      limit,
-    });
+  const textMatches = params.q
+    ? await propertyRepository.searchPropertyText(params.q, TEXT_SEARCH_LIMIT, includeHidden)
+    : null;
+
+  const filters: propertyRepository.PropertyFilters = {
+    propertyType: params.propertyType,
+    city: params.city,
+    minPrice: params.minPrice,
+    maxPrice: params.maxPrice,
+    status: params.status,
+    ownerId: params.ownerId,
+    includeHidden,
+    bedrooms: params.bedrooms,
+    bathrooms: params.bathrooms,
+    minSquareFeet: params.minSquareFeet,
+    maxSquareFeet: params.maxSquareFeet,
+    petsAllowed: params.petsAllowed,
+    furnished: params.furnished,
+    amenities: params.amenities,
+    availableFrom: params.availableFrom,
+    bounds: params.bounds,
+    near: params.lat !== undefined && params.lng !== undefined
+      ? { lat: params.lat, lng: params.lng, radius: params.radius }
+      : undefined,
+    textMatchIds: textMatches?.map((match) => match.id),
+    sort: params.sort ?? (params.q ? "relevance" : undefined),
+    page,
+    limit,
+  };
+
+  const [{ data = [], count = 0 }, facetRows] = textMatches?.length === 0
+    ? [{ data: [], count: 0 }, []]
+    : await Promise.all([
+        propertyRepository.findAllProperties(filters),
+        propertyRepository.findPropertyFacetRows(filters),
+      ]);
 
-  const propertiesWithPoster = await Promise.all(data.map(async property => ({
-    ...property,
-    poster: await formatPosterInfo(property)
-  })));
+  const highlights = new Map((textMatches ?? []).map((match) => [match.id, match]));
+
+  const propertiesWithPoster = await Promise.all(data.map(async property => {
+    const match = highlights.get(property.id);
+    return {
+      ...property,
+      poster: await formatPosterInfo(property),
+      // Matched words are wrapped in {{ }}; trigram-only matches have no highlight
+      ...(match && { search_highlight: { title: match.title_highlight, snippet: match.snippet } }),
+    };
+  }));
 
   const totalPages = Math.ceil(count / limit);
 
@@ -283,26 +366,50 @@ export async function getProperties(
       hasNextPage: page < totalPages,
       hasPrevPage: page > 1,
     },
+    facets: buildFacets(facetRows),
   };
 
   cache.set(cacheKey, result, CACHE_TTL.PROPERTIES_LIST);
   return result;
 }
 
-export async function getPropertyById(id: string): Promise<any> {
-  const cacheKey = `property:${id}`;
-  const cached = cache.get(cacheKey);
+export async function getSearchSuggestions(query: string, limit = 8): Promise<any[]> {
+  const cacheKey = `properties:suggestions:${query.toLowerCase()}:${limit}`;
+  const cached = cache.get<any[]>(cacheKey);
   if (cached) return cached;
 
-  const property = await propertyRepository.findPropertyById(id);
-  if (!property) return null;
+  const suggestions = (await propertyRepository.findSearchSuggestions(query, limit)).map((row) => ({
+    type: row.kind,
+    label: row.label,
+    propertyId: row.property_id,
+    listingCount: Number(row.listing_count),
+  }));
 
-  const hydratedProperty = {
-    ...property,
-    poster: await formatPosterInfo(property)
-  };
+  cache.set(cacheKey, suggestions, CACHE_TTL.PROPERTIES_LIST);
+  return suggestions;
+}
+
+export async function getPropertyById(id: string, viewer?: Viewer): Promise<any> {
+  const cacheKey = `property:${id}`;
+  let hydratedProperty = cache.get<any>(cacheKey);
+
+  if (!hydratedProperty) {
+    const property = await propertyRepository.findPropertyById(id);
+    if (!property) return null;
+
+    hydratedProperty = {
+      ...property,
+      poster: await formatPosterInfo(property)
+    };
+
+    cache.set(cacheKey, hydratedProperty, CACHE_TTL.PROPERTY_DETAIL);
+  }
+
+  // Checked after the cache so one viewer's access never leaks to another
+  if (hydratedProperty.moderation_hidden_at && !canViewHiddenListing(hydratedProperty, viewer)) {
+    return null;
+  }
 
-  cache.set(cacheKey, hydratedProperty, CACHE_TTL.PROPERTY_DETAIL);
   return hydratedProperty;
 }
 
@@ -490,17 +597,22 @@ export async function recordPropertyView(propertyId: string): Promise<void> {
 }
 
 // Additional functions for completeness (if they exist in repository)
-export async function getPropertyFull(id: string): Promise<any> {
-  return propertyRepository.findPropertyById(id);
+export async function getPropertyFull(id: string, viewer?: Viewer): Promise<any> {
+  const property = await propertyRepository.findPropertyById(id);
+  if (property?.moderation_hidden_at && !canViewHiddenListing(property, viewer)) return null;
+  return property;
 }
 
 export async function getPropertiesByOwner(ownerId: string): Promise<any[]> {
   return propertyRepository.findPropertiesByOwner(ownerId);
 }
 
-export async function getPropertyAnalytics(propertyId: string): Promise<any> {
-  // Implement analytics logic or call repository
-  return { views: 0, saves: 0, applications: 0 };
+export async function getPropertyAnalytics(
+  propertyId: string,
+  days: number,
+  user: { id: string; role: string }
+): Promise<any> {
+  return new ListingAnalyticsService().getPropertyAnalytics(propertyId, days, user);
 }
 
 export async function updatePropertyStatus(
@@ -512,9 +624,18 @@ export async function updatePropertyStatus(
 
 export async function updatePropertyPrice(
   id: string,
-  price: number
+  price: number,
+  changedBy?: string
 ): Promise<any> {
-  return propertyRepository.updateProperty(id, { price });
+  const current = await propertyRepository.findPropertyById(id);
+
+  // Entries record the price being replaced; saved search alerts read them to spot price drops
+  const priceHistory = [
+    ...(current?.price_history || []),
+    { price: current?.price, changedAt: new Date().toISOString(), changedBy },
+  ];
+
+  return propertyRepository.updateProperty(id, { price, price_history: priceHistory });
 }
 
 export async function updateExpiration(
@@ -531,6 +652,56 @@ export async function schedulePublish(
   return propertyRepository.updateProperty(id, { publish_at: publishAt });
 }
 
+/* ------------------------------------------------ */
+/* Scheduled Listing Changes */
+/* ------------------------------------------------ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Publishes "coming soon" listings whose scheduledPublishAt has passed
+export async function publishScheduledProperties(): Promise<number> {
+  const now = new Date();
+  const due = await propertyRepository.findPropertiesDueForPublish(now.toISOString());
+  let published = 0;
+
+  for (const property of due) {
+    const updateData: Record<string, any> = {
+      listing_status: "available",
+      listed_at: now.toISOString(),
+      scheduled_publish_at: null,
+    };
+
+    // Start the listing's lifetime at publish time unless a later expiry was set explicitly
+    if (!property.expires_at || new Date(property.expires_at) <= now) {
+      updateData.expires_at = new Date(now.getTime() + (property.expiration_days ?? 90) * DAY_MS).toISOString();
+    }
+
+    if (await propertyRepository.updateListingStatusIfCurrent(property.id, "coming_soon", updateData)) {
+      cache.invalidate(`property:${property.id}`);
+      published++;
+    }
+  }
+
+  if (published > 0) cache.invalidate("properties:");
+  return published;
+}
+
+// Takes down available listings past expiresAt when autoUnpublish is on
+export async function unpublishExpiredProperties(): Promise<number> {
+  const expired = await propertyRepository.findExpiredListings(new Date().toISOString());
+  let unpublished = 0;
+
+  for (const property of expired) {
+    if (await propertyRepository.updateListingStatusIfCurrent(property.id, "available", { listing_status: "unpublished" })) {
+      cache.invalidate(`property:${property.id}`);
+      unpublished++;
+    }
+  }
+
+  if (unpublished > 0) cache.invalidate("properties:");
+  return unpublished;
+}
+
 export async function getMarketInsights(): Promise<any> {
   return { averagePrice: 0, totalProperties: 0 };
 }
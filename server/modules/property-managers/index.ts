@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerPropertyManagerRoutes } from "./property-manager.routes";
+
+export function registerPropertyManagerModuleRoutes(app: Express): void {
+  registerPropertyManagerRoutes(app);
+}
+
+export { PropertyManagerService } from "./property-manager.service";
+export { PropertyManagerRepository } from "./property-manager.repository";
@@ -0,0 +1,203 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const ASSIGNMENT_SELECT =
+  "id, property_id, property_manager_id, assigned_by, permissions, assigned_at, revoked_at, notes, created_at, updated_at, manager:users!property_manager_assignments_property_manager_id_fkey(id, full_name, email, profile_image)";
+
+const INVITATION_SELECT =
+  "id, property_id, invited_by, email, permissions, notes, status, expires_at, responded_at, assignment_id, created_at";
+
+export class PropertyManagerRepository {
+  async getProperty(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, title, address, city, state, owner_id")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getUser(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, email, full_name, role")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findUserByEmail(email: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, email, full_name, role")
+      .ilike("email", email)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listAssignments(propertyId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_assignments")
+      .select(ASSIGNMENT_SELECT)
+      .eq("property_id", propertyId)
+      .is("revoked_at", null)
+      .order("assigned_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listAssignmentsForManager(managerId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_assignments")
+      .select("id, property_id, permissions, assigned_at, notes, properties(id, title, address, city, state)")
+      .eq("property_manager_id", managerId)
+      .is("revoked_at", null)
+      .order("assigned_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getAssignment(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_assignments")
+      .select(ASSIGNMENT_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getActiveAssignment(propertyId: string, managerId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_assignments")
+      .select("id, permissions")
+      .eq("property_id", propertyId)
+      .eq("property_manager_id", managerId)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createAssignment(assignmentData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_assignments")
+      .insert([assignmentData])
+      .select("id, property_id, property_manager_id, permissions, assigned_at")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateAssignment(id: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_assignments")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select("id, property_id, property_manager_id, permissions, notes, assigned_at, revoked_at")
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listPendingInvitations(propertyId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_invitations")
+      .select(INVITATION_SELECT)
+      .eq("property_id", propertyId)
+      .eq("status", "pending")
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listPendingInvitationsForEmail(email: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_invitations")
+      .select(`${INVITATION_SELECT}, properties(id, title, address, city, state), inviter:users!property_manager_invitations_invited_by_fkey(full_name)`)
+      .ilike("email", email)
+      .eq("status", "pending")
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async findPendingInvitation(propertyId: string, email: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_invitations")
+      .select("id")
+      .eq("property_id", propertyId)
+      .ilike("email", email)
+      .eq("status", "pending")
+      .gt("expires_at", new Date().toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getInvitation(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_invitations")
+      .select(INVITATION_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createInvitation(invitationData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_invitations")
+      .insert([invitationData])
+      .select(INVITATION_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateInvitation(id: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_invitations")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(INVITATION_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
@@ -0,0 +1,144 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import {
+  inviteManagerSchema,
+  updateManagerAssignmentSchema,
+  respondManagerInvitationSchema,
+} from "@shared/schema";
+import { PropertyManagerService } from "./property-manager.service";
+
+const propertyManagerService = new PropertyManagerService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[PROPERTY_MANAGERS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerPropertyManagerRoutes(app: Express): void {
+  // GET /api/v2/properties/:propertyId/managers - Active managers and pending invitations
+  app.get("/api/v2/properties/:propertyId/managers", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await propertyManagerService.listPropertyManagers(req.params.propertyId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Property managers retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve property managers");
+    }
+  });
+
+  // POST /api/v2/properties/:propertyId/managers/invitations - Invite a manager by email with a set of permissions
+  app.post("/api/v2/properties/:propertyId/managers/invitations", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = inviteManagerSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await propertyManagerService.inviteManager(req.params.propertyId, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.status(201).json(success(result, "Invitation sent"));
+    } catch (err: any) {
+      return handleError(res, err, "Invite", "Failed to send invitation");
+    }
+  });
+
+  // DELETE /api/v2/properties/:propertyId/managers/invitations/:invitationId - Revoke a pending invitation
+  app.delete("/api/v2/properties/:propertyId/managers/invitations/:invitationId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await propertyManagerService.revokeInvitation(
+        req.params.propertyId,
+        req.params.invitationId,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Invitation revoked"));
+    } catch (err: any) {
+      return handleError(res, err, "Revoke invitation", "Failed to revoke invitation");
+    }
+  });
+
+  // PATCH /api/v2/properties/:propertyId/managers/:assignmentId - Change a manager's permissions or notes
+  app.patch("/api/v2/properties/:propertyId/managers/:assignmentId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateManagerAssignmentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await propertyManagerService.updateAssignment(
+        req.params.propertyId,
+        req.params.assignmentId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Manager assignment updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update", "Failed to update manager assignment");
+    }
+  });
+
+  // DELETE /api/v2/properties/:propertyId/managers/:assignmentId - Revoke a manager's access to the property
+  app.delete("/api/v2/properties/:propertyId/managers/:assignmentId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await propertyManagerService.revokeAssignment(
+        req.params.propertyId,
+        req.params.assignmentId,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Manager access revoked"));
+    } catch (err: any) {
+      return handleError(res, err, "Revoke", "Failed to revoke manager access");
+    }
+  });
+
+  // GET /api/v2/manager/invitations - Pending invitations sent to the caller's email
+  app.get("/api/v2/manager/invitations", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await propertyManagerService.listMyInvitations(req.user!);
+
+      return res.json(success(result, "Invitations retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List invitations", "Failed to retrieve invitations");
+    }
+  });
+
+  // POST /api/v2/manager/invitations/:invitationId/respond - Accept or decline an invitation
+  app.post("/api/v2/manager/invitations/:invitationId/respond", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = respondManagerInvitationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await propertyManagerService.respondToInvitation(req.params.invitationId, validation.data, req.user!, req);
+
+      return res.json(success(result, result.status === "accepted" ? "Invitation accepted" : "Invitation declined"));
+    } catch (err: any) {
+      return handleError(res, err, "Respond", "Failed to respond to invitation");
+    }
+  });
+
+  // GET /api/v2/manager/assignments - Properties the caller manages, with their permissions
+  app.get("/api/v2/manager/assignments", authenticateToken, requireRole("property_manager"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await propertyManagerService.listMyAssignments(req.user!.id);
+
+      return res.json(success(result, "Assignments retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List assignments", "Failed to retrieve assignments");
+    }
+  });
+}
@@ -0,0 +1,287 @@
+import type { InviteManager, UpdateManagerAssignment, RespondManagerInvitation } from "@shared/schema";
+import { MANAGER_INVITATION_TTL_DAYS } from "@shared/schema";
+import { PropertyManagerRepository } from "./property-manager.repository";
+import { logAuditEvent } from "../../security/audit-logger";
+import {
+  sendManagerInvitationNotification,
+  sendManagerAssignmentNotification,
+} from "../../notification-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describePermissions = (permissions: string[]) => permissions.map((p) => p.replace(/_/g, " ")).join(", ");
+
+export class PropertyManagerService {
+  private repository: PropertyManagerRepository;
+
+  constructor() {
+    this.repository = new PropertyManagerRepository();
+  }
+
+  private async getOwnedProperty(propertyId: string, userId: string, userRole: string) {
+    const property = await this.repository.getProperty(propertyId);
+
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    if (property.owner_id !== userId && userRole !== "admin" && userRole !== "super_admin") {
+      throw { status: 403, message: "Only the property owner can manage its property managers" };
+    }
+
+    return property;
+  }
+
+  private async getAssignmentForProperty(propertyId: string, assignmentId: string) {
+    const assignment = await this.repository.getAssignment(assignmentId);
+
+    if (!assignment || assignment.property_id !== propertyId || assignment.revoked_at) {
+      throw { status: 404, message: "Manager assignment not found" };
+    }
+
+    return assignment;
+  }
+
+  private notify(recipientId: string | null, property: any, headline: string, detail?: string) {
+    if (!recipientId) return;
+    sendManagerAssignmentNotification(recipientId, { id: property.id, title: property.title }, headline, detail).catch((err) =>
+      console.error("[PROPERTY_MANAGERS] Assignment notification failed:", err)
+    );
+  }
+
+  // Active managers and outstanding invitations for one property
+  async listPropertyManagers(propertyId: string, userId: string, userRole: string): Promise<any> {
+    await this.getOwnedProperty(propertyId, userId, userRole);
+
+    const [assignments, invitations] = await Promise.all([
+      this.repository.listAssignments(propertyId),
+      this.repository.listPendingInvitations(propertyId),
+    ]);
+
+    return { assignments, invitations };
+  }
+
+  async inviteManager(propertyId: string, input: InviteManager, userId: string, userRole: string, req: any): Promise<any> {
+    const property = await this.getOwnedProperty(propertyId, userId, userRole);
+    const invitee = await this.repository.findUserByEmail(input.email);
+
+    if (invitee?.id === property.owner_id) {
+      throw { status: 400, message: "The property owner can't be invited as its manager" };
+    }
+
+    if (invitee && invitee.role !== "property_manager") {
+      throw { status: 400, message: "That email belongs to an account that isn't a property manager" };
+    }
+
+    if (invitee && (await this.repository.getActiveAssignment(propertyId, invitee.id))) {
+      throw { status: 409, message: "This manager is already assigned to the property" };
+    }
+
+    if (await this.repository.findPendingInvitation(propertyId, input.email)) {
+      throw { status: 409, message: "An invitation is already pending for this email" };
+    }
+
+    const invitation = await this.repository.createInvitation({
+      property_id: propertyId,
+      invited_by: userId,
+      email: input.email,
+      permissions: input.permissions,
+      notes: input.notes ?? null,
+      status: "pending",
+      expires_at: new Date(Date.now() + MANAGER_INVITATION_TTL_DAYS * DAY_MS).toISOString(),
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "manager_invitation",
+      resourceId: invitation.id,
+      newData: { propertyId, email: input.email, permissions: input.permissions },
+      req,
+    });
+
+    const inviter = await this.repository.getUser(userId);
+    sendManagerInvitationNotification(
+      { id: invitee?.id ?? null, email: input.email, full_name: invitee?.full_name },
+      {
+        id: invitation.id,
+        propertyId,
+        propertyTitle: property.title,
+        inviterName: inviter?.full_name || "A property owner",
+        permissions: input.permissions,
+        expiresAt: invitation.expires_at,
+      }
+    ).catch((err) => console.error("[PROPERTY_MANAGERS] Invitation email failed:", err));
+
+    return invitation;
+  }
+
+  async revokeInvitation(propertyId: string, invitationId: string, userId: string, userRole: string, req: any): Promise<any> {
+    await this.getOwnedProperty(propertyId, userId, userRole);
+    const invitation = await this.repository.getInvitation(invitationId);
+
+    if (!invitation || invitation.property_id !== propertyId) {
+      throw { status: 404, message: "Invitation not found" };
+    }
+
+    if (invitation.status !== "pending") {
+      throw { status: 400, message: `This invitation has already been ${invitation.status}` };
+    }
+
+    const updated = await this.repository.updateInvitation(invitationId, { status: "revoked" });
+
+    await logAuditEvent({
+      userId,
+      action: "status_change",
+      resourceType: "manager_invitation",
+      resourceId: invitationId,
+      previousData: { status: "pending" },
+      newData: { status: "revoked" },
+      req,
+    });
+
+    return updated;
+  }
+
+  async updateAssignment(
+    propertyId: string,
+    assignmentId: string,
+    input: UpdateManagerAssignment,
+    userId: string,
+    userRole: string,
+    req: any
+  ): Promise<any> {
+    const property = await this.getOwnedProperty(propertyId, userId, userRole);
+    const existing = await this.getAssignmentForProperty(propertyId, assignmentId);
+
+    const updates: Record<string, any> = {};
+    if (input.permissions !== undefined) updates.permissions = input.permissions;
+    if (input.notes !== undefined) updates.notes = input.notes;
+
+    const assignment = await this.repository.updateAssignment(assignmentId, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "manager_assignment",
+      resourceId: assignmentId,
+      previousData: { permissions: existing.permissions, notes: existing.notes },
+      newData: updates,
+      req,
+    });
+
+    if (input.permissions) {
+      this.notify(
+        existing.property_manager_id,
+        property,
+        "Your permissions were updated",
+        `You can now: ${describePermissions(input.permissions)}.`
+      );
+    }
+
+    return assignment;
+  }
+
+  async revokeAssignment(propertyId: string, assignmentId: string, userId: string, userRole: string, req: any): Promise<any> {
+    const property = await this.getOwnedProperty(propertyId, userId, userRole);
+    const existing = await this.getAssignmentForProperty(propertyId, assignmentId);
+
+    const assignment = await this.repository.updateAssignment(assignmentId, { revoked_at: new Date().toISOString() });
+
+    await logAuditEvent({
+      userId,
+      action: "delete",
+      resourceType: "manager_assignment",
+      resourceId: assignmentId,
+      previousData: { propertyId, managerId: existing.property_manager_id, permissions: existing.permissions },
+      req,
+    });
+
+    this.notify(existing.property_manager_id, property, "Your access to this property was revoked");
+
+    return assignment;
+  }
+
+  async listMyInvitations(user: { id: string; email: string }): Promise<any[]> {
+    return await this.repository.listPendingInvitationsForEmail(user.email);
+  }
+
+  async listMyAssignments(managerId: string): Promise<any[]> {
+    return await this.repository.listAssignmentsForManager(managerId);
+  }
+
+  // Accepting creates the assignment, or replaces the permissions of one that already exists
+  async respondToInvitation(
+    invitationId: string,
+    input: RespondManagerInvitation,
+    user: { id: string; email: string; role: string },
+    req: any
+  ): Promise<any> {
+    const invitation = await this.repository.getInvitation(invitationId);
+
+    if (!invitation || invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+      throw { status: 404, message: "Invitation not found" };
+    }
+
+    if (invitation.status !== "pending") {
+      throw { status: 400, message: `This invitation has already been ${invitation.status}` };
+    }
+
+    if (new Date(invitation.expires_at) <= new Date()) {
+      await this.repository.updateInvitation(invitationId, { status: "expired" });
+      throw { status: 400, message: "This invitation has expired. Ask the owner to send a new one." };
+    }
+
+    if (input.decision === "accept" && user.role !== "property_manager") {
+      throw { status: 403, message: "Only property manager accounts can accept manager invitations" };
+    }
+
+    const property = await this.repository.getProperty(invitation.property_id);
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    let assignmentId: string | null = null;
+
+    if (input.decision === "accept") {
+      const existing = await this.repository.getActiveAssignment(invitation.property_id, user.id);
+      const assignment = existing
+        ? await this.repository.updateAssignment(existing.id, { permissions: invitation.permissions, notes: invitation.notes })
+        : await this.repository.createAssignment({
+            property_id: invitation.property_id,
+            property_manager_id: user.id,
+            assigned_by: invitation.invited_by,
+            permissions: invitation.permissions,
+            notes: invitation.notes,
+          });
+      assignmentId = assignment.id;
+    }
+
+    const updated = await this.repository.updateInvitation(invitationId, {
+      status: input.decision === "accept" ? "accepted" : "declined",
+      responded_by: user.id,
+      responded_at: new Date().toISOString(),
+      assignment_id: assignmentId,
+    });
+
+    await logAuditEvent({
+      userId: user.id,
+      action: "status_change",
+      resourceType: "manager_invitation",
+      resourceId: invitationId,
+      previousData: { status: "pending" },
+      newData: { status: updated.status, assignmentId },
+      req,
+    });
+
+    this.notify(
+      invitation.invited_by,
+      property,
+      input.decision === "accept"
+        ? `${user.email} accepted your invitation to manage this property`
+        : `${user.email} declined your invitation to manage this property`
+    );
+
+    return updated;
+  }
+}
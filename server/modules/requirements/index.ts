@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerRequirementRoutes } from "./requirement.routes";
+
+export function registerRequirementModuleRoutes(app: Express): void {
+  registerRequirementRoutes(app);
+}
+
+export { RequirementMatchService, scoreRequirementMatch } from "./requirement.service";
+export { RequirementRepository } from "./requirement.repository";
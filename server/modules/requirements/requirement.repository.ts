@@ -0,0 +1,170 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const REQUIREMENT_SELECT =
+  "id, user_id, contact_name, contact_email, contact_phone, budget_min, budget_max, bedrooms, bathrooms, property_type, locations, amenities, pets, lease_term, move_in_date, created_at, updated_at";
+
+const PROPERTY_SELECT =
+  "id, title, address, neighborhood, city, state, zip_code, price, bedrooms, bathrooms, property_type, amenities, pets_allowed, available_from, owner_id, listing_agent_id, updated_at";
+
+// PostgREST caps a single response at 1000 rows
+const PAGE_SIZE = 1000;
+
+// Reads every row of a query a page at a time; the query must have a stable order
+async function readAllPages<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: any }>): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await page(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+export class RequirementRepository {
+  async getById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("requirements")
+      .select(REQUIREMENT_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listRequirements(): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    return readAllPages((from, to) =>
+      supabase
+        .from("requirements")
+        .select(REQUIREMENT_SELECT)
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+  }
+
+  // Listings renters can actually apply to
+  async listMatchableProperties(): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    return readAllPages((from, to) =>
+      supabase
+        .from("properties")
+        .select(PROPERTY_SELECT)
+        .eq("status", "active")
+        .eq("listing_status", "available")
+        .is("deleted_at", null)
+        .is("moderation_hidden_at", null)
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+  }
+
+  async getProperty(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select(PROPERTY_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listMatchKeys(): Promise<Array<{ id: string; requirement_id: string; property_id: string }>> {
+    const supabase = getSupabaseOrThrow();
+    return readAllPages((from, to) =>
+      supabase
+        .from("requirement_matches")
+        .select("id, requirement_id, property_id")
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+  }
+
+  // Only score columns are written so notified timestamps survive a rescore
+  async upsertMatches(rows: Record<string, any>[]): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("requirement_matches")
+      .upsert(rows, { onConflict: "requirement_id,property_id" });
+
+    if (error) throw error;
+  }
+
+  async deleteMatches(ids: string[]): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("requirement_matches")
+      .delete()
+      .in("id", ids);
+
+    if (error) throw error;
+  }
+
+  async listMatchesForProperty(propertyId: string, minScore: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("requirement_matches")
+      .select(`id, score, breakdown, created_at, requirements(${REQUIREMENT_SELECT})`)
+      .eq("property_id", propertyId)
+      .gte("score", minScore)
+      .order("score", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async listMatchesForUser(userId: string, minScore: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("requirement_matches")
+      .select(`id, requirement_id, score, breakdown, created_at, requirements!inner(user_id), properties(${PROPERTY_SELECT}, images)`)
+      .eq("requirements.user_id", userId)
+      .gte("score", minScore)
+      .order("score", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async findUnnotifiedMatches(column: "renter_notified_at" | "landlord_notified_at", minScore: number): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    return readAllPages((from, to) =>
+      supabase
+        .from("requirement_matches")
+        .select(`id, requirement_id, property_id, score, requirements(${REQUIREMENT_SELECT}), properties(${PROPERTY_SELECT})`)
+        .is(column, null)
+        .gte("score", minScore)
+        .order("score", { ascending: false })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+  }
+
+  async markNotified(ids: string[], column: "renter_notified_at" | "landlord_notified_at"): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("requirement_matches")
+      .update({ [column]: new Date().toISOString() })
+      .in("id", ids);
+
+    if (error) throw error;
+  }
+
+  async getUsersByIds(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, email, full_name")
+      .in("id", ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+}
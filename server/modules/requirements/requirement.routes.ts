@@ -0,0 +1,48 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { RequirementMatchService } from "./requirement.service";
+
+const requirementMatchService = new RequirementMatchService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[REQUIREMENTS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerRequirementRoutes(app: Express): void {
+  // GET /api/v2/requirements/matches - Listings that fit the caller's saved requirements
+  app.get("/api/v2/requirements/matches", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await requirementMatchService.getMatchesForUser(req.user!.id);
+
+      return res.json(success(result, "Requirement matches retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Matches", "Failed to retrieve matches");
+    }
+  });
+
+  // GET /api/v2/properties/:propertyId/matching-renters - Renters whose requirements fit a listing
+  app.get(
+    "/api/v2/properties/:propertyId/matching-renters",
+    authenticateToken,
+    requireRole("landlord", "property_manager", "agent", "admin", "super_admin"),
+    async (req: AuthenticatedRequest, res) => {
+      try {
+        const result = await requirementMatchService.getMatchingRenters(
+          req.params.propertyId,
+          req.user!.id,
+          req.user!.role
+        );
+
+        return res.json(success(result, "Matching renters retrieved"));
+      } catch (err: any) {
+        return handleError(res, err, "Matching renters", "Failed to retrieve matching renters");
+      }
+    }
+  );
+}
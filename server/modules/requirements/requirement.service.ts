@@ -0,0 +1,403 @@
+import { REQUIREMENT_MATCH_SCORES } from "@shared/schema";
+import { RequirementRepository } from "./requirement.repository";
+import {
+  sendRequirementMatchNotification,
+  sendMatchingRenterNotification,
+} from "../../notification-service";
+
+const MIN_MATCH_SCORE = REQUIREMENT_MATCH_SCORES.min;
+const STRONG_MATCH_SCORE = REQUIREMENT_MATCH_SCORES.strong;
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+const CONTACT_VIEWER_ROLES = [...ADMIN_ROLES, "agent"];
+
+export interface MatchCriterion {
+  criterion: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface RequirementMatchResult {
+  score: number;
+  breakdown: MatchCriterion[];
+  // Set when the listing can't work for the renter whatever the score
+  dealbreaker: string | null;
+}
+
+// jsonb columns were written as arrays by the API and as comma-separated text by older forms
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((item) => String(item).trim()).filter(Boolean);
+  if (typeof value === "string") return value.split(",").map((item) => item.trim()).filter(Boolean);
+  return [];
+}
+
+function hasPets(pets: unknown): boolean {
+  if (Array.isArray(pets)) return pets.length > 0;
+  if (pets && typeof pets === "object") return !!(pets as any).hasPets;
+  return pets === true;
+}
+
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+export function scoreRequirementMatch(requirement: any, property: any): RequirementMatchResult {
+  const breakdown: MatchCriterion[] = [];
+  let dealbreaker: string | null = null;
+
+  // Budget (30)
+  const price = parseFloat(property.price);
+  const budgetMin = parseFloat(requirement.budget_min);
+  const budgetMax = parseFloat(requirement.budget_max);
+  if (!Number.isFinite(budgetMax) && !Number.isFinite(budgetMin)) {
+    breakdown.push({ criterion: "budget", points: 30, maxPoints: 30, detail: "No budget set" });
+  } else if (!Number.isFinite(price)) {
+    breakdown.push({ criterion: "budget", points: 0, maxPoints: 30, detail: "Listing has no price" });
+  } else if (Number.isFinite(budgetMax) && price > budgetMax) {
+    // Up to 10% over budget is still worth a look
+    const within = price <= budgetMax * 1.1;
+    breakdown.push({
+      criterion: "budget",
+      points: within ? 15 : 0,
+      maxPoints: 30,
+      detail: `${formatMoney(price)}/mo is over the ${formatMoney(budgetMax)} budget`,
+    });
+    if (!within) dealbreaker = "Over budget";
+  } else {
+    breakdown.push({ criterion: "budget", points: 30, maxPoints: 30, detail: `${formatMoney(price)}/mo is within budget` });
+  }
+
+  // Bedrooms (15) and bathrooms (10) are minimums
+  if (requirement.bedrooms === null || requirement.bedrooms === undefined) {
+    breakdown.push({ criterion: "bedrooms", points: 15, maxPoints: 15, detail: "Any number of bedrooms" });
+  } else {
+    const beds = property.bedrooms ?? 0;
+    const points = beds >= requirement.bedrooms ? 15 : beds === requirement.bedrooms - 1 ? 5 : 0;
+    breakdown.push({ criterion: "bedrooms", points, maxPoints: 15, detail: `${beds} of ${requirement.bedrooms}+ bedrooms wanted` });
+  }
+
+  const wantedBaths = parseFloat(requirement.bathrooms);
+  if (!Number.isFinite(wantedBaths)) {
+    breakdown.push({ criterion: "bathrooms", points: 10, maxPoints: 10, detail: "Any number of bathrooms" });
+  } else {
+    const baths = parseFloat(property.bathrooms) || 0;
+    breakdown.push({
+      criterion: "bathrooms",
+      points: baths >= wantedBaths ? 10 : 0,
+      maxPoints: 10,
+      detail: `${baths} of ${wantedBaths}+ bathrooms wanted`,
+    });
+  }
+
+  // Location (15): any wanted place named in the listing's city, neighborhood, ZIP or address
+  const locations = toList(requirement.locations);
+  if (locations.length === 0) {
+    breakdown.push({ criterion: "location", points: 15, maxPoints: 15, detail: "Any location" });
+  } else {
+    const haystack = [property.city, property.neighborhood, property.zip_code, property.address, property.state]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    const matched = locations.find((location) => haystack.includes(location.toLowerCase()));
+    breakdown.push({
+      criterion: "location",
+      points: matched ? 15 : 0,
+      maxPoints: 15,
+      detail: matched ? `In ${matched}` : `Not in ${locations.join(", ")}`,
+    });
+  }
+
+  // Property type (10)
+  const types = toList(requirement.property_type).map((type) => type.toLowerCase());
+  if (types.length === 0) {
+    breakdown.push({ criterion: "propertyType", points: 10, maxPoints: 10, detail: "Any property type" });
+  } else {
+    const matched = !!property.property_type && types.includes(property.property_type.toLowerCase());
+    breakdown.push({
+      criterion: "propertyType",
+      points: matched ? 10 : 0,
+      maxPoints: 10,
+      detail: matched ? `Is a ${property.property_type}` : `${property.property_type || "Unknown type"} is not a wanted type`,
+    });
+  }
+
+  // Pets (10)
+  if (!hasPets(requirement.pets)) {
+    breakdown.push({ criterion: "pets", points: 10, maxPoints: 10, detail: "No pets" });
+  } else if (property.pets_allowed) {
+    breakdown.push({ criterion: "pets", points: 10, maxPoints: 10, detail: "Pets allowed" });
+  } else {
+    breakdown.push({ criterion: "pets", points: 0, maxPoints: 10, detail: "Pets not allowed" });
+    dealbreaker = dealbreaker || "Pets not allowed";
+  }
+
+  // Amenities (5), pro rata
+  const wantedAmenities = toList(requirement.amenities);
+  if (wantedAmenities.length === 0) {
+    breakdown.push({ criterion: "amenities", points: 5, maxPoints: 5, detail: "No amenities required" });
+  } else {
+    const available = new Set(toList(property.amenities).map((amenity) => amenity.toLowerCase()));
+    const found = wantedAmenities.filter((amenity) => available.has(amenity.toLowerCase()));
+    breakdown.push({
+      criterion: "amenities",
+      points: Math.round((found.length / wantedAmenities.length) * 5),
+      maxPoints: 5,
+      detail: `${found.length} of ${wantedAmenities.length} wanted amenities`,
+    });
+  }
+
+  // Move-in date (5)
+  if (!requirement.move_in_date || !property.available_from || property.available_from <= requirement.move_in_date) {
+    breakdown.push({ criterion: "moveIn", points: 5, maxPoints: 5, detail: "Available by the move-in date" });
+  } else {
+    breakdown.push({ criterion: "moveIn", points: 0, maxPoints: 5, detail: `Available from ${property.available_from}` });
+  }
+
+  return {
+    score: breakdown.reduce((total, item) => total + item.points, 0),
+    breakdown,
+    dealbreaker,
+  };
+}
+
+// Contact details stay with admins and agents, as on the requirements list.
+// Landlords reach renters who have an account through messaging instead.
+function summarizeRequirement(requirement: any, userRole: string) {
+  const canSeeContact = CONTACT_VIEWER_ROLES.includes(userRole);
+
+  return {
+    id: requirement.id,
+    userId: requirement.user_id ?? null,
+    contactName: requirement.contact_name,
+    contactEmail: canSeeContact ? requirement.contact_email : null,
+    contactPhone: canSeeContact ? requirement.contact_phone : null,
+    budgetMin: requirement.budget_min,
+    budgetMax: requirement.budget_max,
+    bedrooms: requirement.bedrooms,
+    moveInDate: requirement.move_in_date,
+    hasPets: hasPets(requirement.pets),
+  };
+}
+
+export class RequirementMatchService {
+  private repository: RequirementRepository;
+
+  constructor() {
+    this.repository = new RequirementRepository();
+  }
+
+  // Renters who fit one of the caller's listings, best first
+  async getMatchingRenters(propertyId: string, userId: string, userRole: string): Promise<any[]> {
+    const property = await this.repository.getProperty(propertyId);
+
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    if (property.owner_id !== userId && property.listing_agent_id !== userId && !ADMIN_ROLES.includes(userRole)) {
+      throw { status: 403, message: "Not authorized to view renters for this property" };
+    }
+
+    const matches = await this.repository.listMatchesForProperty(propertyId, MIN_MATCH_SCORE);
+    return matches.map((match) => ({
+      id: match.id,
+      score: match.score,
+      breakdown: match.breakdown,
+      matchedAt: match.created_at,
+      renter: match.requirements ? summarizeRequirement(match.requirements, userRole) : null,
+    }));
+  }
+
+  // Listings that fit the caller's requirements, best first
+  async getMatchesForUser(userId: string): Promise<any[]> {
+    const matches = await this.repository.listMatchesForUser(userId, MIN_MATCH_SCORE);
+    return matches.map((match) => ({
+      id: match.id,
+      requirementId: match.requirement_id,
+      score: match.score,
+      breakdown: match.breakdown,
+      matchedAt: match.created_at,
+      property: match.properties,
+    }));
+  }
+
+  // Scheduled: scores requirements against matchable listings, drops matches
+  // that no longer qualify, then emails both sides about new strong ones. With
+  // `since` (the previous successful run) only requirements and listings
+  // changed after it are rescored; without it everything is.
+  async matchAll(since: string | null = null): Promise<{ requirements: number; rescored: number; matches: number; removed: number; rentersNotified: number; landlordsNotified: number }> {
+    const [requirements, properties, existing] = await Promise.all([
+      this.repository.listRequirements(),
+      this.repository.listMatchableProperties(),
+      this.repository.listMatchKeys(),
+    ]);
+
+    const cutoff = since ? Date.parse(since) : NaN;
+    const changed = (row: any) => !Number.isFinite(cutoff) || Date.parse(row.updated_at ?? row.created_at) >= cutoff;
+    const changedRequirements = requirements.filter(changed);
+    const changedProperties = new Set(properties.filter(changed).map((property) => property.id));
+    const changedRequirementIds = new Set(changedRequirements.map((requirement) => requirement.id));
+
+    const now = new Date().toISOString();
+    const rows: Record<string, any>[] = [];
+    const current = new Set<string>();
+    let rescored = 0;
+
+    const score = (requirement: any, property: any) => {
+      rescored++;
+      const result = scoreRequirementMatch(requirement, property);
+      if (result.dealbreaker || result.score < MIN_MATCH_SCORE) return;
+
+      current.add(`${requirement.id}:${property.id}`);
+      rows.push({
+        requirement_id: requirement.id,
+        property_id: property.id,
+        score: result.score,
+        breakdown: result.breakdown,
+        updated_at: now,
+      });
+    };
+
+    // Changed requirements against every listing, then the rest against changed listings
+    for (const requirement of changedRequirements) {
+      for (const property of properties) score(requirement, property);
+    }
+    if (changedProperties.size > 0) {
+      const changedListings = properties.filter((property) => changedProperties.has(property.id));
+      for (const requirement of requirements) {
+        if (changedRequirementIds.has(requirement.id)) continue;
+        for (const property of changedListings) score(requirement, property);
+      }
+    }
+
+    // Upsert in chunks to keep request bodies small
+    for (let i = 0; i < rows.length; i += 500) {
+      await this.repository.upsertMatches(rows.slice(i, i + 500));
+    }
+
+    // A match is stale when its listing stopped being matchable, or when either
+    // side was rescored and the pair no longer qualifies
+    const requirementIds = new Set(requirements.map((requirement) => requirement.id));
+    const propertyIds = new Set(properties.map((property) => property.id));
+    const stale = existing
+      .filter((match) => {
+        if (!requirementIds.has(match.requirement_id) || !propertyIds.has(match.property_id)) return true;
+        const wasRescored = changedRequirementIds.has(match.requirement_id) || changedProperties.has(match.property_id);
+        return wasRescored && !current.has(`${match.requirement_id}:${match.property_id}`);
+      })
+      .map((match) => match.id);
+    for (let i = 0; i < stale.length; i += 200) {
+      await this.repository.deleteMatches(stale.slice(i, i + 200));
+    }
+
+    const rentersNotified = await this.notifyRenters();
+    const landlordsNotified = await this.notifyLandlords();
+
+    return {
+      requirements: requirements.length,
+      rescored,
+      matches: rows.length,
+      removed: stale.length,
+      rentersNotified,
+      landlordsNotified,
+    };
+  }
+
+  // One email per requirement listing its new strong matches
+  private async notifyRenters(): Promise<number> {
+    const pending = await this.repository.findUnnotifiedMatches("renter_notified_at", STRONG_MATCH_SCORE);
+
+    const byRequirement = new Map<string, any[]>();
+    for (const match of pending) {
+      const list = byRequirement.get(match.requirement_id) || [];
+      list.push(match);
+      byRequirement.set(match.requirement_id, list);
+    }
+
+    const users = new Map(
+      (await this.repository.getUsersByIds(
+        Array.from(new Set(pending.map((match) => match.requirements?.user_id).filter(Boolean)))
+      )).map((user) => [user.id, user])
+    );
+
+    let sent = 0;
+    for (const matches of Array.from(byRequirement.values())) {
+      const requirement = matches[0].requirements;
+      const account = requirement?.user_id ? users.get(requirement.user_id) : null;
+      const recipient = {
+        id: account?.id ?? null,
+        email: account?.email || requirement?.contact_email,
+        full_name: account?.full_name || requirement?.contact_name,
+      };
+
+      try {
+        if (recipient.email) {
+          const delivered = await sendRequirementMatchNotification(
+            recipient,
+            matches.map((match) => ({
+              propertyId: match.property_id,
+              title: match.properties?.title,
+              address: [match.properties?.address, match.properties?.city, match.properties?.state].filter(Boolean).join(", "),
+              price: parseFloat(match.properties?.price || "0").toLocaleString(),
+              score: match.score,
+            }))
+          );
+          // Failed sends stay pending and are retried on the next run
+          if (!delivered) continue;
+          sent++;
+        }
+
+        await this.repository.markNotified(matches.map((match) => match.id), "renter_notified_at");
+      } catch (err) {
+        console.error(`[REQUIREMENTS] Failed to notify renter for requirement ${matches[0].requirement_id}:`, err);
+      }
+    }
+
+    return sent;
+  }
+
+  // One email per listing to whoever manages it, listing its new strong matches
+  private async notifyLandlords(): Promise<number> {
+    const pending = await this.repository.findUnnotifiedMatches("landlord_notified_at", STRONG_MATCH_SCORE);
+
+    const byProperty = new Map<string, any[]>();
+    for (const match of pending) {
+      const list = byProperty.get(match.property_id) || [];
+      list.push(match);
+      byProperty.set(match.property_id, list);
+    }
+
+    const managerIds = pending.map((match) => match.properties?.listing_agent_id || match.properties?.owner_id).filter(Boolean);
+    const users = new Map(
+      (await this.repository.getUsersByIds(Array.from(new Set(managerIds)))).map((user) => [user.id, user])
+    );
+
+    let sent = 0;
+    for (const matches of Array.from(byProperty.values())) {
+      const property = matches[0].properties;
+      const recipient = users.get(property?.listing_agent_id || property?.owner_id);
+
+      try {
+        if (recipient?.email) {
+          const delivered = await sendMatchingRenterNotification(
+            recipient,
+            { id: property.id, title: property.title },
+            matches.map((match) => ({
+              name: match.requirements?.contact_name || "A renter",
+              budgetMax: match.requirements?.budget_max ? parseFloat(match.requirements.budget_max).toLocaleString() : null,
+              moveInDate: match.requirements?.move_in_date || null,
+              score: match.score,
+            }))
+          );
+          if (!delivered) continue;
+          sent++;
+        }
+
+        await this.repository.markNotified(matches.map((match) => match.id), "landlord_notified_at");
+      } catch (err) {
+        console.error(`[REQUIREMENTS] Failed to notify landlord for property ${matches[0].property_id}:`, err);
+      }
+    }
+
+    return sent;
+  }
+}
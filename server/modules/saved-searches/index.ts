@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerSavedSearchRoutes } from "./saved-search.routes";
+
+export function registerSavedSearchModuleRoutes(app: Express): void {
+  registerSavedSearchRoutes(app);
+}
+
+export { SavedSearchService } from "./saved-search.service";
+export { SavedSearchRepository } from "./saved-search.repository";
@@ -0,0 +1,136 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const LISTING_PAGE_SIZE = 500;
+
+const SEARCH_SELECT = "id, user_id, name, filters, alerts_enabled, alert_frequency, last_alert_sent_at, created_at, updated_at";
+
+export class SavedSearchRepository {
+  async listForUser(userId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select(SEARCH_SELECT)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select(SEARCH_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getByUnsubscribeToken(token: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select(SEARCH_SELECT)
+      .eq("unsubscribe_token", token)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async update(id: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(SEARCH_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listAlertingSearches(): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("id, user_id, filters, created_at")
+      .eq("alerts_enabled", true)
+      .limit(5000);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Public listings that went live or were updated since the cutoff, read a
+  // page at a time so a busy window isn't cut off
+  async findRecentlyChangedListings(since: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const listings: any[] = [];
+
+    for (let offset = 0; ; offset += LISTING_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("properties")
+        .select("id, title, address, city, state, zip_code, price, bedrooms, bathrooms, property_type, pets_allowed, furnished, listed_at, price_history")
+        .eq("status", "active")
+        .eq("listing_status", "available")
+        .is("deleted_at", null)
+        .is("moderation_hidden_at", null)
+        .or(`listed_at.gte.${since},updated_at.gte.${since}`)
+        .order("updated_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + LISTING_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      listings.push(...(data || []));
+      if (!data || data.length < LISTING_PAGE_SIZE) break;
+    }
+
+    return listings;
+  }
+
+  // Existing (search, listing) pairs are skipped, so only new matches come back
+  async insertMatches(rows: Record<string, any>[]): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("saved_search_matches")
+      .upsert(rows, { onConflict: "saved_search_id,property_id", ignoreDuplicates: true })
+      .select("id, saved_search_id");
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async findPendingMatches(frequency: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("saved_search_matches")
+      .select(`
+        id, saved_search_id, property_id, reason, price, previous_price, matched_at,
+        saved_searches!inner(id, name, alert_frequency, alerts_enabled, unsubscribe_token, users(id, email, full_name)),
+        properties(id, title, address, city, state, status, listing_status, deleted_at, moderation_hidden_at)
+      `)
+      .is("notified_at", null)
+      .eq("saved_searches.alerts_enabled", true)
+      .eq("saved_searches.alert_frequency", frequency)
+      .order("matched_at", { ascending: true })
+      .limit(2000);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async markMatchesNotified(ids: string[]): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("saved_search_matches")
+      .update({ notified_at: new Date().toISOString() })
+      .in("id", ids);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { updateSavedSearchAlertsSchema, savedSearchUnsubscribeSchema } from "@shared/schema";
+import { SavedSearchService } from "./saved-search.service";
+
+const savedSearchService = new SavedSearchService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[SAVED_SEARCHES] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerSavedSearchRoutes(app: Express): void {
+  // GET /api/v2/saved-searches - The caller's saved searches with alert settings
+  app.get("/api/v2/saved-searches", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await savedSearchService.list(req.user!.id);
+
+      return res.json(success(result, "Saved searches retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve saved searches");
+    }
+  });
+
+  // PATCH /api/v2/saved-searches/:id/alerts - Turn alerts on or off and set their cadence
+  app.patch("/api/v2/saved-searches/:id/alerts", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateSavedSearchAlertsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await savedSearchService.updateAlerts(req.params.id, validation.data, req.user!.id);
+
+      return res.json(success(result, "Saved search alerts updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Alerts", "Failed to update saved search alerts");
+    }
+  });
+
+  // POST /api/v2/saved-searches/unsubscribe - Stop alerts from an email link, no sign-in needed
+  app.post("/api/v2/saved-searches/unsubscribe", async (req, res) => {
+    try {
+      const validation = savedSearchUnsubscribeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await savedSearchService.unsubscribe(validation.data.token);
+
+      return res.json(success(result, "Saved search alerts turned off"));
+    } catch (err: any) {
+      return handleError(res, err, "Unsubscribe", "Failed to turn off alerts");
+    }
+  });
+}
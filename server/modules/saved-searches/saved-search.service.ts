@@ -0,0 +1,208 @@
+import { savedSearchFiltersSchema, type SavedSearchFilters, type UpdateSavedSearchAlerts } from "@shared/schema";
+import { SavedSearchRepository } from "./saved-search.repository";
+import { sendSavedSearchAlertNotification } from "../../notification-service";
+
+// Listings changed within this window are (re)evaluated on every matching run;
+// the unique (search, listing) pair keeps overlapping runs from alerting twice.
+const MATCH_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Keys written by the properties page before filters were validated
+const LEGACY_FILTER_KEYS: Record<string, keyof SavedSearchFilters> = {
+  search: "keyword",
+  priceMin: "minPrice",
+  priceMax: "maxPrice",
+  homeType: "propertyType",
+};
+
+export function normalizeSavedSearchFilters(raw: unknown): SavedSearchFilters {
+  const input: Record<string, any> = {};
+  for (const [key, value] of Object.entries((raw as Record<string, any>) || {})) {
+    if (value === "" || value === null || value === undefined || value === "any") continue;
+    input[LEGACY_FILTER_KEYS[key] || key] = value;
+  }
+
+  const parsed = savedSearchFiltersSchema.safeParse(input);
+  return parsed.success ? parsed.data : {};
+}
+
+const contains = (value: unknown, needle: string) =>
+  typeof value === "string" && value.toLowerCase().includes(needle.toLowerCase());
+
+export function listingMatchesFilters(property: any, filters: SavedSearchFilters): boolean {
+  const price = parseFloat(property.price);
+
+  if (filters.keyword) {
+    const matched = [property.title, property.address, property.city].some((field) => contains(field, filters.keyword!));
+    if (!matched) return false;
+  }
+  if (filters.city && property.city?.toLowerCase() !== filters.city.toLowerCase()) return false;
+  if (filters.state && property.state?.toLowerCase() !== filters.state.toLowerCase()) return false;
+  if (filters.zipCode && property.zip_code !== filters.zipCode) return false;
+  if (filters.propertyType && property.property_type?.toLowerCase() !== filters.propertyType.toLowerCase()) return false;
+  if (filters.minPrice !== undefined && !(price >= filters.minPrice)) return false;
+  if (filters.maxPrice !== undefined && !(price <= filters.maxPrice)) return false;
+  if (filters.bedrooms !== undefined && !((property.bedrooms ?? 0) >= filters.bedrooms)) return false;
+  if (filters.bathrooms !== undefined && !(parseFloat(property.bathrooms ?? "0") >= filters.bathrooms)) return false;
+  if (filters.petsAllowed && !property.pets_allowed) return false;
+  if (filters.furnished && !property.furnished) return false;
+
+  return true;
+}
+
+// Why a listing is worth alerting on right now, or null if it only had an unrelated edit
+function classifyChange(property: any, since: Date): { reason: string; previousPrice: string | null } | null {
+  if (property.listed_at && new Date(property.listed_at) >= since) {
+    return { reason: "new_listing", previousPrice: null };
+  }
+
+  // price_history entries record the price being replaced
+  const history = Array.isArray(property.price_history) ? property.price_history : [];
+  const lastChange = history[history.length - 1];
+  if (lastChange?.changedAt && new Date(lastChange.changedAt) >= since && parseFloat(property.price) < parseFloat(lastChange.price)) {
+    return { reason: "price_drop", previousPrice: String(lastChange.price) };
+  }
+
+  return null;
+}
+
+// Same visibility as public search: published, not deleted and not pulled by moderation
+function isLiveListing(property: any): boolean {
+  return (
+    property?.status === "active" &&
+    property.listing_status === "available" &&
+    !property.deleted_at &&
+    !property.moderation_hidden_at
+  );
+}
+
+export class SavedSearchService {
+  private repository: SavedSearchRepository;
+
+  constructor() {
+    this.repository = new SavedSearchRepository();
+  }
+
+  async list(userId: string): Promise<any[]> {
+    return this.repository.listForUser(userId);
+  }
+
+  async updateAlerts(id: string, input: UpdateSavedSearchAlerts, userId: string): Promise<any> {
+    const search = await this.repository.getById(id);
+
+    if (!search) {
+      throw { status: 404, message: "Saved search not found" };
+    }
+
+    if (search.user_id !== userId) {
+      throw { status: 403, message: "Not authorized to update this saved search" };
+    }
+
+    const values: Record<string, any> = {};
+    if (input.alertsEnabled !== undefined) values.alerts_enabled = input.alertsEnabled;
+    if (input.alertFrequency !== undefined) values.alert_frequency = input.alertFrequency;
+
+    return this.repository.update(id, values);
+  }
+
+  async unsubscribe(token: string): Promise<{ name: string }> {
+    const search = await this.repository.getByUnsubscribeToken(token);
+
+    if (!search) {
+      throw { status: 404, message: "This unsubscribe link is no longer valid" };
+    }
+
+    if (search.alerts_enabled) {
+      await this.repository.update(search.id, { alerts_enabled: false });
+    }
+
+    return { name: search.name };
+  }
+
+  // Scheduled: records matches for listings published or reduced in price since
+  // the lookback cutoff, then sends alerts for searches on the instant cadence.
+  async matchListings(): Promise<{ matched: number; alertsSent: number }> {
+    const since = new Date(Date.now() - MATCH_LOOKBACK_MS);
+    const listings = await this.repository.findRecentlyChangedListings(since.toISOString());
+    if (listings.length === 0) return { matched: 0, alertsSent: 0 };
+
+    const searches = (await this.repository.listAlertingSearches()).map((search) => ({
+      ...search,
+      filters: normalizeSavedSearchFilters(search.filters),
+    }));
+
+    const rows: Record<string, any>[] = [];
+    for (const listing of listings) {
+      const change = classifyChange(listing, since);
+      if (!change) continue;
+
+      for (const search of searches) {
+        if (!listingMatchesFilters(listing, search.filters)) continue;
+        rows.push({
+          saved_search_id: search.id,
+          property_id: listing.id,
+          reason: change.reason,
+          price: listing.price,
+          previous_price: change.previousPrice,
+        });
+      }
+    }
+
+    const inserted = rows.length > 0 ? await this.repository.insertMatches(rows) : [];
+    const { alertsSent } = await this.sendAlerts("instant");
+
+    return { matched: inserted.length, alertsSent };
+  }
+
+  // Sends one email per search with its unsent matches for the given cadence
+  async sendAlerts(frequency: string): Promise<{ alertsSent: number }> {
+    const pending = await this.repository.findPendingMatches(frequency);
+
+    const bySearch = new Map<string, any[]>();
+    for (const match of pending) {
+      const list = bySearch.get(match.saved_search_id) || [];
+      list.push(match);
+      bySearch.set(match.saved_search_id, list);
+    }
+
+    let alertsSent = 0;
+
+    for (const matches of Array.from(bySearch.values())) {
+      const search = matches[0].saved_searches as any;
+      const recipient = search?.users;
+
+      // Listings taken down since they matched are dropped rather than alerted
+      const live = matches.filter((match) => isLiveListing(match.properties));
+
+      try {
+        if (recipient?.email && live.length > 0) {
+          const sent = await sendSavedSearchAlertNotification(
+            recipient,
+            { id: search.id, name: search.name, unsubscribeToken: search.unsubscribe_token },
+            live.map((match) => {
+              const property = match.properties as any;
+              return {
+                propertyId: match.property_id,
+                title: property.title,
+                address: [property.address, property.city, property.state].filter(Boolean).join(", "),
+                price: parseFloat(match.price).toLocaleString(),
+                previousPrice: match.previous_price ? parseFloat(match.previous_price).toLocaleString() : null,
+              };
+            })
+          );
+
+          // Failed sends stay pending and are retried on the next run
+          if (!sent) continue;
+
+          await this.repository.update(search.id, { last_alert_sent_at: new Date().toISOString() });
+          alertsSent++;
+        }
+
+        await this.repository.markMatchesNotified(matches.map((match) => match.id));
+      } catch (err) {
+        console.error(`[SAVED_SEARCHES] Failed to send alert for search ${search?.id}:`, err);
+      }
+    }
+
+    return { alertsSent };
+  }
+}
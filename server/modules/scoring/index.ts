@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerScoringRulesRoutes } from "./scoring.routes";
+
+export function registerScoringModuleRoutes(app: Express): void {
+  registerScoringRulesRoutes(app);
+}
+
+export { ScoringRulesService } from "./scoring.service";
+export { ScoringRulesRepository } from "./scoring.repository";
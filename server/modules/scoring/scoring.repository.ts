@@ -0,0 +1,121 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const RULES_SELECT = "id, owner_id, property_id, name, rules, created_at, updated_at, properties(id, title, address)";
+
+export class ScoringRulesRepository {
+  async getProperty(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, title, owner_id")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listForOwner(ownerId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scoring_rules")
+      .select(RULES_SELECT)
+      .eq("owner_id", ownerId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scoring_rules")
+      .select(RULES_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findForOwner(ownerId: string, propertyId: string | null): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("scoring_rules")
+      .select("id, rules, name")
+      .eq("owner_id", ownerId);
+
+    query = propertyId ? query.eq("property_id", propertyId) : query.is("property_id", null);
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async create(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scoring_rules")
+      .insert([values])
+      .select(RULES_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async update(id: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("scoring_rules")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(RULES_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async delete(id: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("scoring_rules")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  // Applications still awaiting a decision, on one property or across the owner's portfolio
+  async getOpenApplicationIds(ownerId: string, propertyId: string | null, statuses: string[]): Promise<string[]> {
+    const supabase = getSupabaseOrThrow();
+
+    let propertyIds: string[];
+    if (propertyId) {
+      propertyIds = [propertyId];
+    } else {
+      const { data: properties, error: propertiesError } = await supabase
+        .from("properties")
+        .select("id")
+        .eq("owner_id", ownerId);
+
+      if (propertiesError) throw propertiesError;
+      propertyIds = (properties || []).map((p: any) => p.id);
+    }
+
+    if (propertyIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id")
+      .in("property_id", propertyIds)
+      .in("status", statuses)
+      .limit(500);
+
+    if (error) throw error;
+    return (data || []).map((a: any) => a.id);
+  }
+}
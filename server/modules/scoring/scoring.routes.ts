@@ -0,0 +1,69 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { saveScoringRulesSchema } from "@shared/schema";
+import { ScoringRulesService } from "./scoring.service";
+
+const scoringRulesService = new ScoringRulesService();
+
+const RULE_MANAGER_ROLES = ["landlord", "property_manager", "admin", "super_admin"] as const;
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[SCORING] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerScoringRulesRoutes(app: Express): void {
+  // GET /api/v2/scoring-rules - The caller's rule sets and the built-in defaults
+  app.get("/api/v2/scoring-rules", authenticateToken, requireRole(...RULE_MANAGER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await scoringRulesService.list(req.user!.id);
+
+      return res.json(success(result, "Scoring rules retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve scoring rules");
+    }
+  });
+
+  // GET /api/v2/properties/:propertyId/scoring-rules - Rules that apply to a property's applications
+  app.get("/api/v2/properties/:propertyId/scoring-rules", authenticateToken, requireRole(...RULE_MANAGER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await scoringRulesService.getEffective(req.params.propertyId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Scoring rules retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Effective", "Failed to retrieve scoring rules");
+    }
+  });
+
+  // PUT /api/v2/scoring-rules - Save portfolio rules, or a property's rules when propertyId is set
+  app.put("/api/v2/scoring-rules", authenticateToken, requireRole(...RULE_MANAGER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = saveScoringRulesSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await scoringRulesService.save(validation.data, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, "Scoring rules saved"));
+    } catch (err: any) {
+      return handleError(res, err, "Save", "Failed to save scoring rules");
+    }
+  });
+
+  // DELETE /api/v2/scoring-rules/:id - Fall back to the portfolio or default rules
+  app.delete("/api/v2/scoring-rules/:id", authenticateToken, requireRole(...RULE_MANAGER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      await scoringRulesService.remove(req.params.id, req.user!.id, req.user!.role, req);
+
+      return res.json(success(null, "Scoring rules deleted"));
+    } catch (err: any) {
+      return handleError(res, err, "Delete", "Failed to delete scoring rules");
+    }
+  });
+}
@@ -0,0 +1,119 @@
+import { DEFAULT_SCORING_RULES, type SaveScoringRules } from "@shared/schema";
+import { ScoringRulesRepository } from "./scoring.repository";
+import { logAuditEvent } from "../../security/audit-logger";
+import { resolveScoringRules, refreshApplicationScore } from "../applications/application.service";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Decided applications keep the score they were decided on
+const RESCORE_STATUSES = [
+  "pending_payment",
+  "payment_verified",
+  "submitted",
+  "under_review",
+  "info_requested",
+  "conditional_approval",
+];
+
+export class ScoringRulesService {
+  private repository: ScoringRulesRepository;
+
+  constructor() {
+    this.repository = new ScoringRulesRepository();
+  }
+
+  private async getOwnedPropertyOrThrow(propertyId: string, userId: string, userRole: string) {
+    const property = await this.repository.getProperty(propertyId);
+
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    if (property.owner_id !== userId && !ADMIN_ROLES.includes(userRole)) {
+      throw { status: 403, message: "Not authorized to manage scoring for this property" };
+    }
+
+    return property;
+  }
+
+  // Runs in the background after a save so the request does not wait on every rescore
+  private async rescore(ownerId: string, propertyId: string | null): Promise<void> {
+    const applicationIds = await this.repository.getOpenApplicationIds(ownerId, propertyId, RESCORE_STATUSES);
+
+    for (const applicationId of applicationIds) {
+      try {
+        await refreshApplicationScore(applicationId);
+      } catch (err) {
+        console.error(`[SCORING] Failed to rescore application ${applicationId}:`, err);
+      }
+    }
+  }
+
+  async list(userId: string): Promise<any> {
+    return {
+      defaults: DEFAULT_SCORING_RULES,
+      rulesets: await this.repository.listForOwner(userId),
+    };
+  }
+
+  async getEffective(propertyId: string, userId: string, userRole: string): Promise<any> {
+    await this.getOwnedPropertyOrThrow(propertyId, userId, userRole);
+    return resolveScoringRules(propertyId);
+  }
+
+  async save(input: SaveScoringRules, userId: string, userRole: string, req: any): Promise<any> {
+    const propertyId = input.propertyId || null;
+    let ownerId = userId;
+
+    if (propertyId) {
+      const property = await this.getOwnedPropertyOrThrow(propertyId, userId, userRole);
+      ownerId = property.owner_id;
+    }
+
+    const existing = await this.repository.findForOwner(ownerId, propertyId);
+    const values = { name: input.name || null, rules: input.rules };
+
+    const saved = existing
+      ? await this.repository.update(existing.id, values)
+      : await this.repository.create({ ...values, owner_id: ownerId, property_id: propertyId });
+
+    await logAuditEvent({
+      userId,
+      action: existing ? "update" : "create",
+      resourceType: "scoring_rules",
+      resourceId: saved.id,
+      previousData: existing ? { rules: existing.rules, name: existing.name } : undefined,
+      newData: { propertyId, ...values },
+      req,
+    });
+
+    this.rescore(ownerId, propertyId).catch((err) => console.error("[SCORING] Rescore failed:", err));
+
+    return saved;
+  }
+
+  async remove(id: string, userId: string, userRole: string, req: any): Promise<void> {
+    const ruleset = await this.repository.getById(id);
+
+    if (!ruleset) {
+      throw { status: 404, message: "Scoring rules not found" };
+    }
+
+    if (ruleset.owner_id !== userId && !ADMIN_ROLES.includes(userRole)) {
+      throw { status: 403, message: "Not authorized to delete these scoring rules" };
+    }
+
+    await this.repository.delete(id);
+
+    await logAuditEvent({
+      userId,
+      action: "delete",
+      resourceType: "scoring_rules",
+      resourceId: id,
+      previousData: { propertyId: ruleset.property_id, rules: ruleset.rules },
+      req,
+    });
+
+    this.rescore(ruleset.owner_id, ruleset.property_id).catch((err) => console.error("[SCORING] Rescore failed:", err));
+  }
+}
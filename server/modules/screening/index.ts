@@ -0,0 +1,10 @@
+import type { Express } from "express";
+import { registerScreeningRoutes } from "./screening.routes";
+
+export function registerScreeningModuleRoutes(app: Express): void {
+  registerScreeningRoutes(app);
+}
+
+export { ScreeningService } from "./screening.service";
+export { ScreeningRepository } from "./screening.repository";
+export { getScreeningProvider } from "./screening.provider";
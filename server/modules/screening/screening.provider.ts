@@ -0,0 +1,58 @@
+import type { ScreeningType } from "@shared/schema";
+import { LocalScreeningProvider } from "./local.provider";
+
+export interface ScreeningSubject {
+  fullName: string;
+  email?: string;
+  dateOfBirth?: string;
+  ssn?: string;
+  address?: string;
+}
+
+export interface ScreeningRequest {
+  type: ScreeningType;
+  // Stable per application and type so a retried request maps to the same order
+  reference: string;
+  subject: ScreeningSubject;
+}
+
+export interface ScreeningSummary {
+  result: "clear" | "review";
+  score?: number;
+  recordCount?: number;
+}
+
+export interface ScreeningResult {
+  providerReference: string;
+  status: "completed" | "failed";
+  failureReason?: string;
+  summary?: ScreeningSummary;
+  // Full provider response; stored encrypted and never returned by list endpoints
+  report?: Record<string, any>;
+}
+
+export interface ScreeningProvider {
+  readonly name: string;
+  readonly supportedTypes: readonly ScreeningType[];
+  run(request: ScreeningRequest): Promise<ScreeningResult>;
+}
+
+const providers: Record<string, () => ScreeningProvider> = {
+  local: () => new LocalScreeningProvider(),
+};
+
+const instances = new Map<string, ScreeningProvider>();
+
+export function getScreeningProvider(name: string = process.env.SCREENING_PROVIDER || "local"): ScreeningProvider {
+  const factory = providers[name];
+  if (!factory) {
+    throw { status: 404, message: `Unknown screening provider: ${name}` };
+  }
+
+  let provider = instances.get(name);
+  if (!provider) {
+    provider = factory();
+    instances.set(name, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,157 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+const REPORT_SELECT = "id, application_id, user_id, consent_id, screening_type, provider, provider_reference, status, summary, failure_reason, requested_by, completed_at, created_at";
+
+export class ScreeningRepository {
+  async getApplication(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("applications")
+      .select("id, user_id, status, personal_info, properties(id, title, owner_id, listing_agent_id), users(id, full_name, email)")
+      .eq("id", applicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getActiveConsent(applicationId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("screening_consents")
+      .select("*")
+      .eq("application_id", applicationId)
+      .is("revoked_at", null)
+      .order("granted_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createConsent(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("screening_consents")
+      .insert([values])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async revokeConsents(applicationId: string): Promise<number> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("screening_consents")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("application_id", applicationId)
+      .is("revoked_at", null)
+      .select("id");
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  async listReports(applicationId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("screening_reports")
+      .select(REPORT_SELECT)
+      .eq("application_id", applicationId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getReport(reportId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("screening_reports")
+      .select(`${REPORT_SELECT}, sensitive_data_id`)
+      .eq("id", reportId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createReport(values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("screening_reports")
+      .insert([{ ...values, status: "pending" }])
+      .select(REPORT_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateReport(reportId: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("screening_reports")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", reportId)
+      .select(REPORT_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // ===== Encrypted storage (sensitive_data) =====
+
+  async storeSensitiveData(values: { user_id: string; application_id: string; data_type: string; encrypted_value: string }): Promise<string> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("sensitive_data")
+      .insert([values])
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  async findSensitiveData(applicationId: string, dataType: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("sensitive_data")
+      .select("id, encrypted_value")
+      .eq("application_id", applicationId)
+      .eq("data_type", dataType)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getSensitiveData(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("sensitive_data")
+      .select("id, data_type, encrypted_value, accessed_by")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async recordSensitiveDataAccess(id: string, accessedBy: any[]): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("sensitive_data")
+      .update({ accessed_by: accessedBy, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+}
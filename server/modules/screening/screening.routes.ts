@@ -0,0 +1,96 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, requireRole } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { screeningConsentSchema, requestScreeningSchema } from "@shared/schema";
+import { ScreeningService } from "./screening.service";
+
+const screeningService = new ScreeningService();
+
+const REVIEWER_ROLES = ["landlord", "property_manager", "agent", "admin", "super_admin"] as const;
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[SCREENING] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerScreeningRoutes(app: Express): void {
+  // GET /api/v2/applications/:applicationId/screening - Consent and report summaries
+  app.get("/api/v2/applications/:applicationId/screening", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await screeningService.getScreening(req.params.applicationId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Screening retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to retrieve screening");
+    }
+  });
+
+  // POST /api/v2/applications/:applicationId/screening/consent - Applicant authorizes screening
+  app.post("/api/v2/applications/:applicationId/screening/consent", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = screeningConsentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await screeningService.giveConsent(req.params.applicationId, validation.data, req.user!.id, req);
+
+      return res.status(201).json(success(result, "Screening consent recorded"));
+    } catch (err: any) {
+      return handleError(res, err, "Consent", "Failed to record consent");
+    }
+  });
+
+  // DELETE /api/v2/applications/:applicationId/screening/consent - Applicant withdraws consent
+  app.delete("/api/v2/applications/:applicationId/screening/consent", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      await screeningService.revokeConsent(req.params.applicationId, req.user!.id, req);
+
+      return res.json(success(null, "Screening consent revoked"));
+    } catch (err: any) {
+      return handleError(res, err, "Revoke", "Failed to revoke consent");
+    }
+  });
+
+  // POST /api/v2/applications/:applicationId/screening - Run consented checks with the provider
+  app.post("/api/v2/applications/:applicationId/screening", authenticateToken, requireRole(...REVIEWER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = requestScreeningSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await screeningService.requestScreening(
+        req.params.applicationId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Screening completed"));
+    } catch (err: any) {
+      return handleError(res, err, "Request", "Failed to run screening");
+    }
+  });
+
+  // GET /api/v2/screening/reports/:reportId?reason= - Decrypted report details
+  app.get("/api/v2/screening/reports/:reportId", authenticateToken, requireRole(...REVIEWER_ROLES), async (req: AuthenticatedRequest, res) => {
+    try {
+      const reason = typeof req.query.reason === "string" ? req.query.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ error: "Access reason is required" });
+      }
+
+      const result = await screeningService.getFullReport(req.params.reportId, reason, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, "Screening report retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Report", "Failed to retrieve screening report");
+    }
+  });
+}
@@ -0,0 +1,313 @@
+import { SCREENING_CONSENT_VERSION, type ScreeningConsentInput, type RequestScreening, type ScreeningType } from "@shared/schema";
+import { ScreeningRepository } from "./screening.repository";
+import { getScreeningProvider, type ScreeningSubject } from "./screening.provider";
+import { encrypt, decrypt } from "../../security/encryption";
+import { logAuditEvent } from "../../security/audit-logger";
+import { sendScreeningInitiatedNotification } from "../../notification-service";
+import { refreshApplicationScore } from "../applications/application.service";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+const CLOSED_APPLICATION_STATUSES = ["withdrawn", "rejected"];
+
+export class ScreeningService {
+  private repository: ScreeningRepository;
+
+  constructor() {
+    this.repository = new ScreeningRepository();
+  }
+
+  private isReviewer(application: any, userId: string, userRole: string): boolean {
+    const property = application.properties as any;
+    return ADMIN_ROLES.includes(userRole) ||
+      property?.owner_id === userId ||
+      property?.listing_agent_id === userId;
+  }
+
+  private async getApplicationOrThrow(applicationId: string) {
+    const application = await this.repository.getApplication(applicationId);
+
+    if (!application) {
+      throw { status: 404, message: "Application not found" };
+    }
+
+    return application;
+  }
+
+  private formatConsent(consent: any) {
+    if (!consent) return null;
+    return {
+      id: consent.id,
+      screeningTypes: consent.screening_types,
+      consentVersion: consent.consent_version,
+      signature: consent.signature,
+      grantedAt: consent.granted_at,
+    };
+  }
+
+  // Prefer the SSN captured with consent; older applications may carry it in personal_info
+  private async buildSubject(application: any): Promise<ScreeningSubject> {
+    const personalInfo = application.personal_info || {};
+    const user = application.users as any;
+
+    let ssn: string | undefined = personalInfo.ssn || undefined;
+    const stored = await this.repository.findSensitiveData(application.id, "ssn");
+    if (stored) {
+      ssn = decrypt(stored.encrypted_value);
+    }
+
+    const name = [personalInfo.firstName, personalInfo.lastName].filter(Boolean).join(" ");
+
+    return {
+      fullName: name || user?.full_name || "Applicant",
+      email: personalInfo.email || user?.email,
+      dateOfBirth: personalInfo.dateOfBirth,
+      address: personalInfo.currentAddress,
+      ssn,
+    };
+  }
+
+  async getScreening(applicationId: string, userId: string, userRole: string): Promise<any> {
+    const application = await this.getApplicationOrThrow(applicationId);
+
+    if (application.user_id !== userId && !this.isReviewer(application, userId, userRole)) {
+      throw { status: 403, message: "Not authorized to view screening for this application" };
+    }
+
+    const [consent, reports] = await Promise.all([
+      this.repository.getActiveConsent(applicationId),
+      this.repository.listReports(applicationId),
+    ]);
+
+    return {
+      consent: this.formatConsent(consent),
+      consentVersion: SCREENING_CONSENT_VERSION,
+      reports,
+    };
+  }
+
+  async giveConsent(applicationId: string, input: ScreeningConsentInput, userId: string, req: any): Promise<any> {
+    const application = await this.getApplicationOrThrow(applicationId);
+
+    if (application.user_id !== userId) {
+      throw { status: 403, message: "Only the applicant can consent to screening" };
+    }
+
+    if (CLOSED_APPLICATION_STATUSES.includes(application.status)) {
+      throw { status: 400, message: `Cannot consent to screening on a ${application.status} application` };
+    }
+
+    if (input.screeningTypes.includes("credit") && !input.ssn && !application.personal_info?.ssn) {
+      const stored = await this.repository.findSensitiveData(applicationId, "ssn");
+      if (!stored) {
+        throw { status: 400, message: "A Social Security number is required for a credit check" };
+      }
+    }
+
+    if (input.ssn) {
+      await this.repository.storeSensitiveData({
+        user_id: userId,
+        application_id: applicationId,
+        data_type: "ssn",
+        encrypted_value: encrypt(input.ssn.replace(/\D/g, "")),
+      });
+    }
+
+    // A new consent replaces the previous one rather than widening it
+    await this.repository.revokeConsents(applicationId);
+
+    const forwarded = req.headers?.["x-forwarded-for"];
+    const consent = await this.repository.createConsent({
+      application_id: applicationId,
+      user_id: userId,
+      screening_types: input.screeningTypes,
+      consent_version: SCREENING_CONSENT_VERSION,
+      signature: input.signature,
+      ip_address: typeof forwarded === "string" ? forwarded.split(",")[0].trim() : req.socket?.remoteAddress || null,
+      user_agent: req.headers?.["user-agent"] || null,
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "screening_consent",
+      resourceId: consent.id,
+      newData: {
+        applicationId,
+        screeningTypes: input.screeningTypes,
+        consentVersion: SCREENING_CONSENT_VERSION,
+        ssnProvided: !!input.ssn,
+      },
+      req,
+    });
+
+    return this.formatConsent(consent);
+  }
+
+  async revokeConsent(applicationId: string, userId: string, req: any): Promise<void> {
+    const application = await this.getApplicationOrThrow(applicationId);
+
+    if (application.user_id !== userId) {
+      throw { status: 403, message: "Only the applicant can revoke screening consent" };
+    }
+
+    const revoked = await this.repository.revokeConsents(applicationId);
+    if (revoked === 0) {
+      throw { status: 404, message: "No active screening consent" };
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "screening_consent",
+      resourceId: applicationId,
+      newData: { revoked: true },
+      req,
+    });
+  }
+
+  async requestScreening(applicationId: string, input: RequestScreening, userId: string, userRole: string, req: any): Promise<any> {
+    const application = await this.getApplicationOrThrow(applicationId);
+
+    if (!this.isReviewer(application, userId, userRole)) {
+      throw { status: 403, message: "Not authorized to screen this applicant" };
+    }
+
+    if (CLOSED_APPLICATION_STATUSES.includes(application.status)) {
+      throw { status: 400, message: `Cannot screen a ${application.status} application` };
+    }
+
+    const consent = await this.repository.getActiveConsent(applicationId);
+    if (!consent) {
+      throw { status: 403, message: "The applicant has not consented to screening" };
+    }
+
+    const requested = (input.screeningTypes || consent.screening_types) as ScreeningType[];
+    const notConsented = requested.filter((type) => !consent.screening_types.includes(type));
+    if (notConsented.length > 0) {
+      throw { status: 403, message: `The applicant has not consented to a ${notConsented.join(", ")} check` };
+    }
+
+    const provider = getScreeningProvider();
+    const unsupported = requested.filter((type) => !provider.supportedTypes.includes(type));
+    if (unsupported.length > 0) {
+      throw { status: 400, message: `The ${provider.name} provider does not support ${unsupported.join(", ")} checks` };
+    }
+
+    // Completed or in-flight checks are not re-ordered under the same consent
+    const existing = await this.repository.listReports(applicationId);
+    const toRun = requested.filter((type) => !existing.some((report) =>
+      report.screening_type === type &&
+      report.consent_id === consent.id &&
+      ["pending", "completed"].includes(report.status)
+    ));
+
+    if (toRun.length === 0) {
+      return { reports: existing };
+    }
+
+    sendScreeningInitiatedNotification(applicationId, toRun).catch(console.error);
+
+    const subject = await this.buildSubject(application);
+
+    for (const type of toRun) {
+      const report = await this.repository.createReport({
+        application_id: applicationId,
+        user_id: application.user_id,
+        consent_id: consent.id,
+        screening_type: type,
+        provider: provider.name,
+        requested_by: userId,
+      });
+
+      try {
+        const result = await provider.run({ type, reference: report.id, subject });
+
+        if (result.status === "failed") {
+          await this.repository.updateReport(report.id, {
+            status: "failed",
+            provider_reference: result.providerReference,
+            failure_reason: result.failureReason || "provider_error",
+          });
+          continue;
+        }
+
+        const sensitiveDataId = result.report
+          ? await this.repository.storeSensitiveData({
+              user_id: application.user_id,
+              application_id: applicationId,
+              data_type: `screening_${type}`,
+              encrypted_value: encrypt(JSON.stringify(result.report)),
+            })
+          : null;
+
+        await this.repository.updateReport(report.id, {
+          status: "completed",
+          provider_reference: result.providerReference,
+          summary: result.summary || null,
+          sensitive_data_id: sensitiveDataId,
+          completed_at: new Date().toISOString(),
+        });
+      } catch (err: any) {
+        console.error(`[SCREENING] ${type} check failed for application ${applicationId}:`, err);
+        await this.repository.updateReport(report.id, {
+          status: "failed",
+          failure_reason: err?.message || "provider_error",
+        });
+      }
+    }
+
+    await refreshApplicationScore(applicationId);
+
+    await logAuditEvent({
+      userId,
+      action: "application_review",
+      resourceType: "application",
+      resourceId: applicationId,
+      newData: { screeningTypes: toRun, provider: provider.name, consentId: consent.id },
+      req,
+    });
+
+    return { reports: await this.repository.listReports(applicationId) };
+  }
+
+  // Full reports are decrypted on demand only, with the reason recorded against the stored data
+  async getFullReport(reportId: string, reason: string, userId: string, userRole: string, req: any): Promise<any> {
+    const report = await this.repository.getReport(reportId);
+
+    if (!report) {
+      throw { status: 404, message: "Screening report not found" };
+    }
+
+    const application = await this.getApplicationOrThrow(report.application_id);
+
+    if (!this.isReviewer(application, userId, userRole)) {
+      throw { status: 403, message: "Not authorized to view this report" };
+    }
+
+    if (!report.sensitive_data_id) {
+      throw { status: 404, message: "No report details are stored for this check" };
+    }
+
+    const stored = await this.repository.getSensitiveData(report.sensitive_data_id);
+    if (!stored) {
+      throw { status: 404, message: "Report details are no longer available" };
+    }
+
+    const accessLog = stored.accessed_by || [];
+    accessLog.push({ userId, accessedAt: new Date().toISOString(), reason });
+    await this.repository.recordSensitiveDataAccess(stored.id, accessLog);
+
+    await logAuditEvent({
+      userId,
+      action: "view",
+      resourceType: "screening_report",
+      resourceId: reportId,
+      metadata: { applicationId: report.application_id, screeningType: report.screening_type, reason },
+      req,
+    });
+
+    const { sensitive_data_id: _sensitiveDataId, ...summary } = report;
+    return { ...summary, details: JSON.parse(decrypt(stored.encrypted_value)) };
+  }
+}
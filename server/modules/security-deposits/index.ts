@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerSecurityDepositRoutes } from "./security-deposit.routes";
+
+export function registerSecurityDepositModuleRoutes(app: Express): void {
+  registerSecurityDepositRoutes(app);
+}
+
+export { SecurityDepositService } from "./security-deposit.service";
+export { SecurityDepositRepository } from "./security-deposit.repository";
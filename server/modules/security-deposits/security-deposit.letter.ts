@@ -0,0 +1,120 @@
+import PDFDocument from "pdfkit";
+
+export interface ItemizationLetterInput {
+  depositId: string;
+  propertyTitle: string;
+  propertyAddress: string;
+  tenantName: string;
+  tenantEmail: string | null;
+  landlordName: string;
+  moveOutDate: string;
+  returnDeadline: string | null;
+  state: string | null;
+  depositAmount: number;
+  deductions: Array<{ category: string; description: string; amount: number; photoCount: number }>;
+  refundAmount: number;
+  balanceOwed: number;
+  issuedAt: Date;
+}
+
+const money = (value: number) =>
+  `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const day = (value: string | Date) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+
+const categoryLabel = (category: string) =>
+  category.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+// Itemized statement of deposit deductions sent to the tenant after move-out
+export function renderItemizationLetter(input: ItemizationLetterInput): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "LETTER",
+      margin: 72,
+      info: {
+        Title: `Security Deposit Itemization - ${input.propertyTitle}`,
+        Author: "Choice Properties",
+        CreationDate: input.issuedAt,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.font("Helvetica").fontSize(10).text(day(input.issuedAt), { align: "right" });
+    doc.moveDown();
+    doc.text(input.tenantName);
+    if (input.tenantEmail) doc.text(input.tenantEmail);
+    doc.moveDown(1.5);
+
+    doc.font("Helvetica-Bold").fontSize(16).text("Itemized Statement of Security Deposit");
+    doc.moveDown(0.5);
+    doc.font("Helvetica").fontSize(11).text(`${input.propertyTitle}, ${input.propertyAddress}`);
+    doc.moveDown();
+
+    doc.fontSize(10.5).text(
+      `Dear ${input.tenantName}, this statement accounts for the security deposit held for your tenancy, ` +
+        `which ended on ${day(input.moveOutDate)}.` +
+        (input.returnDeadline && input.state
+          ? ` ${input.state} law requires this statement by ${day(input.returnDeadline)}.`
+          : "")
+    );
+    doc.moveDown(1.5);
+
+    // Itemization table
+    const left = doc.page.margins.left;
+    const amountX = doc.page.width - doc.page.margins.right - 100;
+    const row = (label: string, amount: string, bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10.5);
+      doc.text(label, left, y, { width: amountX - left - 12 });
+      const afterLabel = doc.y;
+      doc.text(amount, amountX, y, { width: 100, align: "right" });
+      doc.y = Math.max(afterLabel, doc.y) + 4;
+    };
+
+    row("Security deposit held", money(input.depositAmount), true);
+    doc.moveDown(0.5);
+
+    if (input.deductions.length === 0) {
+      row("No deductions", money(0));
+    } else {
+      input.deductions.forEach((deduction, idx) => {
+        const evidence = deduction.photoCount > 0
+          ? ` (${deduction.photoCount} photo${deduction.photoCount > 1 ? "s" : ""} on file)`
+          : "";
+        row(`${idx + 1}. ${categoryLabel(deduction.category)}: ${deduction.description}${evidence}`, `-${money(deduction.amount)}`);
+      });
+    }
+
+    doc.moveDown(0.5);
+    doc.moveTo(left, doc.y).lineTo(doc.page.width - doc.page.margins.right, doc.y).stroke();
+    doc.moveDown(0.5);
+
+    const totalDeductions = input.deductions.reduce((sum, d) => sum + d.amount, 0);
+    row("Total deductions", `-${money(totalDeductions)}`, true);
+    row("Amount to be refunded", money(input.refundAmount), true);
+    if (input.balanceOwed > 0) {
+      row("Balance owed by tenant", money(input.balanceOwed), true);
+    }
+
+    doc.x = left;
+    doc.moveDown(1.5);
+    doc.font("Helvetica").fontSize(10.5).text(
+      "Photos and receipts supporting each deduction are available in your Choice Properties account. " +
+        "You can acknowledge this statement or dispute any deduction from your lease dashboard."
+    );
+    doc.moveDown(2);
+    doc.text("Sincerely,");
+    doc.moveDown(0.5);
+    doc.text(input.landlordName);
+
+    doc.moveDown(2);
+    doc.font("Helvetica").fontSize(8).fillColor("#666666").text(`Reference: ${input.depositId}`);
+
+    doc.end();
+  });
+}
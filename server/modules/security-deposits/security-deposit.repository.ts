@@ -0,0 +1,255 @@
+import { getSupabaseOrThrow } from "../../supabase";
+import { DOCUMENTS_BUCKET } from "../documents/document.repository";
+
+const LEASE_SELECT =
+  "id, application_id, tenant_id, landlord_id, property_id, security_deposit_amount, lease_end_date, move_out_date, ended_at, status, properties(title, address, city, state, zip_code)";
+
+const PHOTO_SELECT = "id, url, thumbnail_url, uploader_id, deposit_deduction_id, created_at";
+
+export class SecurityDepositRepository {
+  async getLease(leaseId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .select(LEASE_SELECT)
+      .eq("id", leaseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Leases whose tenant is leaving or has left and that hold a deposit
+  async listLeasesAtMoveOut(): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("leases")
+      .select(LEASE_SELECT)
+      .gt("security_deposit_amount", 0)
+      .or("move_out_date.not.is.null,status.in.(expired,terminated)");
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getUsersByIds(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, email, full_name")
+      .in("id", ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getDepositPayment(leaseId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("payments")
+      .select("id, amount, status, paid_at, verified_at")
+      .eq("lease_id", leaseId)
+      .eq("type", "security_deposit")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getDeposit(leaseId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("security_deposits")
+      .select("*")
+      .eq("lease_id", leaseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // A concurrent request may have opened the ledger first; keep whichever row won
+  async createDeposit(depositData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("security_deposits")
+      .upsert([depositData], { onConflict: "lease_id", ignoreDuplicates: true });
+
+    if (error) throw error;
+    return this.getDeposit(depositData.lease_id);
+  }
+
+  async updateDeposit(id: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("security_deposits")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Only moves a deposit that is still in one of fromStatuses. Returns null
+  // when a concurrent request already made the transition.
+  async transitionDeposit(id: string, fromStatuses: string[], values: Record<string, any>): Promise<any | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("security_deposits")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .in("status", fromStatuses)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async findDepositsNearDeadline(beforeIso: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("security_deposits")
+      .select("id, lease_id, return_deadline, leases(landlord_id, properties(title))")
+      .in("status", ["held", "itemizing"])
+      .lte("return_deadline", beforeIso)
+      .is("deadline_reminded_at", null);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getDeductions(depositId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("deposit_deductions")
+      .select("*")
+      .eq("deposit_id", depositId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getDeduction(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("deposit_deductions")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createDeduction(deductionData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("deposit_deductions")
+      .insert([deductionData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateDeduction(id: string, values: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("deposit_deductions")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteDeduction(id: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("deposit_deductions")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  async getDeductionPhotos(deductionIds: string[]): Promise<any[]> {
+    if (deductionIds.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("photos")
+      .select(PHOTO_SELECT)
+      .in("deposit_deduction_id", deductionIds)
+      .eq("archived", false)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createPhotos(photoRows: Record<string, any>[]): Promise<any[]> {
+    if (photoRows.length === 0) return [];
+
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("photos")
+      .insert(photoRows)
+      .select(PHOTO_SELECT);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getLedger(depositId: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("deposit_ledger_entries")
+      .select("*")
+      .eq("deposit_id", depositId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createLedgerEntries(rows: Record<string, any>[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("deposit_ledger_entries")
+      .insert(rows);
+
+    if (error) throw error;
+  }
+
+  async uploadLetter(path: string, buffer: Buffer): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(path, buffer, { contentType: "application/pdf", upsert: false });
+
+    if (error) throw error;
+  }
+
+  async createSignedUrl(path: string, expiresInSeconds: number): Promise<string | null> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(path, expiresInSeconds);
+
+    if (error) throw error;
+    return data?.signedUrl || null;
+  }
+}
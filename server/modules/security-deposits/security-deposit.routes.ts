@@ -0,0 +1,150 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import {
+  createDepositDeductionSchema,
+  updateDepositDeductionSchema,
+  depositDeductionPhotosSchema,
+  respondDepositItemizationSchema,
+  recordDepositRefundSchema,
+} from "@shared/schema";
+import { SecurityDepositService } from "./security-deposit.service";
+
+const securityDepositService = new SecurityDepositService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[SECURITY_DEPOSITS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerSecurityDepositRoutes(app: Express): void {
+  // GET /api/v2/leases/:leaseId/deposit - Deposit ledger, deductions with evidence and return deadline
+  app.get("/api/v2/leases/:leaseId/deposit", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await securityDepositService.getDeposit(req.params.leaseId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Security deposit retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Get", "Failed to retrieve security deposit");
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/deposit/deductions - Itemize a deduction with photo evidence
+  app.post("/api/v2/leases/:leaseId/deposit/deductions", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = createDepositDeductionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await securityDepositService.addDeduction(req.params.leaseId, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.status(201).json(success(result, "Deduction added"));
+    } catch (err: any) {
+      return handleError(res, err, "Add deduction", "Failed to add deduction");
+    }
+  });
+
+  // PATCH /api/v2/leases/:leaseId/deposit/deductions/:deductionId - Edit a deduction before the statement is sent
+  app.patch("/api/v2/leases/:leaseId/deposit/deductions/:deductionId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = updateDepositDeductionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await securityDepositService.updateDeduction(
+        req.params.leaseId,
+        req.params.deductionId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Deduction updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Update deduction", "Failed to update deduction");
+    }
+  });
+
+  // DELETE /api/v2/leases/:leaseId/deposit/deductions/:deductionId - Remove a deduction before the statement is sent
+  app.delete("/api/v2/leases/:leaseId/deposit/deductions/:deductionId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      await securityDepositService.deleteDeduction(req.params.leaseId, req.params.deductionId, req.user!.id, req.user!.role, req);
+
+      return res.json(success(null, "Deduction removed"));
+    } catch (err: any) {
+      return handleError(res, err, "Delete deduction", "Failed to remove deduction");
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/deposit/deductions/:deductionId/photos - Attach more evidence photos
+  app.post("/api/v2/leases/:leaseId/deposit/deductions/:deductionId/photos", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = depositDeductionPhotosSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await securityDepositService.addDeductionPhotos(
+        req.params.leaseId,
+        req.params.deductionId,
+        validation.data.photos,
+        req.user!.id,
+        req.user!.role
+      );
+
+      return res.status(201).json(success(result, "Photos attached"));
+    } catch (err: any) {
+      return handleError(res, err, "Attach photos", "Failed to attach photos");
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/deposit/itemization - Send the itemized statement and letter to the tenant
+  app.post("/api/v2/leases/:leaseId/deposit/itemization", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await securityDepositService.sendItemization(req.params.leaseId, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, "Itemized statement sent"));
+    } catch (err: any) {
+      return handleError(res, err, "Send itemization", "Failed to send itemized statement");
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/deposit/respond - Tenant acknowledges or disputes the statement
+  app.post("/api/v2/leases/:leaseId/deposit/respond", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = respondDepositItemizationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await securityDepositService.respondToItemization(req.params.leaseId, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, result.status === "disputed" ? "Dispute opened" : "Statement acknowledged"));
+    } catch (err: any) {
+      return handleError(res, err, "Respond", "Failed to respond to deposit statement");
+    }
+  });
+
+  // POST /api/v2/leases/:leaseId/deposit/refund - Record the refund paid to the tenant and close the deposit
+  app.post("/api/v2/leases/:leaseId/deposit/refund", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = recordDepositRefundSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await securityDepositService.recordRefund(req.params.leaseId, validation.data, req.user!.id, req.user!.role, req);
+
+      return res.json(success(result, "Deposit refund recorded"));
+    } catch (err: any) {
+      return handleError(res, err, "Record refund", "Failed to record deposit refund");
+    }
+  });
+}
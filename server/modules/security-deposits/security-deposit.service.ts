@@ -0,0 +1,552 @@
+import crypto from "crypto";
+import type {
+  CreateDepositDeduction,
+  UpdateDepositDeduction,
+  RespondDepositItemization,
+  RecordDepositRefund,
+} from "@shared/schema";
+import { DEFAULT_DEPOSIT_RETURN_DAYS, STATE_DEPOSIT_RETURN_DAYS } from "@shared/schema";
+import { SecurityDepositRepository } from "./security-deposit.repository";
+import { renderItemizationLetter } from "./security-deposit.letter";
+import { DisputeService } from "../disputes/dispute.service";
+import { logAuditEvent } from "../../security/audit-logger";
+import { sendLeaseUpdateNotification } from "../../notification-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Landlords are reminded this many days before the return deadline
+const DEADLINE_REMINDER_DAYS = 3;
+
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+// Deductions can be changed until the itemized statement goes out
+const EDITABLE_STATUSES = ["held", "itemizing"];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function getDepositReturnDays(state: string | null | undefined): number {
+  return (state && STATE_DEPOSIT_RETURN_DAYS[state.toUpperCase()]) || DEFAULT_DEPOSIT_RETURN_DAYS;
+}
+
+// The tenant's move-out: a pending notice date, or when the lease ended
+function getMoveOutDate(lease: any): string | null {
+  if (lease.move_out_date) return lease.move_out_date;
+  if (["expired", "terminated"].includes(lease.status)) return lease.ended_at || lease.lease_end_date;
+  return null;
+}
+
+export class SecurityDepositService {
+  private repository: SecurityDepositRepository;
+
+  constructor() {
+    this.repository = new SecurityDepositRepository();
+  }
+
+  private async getLeaseForParty(leaseId: string, userId: string, userRole: string) {
+    const lease = await this.repository.getLease(leaseId);
+
+    if (!lease) {
+      throw { status: 404, message: "Lease not found" };
+    }
+
+    const isLandlord = lease.landlord_id === userId;
+    const isTenant = lease.tenant_id === userId;
+    const isAdmin = userRole === "admin";
+
+    if (!isLandlord && !isTenant && !isAdmin) {
+      throw { status: 403, message: "Not authorized to view this deposit" };
+    }
+
+    return { lease, isLandlord, isTenant, isAdmin };
+  }
+
+  private async getLeaseForLandlord(leaseId: string, userId: string, userRole: string, action: string) {
+    const access = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    if (!access.isLandlord && !access.isAdmin) {
+      throw { status: 403, message: `Only the landlord can ${action}` };
+    }
+
+    return access;
+  }
+
+  private notifyParty(leaseId: string, recipientId: string | null, headline: string, detail?: string) {
+    if (!recipientId) return;
+    sendLeaseUpdateNotification(leaseId, recipientId, headline, detail).catch((err) =>
+      console.error("[DEPOSITS] Deposit notification failed:", err)
+    );
+  }
+
+  // Opens the ledger on first use and keeps it in step with the deposit
+  // payment and the lease's move-out date.
+  private async syncDeposit(lease: any): Promise<any> {
+    let deposit = await this.repository.getDeposit(lease.id);
+
+    if (!deposit) {
+      if (!(parseFloat(lease.security_deposit_amount) > 0)) {
+        throw { status: 404, message: "This lease has no security deposit" };
+      }
+      deposit = await this.repository.createDeposit({
+        lease_id: lease.id,
+        amount: lease.security_deposit_amount,
+        status: "awaiting_payment",
+        state: (lease.properties as any)?.state ?? null,
+      });
+    }
+
+    if (deposit.status === "awaiting_payment") {
+      const payment = await this.repository.getDepositPayment(lease.id);
+      if (payment && ["paid", "verified"].includes(payment.status)) {
+        // Only the call that wins the transition records the receipt
+        const held = await this.repository.transitionDeposit(deposit.id, ["awaiting_payment"], { status: "held", amount: payment.amount });
+        if (held) {
+          await this.repository.createLedgerEntries([{
+            deposit_id: deposit.id,
+            entry_type: "received",
+            amount: payment.amount,
+            description: "Security deposit received",
+            payment_id: payment.id,
+          }]);
+          deposit = held;
+        } else {
+          deposit = await this.repository.getDeposit(lease.id);
+        }
+      }
+    }
+
+    const moveOut = getMoveOutDate(lease);
+    if (EDITABLE_STATUSES.includes(deposit.status) && moveOut && (!deposit.move_out_date || new Date(deposit.move_out_date).getTime() !== new Date(moveOut).getTime())) {
+      const state = deposit.state ?? (lease.properties as any)?.state ?? null;
+      const deadline = new Date(new Date(moveOut).getTime() + getDepositReturnDays(state) * DAY_MS);
+      deposit = await this.repository.updateDeposit(deposit.id, {
+        move_out_date: moveOut,
+        return_deadline: deadline.toISOString(),
+        deadline_reminded_at: null,
+      });
+    }
+
+    return deposit;
+  }
+
+  private async getEditableDeposit(lease: any) {
+    const deposit = await this.syncDeposit(lease);
+
+    if (!EDITABLE_STATUSES.includes(deposit.status)) {
+      throw {
+        status: 400,
+        message: deposit.status === "awaiting_payment"
+          ? "The security deposit has not been received"
+          : "Deductions can't be changed after the itemized statement is sent",
+      };
+    }
+
+    if (!deposit.move_out_date) {
+      throw { status: 400, message: "Deductions can be itemized once the tenant has a move-out date" };
+    }
+
+    return deposit;
+  }
+
+  private async getDeductionForDeposit(deductionId: string, depositId: string) {
+    const deduction = await this.repository.getDeduction(deductionId);
+
+    if (!deduction || deduction.deposit_id !== depositId) {
+      throw { status: 404, message: "Deduction not found" };
+    }
+
+    return deduction;
+  }
+
+  // Ledger, deductions with their evidence, deadline and running totals
+  async getDeposit(leaseId: string, userId: string, userRole: string): Promise<any> {
+    const { lease } = await this.getLeaseForParty(leaseId, userId, userRole);
+    const deposit = await this.syncDeposit(lease);
+
+    const [deductions, ledger] = await Promise.all([
+      this.repository.getDeductions(deposit.id),
+      this.repository.getLedger(deposit.id),
+    ]);
+    const photos = await this.repository.getDeductionPhotos(deductions.map((d) => d.id));
+
+    const sumOf = (type: string) =>
+      roundMoney(ledger.filter((e) => e.entry_type === type).reduce((sum, e) => sum + parseFloat(e.amount), 0));
+    const received = sumOf("received");
+    const deducted = sumOf("deduction");
+    const refunded = sumOf("refund");
+    const pendingDeductions = roundMoney(deductions.reduce((sum, d) => sum + parseFloat(d.amount), 0));
+
+    const letterUrl = deposit.letter_storage_path
+      ? await this.repository.createSignedUrl(deposit.letter_storage_path, SIGNED_URL_TTL_SECONDS)
+      : null;
+
+    return {
+      deposit: {
+        ...deposit,
+        days_until_deadline: deposit.return_deadline && EDITABLE_STATUSES.includes(deposit.status)
+          ? Math.ceil((new Date(deposit.return_deadline).getTime() - Date.now()) / DAY_MS)
+          : null,
+        letter_url: letterUrl,
+      },
+      deductions: deductions.map((d) => ({
+        ...d,
+        photos: photos.filter((p) => p.deposit_deduction_id === d.id),
+      })),
+      ledger,
+      totals: {
+        received,
+        deducted,
+        refunded,
+        balanceHeld: roundMoney(received - deducted - refunded),
+        pendingDeductions,
+      },
+    };
+  }
+
+  async addDeduction(leaseId: string, input: CreateDepositDeduction, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease } = await this.getLeaseForLandlord(leaseId, userId, userRole, "itemize deductions");
+    const deposit = await this.getEditableDeposit(lease);
+
+    const deduction = await this.repository.createDeduction({
+      deposit_id: deposit.id,
+      category: input.category,
+      description: input.description,
+      amount: input.amount,
+      created_by: userId,
+    });
+
+    const photos = await this.repository.createPhotos(
+      input.photos.map((photo) => ({
+        imagekit_file_id: photo.imageKitFileId,
+        url: photo.url,
+        thumbnail_url: photo.thumbnailUrl || null,
+        category: "inspection",
+        uploader_id: userId,
+        property_id: lease.property_id,
+        deposit_deduction_id: deduction.id,
+        is_private: true,
+      }))
+    );
+
+    if (deposit.status === "held") {
+      await this.repository.updateDeposit(deposit.id, { status: "itemizing" });
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "deposit_deduction",
+      resourceId: deduction.id,
+      newData: { leaseId, category: input.category, amount: input.amount, photos: photos.length },
+      req,
+    });
+
+    return { ...deduction, photos };
+  }
+
+  async updateDeduction(leaseId: string, deductionId: string, input: UpdateDepositDeduction, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease } = await this.getLeaseForLandlord(leaseId, userId, userRole, "itemize deductions");
+    const deposit = await this.getEditableDeposit(lease);
+    const existing = await this.getDeductionForDeposit(deductionId, deposit.id);
+
+    const updates: Record<string, any> = {};
+    if (input.category !== undefined) updates.category = input.category;
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.amount !== undefined) updates.amount = input.amount;
+
+    const deduction = await this.repository.updateDeduction(deductionId, updates);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "deposit_deduction",
+      resourceId: deductionId,
+      previousData: { category: existing.category, description: existing.description, amount: existing.amount },
+      newData: updates,
+      req,
+    });
+
+    return deduction;
+  }
+
+  async deleteDeduction(leaseId: string, deductionId: string, userId: string, userRole: string, req: any): Promise<void> {
+    const { lease } = await this.getLeaseForLandlord(leaseId, userId, userRole, "itemize deductions");
+    const deposit = await this.getEditableDeposit(lease);
+    const existing = await this.getDeductionForDeposit(deductionId, deposit.id);
+
+    await this.repository.deleteDeduction(deductionId);
+
+    await logAuditEvent({
+      userId,
+      action: "delete",
+      resourceType: "deposit_deduction",
+      resourceId: deductionId,
+      previousData: { category: existing.category, description: existing.description, amount: existing.amount },
+      req,
+    });
+  }
+
+  // Evidence can still be added after the statement is sent, e.g. for a dispute
+  async addDeductionPhotos(
+    leaseId: string,
+    deductionId: string,
+    photos: Array<{ imageKitFileId: string; url: string; thumbnailUrl?: string }>,
+    userId: string,
+    userRole: string
+  ): Promise<any[]> {
+    const { lease } = await this.getLeaseForLandlord(leaseId, userId, userRole, "add deduction evidence");
+    const deposit = await this.syncDeposit(lease);
+
+    if (deposit.status === "closed") {
+      throw { status: 400, message: "This deposit has been closed" };
+    }
+
+    await this.getDeductionForDeposit(deductionId, deposit.id);
+
+    return await this.repository.createPhotos(
+      photos.map((photo) => ({
+        imagekit_file_id: photo.imageKitFileId,
+        url: photo.url,
+        thumbnail_url: photo.thumbnailUrl || null,
+        category: "inspection",
+        uploader_id: userId,
+        property_id: lease.property_id,
+        deposit_deduction_id: deductionId,
+        is_private: true,
+      }))
+    );
+  }
+
+  // Posts the deductions to the ledger, renders the itemization letter and
+  // hands the statement to the tenant to acknowledge or dispute.
+  async sendItemization(leaseId: string, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease } = await this.getLeaseForLandlord(leaseId, userId, userRole, "send the itemized statement");
+    const deposit = await this.getEditableDeposit(lease);
+
+    const deductions = await this.repository.getDeductions(deposit.id);
+    const photos = await this.repository.getDeductionPhotos(deductions.map((d) => d.id));
+    const [tenant, landlord] = await this.repository.getUsersByIds([lease.tenant_id, lease.landlord_id])
+      .then((users) => [lease.tenant_id, lease.landlord_id].map((id) => users.find((u) => u.id === id)));
+
+    const depositAmount = parseFloat(deposit.amount);
+    const totalDeductions = roundMoney(deductions.reduce((sum, d) => sum + parseFloat(d.amount), 0));
+    const refundAmount = roundMoney(Math.max(0, depositAmount - totalDeductions));
+    const balanceOwed = roundMoney(Math.max(0, totalDeductions - depositAmount));
+    const property = lease.properties as any;
+    const issuedAt = new Date();
+
+    const letter = await renderItemizationLetter({
+      depositId: deposit.id,
+      propertyTitle: property?.title || "Rental property",
+      propertyAddress: [property?.address, property?.city, property?.state, property?.zip_code].filter(Boolean).join(", "),
+      tenantName: tenant?.full_name || "Tenant",
+      tenantEmail: tenant?.email || null,
+      landlordName: landlord?.full_name || "Landlord",
+      moveOutDate: deposit.move_out_date,
+      returnDeadline: deposit.return_deadline,
+      state: deposit.state,
+      depositAmount,
+      deductions: deductions.map((d) => ({
+        category: d.category,
+        description: d.description,
+        amount: parseFloat(d.amount),
+        photoCount: photos.filter((p) => p.deposit_deduction_id === d.id).length,
+      })),
+      refundAmount,
+      balanceOwed,
+      issuedAt,
+    });
+
+    const letterPath = `deposits/${lease.id}/itemization-${issuedAt.getTime()}.pdf`;
+    await this.repository.uploadLetter(letterPath, letter);
+
+    // Deductions only come out of the held balance up to the deposit amount
+    let remaining = depositAmount;
+    const entries = deductions.map((d) => {
+      const amount = roundMoney(Math.min(parseFloat(d.amount), Math.max(0, remaining)));
+      remaining = roundMoney(remaining - amount);
+      return {
+        deposit_id: deposit.id,
+        entry_type: "deduction",
+        amount,
+        description: d.description,
+        deduction_id: d.id,
+        created_by: userId,
+      };
+    }).filter((entry) => entry.amount > 0);
+
+    const updated = await this.repository.transitionDeposit(deposit.id, EDITABLE_STATUSES, {
+      status: "itemized",
+      itemized_at: issuedAt.toISOString(),
+      letter_storage_path: letterPath,
+      letter_hash: crypto.createHash("sha256").update(letter).digest("hex"),
+      refund_amount: refundAmount,
+      balance_owed: balanceOwed,
+    });
+
+    if (!updated) {
+      throw { status: 409, message: "The itemized statement has already been sent" };
+    }
+
+    await this.repository.createLedgerEntries(entries);
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "security_deposit",
+      resourceId: deposit.id,
+      previousData: { status: deposit.status },
+      newData: { status: "itemized", totalDeductions, refundAmount, balanceOwed, lateBy: deposit.return_deadline && issuedAt > new Date(deposit.return_deadline) },
+      req,
+    });
+
+    this.notifyParty(
+      lease.id,
+      lease.tenant_id,
+      "Your security deposit statement is ready",
+      `Deductions total $${totalDeductions.toFixed(2)} and $${refundAmount.toFixed(2)} will be refunded. Review the itemized statement to acknowledge or dispute it.`
+    );
+
+    return updated;
+  }
+
+  async respondToItemization(leaseId: string, input: RespondDepositItemization, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease, isTenant } = await this.getLeaseForParty(leaseId, userId, userRole);
+
+    if (!isTenant) {
+      throw { status: 403, message: "Only the tenant can respond to the deposit statement" };
+    }
+
+    const deposit = await this.syncDeposit(lease);
+    if (deposit.status !== "itemized") {
+      throw { status: 400, message: "There is no deposit statement awaiting your response" };
+    }
+
+    const now = new Date().toISOString();
+    let updated: any;
+
+    if (input.response === "acknowledge") {
+      updated = await this.repository.updateDeposit(deposit.id, {
+        status: "acknowledged",
+        tenant_response: "acknowledged",
+        tenant_response_note: input.note ?? null,
+        tenant_responded_at: now,
+      });
+      this.notifyParty(lease.id, lease.landlord_id, "The tenant acknowledged the security deposit statement");
+    } else {
+      const property = lease.properties as any;
+      const dispute = await new DisputeService().openDispute({
+        disputeType: "security_deposit",
+        subject: `Security deposit deductions - ${property?.title || "rental"}`,
+        description: input.note!,
+        ...(lease.application_id ? { applicationId: lease.application_id } : { propertyId: lease.property_id }),
+      }, userId, req);
+
+      updated = await this.repository.updateDeposit(deposit.id, {
+        status: "disputed",
+        tenant_response: "disputed",
+        tenant_response_note: input.note ?? null,
+        tenant_responded_at: now,
+        dispute_id: dispute.id,
+      });
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "status_change",
+      resourceType: "security_deposit",
+      resourceId: deposit.id,
+      previousData: { status: deposit.status },
+      newData: { status: updated.status, disputeId: updated.dispute_id ?? null },
+      req,
+    });
+
+    return updated;
+  }
+
+  async recordRefund(leaseId: string, input: RecordDepositRefund, userId: string, userRole: string, req: any): Promise<any> {
+    const { lease } = await this.getLeaseForLandlord(leaseId, userId, userRole, "record the deposit refund");
+    const deposit = await this.syncDeposit(lease);
+
+    if (!["itemized", "acknowledged", "disputed"].includes(deposit.status)) {
+      throw { status: 400, message: "Send the itemized statement before recording a refund" };
+    }
+
+    const amount = roundMoney(input.amount ?? parseFloat(deposit.refund_amount ?? "0"));
+    const ledger = await this.repository.getLedger(deposit.id);
+    const balanceHeld = roundMoney(ledger.reduce((sum, e) =>
+      sum + (e.entry_type === "received" ? 1 : -1) * parseFloat(e.amount), 0));
+
+    if (amount > balanceHeld) {
+      throw { status: 400, message: `Refund can't exceed the $${balanceHeld.toFixed(2)} still held` };
+    }
+
+    const updated = await this.repository.transitionDeposit(deposit.id, ["itemized", "acknowledged", "disputed"], {
+      status: "closed",
+      refund_amount: amount,
+      closed_at: new Date().toISOString(),
+    });
+
+    if (!updated) {
+      throw { status: 409, message: "The deposit refund has already been recorded" };
+    }
+
+    if (amount > 0) {
+      await this.repository.createLedgerEntries([{
+        deposit_id: deposit.id,
+        entry_type: "refund",
+        amount,
+        description: input.reference ? `Refund to tenant (${input.reference})` : "Refund to tenant",
+        created_by: userId,
+      }]);
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "security_deposit",
+      resourceId: deposit.id,
+      previousData: { status: deposit.status, refundAmount: deposit.refund_amount },
+      newData: { status: "closed", refundAmount: amount, reference: input.reference ?? null },
+      req,
+    });
+
+    this.notifyParty(lease.id, lease.tenant_id, "Your security deposit refund has been sent", `Amount refunded: $${amount.toFixed(2)}.`);
+
+    return updated;
+  }
+
+  // Daily: open ledgers for leases at move-out, set their return deadlines
+  // and remind landlords whose deadline is close.
+  async processReturnDeadlines(): Promise<{ depositsSynced: number; remindersSent: number }> {
+    const leases = await this.repository.listLeasesAtMoveOut();
+    let depositsSynced = 0;
+
+    for (const lease of leases) {
+      try {
+        await this.syncDeposit(lease);
+        depositsSynced++;
+      } catch (err) {
+        console.error(`[DEPOSITS] Failed to sync deposit for lease ${lease.id}:`, err);
+      }
+    }
+
+    const cutoff = new Date(Date.now() + DEADLINE_REMINDER_DAYS * DAY_MS);
+    const due = await this.repository.findDepositsNearDeadline(cutoff.toISOString());
+    let remindersSent = 0;
+
+    for (const deposit of due) {
+      const lease = deposit.leases as any;
+      const deadline = new Date(deposit.return_deadline).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+      this.notifyParty(
+        deposit.lease_id,
+        lease?.landlord_id ?? null,
+        "Security deposit statement due soon",
+        `The itemized deposit statement for ${lease?.properties?.title || "your property"} must be sent by ${deadline}.`
+      );
+      await this.repository.updateDeposit(deposit.id, { deadline_reminded_at: new Date().toISOString() });
+      remindersSent++;
+    }
+
+    return { depositsSynced, remindersSent };
+  }
+}
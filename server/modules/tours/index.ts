@@ -0,0 +1,9 @@
+import type { Express } from "express";
+import { registerTourRoutes } from "./tour.routes";
+
+export function registerTourModuleRoutes(app: Express): void {
+  registerTourRoutes(app);
+}
+
+export { TourService } from "./tour.service";
+export { TourRepository } from "./tour.repository";
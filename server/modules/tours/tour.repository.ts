@@ -0,0 +1,182 @@
+import { getSupabaseOrThrow } from "../../supabase";
+
+export class TourRepository {
+  async getPropertyById(propertyId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, title, address, city, state, owner_id, listing_agent_id, status, listing_status")
+      .eq("id", propertyId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getManagerAssignment(propertyId: string, managerId: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("property_manager_assignments")
+      .select("id")
+      .eq("property_id", propertyId)
+      .eq("property_manager_id", managerId)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getHostedPropertyIds(userId: string): Promise<string[]> {
+    const supabase = getSupabaseOrThrow();
+    const [owned, managed] = await Promise.all([
+      supabase.from("properties").select("id").or(`owner_id.eq.${userId},listing_agent_id.eq.${userId}`),
+      supabase
+        .from("property_manager_assignments")
+        .select("property_id")
+        .eq("property_manager_id", userId)
+        .is("revoked_at", null),
+    ]);
+
+    if (owned.error) throw owned.error;
+    if (managed.error) throw managed.error;
+
+    const ids = new Set<string>();
+    (owned.data || []).forEach((p: any) => ids.add(p.id));
+    (managed.data || []).forEach((a: any) => ids.add(a.property_id));
+    return Array.from(ids);
+  }
+
+  async getAvailability(propertyId: string, from: string, to: string): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("tour_availability")
+      .select("*")
+      .eq("property_id", propertyId)
+      .lt("starts_at", to)
+      .gt("ends_at", from)
+      .order("starts_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getAvailabilityById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("tour_availability")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createAvailability(availabilityData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("tour_availability")
+      .insert([availabilityData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteAvailability(id: string): Promise<void> {
+    const supabase = getSupabaseOrThrow();
+    const { error } = await supabase
+      .from("tour_availability")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  // Confirmed bookings that overlap [from, to) for any of the given hosts or the property
+  async getConfirmedBookings(filters: { propertyId?: string; hostIds?: string[]; availabilityId?: string; from: string; to: string }): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("tour_bookings")
+      .select("id, property_id, host_id, starts_at, ends_at")
+      .eq("status", "confirmed")
+      .lt("starts_at", filters.to)
+      .gt("ends_at", filters.from);
+
+    if (filters.propertyId && filters.hostIds?.length) {
+      query = query.or(`property_id.eq.${filters.propertyId},host_id.in.(${filters.hostIds.join(",")})`);
+    } else if (filters.propertyId) {
+      query = query.eq("property_id", filters.propertyId);
+    } else if (filters.hostIds?.length) {
+      query = query.in("host_id", filters.hostIds);
+    }
+
+    if (filters.availabilityId) query = query.eq("availability_id", filters.availabilityId);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createBooking(bookingData: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("tour_bookings")
+      .insert([bookingData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getBookingById(id: string): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("tour_bookings")
+      .select("*, properties(id, title, address, city, state, owner_id, listing_agent_id)")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listBookings(filters: { renterId?: string; propertyIds?: string[]; status?: string; upcoming?: boolean }): Promise<any[]> {
+    const supabase = getSupabaseOrThrow();
+    let query = supabase
+      .from("tour_bookings")
+      .select("*, properties(id, title, address, city, state)");
+
+    if (filters.renterId) query = query.eq("renter_id", filters.renterId);
+    if (filters.propertyIds) query = query.in("property_id", filters.propertyIds);
+    if (filters.status) query = query.eq("status", filters.status);
+    // Upcoming keeps tours from the last day so hosts can still record the outcome
+    if (filters.upcoming) {
+      query = query.gte("ends_at", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+    }
+
+    const { data, error } = await query
+      .order("starts_at", { ascending: filters.upcoming !== false })
+      .limit(200);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async updateBooking(id: string, updates: Record<string, any>): Promise<any> {
+    const supabase = getSupabaseOrThrow();
+    const { data, error } = await supabase
+      .from("tour_bookings")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
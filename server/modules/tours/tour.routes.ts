@@ -0,0 +1,136 @@
+import type { Express, Response } from "express";
+import type { AuthenticatedRequest } from "../../auth-middleware";
+import { authenticateToken, optionalAuth } from "../../auth-middleware";
+import { success, error as errorResponse } from "../../response";
+import { inquiryLimiter } from "../../rate-limit";
+import {
+  insertTourAvailabilitySchema,
+  insertTourBookingSchema,
+  tourBookingStatusSchema,
+} from "@shared/schema";
+import { TourService } from "./tour.service";
+
+const tourService = new TourService();
+
+function handleError(res: Response, err: any, context: string, fallback: string) {
+  if (err.status) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`[TOURS] ${context} error:`, err);
+  return res.status(500).json(errorResponse(fallback));
+}
+
+export function registerTourRoutes(app: Express): void {
+  // GET /api/v2/properties/:propertyId/tour-slots - Public list of open tour slots
+  app.get("/api/v2/properties/:propertyId/tour-slots", async (req, res) => {
+    try {
+      const result = await tourService.getAvailableSlots(
+        req.params.propertyId,
+        req.query.from as string | undefined,
+        req.query.to as string | undefined
+      );
+
+      return res.json(success(result, "Tour slots retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "Slots", "Failed to retrieve tour slots");
+    }
+  });
+
+  // POST /api/v2/properties/:propertyId/tours - Book a tour slot (guests allowed)
+  app.post("/api/v2/properties/:propertyId/tours", inquiryLimiter, optionalAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = insertTourBookingSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await tourService.bookTour(req.params.propertyId, validation.data, req.user?.id, req);
+
+      return res.status(201).json(success(result, "Tour booked"));
+    } catch (err: any) {
+      return handleError(res, err, "Book", "Failed to book tour");
+    }
+  });
+
+  // GET /api/v2/properties/:propertyId/tour-availability - Host view of published windows
+  app.get("/api/v2/properties/:propertyId/tour-availability", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await tourService.listAvailability(req.params.propertyId, req.user!.id, req.user!.role);
+
+      return res.json(success(result, "Tour availability retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List availability", "Failed to retrieve tour availability");
+    }
+  });
+
+  // POST /api/v2/properties/:propertyId/tour-availability - Publish an availability window
+  app.post("/api/v2/properties/:propertyId/tour-availability", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = insertTourAvailabilitySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await tourService.createAvailability(
+        req.params.propertyId,
+        validation.data,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.status(201).json(success(result, "Tour availability published"));
+    } catch (err: any) {
+      return handleError(res, err, "Create availability", "Failed to publish tour availability");
+    }
+  });
+
+  // DELETE /api/v2/tours/availability/:id - Remove an availability window
+  app.delete("/api/v2/tours/availability/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      await tourService.deleteAvailability(req.params.id, req.user!.id, req.user!.role, req);
+
+      return res.json(success(null, "Tour availability removed"));
+    } catch (err: any) {
+      return handleError(res, err, "Delete availability", "Failed to remove tour availability");
+    }
+  });
+
+  // GET /api/v2/tours - Tours booked by the user, or hosted on their properties
+  app.get("/api/v2/tours", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await tourService.listBookings(req.user!.id, req.user!.role, {
+        scope: req.query.scope as string | undefined,
+        status: req.query.status as string | undefined,
+        upcoming: req.query.upcoming === undefined ? undefined : req.query.upcoming === "true",
+      });
+
+      return res.json(success(result, "Tours retrieved"));
+    } catch (err: any) {
+      return handleError(res, err, "List", "Failed to retrieve tours");
+    }
+  });
+
+  // PATCH /api/v2/tours/:id/status - Cancel a tour or record its outcome
+  app.patch("/api/v2/tours/:id/status", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validation = tourBookingStatusSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0].message });
+      }
+
+      const result = await tourService.updateBookingStatus(
+        req.params.id,
+        validation.data.status,
+        validation.data.reason,
+        req.user!.id,
+        req.user!.role,
+        req
+      );
+
+      return res.json(success(result, "Tour updated"));
+    } catch (err: any) {
+      return handleError(res, err, "Status update", "Failed to update tour");
+    }
+  });
+}
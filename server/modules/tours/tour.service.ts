@@ -0,0 +1,361 @@
+import type { InsertTourAvailability, InsertTourBooking } from "@shared/schema";
+import { TourRepository } from "./tour.repository";
+import { logAuditEvent } from "../../security/audit-logger";
+import {
+  sendTourConfirmationNotification,
+  sendTourCancelledNotification,
+} from "../../notification-service";
+
+const ADMIN_ROLES = ["admin", "super_admin"];
+
+// Renters cannot book a slot starting sooner than this
+const MIN_BOOKING_LEAD_MINUTES = 60;
+// Slot queries are capped so a single request cannot expand months of windows
+const MAX_SLOT_RANGE_DAYS = 60;
+const DEFAULT_SLOT_RANGE_DAYS = 28;
+
+export interface TourSlot {
+  availabilityId: string;
+  startsAt: string;
+  endsAt: string;
+  tourTypes: string[];
+}
+
+function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+export class TourService {
+  private repository: TourRepository;
+
+  constructor() {
+    this.repository = new TourRepository();
+  }
+
+  private async canHost(property: any, userId: string, userRole: string): Promise<boolean> {
+    if (ADMIN_ROLES.includes(userRole)) return true;
+    if (property.owner_id === userId || property.listing_agent_id === userId) return true;
+
+    if (userRole === "property_manager") {
+      const assignment = await this.repository.getManagerAssignment(property.id, userId);
+      return !!assignment;
+    }
+
+    return false;
+  }
+
+  private async getPropertyForHost(propertyId: string, userId: string, userRole: string) {
+    const property = await this.repository.getPropertyById(propertyId);
+
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    if (!(await this.canHost(property, userId, userRole))) {
+      throw { status: 403, message: "Not authorized to manage tours for this property" };
+    }
+
+    return property;
+  }
+
+  // Expand availability windows into bookable slots, removing anything already
+  // taken at this property or by the same host elsewhere
+  private async buildSlots(propertyId: string, from: Date, to: Date): Promise<TourSlot[]> {
+    const windows = await this.repository.getAvailability(propertyId, from.toISOString(), to.toISOString());
+    if (windows.length === 0) return [];
+
+    const hostIds = Array.from(new Set(windows.map((w: any) => w.host_id)));
+    const booked = await this.repository.getConfirmedBookings({
+      propertyId,
+      hostIds,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+
+    const earliest = Math.max(from.getTime(), Date.now() + MIN_BOOKING_LEAD_MINUTES * 60 * 1000);
+    const slots: TourSlot[] = [];
+
+    for (const window of windows) {
+      const slotMs = (window.slot_minutes || 30) * 60 * 1000;
+      const windowEnd = new Date(window.ends_at).getTime();
+
+      for (let start = new Date(window.starts_at).getTime(); start + slotMs <= windowEnd; start += slotMs) {
+        const end = start + slotMs;
+        if (start < earliest || end > to.getTime()) continue;
+
+        const taken = booked.some((b: any) =>
+          (b.property_id === propertyId || b.host_id === window.host_id) &&
+          overlaps(start, end, new Date(b.starts_at).getTime(), new Date(b.ends_at).getTime())
+        );
+        if (taken) continue;
+
+        slots.push({
+          availabilityId: window.id,
+          startsAt: new Date(start).toISOString(),
+          endsAt: new Date(end).toISOString(),
+          tourTypes: window.tour_types || ["in_person", "video"],
+        });
+      }
+    }
+
+    return slots.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  }
+
+  async getAvailableSlots(propertyId: string, fromParam?: string, toParam?: string): Promise<TourSlot[]> {
+    const property = await this.repository.getPropertyById(propertyId);
+
+    if (!property) {
+      throw { status: 404, message: "Property not found" };
+    }
+
+    const from = fromParam ? new Date(fromParam) : new Date();
+    const to = toParam
+      ? new Date(toParam)
+      : new Date(from.getTime() + DEFAULT_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      throw { status: 400, message: "Invalid date range" };
+    }
+
+    if (to.getTime() - from.getTime() > MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      throw { status: 400, message: `Date range cannot exceed ${MAX_SLOT_RANGE_DAYS} days` };
+    }
+
+    return this.buildSlots(propertyId, from, to);
+  }
+
+  async listAvailability(propertyId: string, userId: string, userRole: string): Promise<any[]> {
+    await this.getPropertyForHost(propertyId, userId, userRole);
+
+    const now = new Date();
+    const until = new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000);
+    return this.repository.getAvailability(propertyId, now.toISOString(), until.toISOString());
+  }
+
+  async createAvailability(
+    propertyId: string,
+    input: InsertTourAvailability,
+    userId: string,
+    userRole: string,
+    req: any
+  ): Promise<any> {
+    await this.getPropertyForHost(propertyId, userId, userRole);
+
+    const startsAt = new Date(input.startsAt);
+    const endsAt = new Date(input.endsAt);
+
+    if (endsAt.getTime() <= Date.now()) {
+      throw { status: 400, message: "Availability must be in the future" };
+    }
+
+    if (endsAt.getTime() - startsAt.getTime() < input.slotMinutes * 60 * 1000) {
+      throw { status: 400, message: "Availability window is shorter than one tour slot" };
+    }
+
+    const existing = await this.repository.getAvailability(propertyId, input.startsAt, input.endsAt);
+    if (existing.length > 0) {
+      throw { status: 409, message: "This window overlaps existing availability for the property" };
+    }
+
+    const availability = await this.repository.createAvailability({
+      property_id: propertyId,
+      host_id: userId,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      slot_minutes: input.slotMinutes,
+      timezone: input.timezone || "UTC",
+      tour_types: input.tourTypes,
+      meeting_url: input.meetingUrl || null,
+      notes: input.notes || null,
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "tour_availability",
+      resourceId: availability.id,
+      newData: { propertyId, startsAt: availability.starts_at, endsAt: availability.ends_at },
+      req,
+    });
+
+    return availability;
+  }
+
+  async deleteAvailability(id: string, userId: string, userRole: string, req: any): Promise<void> {
+    const availability = await this.repository.getAvailabilityById(id);
+
+    if (!availability) {
+      throw { status: 404, message: "Availability not found" };
+    }
+
+    await this.getPropertyForHost(availability.property_id, userId, userRole);
+
+    const upcoming = await this.repository.getConfirmedBookings({
+      availabilityId: id,
+      from: new Date().toISOString(),
+      to: availability.ends_at,
+    });
+
+    if (upcoming.length > 0) {
+      throw { status: 409, message: "Cancel the booked tours in this window before removing it" };
+    }
+
+    await this.repository.deleteAvailability(id);
+
+    await logAuditEvent({
+      userId,
+      action: "delete",
+      resourceType: "tour_availability",
+      resourceId: id,
+      previousData: { propertyId: availability.property_id, startsAt: availability.starts_at },
+      req,
+    });
+  }
+
+  async bookTour(propertyId: string, input: InsertTourBooking, userId: string | undefined, req: any): Promise<any> {
+    const startsAt = new Date(input.startsAt);
+    const slotDay = 24 * 60 * 60 * 1000;
+    const slots = await this.getAvailableSlots(
+      propertyId,
+      new Date(startsAt.getTime() - slotDay).toISOString(),
+      new Date(startsAt.getTime() + slotDay).toISOString()
+    );
+
+    const slot = slots.find((s) => new Date(s.startsAt).getTime() === startsAt.getTime());
+
+    if (!slot) {
+      throw { status: 409, message: "This time slot is no longer available" };
+    }
+
+    if (!slot.tourTypes.includes(input.tourType)) {
+      throw { status: 400, message: "This tour type is not offered for the selected slot" };
+    }
+
+    const availability = await this.repository.getAvailabilityById(slot.availabilityId);
+
+    let booking;
+    try {
+      booking = await this.repository.createBooking({
+        property_id: propertyId,
+        availability_id: slot.availabilityId,
+        host_id: availability?.host_id || null,
+        renter_id: userId || null,
+        tour_type: input.tourType,
+        status: "confirmed",
+        starts_at: slot.startsAt,
+        ends_at: slot.endsAt,
+        slot_key: `${propertyId}:${slot.startsAt}`,
+        name: input.name,
+        email: input.email,
+        phone: input.phone || null,
+        message: input.message || null,
+        meeting_url: input.tourType === "video" ? availability?.meeting_url || null : null,
+        timezone: availability?.timezone || "UTC",
+      });
+    } catch (err: any) {
+      if (err.code === "23505") {
+        throw { status: 409, message: "This time slot was just booked by someone else" };
+      }
+      throw err;
+    }
+
+    await logAuditEvent({
+      userId,
+      action: "create",
+      resourceType: "tour_booking",
+      resourceId: booking.id,
+      newData: { propertyId, startsAt: booking.starts_at, tourType: booking.tour_type },
+      req,
+    });
+
+    sendTourConfirmationNotification(booking.id).catch((err) =>
+      console.error("[TOURS] Confirmation notification failed:", err)
+    );
+
+    return booking;
+  }
+
+  async listBookings(
+    userId: string,
+    userRole: string,
+    filters: { scope?: string; status?: string; upcoming?: boolean }
+  ): Promise<any[]> {
+    const scope = filters.scope || (userRole === "renter" ? "booked" : "hosting");
+
+    if (scope === "booked") {
+      return this.repository.listBookings({ renterId: userId, status: filters.status, upcoming: filters.upcoming });
+    }
+
+    if (ADMIN_ROLES.includes(userRole)) {
+      return this.repository.listBookings({ status: filters.status, upcoming: filters.upcoming });
+    }
+
+    const propertyIds = await this.repository.getHostedPropertyIds(userId);
+    if (propertyIds.length === 0) return [];
+
+    return this.repository.listBookings({ propertyIds, status: filters.status, upcoming: filters.upcoming });
+  }
+
+  async updateBookingStatus(
+    id: string,
+    status: string,
+    reason: string | undefined,
+    userId: string,
+    userRole: string,
+    req: any
+  ): Promise<any> {
+    const booking = await this.repository.getBookingById(id);
+
+    if (!booking) {
+      throw { status: 404, message: "Tour booking not found" };
+    }
+
+    const isRenter = booking.renter_id === userId;
+    const isHost = booking.host_id === userId || (await this.canHost(booking.properties, userId, userRole));
+
+    if (!isRenter && !isHost) {
+      throw { status: 403, message: "Not authorized to update this tour" };
+    }
+
+    if (booking.status !== "confirmed") {
+      throw { status: 400, message: `Tour is already ${booking.status}` };
+    }
+
+    if (status !== "cancelled") {
+      if (!isHost) {
+        throw { status: 403, message: "Only the host can record the tour outcome" };
+      }
+      if (new Date(booking.starts_at).getTime() > Date.now()) {
+        throw { status: 400, message: "Tour outcome can only be recorded after it starts" };
+      }
+    }
+
+    const updated = await this.repository.updateBooking(id, {
+      status,
+      slot_key: null,
+      ...(status === "cancelled" && {
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: userId,
+        cancellation_reason: reason || null,
+      }),
+    });
+
+    await logAuditEvent({
+      userId,
+      action: "update",
+      resourceType: "tour_booking",
+      resourceId: id,
+      previousData: { status: booking.status },
+      newData: { status, reason },
+      req,
+    });
+
+    if (status === "cancelled") {
+      sendTourCancelledNotification(id, !isRenter).catch((err) =>
+        console.error("[TOURS] Cancellation notification failed:", err)
+      );
+    }
+
+    return updated;
+  }
+}
@@ -12,12 +12,35 @@ function getSupabase() {
 import { 
   sendEmail, 
   getApplicationStatusEmailTemplate,
+  getApplicationConfirmationEmailTemplate,
+  getApprovalConfirmationEmailTemplate,
+  getCoApplicantInvitationEmailTemplate,
   getExpirationWarningEmailTemplate,
   getDocumentRequestEmailTemplate,
   getNewApplicationNotificationTemplate,
-  getScoringCompleteEmailTemplate 
+  getScoringCompleteEmailTemplate,
+  getMaintenanceRequestEmailTemplate,
+  getMaintenanceUpdateEmailTemplate,
+  getTourConfirmationEmailTemplate,
+  getTourReminderEmailTemplate,
+  getTourCancelledEmailTemplate,
+  getDisputeUpdateEmailTemplate,
+  getLeaseUpdateEmailTemplate,
+  getDocumentReviewEmailTemplate,
+  getNotificationDigestEmailTemplate,
+  getRentOverdueEmailTemplate,
+  getBackgroundCheckEmailTemplate,
+  getSavedSearchAlertEmailTemplate,
+  getRequirementMatchEmailTemplate,
+  getMatchingRenterEmailTemplate,
+  getManagerInvitationEmailTemplate,
+  getManagerAssignmentEmailTemplate,
+  getNewMessageEmailTemplate,
+  getLeadTasksDueEmailTemplate,
+  getAgentInquiryEmailTemplate,
 } from "./email";
-import type { ApplicationStatus } from "@shared/schema";
+import { sendPushToUser } from "./push";
+import { OPEN_APPLICATION_STATUSES, type ApplicationStatus, type NotificationFrequency } from "@shared/schema";
 
 // Notification types
 export type NotificationType = 
@@ -25,15 +48,36 @@ export type NotificationType =
   | "expiration_warning"
   | "document_request"
   | "new_application"
+  | "application_received"
+  | "application_approved"
+  | "co_applicant_invitation"
   | "scoring_complete"
   | "reminder"
   | "payment_received"
   | "payment_verified"
   | "payment_failed"
   | "lease_signature_complete"
+  | "lease_update"
   | "price_drop"
   | "deposit_required"
-  | "rent_due_soon";
+  | "rent_due_soon"
+  | "rent_overdue"
+  | "maintenance_request"
+  | "maintenance_update"
+  | "tour_confirmed"
+  | "tour_reminder"
+  | "tour_cancelled"
+  | "dispute_update"
+  | "document_review"
+  | "screening_initiated"
+  | "saved_search_alert"
+  | "requirement_match"
+  | "matching_renter"
+  | "manager_invitation"
+  | "manager_assignment"
+  | "new_message"
+  | "lead_task_due"
+  | "new_inquiry";
 
 interface NotificationRecord {
   applicationId: string;
@@ -42,22 +86,26 @@ interface NotificationRecord {
   subject: string;
   content: string;
   metadata?: Record<string, any>;
+  channel?: "email" | "in_app";
+  status?: "pending" | "queued" | "sent";
 }
 
 // Create notification record in database
 async function createNotificationRecord(record: NotificationRecord): Promise<string | null> {
   try {
+    const status = record.status || "pending";
     const { data, error } = await getSupabase()
       .from("application_notifications")
       .insert([{
-        application_id: record.applicationId,
+        application_id: record.applicationId || null,
         user_id: record.userId,
         notification_type: record.type,
-        channel: "email",
+        channel: record.channel || "email",
         subject: record.subject,
         content: record.content,
         metadata: record.metadata,
-        status: "pending",
+        status,
+        sent_at: status === "sent" ? new Date().toISOString() : null,
       }])
       .select("id")
       .single();
@@ -95,6 +143,241 @@ async function updateNotificationStatus(
   }
 }
 
+export interface NotificationPreferenceSettings {
+  email_new_applications: boolean;
+  email_status_updates: boolean;
+  email_property_saved: boolean;
+  email_lease_reminders: boolean;
+  in_app_notifications: boolean;
+  push_notifications: boolean;
+  notification_frequency: NotificationFrequency;
+}
+
+// Matches the column defaults on user_notification_preferences, used until a user saves their own
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferenceSettings = {
+  email_new_applications: true,
+  email_status_updates: true,
+  email_property_saved: true,
+  email_lease_reminders: true,
+  in_app_notifications: true,
+  push_notifications: false,
+  notification_frequency: "instant",
+};
+
+type EmailPreferenceKey =
+  | "email_new_applications"
+  | "email_status_updates"
+  | "email_property_saved"
+  | "email_lease_reminders";
+
+// Email toggle that governs each notification type. Types without an entry
+// (payments, tours) are transactional and always emailed.
+const EMAIL_PREFERENCE_BY_TYPE: Partial<Record<NotificationType, EmailPreferenceKey>> = {
+  new_application: "email_new_applications",
+  new_inquiry: "email_new_applications",
+  scoring_complete: "email_new_applications",
+  maintenance_request: "email_new_applications",
+  status_change: "email_status_updates",
+  document_request: "email_status_updates",
+  document_review: "email_status_updates",
+  screening_initiated: "email_status_updates",
+  expiration_warning: "email_status_updates",
+  maintenance_update: "email_status_updates",
+  dispute_update: "email_status_updates",
+  price_drop: "email_property_saved",
+  saved_search_alert: "email_property_saved",
+  requirement_match: "email_property_saved",
+  matching_renter: "email_new_applications",
+  lease_signature_complete: "email_lease_reminders",
+  lease_update: "email_lease_reminders",
+  deposit_required: "email_lease_reminders",
+  rent_due_soon: "email_lease_reminders",
+  rent_overdue: "email_lease_reminders",
+};
+
+// Time-sensitive types are emailed immediately even for users on a digest schedule
+const URGENT_NOTIFICATION_TYPES = new Set<NotificationType>([
+  "application_received",
+  "application_approved",
+  "co_applicant_invitation",
+  "expiration_warning",
+  "document_request",
+  "payment_failed",
+  "deposit_required",
+  "rent_due_soon",
+  "rent_overdue",
+  "tour_confirmed",
+  "tour_reminder",
+  "tour_cancelled",
+]);
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferenceSettings> {
+  try {
+    const { data } = await getSupabase()
+      .from("user_notification_preferences")
+      .select("email_new_applications, email_status_updates, email_property_saved, email_lease_reminders, in_app_notifications, push_notifications, notification_frequency")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!data) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+    // Null columns fall back to the default rather than disabling the channel
+    const merged = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== null && value !== undefined) (merged as any)[key] = value;
+    }
+    return merged;
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to load preferences:", err);
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+// Central dispatch: every sender goes through here so the recipient's channel
+// toggles and digest frequency are honored. Guests without an account only
+// get the email. Returns false only when a delivery attempt failed.
+async function deliverNotification(
+  recipient: { id?: string | null; email: string },
+  record: Omit<NotificationRecord, "userId" | "channel" | "status">,
+  options: { urgent?: boolean; push?: { body: string; url?: string } } = {}
+): Promise<boolean> {
+  if (!recipient.id) {
+    const result = await sendEmail({ to: recipient.email, subject: record.subject, html: record.content });
+    return result.success;
+  }
+
+  const preferences = await getNotificationPreferences(recipient.id);
+
+  // Push is sent alongside the other channels and never delayed by digests
+  if (options.push && preferences.push_notifications) {
+    sendPushToUser(recipient.id, {
+      title: record.subject,
+      body: options.push.body,
+      url: options.push.url,
+      tag: record.type,
+      urgent: options.urgent || URGENT_NOTIFICATION_TYPES.has(record.type),
+    }).catch((err) => console.error("[NOTIFICATION] Push delivery failed:", err));
+  }
+  const emailKey = EMAIL_PREFERENCE_BY_TYPE[record.type];
+  const emailEnabled = !emailKey || preferences[emailKey];
+
+  if (!emailEnabled) {
+    if (!preferences.in_app_notifications) return true;
+    const notificationId = await createNotificationRecord({
+      ...record,
+      userId: recipient.id,
+      channel: "in_app",
+      status: "sent",
+    });
+    return !!notificationId;
+  }
+
+  const frequency = preferences.notification_frequency;
+  if (frequency !== "instant" && !options.urgent && !URGENT_NOTIFICATION_TYPES.has(record.type)) {
+    const notificationId = await createNotificationRecord({
+      ...record,
+      userId: recipient.id,
+      status: "queued",
+      metadata: { ...record.metadata, digest: frequency },
+    });
+    return !!notificationId;
+  }
+
+  const notificationId = await createNotificationRecord({ ...record, userId: recipient.id });
+  const result = await sendEmail({ to: recipient.email, subject: record.subject, html: record.content });
+
+  if (notificationId) {
+    await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
+  }
+
+  return result.success;
+}
+
+const DIGEST_PAGE_SIZE = 1000;
+
+// Email one summary per user of the notifications queued for their digest.
+// Users who switched back to instant are flushed on the daily run.
+export async function sendNotificationDigests(frequency: "daily" | "weekly"): Promise<number> {
+  // Every cadence shares the queue, so it is read in full; a single page could
+  // be taken up entirely by rows waiting for the other cadence
+  const queued: any[] = [];
+  for (let offset = 0; ; offset += DIGEST_PAGE_SIZE) {
+    const { data, error } = await getSupabase()
+      .from("application_notifications")
+      .select("id, user_id, subject, created_at, users(id, email, full_name)")
+      .eq("status", "queued")
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + DIGEST_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("[NOTIFICATION] Failed to read the digest queue:", error);
+      throw error;
+    }
+    queued.push(...(data || []));
+    if (!data || data.length < DIGEST_PAGE_SIZE) break;
+  }
+
+  const byUser = new Map<string, any[]>();
+  for (const notification of queued) {
+    const list = byUser.get(notification.user_id) || [];
+    list.push(notification);
+    byUser.set(notification.user_id, list);
+  }
+
+  let digestsSent = 0;
+  let digestsFailed = 0;
+
+  for (const [userId, notifications] of Array.from(byUser.entries())) {
+    const user = notifications[0].users as any;
+    if (!user?.email) continue;
+
+    // One user's failure must not hold back everyone else's digest
+    try {
+      const preferences = await getNotificationPreferences(userId);
+      const due = preferences.notification_frequency === frequency
+        || (frequency === "daily" && preferences.notification_frequency === "instant");
+      if (!due) continue;
+
+      const subject = `Your ${frequency} summary: ${notifications.length} update${notifications.length !== 1 ? "s" : ""}`;
+      const content = getNotificationDigestEmailTemplate({
+        recipientName: user.full_name || "there",
+        frequency,
+        items: notifications.map((n) => ({
+          subject: n.subject || "Notification",
+          createdAt: new Date(n.created_at).toLocaleDateString(),
+        })),
+      });
+
+      const result = await sendEmail({ to: user.email, subject, html: content });
+
+      // Failed digests stay queued and are retried on the next run
+      if (!result.success) {
+        digestsFailed++;
+        continue;
+      }
+
+      const { error } = await getSupabase()
+        .from("application_notifications")
+        .update({ status: "sent", sent_at: new Date().toISOString() })
+        .in("id", notifications.map((n) => n.id));
+
+      if (error) throw error;
+      digestsSent++;
+    } catch (err) {
+      console.error(`[NOTIFICATION] Failed to send ${frequency} digest to user ${userId}:`, err);
+      digestsFailed++;
+    }
+  }
+
+  // Sent digests are already marked, so failing the run only retries the rest
+  if (digestsFailed > 0) {
+    throw new Error(`${digestsFailed} ${frequency} digest(s) failed; ${digestsSent} sent`);
+  }
+
+  return digestsSent;
+}
+
 // Send application status change notification
 export async function sendStatusChangeNotification(
   applicationId: string,
@@ -152,10 +435,8 @@ export async function sendStatusChangeNotification(
       targetStep = stepMap[newStatus];
     }
 
-    // Create notification record with metadata for deep-linking
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(user, {
       applicationId,
-      userId: user.id,
       type: "status_change",
       subject,
       content,
@@ -164,24 +445,12 @@ export async function sendStatusChangeNotification(
         targetStep,
         actionRequired: options?.actionRequired || (newStatus === 'info_requested' ? 'Upload requested documents' : undefined)
       }
+    }, {
+      push: {
+        body: `Your application for ${property?.title || "your property"} is now ${newStatus.replace(/_/g, " ")}.`,
+        url: `/applications/${applicationId}`,
+      },
     });
-
-    // Send email
-    const result = await sendEmail({
-      to: user.email,
-      subject,
-      html: content,
-    });
-
-    // Update status
-    if (notificationId) {
-      await updateNotificationStatus(
-        notificationId,
-        result.success ? "sent" : "failed"
-      );
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to send status change:", err);
     return false;
@@ -201,6 +470,7 @@ function getStatusSubject(status: ApplicationStatus): string {
     approved: "Congratulations! Application Approved",
     rejected: "Application Status Update",
     withdrawn: "Application Withdrawn",
+    expired: "Application Expired",
   };
   return subjects[status] || "Application Status Update";
 }
@@ -236,21 +506,12 @@ export async function sendExpirationWarningNotification(
       daysRemaining,
     });
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(user, {
       applicationId,
-      userId: user.id,
       type: "expiration_warning",
       subject,
       content,
     });
-
-    const result = await sendEmail({ to: user.email, subject, html: content });
-
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to send expiration warning:", err);
     return false;
@@ -288,23 +549,125 @@ export async function sendDocumentRequestNotification(
       requiredDocuments,
     });
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(user, {
       applicationId,
-      userId: user.id,
       type: "document_request",
       subject,
       content,
     });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send document request:", err);
+    return false;
+  }
+}
 
-    const result = await sendEmail({ to: user.email, subject, html: content });
+// Confirm to the applicant (or guest) that their application arrived
+export async function sendApplicationReceivedNotification(
+  applicationId: string,
+  recipient: { id?: string | null; email: string; full_name?: string | null },
+  propertyTitle: string
+): Promise<boolean> {
+  try {
+    const content = getApplicationConfirmationEmailTemplate({
+      applicantName: recipient.full_name || "Applicant",
+      propertyTitle,
+    });
 
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
-    }
+    return await deliverNotification(recipient, {
+      applicationId,
+      type: "application_received",
+      subject: "Your Application Has Been Received",
+      content,
+    }, {
+      push: {
+        body: `We received your application for ${propertyTitle}.`,
+        url: `/applications/${applicationId}`,
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send application confirmation:", err);
+    return false;
+  }
+}
 
-    return result.success;
+// Approval letter with the landlord's contact details for next steps
+export async function sendApplicationApprovedNotification(
+  recipient: { id?: string | null; email: string; full_name?: string | null },
+  approval: {
+    applicationId: string;
+    propertyTitle: string;
+    propertyAddress: string;
+    monthlyRent?: number;
+    applicationFee?: number;
+    landlord?: { full_name?: string | null; email?: string | null; phone?: string | null } | null;
+  }
+): Promise<boolean> {
+  try {
+    const content = getApprovalConfirmationEmailTemplate({
+      applicantName: recipient.full_name || "Applicant",
+      propertyTitle: approval.propertyTitle,
+      propertyAddress: approval.propertyAddress,
+      applicationId: approval.applicationId,
+      applicationFee: approval.applicationFee,
+      paymentDate: new Date().toLocaleDateString(),
+      monthlyRent: approval.monthlyRent,
+      landlordName: approval.landlord?.full_name ?? undefined,
+      landlordEmail: approval.landlord?.email ?? undefined,
+      landlordPhone: approval.landlord?.phone ?? undefined,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: approval.applicationId,
+      type: "application_approved",
+      subject: `Congratulations! Your Application for ${approval.propertyTitle} Has Been Approved`,
+      content,
+    }, {
+      push: {
+        body: `Your application for ${approval.propertyTitle} was approved.`,
+        url: `/applications/${approval.applicationId}`,
+      },
+    });
   } catch (err) {
-    console.error("[NOTIFICATION] Failed to send document request:", err);
+    console.error("[NOTIFICATION] Failed to send approval confirmation:", err);
+    return false;
+  }
+}
+
+// Invite a co-applicant by email; if they already have an account their preferences apply
+export async function sendCoApplicantInvitationNotification(
+  applicationId: string,
+  coApplicant: { email: string; fullName: string },
+  mainApplicantName: string,
+  propertyTitle?: string | null
+): Promise<boolean> {
+  try {
+    const { data: existingUser } = await getSupabase()
+      .from("users")
+      .select("id")
+      .eq("email", coApplicant.email.toLowerCase())
+      .maybeSingle();
+
+    const appUrl = process.env.PUBLIC_URL || "https://choice-properties.replit.dev";
+    const content = getCoApplicantInvitationEmailTemplate({
+      coApplicantName: coApplicant.fullName,
+      mainApplicantName,
+      propertyTitle: propertyTitle || "the property",
+      invitationLink: `${appUrl}/applications/${applicationId}`,
+    });
+
+    return await deliverNotification({ id: existingUser?.id ?? null, email: coApplicant.email }, {
+      applicationId,
+      type: "co_applicant_invitation",
+      subject: `You've Been Invited as a Co-Applicant - ${propertyTitle || "Choice Properties"}`,
+      content,
+    }, {
+      push: {
+        body: `${mainApplicantName} invited you to join their application${propertyTitle ? ` for ${propertyTitle}` : ""}.`,
+        url: `/applications/${applicationId}`,
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send co-applicant invitation:", err);
     return false;
   }
 }
@@ -348,21 +711,17 @@ export async function notifyOwnerOfNewApplication(
       applicationId,
     });
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(owner, {
       applicationId,
-      userId: owner.id,
       type: "new_application",
       subject,
       content,
+    }, {
+      push: {
+        body: `${applicant?.full_name || "An applicant"} applied for ${property.title}.`,
+        url: `/applications/${applicationId}`,
+      },
     });
-
-    const result = await sendEmail({ to: owner.email, subject, html: content });
-
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to notify owner:", err);
     return false;
@@ -410,21 +769,12 @@ export async function notifyOwnerOfScoringComplete(
       maxScore,
     });
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(owner, {
       applicationId,
-      userId: owner.id,
       type: "scoring_complete",
       subject,
       content,
     });
-
-    const result = await sendEmail({ to: owner.email, subject, html: content });
-
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to notify scoring complete:", err);
     return false;
@@ -475,30 +825,17 @@ export async function sendPaymentReceivedNotification(
       <p>Best regards,<br>Choice Properties</p>
     `;
 
-    // Create notification record
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(landlord, {
       applicationId: "", // Payment notifications not tied to applications
-      userId: landlord.id,
       type: "payment_received",
       subject,
       content,
+    }, {
+      push: {
+        body: `${tenantName} marked a ${paymentType} payment of $${amount} as paid. Verify it in your portal.`,
+        url: "/landlord-payments-verification",
+      },
     });
-
-    // Send in-app + email notification for landlords
-    const result = await sendEmail({
-      to: landlord.email,
-      subject,
-      html: content
-    });
-
-    if (notificationId) {
-      await updateNotificationStatus(
-        notificationId,
-        result.success ? "sent" : "failed"
-      );
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to send payment received:", err);
     return false;
@@ -540,22 +877,17 @@ export async function sendPaymentVerifiedNotification(
       <p>Best regards,<br>Choice Properties</p>
     `;
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(tenant, {
       applicationId: "",
-      userId: tenant.id,
       type: "payment_verified",
       subject,
       content,
+    }, {
+      push: {
+        body: `Your ${paymentType} payment of $${amount} has been verified.`,
+        url: "/tenant-payments",
+      },
     });
-
-    // Send in-app + email notification
-    const result = await sendEmail({ to: tenant.email, subject, html: content });
-
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to send payment verified:", err);
     return false;
@@ -597,21 +929,17 @@ export async function sendDepositRequiredNotification(
       <p>Best regards,<br>Choice Properties</p>
     `;
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(tenant, {
       applicationId: "",
-      userId: tenant.id,
       type: "deposit_required",
       subject,
       content,
+    }, {
+      push: {
+        body: `A security deposit of $${depositAmount} is due for ${propertyTitle}.`,
+        url: "/tenant-payments",
+      },
     });
-
-    const result = await sendEmail({ to: tenant.email, subject, html: content });
-
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to send deposit required:", err);
     return false;
@@ -653,24 +981,95 @@ export async function sendRentDueSoonNotification(
       <p>Best regards,<br>Choice Properties</p>
     `;
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(tenant, {
       applicationId: "",
-      userId: tenant.id,
       type: "rent_due_soon",
       subject,
       content,
+    }, {
+      push: {
+        body: `Your rent payment of $${rentAmount} is due on ${dueDate}.`,
+        url: "/tenant-payments",
+      },
     });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send rent due soon:", err);
+    return false;
+  }
+}
 
-    // In-app + email for payment reminders
-    const result = await sendEmail({ to: tenant.email, subject, html: content });
+// Send an overdue rent reminder; the final level also alerts the landlord
+export async function sendRentOverdueNotification(
+  paymentId: string,
+  level: number,
+  lateFeeAmount?: string | null
+): Promise<boolean> {
+  try {
+    const { data: payment } = await getSupabase()
+      .from("payments")
+      .select(`
+        id, amount, due_date,
+        tenant:users!payments_tenant_id_fkey(id, email, full_name),
+        leases(id, landlord_id, properties(title))
+      `)
+      .eq("id", paymentId)
+      .single();
+
+    if (!payment) return false;
 
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
+    const tenant = payment.tenant as any;
+    const lease = payment.leases as any;
+    if (!tenant?.email) return false;
+
+    const dueDate = new Date(payment.due_date);
+    const daysOverdue = Math.max(1, Math.floor((Date.now() - dueDate.getTime()) / (24 * 60 * 60 * 1000)));
+    const details = {
+      propertyTitle: lease?.properties?.title || "your rental",
+      amount: parseFloat(payment.amount).toFixed(2),
+      dueDate: dueDate.toLocaleDateString(),
+      daysOverdue,
+      level,
+    };
+
+    const sent = await deliverNotification(tenant, {
+      applicationId: "",
+      type: "rent_overdue",
+      subject: level >= 3 ? "Final Notice: Rent Payment Overdue" : `Rent Overdue: ${details.propertyTitle}`,
+      content: getRentOverdueEmailTemplate({ recipientName: tenant.full_name || "there", lateFee: lateFeeAmount, ...details }),
+      metadata: { paymentId, level },
+    }, {
+      push: {
+        body: `Your rent of $${details.amount} for ${details.propertyTitle} is ${daysOverdue} day${daysOverdue !== 1 ? "s" : ""} overdue.`,
+        url: "/tenant-payments",
+      },
+    });
+
+    if (level >= 3 && lease?.landlord_id) {
+      const { data: landlord } = await getSupabase()
+        .from("users")
+        .select("id, email, full_name")
+        .eq("id", lease.landlord_id)
+        .single();
+
+      if (landlord?.email) {
+        await deliverNotification(landlord, {
+          applicationId: "",
+          type: "rent_overdue",
+          subject: `Rent Overdue: ${details.propertyTitle}`,
+          content: getRentOverdueEmailTemplate({ recipientName: landlord.full_name || "there", forLandlord: true, ...details }),
+          metadata: { paymentId, level },
+        }, {
+          push: {
+            body: `Rent of $${details.amount} for ${details.propertyTitle} is ${daysOverdue} days overdue.`,
+            url: "/landlord-payment-history",
+          },
+        });
+      }
     }
 
-    return result.success;
+    return sent;
   } catch (err) {
-    console.error("[NOTIFICATION] Failed to send rent due soon:", err);
+    console.error("[NOTIFICATION] Failed to send rent overdue:", err);
     return false;
   }
 }
@@ -700,21 +1099,17 @@ export async function sendPaymentFailureNotification(
       <p>Best regards,<br>Choice Properties</p>
     `;
 
-    const notificationId = await createNotificationRecord({
+    return await deliverNotification(user, {
       applicationId: "",
-      userId: user.id,
       type: "payment_failed",
       subject,
       content,
+    }, {
+      push: {
+        body: `Your ${paymentType} payment of $${amount} failed: ${reason}`,
+        url: "/tenant-payments",
+      },
     });
-
-    const result = await sendEmail({ to: user.email, subject, html: content });
-
-    if (notificationId) {
-      await updateNotificationStatus(notificationId, result.success ? "sent" : "failed");
-    }
-
-    return result.success;
   } catch (err) {
     console.error("[NOTIFICATION] Failed to send payment failure:", err);
     return false;
@@ -754,14 +1149,17 @@ export async function sendLeaseSignatureCompleteNotification(
       <p>Best regards,<br>Choice Properties</p>
     `;
 
-    await createNotificationRecord({
+    await deliverNotification(tenant, {
       applicationId,
-      userId: tenant.id,
       type: "lease_signature_complete",
       subject: tenantSubject,
       content: tenantContent,
+    }, {
+      push: {
+        body: `Your lease for ${propertyTitle} is fully signed.`,
+        url: "/tenant-lease-dashboard",
+      },
     });
-    await sendEmail({ to: tenant.email, subject: tenantSubject, html: tenantContent });
 
     // Notify Owner
     if (property?.owner_id) {
@@ -779,14 +1177,17 @@ export async function sendLeaseSignatureCompleteNotification(
           <p>Best regards,<br>Choice Properties</p>
         `;
 
-        await createNotificationRecord({
+        await deliverNotification(owner, {
           applicationId,
-          userId: owner.id,
           type: "lease_signature_complete",
           subject: ownerSubject,
           content: ownerContent,
+        }, {
+          push: {
+            body: `The lease for ${propertyTitle} has been signed by all parties.`,
+            url: "/landlord-lease-dashboard",
+          },
         });
-        await sendEmail({ to: owner.email, subject: ownerSubject, html: ownerContent });
       }
     }
 
@@ -833,14 +1234,12 @@ export async function sendPriceDropNotification(
         <p>Best regards,<br>Choice Properties</p>
       `;
 
-      await createNotificationRecord({
+      await deliverNotification(user, {
         applicationId: "",
-        userId: user.id,
         type: "price_drop",
         subject,
         content,
       });
-      await sendEmail({ to: user.email, subject, html: content });
     }
 
     return true;
@@ -871,7 +1270,7 @@ export async function checkAndSendExpirationWarnings(): Promise<number> {
         .select("id")
         .gte("expires_at", startOfDay.toISOString())
         .lte("expires_at", endOfDay.toISOString())
-        .in("status", ["pending", "under_review", "pending_verification"]);
+        .in("status", [...OPEN_APPLICATION_STATUSES]);
 
       if (expiringApps) {
         for (const app of expiringApps) {
@@ -899,3 +1298,797 @@ export async function checkAndSendExpirationWarnings(): Promise<number> {
   }
 }
 
+
+// Notify landlord (and assigned managers) of a new maintenance request
+export async function notifyLandlordOfMaintenanceRequest(requestId: string): Promise<boolean> {
+  try {
+    const { data: request } = await getSupabase()
+      .from("maintenance_requests")
+      .select(`
+        id, title, description, category, urgency, entry_permission, landlord_id, property_id,
+        properties(id, title),
+        tenant:users!maintenance_requests_tenant_id_fkey(id, full_name)
+      `)
+      .eq("id", requestId)
+      .single();
+
+    if (!request) return false;
+
+    const property = request.properties as any;
+    const tenant = request.tenant as any;
+
+    const { data: assignments } = await getSupabase()
+      .from("property_manager_assignments")
+      .select("property_manager_id, permissions")
+      .eq("property_id", request.property_id)
+      .is("revoked_at", null);
+
+    const recipientIds = new Set<string>();
+    if (request.landlord_id) recipientIds.add(request.landlord_id);
+    for (const assignment of assignments || []) {
+      const permissions = (assignment as any).permissions as string[] | null;
+      if (!permissions || permissions.includes("manage_maintenance")) {
+        recipientIds.add((assignment as any).property_manager_id);
+      }
+    }
+
+    if (recipientIds.size === 0) return false;
+
+    const { data: recipients } = await getSupabase()
+      .from("users")
+      .select("id, email, full_name")
+      .in("id", Array.from(recipientIds));
+
+    const subject = request.urgency === "emergency"
+      ? `EMERGENCY Maintenance: ${request.title}`
+      : `New Maintenance Request: ${request.title}`;
+
+    for (const recipient of recipients || []) {
+      if (!recipient.email) continue;
+
+      const content = getMaintenanceRequestEmailTemplate({
+        recipientName: recipient.full_name || "Property Manager",
+        tenantName: tenant?.full_name || "Your tenant",
+        propertyTitle: property?.title || "your property",
+        title: request.title,
+        category: request.category,
+        urgency: request.urgency || "normal",
+        description: request.description,
+        entryPermission: !!request.entry_permission,
+      });
+
+      await deliverNotification(recipient, {
+        applicationId: "",
+        type: "maintenance_request",
+        subject,
+        content,
+        metadata: { maintenanceRequestId: requestId },
+      }, { urgent: request.urgency === "emergency" });
+    }
+
+    return true;
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to notify maintenance request:", err);
+    return false;
+  }
+}
+
+// Send maintenance request update (status change, scheduling, comments)
+export async function sendMaintenanceUpdateNotification(
+  requestId: string,
+  recipientId: string,
+  headline: string,
+  detail?: string
+): Promise<boolean> {
+  try {
+    const { data: request } = await getSupabase()
+      .from("maintenance_requests")
+      .select("id, title, properties(id, title)")
+      .eq("id", requestId)
+      .single();
+
+    if (!request) return false;
+
+    const { data: recipient } = await getSupabase()
+      .from("users")
+      .select("id, email, full_name")
+      .eq("id", recipientId)
+      .single();
+
+    if (!recipient?.email) return false;
+
+    const property = request.properties as any;
+    const subject = `Maintenance Update: ${request.title}`;
+    const content = getMaintenanceUpdateEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      propertyTitle: property?.title || "your property",
+      title: request.title,
+      headline,
+      detail,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: "",
+      type: "maintenance_update",
+      subject,
+      content,
+      metadata: { maintenanceRequestId: requestId },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send maintenance update:", err);
+    return false;
+  }
+}
+
+// Format a tour start time in the timezone the host published availability in
+function formatTourTime(startsAt: string, timezone?: string | null): string {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  };
+  try {
+    return new Date(startsAt).toLocaleString("en-US", { ...options, timeZone: timezone || "UTC" });
+  } catch {
+    return new Date(startsAt).toLocaleString("en-US", { ...options, timeZone: "UTC" });
+  }
+}
+
+async function getTourBookingWithParticipants(bookingId: string): Promise<any | null> {
+  const { data: booking } = await getSupabase()
+    .from("tour_bookings")
+    .select("*, properties(id, title, address, city, state), host:users!tour_bookings_host_id_fkey(id, email, full_name)")
+    .eq("id", bookingId)
+    .single();
+
+  return booking || null;
+}
+
+// Send a tour notice to one recipient; guests without an account only get the email
+async function deliverTourEmail(
+  recipient: { id?: string | null; email: string },
+  type: NotificationType,
+  subject: string,
+  content: string,
+  bookingId: string
+): Promise<boolean> {
+  return deliverNotification(recipient, {
+    applicationId: "",
+    type,
+    subject,
+    content,
+    metadata: { tourBookingId: bookingId },
+  });
+}
+
+// Confirm a new tour booking to the renter and the host
+export async function sendTourConfirmationNotification(bookingId: string): Promise<boolean> {
+  try {
+    const booking = await getTourBookingWithParticipants(bookingId);
+    if (!booking) return false;
+
+    const property = booking.properties as any;
+    const host = booking.host as any;
+    const when = formatTourTime(booking.starts_at, booking.timezone);
+    const address = [property?.address, property?.city, property?.state].filter(Boolean).join(", ");
+
+    const renterSent = await deliverTourEmail(
+      { id: booking.renter_id, email: booking.email },
+      "tour_confirmed",
+      `Tour Confirmed: ${property?.title || "Property"}`,
+      getTourConfirmationEmailTemplate({
+        recipientName: booking.name,
+        propertyTitle: property?.title || "the property",
+        propertyAddress: address,
+        when,
+        tourType: booking.tour_type,
+        meetingUrl: booking.meeting_url,
+      }),
+      bookingId
+    );
+
+    if (host?.email) {
+      await deliverTourEmail(
+        { id: host.id, email: host.email },
+        "tour_confirmed",
+        `New Tour Booked: ${property?.title || "Property"}`,
+        getTourConfirmationEmailTemplate({
+          recipientName: host.full_name || "there",
+          propertyTitle: property?.title || "your property",
+          propertyAddress: address,
+          when,
+          tourType: booking.tour_type,
+          meetingUrl: booking.meeting_url,
+          forHost: true,
+          guestName: booking.name,
+          guestEmail: booking.email,
+          guestPhone: booking.phone,
+          message: booking.message,
+        }),
+        bookingId
+      );
+    }
+
+    return renterSent;
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send tour confirmation:", err);
+    return false;
+  }
+}
+
+// Tell the other party that a tour was cancelled
+export async function sendTourCancelledNotification(bookingId: string, cancelledByHost: boolean): Promise<boolean> {
+  try {
+    const booking = await getTourBookingWithParticipants(bookingId);
+    if (!booking) return false;
+
+    const property = booking.properties as any;
+    const host = booking.host as any;
+    const recipient = cancelledByHost
+      ? { id: booking.renter_id, email: booking.email, name: booking.name }
+      : { id: host?.id, email: host?.email, name: host?.full_name || "there" };
+
+    if (!recipient.email) return false;
+
+    return await deliverTourEmail(
+      { id: recipient.id, email: recipient.email },
+      "tour_cancelled",
+      `Tour Cancelled: ${property?.title || "Property"}`,
+      getTourCancelledEmailTemplate({
+        recipientName: recipient.name,
+        propertyTitle: property?.title || "the property",
+        when: formatTourTime(booking.starts_at, booking.timezone),
+        reason: booking.cancellation_reason,
+      }),
+      bookingId
+    );
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send tour cancellation:", err);
+    return false;
+  }
+}
+
+// Remind renters and hosts of tours starting within the next 24 hours
+export async function checkAndSendTourReminders(): Promise<number> {
+  try {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+    const { data: upcoming } = await getSupabase()
+      .from("tour_bookings")
+      .select("id")
+      .eq("status", "confirmed")
+      .is("reminder_sent_at", null)
+      .gte("starts_at", now.toISOString())
+      .lte("starts_at", windowEnd.toISOString());
+
+    let totalSent = 0;
+
+    for (const { id } of upcoming || []) {
+      const booking = await getTourBookingWithParticipants(id);
+      if (!booking) continue;
+
+      const property = booking.properties as any;
+      const host = booking.host as any;
+      const reminder = {
+        propertyTitle: property?.title || "the property",
+        propertyAddress: [property?.address, property?.city, property?.state].filter(Boolean).join(", "),
+        when: formatTourTime(booking.starts_at, booking.timezone),
+        tourType: booking.tour_type,
+        meetingUrl: booking.meeting_url,
+      };
+      const subject = `Tour Reminder: ${reminder.propertyTitle}`;
+
+      const sent = await deliverTourEmail(
+        { id: booking.renter_id, email: booking.email },
+        "tour_reminder",
+        subject,
+        getTourReminderEmailTemplate({ recipientName: booking.name, ...reminder }),
+        id
+      );
+
+      if (host?.email) {
+        await deliverTourEmail(
+          { id: host.id, email: host.email },
+          "tour_reminder",
+          subject,
+          getTourReminderEmailTemplate({ recipientName: host.full_name || "there", ...reminder }),
+          id
+        );
+      }
+
+      await getSupabase()
+        .from("tour_bookings")
+        .update({ reminder_sent_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (sent) totalSent++;
+    }
+
+    return totalSent;
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send tour reminders:", err);
+    return 0;
+  }
+}
+
+// Notify a dispute participant (party or assigned admin) of activity on the dispute
+export async function sendDisputeUpdateNotification(
+  disputeId: string,
+  recipientId: string,
+  headline: string,
+  detail?: string
+): Promise<boolean> {
+  try {
+    const { data: dispute } = await getSupabase()
+      .from("disputes")
+      .select("id, subject, application_id, properties(id, title)")
+      .eq("id", disputeId)
+      .single();
+
+    if (!dispute) return false;
+
+    const { data: recipient } = await getSupabase()
+      .from("users")
+      .select("id, email, full_name")
+      .eq("id", recipientId)
+      .single();
+
+    if (!recipient?.email) return false;
+
+    const subject = `Dispute Update: ${dispute.subject}`;
+    const content = getDisputeUpdateEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      subject: dispute.subject,
+      propertyTitle: (dispute.properties as any)?.title,
+      headline,
+      detail: detail && detail.length > 500 ? `${detail.slice(0, 500)}...` : detail,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: dispute.application_id || "",
+      type: "dispute_update",
+      subject,
+      content,
+      metadata: { disputeId },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send dispute update:", err);
+    return false;
+  }
+}
+
+// Tell one side of a lease about a renewal offer, a response or a notice to vacate
+export async function sendLeaseUpdateNotification(
+  leaseId: string,
+  recipientId: string,
+  headline: string,
+  detail?: string
+): Promise<boolean> {
+  try {
+    const { data: lease } = await getSupabase()
+      .from("leases")
+      .select("id, tenant_id, application_id, properties(id, title)")
+      .eq("id", leaseId)
+      .single();
+
+    if (!lease) return false;
+
+    const { data: recipient } = await getSupabase()
+      .from("users")
+      .select("id, email, full_name")
+      .eq("id", recipientId)
+      .single();
+
+    if (!recipient?.email) return false;
+
+    const propertyTitle = (lease.properties as any)?.title;
+    const content = getLeaseUpdateEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      propertyTitle,
+      headline,
+      detail,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: lease.application_id || "",
+      type: "lease_update",
+      subject: propertyTitle ? `Lease Update: ${propertyTitle}` : "Lease Update",
+      content,
+      metadata: { leaseId },
+    }, {
+      push: {
+        body: headline,
+        url: recipient.id === lease.tenant_id ? "/tenant-payments" : "/landlord-lease-dashboard",
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send lease update:", err);
+    return false;
+  }
+}
+
+// Tell an applicant the outcome of a document review
+export async function sendDocumentReviewNotification(verificationId: string): Promise<boolean> {
+  try {
+    const { data: verification, error } = await getSupabase()
+      .from("document_verifications")
+      .select(`
+        id,
+        application_id,
+        document_type,
+        status,
+        rejection_reason,
+        expires_at,
+        users(id, email, full_name),
+        applications(id, properties(id, title))
+      `)
+      .eq("id", verificationId)
+      .single();
+
+    if (error || !verification) return false;
+
+    const user = verification.users as any;
+    const property = (verification.applications as any)?.properties;
+
+    if (!user?.email) return false;
+
+    const verified = verification.status === "verified";
+    const documentLabel = verification.document_type.replace(/_/g, " ");
+    const subject = verified ? "Your Document Has Been Verified" : "Action Needed: Document Rejected";
+    const content = getDocumentReviewEmailTemplate({
+      applicantName: user.full_name || "Applicant",
+      propertyTitle: property?.title || "your application",
+      documentLabel,
+      verified,
+      rejectionReason: verification.rejection_reason,
+      expiresAt: verification.expires_at ? new Date(verification.expires_at).toLocaleDateString() : null,
+    });
+
+    return await deliverNotification(user, {
+      applicationId: verification.application_id,
+      type: "document_review",
+      subject,
+      content,
+      metadata: { verificationId, status: verification.status },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send document review result:", err);
+    return false;
+  }
+}
+
+export async function sendScreeningInitiatedNotification(
+  applicationId: string,
+  screeningTypes: string[]
+): Promise<boolean> {
+  try {
+    const { data: application, error } = await getSupabase()
+      .from("applications")
+      .select("id, users(id, email, full_name), properties(id, title)")
+      .eq("id", applicationId)
+      .single();
+
+    if (error || !application) return false;
+
+    const user = application.users as any;
+    const property = application.properties as any;
+
+    if (!user?.email) return false;
+
+    const content = getBackgroundCheckEmailTemplate({
+      applicantName: user.full_name || "Applicant",
+      propertyTitle: property?.title || "your application",
+    });
+
+    return await deliverNotification(user, {
+      applicationId,
+      type: "screening_initiated",
+      subject: "Background Check Initiated",
+      content,
+      metadata: { screeningTypes },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send screening notice:", err);
+    return false;
+  }
+}
+
+// Send one alert per saved search listing its new matches. The search's own
+// cadence already batches matches, so this skips the user's digest schedule.
+export async function sendSavedSearchAlertNotification(
+  recipient: { id: string; email: string; full_name?: string | null },
+  search: { id: string; name: string; unsubscribeToken: string },
+  listings: { propertyId: string; title: string; address: string; price: string; previousPrice?: string | null }[]
+): Promise<boolean> {
+  try {
+    const appUrl = process.env.PUBLIC_URL || "https://choice-properties.replit.dev";
+    const subject = listings.length === 1
+      ? `New match for "${search.name}": ${listings[0].title}`
+      : `${listings.length} new matches for "${search.name}"`;
+
+    const content = getSavedSearchAlertEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      searchName: search.name,
+      listings: listings.map((listing) => ({ ...listing, url: `${appUrl}/property/${listing.propertyId}` })),
+      manageUrl: `${appUrl}/renter-dashboard`,
+      unsubscribeUrl: `${appUrl}/saved-searches/unsubscribe/${search.unsubscribeToken}`,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: "",
+      type: "saved_search_alert",
+      subject,
+      content,
+      metadata: { savedSearchId: search.id, propertyIds: listings.map((listing) => listing.propertyId) },
+    }, {
+      urgent: true,
+      push: {
+        body: listings.length === 1
+          ? `${listings[0].title} matches your saved search.`
+          : `${listings.length} listings match your saved search "${search.name}".`,
+        url: listings.length === 1 ? `/property/${listings[0].propertyId}` : "/renter-dashboard",
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send saved search alert:", err);
+    return false;
+  }
+}
+
+// Tell a renter which listings strongly match their stated requirements. Renters
+// who submitted the form without an account only get the email.
+export async function sendRequirementMatchNotification(
+  recipient: { id: string | null; email: string; full_name?: string | null },
+  listings: { propertyId: string; title: string; address: string; price: string; score: number }[]
+): Promise<boolean> {
+  try {
+    const appUrl = process.env.PUBLIC_URL || "https://choice-properties.replit.dev";
+    const subject = listings.length === 1
+      ? `A listing matches your requirements: ${listings[0].title}`
+      : `${listings.length} listings match your requirements`;
+
+    const content = getRequirementMatchEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      listings: listings.map((listing) => ({ ...listing, url: `${appUrl}/property/${listing.propertyId}` })),
+      manageUrl: `${appUrl}/renter-dashboard`,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: "",
+      type: "requirement_match",
+      subject,
+      content,
+      metadata: { propertyIds: listings.map((listing) => listing.propertyId) },
+    }, {
+      push: {
+        body: listings.length === 1
+          ? `${listings[0].title} is a ${listings[0].score}% match for what you're looking for.`
+          : `${listings.length} listings match what you're looking for.`,
+        url: listings.length === 1 ? `/property/${listings[0].propertyId}` : "/renter-dashboard",
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send requirement match:", err);
+    return false;
+  }
+}
+
+// Tell the landlord or listing agent about renters who strongly match a listing
+export async function sendMatchingRenterNotification(
+  recipient: { id: string; email: string; full_name?: string | null },
+  property: { id: string; title: string },
+  renters: { name: string; budgetMax: string | null; moveInDate: string | null; score: number }[]
+): Promise<boolean> {
+  try {
+    const appUrl = process.env.PUBLIC_URL || "https://choice-properties.replit.dev";
+    const subject = renters.length === 1
+      ? `A renter matches ${property.title}`
+      : `${renters.length} renters match ${property.title}`;
+
+    const content = getMatchingRenterEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      propertyTitle: property.title,
+      renters,
+      viewUrl: `${appUrl}/landlord-properties`,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: "",
+      type: "matching_renter",
+      subject,
+      content,
+      metadata: { propertyId: property.id, renterCount: renters.length },
+    }, {
+      push: {
+        body: `${renters.length} renter${renters.length !== 1 ? "s" : ""} looking for a home like ${property.title}.`,
+        url: "/landlord-properties",
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send matching renter notice:", err);
+    return false;
+  }
+}
+
+// Invite a property manager by email. Invitees without an account only get the email.
+export async function sendManagerInvitationNotification(
+  recipient: { id: string | null; email: string; full_name?: string | null },
+  invitation: { id: string; propertyId: string; propertyTitle: string; inviterName: string; permissions: string[]; expiresAt: string }
+): Promise<boolean> {
+  try {
+    const appUrl = process.env.PUBLIC_URL || "https://choice-properties.replit.dev";
+    const content = getManagerInvitationEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      inviterName: invitation.inviterName,
+      propertyTitle: invitation.propertyTitle,
+      permissions: invitation.permissions,
+      expiresAt: new Date(invitation.expiresAt).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" }),
+      acceptUrl: `${appUrl}/landlord-dashboard`,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: "",
+      type: "manager_invitation",
+      subject: `Invitation to manage ${invitation.propertyTitle}`,
+      content,
+      metadata: { invitationId: invitation.id, propertyId: invitation.propertyId },
+    }, {
+      push: {
+        body: `${invitation.inviterName} invited you to manage ${invitation.propertyTitle}.`,
+        url: "/landlord-dashboard",
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send manager invitation:", err);
+    return false;
+  }
+}
+
+// Tell an owner or manager that an assignment was accepted, changed or revoked
+export async function sendManagerAssignmentNotification(
+  recipientId: string,
+  property: { id: string; title: string },
+  headline: string,
+  detail?: string
+): Promise<boolean> {
+  try {
+    const { data: recipient } = await getSupabase()
+      .from("users")
+      .select("id, email, full_name")
+      .eq("id", recipientId)
+      .single();
+
+    if (!recipient?.email) return false;
+
+    const content = getManagerAssignmentEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      propertyTitle: property.title,
+      headline,
+      detail,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: "",
+      type: "manager_assignment",
+      subject: `Property Manager Update: ${property.title}`,
+      content,
+      metadata: { propertyId: property.id },
+    }, {
+      push: { body: headline, url: "/landlord-properties" },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send manager assignment update:", err);
+    return false;
+  }
+}
+
+// Email fallback for a message whose recipient has no live messaging connection
+export async function sendNewMessageNotification(
+  recipient: { id: string; email: string; full_name?: string | null },
+  message: {
+    conversationId: string;
+    senderName: string;
+    content: string;
+    attachmentCount: number;
+    propertyTitle?: string | null;
+  }
+): Promise<boolean> {
+  try {
+    const appUrl = process.env.PUBLIC_URL || "https://choice-properties.replit.dev";
+    const preview = message.content.length > 500 ? `${message.content.slice(0, 500)}…` : message.content;
+    const content = getNewMessageEmailTemplate({
+      recipientName: recipient.full_name || "there",
+      senderName: message.senderName,
+      preview,
+      attachmentCount: message.attachmentCount,
+      propertyTitle: message.propertyTitle,
+      conversationUrl: `${appUrl}/messages?conversation=${message.conversationId}`,
+    });
+
+    return await deliverNotification(recipient, {
+      applicationId: "",
+      type: "new_message",
+      subject: `New message from ${message.senderName}`,
+      content,
+      metadata: { conversationId: message.conversationId },
+    }, {
+      push: {
+        body: preview || `${message.senderName} sent you an attachment.`,
+        url: `/messages?conversation=${message.conversationId}`,
+      },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send new message notification:", err);
+    return false;
+  }
+}
+
+// One reminder per agent listing every lead follow-up that has come due
+export async function sendLeadTasksDueNotification(
+  agent: { id: string; email: string; full_name?: string | null },
+  tasks: Array<{ id: string; title: string; dueAt: string; leadName: string; propertyTitle?: string | null }>
+): Promise<boolean> {
+  try {
+    const appUrl = process.env.PUBLIC_URL || "https://choice-properties.replit.dev";
+    const content = getLeadTasksDueEmailTemplate({
+      agentName: agent.full_name || "there",
+      tasks: tasks.map((task) => ({
+        title: task.title,
+        leadName: task.leadName,
+        propertyTitle: task.propertyTitle,
+        dueAt: new Date(task.dueAt).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }),
+      })),
+      leadsUrl: `${appUrl}/agent-leads`,
+    });
+
+    const subject = tasks.length === 1 ? `Follow-up due: ${tasks[0].title}` : `${tasks.length} lead follow-ups due`;
+
+    return await deliverNotification(agent, {
+      applicationId: "",
+      type: "lead_task_due",
+      subject,
+      content,
+      metadata: { taskIds: tasks.map((task) => task.id) },
+    }, {
+      push: { body: subject, url: "/agent-leads" },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send lead follow-up reminder:", err);
+    return false;
+  }
+}
+
+// Copy of a new inquiry for the central admin inbox
+export async function sendNewInquiryNotification(
+  admin: { id?: string | null; email: string; full_name?: string | null },
+  inquiry: { id: string; sender_name: string; sender_email: string; sender_phone?: string | null; message?: string | null },
+  agentName: string,
+  propertyTitle?: string
+): Promise<boolean> {
+  try {
+    const content = getAgentInquiryEmailTemplate({
+      senderName: inquiry.sender_name,
+      senderEmail: inquiry.sender_email,
+      senderPhone: inquiry.sender_phone || "",
+      message: inquiry.message || "",
+      propertyTitle: propertyTitle ? `${propertyTitle} (Agent: ${agentName})` : `(Agent: ${agentName})`,
+    });
+
+    return await deliverNotification(admin, {
+      applicationId: "",
+      type: "new_inquiry",
+      subject: `New Inquiry for ${agentName} - Choice Properties`,
+      content,
+      metadata: { inquiryId: inquiry.id },
+    }, {
+      push: { body: `${inquiry.sender_name} sent an inquiry${propertyTitle ? ` about ${propertyTitle}` : ""}.`, url: "/admin" },
+    });
+  } catch (err) {
+    console.error("[NOTIFICATION] Failed to send new inquiry notification:", err);
+    return false;
+  }
+}
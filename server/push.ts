@@ -0,0 +1,186 @@
+// Web Push delivery (RFC 8030) with VAPID authentication (RFC 8292) and
+// aes128gcm payload encryption (RFC 8291), built on node:crypto.
+import { createECDH, createPrivateKey, hkdfSync, randomBytes, sign, createCipheriv } from "node:crypto";
+import { supabase } from "./supabase";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  // App path opened when the notification is clicked
+  url?: string;
+  // Notifications with the same tag replace each other on the device
+  tag?: string;
+  urgent?: boolean;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+interface StoredSubscription {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// How long the push service keeps an undelivered message, in seconds
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+// Generates a P-256 key pair in the URL-safe base64 form browsers expect for
+// applicationServerKey. Run `npm run vapid:generate` once per environment.
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  // The scalar can come back shorter than 32 bytes; JWK needs it left-padded
+  const privateKey = ecdh.getPrivateKey();
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey])),
+  };
+}
+
+let warnedUnconfigured = false;
+
+export function getVapidKeys(): (VapidKeys & { subject: string }) | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+  if (!publicKey || !privateKey) {
+    if (!warnedUnconfigured) {
+      console.warn("[PUSH] VAPID keys not configured, push notifications are disabled");
+      warnedUnconfigured = true;
+    }
+    return null;
+  }
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || "mailto:support@choiceproperties.com",
+  };
+}
+
+function createVapidAuthorization(endpoint: string, keys: VapidKeys & { subject: string }): string {
+  const publicKey = fromBase64Url(keys.publicKey);
+  const privateKey = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: keys.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = toBase64Url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: keys.subject,
+  })));
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), { key: privateKey, dsaEncoding: "ieee-p1363" });
+
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${keys.publicKey}`;
+}
+
+// Encrypts the payload for one subscription as a single aes128gcm record
+function encryptPayload(payload: Buffer, subscription: StoredSubscription): Buffer {
+  const userAgentPublicKey = fromBase64Url(subscription.p256dh);
+  const authSecret = fromBase64Url(subscription.auth);
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([salt, recordSize, Buffer.from([serverPublicKey.length]), serverPublicKey, ciphertext]);
+}
+
+async function deleteSubscription(id: string): Promise<void> {
+  if (!supabase) return;
+  const { error } = await supabase.from("push_subscriptions").delete().eq("id", id);
+  if (error) console.error("[PUSH] Failed to prune subscription:", error);
+}
+
+// Sends to every device the user has subscribed. Subscriptions the push service
+// reports as gone (404/410) are deleted. Returns the number of devices reached.
+export async function sendPushToUser(userId: string, message: PushMessage): Promise<number> {
+  const keys = getVapidKeys();
+  if (!keys || !supabase) return 0;
+
+  const { data: subscriptions, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("[PUSH] Failed to load subscriptions:", error);
+    return 0;
+  }
+
+  const payload = Buffer.from(JSON.stringify({
+    title: message.title,
+    body: message.body,
+    url: message.url || "/notifications",
+    tag: message.tag,
+  }));
+
+  let delivered = 0;
+
+  for (const subscription of (subscriptions || []) as StoredSubscription[]) {
+    try {
+      const response = await fetch(subscription.endpoint, {
+        method: "POST",
+        headers: {
+          Authorization: createVapidAuthorization(subscription.endpoint, keys),
+          "Content-Encoding": "aes128gcm",
+          "Content-Type": "application/octet-stream",
+          TTL: String(PUSH_TTL_SECONDS),
+          Urgency: message.urgent ? "high" : "normal",
+        },
+        body: encryptPayload(payload, subscription),
+      });
+
+      if (response.status === 404 || response.status === 410) {
+        await deleteSubscription(subscription.id);
+        continue;
+      }
+
+      if (!response.ok) {
+        console.error(`[PUSH] Push service returned ${response.status} for subscription ${subscription.id}`);
+        continue;
+      }
+
+      delivered++;
+    } catch (err) {
+      console.error(`[PUSH] Failed to send to subscription ${subscription.id}:`, err);
+    }
+  }
+
+  return delivered;
+}
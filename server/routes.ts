@@ -2,20 +2,19 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { supabase } from "./supabase";
 import imagekit from "./imagekit";
-import { authenticateToken, optionalAuth, requireRole, requireOwnership, preventTenantPropertyEdit, invalidateOwnershipCache, type AuthenticatedRequest } from "./auth-middleware";
+import { authenticateToken, optionalAuth, requireRole, requireOwnership, preventTenantPropertyEdit, invalidateOwnershipCache, requireManagerPermission, getManagedPropertyIds, hasManagerPermission, type AuthenticatedRequest } from "./auth-middleware";
 import { success, error as errorResponse } from "./response";
-import {
-  sendEmail,
-  getAgentInquiryEmailTemplate,
-  getApplicationConfirmationEmailTemplate,
-} from "./email";
 import { 
   notifyOwnerOfNewApplication,
+  sendApplicationReceivedNotification,
+  sendCoApplicantInvitationNotification,
   sendPaymentReceivedNotification,
   sendPaymentVerifiedNotification,
   sendDepositRequiredNotification,
-  sendRentDueSoonNotification
+  sendRentDueSoonNotification,
+  getNotificationPreferences
 } from "./notification-service";
+import { getVapidKeys } from "./push";
 import { generateSignedImageURL, canAccessPrivateImage } from "./image-transform";
 import { archivePhoto, replacePhoto, reorderPhotos } from "./image-management";
 import { logImageAudit } from "./image-audit";
@@ -24,7 +23,6 @@ import {
   loginSchema,
   insertPropertySchema,
   insertApplicationSchema,
-  insertInquirySchema,
   insertRequirementSchema,
   insertReviewSchema,
   insertFavoriteSchema,
@@ -59,11 +57,31 @@ import { registerSecurityRoutes } from "./security/routes";
 import { logAuditEvent, logPropertyChange, logApplicationChange, logSecurityEvent, logLeaseAction, logPaymentAction, getAuditLogs, getPaymentAuditLogs } from "./security/audit-logger";
 import { checkPropertyImageLimit, validateFileSize, MAX_IMAGES_PER_PROPERTY, MAX_FILE_SIZE_MB } from "./upload-limits";
 import { registerPropertyRoutes } from "./modules/properties";
+import * as propertyService from "./modules/properties/property.service";
 import { registerApplicationRoutes } from "./modules/applications";
 import { registerPaymentModuleRoutes } from "./modules/payments";
 import { registerLeaseModuleRoutes } from "./modules/leases";
 import { registerAdminModuleRoutes } from "./modules/admin";
 import { registerAuthModuleRoutes } from "./modules/auth";
+import { registerMaintenanceModuleRoutes } from "./modules/maintenance";
+import { registerTourModuleRoutes } from "./modules/tours";
+import { registerDisputeModuleRoutes } from "./modules/disputes";
+import { registerModerationModuleRoutes } from "./modules/moderation";
+import { registerDocumentModuleRoutes } from "./modules/documents";
+import { registerScreeningModuleRoutes } from "./modules/screening";
+import { registerScoringModuleRoutes } from "./modules/scoring";
+import { registerNotificationModuleRoutes } from "./modules/notifications";
+import { registerSavedSearchModuleRoutes } from "./modules/saved-searches";
+import { registerRequirementModuleRoutes } from "./modules/requirements";
+import { registerLeaseDocumentModuleRoutes, LeaseDocumentService } from "./modules/lease-documents";
+import { registerLeaseTemplateModuleRoutes, LeaseTemplateService } from "./modules/lease-templates";
+import { registerSecurityDepositModuleRoutes } from "./modules/security-deposits";
+import { registerPropertyManagerModuleRoutes } from "./modules/property-managers";
+import { registerNearbyPlaceModuleRoutes } from "./modules/nearby-places";
+import { registerListingAnalyticsModuleRoutes } from "./modules/listing-analytics";
+import { registerMessagingModuleRoutes, attachMessagingRealtime } from "./modules/messaging";
+import { registerInquiryModuleRoutes } from "./modules/inquiries";
+import { registerJobModuleRoutes } from "./modules/jobs";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
@@ -79,6 +97,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   registerLeaseModuleRoutes(app);
   registerAdminModuleRoutes(app);
   registerAuthModuleRoutes(app);
+  registerMaintenanceModuleRoutes(app);
+  registerTourModuleRoutes(app);
+  registerDisputeModuleRoutes(app);
+  registerModerationModuleRoutes(app);
+  registerDocumentModuleRoutes(app);
+  registerScreeningModuleRoutes(app);
+  registerScoringModuleRoutes(app);
+  registerNotificationModuleRoutes(app);
+  registerSavedSearchModuleRoutes(app);
+  registerRequirementModuleRoutes(app);
+  registerLeaseDocumentModuleRoutes(app);
+  registerLeaseTemplateModuleRoutes(app);
+  registerSecurityDepositModuleRoutes(app);
+  registerPropertyManagerModuleRoutes(app);
+  registerNearbyPlaceModuleRoutes(app);
+  registerListingAnalyticsModuleRoutes(app);
+  registerMessagingModuleRoutes(app);
+  registerInquiryModuleRoutes(app);
+  registerJobModuleRoutes(app);
+
+  // Real-time messaging events share the HTTP server on their own upgrade path
+  attachMessagingRealtime(httpServer);
 
   // Config endpoint for frontend to fetch Supabase credentials
   app.get("/api/config", (req, res) => {
@@ -304,7 +344,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { calculateApplicationScore } = await import("./application-service");
-      const scoreBreakdown = calculateApplicationScore({
+      const scoreBreakdown = await calculateApplicationScore({
+        ...application,
         personalInfo: application.personal_info,
         employment: application.employment,
         rentalHistory: application.rental_history,
@@ -518,6 +559,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from("reviews")
         .select("*, users(id, full_name, profile_image)")
         .eq("property_id", req.params.propertyId)
+        .is("moderation_hidden_at", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -562,9 +604,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // GET /api/v2/properties/:id - Support pre-fetched photos in single property detail too
-  app.get("/api/v2/properties/:id", async (req, res) => {
+  app.get("/api/v2/properties/:id", optionalAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      const data = await propertyService.getPropertyById(req.params.id);
+      const data = await propertyService.getPropertyById(req.params.id, req.user);
       if (!data) {
         return res.status(404).json(errorResponse("Property not found"));
       }
@@ -862,6 +904,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         query = query.eq("status", "active");
       }
+      query = query.is("moderation_hidden_at", null);
 
       query = query.order("created_at", { ascending: false })
         .range(offset, offset + limitNum - 1);
@@ -892,24 +935,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/properties/:id", async (req, res) => {
+  app.get("/api/properties/:id", optionalAuth, async (req: AuthenticatedRequest, res) => {
     try {
-      const cacheKey = `property:${req.params.id}`;
-      const cached = cache.get(cacheKey);
-      if (cached) {
-        return res.json(success(cached, "Property fetched successfully"));
+      const data = await propertyService.getPropertyById(req.params.id, req.user);
+      if (!data) {
+        return res.status(404).json(errorResponse("Property not found"));
       }
 
-      const { data, error } = await supabase
-        .from("properties")
-        .select("*")
-        .eq("id", req.params.id)
-        .single();
-
-      if (error) throw error;
-      
-      cache.set(cacheKey, data, CACHE_TTL.PROPERTY_DETAIL);
-      
       return res.json(success(data, "Property fetched successfully"));
     } catch (err: any) {
       return res.status(500).json(errorResponse("Failed to fetch property"));
@@ -1117,43 +1149,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get property analytics (views, saves, applications)
-  app.get("/api/properties/:id/analytics", authenticateToken, requireOwnership("property"), async (req: AuthenticatedRequest, res) => {
-    try {
-      const { data: property, error: propertyError } = await supabase
-        .from("properties")
-        .select("view_count, save_count, application_count, listed_at, price_history")
-        .eq("id", req.params.id)
-        .single();
-
-      if (propertyError) throw propertyError;
-
-      // Get application stats
-      const { data: applications, error: appError } = await supabase
-        .from("applications")
-        .select("status, created_at")
-        .eq("property_id", req.params.id);
-
-      if (appError) throw appError;
-
-      const analytics = {
-        views: property.view_count || 0,
-        saves: property.save_count || 0,
-        applicationCount: applications?.length || 0,
-        applicationsByStatus: applications?.reduce((acc: Record<string, number>, app) => {
-          acc[app.status] = (acc[app.status] || 0) + 1;
-          return acc;
-        }, {}),
-        listedAt: property.listed_at,
-        priceHistory: property.price_history || [],
-      };
-
-      return res.json(success(analytics, "Property analytics fetched successfully"));
-    } catch (err: any) {
-      return res.status(500).json(errorResponse("Failed to fetch property analytics"));
-    }
-  });
-
   // Increment property view count
   app.post("/api/properties/:id/view", viewLimiter, async (req, res) => {
     try {
@@ -2241,18 +2236,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Send confirmation email to authenticated user or guest
       const emailTo = req.user ? 
-        (await supabase.from("users").select("email, full_name").eq("id", req.user.id).single()).data :
-        { email: guestEmail, full_name: guestName };
+        (await supabase.from("users").select("id, email, full_name").eq("id", req.user.id).single()).data :
+        { id: null, email: guestEmail, full_name: guestName };
 
-      if (emailTo?.email) {
-        sendEmail({
-          to: emailTo.email,
-          subject: "Your Application Has Been Received",
-          html: getApplicationConfirmationEmailTemplate({
-            applicantName: emailTo.full_name || "Applicant",
-            propertyTitle: propertyData?.title || "Your Property",
-          }),
-        }).catch((err) => console.error("Email send error:", err));
+      if (emailTo?.email && appId) {
+        sendApplicationReceivedNotification(appId, emailTo, propertyData?.title || "Your Property")
+          .catch((err) => console.error("Email send error:", err));
       }
 
       // Notify property owner of new application
@@ -2306,7 +2295,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const { data: userData } = await supabase
         .from("users")
-        .select("email, full_name")
+        .select("id, email, full_name")
         .eq("id", req.user!.id)
         .single();
 
@@ -2343,16 +2332,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      if (userData?.email) {
+      if (userData?.email && appId) {
         // Fire-and-forget email sending (don't block request)
-        sendEmail({
-          to: userData.email,
-          subject: "Your Application Has Been Received",
-          html: getApplicationConfirmationEmailTemplate({
-            applicantName: userData.full_name || "Applicant",
-            propertyTitle: propertyData?.title || "Your Property",
-          }),
-        }).catch((err) => console.error("Email send error:", err));
+        sendApplicationReceivedNotification(appId, userData, propertyData?.title || "Your Property")
+          .catch((err) => console.error("Email send error:", err));
       }
 
       // Notify property owner of new application
@@ -2837,7 +2820,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { calculateApplicationScore } = await import("./application-service");
-      const scoreBreakdown = calculateApplicationScore({
+      const scoreBreakdown = await calculateApplicationScore({
+        ...application,
         personalInfo: application.personal_info,
         employment: application.employment,
         rentalHistory: application.rental_history,
@@ -2943,17 +2927,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const mainApplicantName = (application.personal_info as any)?.firstName || "Applicant";
 
       // Send invitation email (fire-and-forget)
-      const { getCoApplicantInvitationEmailTemplate } = await import("./email");
-      sendEmail({
-        to: email,
-        subject: `You've Been Invited as a Co-Applicant - ${propertyData?.title || 'Choice Properties'}`,
-        html: getCoApplicantInvitationEmailTemplate({
-          coApplicantName: fullName,
-          mainApplicantName: mainApplicantName,
-          propertyTitle: propertyData?.title || "the property",
-          invitationLink: `${process.env.PUBLIC_URL || 'https://choice-properties.replit.dev'}/applications/${req.params.applicationId}`,
-        }),
-      }).catch((err) => console.error("Failed to send co-applicant invitation email:", err));
+      sendCoApplicantInvitationNotification(
+        req.params.applicationId,
+        { email, fullName },
+        mainApplicantName,
+        propertyData?.title
+      ).catch((err) => console.error("Failed to send co-applicant invitation email:", err));
 
       return res.json(success(data[0], "Co-applicant added successfully and invitation email sent"));
     } catch (err: any) {
@@ -3470,10 +3449,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "No lease draft found" });
       }
 
+      // Every merge field must resolve and state-required clauses be present
+      // before the tenant sees the lease; the merged text is what gets sent.
+      const readiness = await new LeaseTemplateService().getDraftReadiness(req.params.applicationId);
+      if (readiness.unresolvedFields.length > 0 || readiness.missingClauses.length > 0) {
+        return res.status(400).json({
+          error: readiness.unresolvedFields.length > 0
+            ? `Lease has merge fields without a value: ${readiness.unresolvedFields.join(", ")}`
+            : `Lease is missing clauses required in ${readiness.state}: ${readiness.missingClauses.join(", ")}`,
+          unresolvedFields: readiness.unresolvedFields,
+          missingClauses: readiness.missingClauses,
+        });
+      }
+
       // Update draft status to sent
       const { error: draftError } = await supabase
         .from("lease_drafts")
-        .update({ status: "sent", updated_at: new Date().toISOString() })
+        .update({
+          status: "sent",
+          content: readiness.content,
+          custom_clauses: readiness.customClauses,
+          updated_at: new Date().toISOString()
+        })
         .eq("id", draft.id);
 
       if (draftError) throw draftError;
@@ -3966,7 +3963,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (sigError) throw sigError;
 
-      return res.json(success(sig[0], "Lease countersigned successfully"));
+      // Both sides have signed; render the executed PDF. A rendering failure must
+      // not undo the signature, the landlord can regenerate it from the v2 endpoint.
+      let executedDocument = null;
+      try {
+        executedDocument = await new LeaseDocumentService().generateExecutedDocument(
+          req.params.applicationId, req.user!.id, req.user!.role, req
+        );
+      } catch (docErr) {
+        console.error("[LEASE] Executed lease generation error:", docErr);
+      }
+
+      return res.json(success({ ...sig[0], executed_document: executedDocument }, "Lease countersigned successfully"));
     } catch (err: any) {
       console.error("[LEASE] Countersign error:", err);
       return res.status(500).json(errorResponse("Failed to countersign lease"));
@@ -4409,6 +4417,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all user notifications
   app.get("/api/user/notifications", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
+      // Users who turned off in-app notifications still get email, but no feed
+      const preferences = await getNotificationPreferences(req.user!.id);
+      if (!preferences.in_app_notifications) {
+        return res.json(success([], "In-app notifications are disabled"));
+      }
+
       const { data, error } = await supabase
         .from("application_notifications")
         .select("*, applications(id, property_id, properties(title))")
@@ -4519,108 +4533,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ===== INQUIRIES =====
-  app.post("/api/inquiries", inquiryLimiter, async (req, res) => {
-    try {
-      const validation = insertInquirySchema.safeParse(req.body);
-      if (!validation.success) {
-        return res.status(400).json({ error: validation.error.errors[0].message });
-      }
-
-      const { data, error } = await supabase
-        .from("inquiries")
-        .insert([validation.data])
-        .select();
-
-      if (error) throw error;
-
-      // Get admin email from settings, fallback to admin user
-      let adminEmail = null;
-      const { data: adminSetting } = await supabase
-        .from("admin_settings")
-        .select("value")
-        .eq("key", "admin_email")
-        .single();
-      
-      if (adminSetting?.value) {
-        adminEmail = adminSetting.value;
-      } else {
-        // Fallback: get first admin user's email
-        const { data: adminUser } = await supabase
-          .from("users")
-          .select("email")
-          .eq("role", "admin")
-          .limit(1)
-          .single();
-        adminEmail = adminUser?.email;
-      }
-
-      // Get agent/persona name for context
-      let agentName = "Unknown Agent";
-      if (validation.data.agentId) {
-        const { data: agentData } = await supabase
-          .from("users")
-          .select("full_name")
-          .eq("id", validation.data.agentId)
-          .single();
-        agentName = agentData?.full_name || "Unknown Agent";
-      }
-
-      // Always send to admin email (centralized management)
-      if (adminEmail) {
-        await sendEmail({
-          to: adminEmail,
-          subject: `New Inquiry for ${agentName} - Choice Properties`,
-          html: getAgentInquiryEmailTemplate({
-            senderName: validation.data.senderName,
-            senderEmail: validation.data.senderEmail,
-            senderPhone: validation.data.senderPhone || "",
-            message: validation.data.message || "",
-            propertyTitle: agentName ? `(Agent: ${agentName})` : undefined,
-          }),
-        });
-      }
-
-      return res.json(success(data[0], "Inquiry submitted successfully"));
-    } catch (err: any) {
-      return res.status(500).json(errorResponse("Failed to submit inquiry"));
-    }
-  });
-
-  app.get("/api/inquiries/agent/:agentId", authenticateToken, async (req: AuthenticatedRequest, res) => {
-    try {
-      if (req.params.agentId !== req.user!.id && req.user!.role !== "admin") {
-        return res.status(403).json({ error: "Not authorized" });
-      }
-
-      const { data, error } = await supabase
-        .from("inquiries")
-        .select("*, properties(id, title, address)")
-        .eq("agent_id", req.params.agentId)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return res.json(success(data, "Agent inquiries fetched successfully"));
-    } catch (err: any) {
-      return res.status(500).json(errorResponse("Failed to fetch agent inquiries"));
-    }
-  });
-
-  app.patch("/api/inquiries/:id", authenticateToken, requireOwnership("inquiry"), async (req: AuthenticatedRequest, res) => {
-    try {
-      const { data, error } = await supabase
-        .from("inquiries")
-        .update({ ...req.body, updated_at: new Date().toISOString() })
-        .eq("id", req.params.id)
-        .select();
-
-      if (error) throw error;
-      return res.json(success(data[0], "Inquiry updated successfully"));
-    } catch (err: any) {
-      return res.status(500).json(errorResponse("Failed to update inquiry"));
-    }
-  });
-
   // ===== REQUIREMENTS =====
   app.post("/api/requirements", optionalAuth, async (req: AuthenticatedRequest, res) => {
     try {
@@ -4629,9 +4541,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: validation.error.errors[0].message });
       }
 
+      const input = validation.data;
       const requirementData = {
-        ...validation.data,
         user_id: req.user?.id || null,
+        contact_name: input.contactName,
+        contact_email: input.contactEmail,
+        contact_phone: input.contactPhone ?? null,
+        budget_min: input.budgetMin ?? null,
+        budget_max: input.budgetMax ?? null,
+        bedrooms: input.bedrooms ?? null,
+        bathrooms: input.bathrooms ?? null,
+        property_type: input.propertyType ?? null,
+        locations: input.locations ?? null,
+        amenities: input.amenities ?? null,
+        pets: input.pets ?? null,
+        lease_term: input.leaseTerm ?? null,
+        move_in_date: input.moveInDate ?? null,
+        additional_notes: input.additionalNotes ?? null,
       };
 
       const { data, error } = await supabase
@@ -4743,6 +4669,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from("reviews")
         .select("*, users(id, full_name, profile_image)")
         .eq("property_id", req.params.propertyId)
+        .is("moderation_hidden_at", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -4883,7 +4810,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const searchData = {
-        ...validation.data,
+        name: validation.data.name,
+        filters: validation.data.filters,
+        alerts_enabled: validation.data.alertsEnabled ?? true,
+        alert_frequency: validation.data.alertFrequency || "daily",
         user_id: req.user!.id,
       };
 
@@ -5914,202 +5844,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ===== MESSAGING =====
-  // Get user's conversations
-  app.get("/api/conversations", authenticateToken, async (req: AuthenticatedRequest, res) => {
-    try {
-      const { data: participations, error: partError } = await supabase
-        .from("conversation_participants")
-        .select("conversation_id")
-        .eq("user_id", req.user!.id);
-
-      if (partError) throw partError;
-
-      if (!participations || participations.length === 0) {
-        return res.json(success([], "No conversations found"));
-      }
-
-      const conversationIds = participations.map(p => p.conversation_id);
-
-      const { data: conversations, error } = await supabase
-        .from("conversations")
-        .select(`
-          *,
-          properties:property_id(id, title, address, images),
-          conversation_participants(user_id, last_read_at, users:user_id(id, full_name, email, profile_image)),
-          messages(id, content, sender_id, created_at)
-        `)
-        .in("id", conversationIds)
-        .order("updated_at", { ascending: false });
-
-      if (error) throw error;
-
-      const enrichedConversations = (conversations || []).map((conv: any) => {
-        const lastMessage = conv.messages?.sort((a: any, b: any) => 
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        )[0];
-        const myParticipation = conv.conversation_participants?.find((p: any) => p.user_id === req.user!.id);
-        const unreadCount = conv.messages?.filter((m: any) => 
-          m.sender_id !== req.user!.id && 
-          (!myParticipation?.last_read_at || new Date(m.created_at) > new Date(myParticipation.last_read_at))
-        ).length || 0;
-
-        return {
-          ...conv,
-          lastMessage,
-          unreadCount,
-          participants: conv.conversation_participants?.map((p: any) => p.users).filter(Boolean),
-        };
-      });
-
-      return res.json(success(enrichedConversations, "Conversations fetched successfully"));
-    } catch (err: any) {
-      console.error("[MESSAGING] Get conversations error:", err);
-      return res.status(500).json(errorResponse("Failed to fetch conversations"));
-    }
-  });
-
-  // Get single conversation with messages
-  app.get("/api/conversations/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
-    try {
-      const { data: participation } = await supabase
-        .from("conversation_participants")
-        .select("id")
-        .eq("conversation_id", req.params.id)
-        .eq("user_id", req.user!.id)
-        .single();
-
-      if (!participation) {
-        return res.status(403).json(errorResponse("Not authorized to view this conversation"));
-      }
-
-      const { data: conversation, error } = await supabase
-        .from("conversations")
-        .select(`
-          *,
-          properties:property_id(id, title, address, images),
-          conversation_participants(user_id, last_read_at, users:user_id(id, full_name, email, profile_image)),
-          messages(id, content, sender_id, message_type, attachments, created_at, users:sender_id(id, full_name, profile_image))
-        `)
-        .eq("id", req.params.id)
-        .single();
-
-      if (error) throw error;
-
-      if (conversation?.messages) {
-        conversation.messages = conversation.messages.sort((a: any, b: any) => 
-          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-        );
-      }
-
-      return res.json(success(conversation, "Conversation fetched successfully"));
-    } catch (err: any) {
-      console.error("[MESSAGING] Get conversation error:", err);
-      return res.status(500).json(errorResponse("Failed to fetch conversation"));
-    }
-  });
-
-  // Create new conversation
-  app.post("/api/conversations", authenticateToken, async (req: AuthenticatedRequest, res) => {
-    try {
-      const { propertyId, applicationId, recipientId, subject, initialMessage } = req.body;
-
-      if (!recipientId) {
-        return res.status(400).json(errorResponse("Recipient is required"));
-      }
-
-      const { data: conversation, error: convError } = await supabase
-        .from("conversations")
-        .insert([{ property_id: propertyId, application_id: applicationId, subject }])
-        .select()
-        .single();
-
-      if (convError) throw convError;
-
-      await supabase.from("conversation_participants").insert([
-        { conversation_id: conversation.id, user_id: req.user!.id },
-        { conversation_id: conversation.id, user_id: recipientId },
-      ]);
-
-      if (initialMessage) {
-        await supabase.from("messages").insert([{
-          conversation_id: conversation.id,
-          sender_id: req.user!.id,
-          content: initialMessage,
-        }]);
-      }
-
-      return res.json(success(conversation, "Conversation created successfully"));
-    } catch (err: any) {
-      console.error("[MESSAGING] Create conversation error:", err);
-      return res.status(500).json(errorResponse("Failed to create conversation"));
-    }
-  });
-
-  // Send message
-  app.post("/api/conversations/:id/messages", authenticateToken, async (req: AuthenticatedRequest, res) => {
-    try {
-      const { data: participation } = await supabase
-        .from("conversation_participants")
-        .select("id")
-        .eq("conversation_id", req.params.id)
-        .eq("user_id", req.user!.id)
-        .single();
-
-      if (!participation) {
-        return res.status(403).json(errorResponse("Not authorized to send messages to this conversation"));
-      }
-
-      const { content, messageType, attachments } = req.body;
-
-      if (!content?.trim()) {
-        return res.status(400).json(errorResponse("Message content is required"));
-      }
-
-      const { data: message, error } = await supabase
-        .from("messages")
-        .insert([{
-          conversation_id: req.params.id,
-          sender_id: req.user!.id,
-          content: content.trim(),
-          message_type: messageType || "text",
-          attachments: attachments || null,
-        }])
-        .select(`*, users:sender_id(id, full_name, profile_image)`)
-        .single();
-
-      if (error) throw error;
-
-      await supabase
-        .from("conversations")
-        .update({ updated_at: new Date().toISOString() })
-        .eq("id", req.params.id);
-
-      return res.json(success(message, "Message sent successfully"));
-    } catch (err: any) {
-      console.error("[MESSAGING] Send message error:", err);
-      return res.status(500).json(errorResponse("Failed to send message"));
-    }
-  });
-
-  // Mark conversation as read
-  app.patch("/api/conversations/:id/read", authenticateToken, async (req: AuthenticatedRequest, res) => {
-    try {
-      const { error } = await supabase
-        .from("conversation_participants")
-        .update({ last_read_at: new Date().toISOString() })
-        .eq("conversation_id", req.params.id)
-        .eq("user_id", req.user!.id);
-
-      if (error) throw error;
-      return res.json(success(null, "Conversation marked as read"));
-    } catch (err: any) {
-      console.error("[MESSAGING] Mark read error:", err);
-      return res.status(500).json(errorResponse("Failed to mark conversation as read"));
-    }
+  // ===== PUSH NOTIFICATIONS =====
+  // Public key browsers need to subscribe; null when push is not configured
+  app.get("/api/push/vapid-public-key", (_req, res) => {
+    return res.json(success({ publicKey: getVapidKeys()?.publicKey || null }, "VAPID public key retrieved"));
   });
 
-  // ===== PUSH NOTIFICATIONS =====
   // Subscribe to push notifications
   app.post("/api/push/subscribe", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
@@ -6889,12 +6629,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ===== MANAGER APPLICATION & LEASE MANAGEMENT =====
   // Get applications for manager (property manager assigned to property)
-  app.get("/api/manager/applications", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/manager/applications", authenticateToken, requireManagerPermission("manage_applications", "property"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can access this endpoint" });
-      }
-
       const { propertyId, status, page = "1" } = req.query;
       const pageNum = Math.max(1, parseInt(page as string) || 1);
       const limit = 20;
@@ -6905,29 +6641,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .select("*, properties(owner_id, title), users(full_name, email)", { count: "exact" });
 
       if (propertyId) {
-        // Check if manager is assigned to this property
-        const { data: assignment } = await supabase
-          .from("property_manager_assignments")
-          .select("id")
-          .eq("property_manager_id", req.user!.id)
-          .eq("property_id", propertyId as string)
-          .is("revoked_at", null)
-          .single();
-
-        if (!assignment) {
-          return res.status(403).json({ error: "Not assigned to this property" });
-        }
-
         query = query.eq("property_id", propertyId as string);
       } else {
-        // Get all properties assigned to this manager
-        const { data: assignments } = await supabase
-          .from("property_manager_assignments")
-          .select("property_id")
-          .eq("property_manager_id", req.user!.id)
-          .is("revoked_at", null);
-
-        const propertyIds = assignments?.map(a => a.property_id) || [];
+        // Only properties where the assignment grants application access
+        const propertyIds = await getManagedPropertyIds(req.user!.id, "manage_applications");
         if (propertyIds.length === 0) {
           return res.json(success({ applications: [], pagination: { page: pageNum, limit, total: 0, totalPages: 0 } }));
         }
@@ -6956,12 +6673,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manager review application (move to under_review)
-  app.post("/api/manager/applications/:id/review", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/applications/:id/review", authenticateToken, requireManagerPermission("manage_applications", "application"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can review applications" });
-      }
-
       const { data: application } = await supabase
         .from("applications")
         .select("property_id, status")
@@ -6972,19 +6685,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Application not found" });
       }
 
-      // Verify manager is assigned to property
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", application.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       // Update status to under_review
       const { data, error } = await supabase
         .from("applications")
@@ -7017,12 +6717,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manager approve application
-  app.post("/api/manager/applications/:id/approve", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/applications/:id/approve", authenticateToken, requireManagerPermission("manage_applications", "application"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can approve applications" });
-      }
-
       const { data: application } = await supabase
         .from("applications")
         .select("property_id, status")
@@ -7033,18 +6729,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Application not found" });
       }
 
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", application.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       const { data, error } = await supabase
         .from("applications")
         .update({
@@ -7075,12 +6759,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manager reject application
-  app.post("/api/manager/applications/:id/reject", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/applications/:id/reject", authenticateToken, requireManagerPermission("manage_applications", "application"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can reject applications" });
-      }
-
       const { rejectionCategory, rejectionReason } = req.body;
 
       if (!rejectionCategory || !rejectionReason) {
@@ -7097,18 +6777,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Application not found" });
       }
 
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", application.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       const { data, error } = await supabase
         .from("applications")
         .update({
@@ -7141,12 +6809,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manager send lease to tenant
-  app.post("/api/manager/leases/:leaseId/send", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/leases/:leaseId/send", authenticateToken, requireManagerPermission("manage_leases", "lease"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can send leases" });
-      }
-
       const { data: lease } = await supabase
         .from("leases")
         .select("application_id, property_id, status")
@@ -7157,18 +6821,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Lease not found" });
       }
 
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", lease.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       const { data, error } = await supabase
         .from("leases")
         .update({
@@ -7231,7 +6883,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get lease with authorization check
       const { data: lease } = await supabase
         .from("leases")
-        .select("tenant_id, landlord_id")
+        .select("tenant_id, landlord_id, property_id")
         .eq("id", leaseId)
         .single();
 
@@ -7242,8 +6894,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isTenant = lease.tenant_id === req.user!.id;
       const isLandlord = lease.landlord_id === req.user!.id;
       const isAdmin = req.user!.role === "admin";
+      const isManager = req.user!.role === "property_manager" &&
+        await hasManagerPermission(req.user!.id, lease.property_id, "manage_payments");
 
-      if (!isTenant && !isLandlord && !isAdmin) {
+      if (!isTenant && !isLandlord && !isAdmin && !isManager) {
         return res.status(403).json({ error: "Not authorized to view rent payments" });
       }
 
@@ -1,17 +1,19 @@
 import type { Express } from "express";
 import { supabase } from "../supabase";
-import { authenticateToken, type AuthenticatedRequest } from "../auth-middleware";
+import {
+  authenticateToken,
+  requireManagerPermission,
+  getManagedPropertyIds,
+  hasManagerPermission,
+  type AuthenticatedRequest,
+} from "../auth-middleware";
 import { success, error as errorResponse } from "../response";
 import { logApplicationChange, logLeaseAction, logSecurityEvent } from "../security/audit-logger";
-import { sendEmail, getApprovalConfirmationEmailTemplate } from "../email";
+import { sendApplicationApprovedNotification } from "../notification-service";
 
 export function registerManagerRoutes(app: Express): void {
-  app.get("/api/manager/applications", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/manager/applications", authenticateToken, requireManagerPermission("manage_applications", "property"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can access this endpoint" });
-      }
-
       const { propertyId, status, page = "1" } = req.query;
       const pageNum = Math.max(1, parseInt(page as string) || 1);
       const limit = 20;
@@ -22,27 +24,9 @@ export function registerManagerRoutes(app: Express): void {
         .select("*, properties(owner_id, title), users(full_name, email)", { count: "exact" });
 
       if (propertyId) {
-        const { data: assignment } = await supabase
-          .from("property_manager_assignments")
-          .select("id")
-          .eq("property_manager_id", req.user!.id)
-          .eq("property_id", propertyId as string)
-          .is("revoked_at", null)
-          .single();
-
-        if (!assignment) {
-          return res.status(403).json({ error: "Not assigned to this property" });
-        }
-
         query = query.eq("property_id", propertyId as string);
       } else {
-        const { data: assignments } = await supabase
-          .from("property_manager_assignments")
-          .select("property_id")
-          .eq("property_manager_id", req.user!.id)
-          .is("revoked_at", null);
-
-        const propertyIds = assignments?.map(a => a.property_id) || [];
+        const propertyIds = await getManagedPropertyIds(req.user!.id, "manage_applications");
         if (propertyIds.length === 0) {
           return res.json(success({ applications: [], pagination: { page: pageNum, limit, total: 0, totalPages: 0 } }));
         }
@@ -70,12 +54,8 @@ export function registerManagerRoutes(app: Express): void {
     }
   });
 
-  app.post("/api/manager/applications/:id/review", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/applications/:id/review", authenticateToken, requireManagerPermission("manage_applications", "application"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can review applications" });
-      }
-
       const { data: application } = await supabase
         .from("applications")
         .select("property_id, status")
@@ -86,18 +66,6 @@ export function registerManagerRoutes(app: Express): void {
         return res.status(404).json({ error: "Application not found" });
       }
 
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", application.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       const { data, error } = await supabase
         .from("applications")
         .update({
@@ -127,12 +95,8 @@ export function registerManagerRoutes(app: Express): void {
     }
   });
 
-  app.post("/api/manager/applications/:id/approve", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/applications/:id/approve", authenticateToken, requireManagerPermission("manage_applications", "application"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can approve applications" });
-      }
-
       const { data: application } = await supabase
         .from("applications")
         .select("id, property_id, status, personal_info, properties(id, title, address, city, state, price, application_fee, owner_id), users(id, full_name, email)")
@@ -143,18 +107,6 @@ export function registerManagerRoutes(app: Express): void {
         return res.status(404).json({ error: "Application not found" });
       }
 
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", application.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       const { data, error } = await supabase
         .from("applications")
         .update({
@@ -198,24 +150,17 @@ export function registerManagerRoutes(app: Express): void {
           ownerInfo = owner;
         }
 
-        const emailHtml = getApprovalConfirmationEmailTemplate({
-          applicantName,
-          propertyTitle: property.title,
-          propertyAddress: `${property.address}, ${property.city}, ${property.state}`,
-          applicationId: req.params.id,
-          applicationFee: property.application_fee || 50,
-          paymentDate: new Date().toLocaleDateString(),
-          monthlyRent: property.price,
-          landlordName: ownerInfo?.full_name,
-          landlordEmail: ownerInfo?.email,
-          landlordPhone: ownerInfo?.phone
-        });
-
-        await sendEmail({
-          to: applicantEmail,
-          subject: `Congratulations! Your Application for ${property.title} Has Been Approved`,
-          html: emailHtml
-        });
+        await sendApplicationApprovedNotification(
+          { id: applicant?.id, email: applicantEmail, full_name: applicantName },
+          {
+            applicationId: req.params.id,
+            propertyTitle: property.title,
+            propertyAddress: `${property.address}, ${property.city}, ${property.state}`,
+            applicationFee: property.application_fee || 50,
+            monthlyRent: property.price,
+            landlord: ownerInfo,
+          }
+        );
       }
 
       return res.json(success(data, "Application approved"));
@@ -225,12 +170,8 @@ export function registerManagerRoutes(app: Express): void {
     }
   });
 
-  app.post("/api/manager/applications/:id/reject", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/applications/:id/reject", authenticateToken, requireManagerPermission("manage_applications", "application"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can reject applications" });
-      }
-
       const { rejectionCategory, rejectionReason } = req.body;
 
       if (!rejectionCategory || !rejectionReason) {
@@ -247,18 +188,6 @@ export function registerManagerRoutes(app: Express): void {
         return res.status(404).json({ error: "Application not found" });
       }
 
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", application.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       const { data, error } = await supabase
         .from("applications")
         .update({
@@ -290,12 +219,8 @@ export function registerManagerRoutes(app: Express): void {
     }
   });
 
-  app.post("/api/manager/leases/:leaseId/send", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/manager/leases/:leaseId/send", authenticateToken, requireManagerPermission("manage_leases", "lease"), async (req: AuthenticatedRequest, res) => {
     try {
-      if (req.user!.role !== "property_manager") {
-        return res.status(403).json({ error: "Only property managers can send leases" });
-      }
-
       const { data: lease } = await supabase
         .from("leases")
         .select("application_id, property_id, status")
@@ -306,18 +231,6 @@ export function registerManagerRoutes(app: Express): void {
         return res.status(404).json({ error: "Lease not found" });
       }
 
-      const { data: assignment } = await supabase
-        .from("property_manager_assignments")
-        .select("id")
-        .eq("property_manager_id", req.user!.id)
-        .eq("property_id", lease.property_id)
-        .is("revoked_at", null)
-        .single();
-
-      if (!assignment) {
-        return res.status(403).json({ error: "Not assigned to this property" });
-      }
-
       const { data, error } = await supabase
         .from("leases")
         .update({
@@ -376,7 +289,7 @@ export function registerManagerRoutes(app: Express): void {
 
       const { data: lease } = await supabase
         .from("leases")
-        .select("tenant_id, landlord_id")
+        .select("tenant_id, landlord_id, property_id")
         .eq("id", leaseId)
         .single();
 
@@ -387,8 +300,10 @@ export function registerManagerRoutes(app: Express): void {
       const isTenant = lease.tenant_id === req.user!.id;
       const isLandlord = lease.landlord_id === req.user!.id;
       const isAdmin = req.user!.role === "admin";
+      const isManager = req.user!.role === "property_manager" &&
+        await hasManagerPermission(req.user!.id, lease.property_id, "manage_payments");
 
-      if (!isTenant && !isLandlord && !isAdmin) {
+      if (!isTenant && !isLandlord && !isAdmin && !isManager) {
         return res.status(403).json({ error: "Not authorized to view rent payments" });
       }
 
@@ -2,7 +2,7 @@ import type { Express } from "express";
 import { getSupabaseOrThrow, isSupabaseConfigured } from "../supabase";
 import { authenticateToken, requireOwnership, type AuthenticatedRequest } from "../auth-middleware";
 import { success, error as errorResponse } from "../response";
-import { insertPropertySchema } from "@shared/schema";
+import { insertPropertySchema, propertySearchQuerySchema, propertyAnalyticsQuerySchema } from "@shared/schema";
 import { cache, CACHE_TTL } from "../cache";
 
 function getSupabase() {
@@ -14,17 +14,12 @@ import * as propertyService from "../modules/properties/property.service";
 export function registerPropertyRoutes(app: Express): void {
   app.get("/api/properties", async (req, res) => {
     try {
-      const params = {
-        propertyType: req.query.propertyType as string,
-        city: req.query.city as string,
-        minPrice: req.query.minPrice as string,
-        maxPrice: req.query.maxPrice as string,
-        status: req.query.status as string,
-        page: req.query.page as string,
-        limit: req.query.limit as string
-      };
+      const validation = propertySearchQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json(errorResponse(validation.error.errors[0].message));
+      }
 
-      const result = await propertyService.getProperties(params);
+      const result = await propertyService.getProperties(validation.data);
       return res.json(success(result, "Properties fetched successfully"));
     } catch (err: any) {
       console.error("[ROUTES] GET /api/properties error:", err);
@@ -237,37 +232,19 @@ export function registerPropertyRoutes(app: Express): void {
     }
   });
 
-  app.get("/api/properties/:id/analytics", authenticateToken, requireOwnership("property"), async (req: AuthenticatedRequest, res) => {
+  app.get("/api/properties/:id/analytics", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const { data: property, error: propertyError } = await getSupabase()
-        .from("properties")
-        .select("view_count, save_count, application_count, listed_at, price_history")
-        .eq("id", req.params.id)
-        .single();
-
-      if (propertyError) throw propertyError;
-
-      const { data: applications, error: appError } = await getSupabase()
-        .from("applications")
-        .select("status, created_at")
-        .eq("property_id", req.params.id);
-
-      if (appError) throw appError;
-
-      const analytics = {
-        views: property.view_count || 0,
-        saves: property.save_count || 0,
-        applicationCount: applications?.length || 0,
-        applicationsByStatus: applications?.reduce((acc: Record<string, number>, app) => {
-          acc[app.status] = (acc[app.status] || 0) + 1;
-          return acc;
-        }, {}),
-        listedAt: property.listed_at,
-        priceHistory: property.price_history || [],
-      };
+      const validation = propertyAnalyticsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json(errorResponse(validation.error.errors[0].message));
+      }
 
+      const analytics = await propertyService.getPropertyAnalytics(req.params.id, validation.data.days, req.user!);
       return res.json(success(analytics, "Property analytics fetched successfully"));
     } catch (err: any) {
+      if (err.status) {
+        return res.status(err.status).json(errorResponse(err.message));
+      }
       return res.status(500).json(errorResponse("Failed to fetch property analytics"));
     }
   });
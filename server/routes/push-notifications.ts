@@ -2,8 +2,14 @@ import type { Express } from "express";
 import { supabase } from "../supabase";
 import { authenticateToken, type AuthenticatedRequest } from "../auth-middleware";
 import { success, error as errorResponse } from "../response";
+import { getVapidKeys } from "../push";
 
 export function registerPushNotificationRoutes(app: Express): void {
+  // Public key browsers need to subscribe; null when push is not configured
+  app.get("/api/push/vapid-public-key", (_req, res) => {
+    return res.json(success({ publicKey: getVapidKeys()?.publicKey || null }, "VAPID public key retrieved"));
+  });
+
   app.post("/api/push/subscribe", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
       const { endpoint, keys } = req.body;
@@ -55,6 +55,7 @@ export const APPLICATION_STATUS = {
   APPROVED: "approved",
   REJECTED: "rejected",
   WITHDRAWN: "withdrawn",
+  EXPIRED: "expired",
 } as const;
 
 export type ApplicationStatus = typeof APPLICATION_STATUS[keyof typeof APPLICATION_STATUS];
@@ -85,6 +86,7 @@ export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, ApplicationStatu
   [APPLICATION_STATUS.APPROVED]: [],
   [APPLICATION_STATUS.REJECTED]: [],
   [APPLICATION_STATUS.WITHDRAWN]: [],
+  [APPLICATION_STATUS.EXPIRED]: [],
 };
 
 // ===== LEASE WORKFLOW =====
@@ -1,8 +1,13 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, uuid, timestamp, integer, decimal, boolean, jsonb, date, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, uuid, timestamp, integer, decimal, doublePrecision, boolean, jsonb, date, unique, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Maintained by a database trigger (see migrations/0002_property_search.sql), never written by the app
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
 export const agencies = pgTable("agencies", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -85,6 +90,7 @@ export const properties = pgTable("properties", {
   title: text("title").notNull(),
   description: text("description"),
   address: text("address").notNull(),
+  neighborhood: text("neighborhood"),
   city: text("city"),
   state: text("state"),
   zipCode: text("zip_code"),
@@ -124,6 +130,10 @@ export const properties = pgTable("properties", {
   addressVerified: boolean("address_verified").default(false),
   applicationFee: decimal("application_fee", { precision: 8, scale: 2 }).default("45.00"),
   availableFrom: date("available_from"),
+  // Set when moderation takes the listing out of public results
+  moderationHiddenAt: timestamp("moderation_hidden_at"),
+  // Weighted title/location/amenities/description document for keyword search
+  searchVector: tsvector("search_vector"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at"),
@@ -155,6 +165,109 @@ export const propertyNotes = pgTable("property_notes", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Neighborhood categories shown on listings, in display order
+export const NEARBY_PLACE_CATEGORIES = ["schools", "transit", "groceries", "parks", "hospitals"] as const;
+
+export const NEARBY_PLACE_CATEGORY_LABELS: Record<NearbyPlaceCategory, string> = {
+  schools: "Schools",
+  transit: "Transit",
+  groceries: "Groceries",
+  parks: "Parks",
+  hospitals: "Hospitals",
+};
+
+export type NearbyPlaceCategory = typeof NEARBY_PLACE_CATEGORIES[number];
+
+export const NEARBY_PLACES_RADIUS_MILES = 2;
+export const NEARBY_PLACES_PER_CATEGORY = 5;
+export const NEARBY_PLACES_CACHE_DAYS = 30;
+
+// Points of interest imported from a local dataset such as an OpenStreetMap extract
+export const pointsOfInterest = pgTable("points_of_interest", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: text("source").notNull(), // osm, manual
+  sourceId: text("source_id").notNull(), // e.g. node/123456
+  category: text("category").notNull(), // schools, transit, groceries, parks, hospitals
+  subtype: text("subtype"), // e.g. bus_stop, supermarket, clinic
+  name: text("name").notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  address: text("address"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  sourceUnique: unique().on(table.source, table.sourceId),
+}));
+
+// Nearby places computed for a property's coordinates; cleared by each dataset import
+export const propertyNearbyPlaces = pgTable("property_nearby_places", {
+  propertyId: uuid("property_id").primaryKey().references(() => properties.id, { onDelete: "cascade" }),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  radiusMiles: doublePrecision("radius_miles").notNull(),
+  places: jsonb("places").$type<Record<string, Array<{
+    id: string;
+    name: string;
+    subtype: string | null;
+    distance: number;
+    latitude: number;
+    longitude: number;
+  }>>>().notNull(),
+  computedAt: timestamp("computed_at").defaultNow(),
+});
+
+export type PointOfInterest = typeof pointsOfInterest.$inferSelect;
+export type PropertyNearbyPlaces = typeof propertyNearbyPlaces.$inferSelect;
+
+// First-party listing analytics; funnel order is view → inquiry_start → application_start
+export const PROPERTY_EVENT_TYPES = ["view", "gallery_open", "favorite", "inquiry_start", "application_start"] as const;
+export const PROPERTY_EVENT_RETENTION_DAYS = 90;
+
+// Raw events are kept once per browser session, so a reload or a second gallery open is not counted twice
+export const propertyEvents = pgTable("property_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: uuid("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(),
+  sessionId: text("session_id").notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  referrer: text("referrer"),
+  occurredAt: timestamp("occurred_at").defaultNow(),
+}, (table) => ({
+  sessionUnique: unique().on(table.propertyId, table.eventType, table.sessionId),
+}));
+
+export const propertyAnalyticsDaily = pgTable("property_analytics_daily", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: uuid("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  views: integer("views").notNull().default(0),
+  galleryOpens: integer("gallery_opens").notNull().default(0),
+  favorites: integer("favorites").notNull().default(0),
+  inquiryStarts: integer("inquiry_starts").notNull().default(0),
+  applicationStarts: integer("application_starts").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  propertyDateUnique: unique().on(table.propertyId, table.date),
+}));
+
+export const trackPropertyEventsSchema = z.object({
+  sessionId: z.string().min(8).max(100),
+  events: z.array(z.object({
+    propertyId: z.string().uuid(),
+    type: z.enum([...PROPERTY_EVENT_TYPES] as [string, ...string[]]),
+    referrer: z.string().max(500).optional(),
+  })).min(1, "At least one event is required").max(20, "Send at most 20 events at a time"),
+});
+
+export const propertyAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export type PropertyEventType = typeof PROPERTY_EVENT_TYPES[number];
+export type PropertyEvent = typeof propertyEvents.$inferSelect;
+export type PropertyAnalyticsDaily = typeof propertyAnalyticsDaily.$inferSelect;
+export type TrackPropertyEvents = z.infer<typeof trackPropertyEventsSchema>;
+
 // Admin actions for audit logging
 export const adminActions = pgTable("admin_actions", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -187,7 +300,19 @@ export const APPLICATION_STATUSES = [
   "conditional_approval",
   "approved",
   "rejected",
-  "withdrawn"
+  "withdrawn",
+  "expired"
+] as const;
+
+// Applications still awaiting a decision; these lapse once expiresAt passes
+export const OPEN_APPLICATION_STATUSES = [
+  "draft",
+  "pending_payment",
+  "payment_verified",
+  "submitted",
+  "under_review",
+  "info_requested",
+  "conditional_approval"
 ] as const;
 
 // Lease lifecycle statuses for post-approval workflow
@@ -263,6 +388,24 @@ export const applications = pgTable("applications", {
     totalScore: number;
     maxScore: number;
     flags: string[];
+    screening?: Record<string, {
+      status: string;
+      provider: string;
+      result?: "clear" | "review";
+      score?: number;
+      recordCount?: number;
+      completedAt?: string | null;
+    }>;
+    rulesetId?: string | null;
+    rulesetSource?: "property" | "portfolio" | "default";
+    explanations?: Array<{
+      category: string;
+      points: number;
+      maxPoints: number;
+      rule: string;
+      detail: string;
+      flags: string[];
+    }>;
   }>(),
   scoredAt: timestamp("scored_at"),
   // Rejection
@@ -288,7 +431,7 @@ export const applications = pgTable("applications", {
   // Application fee
   applicationFee: decimal("application_fee", { precision: 8, scale: 2 }),
   // Payment tracking
-  paymentStatus: text("payment_status").default("pending"), // pending, paid, failed, manually_verified
+  paymentStatus: text("payment_status").default("pending"), // pending, paid, failed, manually_verified, refunded
   paymentAttempts: jsonb("payment_attempts").$type<Array<{
     referenceId: string;
     timestamp: string;
@@ -450,6 +593,8 @@ export const applicationNotifications = pgTable("application_notifications", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const NOTIFICATION_FREQUENCIES = ["instant", "daily", "weekly"] as const;
+
 // User notification preferences for controlling communication channels
 export const userNotificationPreferences = pgTable("user_notification_preferences", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -482,21 +627,61 @@ export const propertyNotifications = pgTable("property_notifications", {
   userPropertyUnique: unique().on(table.userId, table.propertyId),
 }));
 
+// Lead pipeline for inquiries. "lost" can be reopened; every other move goes forward.
+export const LEAD_STAGES = ["new", "contacted", "tour_scheduled", "applied", "lost"] as const;
+export type LeadStage = typeof LEAD_STAGES[number];
+
+// Marketing channel the lead arrived through, derived from UTM tags and the referrer
+export const LEAD_SOURCES = ["direct", "search", "social", "email", "paid", "referral"] as const;
+export type LeadSource = typeof LEAD_SOURCES[number];
+
+// Where on the site the inquiry form was submitted
+export const LEAD_ENTRY_POINTS = ["property_listing", "agent_profile", "contact_page"] as const;
+
 export const inquiries = pgTable("inquiries", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   agentId: uuid("agent_id").references(() => users.id, { onDelete: "cascade" }),
   propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }),
+  // Set when the sender was signed in; used to link their later application
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
   senderName: text("sender_name").notNull(),
   senderEmail: text("sender_email").notNull(),
   senderPhone: text("sender_phone"),
   message: text("message"),
   inquiryType: text("inquiry_type"),
   status: text("status").default("pending"),
+  stage: text("stage").notNull().default("new"),
+  source: text("source").notNull().default("direct"),
+  entryPoint: text("entry_point"),
+  utmSource: text("utm_source"),
+  utmMedium: text("utm_medium"),
+  utmCampaign: text("utm_campaign"),
+  referrer: text("referrer"),
+  applicationId: uuid("application_id").references(() => applications.id, { onDelete: "set null" }),
+  // First time the lead reached each stage; these drive the conversion metrics
+  contactedAt: timestamp("contacted_at"),
+  tourScheduledAt: timestamp("tour_scheduled_at"),
+  appliedAt: timestamp("applied_at"),
+  lostAt: timestamp("lost_at"),
+  lostReason: text("lost_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at"),
 });
 
+export const leadTasks = pgTable("lead_tasks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  inquiryId: uuid("inquiry_id").references(() => inquiries.id, { onDelete: "cascade" }).notNull(),
+  agentId: uuid("agent_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  notes: text("notes"),
+  dueAt: timestamp("due_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  remindedAt: timestamp("reminded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const requirements = pgTable("requirements", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
@@ -518,6 +703,31 @@ export const requirements = pgTable("requirements", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Requirement matches under min are not kept; strong ones are emailed to both sides
+export const REQUIREMENT_MATCH_SCORES = { min: 50, strong: 80 } as const;
+
+// How well an active listing fits a renter's requirement, recomputed by the
+// requirement-matching job. Notified timestamps make each side hear about a
+// strong match once, however often it is rescored.
+export const requirementMatches = pgTable("requirement_matches", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  requirementId: uuid("requirement_id").references(() => requirements.id, { onDelete: "cascade" }).notNull(),
+  propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }).notNull(),
+  score: integer("score").notNull(), // 0-100
+  breakdown: jsonb("breakdown").$type<Array<{
+    criterion: string;
+    points: number;
+    maxPoints: number;
+    detail: string;
+  }>>(),
+  renterNotifiedAt: timestamp("renter_notified_at"),
+  landlordNotifiedAt: timestamp("landlord_notified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  requirementPropertyUnique: unique().on(table.requirementId, table.propertyId),
+}));
+
 export const reviews = pgTable("reviews", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }),
@@ -525,6 +735,7 @@ export const reviews = pgTable("reviews", {
   rating: integer("rating"),
   title: text("title"),
   comment: text("comment"),
+  moderationHiddenAt: timestamp("moderation_hidden_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at"),
@@ -546,10 +757,30 @@ export const savedSearches = pgTable("saved_searches", {
   userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   filters: jsonb("filters").notNull(),
+  alertsEnabled: boolean("alerts_enabled").default(true),
+  alertFrequency: text("alert_frequency").default("daily"), // instant, daily, weekly
+  // Lets the alert email's unsubscribe link work without signing in
+  unsubscribeToken: uuid("unsubscribe_token").default(sql`gen_random_uuid()`).notNull().unique(),
+  lastAlertSentAt: timestamp("last_alert_sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Listings matched to a saved search. One row per search and listing, so a
+// listing is alerted at most once per search; notifiedAt is set once emailed.
+export const savedSearchMatches = pgTable("saved_search_matches", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  savedSearchId: uuid("saved_search_id").references(() => savedSearches.id, { onDelete: "cascade" }).notNull(),
+  propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }).notNull(),
+  reason: text("reason").notNull(), // new_listing, price_drop
+  price: decimal("price", { precision: 12, scale: 2 }),
+  previousPrice: decimal("previous_price", { precision: 12, scale: 2 }),
+  matchedAt: timestamp("matched_at").defaultNow(),
+  notifiedAt: timestamp("notified_at"),
+}, (table) => ({
+  searchPropertyUnique: unique().on(table.savedSearchId, table.propertyId),
+}));
+
 export const newsletterSubscribers = pgTable("newsletter_subscribers", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
@@ -796,12 +1027,48 @@ export const messages = pgTable("messages", {
   senderId: uuid("sender_id").references(() => users.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   messageType: text("message_type").default("text"), // text, system, attachment
-  attachments: jsonb("attachments").$type<string[]>(),
+  attachments: jsonb("attachments").$type<Array<{ fileId: string; name: string; mimeType: string; size: number }>>(),
   readAt: timestamp("read_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const MESSAGE_MAX_ATTACHMENTS = 5;
+
+export const createConversationSchema = z.object({
+  participantIds: z.array(z.string().uuid("Invalid recipient")).min(1, "Recipient is required").max(10),
+  propertyId: z.string().uuid().optional(),
+  applicationId: z.string().uuid().optional(),
+  subject: z.string().max(200).optional(),
+  initialMessage: z.string().trim().min(1, "Message is required").max(5000),
+});
+
+export const sendMessageSchema = z.object({
+  content: z.string().max(5000).default(""),
+  attachmentIds: z.array(z.string().uuid()).max(MESSAGE_MAX_ATTACHMENTS, `Attach at most ${MESSAGE_MAX_ATTACHMENTS} files`).default([]),
+}).refine((data) => data.content.trim().length > 0 || data.attachmentIds.length > 0, {
+  message: "Message content is required",
+});
+
+export const uploadMessageAttachmentSchema = z.object({
+  file: z.object({
+    name: z.string().min(1, "File name is required").max(255),
+    type: z.string().min(1, "File type is required"),
+    data: z.string().min(1, "File content is required"),
+  }),
+});
+
+export const messageHistoryQuerySchema = z.object({
+  // Cursor is the created_at of the oldest message already loaded
+  before: z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid cursor").optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type CreateConversation = z.infer<typeof createConversationSchema>;
+export type SendMessage = z.infer<typeof sendMessageSchema>;
+export type UploadMessageAttachment = z.infer<typeof uploadMessageAttachmentSchema>;
+export type MessageAttachment = NonNullable<typeof messages.$inferSelect["attachments"]>[number];
+
 export const insertAgencySchema = createInsertSchema(agencies).omit({
   id: true,
   createdAt: true,
@@ -834,6 +1101,7 @@ export const insertPropertySchema = createInsertSchema(properties)
     listingAgentId: true,
     agencyId: true,
     addressVerified: true,
+    searchVector: true,
   })
   .extend({
     title: z.string()
@@ -842,6 +1110,10 @@ export const insertPropertySchema = createInsertSchema(properties)
     address: z.string()
       .min(5, "Address must be at least 5 characters")
       .max(500, "Address must not exceed 500 characters"),
+    neighborhood: z.string()
+      .max(100, "Neighborhood must not exceed 100 characters")
+      .optional()
+      .nullable(),
     city: z.string()
       .min(2, "City must be at least 2 characters")
       .max(100, "City must not exceed 100 characters")
@@ -1027,6 +1299,63 @@ export const insertPropertySchema = createInsertSchema(properties)
     }
   );
 
+export const PROPERTY_SORT_OPTIONS = ["relevance", "newest", "price_asc", "price_desc", "distance"] as const;
+
+const queryBoolean = z.enum(["true", "false"]).transform((val) => val === "true");
+
+// Query string for GET /api/v2/properties. Lists may be comma-separated or repeated params.
+export const propertySearchQuerySchema = z.object({
+  // Keyword search over title, location, amenities and description
+  q: z.string().trim().min(2, "Search must be at least 2 characters").max(200, "Search must not exceed 200 characters").optional(),
+  propertyType: z.string().optional(),
+  city: z.string().optional(),
+  status: z.string().optional(),
+  ownerId: z.string().optional(),
+  minPrice: z.coerce.number().min(0, "Minimum price cannot be negative").optional(),
+  maxPrice: z.coerce.number().min(0, "Maximum price cannot be negative").optional(),
+  bedrooms: z.coerce.number().int("Bedrooms must be a whole number").min(0).optional(),
+  bathrooms: z.coerce.number().min(0, "Bathrooms cannot be negative").optional(),
+  minSquareFeet: z.coerce.number().int().min(0, "Square feet cannot be negative").optional(),
+  maxSquareFeet: z.coerce.number().int().min(0, "Square feet cannot be negative").optional(),
+  petsAllowed: queryBoolean.optional(),
+  furnished: queryBoolean.optional(),
+  amenities: z.union([z.string(), z.array(z.string())])
+    .transform((val) => (Array.isArray(val) ? val : val.split(",")).map((a) => a.trim()).filter(Boolean))
+    .optional(),
+  // Move-in date: matches listings available on or before it (or with no date set)
+  availableFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "availableFrom must be a date (YYYY-MM-DD)").optional(),
+  lat: z.coerce.number().min(-90).max(90, "lat must be between -90 and 90").optional(),
+  lng: z.coerce.number().min(-180).max(180, "lng must be between -180 and 180").optional(),
+  // Miles from lat/lng
+  radius: z.coerce.number().positive("Radius must be greater than 0").max(100, "Radius must not exceed 100 miles").optional(),
+  // Map viewport as south,west,north,east
+  bounds: z.string()
+    .transform((val) => val.split(",").map(Number))
+    .refine((parts) => parts.length === 4 && parts.every((n) => Number.isFinite(n)), "bounds must be south,west,north,east")
+    .transform(([south, west, north, east]) => ({ south, west, north, east }))
+    .optional(),
+  sort: z.enum([...PROPERTY_SORT_OPTIONS] as [string, ...string[]]).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+})
+  .refine((data) => (data.lat === undefined) === (data.lng === undefined), {
+    message: "lat and lng must be provided together",
+  })
+  .refine((data) => data.radius === undefined || data.lat !== undefined, {
+    message: "radius requires lat and lng",
+  })
+  .refine((data) => data.sort !== "distance" || data.lat !== undefined, {
+    message: "Sorting by distance requires lat and lng",
+  })
+  .refine((data) => data.sort !== "relevance" || data.q !== undefined, {
+    message: "Sorting by relevance requires a search query",
+  });
+
+export const propertySuggestionQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search must be at least 2 characters").max(100, "Search must not exceed 100 characters"),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
 export const insertPropertyNoteSchema = createInsertSchema(properties).omit({
   id: true,
   createdAt: true,
@@ -1084,6 +1413,18 @@ export const insertUserNotificationPreferencesSchema = createInsertSchema(userNo
   updatedAt: true,
 });
 
+export const updateNotificationPreferencesSchema = z.object({
+  emailNewApplications: z.boolean().optional(),
+  emailStatusUpdates: z.boolean().optional(),
+  emailPropertySaved: z.boolean().optional(),
+  emailLeaseReminders: z.boolean().optional(),
+  inAppNotifications: z.boolean().optional(),
+  pushNotifications: z.boolean().optional(),
+  notificationFrequency: z.enum([...NOTIFICATION_FREQUENCIES] as [string, ...string[]]).optional(),
+}).refine((data) => Object.keys(data).length > 0, {
+  message: "No preferences provided",
+});
+
 export const insertPropertyNotificationSchema = createInsertSchema(propertyNotifications).omit({
   id: true,
   createdAt: true,
@@ -1093,11 +1434,71 @@ export const insertPropertyNotificationSchema = createInsertSchema(propertyNotif
 
 export const insertInquirySchema = createInsertSchema(inquiries).omit({
   id: true,
+  userId: true,
+  stage: true,
+  source: true,
+  applicationId: true,
+  contactedAt: true,
+  tourScheduledAt: true,
+  appliedAt: true,
+  lostAt: true,
+  lostReason: true,
   createdAt: true,
   updatedAt: true,
   deletedAt: true,
 });
 
+export const createInquirySchema = z.object({
+  propertyId: z.string().uuid().optional(),
+  agentId: z.string().uuid().optional(),
+  senderName: z.string().trim().min(1, "Name is required").max(200),
+  senderEmail: z.string().trim().email("Invalid email address"),
+  senderPhone: z.string().trim().max(30).optional(),
+  message: z.string().max(5000).optional(),
+  inquiryType: z.string().max(50).optional(),
+  entryPoint: z.enum([...LEAD_ENTRY_POINTS] as [string, ...string[]]).optional(),
+  utmSource: z.string().max(100).optional(),
+  utmMedium: z.string().max(100).optional(),
+  utmCampaign: z.string().max(100).optional(),
+  referrer: z.string().max(500).optional(),
+}).refine((data) => data.propertyId || data.agentId, {
+  message: "A property or agent is required",
+});
+
+export const updateLeadStageSchema = z.object({
+  stage: z.enum([...LEAD_STAGES] as [string, ...string[]]),
+  lostReason: z.string().trim().max(500).optional(),
+});
+
+export const linkLeadApplicationSchema = z.object({
+  applicationId: z.string().uuid().nullable(),
+});
+
+export const createLeadTaskSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  notes: z.string().max(2000).optional(),
+  dueAt: z.string().datetime({ offset: true }),
+});
+
+export const updateLeadTaskSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200).optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  dueAt: z.string().datetime({ offset: true }).optional(),
+  completed: z.boolean().optional(),
+});
+
+export const leadListQuerySchema = z.object({
+  stage: z.enum([...LEAD_STAGES] as [string, ...string[]]).optional(),
+});
+
+export const leadTaskListQuerySchema = z.object({
+  status: z.enum(["open", "overdue", "completed"]).default("open"),
+});
+
+export const leadMetricsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(90),
+});
+
 export const insertRequirementSchema = createInsertSchema(requirements).omit({
   id: true,
   createdAt: true,
@@ -1116,10 +1517,41 @@ export const insertFavoriteSchema = createInsertSchema(favorites).omit({
   createdAt: true,
 });
 
+// Filters a saved search can hold; listings are matched against these for alerts
+export const savedSearchFiltersSchema = z.object({
+  keyword: z.string().max(100).optional(),
+  city: z.string().max(100).optional(),
+  state: z.string().max(50).optional(),
+  zipCode: z.string().max(10).optional(),
+  propertyType: z.string().max(50).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  bedrooms: z.coerce.number().int().min(0).optional(),
+  bathrooms: z.coerce.number().min(0).optional(),
+  petsAllowed: z.boolean().optional(),
+  furnished: z.boolean().optional(),
+});
+
 export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
   id: true,
+  unsubscribeToken: true,
+  lastAlertSentAt: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  filters: savedSearchFiltersSchema,
+  alertFrequency: z.enum([...NOTIFICATION_FREQUENCIES] as [string, ...string[]]).optional(),
+});
+
+export const updateSavedSearchAlertsSchema = z.object({
+  alertsEnabled: z.boolean().optional(),
+  alertFrequency: z.enum([...NOTIFICATION_FREQUENCIES] as [string, ...string[]]).optional(),
+}).refine((data) => data.alertsEnabled !== undefined || data.alertFrequency !== undefined, {
+  message: "Nothing to update",
+});
+
+export const savedSearchUnsubscribeSchema = z.object({
+  token: z.string().uuid("Invalid unsubscribe link"),
 });
 
 export const insertNewsletterSubscriberSchema = createInsertSchema(newsletterSubscribers).omit({
@@ -1173,6 +1605,7 @@ export type User = typeof users.$inferSelect;
 
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
 export type Property = typeof properties.$inferSelect;
+export type PropertySearchQuery = z.infer<typeof propertySearchQuerySchema>;
 export type PropertyListingStatus = typeof PROPERTY_LISTING_STATUSES[number];
 export type PropertyVisibility = typeof PROPERTY_VISIBILITY[number];
 
@@ -1208,6 +1641,8 @@ export type ApplicationNotification = typeof applicationNotifications.$inferSele
 
 export type InsertUserNotificationPreferences = z.infer<typeof insertUserNotificationPreferencesSchema>;
 export type UserNotificationPreferences = typeof userNotificationPreferences.$inferSelect;
+export type NotificationFrequency = typeof NOTIFICATION_FREQUENCIES[number];
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
 
 export type InsertPropertyNotification = z.infer<typeof insertPropertyNotificationSchema>;
 export type PropertyNotification = typeof propertyNotifications.$inferSelect;
@@ -1217,9 +1652,15 @@ export type RejectionCategory = typeof REJECTION_CATEGORIES[number];
 
 export type InsertInquiry = z.infer<typeof insertInquirySchema>;
 export type Inquiry = typeof inquiries.$inferSelect;
+export type CreateInquiry = z.infer<typeof createInquirySchema>;
+export type UpdateLeadStage = z.infer<typeof updateLeadStageSchema>;
+export type CreateLeadTask = z.infer<typeof createLeadTaskSchema>;
+export type UpdateLeadTask = z.infer<typeof updateLeadTaskSchema>;
+export type LeadTask = typeof leadTasks.$inferSelect;
 
 export type InsertRequirement = z.infer<typeof insertRequirementSchema>;
 export type Requirement = typeof requirements.$inferSelect;
+export type RequirementMatch = typeof requirementMatches.$inferSelect;
 
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Review = typeof reviews.$inferSelect;
@@ -1229,6 +1670,9 @@ export type Favorite = typeof favorites.$inferSelect;
 
 export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
 export type SavedSearch = typeof savedSearches.$inferSelect;
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect;
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+export type UpdateSavedSearchAlerts = z.infer<typeof updateSavedSearchAlertsSchema>;
 
 export type InsertNewsletterSubscriber = z.infer<typeof insertNewsletterSubscriberSchema>;
 export type NewsletterSubscriber = typeof newsletterSubscribers.$inferSelect;
@@ -1290,6 +1734,11 @@ export const REPORT_TYPES = [
 
 export const REPORT_STATUSES = ["pending", "under_review", "resolved", "dismissed"] as const;
 
+export const REPORT_PRIORITIES = ["low", "normal", "high", "urgent"] as const;
+
+// Moderator outcome for the reported content when a report is closed
+export const REPORT_CONTENT_ACTIONS = ["none", "hide", "restore"] as const;
+
 export const contentReports = pgTable("content_reports", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   reporterId: uuid("reporter_id").references(() => users.id, { onDelete: "set null" }),
@@ -1320,6 +1769,18 @@ export const DISPUTE_TYPES = [
 
 export const DISPUTE_STATUSES = ["open", "under_investigation", "awaiting_response", "resolved", "escalated", "closed"] as const;
 
+export const DISPUTE_PRIORITIES = ["low", "normal", "high", "urgent"] as const;
+
+// Valid dispute status transitions (from -> to)
+export const DISPUTE_STATUS_TRANSITIONS: Record<string, string[]> = {
+  "open": ["under_investigation", "awaiting_response", "escalated", "closed"],
+  "under_investigation": ["awaiting_response", "escalated", "resolved", "closed"],
+  "awaiting_response": ["under_investigation", "escalated", "resolved", "closed"],
+  "escalated": ["under_investigation", "resolved", "closed"],
+  "resolved": ["under_investigation", "closed"],
+  "closed": []
+} as const;
+
 export const disputes = pgTable("disputes", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   initiatorId: uuid("initiator_id").references(() => users.id, { onDelete: "set null" }),
@@ -1351,6 +1812,11 @@ export const disputeMessages = pgTable("dispute_messages", {
 
 export const DOCUMENT_VERIFICATION_STATUSES = ["pending", "verified", "rejected", "expired"] as const;
 
+export const APPLICATION_DOCUMENT_TYPES = ["id", "proof_of_income", "employment_verification", "bank_statements", "other"] as const;
+
+// Documents that count toward the documents component of the application score
+export const REQUIRED_APPLICATION_DOCUMENTS = ["id", "proof_of_income", "employment_verification"] as const;
+
 export const documentVerifications = pgTable("document_verifications", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
@@ -1389,6 +1855,56 @@ export const insertDisputeMessageSchema = createInsertSchema(disputeMessages).om
   createdAt: true,
 });
 
+// Request payloads for the dispute API
+export const openDisputeSchema = z.object({
+  disputeType: z.enum([...DISPUTE_TYPES] as [string, ...string[]]),
+  subject: z.string().min(3, "Subject must be at least 3 characters").max(200),
+  description: z.string().min(10, "Please describe the dispute in at least 10 characters").max(10000),
+  propertyId: z.string().uuid().optional(),
+  applicationId: z.string().uuid().optional(),
+  respondentId: z.string().uuid().optional(),
+}).refine((data) => data.propertyId || data.applicationId, {
+  message: "A dispute must reference a property or an application",
+});
+
+export const disputeMessageRequestSchema = z.object({
+  message: z.string().min(1, "Message is required").max(10000),
+  isInternal: z.boolean().default(false),
+  attachments: z.array(z.string().url()).max(10).optional(),
+});
+
+export const disputeStatusUpdateSchema = z.object({
+  status: z.enum([...DISPUTE_STATUSES] as [string, ...string[]]),
+  resolution: z.string().max(10000).optional(),
+  note: z.string().max(5000).optional(),
+});
+
+export const disputeAssignSchema = z.object({
+  assignedTo: z.string().uuid().nullable().optional(),
+  priority: z.enum([...DISPUTE_PRIORITIES] as [string, ...string[]]).optional(),
+});
+
+// Request payloads for the content reporting API
+export const createContentReportSchema = z.object({
+  propertyId: z.string().uuid().optional(),
+  reviewId: z.string().uuid().optional(),
+  reportType: z.enum([...REPORT_TYPES] as [string, ...string[]]),
+  description: z.string().max(2000).optional(),
+}).refine((data) => !!data.propertyId !== !!data.reviewId, {
+  message: "Report either a property or a review",
+});
+
+export const contentReportAssignSchema = z.object({
+  assignedTo: z.string().uuid().nullable().optional(),
+  priority: z.enum([...REPORT_PRIORITIES] as [string, ...string[]]).optional(),
+});
+
+export const contentReportResolveSchema = z.object({
+  status: z.enum(["resolved", "dismissed"]),
+  resolution: z.string().min(1, "A resolution note is required").max(5000),
+  contentAction: z.enum([...REPORT_CONTENT_ACTIONS] as [string, ...string[]]).default("none"),
+});
+
 export const insertDocumentVerificationSchema = createInsertSchema(documentVerifications).omit({
   id: true,
   createdAt: true,
@@ -1397,16 +1913,43 @@ export const insertDocumentVerificationSchema = createInsertSchema(documentVerif
   verifiedAt: true,
 });
 
+// Request payloads for the document verification API
+export const uploadApplicationDocumentSchema = z.object({
+  documentType: z.enum([...APPLICATION_DOCUMENT_TYPES] as [string, ...string[]]),
+  file: z.object({
+    name: z.string().min(1, "File name is required").max(255),
+    type: z.string().min(1, "File type is required"),
+    data: z.string().min(1, "File content is required"),
+  }),
+});
+
+export const documentReviewSchema = z.object({
+  status: z.enum(["verified", "rejected"]),
+  rejectionReason: z.string().max(1000).optional(),
+  expiresAt: z.string().datetime().optional(),
+  notes: z.string().max(2000).optional(),
+}).refine((data) => data.status !== "rejected" || !!data.rejectionReason?.trim(), {
+  message: "A rejection reason is required",
+});
+
 // Moderation types
 export type InsertContentReport = z.infer<typeof insertContentReportSchema>;
 export type ContentReport = typeof contentReports.$inferSelect;
 export type ReportType = typeof REPORT_TYPES[number];
 export type ReportStatus = typeof REPORT_STATUSES[number];
+export type ReportPriority = typeof REPORT_PRIORITIES[number];
+export type CreateContentReport = z.infer<typeof createContentReportSchema>;
+export type ContentReportAssign = z.infer<typeof contentReportAssignSchema>;
+export type ContentReportResolve = z.infer<typeof contentReportResolveSchema>;
 
 export type InsertDispute = z.infer<typeof insertDisputeSchema>;
 export type Dispute = typeof disputes.$inferSelect;
 export type DisputeType = typeof DISPUTE_TYPES[number];
 export type DisputeStatus = typeof DISPUTE_STATUSES[number];
+export type DisputePriority = typeof DISPUTE_PRIORITIES[number];
+export type OpenDispute = z.infer<typeof openDisputeSchema>;
+export type DisputeStatusUpdate = z.infer<typeof disputeStatusUpdateSchema>;
+export type DisputeAssign = z.infer<typeof disputeAssignSchema>;
 
 export type InsertDisputeMessage = z.infer<typeof insertDisputeMessageSchema>;
 export type DisputeMessage = typeof disputeMessages.$inferSelect;
@@ -1414,6 +1957,185 @@ export type DisputeMessage = typeof disputeMessages.$inferSelect;
 export type InsertDocumentVerification = z.infer<typeof insertDocumentVerificationSchema>;
 export type DocumentVerification = typeof documentVerifications.$inferSelect;
 export type DocumentVerificationStatus = typeof DOCUMENT_VERIFICATION_STATUSES[number];
+export type ApplicationDocumentType = typeof APPLICATION_DOCUMENT_TYPES[number];
+export type UploadApplicationDocument = z.infer<typeof uploadApplicationDocumentSchema>;
+export type DocumentReview = z.infer<typeof documentReviewSchema>;
+
+// Tenant screening: applicant consent and provider reports
+export const SCREENING_TYPES = ["credit", "criminal", "eviction"] as const;
+export const SCREENING_REPORT_STATUSES = ["pending", "completed", "failed"] as const;
+
+// Bump when the disclosure wording changes so existing consents can be told apart
+export const SCREENING_CONSENT_VERSION = "2024-01";
+
+export const screeningConsents = pgTable("screening_consents", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: uuid("application_id").references(() => applications.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+  screeningTypes: jsonb("screening_types").$type<string[]>().notNull(),
+  consentVersion: text("consent_version").notNull(),
+  signature: text("signature").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  grantedAt: timestamp("granted_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const screeningReports = pgTable("screening_reports", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: uuid("application_id").references(() => applications.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+  consentId: uuid("consent_id").references(() => screeningConsents.id, { onDelete: "set null" }),
+  screeningType: text("screening_type").notNull(),
+  provider: text("provider").notNull(),
+  providerReference: text("provider_reference"),
+  status: text("status").default("pending"),
+  // Non-sensitive outcome used for scoring; the full report lives encrypted in sensitive_data
+  summary: jsonb("summary").$type<{
+    result: "clear" | "review";
+    score?: number;
+    recordCount?: number;
+  }>(),
+  sensitiveDataId: uuid("sensitive_data_id").references(() => sensitiveData.id, { onDelete: "set null" }),
+  failureReason: text("failure_reason"),
+  requestedBy: uuid("requested_by").references(() => users.id, { onDelete: "set null" }),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Request payloads for the screening API
+export const screeningConsentSchema = z.object({
+  screeningTypes: z.array(z.enum([...SCREENING_TYPES] as [string, ...string[]])).min(1, "Select at least one screening type"),
+  signature: z.string().trim().min(2, "Type your full name to sign").max(200),
+  // Only needed for a credit check; stored encrypted, never on the application itself
+  ssn: z.string().regex(/^\d{3}-?\d{2}-?\d{4}$/, "Enter a valid Social Security number").optional(),
+  acknowledged: z.literal(true, { errorMap: () => ({ message: "You must acknowledge the screening disclosure" }) }),
+});
+
+export const requestScreeningSchema = z.object({
+  screeningTypes: z.array(z.enum([...SCREENING_TYPES] as [string, ...string[]])).min(1).optional(),
+});
+
+export type ScreeningType = typeof SCREENING_TYPES[number];
+export type ScreeningReportStatus = typeof SCREENING_REPORT_STATUSES[number];
+export type ScreeningConsent = typeof screeningConsents.$inferSelect;
+export type ScreeningReport = typeof screeningReports.$inferSelect;
+export type ScreeningConsentInput = z.infer<typeof screeningConsentSchema>;
+export type RequestScreening = z.infer<typeof requestScreeningSchema>;
+
+// Application scoring rules, set per property or as a landlord's portfolio default
+export const SCORING_CATEGORIES = ["income", "credit", "rentalHistory", "employment", "documents"] as const;
+export const EVICTION_POLICIES = ["reject", "penalize", "ignore"] as const;
+
+export const scoringRulesConfigSchema = z.object({
+  weights: z.object({
+    income: z.number().int().min(0).max(100),
+    credit: z.number().int().min(0).max(100),
+    rentalHistory: z.number().int().min(0).max(100),
+    employment: z.number().int().min(0).max(100),
+    documents: z.number().int().min(0).max(100),
+  }).refine((w) => w.income + w.credit + w.rentalHistory + w.employment + w.documents === 100, {
+    message: "Category weights must add up to 100",
+  }),
+  income: z.object({
+    minIncomeToRent: z.number().min(0).max(20),
+    targetIncomeToRent: z.number().min(0).max(20),
+  }).refine((i) => i.targetIncomeToRent >= i.minIncomeToRent, {
+    message: "Target income-to-rent ratio cannot be below the minimum",
+  }),
+  credit: z.object({
+    minScore: z.number().int().min(300).max(850),
+    targetScore: z.number().int().min(300).max(850),
+  }).refine((c) => c.targetScore >= c.minScore, {
+    message: "Target credit score cannot be below the minimum",
+  }),
+  rentalHistory: z.object({
+    targetYears: z.number().min(0).max(20),
+    evictionPolicy: z.enum([...EVICTION_POLICIES] as [string, ...string[]]),
+  }),
+  employment: z.object({
+    targetYears: z.number().min(0).max(20),
+  }),
+});
+
+// Mirrors the thresholds the scorer used before rules were configurable
+export const DEFAULT_SCORING_RULES: z.infer<typeof scoringRulesConfigSchema> = {
+  weights: { income: 25, credit: 25, rentalHistory: 20, employment: 15, documents: 15 },
+  income: { minIncomeToRent: 2, targetIncomeToRent: 3 },
+  credit: { minScore: 600, targetScore: 750 },
+  rentalHistory: { targetYears: 3, evictionPolicy: "penalize" },
+  employment: { targetYears: 2 },
+};
+
+export const scoringRules = pgTable("scoring_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: uuid("owner_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  // Null applies the rules to every property the owner has without its own rules
+  propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }),
+  name: text("name"),
+  rules: jsonb("rules").$type<z.infer<typeof scoringRulesConfigSchema>>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const saveScoringRulesSchema = z.object({
+  propertyId: z.string().uuid().nullable().optional(),
+  name: z.string().max(100).optional(),
+  rules: scoringRulesConfigSchema,
+});
+
+export type ScoringCategory = typeof SCORING_CATEGORIES[number];
+export type EvictionPolicy = typeof EVICTION_POLICIES[number];
+export type ScoringRulesConfig = z.infer<typeof scoringRulesConfigSchema>;
+export type ScoringRules = typeof scoringRules.$inferSelect;
+export type SaveScoringRules = z.infer<typeof saveScoringRulesSchema>;
+
+// Background jobs: one row per registered job holds its schedule and lock,
+// and every execution is recorded in job_runs
+export const JOB_RUN_STATUSES = ["running", "succeeded", "failed"] as const;
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(),
+  description: text("description"),
+  schedule: text("schedule").notNull(),
+  enabled: boolean("enabled").default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lockedBy: text("locked_by"),
+  lockedUntil: timestamp("locked_until"),
+  lastRunAt: timestamp("last_run_at"),
+  // Start of the most recent successful run; incremental jobs read this as their watermark
+  lastSuccessAt: timestamp("last_success_at"),
+  lastStatus: text("last_status"),
+  lastError: text("last_error"),
+  consecutiveFailures: integer("consecutive_failures").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const jobRuns = pgTable("job_runs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobName: text("job_name").references(() => scheduledJobs.name, { onDelete: "cascade" }).notNull(),
+  status: text("status").default("running"),
+  attempt: integer("attempt").default(1),
+  trigger: text("trigger").default("schedule"), // schedule, manual
+  instanceId: text("instance_id"),
+  result: jsonb("result").$type<Record<string, any>>(),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+});
+
+export const updateScheduledJobSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type UpdateScheduledJob = z.infer<typeof updateScheduledJobSchema>;
 
 // Push Notification Subscriptions
 export const pushSubscriptions = pgTable("push_subscriptions", {
@@ -1437,8 +2159,14 @@ export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema
 export type PushSubscription = typeof pushSubscriptions.$inferSelect;
 
 // Payment types and statuses
-export const PAYMENT_TYPES = ["rent", "security_deposit"] as const;
-export const PAYMENT_STATUSES = ["pending", "paid", "overdue", "verified"] as const;
+export const PAYMENT_TYPES = ["rent", "security_deposit", "late_fee", "early_termination_fee"] as const;
+export const LATE_FEE_TYPES = ["none", "flat", "percent"] as const;
+export const PAYMENT_STATUSES = ["pending", "paid", "overdue", "verified", "refunded"] as const;
+
+// What an online charge pays for: an application fee or a lease `payments` row
+export const PAYMENT_TRANSACTION_PURPOSES = ["application_fee", ...PAYMENT_TYPES] as const;
+export const PAYMENT_TRANSACTION_STATUSES = ["pending", "succeeded", "failed", "refunded", "partially_refunded"] as const;
+export const PAYMENT_PROVIDER_EVENT_TYPES = ["charge.succeeded", "charge.failed", "charge.refunded"] as const;
 
 // Active leases between landlord and tenant
 export const leases = pgTable("leases", {
@@ -1450,22 +2178,120 @@ export const leases = pgTable("leases", {
   monthlyRent: decimal("monthly_rent", { precision: 12, scale: 2 }).notNull(),
   securityDepositAmount: decimal("security_deposit_amount", { precision: 12, scale: 2 }).notNull(),
   rentDueDay: integer("rent_due_day").default(1).notNull(), // Day of month (1-31)
+  // Late fee rule: flat dollars or percent of the rent, charged once per overdue rent payment
+  lateFeeType: text("late_fee_type").default("none"), // none, flat, percent
+  lateFeeAmount: decimal("late_fee_amount", { precision: 12, scale: 2 }),
+  lateFeeGraceDays: integer("late_fee_grace_days").default(0),
+  lateFeeMaxAmount: decimal("late_fee_max_amount", { precision: 12, scale: 2 }),
   leaseStartDate: timestamp("lease_start_date").notNull(),
-  leaseEndDate: timestamp("lease_end_date").notNull(),
-  status: text("status").default("active"), // active, expired, terminated
+  leaseEndDate: timestamp("lease_end_date").notNull(), // Month-to-month leases roll this forward a month at a time
+  // Ending the lease: days of notice either side must give, and what the tenant owes to leave a fixed term early
+  noticePeriodDays: integer("notice_period_days").default(30).notNull(),
+  earlyTerminationFee: decimal("early_termination_fee", { precision: 12, scale: 2 }),
+  moveOutDate: timestamp("move_out_date"), // Set by a pending notice to vacate
+  endedAt: timestamp("ended_at"),
+  status: text("status").default("active"), // active, month_to_month, expired, terminated
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Renewal offers from the landlord; accepting one extends the lease and its rent schedule
+export const leaseRenewals = pgTable("lease_renewals", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaseId: uuid("lease_id").references(() => leases.id, { onDelete: "cascade" }).notNull(),
+  templateId: uuid("template_id").references(() => leaseTemplates.id, { onDelete: "set null" }),
+  offeredBy: uuid("offered_by").references(() => users.id, { onDelete: "set null" }),
+  monthlyRent: decimal("monthly_rent", { precision: 12, scale: 2 }).notNull(),
+  termMonths: integer("term_months"), // Null for a month-to-month renewal
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  message: text("message"),
+  status: text("status").default("pending").notNull(), // pending, accepted, declined, withdrawn, expired
+  responseDeadline: timestamp("response_deadline").notNull(),
+  respondedAt: timestamp("responded_at"),
+  responseNote: text("response_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Notices to vacate from either side. A tenant leaving a fixed term early is charged
+// the lease's early termination fee as a payment.
+export const leaseNotices = pgTable("lease_notices", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaseId: uuid("lease_id").references(() => leases.id, { onDelete: "cascade" }).notNull(),
+  givenBy: uuid("given_by").references(() => users.id, { onDelete: "set null" }),
+  givenByRole: text("given_by_role").notNull(), // tenant, landlord
+  moveOutDate: timestamp("move_out_date").notNull(),
+  reason: text("reason"),
+  earlyTermination: boolean("early_termination").default(false).notNull(),
+  feePaymentId: uuid("fee_payment_id").references(() => payments.id, { onDelete: "set null" }),
+  status: text("status").default("pending").notNull(), // pending, completed, cancelled
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Security deposit held for a lease, from collection through the itemized
+// return at move-out. Every movement of money is a ledger entry.
+export const securityDeposits = pgTable("security_deposits", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaseId: uuid("lease_id").references(() => leases.id, { onDelete: "cascade" }).notNull().unique(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  status: text("status").default("awaiting_payment").notNull(), // see SECURITY_DEPOSIT_STATUSES
+  state: text("state"), // Property state the return deadline is based on
+  moveOutDate: timestamp("move_out_date"),
+  returnDeadline: timestamp("return_deadline"),
+  deadlineRemindedAt: timestamp("deadline_reminded_at"),
+  itemizedAt: timestamp("itemized_at"),
+  letterStoragePath: text("letter_storage_path"),
+  letterHash: text("letter_hash"),
+  refundAmount: decimal("refund_amount", { precision: 12, scale: 2 }),
+  balanceOwed: decimal("balance_owed", { precision: 12, scale: 2 }),
+  tenantResponse: text("tenant_response"), // acknowledged, disputed
+  tenantResponseNote: text("tenant_response_note"),
+  tenantRespondedAt: timestamp("tenant_responded_at"),
+  disputeId: uuid("dispute_id").references(() => disputes.id, { onDelete: "set null" }),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Itemized deductions; evidence lives in photos with the inspection category
+export const depositDeductions = pgTable("deposit_deductions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  depositId: uuid("deposit_id").references(() => securityDeposits.id, { onDelete: "cascade" }).notNull(),
+  category: text("category").notNull(),
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const depositLedgerEntries = pgTable("deposit_ledger_entries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  depositId: uuid("deposit_id").references(() => securityDeposits.id, { onDelete: "cascade" }).notNull(),
+  entryType: text("entry_type").notNull(), // received, deduction, refund
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  description: text("description").notNull(),
+  paymentId: uuid("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  deductionId: uuid("deduction_id").references(() => depositDeductions.id, { onDelete: "set null" }),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Payment tracking for rent and security deposits
 export const payments = pgTable("payments", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   leaseId: uuid("lease_id").references(() => leases.id, { onDelete: "cascade" }).notNull(),
   tenantId: uuid("tenant_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
-  type: text("type").notNull(), // rent, security_deposit
-  status: text("status").default("pending"), // pending, paid, overdue, verified
+  type: text("type").notNull(), // rent, security_deposit, late_fee, early_termination_fee
+  status: text("status").default("pending"), // pending, paid, overdue, verified, refunded
   dueDate: timestamp("due_date").notNull(),
+  parentPaymentId: uuid("parent_payment_id"), // Rent payment a late fee was charged against
+  overdueAt: timestamp("overdue_at"),
+  reminderLevel: integer("reminder_level").default(0), // Highest overdue reminder sent
   paidAt: timestamp("paid_at"),
   referenceId: text("reference_id"), // Transaction/receipt reference
   verifiedBy: uuid("verified_by").references(() => users.id, { onDelete: "set null" }),
@@ -1475,6 +2301,188 @@ export const payments = pgTable("payments", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Charges made through the payment provider; idempotency keys are unique per charge
+export const paymentTransactions = pgTable("payment_transactions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  providerPaymentId: text("provider_payment_id"),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  purpose: text("purpose").notNull(), // application_fee, rent, security_deposit
+  applicationId: uuid("application_id").references(() => applications.id, { onDelete: "set null" }),
+  paymentId: uuid("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").default("usd"),
+  status: text("status").default("pending"),
+  failureReason: text("failure_reason"),
+  refundedAmount: decimal("refunded_amount", { precision: 12, scale: 2 }).default("0"),
+  refunds: jsonb("refunds").$type<Array<{
+    providerRefundId: string;
+    idempotencyKey: string;
+    amount: number;
+    reason?: string;
+    refundedBy?: string;
+    createdAt: string;
+  }>>().default([]),
+  settledAt: timestamp("settled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  providerPaymentUnique: unique().on(table.provider, table.providerPaymentId),
+}));
+
+// Webhook events received from the payment provider, deduplicated by event id
+export const paymentProviderEvents = pgTable("payment_provider_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  providerPaymentId: text("provider_payment_id"),
+  payload: jsonb("payload").$type<Record<string, any>>(),
+  processedAt: timestamp("processed_at"),
+  processingError: text("processing_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  providerEventUnique: unique().on(table.provider, table.eventId),
+}));
+
+export const processPaymentSchema = z.object({
+  applicationId: z.string().uuid().optional(),
+  paymentId: z.string().uuid().optional(),
+  amount: z.number().positive().optional(),
+  source: z.string().min(1, "A payment source is required").max(255),
+}).refine((data) => !!data.applicationId !== !!data.paymentId, {
+  message: "Provide either applicationId or paymentId",
+});
+
+export const lateFeeRulesSchema = z.object({
+  type: z.enum([...LATE_FEE_TYPES] as [string, ...string[]]),
+  amount: z.number().min(0).max(100000).optional(),
+  graceDays: z.number().int().min(0).max(31).default(0),
+  maxAmount: z.number().positive().max(100000).optional().nullable(),
+}).refine((data) => data.type === "none" || (data.amount !== undefined && data.amount > 0), {
+  message: "A late fee amount is required",
+}).refine((data) => data.type !== "percent" || (data.amount ?? 0) <= 100, {
+  message: "A percentage late fee cannot exceed 100%",
+});
+
+// Lease terms once it is running: active fixed term, rolling month to month, or ended
+export const LEASE_AGREEMENT_STATUSES = ["active", "month_to_month", "expired", "terminated"] as const;
+export const LEASE_RENEWAL_STATUSES = ["pending", "accepted", "declined", "withdrawn", "expired"] as const;
+export const LEASE_NOTICE_STATUSES = ["pending", "completed", "cancelled"] as const;
+
+const leaseDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const leaseTerminationTermsSchema = z.object({
+  noticePeriodDays: z.number().int().min(0).max(180),
+  earlyTerminationFee: z.number().min(0).max(100000).optional().nullable(),
+});
+
+export const createLeaseRenewalSchema = z.object({
+  templateId: z.string().uuid().optional(),
+  monthlyRent: z.number().positive().max(1000000).optional(),
+  termMonths: z.number().int().min(1).max(60).optional(),
+  monthToMonth: z.boolean().default(false),
+  responseDeadline: leaseDate.optional(),
+  message: z.string().max(1000).optional(),
+}).refine((data) => !(data.monthToMonth && data.termMonths), {
+  message: "A month-to-month renewal cannot have a term length",
+});
+
+export const respondLeaseRenewalSchema = z.object({
+  decision: z.enum(["accept", "decline"]),
+  note: z.string().max(1000).optional(),
+});
+
+export const createLeaseNoticeSchema = z.object({
+  moveOutDate: leaseDate,
+  reason: z.string().max(1000).optional(),
+});
+
+// Deposit lifecycle: collected, held during the lease, itemized at move-out,
+// then acknowledged or disputed by the tenant and closed once refunded
+export const SECURITY_DEPOSIT_STATUSES = [
+  "awaiting_payment",
+  "held",
+  "itemizing",
+  "itemized",
+  "acknowledged",
+  "disputed",
+  "closed",
+] as const;
+
+export const DEPOSIT_DEDUCTION_CATEGORIES = [
+  "cleaning",
+  "damage",
+  "unpaid_rent",
+  "unpaid_utilities",
+  "keys_and_locks",
+  "other",
+] as const;
+
+export const DEPOSIT_LEDGER_ENTRY_TYPES = ["received", "deduction", "refund"] as const;
+
+// Days after move-out a landlord has to return the deposit or send an
+// itemized statement, by state. Others fall back to the default.
+export const DEFAULT_DEPOSIT_RETURN_DAYS = 30;
+export const STATE_DEPOSIT_RETURN_DAYS: Record<string, number> = {
+  AZ: 14,
+  CA: 21,
+  CO: 30,
+  FL: 30,
+  GA: 30,
+  IL: 30,
+  MA: 30,
+  MD: 45,
+  NJ: 30,
+  NY: 14,
+  OR: 31,
+  PA: 30,
+  TX: 30,
+  VA: 45,
+  WA: 30,
+};
+
+const depositPhotoSchema = z.object({
+  imageKitFileId: z.string().min(1),
+  url: z.string().url(),
+  thumbnailUrl: z.string().url().optional(),
+});
+
+export const createDepositDeductionSchema = z.object({
+  category: z.enum([...DEPOSIT_DEDUCTION_CATEGORIES] as [string, ...string[]]),
+  description: z.string().min(3, "Describe the deduction").max(1000),
+  amount: z.number().positive().max(100000),
+  photos: z.array(depositPhotoSchema).max(10).default([]),
+});
+
+export const updateDepositDeductionSchema = z.object({
+  category: z.enum([...DEPOSIT_DEDUCTION_CATEGORIES] as [string, ...string[]]).optional(),
+  description: z.string().min(3, "Describe the deduction").max(1000).optional(),
+  amount: z.number().positive().max(100000).optional(),
+});
+
+export const depositDeductionPhotosSchema = z.object({
+  photos: z.array(depositPhotoSchema).min(1).max(10),
+});
+
+export const respondDepositItemizationSchema = z.object({
+  response: z.enum(["acknowledge", "dispute"]),
+  note: z.string().max(5000).optional(),
+}).refine((data) => data.response !== "dispute" || (data.note?.trim().length ?? 0) >= 10, {
+  message: "Explain what you dispute in at least 10 characters",
+});
+
+export const recordDepositRefundSchema = z.object({
+  amount: z.number().min(0).max(100000).optional(),
+  reference: z.string().max(200).optional(),
+});
+
+export const refundPaymentSchema = z.object({
+  amount: z.number().positive().optional(),
+  reason: z.string().max(500).optional(),
+});
+
 // Insert schemas
 export const insertLeaseSchema = createInsertSchema(leases).omit({
   id: true,
@@ -1500,6 +2508,35 @@ export type PaymentStatus = typeof PAYMENT_STATUSES[number];
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
 
+export type PaymentTransaction = typeof paymentTransactions.$inferSelect;
+export type PaymentTransactionPurpose = typeof PAYMENT_TRANSACTION_PURPOSES[number];
+export type PaymentTransactionStatus = typeof PAYMENT_TRANSACTION_STATUSES[number];
+export type PaymentProviderEvent = typeof paymentProviderEvents.$inferSelect;
+export type PaymentProviderEventType = typeof PAYMENT_PROVIDER_EVENT_TYPES[number];
+export type ProcessPayment = z.infer<typeof processPaymentSchema>;
+export type RefundPayment = z.infer<typeof refundPaymentSchema>;
+export type LateFeeType = typeof LATE_FEE_TYPES[number];
+export type LateFeeRules = z.infer<typeof lateFeeRulesSchema>;
+export type LeaseAgreementStatus = typeof LEASE_AGREEMENT_STATUSES[number];
+export type LeaseRenewalStatus = typeof LEASE_RENEWAL_STATUSES[number];
+export type LeaseNoticeStatus = typeof LEASE_NOTICE_STATUSES[number];
+export type LeaseTerminationTerms = z.infer<typeof leaseTerminationTermsSchema>;
+export type CreateLeaseRenewal = z.infer<typeof createLeaseRenewalSchema>;
+export type RespondLeaseRenewal = z.infer<typeof respondLeaseRenewalSchema>;
+export type CreateLeaseNotice = z.infer<typeof createLeaseNoticeSchema>;
+export type LeaseRenewal = typeof leaseRenewals.$inferSelect;
+export type LeaseNotice = typeof leaseNotices.$inferSelect;
+export type SecurityDepositStatus = typeof SECURITY_DEPOSIT_STATUSES[number];
+export type DepositDeductionCategory = typeof DEPOSIT_DEDUCTION_CATEGORIES[number];
+export type DepositLedgerEntryType = typeof DEPOSIT_LEDGER_ENTRY_TYPES[number];
+export type CreateDepositDeduction = z.infer<typeof createDepositDeductionSchema>;
+export type UpdateDepositDeduction = z.infer<typeof updateDepositDeductionSchema>;
+export type RespondDepositItemization = z.infer<typeof respondDepositItemizationSchema>;
+export type RecordDepositRefund = z.infer<typeof recordDepositRefundSchema>;
+export type SecurityDeposit = typeof securityDeposits.$inferSelect;
+export type DepositDeduction = typeof depositDeductions.$inferSelect;
+export type DepositLedgerEntry = typeof depositLedgerEntries.$inferSelect;
+
 // Lease Templates for landlords to use as starting point
 export const leaseTemplates = pgTable("lease_templates", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1511,18 +2548,34 @@ export const leaseTemplates = pgTable("lease_templates", {
   rentAmount: decimal("rent_amount", { precision: 12, scale: 2 }),
   securityDeposit: decimal("security_deposit", { precision: 12, scale: 2 }),
   leaseTermMonths: integer("lease_term_months"),
-  content: text("content").notNull(), // Template HTML/text content
+  content: text("content").notNull(), // Template HTML/text content with {{merge.fields}}
   customClauses: jsonb("custom_clauses").$type<Array<{
     id: string;
     title: string;
     content: string;
     optional: boolean;
+    category?: string;
+    libraryClauseId?: string;
   }>>(),
   isDefault: boolean("is_default").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Reusable lease clauses. Clauses with an agency are shared with every member
+// of that agency; templates copy the clause text when it is added.
+export const leaseClauses = pgTable("lease_clauses", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  agencyId: uuid("agency_id").references(() => agencies.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  category: text("category").notNull().default("other"),
+  state: text("state"), // Written for a specific state; null applies anywhere
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Lease Drafts - working drafts of leases before sending to tenant
 export const leaseDrafts = pgTable("lease_drafts", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1542,6 +2595,8 @@ export const leaseDrafts = pgTable("lease_drafts", {
     content: string;
     optional: boolean;
     included: boolean;
+    category?: string;
+    libraryClauseId?: string;
   }>>(),
   changes: jsonb("changes").$type<Array<{
     version: number;
@@ -1567,6 +2622,20 @@ export const leaseSignatures = pgTable("lease_signatures", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Executed lease PDFs rendered once both sides have signed. The SHA-256 of the
+// stored file is what an uploaded copy is verified against.
+export const leaseDocuments = pgTable("lease_documents", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: uuid("application_id").references(() => applications.id, { onDelete: "cascade" }).notNull(),
+  leaseDraftId: uuid("lease_draft_id").references(() => leaseDrafts.id, { onDelete: "set null" }),
+  draftVersion: integer("draft_version"),
+  storagePath: text("storage_path").notNull(),
+  documentHash: text("document_hash").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  generatedBy: uuid("generated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Property Templates for quick listing creation
 export const propertyTemplates = pgTable("property_templates", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1607,6 +2676,116 @@ export const insertLeaseTemplateSchema = createInsertSchema(leaseTemplates).omit
 export type InsertLeaseTemplate = z.infer<typeof insertLeaseTemplateSchema>;
 export type LeaseTemplate = typeof leaseTemplates.$inferSelect;
 
+// Merge fields available in lease template content as {{key}}. Values are
+// resolved from the application, its property and the lease draft when the
+// lease is sent; the type decides how the value is formatted.
+export const LEASE_MERGE_FIELDS = [
+  { key: "tenant.names", label: "All tenant names", type: "text" },
+  { key: "tenant.primary_name", label: "Primary tenant name", type: "text" },
+  { key: "tenant.email", label: "Primary tenant email", type: "text" },
+  { key: "landlord.name", label: "Landlord name", type: "text" },
+  { key: "property.title", label: "Property name", type: "text" },
+  { key: "property.address", label: "Full property address", type: "text" },
+  { key: "property.city", label: "City", type: "text" },
+  { key: "property.state", label: "State", type: "text" },
+  { key: "lease.rent", label: "Monthly rent", type: "currency" },
+  { key: "lease.deposit", label: "Security deposit", type: "currency" },
+  { key: "lease.start_date", label: "Lease start date", type: "date" },
+  { key: "lease.end_date", label: "Lease end date", type: "date" },
+  { key: "lease.term_months", label: "Lease term (months)", type: "number" },
+  { key: "policy.pets", label: "Pet policy", type: "text" },
+  { key: "policy.smoking", label: "Smoking policy", type: "text" },
+  { key: "policy.occupancy_limit", label: "Occupancy limit", type: "number" },
+  { key: "policy.utilities_included", label: "Utilities included", type: "text" },
+] as const;
+
+export const LEASE_MERGE_FIELD_TYPES = ["text", "currency", "date", "number"] as const;
+
+export const LEASE_CLAUSE_CATEGORIES = [
+  "security_deposit",
+  "late_fees",
+  "pets",
+  "smoking",
+  "maintenance",
+  "entry_notice",
+  "lead_paint_disclosure",
+  "mold_disclosure",
+  "bed_bug_disclosure",
+  "flood_disclosure",
+  "radon_disclosure",
+  "sprinkler_disclosure",
+  "parking_towing",
+  "other",
+] as const;
+
+// Clause categories a lease must include before it can be sent, keyed on the
+// template's state. Agencies can add clauses beyond these.
+export const STATE_REQUIRED_LEASE_CLAUSES: Record<string, readonly LeaseClauseCategory[]> = {
+  CA: ["security_deposit", "mold_disclosure", "bed_bug_disclosure"],
+  FL: ["security_deposit", "radon_disclosure"],
+  NY: ["security_deposit", "bed_bug_disclosure", "sprinkler_disclosure"],
+  TX: ["security_deposit", "flood_disclosure", "parking_towing"],
+  WA: ["security_deposit", "mold_disclosure"],
+};
+
+const leaseState = z.string().regex(/^[A-Za-z]{2}$/, "State must be a two-letter code").transform((v) => v.toUpperCase());
+
+const leaseTemplateClauseSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1, "Clause title is required").max(200),
+  content: z.string().min(1, "Clause content is required"),
+  optional: z.boolean().default(false),
+  category: z.enum([...LEASE_CLAUSE_CATEGORIES] as [string, ...string[]]).optional(),
+  libraryClauseId: z.string().uuid().optional(),
+});
+
+export const createLeaseTemplateSchema = z.object({
+  name: z.string().min(1, "Template name is required").max(200),
+  description: z.string().max(2000).optional(),
+  state: leaseState.optional(),
+  rentAmount: z.number().positive().optional(),
+  securityDeposit: z.number().nonnegative().optional(),
+  leaseTermMonths: z.number().int().min(1).max(60).optional(),
+  content: z.string().min(1, "Template content is required"),
+  customClauses: z.array(leaseTemplateClauseSchema).max(100).default([]),
+  shareWithAgency: z.boolean().default(false),
+  isDefault: z.boolean().default(false),
+});
+
+export const updateLeaseTemplateSchema = createLeaseTemplateSchema
+  .omit({ customClauses: true, shareWithAgency: true, isDefault: true })
+  .partial()
+  .extend({
+    customClauses: z.array(leaseTemplateClauseSchema).max(100).optional(),
+    shareWithAgency: z.boolean().optional(),
+    isDefault: z.boolean().optional(),
+  });
+
+export const createLeaseClauseSchema = z.object({
+  title: z.string().min(1, "Clause title is required").max(200),
+  content: z.string().min(1, "Clause content is required"),
+  category: z.enum([...LEASE_CLAUSE_CATEGORIES] as [string, ...string[]]).default("other"),
+  state: leaseState.optional(),
+  shareWithAgency: z.boolean().default(true),
+});
+
+export const updateLeaseClauseSchema = createLeaseClauseSchema
+  .omit({ category: true, shareWithAgency: true })
+  .partial()
+  .extend({
+    category: z.enum([...LEASE_CLAUSE_CATEGORIES] as [string, ...string[]]).optional(),
+    state: leaseState.nullable().optional(),
+  });
+
+export type LeaseMergeField = typeof LEASE_MERGE_FIELDS[number];
+export type LeaseMergeFieldType = typeof LEASE_MERGE_FIELD_TYPES[number];
+export type LeaseClauseCategory = typeof LEASE_CLAUSE_CATEGORIES[number];
+export type CreateLeaseTemplate = z.infer<typeof createLeaseTemplateSchema>;
+export type UpdateLeaseTemplate = z.infer<typeof updateLeaseTemplateSchema>;
+export type CreateLeaseClause = z.infer<typeof createLeaseClauseSchema>;
+export type UpdateLeaseClause = z.infer<typeof updateLeaseClauseSchema>;
+export type LeaseClause = typeof leaseClauses.$inferSelect;
+
 // Lease Draft insert and update schemas
 export const insertLeaseDraftSchema = createInsertSchema(leaseDrafts).omit({
   id: true,
@@ -1629,6 +2808,8 @@ export const updateLeaseDraftSchema = z.object({
     content: z.string(),
     optional: z.boolean(),
     included: z.boolean().optional(),
+    category: z.enum([...LEASE_CLAUSE_CATEGORIES] as [string, ...string[]]).optional(),
+    libraryClauseId: z.string().optional(),
   })).optional(),
   status: z.enum(["draft", "ready_to_send", "sent"]).optional(),
   changeDescription: z.string().optional(),
@@ -1677,9 +2858,20 @@ export const leaseCounstersignSchema = z.object({
   documentHash: z.string().optional(),
 });
 
+// A copy of an executed lease PDF to check against the stored hash
+export const verifyLeaseDocumentSchema = z.object({
+  file: z.object({
+    name: z.string().min(1, "File name is required").max(255),
+    type: z.literal("application/pdf", { errorMap: () => ({ message: "Only PDF files can be verified" }) }),
+    data: z.string().min(1, "File content is required"),
+  }),
+});
+
 export type LeaseSignatureEnable = z.infer<typeof leaseSignatureEnableSchema>;
 export type LeaseSign = z.infer<typeof leaseSignSchema>;
 export type LeaseCounstersign = z.infer<typeof leaseCounstersignSchema>;
+export type VerifyLeaseDocument = z.infer<typeof verifyLeaseDocumentSchema>;
+export type LeaseDocument = typeof leaseDocuments.$inferSelect;
 
 // Move-in preparation schemas
 export const moveInPrepareSchema = z.object({
@@ -1743,7 +2935,10 @@ export const PAYMENT_AUDIT_ACTIONS = [
   "payment_verified",
   "payment_marked_overdue",
   "payment_status_changed",
-  "payment_delete_blocked"
+  "payment_delete_blocked",
+  "payment_charged",
+  "payment_failed",
+  "payment_refunded"
 ] as const;
 
 export type PaymentAuditAction = typeof PAYMENT_AUDIT_ACTIONS[number];
@@ -1785,6 +2980,54 @@ export const insertPropertyManagerAssignmentSchema = createInsertSchema(property
 export type InsertPropertyManagerAssignment = z.infer<typeof insertPropertyManagerAssignmentSchema>;
 export type PropertyManagerAssignment = typeof propertyManagerAssignments.$inferSelect;
 
+export const MANAGER_INVITATION_STATUSES = ["pending", "accepted", "declined", "revoked", "expired"] as const;
+
+// Days before a pending manager invitation lapses
+export const MANAGER_INVITATION_TTL_DAYS = 14;
+
+// Manager Invitations - An owner invites a manager by email; accepting creates the assignment
+export const propertyManagerInvitations = pgTable("property_manager_invitations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }).notNull(),
+  invitedBy: uuid("invited_by").references(() => users.id, { onDelete: "set null" }),
+  email: text("email").notNull(),
+  permissions: jsonb("permissions").$type<PermissionGroup[]>().notNull(),
+  notes: text("notes"),
+  status: text("status").default("pending"), // pending, accepted, declined, revoked, expired
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedBy: uuid("responded_by").references(() => users.id, { onDelete: "set null" }),
+  respondedAt: timestamp("responded_at"),
+  assignmentId: uuid("assignment_id").references(() => propertyManagerAssignments.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const managerPermissionsSchema = z
+  .array(z.enum(Object.values(PROPERTY_MANAGER_PERMISSIONS) as [string, ...string[]]))
+  .min(1, "Grant at least one permission")
+  .transform((permissions) => Array.from(new Set(permissions)) as PermissionGroup[]);
+
+export const inviteManagerSchema = z.object({
+  email: z.string().email("Enter a valid email address").transform((email) => email.trim().toLowerCase()),
+  permissions: managerPermissionsSchema,
+  notes: z.string().max(1000).optional(),
+});
+
+export const updateManagerAssignmentSchema = z.object({
+  permissions: managerPermissionsSchema.optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const respondManagerInvitationSchema = z.object({
+  decision: z.enum(["accept", "decline"]),
+});
+
+export type ManagerInvitationStatus = typeof MANAGER_INVITATION_STATUSES[number];
+export type PropertyManagerInvitation = typeof propertyManagerInvitations.$inferSelect;
+export type InviteManager = z.infer<typeof inviteManagerSchema>;
+export type UpdateManagerAssignment = z.infer<typeof updateManagerAssignmentSchema>;
+export type RespondManagerInvitation = z.infer<typeof respondManagerInvitationSchema>;
+
 // Photo categories for different upload contexts
 export const PHOTO_CATEGORIES = [
   "property",
@@ -1806,6 +3049,7 @@ export const photos: any = pgTable("photos", {
   uploaderId: uuid("uploader_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }),
   maintenanceRequestId: uuid("maintenance_request_id"),
+  depositDeductionId: uuid("deposit_deduction_id"),
   isPrivate: boolean("is_private").default(false),
   orderIndex: integer("order_index").default(0),
   archived: boolean("archived").default(false),
@@ -1825,4 +3069,230 @@ export const insertPhotoSchema = createInsertSchema(photos).omit({
 });
 
 export type InsertPhoto = z.infer<typeof insertPhotoSchema>;
-export type Photo = typeof photos.$inferSelect;
\ No newline at end of file
+export type Photo = typeof photos.$inferSelect;
+// ===================== MAINTENANCE =====================
+
+export const MAINTENANCE_CATEGORIES = [
+  "plumbing",
+  "electrical",
+  "hvac",
+  "appliance",
+  "structural",
+  "pest_control",
+  "locks_security",
+  "landscaping",
+  "other"
+] as const;
+
+export const MAINTENANCE_URGENCIES = ["low", "normal", "high", "emergency"] as const;
+
+export const MAINTENANCE_STATUSES = [
+  "submitted",
+  "triaged",
+  "assigned",
+  "scheduled",
+  "in_progress",
+  "on_hold",
+  "completed",
+  "closed",
+  "cancelled"
+] as const;
+
+// Valid maintenance status transitions (from -> to)
+export const MAINTENANCE_STATUS_TRANSITIONS: Record<string, string[]> = {
+  "submitted": ["triaged", "assigned", "cancelled"],
+  "triaged": ["assigned", "scheduled", "on_hold", "cancelled"],
+  "assigned": ["scheduled", "in_progress", "on_hold", "cancelled"],
+  "scheduled": ["in_progress", "on_hold", "cancelled"],
+  "in_progress": ["completed", "on_hold"],
+  "on_hold": ["assigned", "scheduled", "in_progress", "cancelled"],
+  "completed": ["closed", "in_progress"],
+  "closed": [],
+  "cancelled": []
+} as const;
+
+// Maintenance requests opened by tenants against an active lease
+export const maintenanceRequests = pgTable("maintenance_requests", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  leaseId: uuid("lease_id").references(() => leases.id, { onDelete: "cascade" }).notNull(),
+  propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }).notNull(),
+  tenantId: uuid("tenant_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  landlordId: uuid("landlord_id").references(() => users.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(), // plumbing, electrical, hvac, ...
+  urgency: text("urgency").default("normal"), // low, normal, high, emergency
+  status: text("status").default("submitted"),
+  entryPermission: boolean("entry_permission").default(false),
+  entryInstructions: text("entry_instructions"),
+  assignedTo: uuid("assigned_to").references(() => users.id, { onDelete: "set null" }),
+  vendor: jsonb("vendor").$type<{
+    name: string;
+    company?: string;
+    phone?: string;
+    email?: string;
+  }>(),
+  scheduledFor: timestamp("scheduled_for"),
+  statusHistory: jsonb("status_history").$type<Array<{
+    status: string;
+    changedAt: string;
+    changedBy: string;
+    note?: string;
+  }>>(),
+  resolutionNotes: text("resolution_notes"),
+  completedAt: timestamp("completed_at"),
+  closedAt: timestamp("closed_at"),
+  closedBy: uuid("closed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Maintenance comments - tenant-visible updates and internal landlord/manager notes
+export const maintenanceComments = pgTable("maintenance_comments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestId: uuid("request_id").references(() => maintenanceRequests.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  comment: text("comment").notNull(),
+  isInternal: boolean("is_internal").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+const maintenancePhotoSchema = z.object({
+  imageKitFileId: z.string().min(1),
+  url: z.string().url(),
+  thumbnailUrl: z.string().url().optional(),
+});
+
+export const insertMaintenanceRequestSchema = z.object({
+  leaseId: z.string().uuid("A valid lease is required"),
+  title: z.string().min(3, "Title must be at least 3 characters").max(200),
+  description: z.string().min(10, "Please describe the issue in at least 10 characters").max(5000),
+  category: z.enum([...MAINTENANCE_CATEGORIES] as [string, ...string[]]),
+  urgency: z.enum([...MAINTENANCE_URGENCIES] as [string, ...string[]]).default("normal"),
+  entryPermission: z.boolean().default(false),
+  entryInstructions: z.string().max(1000).optional(),
+  photos: z.array(maintenancePhotoSchema).max(10, "Cannot attach more than 10 photos").optional().default([]),
+});
+
+export const maintenanceStatusUpdateSchema = z.object({
+  status: z.enum([...MAINTENANCE_STATUSES] as [string, ...string[]]),
+  note: z.string().max(2000).optional(),
+  resolutionNotes: z.string().max(5000).optional(),
+});
+
+export const maintenanceAssignSchema = z.object({
+  assignedTo: z.string().uuid().nullable().optional(),
+  vendor: z.object({
+    name: z.string().min(1, "Vendor name is required"),
+    company: z.string().optional(),
+    phone: z.string().optional(),
+    email: z.string().email().optional(),
+  }).nullable().optional(),
+  urgency: z.enum([...MAINTENANCE_URGENCIES] as [string, ...string[]]).optional(),
+});
+
+export const maintenanceScheduleSchema = z.object({
+  scheduledFor: z.string().datetime(),
+  note: z.string().max(2000).optional(),
+});
+
+export const insertMaintenanceCommentSchema = z.object({
+  comment: z.string().min(1, "Comment is required").max(5000),
+  isInternal: z.boolean().default(false),
+});
+
+export const maintenancePhotosSchema = z.object({
+  photos: z.array(maintenancePhotoSchema).min(1).max(10),
+});
+
+export type MaintenanceRequest = typeof maintenanceRequests.$inferSelect;
+export type MaintenanceComment = typeof maintenanceComments.$inferSelect;
+export type InsertMaintenanceRequest = z.infer<typeof insertMaintenanceRequestSchema>;
+export type MaintenanceStatusUpdate = z.infer<typeof maintenanceStatusUpdateSchema>;
+export type MaintenanceAssign = z.infer<typeof maintenanceAssignSchema>;
+export type MaintenanceCategory = typeof MAINTENANCE_CATEGORIES[number];
+export type MaintenanceUrgency = typeof MAINTENANCE_URGENCIES[number];
+export type MaintenanceStatus = typeof MAINTENANCE_STATUSES[number];
+
+// ===================== TOURS =====================
+
+export const TOUR_TYPES = ["in_person", "video"] as const;
+
+export const TOUR_BOOKING_STATUSES = ["confirmed", "cancelled", "completed", "no_show"] as const;
+
+// Availability windows published by the listing agent or landlord for a property
+export const tourAvailability = pgTable("tour_availability", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }).notNull(),
+  hostId: uuid("host_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  slotMinutes: integer("slot_minutes").default(30),
+  timezone: text("timezone").default("UTC"), // IANA zone the host published in, used for emails
+  tourTypes: jsonb("tour_types").$type<string[]>().default(["in_person", "video"]),
+  meetingUrl: text("meeting_url"), // Video call link shared with video bookings
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Tour bookings - slot_key is set while a booking is confirmed so the unique
+// constraint rejects a second booking for the same property and start time
+export const tourBookings = pgTable("tour_bookings", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: uuid("property_id").references(() => properties.id, { onDelete: "cascade" }).notNull(),
+  availabilityId: uuid("availability_id").references(() => tourAvailability.id, { onDelete: "set null" }),
+  hostId: uuid("host_id").references(() => users.id, { onDelete: "set null" }),
+  renterId: uuid("renter_id").references(() => users.id, { onDelete: "set null" }),
+  tourType: text("tour_type").notNull(), // in_person, video
+  status: text("status").default("confirmed"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  slotKey: text("slot_key").unique(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone"),
+  message: text("message"),
+  meetingUrl: text("meeting_url"),
+  timezone: text("timezone").default("UTC"),
+  reminderSentAt: timestamp("reminder_sent_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: uuid("cancelled_by").references(() => users.id, { onDelete: "set null" }),
+  cancellationReason: text("cancellation_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertTourAvailabilitySchema = z.object({
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  slotMinutes: z.number().int().min(15).max(120).default(30),
+  timezone: z.string().max(64).optional(),
+  tourTypes: z.array(z.enum([...TOUR_TYPES] as [string, ...string[]])).min(1).default(["in_person", "video"]),
+  meetingUrl: z.string().url().optional(),
+  notes: z.string().max(1000).optional(),
+}).refine((data) => new Date(data.endsAt) > new Date(data.startsAt), {
+  message: "Availability must end after it starts",
+  path: ["endsAt"],
+});
+
+export const insertTourBookingSchema = z.object({
+  startsAt: z.string().datetime(),
+  tourType: z.enum([...TOUR_TYPES] as [string, ...string[]]),
+  name: z.string().min(1, "Name is required").max(200),
+  email: z.string().email("A valid email is required"),
+  phone: z.string().max(30).optional(),
+  message: z.string().max(2000).optional(),
+});
+
+export const tourBookingStatusSchema = z.object({
+  status: z.enum(["cancelled", "completed", "no_show"]),
+  reason: z.string().max(1000).optional(),
+});
+
+export type TourAvailability = typeof tourAvailability.$inferSelect;
+export type TourBooking = typeof tourBookings.$inferSelect;
+export type InsertTourAvailability = z.infer<typeof insertTourAvailabilitySchema>;
+export type InsertTourBooking = z.infer<typeof insertTourBookingSchema>;
+export type TourType = typeof TOUR_TYPES[number];
+export type TourBookingStatus = typeof TOUR_BOOKING_STATUSES[number];